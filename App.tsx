@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { HostView } from './components/HostView';
 import { MobileView } from './components/MobileView';
 import { ScreenView } from './components/ScreenView';
+import { ModeratorView } from './components/ModeratorView';
 
 const App: React.FC = () => {
   const [route, setRoute] = useState<string>('host');
@@ -9,7 +10,11 @@ const App: React.FC = () => {
   useEffect(() => {
     const handleHashChange = () => {
       const hash = window.location.hash;
-      if (hash.startsWith('#/mobile')) {
+      const params = new URLSearchParams(hash.split('?')[1]);
+      if (hash.startsWith('#/mobile') && params.get('mode') === 'moderator') {
+        // Moderator link is the player link with mode=moderator
+        setRoute('moderator');
+      } else if (hash.startsWith('#/mobile')) {
         setRoute('mobile');
       } else if (hash.startsWith('#/screen')) {
         setRoute('screen');
@@ -30,6 +35,7 @@ const App: React.FC = () => {
     <div className="bg-gray-950 min-h-screen text-gray-100">
       {route === 'host' ? <HostView /> :
        route === 'screen' ? <ScreenView /> :
+       route === 'moderator' ? <ModeratorView /> :
        <MobileView />}
     </div>
   );
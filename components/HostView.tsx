@@ -1,21 +1,35 @@
 import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import { Button } from './Button';
-import { Smartphone, ArrowRight, Settings, Users, Activity, Copy, RefreshCw, Plus, Check, Crown, Monitor } from 'lucide-react';
-import { Team, P2PSMessage, BuzzEventMessage, MessageCategory, BroadcastMessage, TeamsSyncMessage, CommandsListMessage, GetCommandsMessage } from '../types';
+import { Smartphone, ArrowRight, Settings, Users, Activity, Copy, RefreshCw, Plus, Check, Crown, Monitor, Contact, Trophy, Lock, Unlock, KeyRound } from 'lucide-react';
+import { Team, P2PSMessage, BuzzEventMessage, MessageCategory, BroadcastMessage, TeamsSyncMessage, CommandsListMessage, GetCommandsMessage, QuizStateMessage, ScoreStateMessage, ModeratorActionMessage, ModeratorStatusMessage, SessionLogEntry, SpecialQuestionInfo } from '../types';
 import { useSessionSettings } from '../hooks/useSessionSettings';
 import { useP2PHost } from '../hooks/useP2PHost';
 import { useHostModals } from '../hooks/useHostModals';
 import { HostModals } from './host';
+// Aliased: HostView has its own ConnectionStatus enum
+import { ConnectionStatus as ConnectionStatusBar } from './host/hostview/ConnectionStatus';
 import type { GamePack, GameType } from './host/OptimizedGameSelectorModal';
-import type { Round, Theme, RoundType } from './host/PackEditor';
 import { TeamListItem, SimpleClientItem, NoTeamSection, ConnectedClient } from './host/OptimizedListItems';
 import { storage, STORAGE_KEYS, generateHostUniqueId } from '../hooks/useLocalStorage';
 import { useSyncEffects } from '../hooks/useSyncEffects';
-import { generateUUID, getHealthBgColor } from '../utils';
+import { generateUUID, getHealthBgColor, fetchNetworkInfo, getLanAppOrigin, ROOM_ERROR_MESSAGES, gameSnapshotStorage, packLibraryStorage, audienceGroupStorage, type ClockSyncEstimate, type TransportKind, type GameSnapshot, type GamePlaySnapshot } from '../utils';
 import { DraggableQRCode } from './shared/DraggableQRCode';
 import { GameSession } from './host/GameSession';
+import { GameReportRecorder, exportGameReport, type QuizAnswer, type JournalScoreUpdate, type AuctionBid, type ReportFormat } from './host/game';
+import type { ModeratorCommand } from './host/GamePlay';
+import { ModeratorPanel, type ModeratorInfo } from './host/ModeratorPanel';
+import { ResumeGamePrompt } from './host/ResumeGamePrompt';
+import { SessionReportControl } from './host/SessionReportControl';
 import { preloadCriticalComponents } from '../utils/lazyLoad';
+import { EMPTY_PLAYLIST, syncPlaylist, buildPlaylistRounds } from '../utils/sessionPlaylist';
+import { getProfileDisplayName, getPreAssignedTeamId, canPlaceSuperBet, type PlayerProfile } from '../utils/playerProfiles';
+import { usePlayerProfiles } from '../hooks/usePlayerProfiles';
+import { PlayerRosterModal } from './host/PlayerRosterModal';
+import { LeagueModal } from './host/LeagueModal';
+import { LeagueTable } from './shared/LeagueTable';
+import { useLeague } from '../hooks/useLeague';
+import { screenMediaSender } from '../utils/mediaTransfer';
 
 // Helper function to get raw string from localStorage without JSON parsing
 function getRawStorageValue(key: string): string | null {
@@ -74,6 +88,8 @@ export const HostView: React.FC = () => {
     }
     return saved;
   });
+  // LAN addresses reported by the local signalling server (/api/network)
+  const [networkAddresses, setNetworkAddresses] = useState<{ name: string; address: string }[]>([]);
 
   // State
   const [clients, setClients] = useState<Map<string, ConnectedClient>>(new Map());
@@ -227,9 +243,32 @@ export const HostView: React.FC = () => {
   // Super Game state - track bets and answers from mobile clients
   const [superGameBets, setSuperGameBets] = useState<Array<{ teamId: string; bet: number; ready: boolean }>>([]);
   const [superGameAnswers, setSuperGameAnswers] = useState<Array<{ teamId: string; answer: string; revealed: boolean; submitted: boolean }>>([]);
+  // Auction bids for special questions - GamePlay keeps only bids for the current auction
+  const [auctionBids, setAuctionBids] = useState<AuctionBid[]>([]);
+  // Last GAME_STATE_UPDATE from GamePlay - tells which auction is open, resent to phones bidding on a closed one
+  const lastGameStateUpdateRef = useRef<{ type: 'GAME_STATE_UPDATE'; specialQuestion?: SpecialQuestionInfo | null } | null>(null);
+  // Crash-safe resume: snapshot of unfinished game found on startup, and progress passed to GamePlay on resume
+  const [resumeCandidate, setResumeCandidate] = useState<GameSnapshot | null>(null);
+  const [resumedGameState, setResumedGameState] = useState<GamePlaySnapshot | null>(null);
+  const latestGameStateRef = useRef<GamePlaySnapshot | null>(null);
+  // Post-game report: buzzes are recorded here, answers/questions in GamePlay and QuizPlay
+  const reportRecorderRef = useRef(new GameReportRecorder());
   // Track super game phase for responding to GET_SUPER_GAME_STATE requests
   const [superGamePhase, setSuperGamePhase] = useState<'idle' | 'placeBets' | 'showQuestion' | 'showWinner'>('idle');
   const [superGameMaxBet, setSuperGameMaxBet] = useState<number>(100);
+  // Quiz state - answers from mobile clients and last broadcast quiz state
+  const [quizAnswers, setQuizAnswers] = useState<QuizAnswer[]>([]);
+  const quizStateRef = useRef<QuizStateMessage['payload'] | null>(null);
+  // Moderator (co-host phone) state - join requests wait for host approval
+  const [pendingModerators, setPendingModerators] = useState<Map<string, ModeratorInfo>>(new Map());
+  const [moderators, setModerators] = useState<Map<string, ModeratorInfo>>(new Map());
+  const moderatorsRef = useRef<Map<string, ModeratorInfo>>(new Map());
+  moderatorsRef.current = moderators;
+  // Persistent IDs approved in this host session - reconnecting moderator is approved automatically
+  const approvedModeratorIdsRef = useRef<Set<string>>(new Set());
+  const [moderatorCommand, setModeratorCommand] = useState<ModeratorCommand | null>(null);
+  const moderatorCommandIdRef = useRef(0);
+  const [sessionLog, setSessionLog] = useState<SessionLogEntry[]>([]);
   // Trigger for state sync request (increments to trigger sync)
   const [stateSyncTrigger, setStateSyncTrigger] = useState<number>(0);
 
@@ -241,6 +280,15 @@ export const HostView: React.FC = () => {
   // Session settings using custom hook
   const { settings: sessionSettings, updateSettings: updateSessionSettings } = useSessionSettings();
 
+  // Persistent player profiles (recognised by persistentClientId) and roster screen
+  const playerProfiles = usePlayerProfiles();
+  const [showRoster, setShowRoster] = useState<boolean>(false);
+
+  // League seasons: finished games are recorded into the active season, table can be shown on the demo screen
+  const league = useLeague();
+  const [showLeague, setShowLeague] = useState<boolean>(false);
+  const [showLeagueOnScreen, setShowLeagueOnScreen] = useState<boolean>(false);
+
   // QR Code display
   const [showQRCode, setShowQRCode] = useState<boolean>(false);
   const [qrCodePosition, setQrCodePosition] = useState<{ x: number; y: number } | undefined>(undefined);
@@ -324,6 +372,58 @@ export const HostView: React.FC = () => {
     });
   }, [hostId]);
 
+  // ============================================================
+  // Moderator (co-host phone) approval and session log
+  // ============================================================
+
+  const addSessionLog = useCallback((actor: string, action: string, details?: string) => {
+    const entry: SessionLogEntry = { id: generateUUID(), timestamp: Date.now(), actor, action, details };
+    console.log('[HostView] 📝 Session log:', actor, action, details || '');
+    // Newest first, keep last 200 entries
+    setSessionLog(prev => [entry, ...prev].slice(0, 200));
+  }, []);
+
+  const sendModeratorStatus = useCallback((peerId: string, status: ModeratorStatusMessage['payload']['status']) => {
+    const statusMsg: Omit<ModeratorStatusMessage, 'id' | 'timestamp' | 'senderId'> = {
+      category: MessageCategory.CONTROL,
+      type: 'MODERATOR_STATUS',
+      payload: { status }
+    };
+    p2pHostRef.current?.sendToClient(peerId, statusMsg);
+  }, []);
+
+  const handleApproveModerator = useCallback((peerId: string) => {
+    const info = pendingModerators.get(peerId);
+    if (!info) return;
+
+    setPendingModerators(prev => {
+      const updated = new Map(prev);
+      updated.delete(peerId);
+      return updated;
+    });
+    setModerators(prev => new Map(prev).set(peerId, info));
+    if (info.persistentClientId) {
+      approvedModeratorIdsRef.current.add(info.persistentClientId);
+    }
+    sendModeratorStatus(peerId, 'approved');
+    addSessionLog('Host', 'Moderator approved', info.name);
+    // Resend current game state so moderator panel is filled immediately
+    setStateSyncTrigger(prev => prev + 1);
+  }, [pendingModerators, sendModeratorStatus, addSessionLog]);
+
+  const handleRejectModerator = useCallback((peerId: string) => {
+    const info = pendingModerators.get(peerId);
+    setPendingModerators(prev => {
+      const updated = new Map(prev);
+      updated.delete(peerId);
+      return updated;
+    });
+    sendModeratorStatus(peerId, 'rejected');
+    addSessionLog('Host', 'Moderator rejected', info?.name);
+    // Give the status message time to arrive before closing connection
+    setTimeout(() => p2pHostRef.current?.disconnectClient(peerId), 500);
+  }, [pendingModerators, sendModeratorStatus, addSessionLog]);
+
   // ============================================================
   // P2P Network Connection (WebRTC via PeerJS)
   // ============================================================
@@ -338,7 +438,7 @@ export const HostView: React.FC = () => {
       // Use localhost if no IP is locked
       return 'ws://localhost:9000';
     }
-    return undefined; // Use default public server for Internet mode
+    return undefined; // Internet mode - public server if allowed in settings
   }, [isLanMode, isIpLocked, ipInput]);
 
   // Initialize P2P host connection
@@ -347,6 +447,7 @@ export const HostView: React.FC = () => {
     isHost: true,
     isLanMode: isLanMode,
     signallingServer: getSignallingServer(),
+    allowPublicServer: sessionSettings.allowPublicSignalling,
     onMessage: useCallback((message: P2PSMessage, peerId: string) => {
       // Update lastSeen timestamp for ANY message from this client
       // This prevents active clients from being marked as stale and disconnected
@@ -357,17 +458,22 @@ export const HostView: React.FC = () => {
         }
       });
 
+      // Team of the sending phone comes from its connection - never from teamId in the payload
+      const senderClient = clients.get(peerId);
+
       // Handle incoming messages from clients
       switch (message.type) {
         case 'BUZZ': {
           const buzzMsg = message as BuzzEventMessage;
           const teamId = buzzMsg.payload.teamId;
-          const buzzTime = buzzMsg.payload.buzzTime;
+          // Convert phone clock to host clock so clash ordering is fair across devices
+          const clientBuzzTime = buzzMsg.payload.buzzTime;
+          const buzzTime = p2pHostRef.current?.toHostTime(peerId, clientBuzzTime) ?? clientBuzzTime;
 
           console.log('🔔 [HOST] BUZZ received!');
           console.log('🔔 [HOST] Client:', buzzMsg.payload.clientName, '(ID:', buzzMsg.payload.clientId + ')');
           console.log('🔔 [HOST] Team:', buzzMsg.payload.teamName, '(ID:', teamId + ')');
-          console.log('🔔 [HOST] Buzz time:', new Date(buzzTime).toLocaleTimeString());
+          console.log('🔔 [HOST] Buzz time:', new Date(buzzTime).toLocaleTimeString(), '(clock offset:', buzzTime - clientBuzzTime, 'ms)');
           console.log('🔔 [HOST] From peer:', peerId);
 
           // Use ref to get current buzzer state (not stale closure value)
@@ -387,6 +493,16 @@ export const HostView: React.FC = () => {
 
           console.log('✅ [HOST] Buzzer allowed:', isBuzzerAllowed, '(response phase:', isResponsePhase, ', not blocked:', !isTeamBlockedByHandicap + ')');
 
+          if (teamId) {
+            reportRecorderRef.current.recordBuzz({
+              teamId,
+              teamName: buzzMsg.payload.teamName || teamId,
+              playerId: buzzMsg.payload.clientId,
+              playerName: buzzMsg.payload.clientName,
+              accepted: isBuzzerAllowed
+            }, buzzTime);
+          }
+
           // Track buzzed clients using peerId (same as useP2PMessageHandlers)
           // peerId is used as key in clients Map and matches client.id in STATE_SYNC
           setBuzzedClients((prev: Map<string, number>) => {
@@ -794,27 +910,47 @@ export const HostView: React.FC = () => {
           break;
         }
         case 'SUPER_GAME_BET': {
-          // Client placed a bet in super game
-          const existingIndex = superGameBets.findIndex((b: { teamId: string }) => b.teamId === message.payload.teamId);
+          // Client placed a bet in super game - team and captain check use the sender's connection
+          if (!senderClient?.teamId) {
+            console.log('[HostView] SUPER_GAME_BET ignored (sender has no team):', peerId);
+            break;
+          }
+          const betTeamId = senderClient.teamId;
+          const bettingTeam = teams.find(t => t.id === betTeamId);
+          if (!canPlaceSuperBet(bettingTeam, senderClient.id, sessionSettings.captainOnlySuperBets)) {
+            console.log('[HostView] 👑 Ignoring super game bet from non-captain:', senderClient.id, 'team:', bettingTeam?.name);
+            break;
+          }
+          const existingIndex = superGameBets.findIndex((b: { teamId: string }) => b.teamId === betTeamId);
           if (existingIndex >= 0) {
             setSuperGameBets((prev: Array<{ teamId: string; bet: number; ready: boolean }>) => prev.map((b: { teamId: string; bet: number; ready: boolean }, i: number) =>
               i === existingIndex ? { ...b, bet: message.payload.bet, ready: true } : b
             ));
           } else {
-            setSuperGameBets((prev: Array<{ teamId: string; bet: number; ready: boolean }>) => [...prev, { teamId: message.payload.teamId, bet: message.payload.bet, ready: true }]);
+            setSuperGameBets((prev: Array<{ teamId: string; bet: number; ready: boolean }>) => [...prev, { teamId: betTeamId, bet: message.payload.bet, ready: true }]);
           }
           break;
         }
         case 'SUPER_GAME_ANSWER': {
-          // Client submitted an answer in super game
-          const existingIndex = superGameAnswers.findIndex((a: { teamId: string }) => a.teamId === message.payload.teamId);
+          // Client submitted an answer in super game - same team and captain check as the bet
+          if (!senderClient?.teamId) {
+            console.log('[HostView] SUPER_GAME_ANSWER ignored (sender has no team):', peerId);
+            break;
+          }
+          const answerTeamId = senderClient.teamId;
+          const answeringTeam = teams.find(t => t.id === answerTeamId);
+          if (!canPlaceSuperBet(answeringTeam, senderClient.id, sessionSettings.captainOnlySuperBets)) {
+            console.log('[HostView] 👑 Ignoring super game answer from non-captain:', senderClient.id, 'team:', answeringTeam?.name);
+            break;
+          }
+          const existingIndex = superGameAnswers.findIndex((a: { teamId: string }) => a.teamId === answerTeamId);
           if (existingIndex >= 0) {
             setSuperGameAnswers((prev: Array<{ teamId: string; answer: string; revealed: boolean; submitted: boolean }>) => prev.map((a: { teamId: string; answer: string; revealed: boolean; submitted: boolean }, i: number) =>
               i === existingIndex ? { ...a, answer: message.payload.answer, submitted: true } : a
             ));
           } else {
             setSuperGameAnswers((prev: Array<{ teamId: string; answer: string; revealed: boolean; submitted: boolean }>) => [...prev, {
-              teamId: message.payload.teamId,
+              teamId: answerTeamId,
               answer: message.payload.answer,
               revealed: false,
               submitted: true
@@ -822,6 +958,57 @@ export const HostView: React.FC = () => {
           }
           break;
         }
+        case 'AUCTION_BID': {
+          // Client bid (or passed) in an auction question - one bid per team, last one wins
+          if (!senderClient?.teamId) {
+            console.log('[HostView] AUCTION_BID ignored (sender has no team):', peerId);
+            break;
+          }
+          const openAuction = lastGameStateUpdateRef.current?.specialQuestion;
+          if (openAuction?.kind !== 'auction' || openAuction.stage !== 'bidding' || openAuction.questionId !== message.payload.questionId) {
+            // Phone still shows a closed auction - send it the current game state
+            console.log('[HostView] AUCTION_BID rejected (auction closed):', message.payload.questionId, 'from:', peerId);
+            if (lastGameStateUpdateRef.current) {
+              p2pHost.sendToClient(peerId, {
+                category: MessageCategory.EVENT,
+                type: 'BROADCAST',
+                payload: lastGameStateUpdateRef.current
+              });
+            }
+            break;
+          }
+          const bid: AuctionBid = { ...message.payload, teamId: senderClient.teamId, placedAt: Date.now() };
+          console.log('[HostView] 🔨 Auction bid:', bid);
+          setAuctionBids(prev => [
+            ...prev.filter(b => b.teamId !== bid.teamId && b.questionId === bid.questionId),
+            bid
+          ]);
+          break;
+        }
+        case 'QUIZ_ANSWER': {
+          // Client submitted a quiz answer - accepted only while the question is open
+          const quizState = quizStateRef.current;
+          if (!quizState || quizState.phase !== 'question' || quizState.questionId !== message.payload.questionId) {
+            console.log('[HostView] QUIZ_ANSWER ignored (answers locked):', message.payload);
+            break;
+          }
+          if (!senderClient?.teamId) {
+            console.log('[HostView] QUIZ_ANSWER ignored (sender has no team):', peerId);
+            break;
+          }
+          const answer: QuizAnswer = {
+            teamId: senderClient.teamId,
+            questionId: message.payload.questionId,
+            answer: message.payload.answer,
+            optionIndex: message.payload.optionIndex,
+            submittedAt: Date.now()
+          };
+          setQuizAnswers(prev => [
+            ...prev.filter(a => !(a.teamId === answer.teamId && a.questionId === answer.questionId)),
+            answer
+          ]);
+          break;
+        }
         case 'TIMER_PHASE_SWITCH': {
           // Demo screen is requesting host to switch timer phase
           // This happens when demo screen's local timer finishes yellow phase
@@ -869,48 +1056,82 @@ export const HostView: React.FC = () => {
             }
           };
           p2pHost.sendToClient(peerId, stateSync);
+
+          // Resend current quiz state so reconnected clients get the open question
+          if (quizStateRef.current && isSessionActiveRef.current) {
+            p2pHost.sendToClient(peerId, {
+              category: MessageCategory.STATE,
+              type: 'QUIZ_STATE',
+              payload: quizStateRef.current
+            });
+          }
           break;
         }
+        case 'MEDIA_INVENTORY':
+        case 'MEDIA_CHUNK_ACK':
+          // Demo screen answers to chunked media transfer
+          screenMediaSender.handleMessage(message, peerId);
+          break;
         case 'MODERATOR_ACTION': {
-          // Handle moderator control actions
-          console.log('[HostView] Moderator action received:', message.payload);
-          const { action, data } = message.payload;
-
-          // Handle different moderator actions
-          switch (action) {
-            case 'correct_answer':
-              // Award points to answering team
-              if (answeringTeamId) {
-                console.log('[HostView] Moderator: Correct answer for team', answeringTeamId);
-                // Trigger correct answer logic in GameSession via state change
-                // This will be handled by GameSession component
-              }
-              break;
-            case 'incorrect_answer':
-              // Deduct points from answering team
-              if (answeringTeamId) {
-                console.log('[HostView] Moderator: Incorrect answer for team', answeringTeamId);
-              }
-              break;
-            case 'show_answer':
-              // Show the correct answer
-              console.log('[HostView] Moderator: Show answer requested');
-              break;
-            case 'start_question':
-            case 'skip_question':
-            case 'award_points':
-            case 'deduct_points':
-            case 'timer_control':
-              console.log('[HostView] Moderator action:', action, data);
-              break;
+          // Only approved moderators may control the game
+          const moderator = moderatorsRef.current.get(peerId);
+          if (!moderator) {
+            console.warn('[HostView] Ignoring MODERATOR_ACTION from non-approved peer:', peerId);
+            break;
           }
+          const actionPayload = (message as ModeratorActionMessage).payload;
+          const { action } = actionPayload;
+          console.log('[HostView] Moderator action received:', moderator.name, actionPayload);
+
+          // Forwarded to GamePlay which applies it exactly like host key/mouse controls
+          moderatorCommandIdRef.current += 1;
+          setModeratorCommand({ ...actionPayload, id: moderatorCommandIdRef.current });
+
+          const actionLabels: Record<string, string> = {
+            correct_answer: 'Correct answer',
+            incorrect_answer: 'Incorrect answer',
+            show_answer: 'Show answer',
+            skip_question: 'Skip question',
+            start_question: 'Start question',
+            award_points: 'Award points',
+            deduct_points: 'Deduct points',
+            timer_control: 'Timer'
+          };
+          let details: string | undefined;
+          if (actionPayload.action === 'award_points' || actionPayload.action === 'deduct_points') {
+            const { teamId, points } = actionPayload.data;
+            const teamName = teams.find(t => t.id === teamId)?.name || teamId;
+            details = `${teamName}: ${action === 'award_points' ? '+' : '-'}${points}`;
+          } else if (actionPayload.action === 'timer_control') {
+            details = actionPayload.data.paused ? 'paused' : 'resumed';
+          } else if ((action === 'correct_answer' || action === 'incorrect_answer') && answeringTeamId) {
+            details = teams.find(t => t.id === answeringTeamId)?.name;
+          }
+          addSessionLog(moderator.name, actionLabels[action] || action, details);
           break;
         }
         default:
                       }
-                  }, [updateClients, superGameBets, superGameAnswers, isSessionActive, buzzerState, teams, clients, answeringTeamId, activeTeamIds, answeringTeamLockedIn, sessionSettings, clashOccurredForQuestion]),
-    onClientConnected: useCallback((clientId: string, data: { name: string; teamId?: string; persistentClientId?: string }) => {
+                  }, [updateClients, superGameBets, superGameAnswers, isSessionActive, buzzerState, teams, clients, answeringTeamId, activeTeamIds, answeringTeamLockedIn, sessionSettings, clashOccurredForQuestion, addSessionLog]),
+    onClientConnected: useCallback((clientId: string, data: { name: string; teamId?: string; persistentClientId?: string; isModerator?: boolean; transport: TransportKind }) => {
       console.log('[HostView] Client connected via handshake:', clientId, 'name:', data.name, 'persistentId:', data.persistentClientId, 'teamId:', data.teamId);
+
+      // Moderator phones are not players - keep them out of clients/teams
+      if (data.isModerator) {
+        const info: ModeratorInfo = { peerId: clientId, name: data.name, persistentClientId: data.persistentClientId };
+        if (data.persistentClientId && approvedModeratorIdsRef.current.has(data.persistentClientId)) {
+          console.log('[HostView] Moderator reconnected, auto-approving:', data.name);
+          setModerators(prev => new Map(prev).set(clientId, info));
+          sendModeratorStatus(clientId, 'approved');
+          addSessionLog(data.name, 'Moderator reconnected');
+          setStateSyncTrigger(prev => prev + 1);
+        } else {
+          console.log('[HostView] Moderator join request:', data.name);
+          setPendingModerators(prev => new Map(prev).set(clientId, info));
+          sendModeratorStatus(clientId, 'pending');
+        }
+        return;
+      }
       console.log('[HostView] Is ScreenView check:', {
         isScreenViewName: data.name === 'ScreenView',
         hasPersistentId: !!data.persistentClientId,
@@ -928,6 +1149,8 @@ export const HostView: React.FC = () => {
         setScreenViewClient(clientId);
         // Update ref immediately for BUZZ_EVENT handler
         screenViewPeerIdRef.current = clientId;
+        // Screen may have reloaded - ask which media of the current question it still needs
+        screenMediaSender.resync(clientId);
         // Add ScreenView to clients Map so it can be found dynamically
         updateClients((clientsMap: Map<string, ConnectedClient>) => {
           clientsMap.set(clientId, {
@@ -960,6 +1183,10 @@ export const HostView: React.FC = () => {
 
       // Check if this is a returning client (same persistent ID)
       if (data.persistentClientId) {
+        // Persistent profile: host nickname, avatar and pre-assigned team
+        const profile = playerProfiles.recordJoin(data.persistentClientId, data.name);
+        const phoneTeamId = (data.teamId && data.teamId.startsWith('team_')) ? data.teamId : null;
+
         // Look for existing client with this persistent ID (including disconnected clients)
         let oldPeerId: string | null = null;
         let existingClient: ConnectedClient | null = null;
@@ -974,6 +1201,7 @@ export const HostView: React.FC = () => {
 
         if (existingClient && oldPeerId) {
           console.log('[HostView] Returning client detected:', existingClient.name, 'old peerId:', oldPeerId, 'new peerId:', clientId, 'teamId:', data.teamId);
+          const preAssignedTeamId = getPreAssignedTeamId(profile, teams, phoneTeamId || existingClient.teamId);
 
           // Update existing client's peer ID and last seen
           updateClients((prev: Map<string, ConnectedClient>) => {
@@ -984,13 +1212,19 @@ export const HostView: React.FC = () => {
               // Add with new peer ID
               client.peerId = clientId;
               client.lastSeen = Date.now();
-              client.name = data.name; // Update name in case it changed
+              client.name = getProfileDisplayName(profile); // Update name in case it changed (host nickname wins)
+              client.avatar = profile.avatar;
+              client.color = profile.color;
+              client.transport = data.transport;
               // Update teamId only if it's a proper team ID (starts with "team_")
               // Temporary team names from localStorage should not override the client's team
               if (data.teamId && data.teamId.startsWith('team_')) {
                 client.teamId = data.teamId;
+              } else if (preAssignedTeamId) {
+                client.teamId = preAssignedTeamId;
               }
-              prev.set(clientId, client);
+              // New object so memoized list items pick up the transport change
+              prev.set(clientId, { ...client });
             }
           });
 
@@ -998,6 +1232,9 @@ export const HostView: React.FC = () => {
           // Don't queue for temporary team names - client will receive proper ID through normal flow
           if (data.teamId && data.teamId.startsWith('team_')) {
             setPendingConfirmations((prev: Map<string, string>) => new Map(prev).set(clientId, data.teamId!));
+          } else if (preAssignedTeamId) {
+            console.log('[HostView] Returning client pre-assigned to team from roster:', preAssignedTeamId);
+            setPendingConfirmations((prev: Map<string, string>) => new Map(prev).set(clientId, preAssignedTeamId));
           } else if (data.teamId && !data.teamId.startsWith('team_')) {
             console.log('[HostView] Skipping team confirmation for returning client with temporary team ID:', data.teamId);
           }
@@ -1034,14 +1271,18 @@ export const HostView: React.FC = () => {
 
         // New client with persistent ID - add immediately for reconnection support
         console.log('[HostView] New client with persistent ID, adding to client list:', data.name, 'persistentId:', data.persistentClientId);
+        const preAssignedTeamId = getPreAssignedTeamId(profile, teams, phoneTeamId);
         updateClients((prev: Map<string, ConnectedClient>) => {
           const newClient: ConnectedClient = {
             id: data.persistentClientId!,
             peerId: clientId,
-            name: data.name,
+            name: getProfileDisplayName(profile),
+            avatar: profile.avatar,
+            color: profile.color,
+            transport: data.transport,
             joinedAt: Date.now(),
             lastSeen: Date.now(),
-            teamId: (data.teamId && data.teamId.startsWith('team_')) ? data.teamId : null,
+            teamId: phoneTeamId || preAssignedTeamId || null,
             connectionQuality: {
               rtt: 0,
               packetLoss: 0,
@@ -1057,6 +1298,9 @@ export const HostView: React.FC = () => {
         // Don't queue for temporary team names - client will receive proper ID through CREATE_TEAM flow
         if (data.teamId && data.teamId.startsWith('team_')) {
           setPendingConfirmations((prev: Map<string, string>) => new Map(prev).set(clientId, data.teamId!));
+        } else if (preAssignedTeamId) {
+          console.log('[HostView] New client pre-assigned to team from roster:', preAssignedTeamId);
+          setPendingConfirmations((prev: Map<string, string>) => new Map(prev).set(clientId, preAssignedTeamId));
         } else if (data.teamId && !data.teamId.startsWith('team_')) {
           console.log('[HostView] Skipping team confirmation for temporary team ID:', data.teamId);
         }
@@ -1099,6 +1343,7 @@ export const HostView: React.FC = () => {
           id: clientId, // Use peerId as id for now
           peerId: clientId,
           name: data.name,
+          transport: data.transport,
           joinedAt: Date.now(),
           lastSeen: Date.now(),
           teamId: data.teamId,
@@ -1113,15 +1358,43 @@ export const HostView: React.FC = () => {
         prev.set(clientId, newClient);
         console.log('[HostView] Client added to Map, total clients:', prev.size);
       });
-    }, [clients, updateClients, setPendingConfirmations]),
+    }, [clients, teams, updateClients, setPendingConfirmations, sendModeratorStatus, addSessionLog, playerProfiles.recordJoin]),
+                onClockSyncUpdate: useCallback((clientId: string, estimate: ClockSyncEstimate) => {
+      // Store offset estimate on client (new object so memoized list items re-render)
+      updateClients((prev: Map<string, ConnectedClient>) => {
+        const client = prev.get(clientId);
+        if (client) {
+          prev.set(clientId, {
+            ...client,
+            clockSync: estimate,
+            connectionQuality: { ...client.connectionQuality, rtt: estimate.rtt, lastPing: estimate.updatedAt }
+          });
+        }
+      });
+    }, [updateClients]),
                 onClientDisconnected: useCallback((clientId: string) => {
       // Clear demo screen if this was it
       if (screenViewClient === clientId) {
         setScreenViewClient(null);
         screenViewPeerIdRef.current = null;
       }
+      const moderator = moderatorsRef.current.get(clientId);
+      if (moderator) {
+        setModerators(prev => {
+          const updated = new Map(prev);
+          updated.delete(clientId);
+          return updated;
+        });
+        addSessionLog(moderator.name, 'Moderator left');
+      }
+      setPendingModerators(prev => {
+        if (!prev.has(clientId)) return prev;
+        const updated = new Map(prev);
+        updated.delete(clientId);
+        return updated;
+      });
       removeClient(clientId);
-    }, [screenViewClient, removeClient]),
+    }, [screenViewClient, removeClient, addSessionLog]),
                 onError: useCallback((error: Error) => {
       console.error('[HostView] P2P error:', error);
     }, []),
@@ -1132,6 +1405,16 @@ export const HostView: React.FC = () => {
     p2pHostRef.current = p2pHost;
   }, [p2pHost]);
 
+  // Local question media goes to the demo screen in chunks (see utils/mediaTransfer.ts)
+  useEffect(() => {
+    screenMediaSender.attach({
+      getScreens: () => screenViewPeerIdRef.current ? [screenViewPeerIdRef.current] : [],
+      send: (peerId, message) => p2pHostRef.current?.sendToClient(peerId, message) ?? false,
+      sendBinary: (peerId, message) => p2pHostRef.current?.sendBinaryToClient(peerId, message) ?? false
+    });
+    return () => screenMediaSender.attach(null);
+  }, []);
+
   // Keep commands array in sync with teams array
   // This ensures that commands created by guests are also available for GET_COMMANDS requests
   useEffect(() => {
@@ -1166,7 +1449,8 @@ export const HostView: React.FC = () => {
           type: 'TEAM_CONFIRMED',
           payload: {
             clientId: clientId,
-            teamId: teamId
+            teamId: teamId,
+            teamName: teams.find(t => t.id === teamId)?.name
           }
         });
         console.log('[HostView] Sent TEAM_CONFIRMED to', clientId, 'with teamId:', teamId);
@@ -1174,7 +1458,7 @@ export const HostView: React.FC = () => {
       // Clear the queue after sending
       setPendingConfirmations(new Map());
     }
-  }, [p2pHost.isReady, pendingConfirmations, p2pHost.sendToClient]);
+  }, [p2pHost.isReady, pendingConfirmations, p2pHost.sendToClient, teams]);
 
   // Handle pending GET_COMMANDS requests
   useEffect(() => {
@@ -1360,22 +1644,58 @@ export const HostView: React.FC = () => {
     });
   }, [clients.size, teams.length, stateSyncTrigger, p2pHost.isReady, isSessionActive, p2pHost.connectedClients, buzzerState]);
 
+  // Auto-detect LAN IP from the signalling server: lock it if nothing is locked
+  // or the locked IP no longer belongs to this machine (new DHCP lease at the venue)
+  useEffect(() => {
+    let cancelled = false;
+    fetchNetworkInfo().then(info => {
+      if (cancelled || !info || info.addresses.length === 0) return;
+      setNetworkAddresses(info.addresses);
+      const addresses = info.addresses.map(a => a.address);
+      const lockedIp = storage.get<string>(STORAGE_KEYS.LOCKED_IP);
+      if (lockedIp && addresses.includes(lockedIp)) return;
+      // Page opened via LAN address - that interface is the one phones can reach
+      const detectedIp = addresses.includes(window.location.hostname) ? window.location.hostname : addresses[0];
+      console.log('[HostView] 🌐 LAN IP detected:', detectedIp, lockedIp ? `(was ${lockedIp})` : '');
+      setIpInput(detectedIp);
+      setIsIpLocked(true);
+      storage.set(STORAGE_KEYS.LOCKED_IP, detectedIp);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Join code of the signalling room - phones join the room, not just the host ID
+  const roomQuery = isLanMode && p2pHost.room ? `&room=${encodeURIComponent(p2pHost.room.code)}` : '';
+
   // Update invitation URL when settings change
   useEffect(() => {
     if (!isIpLocked && !isLanMode) {
       // Internet mode - use public signalling server
-      // Format: http://localhost:3000#/mobile?host=HOST_ID&session=SESSION_ID
-      // NO signalling parameter - client will use default public server
-      const inviteUrl = `${window.location.origin}#/mobile?host=${encodeURIComponent(hostId)}&session=${encodeURIComponent(sessionId)}`;
+      // Format: http://localhost:3000#/mobile?host=HOST_ID&session=SESSION_ID&cloud=1
+      // NO signalling parameter, cloud=1 - client uses the public server instead of a LAN one
+      const inviteUrl = `${window.location.origin}#/mobile?host=${encodeURIComponent(hostId)}&session=${encodeURIComponent(sessionId)}&cloud=1`;
       setFinalQrUrl(inviteUrl);
       storage.set(STORAGE_KEYS.QR_URL, inviteUrl);
     } else if (isIpLocked && isLanMode && ipInput) {
       // LAN mode - update URL when session ID changes
-      const inviteUrl = `http://${ipInput}:3000#/mobile?host=${encodeURIComponent(hostId)}&signalling=${encodeURIComponent(ipInput)}&session=${encodeURIComponent(sessionId)}`;
+      const inviteUrl = `${getLanAppOrigin(ipInput)}#/mobile?host=${encodeURIComponent(hostId)}&signalling=${encodeURIComponent(ipInput)}&session=${encodeURIComponent(sessionId)}${roomQuery}`;
       setFinalQrUrl(inviteUrl);
       storage.set(STORAGE_KEYS.QR_URL, inviteUrl);
     }
-  }, [hostId, isLanMode, isIpLocked, sessionId, ipInput]);
+  }, [hostId, isLanMode, isIpLocked, sessionId, ipInput, roomQuery]);
+
+  // Lock signalling room for the game (setting) and open it again back in the lobby
+  const roomAutoLockedRef = useRef(false);
+  useEffect(() => {
+    // Once per game - a room the host unlocked by hand during the game stays open
+    if (isSessionActive && sessionSettings.lockRoomOnStart && p2pHost.room && !p2pHost.room.locked && !roomAutoLockedRef.current) {
+      roomAutoLockedRef.current = true;
+      p2pHost.setRoomLocked(true);
+    } else if (!isSessionActive && roomAutoLockedRef.current) {
+      roomAutoLockedRef.current = false;
+      p2pHost.setRoomLocked(false);
+    }
+  }, [isSessionActive, p2pHost.room, sessionSettings.lockRoomOnStart, p2pHost.setRoomLocked]);
 
   // Clear old signalling parameter from storage when switching to Internet mode
   useEffect(() => {
@@ -1410,80 +1730,12 @@ export const HostView: React.FC = () => {
     setTimeout(() => setScreenLinkCopied(false), 2000);
   }, [finalQrUrl]);
 
-  // Helper to merge selected packs into a single session pack
+  // Session pack: rounds of selected packs in the order of the session playlist
   const mergedSessionPack = useMemo((): GamePack | undefined => {
     const selectedPacksList = hostModals.selectedPacks.filter(p => hostModals.selectedPackIds.includes(p.id));
     if (selectedPacksList.length === 0) return undefined;
 
-    // Helper to count rounds
-    const getRoundCount = (pack: GamePack): number => {
-      return pack.rounds?.length || 0;
-    };
-
-    // Find max round count across all packs
-    const maxRounds = Math.max(...selectedPacksList.map((p: GamePack) => getRoundCount(p)), 0);
-
-    // Merge packs into a single session pack
-    const mergedRounds: Round[] = [];
-
-    for (let roundNum = 1; roundNum <= maxRounds; roundNum++) {
-      const mergedThemes: Theme[] = [];
-
-      // Collect round settings from the first pack that has this round
-      let roundSettings: {
-        name?: string;
-        type?: RoundType;
-        cover?: { type: 'url' | 'file'; value: string };
-        readingTimePerLetter?: number;
-        responseWindow?: number;
-        handicapEnabled?: boolean;
-        handicapDelay?: number;
-      } = {};
-
-      selectedPacksList.forEach(pack => {
-        const round = pack.rounds?.[roundNum - 1];
-        if (round) {
-          // Copy round settings from first pack that has them
-          if (Object.keys(roundSettings).length === 0) {
-            roundSettings = {
-              name: round.name,
-              type: round.type,
-              cover: round.cover,
-              readingTimePerLetter: round.readingTimePerLetter,
-              responseWindow: round.responseWindow,
-              handicapEnabled: round.handicapEnabled,
-              handicapDelay: round.handicapDelay,
-            };
-          }
-
-          if (round.themes) {
-            round.themes.forEach((theme: Theme) => {
-              // Create unique theme ID per pack to avoid conflicts
-              const uniqueThemeId = `${pack.id}-${theme.id}`;
-              mergedThemes.push({
-                ...theme,
-                id: uniqueThemeId,
-              });
-            });
-          }
-        }
-      });
-
-      if (mergedThemes.length > 0) {
-        mergedRounds.push({
-          id: generateUUID(),
-          number: roundNum,
-          name: roundSettings.name || `Round ${roundNum}`,
-          type: roundSettings.type,
-          cover: roundSettings.cover,
-          readingTimePerLetter: roundSettings.readingTimePerLetter,
-          responseWindow: roundSettings.responseWindow,
-          handicapEnabled: roundSettings.handicapEnabled,
-          handicapDelay: roundSettings.handicapDelay,
-          themes: mergedThemes,
-        });
-      }
-    }
+    const mergedRounds = buildPlaylistRounds(hostModals.selectedPlaylist, selectedPacksList);
 
     // Create merged pack for session
     const sessionPack: GamePack = {
@@ -1499,7 +1751,7 @@ export const HostView: React.FC = () => {
     };
 
     return sessionPack;
-  }, [hostModals.selectedPacks, hostModals.selectedPackIds, hostModals.selectedGame]);
+  }, [hostModals.selectedPacks, hostModals.selectedPackIds, hostModals.selectedPlaylist, hostModals.selectedGame]);
 
   // Drag and drop state
   const [draggedClientId, setDraggedClientId] = useState<string | null>(null);
@@ -1666,6 +1918,9 @@ export const HostView: React.FC = () => {
         // If pressed 3 times, exit session
         if (escPressCount >= 3) {
           setIsSessionActive(false);
+          // Intentional exit - drop crash-safe snapshot
+          setResumedGameState(null);
+          gameSnapshotStorage.clear();
           escPressCount = 0;
           escTimeout = null;
           return;
@@ -1726,6 +1981,50 @@ export const HostView: React.FC = () => {
     }
   }, [showQRCode, qrCodePosition, p2pHost.isReady, p2pHost.broadcast]);
 
+  // Handle L key for league table on the demo screen (global)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'l' || e.key === 'L' || e.key === 'д' || e.key === 'Д') {
+        if (
+          !(
+            e.target instanceof HTMLInputElement ||
+            e.target instanceof HTMLTextAreaElement ||
+            (e.target as HTMLElement).isContentEditable
+          ) && league.activeSeason
+        ) {
+          e.preventDefault();
+          setShowLeagueOnScreen(prev => !prev);
+          console.log(!showLeagueOnScreen ? '🏆 Showing league table' : '❌ Hiding league table');
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [showLeagueOnScreen, league.activeSeason]);
+
+  // Broadcast league table to ScreenView
+  useEffect(() => {
+    if (p2pHost.isReady) {
+      const visible = showLeagueOnScreen && !!league.activeSeason;
+      p2pHost.broadcast({
+        category: 'state' as MessageCategory,
+        type: 'LEAGUE_TABLE',
+        payload: {
+          visible,
+          seasonName: league.activeSeason?.name,
+          rows: visible ? league.standings.map(row => ({
+            rank: row.rank,
+            teamName: row.teamName,
+            points: row.points,
+            gamesPlayed: row.gamesPlayed,
+            wins: row.wins
+          })) : undefined
+        }
+      });
+    }
+  }, [showLeagueOnScreen, league.activeSeason, league.standings, p2pHost.isReady, p2pHost.broadcast]);
+
   // Calculate stats (excluding ScreenView)
   const clientStats = useMemo(() => {
     const clientsArray = Array.from(clients.values()).filter(client => !client.id.startsWith('screen_')) as ConnectedClient[];
@@ -1742,6 +2041,10 @@ export const HostView: React.FC = () => {
     // Memoization: Check if state changed significantly to avoid duplicate broadcasts
     const lastSent = lastSentBuzzerStateRef.current;
     const phaseChanged = lastSent.timerPhase !== timerPhase;
+
+    if (phaseChanged && timerPhase === 'response') {
+      reportRecorderRef.current.markResponseStart();
+    }
     const activeChanged = lastSent.active !== state.active;
     const pausedChanged = lastSent.isPaused !== isPaused;
 
@@ -1907,6 +2210,9 @@ export const HostView: React.FC = () => {
   // Helper function to broadcast arbitrary message (kept for interface compatibility)
   const broadcastMessage = useCallback((message: unknown) => {
     console.log('[HostView] broadcastMessage called with:', message);
+    if ((message as { type?: string })?.type === 'GAME_STATE_UPDATE') {
+      lastGameStateUpdateRef.current = message as typeof lastGameStateUpdateRef.current;
+    }
 
     // Broadcast via P2P to all connected clients
     if (p2pHost.isReady) {
@@ -1924,11 +2230,190 @@ export const HostView: React.FC = () => {
     }
   }, [p2pHost.isReady, p2pHost.broadcast]);
 
+  // Broadcast quiz state from QuizPlay to all clients
+  const handleQuizStateChange = useCallback((state: QuizStateMessage['payload']) => {
+    quizStateRef.current = state;
+    if (p2pHost.isReady) {
+      const quizStateMsg: Omit<QuizStateMessage, 'id' | 'timestamp' | 'senderId'> = {
+        category: MessageCategory.STATE,
+        type: 'QUIZ_STATE',
+        payload: state
+      };
+      p2pHost.broadcast(quizStateMsg);
+    }
+  }, [p2pHost.isReady, p2pHost.broadcast]);
+
+  // ============================================================
+  // Crash-safe game snapshot (resume after host page reload)
+  // ============================================================
+
+  // Look for unfinished game on startup (quiz progress is not saved - nothing to resume)
+  useEffect(() => {
+    gameSnapshotStorage.load().then(snapshot => {
+      if (snapshot && snapshot.selection.packs.length > 0 && snapshot.selection.gameType !== 'quiz') {
+        console.log('[HostView] ♻️ Found unfinished game snapshot:', {
+          gameType: snapshot.selection.gameType,
+          savedAt: new Date(snapshot.savedAt).toISOString(),
+          hasState: !!snapshot.state
+        });
+        setResumeCandidate(snapshot);
+      }
+    });
+  }, []);
+
+  // Persist GamePlay progress on every state transition
+  const handleSnapshotChange = useCallback((snapshot: GamePlaySnapshot) => {
+    latestGameStateRef.current = snapshot;
+    gameSnapshotStorage.saveState(snapshot);
+  }, []);
+
+  // Opened question is remembered for the audience group chosen in game selector
+  const handleQuestionShown = useCallback((questionId: string) => {
+    const groupId = storage.get<string>(STORAGE_KEYS.ACTIVE_AUDIENCE_GROUP);
+    if (groupId) audienceGroupStorage.recordPlayed(groupId, [questionId]);
+  }, []);
+
+  // Winner screen reached - record final standings into the active league season (once per session)
+  const handleGameFinished = useCallback((finalScores: { teamId: string; teamName: string; score: number }[]) => {
+    league.recordGame(sessionVersion, finalScores, mergedSessionPack?.name);
+  }, [league.recordGame, sessionVersion, mergedSessionPack?.name]);
+
+  // Download the report recorded so far - scores from the quiz state or the last GamePlay snapshot
+  const handleExportReport = useCallback((format: ReportFormat) => {
+    const scores = hostModals.selectedGame === 'quiz'
+      ? (quizStateRef.current?.teamScores || []).map(t => ({ teamId: t.id, teamName: t.name, score: t.score }))
+      : latestGameStateRef.current?.teamScores || [];
+    const report = reportRecorderRef.current.buildReport(scores);
+    console.log('[HostView] 📊 Exporting game report:', format, report.questions.length, 'questions');
+    exportGameReport(report, format);
+  }, [hostModals.selectedGame]);
+
+  const handleStartSession = useCallback(() => {
+    // Generate new session version to help clients detect this is a fresh session
+    const newVersion = `v_${Date.now()}`;
+    setSessionVersion(newVersion);
+    storage.set(STORAGE_KEYS.SESSION_VERSION, newVersion);
+
+    // New game replaces any unfinished one
+    setResumeCandidate(null);
+    setResumedGameState(null);
+    latestGameStateRef.current = null;
+    const selectedPacksList = hostModals.selectedPacks.filter(p => hostModals.selectedPackIds.includes(p.id));
+    // Only GamePlay games can be resumed - QuizPlay keeps its progress in memory
+    if (selectedPacksList.length > 0 && hostModals.selectedGame !== 'quiz') {
+      gameSnapshotStorage.saveSelection({
+        gameType: hostModals.selectedGame,
+        packIds: hostModals.selectedPackIds,
+        packs: selectedPacksList,
+        playlist: hostModals.selectedPlaylist,
+        sessionVersion: newVersion
+      });
+    } else {
+      gameSnapshotStorage.clear();
+    }
+    if (selectedPacksList.length > 0) {
+      packLibraryStorage.markPlayed(selectedPacksList.map(p => p.id));
+    }
+    reportRecorderRef.current.start(selectedPacksList.map(p => p.name).join(', '), hostModals.selectedGame);
+    setIsSessionActive(true);
+  }, [hostModals.selectedPacks, hostModals.selectedPackIds, hostModals.selectedPlaylist, hostModals.selectedGame]);
+
+  // Host left the game intentionally - nothing to resume
+  const handleEndSession = useCallback(() => {
+    setIsSessionActive(false);
+    setResumedGameState(null);
+    latestGameStateRef.current = null;
+    lastGameStateUpdateRef.current = null;
+    gameSnapshotStorage.clear();
+  }, []);
+
+  const handleResumeGame = useCallback(() => {
+    if (!resumeCandidate) return;
+    const { selection, state } = resumeCandidate;
+    console.log('[HostView] ♻️ Resuming game from snapshot');
+
+    // Older snapshots have no playlist - rounds of the packs in selection order
+    const playlist = syncPlaylist(selection.playlist ?? EMPTY_PLAYLIST, selection.packs.filter(p => selection.packIds.includes(p.id)));
+    hostModals.handleSaveGameSelection(selection.gameType, selection.packIds, selection.packs, playlist);
+    // Keep session version of interrupted game so phones don't reset their team selection
+    if (selection.sessionVersion) {
+      setSessionVersion(selection.sessionVersion);
+      storage.set(STORAGE_KEYS.SESSION_VERSION, selection.sessionVersion);
+    }
+    if (state) {
+      setSuperGameBets(state.superGameBets);
+      setSuperGameAnswers(state.superGameAnswers.map(a => ({ ...a, submitted: a.submitted ?? false })));
+    }
+    latestGameStateRef.current = state;
+    // Report covers only the part played after reload - buzz history is not persisted
+    reportRecorderRef.current.start(selection.packs.map(p => p.name).join(', '), selection.gameType);
+    setResumedGameState(state);
+    setResumeCandidate(null);
+    setIsSessionActive(true);
+  }, [resumeCandidate, hostModals.handleSaveGameSelection]);
+
+  const handleDiscardResume = useCallback(() => {
+    setResumeCandidate(null);
+    gameSnapshotStorage.clear();
+  }, []);
+
+  // After resume re-broadcast full state every time phones/demo screen reconnect
+  useEffect(() => {
+    if (!resumedGameState || !isSessionActive || !p2pHost.isReady) return;
+
+    const scores = new Map((latestGameStateRef.current?.teamScores || []).map(t => [t.teamId, t.score]));
+    const stateSync: Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'> = {
+      category: MessageCategory.SYNC,
+      type: 'STATE_SYNC',
+      payload: {
+        isSessionActive: true,
+        buzzerState: buzzerState,
+        teams: teams.map(t => ({ ...t, score: scores.get(t.id) ?? t.score ?? 0 })),
+        clients: Array.from(clients.values())
+          .filter((client: ConnectedClient) => !client.id.startsWith('screen_'))
+          .map((client: ConnectedClient) => ({
+            id: client.id,
+            peerId: client.peerId,
+            name: client.name,
+            teamId: client.teamId,
+            connectionQuality: client.connectionQuality
+          })),
+        currentQuestion: null,
+        answeringTeamId: answeringTeamId,
+        activeTeamIds: Array.from(activeTeamIds),
+        answeringTeamLockedIn: answeringTeamLockedIn
+      }
+    };
+    console.log('[HostView] ♻️ Re-broadcasting STATE_SYNC after resume, peers:', p2pHost.connectedClients.length);
+    p2pHost.broadcast(stateSync);
+    // GamePlay resends board, scores and open question
+    setStateSyncTrigger(prev => prev + 1);
+  }, [resumedGameState, isSessionActive, p2pHost.isReady, p2pHost.connectedClients.length]);
+
+  // Scores changed by undo/redo in GamePlay - notify phones and demo screen
+  const handleScoreUpdate = useCallback((updates: JournalScoreUpdate[]) => {
+    if (!p2pHost.isReady) return;
+    updates.forEach(update => {
+      const scoreMsg: Omit<ScoreStateMessage, 'id' | 'timestamp' | 'senderId'> = {
+        category: MessageCategory.STATE,
+        type: 'UPDATE_SCORE',
+        payload: update
+      };
+      p2pHost.broadcast(scoreMsg);
+    });
+  }, [p2pHost.isReady, p2pHost.broadcast]);
+
   // Reset super game state when session starts/ends
   useEffect(() => {
     if (!isSessionActive) {
       setSuperGameBets([]);
       setSuperGameAnswers([]);
+      setQuizAnswers([]);
+      if (quizStateRef.current) {
+        // Return clients from quiz screens to the BUZZ screen
+        handleQuizStateChange({ phase: 'idle', questionIndex: 0, totalQuestions: 0 });
+        quizStateRef.current = null;
+      }
     }
   }, [isSessionActive]);
 
@@ -1979,6 +2464,55 @@ export const HostView: React.FC = () => {
     });
   }, []);
 
+  // Roster: connected players by profile id with their current team
+  const onlineTeamIds = useMemo(() => {
+    const result = new Map<string, string | undefined>();
+    clients.forEach((client: ConnectedClient) => {
+      if (!client.id.startsWith('screen_')) result.set(client.id, client.teamId || undefined);
+    });
+    return result;
+  }, [clients]);
+
+  // Roster edit: apply nickname/avatar/color to the connected player right away
+  const updatePlayerProfile = useCallback((profileId: string, updates: Partial<Omit<PlayerProfile, 'id'>>) => {
+    playerProfiles.updateProfile(profileId, updates);
+    const profile = playerProfiles.getProfile(profileId);
+    if (!profile) return;
+    updateClients((prev: Map<string, ConnectedClient>) => {
+      prev.forEach((client, peerId) => {
+        if (client.id === profileId) {
+          prev.set(peerId, { ...client, name: getProfileDisplayName(profile), avatar: profile.avatar, color: profile.color });
+        }
+      });
+    });
+  }, [playerProfiles.updateProfile, playerProfiles.getProfile, updateClients]);
+
+  // Roster team: remembered as preferred team, connected player is moved and notified
+  const assignPlayerTeam = useCallback((profileId: string, teamId: string | undefined) => {
+    playerProfiles.updateProfile(profileId, { preferredTeamId: teamId });
+    // Captain of the old team stops being captain
+    setTeams(prev => prev.map(t => t.captainId === profileId && t.id !== teamId ? { ...t, captainId: undefined } : t));
+
+    let peerId: string | null = null;
+    clients.forEach((client: ConnectedClient, key: string) => {
+      if (client.id === profileId) peerId = key;
+    });
+    if (!peerId) return;
+    moveClientToTeam(peerId, teamId);
+    if (teamId) {
+      setPendingConfirmations((prev: Map<string, string>) => new Map(prev).set(peerId, teamId));
+    }
+  }, [clients, moveClientToTeam, playerProfiles.updateProfile]);
+
+  const setTeamCaptain = useCallback((teamId: string, profileId: string | undefined) => {
+    setTeams(prev => prev.map(t => t.id === teamId ? { ...t, captainId: profileId } : t));
+  }, []);
+
+  const deletePlayerProfile = useCallback((profileId: string) => {
+    playerProfiles.deleteProfile(profileId);
+    setTeams(prev => prev.map(t => t.captainId === profileId ? { ...t, captainId: undefined } : t));
+  }, [playerProfiles.deleteProfile]);
+
   // Drag handlers
   const handleDragStart = useCallback((clientId: string) => {
     setDraggedClientId(clientId);
@@ -2013,10 +2547,33 @@ export const HostView: React.FC = () => {
   // Current connection status (always CONNECTED since no network)
   const status = ConnectionStatus.CONNECTED;
 
+  // Moderator phone joins by the same link as players with mode=moderator
+  const moderatorLink = finalQrUrl ? `${finalQrUrl}&mode=moderator` : null;
+
+  const moderatorPanel = (
+    <ModeratorPanel
+      pendingModerators={Array.from(pendingModerators.values())}
+      moderators={Array.from(moderators.values())}
+      sessionLog={sessionLog}
+      onApprove={handleApproveModerator}
+      onReject={handleRejectModerator}
+      onClearLog={() => setSessionLog([])}
+      moderatorLink={isSessionActive ? null : moderatorLink}
+    />
+  );
+
   // --- LOBBY VIEW ---
   if (!isSessionActive) {
     return (
       <div className="min-h-screen bg-gray-950 text-gray-100 flex flex-col p-6 items-center justify-center">
+        {resumeCandidate && (
+          <ResumeGamePrompt
+            snapshot={resumeCandidate}
+            onResume={handleResumeGame}
+            onDiscard={handleDiscardResume}
+            disabled={!isOnline || !isIpLocked}
+          />
+        )}
         <div className="w-full max-w-7xl grid lg:grid-cols-2 gap-5 md:gap-7 animate-in fade-in duration-500 cursor-default">
           {/* LEFT COLUMN: Setup & QR */}
           <div className="flex flex-col space-y-3">
@@ -2028,6 +2585,7 @@ export const HostView: React.FC = () => {
                   value={ipInput}
                   onChange={(e) => setIpInput(e.target.value)}
                   placeholder="192.168.1.x"
+                  list="host-lan-addresses"
                   disabled={!isLanMode || isIpLocked}
                   className="flex-1 bg-gray-950 border border-gray-700 rounded-lg px-6 py-4 text-white text-lg focus:ring-2 focus:ring-blue-500 focus:outline-none transition-all placeholder:text-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
                 />
@@ -2041,6 +2599,11 @@ export const HostView: React.FC = () => {
                 >
                   LAN
                 </button>
+                <datalist id="host-lan-addresses">
+                  {networkAddresses.map(({ name, address }) => (
+                    <option key={address} value={address}>{name}</option>
+                  ))}
+                </datalist>
                 <button
                   onClick={() => {
                     if (isIpLocked) {
@@ -2054,8 +2617,8 @@ export const HostView: React.FC = () => {
                       storage.set(STORAGE_KEYS.LOCKED_IP, ipInput.trim());
 
                       // Generate invitation URL with connection parameters
-                      // Format: http://IP:3000#/mobile?host=HOST_ID&signalling=IP&session=SESSION_ID
-                      const inviteUrl = `http://${ipInput.trim()}:3000#/mobile?host=${encodeURIComponent(hostId)}&signalling=${encodeURIComponent(ipInput.trim())}&session=${encodeURIComponent(sessionId)}`;
+                      // Format: http://IP:PORT#/mobile?host=HOST_ID&signalling=IP&session=SESSION_ID
+                      const inviteUrl = `${getLanAppOrigin(ipInput.trim())}#/mobile?host=${encodeURIComponent(hostId)}&signalling=${encodeURIComponent(ipInput.trim())}&session=${encodeURIComponent(sessionId)}${roomQuery}`;
                       setFinalQrUrl(inviteUrl);
                       storage.set(STORAGE_KEYS.QR_URL, inviteUrl);
                     }
@@ -2070,6 +2633,15 @@ export const HostView: React.FC = () => {
                   {isIpLocked ? 'OK' : 'OK'}
                 </button>
               </div>
+              {/* Signalling server state - error instead of a silent fallback to the public server */}
+              <div className="mt-3">
+                <ConnectionStatusBar
+                  clientsCount={clients.size}
+                  isOnline={isOnline}
+                  signallingStatus={p2pHost.signallingStatus}
+                  signallingServer={p2pHost.signallingServer}
+                />
+              </div>
             </div>
 
             {/* Session ID */}
@@ -2098,11 +2670,11 @@ export const HostView: React.FC = () => {
                     setHostUniqueId(newHostUniqueId);
                     // Update QR URL with new session ID
                     if (isIpLocked && isLanMode && ipInput) {
-                      const inviteUrl = `http://${ipInput}:3000#/mobile?host=${encodeURIComponent(hostId)}&signalling=${encodeURIComponent(ipInput)}&session=${encodeURIComponent(newSessionId)}`;
+                      const inviteUrl = `${getLanAppOrigin(ipInput)}#/mobile?host=${encodeURIComponent(hostId)}&signalling=${encodeURIComponent(ipInput)}&session=${encodeURIComponent(newSessionId)}${roomQuery}`;
                       setFinalQrUrl(inviteUrl);
                       storage.set(STORAGE_KEYS.QR_URL, inviteUrl);
                     } else if (!isLanMode) {
-                      const inviteUrl = `${window.location.origin}#/mobile?host=${encodeURIComponent(hostId)}&session=${encodeURIComponent(newSessionId)}`;
+                      const inviteUrl = `${window.location.origin}#/mobile?host=${encodeURIComponent(hostId)}&session=${encodeURIComponent(newSessionId)}&cloud=1`;
                       setFinalQrUrl(inviteUrl);
                       storage.set(STORAGE_KEYS.QR_URL, inviteUrl);
                     }
@@ -2115,6 +2687,42 @@ export const HostView: React.FC = () => {
               </div>
             </div>
 
+            {/* Join code of the signalling room (LAN) */}
+            {isLanMode && (p2pHost.room || p2pHost.roomError) && (
+              <div className="bg-gray-900 border border-gray-800 p-4 rounded-lg shadow-lg cursor-default">
+                {p2pHost.room ? (
+                  <div className="flex items-center gap-2">
+                    <label className="text-base font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                      <KeyRound className="w-5 h-5" /> Join code
+                    </label>
+                    <div className={`flex-1 text-center font-mono text-3xl tracking-[0.4em] ${p2pHost.room.locked ? 'text-gray-500' : 'text-white'}`}>
+                      {p2pHost.room.code}
+                    </div>
+                    <button
+                      onClick={() => p2pHost.rotateRoomCode()}
+                      className="px-5 py-2.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-colors flex items-center gap-2 text-lg font-medium"
+                      title="New join code (players already in the room stay)"
+                    >
+                      <RefreshCw className="w-6 h-6" />
+                    </button>
+                    <button
+                      onClick={() => p2pHost.setRoomLocked(!p2pHost.room?.locked)}
+                      className={`px-5 py-2.5 rounded-lg transition-colors flex items-center gap-2 text-lg font-medium ${
+                        p2pHost.room.locked ? 'bg-amber-600 hover:bg-amber-700 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+                      }`}
+                      title={p2pHost.room.locked ? 'Room locked - click to let new players join' : 'Lock room - no new players'}
+                    >
+                      {p2pHost.room.locked ? <Lock className="w-6 h-6" /> : <Unlock className="w-6 h-6" />}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="text-base text-red-400">
+                    ❌ {p2pHost.roomError ? ROOM_ERROR_MESSAGES[p2pHost.roomError] : ''}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* QR Code */}
             <div className="relative aspect-square w-full bg-gray-900 border border-gray-800 rounded-lg shadow-2xl overflow-hidden flex flex-col items-center justify-center p-12 group cursor-default">
               <div className="absolute inset-0 bg-blue-600/5 blur-[80px] rounded-full pointer-events-none group-hover:bg-blue-600/10 transition-colors duration-500"></div>
@@ -2184,6 +2792,20 @@ export const HostView: React.FC = () => {
                      <Users className="w-6 h-6 text-blue-400" /> Lobby
                    </h2>
                    <div className="flex items-center gap-2">
+                     <button
+                       onClick={() => setShowRoster(true)}
+                       className="flex items-center gap-2 px-4 py-3 rounded-full text-base text-gray-300 bg-gray-800 border border-gray-700 hover:border-blue-500/40 hover:text-white transition-colors"
+                       title="Player profiles, pre-assigned teams and captains"
+                     >
+                       <Contact className="w-5 h-5" /> Roster
+                     </button>
+                     <button
+                       onClick={() => setShowLeague(true)}
+                       className="flex items-center gap-2 px-4 py-3 rounded-full text-base text-gray-300 bg-gray-800 border border-gray-700 hover:border-blue-500/40 hover:text-white transition-colors"
+                       title={league.activeSeason ? `League: ${league.activeSeason.name}` : 'League seasons and standings'}
+                     >
+                       <Trophy className={`w-5 h-5 ${league.activeSeason ? 'text-yellow-400' : ''}`} /> League
+                     </button>
                      <div className="bg-gray-800 px-6 py-3 rounded-full text-base font-mono text-blue-400 border border-blue-500/20">
                        {Array.from(clients.values()).filter(client => !client.id.startsWith('screen_')).length} Ready
                      </div>
@@ -2360,19 +2982,42 @@ export const HostView: React.FC = () => {
                <Button size="xl" variant="secondary" className="px-5" onClick={() => hostModals.openGameSelector()} disabled={!isOnline || !isIpLocked}>
                   Select Game
                </Button>
-               <Button size="xl" className="flex-1 text-lg shadow-blue-900/20" onClick={() => {
-                 // Generate new session version to help clients detect this is a fresh session
-                 const newVersion = `v_${Date.now()}`;
-                 setSessionVersion(newVersion);
-                 storage.set(STORAGE_KEYS.SESSION_VERSION, newVersion);
-                 setIsSessionActive(true);
-               }} disabled={!isOnline || !isIpLocked}>
+               <Button size="xl" className="flex-1 text-lg shadow-blue-900/20" onClick={handleStartSession} disabled={!isOnline || !isIpLocked}>
                   Start Session <ArrowRight className="ml-3 w-7 h-7" />
                </Button>
              </div>
           </div>
         </div>
 
+        <PlayerRosterModal
+          isOpen={showRoster}
+          onClose={() => setShowRoster(false)}
+          profiles={playerProfiles.profiles}
+          teams={teams}
+          onlineTeamIds={onlineTeamIds}
+          onUpdateProfile={updatePlayerProfile}
+          onDeleteProfile={deletePlayerProfile}
+          onAssignTeam={assignPlayerTeam}
+          onSetCaptain={setTeamCaptain}
+        />
+
+        <LeagueModal
+          isOpen={showLeague}
+          onClose={() => setShowLeague(false)}
+          seasons={league.seasons}
+          activeSeason={league.activeSeason}
+          standings={league.standings}
+          teams={teams}
+          onSelectSeason={league.setActiveSeasonId}
+          onCreateSeason={league.createSeason}
+          onUpdateSeason={league.updateSeason}
+          onDeleteSeason={league.deleteSeason}
+          onImport={league.importSeasons}
+          onExport={league.exportSeasons}
+          showOnScreen={showLeagueOnScreen}
+          onToggleShowOnScreen={() => setShowLeagueOnScreen(prev => !prev)}
+        />
+
         {/* All Host Modals - Consolidated Component */}
         <HostModals
           showSettingsModal={hostModals.showSettingsModal}
@@ -2386,9 +3031,12 @@ export const HostView: React.FC = () => {
           selectedGame={hostModals.selectedGame}
           selectedPackIds={hostModals.selectedPackIds}
           selectedPacks={hostModals.selectedPacks}
+          selectedPlaylist={hostModals.selectedPlaylist}
           confirmDialog={hostModals.confirmDialog}
           onCloseConfirmDialog={() => hostModals.closeConfirmDialog()}
         />
+
+        {moderatorPanel}
       </div>
     );
   }
@@ -2405,9 +3053,7 @@ export const HostView: React.FC = () => {
         status={status}
         isOnline={isOnline}
         showQRCode={showQRCode}
-        onBackToLobby={() => {
-          setIsSessionActive(false);
-        }}
+        onBackToLobby={handleEndSession}
         onClearBuzz={() => setBuzzedClients(new Map())}
         onBuzzerStateChange={handleBuzzerStateChange}
         buzzerState={buzzerState}
@@ -2422,6 +3068,8 @@ export const HostView: React.FC = () => {
         superGameAnswers={superGameAnswers}
         onSuperGamePhaseChange={setSuperGamePhase}
         onSuperGameMaxBetChange={setSuperGameMaxBet}
+        quizAnswers={quizAnswers}
+        onQuizStateChange={handleQuizStateChange}
         onRequestStateSync={() => setStateSyncTrigger(prev => prev + 1)}
         stateSyncTrigger={stateSyncTrigger}
         // Active/inactive players props
@@ -2431,8 +3079,20 @@ export const HostView: React.FC = () => {
         demoScreenConnected={!!screenViewPeerIdRef.current}
         switchToResponsePhaseSignal={switchToResponsePhaseSignal}
         onPhaseSwitchComplete={handlePhaseSwitchComplete}
+        moderatorCommand={moderatorCommand}
+        initialSnapshot={resumedGameState}
+        onSnapshotChange={handleSnapshotChange}
+        onScoreUpdate={handleScoreUpdate}
+        reportRecorder={reportRecorderRef.current}
+        auctionBids={auctionBids}
+        onQuestionShown={handleQuestionShown}
+        onGameFinished={handleGameFinished}
       />
 
+      <SessionReportControl onExportReport={handleExportReport} />
+
+      {moderatorPanel}
+
       {/* All Host Modals - Consolidated Component */}
       <HostModals
         showSettingsModal={false}
@@ -2446,6 +3106,7 @@ export const HostView: React.FC = () => {
         selectedGame={hostModals.selectedGame}
         selectedPackIds={hostModals.selectedPackIds}
         selectedPacks={hostModals.selectedPacks}
+        selectedPlaylist={hostModals.selectedPlaylist}
         confirmDialog={hostModals.confirmDialog}
         onCloseConfirmDialog={() => hostModals.closeConfirmDialog()}
       />
@@ -2457,6 +3118,25 @@ export const HostView: React.FC = () => {
         onClose={() => setShowQRCode(false)}
         onPositionChange={setQrCodePosition}
       />
+
+      {/* League table shown on the demo screen (L) - host sees the same standings */}
+      {showLeagueOnScreen && league.activeSeason && (
+        <div className="fixed bottom-4 right-4 z-40 w-96 bg-gray-900/95 border border-yellow-500/30 rounded-lg p-4 shadow-2xl">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2 text-sm font-bold text-yellow-400">
+              <Trophy className="w-4 h-4" /> {league.activeSeason.name}
+            </div>
+            <button
+              onClick={() => setShowLeagueOnScreen(false)}
+              className="text-xs text-gray-400 hover:text-white"
+              title="Hide from screen (L)"
+            >
+              Hide
+            </button>
+          </div>
+          <LeagueTable rows={league.standings} />
+        </div>
+      )}
     </>
   );
 };
@@ -1,9 +1,12 @@
 import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
-import { ConnectionStatus, ConnectionQuality, MessageCategory, P2PSMessage, GetCommandsMessage } from '../types';
-import { Users, Loader2, RefreshCw, LogOut, X, Check, ChevronDown, ChevronUp, RotateCw, UserX } from 'lucide-react';
+import { ConnectionStatus, ConnectionQuality, MessageCategory, P2PSMessage, GetCommandsMessage, QuizStateMessage, SpecialQuestionInfo } from '../types';
+import { Users, Loader2, RefreshCw, LogOut, X, Check, ChevronDown, ChevronUp, RotateCw, UserX, Crown } from 'lucide-react';
 import { Button } from './Button';
 import { useP2PClient, ClientConnectionState } from '../hooks/useP2PClient';
 import { storage, STORAGE_KEYS } from '../hooks/useLocalStorage';
+import { getAuctionLimits } from './host/game/specialQuestions';
+import { normalizeRoomCode, ROOM_ERROR_MESSAGES } from '../utils/signallingRooms';
+import { getClientSignallingUrl } from '../utils/network';
 
 export const MobileView: React.FC = () => {
   // Setup step - now just name input + team selection on one screen
@@ -156,6 +159,8 @@ export const MobileView: React.FC = () => {
   const [superGamePhase, setSuperGamePhase] = useState<'idle' | 'placeBets' | 'showQuestion' | 'showWinner'>('idle');
   const [superGameTheme, setSuperGameTheme] = useState<{ id: string; name: string } | null>(null);
   const [superGameMaxBet, setSuperGameMaxBet] = useState<number>(100);
+  // teamId → captain client id, when only captains place super game bets
+  const [betCaptains, setBetCaptains] = useState<Record<string, string>>({});
   const [superGameBet, setSuperGameBet] = useState<number>(0);
   const [superGameQuestion, setSuperGameQuestion] = useState<{ text: string; media?: { type: string; url?: string } } | null>(null);
   const [superGameAnswer, setSuperGameAnswer] = useState<string>('');
@@ -166,6 +171,20 @@ export const MobileView: React.FC = () => {
   const [showBetModal, setShowBetModal] = useState<boolean>(false);
   const [showAnswerModal, setShowAnswerModal] = useState<boolean>(false);
 
+  // Special board question (cat in a bag / auction / no risk) from GAME_STATE_UPDATE
+  const [specialQuestion, setSpecialQuestion] = useState<SpecialQuestionInfo | null>(null);
+  const [auctionBid, setAuctionBid] = useState<number>(0);
+  // Bid sent for the current auction (null = not sent yet)
+  const [auctionSent, setAuctionSent] = useState<{ questionId: string; bid: number; pass?: boolean } | null>(null);
+  // Question of the auction being bid on (ref - read inside onMessage)
+  const auctionQuestionIdRef = useRef<string | null>(null);
+
+  // Quiz state - every team answers each question from the phone
+  const [quizState, setQuizState] = useState<QuizStateMessage['payload'] | null>(null);
+  const [quizAnswerText, setQuizAnswerText] = useState<string>('');
+  // Answer sent for the current question (can be changed until answers lock)
+  const [quizSubmitted, setQuizSubmitted] = useState<{ questionId: string; answer: string; optionIndex?: number } | null>(null);
+
   const [retryCount, setRetryCount] = useState(0);
   const [clientId] = useState<string>(() => {
     const saved = storage.get(STORAGE_KEYS.CLIENT_ID);
@@ -183,23 +202,32 @@ export const MobileView: React.FC = () => {
     return params.get('host') || storage.get(STORAGE_KEYS.LAST_HOST) || null;
   }, []);
 
+  // Room join code from the invitation link (LAN signalling with rooms)
+  const urlRoomCode = useMemo(() => {
+    const params = new URLSearchParams(window.location.hash.split('?')[1]);
+    return params.get('room') || '';
+  }, []);
+  // Invitation link opened (QR) - otherwise the player types the join code
+  const hasInviteLink = useMemo(() => {
+    const params = new URLSearchParams(window.location.hash.split('?')[1]);
+    return !!params.get('host');
+  }, []);
+  const [typedRoomCode, setTypedRoomCode] = useState<string>('');
+  const [roomCodeInput, setRoomCodeInput] = useState<string>('');
+  const roomCode = typedRoomCode || urlRoomCode;
+
   // Get session ID from URL params
   const sessionId = useMemo(() => {
     const params = new URLSearchParams(window.location.hash.split('?')[1]);
     return params.get('session') || null;
   }, []);
 
-  // Get signalling server URL (from URL params for LAN mode)
-  // Only use LAN signalling if explicitly provided (for LAN mode)
-  // For Internet mode, always use default public server
+  // Get signalling server URL from the invite link
+  // LAN server from the link or on the venue laptop the page was loaded from;
+  // public server only when the host runs in Internet mode (cloud=1)
   const signallingUrl = useMemo(() => {
     const params = new URLSearchParams(window.location.hash.split('?')[1]);
-    const lanServer = params.get('signalling');
-    // Only use LAN server if explicitly specified - for Internet mode this will be undefined
-    if (lanServer) {
-      return `ws://${lanServer}:9000`;
-    }
-    return undefined; // Use default public server for Internet mode
+    return getClientSignallingUrl(params);
   }, []);
 
   // Use refs for values that change but shouldn't trigger p2pClient re-creation
@@ -215,15 +243,16 @@ export const MobileView: React.FC = () => {
   }, [waitForHostConfirmation, currentTeamId, clientId]);
 
   // Initialize P2P client connection
-  // Only use LAN mode if signallingUrl is explicitly provided (host sent LAN URL)
-  // This allows Internet mode to work correctly without signalling param
+  // No LAN signalling server only for Internet mode links (cloud=1) - then the public server is used
   const p2pClient = useP2PClient({
     clientName: userName,
     hostId: urlHostId || hostId || '',
-    isLanMode: !!signallingUrl,  // LAN mode only if signalling server is specified
+    isLanMode: !!signallingUrl,  // LAN mode unless the host runs in Internet mode
     signallingUrl: signallingUrl,
+    allowPublicServer: !signallingUrl,
     persistentClientId: clientId,  // Pass stored client ID for reconnection
     currentTeamId: currentTeamId,   // Pass current team ID for reconnection
+    roomCode: roomCode || undefined,
     onMessage: (message) => {
       // Reduce logging for frequent messages to avoid spam
       if (message.type === 'TIMER_STATE') {
@@ -265,6 +294,12 @@ export const MobileView: React.FC = () => {
             console.log('✅ [MOBILE] superGamePhase updated to:', message.payload.superGamePhase);
           }
           break;
+        case 'UPDATE_SCORE':
+          // Single team score change (e.g. host undo/redo)
+          setTeamScores(prev => prev.map(t =>
+            t.id === message.payload.teamId ? { ...t, score: message.payload.score } : t
+          ));
+          break;
         case 'STATE_SYNC':
           // Full state sync
           setBuzzerState(message.payload.buzzerState);
@@ -298,6 +333,7 @@ export const MobileView: React.FC = () => {
             questionText?: string;
             questionMedia?: { type: string; url?: string };
             teamScores?: Array<{ id: string; name: string; score: number }>;
+            betCaptains?: Record<string, string>;
           };
 
           // Update phase
@@ -309,6 +345,7 @@ export const MobileView: React.FC = () => {
           if (sgPayload.phase === 'placeBets' && sgPayload.themeId && sgPayload.themeName) {
             setSuperGameTheme({ id: sgPayload.themeId, name: sgPayload.themeName });
             setSuperGameMaxBet(sgPayload.maxBet || 100);
+            setBetCaptains(sgPayload.betCaptains || {});
             // Update team scores for betting
             if (sgPayload.teamScores) {
               setTeamScores(sgPayload.teamScores);
@@ -334,6 +371,16 @@ export const MobileView: React.FC = () => {
             resetSuperGameState();
           }
           break;
+        case 'QUIZ_STATE': {
+          const quizPayload = message.payload;
+          // New question - reset local answer
+          if (quizPayload.questionId !== quizState?.questionId) {
+            setQuizAnswerText('');
+            setQuizSubmitted(null);
+          }
+          setQuizState(quizPayload.phase === 'idle' ? null : quizPayload);
+          break;
+        }
         case 'TEAMS_SYNC':
           // Teams list from host (same structure as commands)
           const syncedTeams = message.payload.teams || [];
@@ -410,12 +457,17 @@ export const MobileView: React.FC = () => {
             console.log('[MobileView] TEAM_CONFIRMED received with teamId:', message.payload.teamId, 'updating from:', currentTeamId);
             setCurrentTeamId(message.payload.teamId);
             storage.set(STORAGE_KEYS.CURRENT_TEAM_ID, message.payload.teamId);
+          } else if (message.payload.teamName && message.payload.teamId?.startsWith('team_') && message.payload.teamId !== currentTeamId) {
+            // Host put this player into a team (roster pre-assignment)
+            console.log('[MobileView] TEAM_CONFIRMED: assigned to team by host:', message.payload.teamName);
+            setCurrentTeam(message.payload.teamName);
+            setCurrentTeamId(message.payload.teamId);
           }
           setWaitForHostConfirmation(false);
           break;
         case 'BROADCAST':
           // Generic broadcast from host - check for message types inside payload
-          const broadcastPayload = message.payload as { type?: string; phase?: string; themeId?: string; themeName?: string; maxBet?: number; questionText?: string; questionMedia?: { type: string; url?: string }; teamScores?: Array<{ id: string; name: string; score: number }>; state?: { buzzerState?: { active: boolean; timerPhase: 'reading' | 'response' | 'complete' | 'inactive'; readingTimerRemaining: number; responseTimerRemaining: number; handicapActive: boolean; handicapTeamId?: string; isPaused: boolean; readingTimeTotal?: number; responseTimeTotal?: number } }; message?: string; reason?: string };
+          const broadcastPayload = message.payload as { type?: string; specialQuestion?: SpecialQuestionInfo | null; phase?: string; themeId?: string; themeName?: string; maxBet?: number; questionText?: string; questionMedia?: { type: string; url?: string }; teamScores?: Array<{ id: string; name: string; score: number }>; betCaptains?: Record<string, string>; state?: { buzzerState?: { active: boolean; timerPhase: 'reading' | 'response' | 'complete' | 'inactive'; readingTimerRemaining: number; responseTimerRemaining: number; handicapActive: boolean; handicapTeamId?: string; isPaused: boolean; readingTimeTotal?: number; responseTimeTotal?: number } }; message?: string; reason?: string };
 
           // Handle KICK message - client was removed by host
           if (broadcastPayload?.message === 'KICKED') {
@@ -428,6 +480,23 @@ export const MobileView: React.FC = () => {
             return;
           }
 
+          // Special question: auction bidding screen, banner for cat in a bag
+          if (broadcastPayload?.type === 'GAME_STATE_UPDATE' && broadcastPayload.specialQuestion !== undefined) {
+            const special = broadcastPayload.specialQuestion;
+            if (special?.kind === 'auction' && special.stage === 'bidding') {
+              if (broadcastPayload.teamScores) {
+                setTeamScores(broadcastPayload.teamScores);
+              }
+              // New auction - start from the minimal bid
+              if (special.questionId !== auctionQuestionIdRef.current) {
+                auctionQuestionIdRef.current = special.questionId;
+                setAuctionBid(special.points);
+                setAuctionSent(null);
+              }
+            }
+            setSpecialQuestion(special);
+          }
+
           // Handle GAME_STATE_UPDATE sent via BROADCAST
           if (broadcastPayload?.type === 'GAME_STATE_UPDATE' && broadcastPayload.state?.buzzerState) {
             // Update buzzer state from game state
@@ -454,6 +523,7 @@ export const MobileView: React.FC = () => {
             if (broadcastPayload.phase === 'placeBets' && broadcastPayload.themeId && broadcastPayload.themeName) {
               setSuperGameTheme({ id: broadcastPayload.themeId, name: broadcastPayload.themeName });
               setSuperGameMaxBet(broadcastPayload.maxBet || 100);
+              setBetCaptains(broadcastPayload.betCaptains || {});
               // Update team scores for betting
               if (broadcastPayload.teamScores) {
                 setTeamScores(broadcastPayload.teamScores);
@@ -535,12 +605,19 @@ export const MobileView: React.FC = () => {
     },
   });
 
-  // Auto-connect when we have host ID (but not if kicked)
+  // Auto-connect when we have host ID or room code (but not if kicked or the room rejected us)
   useEffect(() => {
-    if (urlHostId && !p2pClient.isConnected && !p2pClient.isConnecting && !wasKicked) {
+    if ((urlHostId || roomCode) && !p2pClient.isConnected && !p2pClient.isConnecting && !wasKicked && !p2pClient.roomError) {
       p2pClient.connect();
     }
-  }, [urlHostId, p2pClient.isConnected, p2pClient.isConnecting, p2pClient.connect, wasKicked]);
+  }, [urlHostId, roomCode, p2pClient.isConnected, p2pClient.isConnecting, p2pClient.connect, wasKicked, p2pClient.roomError]);
+
+  // Typed join code - try it right away (auto-connect above stops on room errors)
+  useEffect(() => {
+    if (typedRoomCode && !wasKicked) {
+      p2pClient.connect();
+    }
+  }, [typedRoomCode]);
 
   // Check if this is a new session - if so, reset saved player state
   useEffect(() => {
@@ -599,6 +676,7 @@ export const MobileView: React.FC = () => {
     setSuperGamePhase('idle');
     setSuperGameTheme(null);
     setSuperGameMaxBet(100);
+    setBetCaptains({});
     setSuperGameBet(0);
     setSuperGameQuestion(null);
     setSuperGameAnswer('');
@@ -673,6 +751,26 @@ export const MobileView: React.FC = () => {
     // For 'showWinner' phase, do nothing
   }, [sendBuzz, superGamePhase, buzzerState]);
 
+  // Send quiz answer (text or selected option)
+  const sendQuizAnswer = useCallback((answer: string, optionIndex?: number) => {
+    if (!p2pClient.isConnected || !quizState?.questionId || quizState.phase !== 'question') return;
+    const teamId = currentTeamId || clientId;
+    const sent = p2pClient.send({
+      category: MessageCategory.EVENT,
+      type: 'QUIZ_ANSWER',
+      payload: {
+        clientId: clientId,
+        teamId: teamId,
+        questionId: quizState.questionId,
+        answer: answer,
+        optionIndex: optionIndex
+      }
+    });
+    if (sent) {
+      setQuizSubmitted({ questionId: quizState.questionId, answer, optionIndex });
+    }
+  }, [p2pClient.isConnected, p2pClient.send, quizState, currentTeamId, clientId]);
+
   // Handle leave
   const handleLeave = useCallback(() => {
     // Send leaving message if connected
@@ -757,6 +855,31 @@ export const MobileView: React.FC = () => {
 
             {/* Single card with name input and team selection */}
             <div className="bg-gray-900/80 backdrop-blur border border-gray-800 rounded-2xl p-6 shadow-xl space-y-5">
+              {/* Join code - opened without invitation link, or the room rejected the code */}
+              {((!hasInviteLink && !roomCode) || p2pClient.roomError) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Game Code</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={roomCodeInput}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRoomCodeInput(normalizeRoomCode(e.target.value))}
+                      placeholder="ABCD"
+                      className="flex-1 bg-gray-950 border border-gray-700 rounded-lg px-4 py-3 text-white text-center font-mono text-xl tracking-[0.3em] placeholder-gray-600 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                      maxLength={8}
+                      autoCapitalize="characters"
+                      autoComplete="off"
+                    />
+                    <Button onClick={() => roomCodeInput === typedRoomCode ? p2pClient.connect() : setTypedRoomCode(roomCodeInput)} disabled={!roomCodeInput}>
+                      Join
+                    </Button>
+                  </div>
+                  {p2pClient.roomError && (
+                    <p className="text-sm text-red-400 mt-2">{ROOM_ERROR_MESSAGES[p2pClient.roomError]}</p>
+                  )}
+                </div>
+              )}
+
               {/* Name input */}
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">Your Name</label>
@@ -979,6 +1102,100 @@ export const MobileView: React.FC = () => {
           {/* Main Content */}
           <div className="flex-1 flex p-6 w-full">
             {isSetupComplete ? (
+              // Quiz screens take priority while quiz is running
+              quizState ? (
+                <div className="flex-1 flex items-start justify-center pt-[12vh] px-4 w-full animate-in fade-in duration-300">
+                  <div className="bg-gray-900 border border-gray-700 rounded-lg p-6 w-full">
+                    {quizState.phase === 'results' ? (
+                      <>
+                        <h2 className="text-2xl font-bold text-yellow-400 text-center mb-4">Final Results</h2>
+                        {[...(quizState.teamScores || [])].sort((a, b) => b.score - a.score).map((team, idx) => (
+                          <div key={team.id} className={`flex justify-between items-center py-2 border-b border-gray-700 last:border-0 ${team.id === currentTeamId ? 'text-blue-400' : 'text-white'}`}>
+                            <span>{idx + 1}. {team.name}</span>
+                            <span className="text-xl font-bold text-yellow-400">{team.score}</span>
+                          </div>
+                        ))}
+                      </>
+                    ) : (
+                      <>
+                        <div className="flex justify-between items-center text-gray-400 text-sm mb-3">
+                          <span>Question {quizState.questionIndex + 1} / {quizState.totalQuestions}</span>
+                          {quizState.phase === 'question' && (
+                            <span className={`font-mono font-bold text-lg ${(quizState.timeRemaining ?? 0) <= 5 ? 'text-red-400' : 'text-white'}`}>
+                              {quizState.timeRemaining ?? 0}s
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-white text-lg font-semibold mb-4">{quizState.questionText}</p>
+
+                        {quizState.phase === 'question' ? (
+                          quizState.options ? (
+                            <div className="space-y-2">
+                              {quizState.options.map((option, idx) => (
+                                <button
+                                  key={idx}
+                                  onClick={() => sendQuizAnswer(option, idx)}
+                                  disabled={!p2pClient.isConnected}
+                                  className={`w-full text-left px-4 py-3 rounded-lg border transition-colors touch-manipulation ${
+                                    quizSubmitted?.optionIndex === idx
+                                      ? 'bg-blue-600 border-blue-400 text-white'
+                                      : 'bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700'
+                                  }`}
+                                >
+                                  {String.fromCharCode(65 + idx)}. {option}
+                                </button>
+                              ))}
+                            </div>
+                          ) : (
+                            <>
+                              <textarea
+                                value={quizAnswerText}
+                                onChange={(e) => setQuizAnswerText(e.target.value)}
+                                placeholder="Type your answer..."
+                                className="w-full bg-gray-800 border border-gray-700 rounded-lg p-4 text-white placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:outline-none text-base"
+                                rows={3}
+                              />
+                              <button
+                                onClick={() => sendQuizAnswer(quizAnswerText.trim())}
+                                disabled={!quizAnswerText.trim() || !p2pClient.isConnected}
+                                className="w-full mt-4 p-4 bg-green-600 hover:bg-green-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-colors text-lg touch-manipulation active:scale-95"
+                              >
+                                {quizSubmitted ? 'Update Answer' : 'Submit Answer'}
+                              </button>
+                            </>
+                          )
+                        ) : quizState.phase === 'locked' ? (
+                          <div className="text-center text-gray-400 py-4">
+                            Answers locked{quizSubmitted ? `. Your answer: ${quizSubmitted.answer}` : ' - no answer sent'}
+                          </div>
+                        ) : (
+                          (() => {
+                            const myResult = quizState.results?.find(r => r.teamId === (currentTeamId || clientId));
+                            return (
+                              <div className="text-center py-2">
+                                {quizState.correctAnswer && (
+                                  <p className="text-green-400 text-lg mb-3">Answer: {quizState.correctAnswer}</p>
+                                )}
+                                {myResult && (
+                                  <p className={`text-2xl font-bold ${myResult.isCorrect ? 'text-green-400' : 'text-red-400'}`}>
+                                    {myResult.isCorrect ? `Correct! +${myResult.pointsAwarded}` : 'Incorrect'}
+                                  </p>
+                                )}
+                              </div>
+                            );
+                          })()
+                        )}
+
+                        {quizState.phase === 'question' && quizSubmitted && (
+                          <div className="flex items-center justify-center gap-2 text-green-400 text-sm mt-3">
+                            <Check className="w-4 h-4" /> Answer sent
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </div>
+              ) :
               // Super Game screens take priority - auto-show based on phase
               (superGamePhase === 'placeBets' || showBetModal) ? (
                 // placeBets modal - shown automatically when phase changes to placeBets
@@ -988,6 +1205,13 @@ export const MobileView: React.FC = () => {
                     {superGameTheme && (
                       <p className="text-lg text-yellow-400 mb-6">{superGameTheme.name}</p>
                     )}
+                    {currentTeamId && betCaptains[currentTeamId] && betCaptains[currentTeamId] !== clientId ? (
+                    <div className="bg-gray-900 border border-gray-700 rounded-lg p-6 w-full max-w-sm text-center">
+                      <Crown className="w-8 h-8 text-yellow-400 mx-auto mb-3" />
+                      <p className="text-white font-semibold">Your captain places the bet</p>
+                      <p className="text-gray-500 text-sm mt-1">Your score: {teamScores.find(t => t.id === currentTeamId)?.score || 0}</p>
+                    </div>
+                    ) : (
                     <div className="bg-gray-900 border border-gray-700 rounded-lg p-6 w-full max-w-sm">
                       <div className="flex items-center justify-between mb-4">
                         <span className="text-gray-400 text-sm">Your bet:</span>
@@ -1027,6 +1251,7 @@ export const MobileView: React.FC = () => {
                       {betPlaced ? 'Done' : 'Place Bet'}
                     </button>
                   </div>
+                    )}
                 </div>
                 </div>
               ) : (superGamePhase === 'showQuestion' || showAnswerModal) ? (
@@ -1087,9 +1312,88 @@ export const MobileView: React.FC = () => {
                     ))}
                   </div>
                 </div>
+              ) : (specialQuestion?.kind === 'auction' && specialQuestion.stage === 'bidding') ? (
+                // Auction: bid from the question price up to all-in
+                (() => {
+                  const myScore = teamScores.find(t => t.id === currentTeamId)?.score || 0;
+                  const { minBid, maxBid } = getAuctionLimits(specialQuestion.points, myScore);
+                  const sendBid = (bid: number, pass = false) => {
+                    if (!p2pClient.isConnected || !currentTeamId) return;
+                    p2pClient.send({
+                      category: MessageCategory.EVENT,
+                      type: 'AUCTION_BID',
+                      payload: { teamId: currentTeamId, questionId: specialQuestion.questionId, bid, pass }
+                    });
+                    setAuctionSent({ questionId: specialQuestion.questionId, bid, pass });
+                  };
+                  return (
+                    <div className="flex-1 flex items-start justify-center pt-[15vh] w-full">
+                      <div className="flex flex-col items-center w-full animate-in fade-in duration-300 px-4">
+                        <h2 className="text-3xl font-black text-amber-400 mb-2">🔨 Auction</h2>
+                        <p className="text-lg text-white mb-6">{specialQuestion.themeName}</p>
+                        <div className="bg-gray-900 border border-gray-700 rounded-lg p-6 w-full max-w-sm">
+                          <div className="flex items-center justify-between mb-4">
+                            <span className="text-gray-400 text-sm">Your bid:</span>
+                            <span className="text-white text-2xl font-bold">{auctionBid}{auctionBid === maxBid && maxBid > minBid ? ' (all-in)' : ''}</span>
+                          </div>
+                          <div className="text-gray-500 text-xs mb-4">Your score: {myScore} · minimum {minBid}</div>
+                          <input
+                            type="range"
+                            min={minBid}
+                            max={maxBid}
+                            step="100"
+                            value={Math.min(maxBid, Math.max(minBid, auctionBid))}
+                            onChange={(e) => setAuctionBid(parseInt(e.target.value))}
+                            className="w-full accent-amber-500"
+                          />
+                          <div className="grid grid-cols-2 gap-2 mt-4">
+                            <button
+                              onClick={() => sendBid(0, true)}
+                              disabled={!p2pClient.isConnected}
+                              className="p-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg font-semibold transition-colors"
+                            >
+                              Pass
+                            </button>
+                            <button
+                              onClick={() => sendBid(Math.min(maxBid, Math.max(minBid, auctionBid)))}
+                              disabled={!p2pClient.isConnected}
+                              className="p-3 bg-amber-600 hover:bg-amber-500 disabled:bg-gray-700 text-white rounded-lg font-semibold transition-colors"
+                            >
+                              {auctionSent?.questionId === specialQuestion.questionId && !auctionSent.pass ? 'Raise' : 'Bid'}
+                            </button>
+                          </div>
+                          {auctionSent?.questionId === specialQuestion.questionId && (
+                            <div className="flex items-center justify-center gap-2 text-green-400 text-sm mt-3">
+                              <Check className="w-4 h-4" /> {auctionSent.pass ? 'You passed' : `Bid ${auctionSent.bid} sent`}
+                            </div>
+                          )}
+                        </div>
+                        {specialQuestion.bids && specialQuestion.bids.length > 0 && (
+                          <div className="w-full max-w-sm mt-4 space-y-1">
+                            {specialQuestion.bids.map(b => (
+                              <div key={b.teamId} className="flex justify-between text-sm px-2">
+                                <span className={b.teamId === currentTeamId ? 'text-white font-semibold' : 'text-gray-400'}>{b.teamName}</span>
+                                <span className={b.pass ? 'text-gray-600' : 'text-amber-300'}>{b.pass ? 'pass' : b.bid}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })()
               ) : (
                 // Regular BUZZ button
-                <div className="flex items-start justify-center pt-[20vh] w-full animate-in zoom-in duration-300">
+                <div className="flex flex-col items-center justify-start pt-[20vh] w-full animate-in zoom-in duration-300">
+                  {specialQuestion?.stage === 'playing' && specialQuestion.teamId && (
+                    <div className={`mb-6 px-4 py-2 rounded-lg text-sm font-semibold ${
+                      specialQuestion.teamId === currentTeamId ? 'bg-amber-600 text-white' : 'bg-gray-800 text-gray-400'
+                    }`}>
+                      {specialQuestion.teamId === currentTeamId
+                        ? `Your team answers for ${specialQuestion.points}`
+                        : `Question goes to ${specialQuestion.teamName}`}
+                    </div>
+                  )}
                   <button
                     onClick={(e) => {
                       console.log('🖱️ [BUTTON] BUZZ! onClick event fired');
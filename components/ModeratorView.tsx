@@ -0,0 +1,312 @@
+/**
+ * ModeratorView Component
+ *
+ * Phone view for a moderator (co-host). Connects to the host with isModerator flag,
+ * waits for host approval and then mirrors host controls:
+ * correct/incorrect, show answer, skip, timer pause and manual score adjustments.
+ * Every action is executed by the host (GamePlay) - moderator only sends MODERATOR_ACTION.
+ */
+
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import { MessageCategory, P2PSMessage, type ModeratorActionPayload } from '../types';
+import { ShieldCheck, Loader2, Check, X, Eye, SkipForward, Pause, Play, Plus, Minus } from 'lucide-react';
+import { Button } from './Button';
+import { useP2PClient } from '../hooks/useP2PClient';
+import { storage, STORAGE_KEYS } from '../hooks/useLocalStorage';
+import { getClientSignallingUrl } from '../utils/network';
+
+type ApprovalStatus = 'connecting' | 'pending' | 'approved' | 'rejected';
+
+interface ModeratorQuestion {
+  text: string;
+  answerText?: string;
+  points: number;
+}
+
+interface TeamScore {
+  id: string;
+  name: string;
+  score: number;
+}
+
+export const ModeratorView: React.FC = () => {
+  const [userName, setUserName] = useState<string>(() => storage.get(STORAGE_KEYS.USER_NAME, '') ?? '');
+  const [isNameConfirmed, setIsNameConfirmed] = useState(false);
+  const [status, setStatus] = useState<ApprovalStatus>('connecting');
+
+  // Game state mirrored from host broadcasts
+  const [currentQuestion, setCurrentQuestion] = useState<ModeratorQuestion | null>(null);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [answeringTeamId, setAnsweringTeamId] = useState<string | null>(null);
+  const [teamScores, setTeamScores] = useState<TeamScore[]>([]);
+  const [isTimerPaused, setIsTimerPaused] = useState(false);
+  const [timerPhase, setTimerPhase] = useState<string>('inactive');
+  const [pointsInput, setPointsInput] = useState<Record<string, string>>({});
+
+  // Separate persistent ID from player phones - same device can be player or moderator
+  const [moderatorId] = useState<string>(() => {
+    const saved = storage.get(STORAGE_KEYS.MODERATOR_ID);
+    if (saved) {
+      return saved;
+    }
+    const newId = 'moderator_' + Math.random().toString(36).substring(2, 10);
+    storage.set(STORAGE_KEYS.MODERATOR_ID, newId);
+    return newId;
+  });
+
+  const urlHostId = useMemo(() => {
+    const params = new URLSearchParams(window.location.hash.split('?')[1]);
+    return params.get('host') || null;
+  }, []);
+
+  // Room join code from the link (LAN signalling with rooms)
+  const roomCode = useMemo(() => {
+    const params = new URLSearchParams(window.location.hash.split('?')[1]);
+    return params.get('room') || '';
+  }, []);
+
+  // LAN signalling server (same rules as MobileView)
+  const signallingUrl = useMemo(() => {
+    const params = new URLSearchParams(window.location.hash.split('?')[1]);
+    return getClientSignallingUrl(params);
+  }, []);
+
+  const handleMessage = useCallback((message: P2PSMessage) => {
+    switch (message.type) {
+      case 'MODERATOR_STATUS':
+        console.log('[ModeratorView] Status from host:', message.payload.status);
+        setStatus(message.payload.status);
+        break;
+      case 'TIMER_STATE':
+        setIsTimerPaused(!!message.payload.isPaused);
+        setTimerPhase(message.payload.timerPhase);
+        break;
+      case 'QUIZ_STATE': {
+        // Quiz mode: every team answers, host controls the steps (QuizPlay)
+        const quiz = message.payload;
+        const isOpen = quiz.phase === 'question' || quiz.phase === 'locked' || quiz.phase === 'reveal';
+        setCurrentQuestion(isOpen ? {
+          text: quiz.questionText,
+          answerText: quiz.correctAnswer,
+          points: quiz.points ?? 0
+        } : null);
+        setShowAnswer(quiz.phase === 'reveal');
+        setAnsweringTeamId(null);
+        setTimerPhase(quiz.phase === 'question' ? 'response' : 'inactive');
+        setIsTimerPaused(!!quiz.isPaused);
+        if (quiz.teamScores) {
+          setTeamScores(quiz.teamScores);
+        }
+        break;
+      }
+      case 'BROADCAST': {
+        const payload = message.payload;
+        if (payload?.type !== 'GAME_STATE_UPDATE') break;
+        // Partial updates (e.g. scroll position) don't carry question fields
+        if (payload.currentQuestion !== undefined) {
+          setCurrentQuestion(payload.currentQuestion ? {
+            text: payload.currentQuestion.text,
+            answerText: payload.currentQuestion.answerText,
+            points: payload.currentQuestion.points
+          } : null);
+        }
+        if (payload.state?.showAnswer !== undefined) {
+          setShowAnswer(!!payload.state.showAnswer);
+        }
+        if (payload.answeringTeamId !== undefined) {
+          setAnsweringTeamId(payload.answeringTeamId);
+        }
+        if (payload.teamScores) {
+          setTeamScores(payload.teamScores);
+        }
+        break;
+      }
+    }
+  }, []);
+
+  const p2pClient = useP2PClient({
+    clientName: userName.trim(),
+    hostId: urlHostId || '',
+    isLanMode: !!signallingUrl,
+    signallingUrl,
+    allowPublicServer: !signallingUrl,
+    persistentClientId: moderatorId,
+    isModerator: true,
+    roomCode: roomCode || undefined,
+    onMessage: handleMessage,
+    onError: (error) => {
+      console.error('[ModeratorView] P2P error:', error);
+    }
+  });
+
+  // Connect once name is entered; rejected moderators don't reconnect
+  useEffect(() => {
+    if (isNameConfirmed && urlHostId && status !== 'rejected' && !p2pClient.isConnected && !p2pClient.isConnecting) {
+      p2pClient.connect();
+    }
+  }, [isNameConfirmed, urlHostId, status, p2pClient.isConnected, p2pClient.isConnecting, p2pClient.connect]);
+
+  const sendAction = useCallback((payload: ModeratorActionPayload) => {
+    console.log('[ModeratorView] Sending action:', payload);
+    p2pClient.send({
+      category: MessageCategory.CONTROL,
+      type: 'MODERATOR_ACTION',
+      payload
+    });
+  }, [p2pClient.send]);
+
+  const handleAdjustScore = useCallback((teamId: string, sign: 1 | -1) => {
+    const points = parseInt(pointsInput[teamId] || '', 10) || currentQuestion?.points || 100;
+    sendAction({ action: sign > 0 ? 'award_points' : 'deduct_points', data: { teamId, points: Math.abs(points) } });
+  }, [pointsInput, currentQuestion, sendAction]);
+
+  const handleConfirmName = () => {
+    const name = userName.trim();
+    if (!name) return;
+    storage.set(STORAGE_KEYS.USER_NAME, name);
+    setIsNameConfirmed(true);
+  };
+
+  if (!urlHostId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6 text-center text-gray-400">
+        Open the moderator link from the host screen
+      </div>
+    );
+  }
+
+  // --- NAME ENTRY ---
+  if (!isNameConfirmed) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6">
+        <div className="w-full max-w-sm bg-gray-900 border border-gray-800 rounded-2xl p-6 space-y-4">
+          <div className="flex items-center gap-2 text-purple-300">
+            <ShieldCheck className="w-6 h-6" />
+            <h1 className="text-xl font-bold">Moderator</h1>
+          </div>
+          <input
+            type="text"
+            value={userName}
+            onChange={(e) => setUserName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleConfirmName()}
+            placeholder="Your name"
+            className="w-full bg-gray-950 border border-gray-700 rounded-lg px-4 py-3 text-white placeholder-gray-500 focus:ring-2 focus:ring-purple-500 focus:outline-none"
+          />
+          <Button className="w-full" size="lg" onClick={handleConfirmName} disabled={!userName.trim()}>
+            Request access
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // --- WAITING FOR HOST ---
+  if (status !== 'approved') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6 text-center gap-4">
+        {status === 'rejected' ? (
+          <>
+            <X className="w-12 h-12 text-red-400" />
+            <div className="text-lg text-gray-300">Host rejected the moderator request</div>
+          </>
+        ) : (
+          <>
+            <Loader2 className="w-12 h-12 text-purple-400 animate-spin" />
+            <div className="text-lg text-gray-300">
+              {status === 'pending' ? 'Waiting for host approval...' : 'Connecting to host...'}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  // --- CONTROLS ---
+  const answeringTeam = teamScores.find(t => t.id === answeringTeamId);
+  const isTimerRunning = timerPhase === 'reading' || timerPhase === 'response';
+
+  return (
+    <div className="min-h-screen flex flex-col p-4 gap-4 max-w-lg mx-auto">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-purple-300">
+          <ShieldCheck className="w-5 h-5" />
+          <span className="font-bold">{userName}</span>
+        </div>
+        <span className={`text-xs ${p2pClient.isConnected ? 'text-green-400' : 'text-yellow-400'}`}>
+          {p2pClient.isConnected ? 'Connected' : 'Reconnecting...'}
+        </span>
+      </div>
+
+      {/* Current question with answer - visible to moderator only */}
+      <div className="bg-gray-900 border border-gray-800 rounded-xl p-4">
+        {currentQuestion ? (
+          <>
+            <div className="text-xs text-gray-500 mb-1">{currentQuestion.points} pts</div>
+            <div className="text-white mb-3">{currentQuestion.text || '—'}</div>
+            <div className="text-sm text-green-300">
+              <span className="text-gray-500">Answer: </span>{currentQuestion.answerText || '—'}
+            </div>
+          </>
+        ) : (
+          <div className="text-gray-500 text-center py-4">No active question</div>
+        )}
+      </div>
+
+      <div className="text-center text-sm text-gray-400">
+        {answeringTeam ? <>Answering: <span className="text-white font-bold">{answeringTeam.name}</span></> : 'No team answering'}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Button size="lg" className="bg-green-600 hover:bg-green-500" onClick={() => sendAction({ action: 'correct_answer' })} disabled={!answeringTeamId}>
+          <Check className="w-5 h-5 mr-2" /> Correct
+        </Button>
+        <Button size="lg" variant="danger" onClick={() => sendAction({ action: 'incorrect_answer' })} disabled={!answeringTeamId}>
+          <X className="w-5 h-5 mr-2" /> Wrong
+        </Button>
+        <Button size="lg" variant="secondary" onClick={() => sendAction({ action: 'show_answer' })} disabled={!currentQuestion || showAnswer}>
+          <Eye className="w-5 h-5 mr-2" /> Show answer
+        </Button>
+        <Button size="lg" variant="secondary" onClick={() => sendAction({ action: 'skip_question' })} disabled={!currentQuestion}>
+          <SkipForward className="w-5 h-5 mr-2" /> Skip
+        </Button>
+        <Button
+          size="lg"
+          variant="secondary"
+          className="col-span-2"
+          onClick={() => sendAction({ action: 'timer_control', data: { paused: !isTimerPaused } })}
+          disabled={!isTimerRunning}
+        >
+          {isTimerPaused ? <><Play className="w-5 h-5 mr-2" /> Resume timer</> : <><Pause className="w-5 h-5 mr-2" /> Pause timer</>}
+        </Button>
+      </div>
+
+      {/* Manual score adjustments */}
+      <div className="bg-gray-900 border border-gray-800 rounded-xl p-3 space-y-2">
+        <div className="text-xs text-gray-500 uppercase tracking-wider">Scores</div>
+        {teamScores.length === 0 && (
+          <div className="text-sm text-gray-600 text-center py-2">No teams yet</div>
+        )}
+        {teamScores.map(team => (
+          <div key={team.id} className="flex items-center gap-2">
+            <span className="flex-1 truncate text-sm text-gray-200">{team.name}</span>
+            <span className="font-mono text-sm text-white w-14 text-right">{team.score}</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              value={pointsInput[team.id] ?? ''}
+              onChange={(e) => setPointsInput(prev => ({ ...prev, [team.id]: e.target.value }))}
+              placeholder={String(currentQuestion?.points ?? 100)}
+              className="w-16 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-sm text-white"
+            />
+            <button onClick={() => handleAdjustScore(team.id, -1)} className="p-2 rounded bg-gray-800 hover:bg-red-600 text-white">
+              <Minus className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleAdjustScore(team.id, 1)} className="p-2 rounded bg-gray-800 hover:bg-green-600 text-white">
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,20 @@
 import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import { Users, X, Loader2, Smartphone, Monitor } from 'lucide-react';
-import { Team, P2PSMessage, MessageCategory, P2PMessage } from '../types';
+import { Team, P2PSMessage, MessageCategory, P2PMessage, QuizStateMessage, SpecialQuestionInfo, LeagueTableMessage } from '../types';
 import { useP2PClient, ClientConnectionState } from '../hooks/useP2PClient';
 import { storage, STORAGE_KEYS } from '../hooks/useLocalStorage';
 import { useDemoScreenMedia } from '../hooks/useDemoScreenMedia';
 import { MediaSystemDebugger } from '../utils/mediaSystemDebugger';
 import { demoScreenMediaHandler } from '../utils/demoScreenMediaHandler';
+import { getClientSignallingUrl } from '../utils/network';
 import { DraggableQRCode } from './shared/DraggableQRCode';
+import { LeagueTable } from './shared/LeagueTable';
 import { TimerDisplay, TimerBar } from './shared/TimerDisplay';
+import { QuizRevealView } from './ScreenView/QuizRevealView';
 import { calculateQuestionFontSize, calculateAnswerFontSizeMobile, calculateAnswerFontSizeDesktop } from './host/game/fontUtils';
+import { TriviaProgress } from './host/game/TriviaProgress';
+import { SpecialQuestionReveal } from './host/game/SpecialQuestionReveal';
 // New team status types - extend to include clash status locally
 import { TeamStatus as BaseTeamStatus, TeamState as BaseTeamState } from '../hooks/useTeamStatusManager';
 
@@ -110,6 +115,15 @@ export const ScreenView: React.FC = () => {
           }));
         }
         break;
+      case 'UPDATE_SCORE': {
+        // Single team score change (e.g. host undo/redo)
+        const { teamId: scoreTeamId, score } = message.payload;
+        setDetailedGameState(prevState => ({
+          ...prevState,
+          teamScores: (prevState.teamScores || []).map(t => t.id === scoreTeamId ? { ...t, score } : t)
+        }));
+        break;
+      }
       case 'TEAM_UPDATE':
         const { teamId, teamName } = message.payload;
         setGameState(prevState => {
@@ -193,6 +207,10 @@ export const ScreenView: React.FC = () => {
           }));
         }
         break;
+      case 'QUIZ_STATE':
+        // Quiz mode replaces the game board with question/reveal view
+        setQuizState(message.payload.phase === 'idle' ? null : message.payload);
+        break;
       // TIMER_STATE is ignored - demo screen calculates timer locally
       case 'QR_CODE_STATE':
         setQrCodeState({
@@ -200,8 +218,12 @@ export const ScreenView: React.FC = () => {
           position: message.payload.position
         });
         break;
+      case 'LEAGUE_TABLE':
+        setLeagueTable(message.payload);
+        break;
       // TIMER_CONTROL is ignored - demo screen controls timer locally
       case 'MEDIA_TRANSFER':
+      case 'MEDIA_INVENTORY_QUERY':
       case 'MEDIA_CHUNK_METADATA':
       case 'MEDIA_CHUNK':
       case 'MEDIA_CHUNK_COMPLETE':
@@ -259,14 +281,16 @@ export const ScreenView: React.FC = () => {
     return params.get('host') || storage.get(STORAGE_KEYS.LAST_HOST) || null;
   }, []);
 
+  // Room join code from the link (LAN signalling with rooms)
+  const roomCode = useMemo(() => {
+    const params = new URLSearchParams(window.location.hash.split('?')[1]);
+    return params.get('room') || '';
+  }, []);
+
   // Get signalling server URL
   const signallingUrl = useMemo(() => {
     const params = new URLSearchParams(window.location.hash.split('?')[1]);
-    const lanServer = params.get('signalling');
-    if (lanServer) {
-      return `ws://${lanServer}:9000`;
-    }
-    return undefined;
+    return getClientSignallingUrl(params);
   }, []);
 
   // Screen ID
@@ -303,6 +327,12 @@ export const ScreenView: React.FC = () => {
     position: undefined
   });
 
+  // League table between rounds (host presses L)
+  const [leagueTable, setLeagueTable] = useState<LeagueTableMessage['payload']>({ visible: false });
+
+  // Quiz state from host (quiz game mode)
+  const [quizState, setQuizState] = useState<QuizStateMessage['payload'] | null>(null);
+
   // Ref for themes scroll container
   const themesScrollRef = useRef<HTMLDivElement>(null);
 
@@ -399,6 +429,13 @@ export const ScreenView: React.FC = () => {
     qrCodePosition?: { x: number; y: number }; // QR code position from host
     highlightedQuestion?: string | null; // Currently highlighted question (for visual feedback)
     themesScrollPosition?: number; // Scroll position for themes list
+    triviaProgress?: { // Trivia (linear) mode - progress is shown instead of board
+      roundName?: string;
+      answeredCount: number;
+      totalCount: number;
+      nextThemeName?: string;
+    } | null;
+    specialQuestion?: SpecialQuestionInfo | null; // Cat in a bag / auction / no risk (null when none)
   }>({
     buzzerState: {
       active: false,
@@ -460,10 +497,21 @@ export const ScreenView: React.FC = () => {
     };
   }, [detailedGameState.currentRound?.readingTimePerLetter, detailedGameState.currentRound?.responseWindow]);
 
+  // Media handler answers the host (inventory, chunk ACKs) - p2pClient is created below
+  const sendToHostRef = useRef<((message: Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>) => boolean) | null>(null);
+
   // Initialize media handler for background downloads
   useEffect(() => {
     demoScreenMediaHandler.initialize((updates) => {
       // Media download progress updates - could trigger UI updates here if needed
+    }, {
+      sendToHost: (message) => sendToHostRef.current?.(message) ?? false,
+      // File finished after the question was shown - swap in the local URL
+      onMediaReady: () => {
+        setDetailedGameState(prevState => prevState.activeQuestion
+          ? { ...prevState, activeQuestion: demoScreenMedia.applyCachedMedia(prevState.activeQuestion) }
+          : prevState);
+      }
     });
 
     // Run initial health check
@@ -492,9 +540,11 @@ export const ScreenView: React.FC = () => {
     hostId: urlHostId || '',
     isLanMode: !!signallingUrl,
     signallingUrl: signallingUrl,
+    allowPublicServer: !signallingUrl,
     persistentClientId: clientId,
     currentTeamId: undefined,
     isModerator: false, // Not a moderator, just a display
+    roomCode: roomCode || undefined,
     onMessage: (message) => {
       // Process message directly with new architecture
       // This handles ALL message types including COMMANDS_LIST, TEAM_UPDATE, STATE_SYNC, etc.
@@ -508,34 +558,9 @@ export const ScreenView: React.FC = () => {
         // TEAM_UPDATE is now handled in processMessage() only
         // COMMANDS_LIST is handled in processMessage() only
         case 'BROADCAST':
+          // MEDIA_TRANSFER is handled in processMessage() only
           if (message.payload?.type === 'GAME_STATE_UPDATE') {
             handleGameStateUpdate(message.payload.state, message.payload);
-          } else if (message.payload?.type === 'MEDIA_TRANSFER') {
-            const payload = message.payload;
-            if (!window.mediaTransferCache) {
-              window.mediaTransferCache = new Map();
-            }
-            if (payload.isYouTube && payload.url) {
-              window.mediaTransferCache.set(payload.mediaId, {
-                type: payload.mediaType,
-                url: payload.url,
-                isYouTube: true
-              });
-            } else if (payload.fileData && payload.fileType) {
-              window.mediaTransferCache.set(payload.mediaId, {
-                type: payload.mediaType,
-                url: null,
-                fileData: payload.fileData,
-                fileType: payload.fileType,
-                isYouTube: false
-              });
-            } else if (payload.url) {
-              window.mediaTransferCache.set(payload.mediaId, {
-                type: payload.mediaType,
-                url: payload.url,
-                isYouTube: false
-              });
-            }
           } else if (message.payload?.type === 'SUPER_GAME_STATE_SYNC') {
             setDetailedGameState(prevState => ({
               ...prevState,
@@ -549,14 +574,10 @@ export const ScreenView: React.FC = () => {
             position: message.payload.position
           });
           break;
-        case 'MEDIA_TRANSFER':
-        case 'MEDIA_CHUNK_METADATA':
-        case 'MEDIA_CHUNK':
-        case 'MEDIA_CHUNK_COMPLETE':
-        case 'MEDIA_PROGRESS':
-          // Handle all media messages via demo screen media hook
-          demoScreenMedia.processMediaMessage(message);
+        case 'LEAGUE_TABLE':
+          setLeagueTable(message.payload);
           break;
+        // Media messages are handled in processMessage() only
         default:
       }
     },
@@ -583,6 +604,7 @@ export const ScreenView: React.FC = () => {
       setConnectionStatus('error');
     },
   });
+  sendToHostRef.current = p2pClient.send;
 
   // Auto-connect when we have host ID
   useEffect(() => {
@@ -825,6 +847,10 @@ export const ScreenView: React.FC = () => {
         highlightedQuestion: fullPayload?.highlightedQuestion !== undefined ? fullPayload.highlightedQuestion : prevState.highlightedQuestion,
         // Extract themesScrollPosition from full payload
         themesScrollPosition: fullPayload?.themesScrollPosition !== undefined ? fullPayload.themesScrollPosition : prevState.themesScrollPosition,
+        // Extract triviaProgress from full payload (null for board games)
+        triviaProgress: fullPayload?.triviaProgress !== undefined ? fullPayload.triviaProgress : prevState.triviaProgress,
+        // Extract specialQuestion from full payload (null when regular question)
+        specialQuestion: fullPayload?.specialQuestion !== undefined ? fullPayload.specialQuestion : prevState.specialQuestion,
         // Use final activeQuestion (either new or preserved old)
         activeQuestion: finalActiveQuestion,
         // Use calculated final buzzerState
@@ -1158,7 +1184,7 @@ export const ScreenView: React.FC = () => {
       return `http://${ip}:3000#/mobile?host=${encodeURIComponent(urlHostId)}&signalling=${encodeURIComponent(ip)}&session=${encodeURIComponent(sessionId)}`;
     } else {
       // Internet mode
-      return `${window.location.origin}#/mobile?host=${encodeURIComponent(urlHostId)}&session=${encodeURIComponent(sessionId)}`;
+      return `${window.location.origin}#/mobile?host=${encodeURIComponent(urlHostId)}&session=${encodeURIComponent(sessionId)}&cloud=1`;
     }
   }, [urlHostId, sessionId, signallingUrl]);
 
@@ -1290,8 +1316,14 @@ export const ScreenView: React.FC = () => {
         // Game board with themes and questions - exact same layout as host
         return (
           <React.Fragment>
+            {/* Trivia mode - progress indicator replaces the board */}
+            {detailedGameState.triviaProgress && (
+              <div className="fixed inset-0 top-24 bottom-0 left-0 right-0 cursor-default">
+                <TriviaProgress {...detailedGameState.triviaProgress} />
+              </div>
+            )}
             {/* Game board - always shown when currentScreen is 'board', even when question is active */}
-            {detailedGameState.boardData && (
+            {detailedGameState.boardData && !detailedGameState.triviaProgress && (
               <div className="fixed inset-0 top-24 bottom-0 left-0 right-0 cursor-default">
                 <div className="w-full h-full animate-in fade-in duration-500 p-1">
                   {/* Themes column (1/8 width) + Questions grid (7/8 width) */}
@@ -2040,9 +2072,16 @@ export const ScreenView: React.FC = () => {
 
                     {/* Main Content */}
                     <div className="h-screen bg-gray-950 text-gray-100 overflow-hidden cursor-default">
-                      {renderGameScreen()}
+                      {quizState ? <QuizRevealView quizState={quizState} /> : renderGameScreen()}
                     </div>
 
+                    {/* Special question splash - before the question opens (reveal / auction bidding) */}
+                    {detailedGameState.specialQuestion && detailedGameState.specialQuestion.stage !== 'playing' && !detailedGameState.activeQuestion && (
+                      <div className="fixed inset-0 z-40 cursor-default">
+                        <SpecialQuestionReveal info={detailedGameState.specialQuestion} />
+                      </div>
+                    )}
+
                     {/* Question Modal - Always shown when activeQuestion exists, regardless of currentScreen */}
                     {detailedGameState.activeQuestion && (() => {
                       const hasQuestionMedia = detailedGameState.activeQuestion.media &&
@@ -2102,6 +2141,9 @@ export const ScreenView: React.FC = () => {
                                     <span ref={timerTextRef}></span>
                                   </div>
                                 </div>
+                                {detailedGameState.specialQuestion?.stage === 'playing' && (
+                                  <SpecialQuestionReveal info={detailedGameState.specialQuestion} compact />
+                                )}
                                 <div className="text-2xl font-black text-white">
                                   {detailedGameState.activeQuestion.points > 0 ? `+${detailedGameState.activeQuestion.points}` : detailedGameState.activeQuestion.points}
                                 </div>
@@ -2367,6 +2409,18 @@ export const ScreenView: React.FC = () => {
         )}
       </div>
 
+      {/* League table - shown over the game by the host */}
+      {leagueTable.visible && (
+        <div className="fixed inset-0 z-40 bg-gray-950/95 flex flex-col items-center justify-center p-12">
+          <h1 className="text-6xl font-black text-yellow-400 mb-10 text-center">
+            🏆 {leagueTable.seasonName || 'League'}
+          </h1>
+          <div className="w-full max-w-5xl">
+            <LeagueTable rows={leagueTable.rows || []} size="large" />
+          </div>
+        </div>
+      )}
+
       {/* Draggable QR Code - synced with host */}
       {detailedGameState.hostId && (
         <DraggableQRCode
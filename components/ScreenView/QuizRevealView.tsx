@@ -0,0 +1,142 @@
+/**
+ * Demo Screen Quiz View
+ *
+ * Shows quiz question with countdown while teams answer,
+ * then reveals the correct answer with per-team results.
+ */
+
+import React, { memo } from 'react';
+import { Check, X, Lock, Trophy } from 'lucide-react';
+import type { QuizStateMessage } from '../../types';
+import { calculateQuestionFontSize } from '../host/game/fontUtils';
+
+interface QuizRevealViewProps {
+  quizState: QuizStateMessage['payload'];
+}
+
+export const QuizRevealView = memo(({ quizState }: QuizRevealViewProps) => {
+  const teamScores = quizState.teamScores || [];
+  const answeredTeamIds = new Set(quizState.answeredTeamIds || []);
+
+  if (quizState.phase === 'results') {
+    const sorted = [...teamScores].sort((a, b) => b.score - a.score);
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-gray-950 cursor-default">
+        <div className="text-center w-full max-w-3xl animate-in fade-in duration-500">
+          <Trophy className="w-20 h-20 text-yellow-400 mx-auto mb-4" />
+          <h1 className="text-7xl font-black text-yellow-400 mb-8">Final Results</h1>
+          <div className="space-y-4">
+            {sorted.map((team, index) => (
+              <div
+                key={team.id}
+                className={`flex items-center justify-between rounded-lg p-6 border-2 ${
+                  index === 0 ? 'border-yellow-500 bg-yellow-900/20' : 'border-gray-700 bg-gray-800/50'
+                }`}
+              >
+                <h3 className="text-3xl font-bold text-white">{index === 0 && '👑 '}{team.name}</h3>
+                <div className="text-5xl font-bold text-yellow-400">{team.score}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const questionText = quizState.questionText || '';
+
+  return (
+    <div className="fixed inset-0 flex flex-col bg-gray-950 cursor-default">
+      {/* Team panel - green when team has answered */}
+      <div className="flex items-center justify-center gap-1 py-1 px-1 bg-gray-900/50">
+        {teamScores.map(team => {
+          const result = quizState.results?.find(r => r.teamId === team.id);
+          const cardClasses = quizState.phase === 'reveal'
+            ? result?.isCorrect
+              ? 'bg-green-500/30 border-green-500'
+              : 'bg-red-500/20 border-red-500'
+            : answeredTeamIds.has(team.id)
+              ? 'bg-green-500/30 border-green-500 shadow-[0_0_20px_rgba(34,197,94,0.5)]'
+              : 'bg-gray-800 border-gray-700';
+          return (
+            <div key={team.id} className={`px-6 py-2 rounded-lg border-2 transition-all ${cardClasses}`}>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-white">{team.name}</div>
+                <div className="h-px bg-gray-600 my-1"></div>
+                <div className="text-2xl font-bold text-white">{team.score}</div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center px-12 animate-in fade-in duration-300">
+        <div className="flex items-center gap-6 text-2xl text-gray-400 mb-6">
+          <span>Вопрос {quizState.questionIndex + 1} / {quizState.totalQuestions}</span>
+          {quizState.points !== undefined && <span>{quizState.points}</span>}
+          {quizState.phase === 'question' && (
+            <span className={`font-mono font-bold text-5xl ${(quizState.timeRemaining ?? 0) <= 5 ? 'text-red-400' : 'text-white'}`}>
+              {quizState.timeRemaining ?? 0}
+            </span>
+          )}
+          {quizState.phase === 'locked' && <Lock className="w-8 h-8 text-yellow-400" />}
+        </div>
+
+        <p
+          className="font-bold text-white text-center leading-tight mb-8"
+          style={{ fontSize: `${calculateQuestionFontSize(questionText, 5)}rem` }}
+        >
+          {questionText}
+        </p>
+
+        {quizState.questionMedia?.type === 'image' && quizState.questionMedia.url && (
+          <img src={quizState.questionMedia.url} alt="" className="max-h-[35vh] rounded-lg mb-8" />
+        )}
+
+        {quizState.options && (
+          <div className="grid grid-cols-2 gap-4 w-full max-w-5xl mb-8">
+            {quizState.options.map((option, idx) => (
+              <div
+                key={idx}
+                className={`rounded-lg px-6 py-4 text-3xl border-2 ${
+                  quizState.phase === 'reveal' && idx === quizState.correctOptionIndex
+                    ? 'border-green-500 bg-green-500/20 text-green-300'
+                    : 'border-gray-700 bg-gray-800 text-gray-200'
+                }`}
+              >
+                {String.fromCharCode(65 + idx)}. {option}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {quizState.phase === 'reveal' && (
+          <>
+            {quizState.correctAnswer && (
+              <p className="text-4xl font-bold text-green-400 mb-8">{quizState.correctAnswer}</p>
+            )}
+            <div className="grid grid-cols-2 gap-3 w-full max-w-5xl">
+              {quizState.results?.map(result => (
+                <div
+                  key={result.teamId}
+                  className={`flex items-center gap-3 rounded-lg px-4 py-3 border ${
+                    result.isCorrect ? 'border-green-500 bg-green-500/10' : 'border-red-500/60 bg-red-500/10'
+                  }`}
+                >
+                  {result.isCorrect ? <Check className="w-6 h-6 text-green-400" /> : <X className="w-6 h-6 text-red-400" />}
+                  <span className="text-xl font-semibold text-white">{result.teamName}</span>
+                  <span className="flex-1 text-xl text-gray-300 truncate">{result.answer ?? '—'}</span>
+                  {result.pointsAwarded > 0 && (
+                    <span className="text-xl font-bold text-green-400">+{result.pointsAwarded}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
+
+QuizRevealView.displayName = 'QuizRevealView';
@@ -0,0 +1,113 @@
+/**
+ * AudienceGroupPicker Component
+ * Audience group selector for the game selector: which group is playing,
+ * create / reset / delete groups, build a fresh pack from questions the group hasn't seen.
+ */
+
+import React, { memo, useState, useCallback } from 'react';
+import { Users, Plus, RotateCcw, Trash2, Sparkles } from 'lucide-react';
+import type { AudienceGroup } from '../../utils/audienceGroups';
+
+interface AudienceGroupPickerProps {
+  groups: AudienceGroup[];
+  activeGroupId: string | null;
+  onSelect: (groupId: string | null) => void;
+  onCreate: (name: string) => void;
+  onReset: (groupId: string) => void;
+  onDelete: (groupId: string) => void;
+  onBuildFreshPack: () => void;
+  isBuilding?: boolean;
+}
+
+export const AudienceGroupPicker = memo(({
+  groups,
+  activeGroupId,
+  onSelect,
+  onCreate,
+  onReset,
+  onDelete,
+  onBuildFreshPack,
+  isBuilding = false
+}: AudienceGroupPickerProps) => {
+  const [newName, setNewName] = useState<string | null>(null);
+  const activeGroup = groups.find(g => g.id === activeGroupId);
+
+  const handleCreate = useCallback(() => {
+    if (newName?.trim()) onCreate(newName.trim());
+    setNewName(null);
+  }, [newName, onCreate]);
+
+  return (
+    <div>
+      <label className="text-sm font-medium text-gray-400 mb-2 flex items-center gap-2">
+        <Users className="w-4 h-4" /> Audience Group
+        {activeGroup && (
+          <span className="text-xs text-gray-500 font-normal">
+            {activeGroup.playedQuestionIds.length} questions played
+          </span>
+        )}
+      </label>
+      <div className="flex items-center gap-2">
+        {newName !== null ? (
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+              if (e.key === 'Escape') setNewName(null);
+            }}
+            onBlur={handleCreate}
+            placeholder="e.g. Thursday office league"
+            className="flex-1 bg-gray-950 border border-blue-500 rounded-lg px-3 py-2 text-sm text-white outline-none"
+            autoFocus
+          />
+        ) : (
+          <select
+            value={activeGroupId ?? ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            className="flex-1 bg-gray-950 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white"
+          >
+            <option value="">No group - don't track played questions</option>
+            {groups.map(group => <option key={group.id} value={group.id}>{group.name}</option>)}
+          </select>
+        )}
+        <button
+          onClick={() => setNewName('')}
+          className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-white transition-colors"
+          title="New group"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+        {activeGroup && (
+          <>
+            <button
+              onClick={onBuildFreshPack}
+              disabled={isBuilding}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-purple-300 hover:bg-purple-500/20 disabled:opacity-50 transition-colors"
+              title="Build a pack from library questions this group hasn't played"
+            >
+              <Sparkles className="w-4 h-4" /> Fresh pack
+            </button>
+            <button
+              onClick={() => onReset(activeGroup.id)}
+              className="p-2 hover:bg-gray-800 rounded-lg text-gray-400 hover:text-yellow-300 transition-colors"
+              title="Forget played questions"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onDelete(activeGroup.id)}
+              className="p-2 hover:bg-red-900/50 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+              title="Delete group"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
+
+AudienceGroupPicker.displayName = 'AudienceGroupPicker';
@@ -19,8 +19,9 @@ import { flushSync } from 'react-dom';
 import { Volume2 } from 'lucide-react';
 import type { GamePack } from './OptimizedGameSelectorModal';
 import type { Round, Theme, Question } from './PackEditor';
-import { Team } from '../../types';
+import { Team, type ModeratorActionPayload, type SpecialQuestionInfo } from '../../types';
 import { restorePackBlobUrlsFromStorage, restoreBlobFromStorage } from '../../utils/mediaManager';
+import type { GamePlaySnapshot } from '../../utils/media/GameSnapshotStorage';
 import {
   calculateQuestionFontSize,
   calculateAnswerFontSizeMobile,
@@ -32,6 +33,28 @@ import {
   type SuperGameAnswer,
   type BuzzerState,
   GameBoardExtended,
+  TriviaProgress,
+  ActionHistoryPanel,
+  createJournal,
+  recordAction,
+  undoAction,
+  redoAction,
+  getScoreUpdates,
+  type ActionJournal,
+  type JournalActionKind,
+  type JournalSnapshot,
+  type JournalScoreUpdate,
+  exportGameReport,
+  type GameReportRecorder,
+  type ReportFormat,
+  type AuctionBid,
+  type SpecialQuestionKind,
+  type SpecialQuestionPlay,
+  getSpecialKind,
+  getCatInBagStake,
+  getAnswerDelta,
+  clampAuctionBid,
+  SpecialQuestionModal,
   ShowWinnerScreen as ModalShowWinnerScreen,
   type TeamScore as ModalTeamScore
 } from './game';
@@ -40,6 +63,7 @@ import { SuperGameQuestionModal, SuperGameAnswersModal } from './game/SuperGameM
 // DebugMediaStreamer removed - using syncMediaStreamer instead
 import { streamMediaFilesSynchronously, clearTransferredMediaCache } from '../../utils/syncMediaStreamer';
 import { useHostMessageSequencer } from '../../utils/hostMessageSequencer';
+import { getBetCaptains } from '../../utils/playerProfiles';
 // New team status management system
 import {
   useTeamStatusManager,
@@ -55,12 +79,19 @@ interface TeamScore {
   score: number;
 }
 
+// Moderator action forwarded by HostView - id makes repeated identical actions distinct
+export type ModeratorCommand = ModeratorActionPayload & { id: number };
+
+// Pause between questions in trivia mode before the next one opens automatically
+const TRIVIA_AUTO_ADVANCE_SECONDS = 3;
+
 // Re-export TeamScore from types for compatibility
 export type { TeamScore } from '../../../types';
 
 interface GamePlayProps {
   pack: GamePack;
   teams: Team[];
+  gameType?: 'custom' | 'trivia';  // 'trivia' = linear mode: questions in pack order, no board
   onBackToLobby?: () => void;
   onBuzzerStateChange: (state: BuzzerState) => void;
   onBuzzTriggered: (teamId: string | null) => void;
@@ -90,11 +121,21 @@ interface GamePlayProps {
   demoScreenConnected?: boolean;  // If true, demo screen controls timer phase transitions
   switchToResponsePhaseSignal?: number | null;  // Trigger value to switch from reading to response phase (from demo screen)
   onPhaseSwitchComplete?: () => void;  // Callback to reset the signal after processing
+  moderatorCommand?: ModeratorCommand | null;  // Latest approved action from moderator phone (processed once per id)
+  initialSnapshot?: GamePlaySnapshot | null;  // Restore progress of interrupted game (read on mount only)
+  onSnapshotChange?: (snapshot: GamePlaySnapshot) => void;  // Called on every state transition for crash-safe persistence
+  onScoreUpdate?: (updates: JournalScoreUpdate[]) => void;  // Send UPDATE_SCORE after undo/redo
+  reportRecorder?: GameReportRecorder;  // Collects question outcomes for post-game report
+  auctionBids?: AuctionBid[];  // Auction bids received from mobile clients (special questions)
+  onQuestionShown?: (questionId: string) => void;  // Question opened - recorded as played by audience group
+  captainOnlySuperBets?: boolean;  // Only team captains place super game bets (Team.captainId)
+  onGameFinished?: (finalScores: { teamId: string; teamName: string; score: number }[]) => void;  // Winner screen - record league results
 }
 
 export const GamePlay = memo(({
   pack,
   teams,
+  gameType = 'custom',
   onBackToLobby: _onBackToLobby,
   onBuzzerStateChange,
   onBuzzTriggered,
@@ -119,12 +160,21 @@ export const GamePlay = memo(({
   demoScreenConnected = false,
   switchToResponsePhaseSignal,
   onPhaseSwitchComplete,
+  moderatorCommand,
+  initialSnapshot,
+  onSnapshotChange,
+  onScoreUpdate,
+  reportRecorder,
+  auctionBids = [],
+  onQuestionShown,
+  captainOnlySuperBets = false,
+  onGameFinished,
 }: GamePlayProps) => {
-  // Game state
-  const [currentScreen, setCurrentScreen] = useState<GameScreen>('cover');
-  const previousScreenRef = useRef<GameScreen>('cover');
-  const [currentRoundIndex, setCurrentRoundIndex] = useState(0);
-  const [answeredQuestions, setAnsweredQuestions] = useState<Set<string>>(new Set());
+  // Game state (restored from snapshot after host page reload)
+  const [currentScreen, setCurrentScreen] = useState<GameScreen>(initialSnapshot?.currentScreen ?? 'cover');
+  const previousScreenRef = useRef<GameScreen>(initialSnapshot?.currentScreen ?? 'cover');
+  const [currentRoundIndex, setCurrentRoundIndex] = useState(initialSnapshot?.currentRoundIndex ?? 0);
+  const [answeredQuestions, setAnsweredQuestions] = useState<Set<string>>(() => new Set(initialSnapshot?.answeredQuestions ?? []));
 
   // Stabilize teams prop to prevent unnecessary useEffect recreations
   const prevTeamsIdsRef = useRef<string>('');
@@ -138,8 +188,10 @@ export const GamePlay = memo(({
   }, [teams]);
   (GamePlay as any)._stabilizedTeams = stabilizedTeams;
 
-  const [teamScores, setTeamScores] = useState<TeamScore[]>(
-    stabilizedTeams.map(t => ({ teamId: t.id, teamName: t.name, score: 0 }))
+  const [teamScores, setTeamScores] = useState<TeamScore[]>(() =>
+    initialSnapshot?.teamScores.length
+      ? initialSnapshot.teamScores
+      : stabilizedTeams.map(t => ({ teamId: t.id, teamName: t.name, score: 0 }))
   );
 
   // Ref to store teamScores for immediate access in broadcastGameState
@@ -157,11 +209,11 @@ export const GamePlay = memo(({
   const teamIds = useMemo(() => stabilizedTeams.map(t => t.id), [stabilizedTeams]);
 
   // Super Game state
-  const [selectedSuperThemeId, setSelectedSuperThemeId] = useState<string | null>(null);
-  const [disabledSuperThemeIds, setDisabledSuperThemeIds] = useState<Set<string>>(new Set());
-  const [superGameBets, setSuperGameBets] = useState<SuperGameBet[]>([]);
-  const [superGameAnswers, setSuperGameAnswers] = useState<SuperGameAnswer[]>([]);
-  const [selectedSuperAnswerTeam, setSelectedSuperAnswerTeam] = useState<string | null>(null);
+  const [selectedSuperThemeId, setSelectedSuperThemeId] = useState<string | null>(initialSnapshot?.selectedSuperThemeId ?? null);
+  const [disabledSuperThemeIds, setDisabledSuperThemeIds] = useState<Set<string>>(() => new Set(initialSnapshot?.disabledSuperThemeIds ?? []));
+  const [superGameBets, setSuperGameBets] = useState<SuperGameBet[]>(initialSnapshot?.superGameBets ?? []);
+  const [superGameAnswers, setSuperGameAnswers] = useState<SuperGameAnswer[]>(initialSnapshot?.superGameAnswers ?? []);
+  const [selectedSuperAnswerTeam, setSelectedSuperAnswerTeam] = useState<string | null>(initialSnapshot?.selectedSuperAnswerTeam ?? null);
 
   // Question modal state
   const [activeQuestion, setActiveQuestion] = useState<{
@@ -169,6 +221,7 @@ export const GamePlay = memo(({
     theme: Theme;
     points: number;
     roundName?: string;
+    special?: SpecialQuestionPlay;
   } | null>(null);
   const [showAnswer, setShowAnswer] = useState(false);
   const [showHint, setShowHint] = useState(false);
@@ -228,8 +281,30 @@ export const GamePlay = memo(({
   const teamStatusManagerRef = useRef(teamStatusManager);
   teamStatusManagerRef.current = teamStatusManager;
 
-  const teamContextMenu = useTeamContextMenu(teamStatusManager);
-  const teamCardClicks = useTeamCardClicks(teamStatusManager, teamContextMenu, teamStatusManager.isResponseTimerActive);
+  // Undo/redo journal of host actions (Ctrl+Z / Ctrl+Shift+Z)
+  const [journal, setJournal] = useState<ActionJournal>(createJournal);
+  const journalRef = useRef(journal);
+  journalRef.current = journal;
+  // Set while undo/redo applies a snapshot - those changes must not be journaled again
+  const isApplyingJournalRef = useRef(false);
+  // Assigned below once all state refs exist
+  const journalActionRef = useRef<(kind: JournalActionKind, label: string) => void>(() => {});
+
+  // Manual status changes from team cards / context menu are journaled
+  const journaledTeamStatusManager = useMemo(() => ({
+    ...teamStatusManager,
+    setTeamStatus: (teamId: string, status: TeamStatus) => {
+      journalActionRef.current('team_status', `${teamScoresRef.current.find(t => t.teamId === teamId)?.teamName ?? teamId}: ${status}`);
+      teamStatusManager.setTeamStatus(teamId, status);
+    },
+    forceSetTeamStatus: (teamId: string, status: TeamStatus) => {
+      journalActionRef.current('team_status', `${teamScoresRef.current.find(t => t.teamId === teamId)?.teamName ?? teamId}: ${status}`);
+      teamStatusManager.forceSetTeamStatus(teamId, status);
+    }
+  }), [teamStatusManager]);
+
+  const teamContextMenu = useTeamContextMenu(journaledTeamStatusManager);
+  const teamCardClicks = useTeamCardClicks(journaledTeamStatusManager, teamContextMenu, teamStatusManager.isResponseTimerActive);
 
   // Ref to store current buzzer state for broadcastGameState
   const buzzerStateRef = useRef<{
@@ -336,8 +411,36 @@ export const GamePlay = memo(({
     return pack.rounds[currentRoundIndex];
   }, [pack.rounds, currentRoundIndex]);
 
+  // Trivia (linear) mode - questions of the current round are played in pack order instead of board
+  const isLinearMode = gameType === 'trivia';
+  const triviaQuestions = useMemo(() => {
+    if (!isLinearMode || !currentRound || currentRound.type === 'super') return [];
+    return (currentRound.themes || [])
+      .filter(theme => !theme.disabled)
+      .flatMap(theme => (theme.questions || []).map(question => ({
+        question,
+        theme,
+        points: question.points ?? 100
+      })));
+  }, [isLinearMode, currentRound]);
+
+  // Next unanswered question in linear order (-1 when round is finished)
+  const triviaNextIndex = useMemo(() => {
+    return triviaQuestions.findIndex(({ question, theme }) =>
+      !answeredQuestions.has(`${currentRound?.id}-${theme.id}-${question.id}`)
+    );
+  }, [triviaQuestions, answeredQuestions, currentRound]);
+  const triviaAnsweredCount = triviaNextIndex === -1 ? triviaQuestions.length : triviaNextIndex;
+  const [triviaCountdown, setTriviaCountdown] = useState<number | null>(null);  // Seconds until next question auto-opens
+
   // Reset super game state when entering selectSuperThemes screen
+  // (not when game was restored on this screen - keep already removed themes)
+  const skipSuperThemesResetRef = useRef(initialSnapshot?.currentScreen === 'selectSuperThemes');
   useEffect(() => {
+    if (skipSuperThemesResetRef.current) {
+      skipSuperThemesResetRef.current = false;
+      return;
+    }
     if (currentScreen === 'selectSuperThemes') {
       setDisabledSuperThemeIds(new Set());
       setSelectedSuperThemeId(null);
@@ -370,8 +473,20 @@ export const GamePlay = memo(({
     theme: Theme;
     points: number;
     roundName?: string;
+    special?: SpecialQuestionPlay;
   } | null>(null);
 
+  // Special question waiting for host decision (cat in a bag team / auction winner / no-risk start)
+  const [pendingSpecial, setPendingSpecial] = useState<{
+    question: Question;
+    theme: Theme;
+    kind: SpecialQuestionKind;
+    themeName: string;  // Revealed theme
+    points: number;     // Price / minimal bid
+  } | null>(null);
+  // Special question info for phones and demo screen (sent with GAME_STATE_UPDATE)
+  const specialInfoRef = useRef<SpecialQuestionInfo | null>(null);
+
   // Function to broadcast current game state to ScreenView
   const broadcastGameState = useCallback(async (force: boolean = false) => {
     if (!broadcastMessage) {
@@ -645,7 +760,16 @@ export const GamePlay = memo(({
         // Add highlighted question for visual feedback
         highlightedQuestion: highlightedQuestion,
         // Add themes scroll position for sync
-        themesScrollPosition: themesScrollPosition
+        themesScrollPosition: themesScrollPosition,
+        // Trivia mode: demo screen shows progress instead of board
+        triviaProgress: isLinearMode && currentRound?.type !== 'super' ? {
+          roundName: currentRound?.name,
+          answeredCount: triviaAnsweredCount,
+          totalCount: triviaQuestions.length,
+          nextThemeName: triviaQuestions[triviaNextIndex]?.theme.name
+        } : null,
+        // Special question splash / auction bidding (null for regular questions)
+        specialQuestion: specialInfoRef.current
       };
 
     // Log broadcast with showAnswer info
@@ -695,7 +819,7 @@ export const GamePlay = memo(({
         return states;
       })()
     });
-  }, [currentScreen, currentRoundIndex, showAnswer, teamScores, answeringTeamId, currentRound, broadcastMessage, pack, selectedSuperThemeId, disabledSuperThemeIds, superGameBets, superGameAnswers, selectedSuperAnswerTeam, teamStatusManager, showQRCode, themesScrollPosition, highlightedQuestion]); // Removed activeQuestion - now using ref to avoid stale closures
+  }, [currentScreen, currentRoundIndex, showAnswer, teamScores, answeringTeamId, currentRound, broadcastMessage, pack, selectedSuperThemeId, disabledSuperThemeIds, superGameBets, superGameAnswers, selectedSuperAnswerTeam, teamStatusManager, showQRCode, themesScrollPosition, highlightedQuestion, isLinearMode, triviaQuestions, triviaNextIndex, triviaAnsweredCount]); // Removed activeQuestion - now using ref to avoid stale closures
 
   // Function to switch from reading to response phase (called from demo screen TIMER_PHASE_SWITCH message)
   // This is a stable callback that uses refs to access current values
@@ -860,8 +984,45 @@ export const GamePlay = memo(({
     });
   }, [showAnswer, activeQuestion]);
 
+  // Refs for journal snapshots (state values may be stale inside callbacks)
+  const answeredQuestionsRef = useRef(answeredQuestions);
+  answeredQuestionsRef.current = answeredQuestions;
+  const superGameAnswersRef = useRef(superGameAnswers);
+  superGameAnswersRef.current = superGameAnswers;
+
+  // Capture state slice that host actions can change
+  const captureJournalSnapshot = useCallback((): JournalSnapshot => {
+    const active = lastActiveQuestionRef.current;
+    return {
+      teamScores: teamScoresRef.current.map(t => ({ ...t })),
+      answeredQuestions: Array.from(answeredQuestionsRef.current),
+      teamStatuses: Object.fromEntries(
+        Array.from(teamStatusManagerRef.current.teamStates.entries()).map(([id, state]) => [id, state.status])
+      ),
+      superGameAnswers: superGameAnswersRef.current.map(a => ({ ...a })),
+      activeQuestion: active ? {
+        roundIndex: currentRoundIndex,
+        themeId: active.theme.id,
+        questionId: active.question.id,
+        points: active.points,
+        special: active.special
+      } : null
+    };
+  }, [currentRoundIndex]);
+
+  // Record action BEFORE it changes state
+  const journalAction = useCallback((kind: JournalActionKind, label: string) => {
+    if (isApplyingJournalRef.current) return;
+    const before = captureJournalSnapshot();
+    setJournal(prev => recordAction(prev, kind, label, before));
+  }, [captureJournalSnapshot]);
+  journalActionRef.current = journalAction;
+
   // Handle team score change from context menu - broadcast to all devices
   const handleTeamScoreChange = useCallback((teamId: string, newScore: number) => {
+    const team = teamScoresRef.current.find(t => t.teamId === teamId);
+    journalAction('score', `${team?.teamName ?? teamId}: ${team?.score ?? 0} → ${newScore}`);
+    reportRecorder?.recordScoreEdit(team?.teamName ?? teamId, newScore - (team?.score ?? 0));
     setTeamScores(prev => prev.map(t => {
       if (t.teamId === teamId) {
         return { ...t, score: newScore };
@@ -870,7 +1031,7 @@ export const GamePlay = memo(({
     }));
     // Broadcast updated scores to all devices immediately
     setTimeout(() => broadcastGameState(true), 0);
-  }, [broadcastGameState]);
+  }, [broadcastGameState, journalAction, reportRecorder]);
 
   // Broadcast team status changes to all devices when changed via context menu
   const prevTeamStatesRef = useRef<string>('');
@@ -1086,6 +1247,7 @@ export const GamePlay = memo(({
         themeName: selectedTheme?.name,
         maxBet: maxBet,
         teamScores: currentScores.map(t => ({ id: t.teamId, name: t.teamName, score: t.score })),
+        betCaptains: getBetCaptains(teams, captainOnlySuperBets),  // Phones of other players show "captain bets"
       });
     } else if (currentScreen === 'superQuestion' && currentRound && selectedSuperThemeId) {
       // Update parent phase
@@ -1144,6 +1306,19 @@ export const GamePlay = memo(({
     }
   }, [currentScreen]);
 
+  // Super game question counts as played once it is shown
+  useEffect(() => {
+    if (currentScreen !== 'superQuestion') return;
+    const superQuestion = currentRound?.themes?.find(t => t.id === selectedSuperThemeId)?.questions?.[0];
+    if (superQuestion) onQuestionShown?.(superQuestion.id);
+  }, [currentScreen, currentRound, selectedSuperThemeId, onQuestionShown]);
+
+  // Final standings on the winner screen (re-sent if the host corrects scores there)
+  useEffect(() => {
+    if (currentScreen !== 'showWinner') return;
+    onGameFinished?.(teamScores.map(t => ({ teamId: t.teamId, teamName: t.teamName, score: t.score })));
+  }, [currentScreen, teamScores, onGameFinished]);
+
   // Handle state sync request from client - rebroadcast current state when trigger changes
   useEffect(() => {
     if (stateSyncTrigger !== undefined && stateSyncTrigger > 0) {
@@ -1364,7 +1539,7 @@ export const GamePlay = memo(({
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Don't handle if question modal is open or CTRL pressed
-      if (activeQuestion) return;
+      if (activeQuestion || pendingSpecial) return;
       if (e.ctrlKey || e.key === 'Control') return;
 
       if (e.key === ' ') {
@@ -1407,7 +1582,7 @@ export const GamePlay = memo(({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [activeQuestion, currentRoundIndex, pack.rounds, selectedSuperThemeId, superGameBets, teamScores]);
+  }, [activeQuestion, pendingSpecial, currentRoundIndex, pack.rounds, selectedSuperThemeId, superGameBets, teamScores]);
 
   // Track themes scroll position for ScreenView sync
   useEffect(() => {
@@ -1479,7 +1654,7 @@ export const GamePlay = memo(({
 
     const handleKeyDown = (e: KeyboardEvent) => {
       // Don't handle when question modal is open
-      if (activeQuestion) return;
+      if (activeQuestion || pendingSpecial) return;
 
       // Use e.code instead of e.key to work with any keyboard layout
       // KeyR = physical R key, KeyE = physical E key (regardless of layout)
@@ -1524,14 +1699,14 @@ export const GamePlay = memo(({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [activeQuestion, pack.rounds, currentRoundIndex]);
+  }, [activeQuestion, pendingSpecial, pack.rounds, currentRoundIndex]);
 
   // Handle number keys 1-9 for direct round preview
   // Uses e.code to work with any keyboard layout
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't handle when question modal is open
-      if (activeQuestion) return;
+      // Don't handle when question modal is open (or auction bids are typed)
+      if (activeQuestion || pendingSpecial) return;
 
       // Check for digit keys 1-9 using e.code (Digit1-Digit9)
       const code = e.code;
@@ -1557,7 +1732,29 @@ export const GamePlay = memo(({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [activeQuestion, pack.rounds]);
+  }, [activeQuestion, pendingSpecial, pack.rounds]);
+
+  // Pause/resume question timer (P key and moderator timer_control)
+  const applyTimerPause = useCallback((paused: boolean) => {
+    // Update ref immediately for interval to use
+    timerPausedRef.current = paused;
+
+    // Use flushSync to update state synchronously
+    flushSync(() => {
+      setTimerPaused(paused);
+    });
+
+    // Send TIMER_STATE immediately (for mobile clients and demo screen)
+    const newState = {
+      ...buzzerStateRef.current,
+      isPaused: paused
+    };
+    buzzerStateRef.current = newState;
+    onBuzzerStateChange(newState);
+
+    // Don't call broadcastGameState here - let useEffect handle it
+    // This prevents duplicate broadcasts and ensures consistency
+  }, [onBuzzerStateChange]);
 
   // Handle Space to show answer and P to pause timer
   useEffect(() => {
@@ -1599,32 +1796,13 @@ buzzerActiveRef.current = false;
       // P key pauses/resumes timer
       if ((e.key === 'p' || e.key === 'P' || e.code === 'KeyP') && activeQuestion && !showAnswer) {
         e.preventDefault();
-        const newPausedState = !timerPaused;
-
-        // Update ref immediately for interval to use
-        timerPausedRef.current = newPausedState;
-
-        // Use flushSync to update state synchronously
-        flushSync(() => {
-          setTimerPaused(newPausedState);
-        });
-
-        // Send TIMER_STATE immediately (for mobile clients and demo screen)
-        const newState = {
-          ...buzzerStateRef.current,
-          isPaused: newPausedState
-        };
-        buzzerStateRef.current = newState;
-        onBuzzerStateChange(newState);
-
-        // Don't call broadcastGameState here - let useEffect handle it
-        // This prevents duplicate broadcasts and ensures consistency
+        applyTimerPause(!timerPaused);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [activeQuestion, showAnswer, onBuzzerStateChange, timerPaused]); // Removed broadcastGameState to prevent circular dependency
+  }, [activeQuestion, showAnswer, onBuzzerStateChange, timerPaused, applyTimerPause]); // Removed broadcastGameState to prevent circular dependency
 
   // Handle closing question with any key after answer shown
   useEffect(() => {
@@ -1978,6 +2156,8 @@ buzzerActiveRef.current = false;
     });
 
     if (activeQuestion) {
+      journalAction('question_close', `Close: ${activeQuestion.theme.name} ${activeQuestion.points}`);
+      if (!isApplyingJournalRef.current) reportRecorder?.closeQuestion();
       // Mark question as answered
       const key = `${currentRound?.id}-${activeQuestion.theme.id}-${activeQuestion.question.id}`;
       setAnsweredQuestions(prev => new Set(prev).add(key));
@@ -1985,6 +2165,7 @@ buzzerActiveRef.current = false;
     setActiveQuestion(null);
     // CRITICAL: Clear ref immediately to ensure broadcastGameState sends activeQuestion: null
     lastActiveQuestionRef.current = null;
+    specialInfoRef.current = null;
     questionModalActiveRef.current = false; // QuestionModal closed, GamePlay can manage timer
     // Clear transferred media cache when question closes
     clearTransferredMediaCache();
@@ -2041,7 +2222,7 @@ buzzerActiveRef.current = false;
     if (onAnsweringTeamChange) {
       onAnsweringTeamChange(null);
     }
-  }, [activeQuestion, currentRound, onBuzzerStateChange, onBuzzTriggered, onAnsweringTeamChange, broadcastGameState, teamStatusManager]);
+  }, [activeQuestion, currentRound, onBuzzerStateChange, onBuzzTriggered, onAnsweringTeamChange, broadcastGameState, teamStatusManager, journalAction]);
 
   // Check if question is answered
   const isQuestionAnswered = useCallback((questionId: string, themeId: string) => {
@@ -2070,6 +2251,8 @@ buzzerActiveRef.current = false;
     if (!activeQuestion) return;
 
     const points = activeQuestion.points;
+    // No-risk question: doubled reward, no penalty
+    const delta = getAnswerDelta(activeQuestion.special?.kind ?? null, points, change === 'correct');
     const currentTeamStatusManager = teamStatusManagerRef.current;
 
     // SIMPLIFIED: Always use answeringTeamId if set, otherwise try to find from teamStatusManager
@@ -2097,12 +2280,15 @@ buzzerActiveRef.current = false;
 
     // Apply score change - NO CONDITIONS except having a target team
     if (targetTeamId) {
+      const targetTeamName = teamScoresRef.current.find(t => t.teamId === targetTeamId)?.teamName ?? targetTeamId;
+      journalAction('score', change === 'correct' ? `✓ ${targetTeamName} +${delta}` : `✗ ${targetTeamName} ${delta === 0 ? '±0' : delta}`);
+      reportRecorder?.recordAnswer(targetTeamId, targetTeamName, change === 'correct', delta);
       if (change === 'wrong') {
         setTeamScores(prev => {
           const updated = prev.map((team: TeamScore) => {
             if (team.teamId === targetTeamId) {
-              const newScore = team.score - points;
-              console.log(`[GamePlay] ❌ Deducting ${points} points from team ${team.teamName}: ${team.score} -> ${newScore}`);
+              const newScore = team.score + delta;
+              console.log(`[GamePlay] ❌ Deducting ${-delta} points from team ${team.teamName}: ${team.score} -> ${newScore}`);
               return { ...team, score: newScore };
             }
             return team;
@@ -2117,8 +2303,8 @@ buzzerActiveRef.current = false;
         setTeamScores(prev => {
           const updated = prev.map((team: TeamScore) => {
             if (team.teamId === targetTeamId) {
-              const newScore = team.score + points;
-              console.log(`[GamePlay] ✅ Adding ${points} points to team ${team.teamName}: ${team.score} -> ${newScore}`);
+              const newScore = team.score + delta;
+              console.log(`[GamePlay] ✅ Adding ${delta} points to team ${team.teamName}: ${team.score} -> ${newScore}`);
               return { ...team, score: newScore };
             }
             return team;
@@ -2166,11 +2352,40 @@ buzzerActiveRef.current = false;
       console.warn('[GamePlay] ⚠️ No answering team found - cannot change score!');
       console.warn('[GamePlay] Teams:', teamScores.map(t => ({ id: t.teamId.slice(0, 12), name: t.teamName, score: t.score })));
     }
-  }, [activeQuestion, answeringTeamId, onBuzzerStateChange, broadcastGameState, teamScores]);
+  }, [activeQuestion, answeringTeamId, onBuzzerStateChange, broadcastGameState, teamScores, journalAction, reportRecorder]);
 
   // Open question
-  const openQuestion = useCallback(async (question: Question, theme: Theme, points: number) => {
+  // Special questions go through SpecialQuestionModal first, then come back here with `special` set
+  const openQuestion = useCallback(async (question: Question, theme: Theme, points: number, special?: SpecialQuestionPlay) => {
     const key = `${theme.id}-${question.id}`;
+    const specialKind = getSpecialKind(question);
+
+    if (specialKind && !special) {
+      const stake = specialKind === 'catInBag'
+        ? getCatInBagStake(question, theme.name, points)
+        : { themeName: theme.name, points };
+      console.log('[GamePlay] 🎁 Special question:', specialKind, stake);
+      setPendingSpecial({ question, theme, kind: specialKind, ...stake });
+      setHighlightedQuestion(key);
+      specialInfoRef.current = {
+        kind: specialKind,
+        stage: specialKind === 'auction' ? 'bidding' : 'reveal',
+        questionId: question.id,
+        // Hidden theme and price of the cat are revealed only when it is handed to a team
+        themeName: specialKind === 'catInBag' ? '' : stake.themeName,
+        points: specialKind === 'catInBag' ? 0 : stake.points,
+        bids: specialKind === 'auction' ? [] : undefined
+      };
+      broadcastGameState(true);
+      return;
+    }
+
+    journalAction('question_open', `Open: ${theme.name} ${points}${special ? ` (${special.kind})` : ''}`);
+    // Undo/redo reopens questions - not a new question for the report
+    if (!isApplyingJournalRef.current) {
+      reportRecorder?.openQuestion({ roundName: currentRound?.name, themeName: theme.name, questionText: question.text || '', points });
+      onQuestionShown?.(question.id);
+    }
 
     // Восстанавливаем blob URL для медиа файлов вопроса перед открытием
     if (question.media?.localFile?.mediaId) {
@@ -2228,8 +2443,18 @@ buzzerActiveRef.current = false;
     setTimeout(() => {
       setHighlightedQuestion(null);
 
-      // Create the new active question object
-      const newActiveQuestion = { question, theme, points, roundName: currentRound?.name };
+      // Create the new active question object (cat in a bag shows its hidden theme)
+      const shownTheme = special?.themeName ? { ...theme, name: special.themeName } : theme;
+      const newActiveQuestion = { question, theme: shownTheme, points, roundName: currentRound?.name, special };
+      specialInfoRef.current = special ? {
+        kind: special.kind,
+        stage: 'playing',
+        questionId: question.id,
+        themeName: shownTheme.name,
+        points,
+        teamId: special.teamId,
+        teamName: teamScoresRef.current.find(t => t.teamId === special.teamId)?.teamName
+      } : null;
 
       // Use flushSync to force synchronous state update
       // This ensures activeQuestion is updated before broadcast
@@ -2257,6 +2482,10 @@ buzzerActiveRef.current = false;
         // CRITICAL: Deactivate teams when opening question (yellow timer = reading phase)
         // Teams will be activated only when green timer starts (demo screen sends TIMER_PHASE_SWITCH)
         teamStatusManager.updateGameState({ isResponseTimerActive: false });
+        // Cat in a bag / auction: the chosen team answers alone, nobody can buzz
+        if (special?.teamId) {
+          teamStatusManager.assignAnsweringTeam(special.teamId);
+        }
       });
 
       // Now broadcast immediately after state is guaranteed to be updated
@@ -2310,7 +2539,308 @@ buzzerActiveRef.current = false;
       // TIMER_STATE: for immediate timer sync
       // GAME_STATE_UPDATE: for complete state including pause state
     }, 1000);
-  }, [currentRound?.name, onAnsweringTeamChange, onUpdateActiveTeamIds, broadcastGameState]); // Added broadcastGameState for proper state sync
+  }, [currentRound?.name, onAnsweringTeamChange, onUpdateActiveTeamIds, broadcastGameState, journalAction, reportRecorder, onQuestionShown]); // Added broadcastGameState for proper state sync
+
+  // Auction bids for the pending question (bids for earlier auctions are ignored)
+  const pendingAuctionBids = useMemo(() => {
+    if (pendingSpecial?.kind !== 'auction') return [];
+    return auctionBids
+      .filter(b => b.questionId === pendingSpecial.question.id)
+      .sort((a, b) => a.placedAt - b.placedAt);
+  }, [auctionBids, pendingSpecial]);
+
+  // Show live bids on phones and demo screen
+  useEffect(() => {
+    const info = specialInfoRef.current;
+    if (!pendingSpecial || info?.kind !== 'auction' || info.stage !== 'bidding') return;
+    specialInfoRef.current = {
+      ...info,
+      bids: pendingAuctionBids.map(b => {
+        const team = teamScoresRef.current.find(t => t.teamId === b.teamId);
+        return {
+          teamId: b.teamId,
+          teamName: team?.teamName ?? b.teamId,
+          bid: clampAuctionBid(b.bid, pendingSpecial.points, team?.score ?? 0),
+          pass: b.pass
+        };
+      })
+    };
+    broadcastGameState(true);
+  }, [pendingAuctionBids, pendingSpecial, broadcastGameState]);
+
+  // Host resolved the special question: team chosen / auction sold / no-risk started
+  const handlePlaySpecial = useCallback((teamId: string | undefined, points: number) => {
+    if (!pendingSpecial) return;
+    const { question, theme, kind, themeName } = pendingSpecial;
+    const teamName = teamScoresRef.current.find(t => t.teamId === teamId)?.teamName;
+    console.log('[GamePlay] 🎁 Special question resolved:', { kind, teamName, points });
+    setPendingSpecial(null);
+    setHighlightedQuestion(null);
+    // Reveal hidden theme / winner on demo screen until the question opens
+    specialInfoRef.current = { kind, stage: 'reveal', questionId: question.id, themeName, points, teamId, teamName };
+    broadcastGameState(true);
+    openQuestion(question, theme, points, { kind, points, teamId, themeName: kind === 'catInBag' ? themeName : undefined });
+  }, [pendingSpecial, openQuestion, broadcastGameState]);
+
+  // Special question cancelled - stays on the board
+  const handleCancelSpecial = useCallback(() => {
+    setPendingSpecial(null);
+    setHighlightedQuestion(null);
+    specialInfoRef.current = null;
+    broadcastGameState(true);
+  }, [broadcastGameState]);
+
+  // Trivia mode: open next question automatically, or move on when round is finished
+  const advanceTrivia = useCallback(() => {
+    const next = triviaQuestions[triviaNextIndex];
+    if (next) {
+      console.log('[GamePlay] ▶️ Trivia auto-advance to question', triviaNextIndex + 1, '/', triviaQuestions.length);
+      openQuestion(next.question, next.theme, next.points);
+      return;
+    }
+
+    const totalRounds = pack.rounds?.length || 0;
+    if (currentRoundIndex < totalRounds - 1) {
+      console.log('[GamePlay] ▶️ Trivia round finished, moving to round', currentRoundIndex + 2);
+      setCurrentRoundIndex(currentRoundIndex + 1);
+      setCurrentScreen('round');
+    } else {
+      console.log('[GamePlay] ▶️ Trivia finished, showing winner');
+      setCurrentScreen('showWinner');
+    }
+  }, [triviaQuestions, triviaNextIndex, openQuestion, pack.rounds, currentRoundIndex]);
+
+  // Demo screen progress must follow answered questions (closeQuestion broadcasts before state update)
+  useEffect(() => {
+    if (!isLinearMode) return;
+    const timer = setTimeout(() => broadcastGameState(true), 0);
+    return () => clearTimeout(timer);
+  }, [isLinearMode, triviaAnsweredCount, triviaQuestions.length, broadcastGameState]);
+
+  // Ref keeps countdown timer stable while advanceTrivia is recreated on every state change
+  const advanceTriviaRef = useRef(advanceTrivia);
+  advanceTriviaRef.current = advanceTrivia;
+
+  // Restart countdown whenever progress view is shown (after question closes or round starts)
+  useEffect(() => {
+    if (!isLinearMode || currentScreen !== 'board' || activeQuestion || highlightedQuestion) {
+      setTriviaCountdown(null);
+      return;
+    }
+    setTriviaCountdown(TRIVIA_AUTO_ADVANCE_SECONDS);
+  }, [isLinearMode, currentScreen, activeQuestion, highlightedQuestion, triviaNextIndex, currentRoundIndex]);
+
+  // Countdown tick
+  useEffect(() => {
+    if (triviaCountdown === null) return;
+    if (triviaCountdown <= 0) {
+      setTriviaCountdown(null);
+      advanceTriviaRef.current();
+      return;
+    }
+    const timer = setTimeout(() => setTriviaCountdown(prev => (prev === null ? null : prev - 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [triviaCountdown]);
+
+  // Space skips the countdown
+  const isTriviaCountdownActive = triviaCountdown !== null;
+  useEffect(() => {
+    if (!isTriviaCountdownActive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== ' ' || e.ctrlKey) return;
+      e.preventDefault();
+      setTriviaCountdown(0);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isTriviaCountdownActive]);
+
+  // Question that was open when snapshot was taken - reopened once after restore
+  const pendingRestoreQuestionRef = useRef<GamePlaySnapshot['activeQuestion']>(initialSnapshot?.activeQuestion ?? null);
+  const restoreAttemptedRef = useRef(false);
+  useEffect(() => {
+    if (restoreAttemptedRef.current) return;
+    restoreAttemptedRef.current = true;
+    const saved = pendingRestoreQuestionRef.current;
+    if (!saved) return;
+
+    const round = pack.rounds?.[saved.roundIndex];
+    const theme = round?.themes?.find((t: Theme) => t.id === saved.themeId);
+    const question = theme?.questions?.find((q: Question) => q.id === saved.questionId);
+    if (saved.roundIndex === currentRoundIndex && theme && question) {
+      console.log('[GamePlay] ♻️ Reopening question from snapshot:', question.id);
+      isApplyingJournalRef.current = true;
+      openQuestion(question, theme, saved.points, saved.special);
+      isApplyingJournalRef.current = false;
+    } else {
+      pendingRestoreQuestionRef.current = null;
+    }
+  }, [pack.rounds, currentRoundIndex, openQuestion]);
+
+  // Persist game progress on every state transition (crash-safe resume after reload)
+  useEffect(() => {
+    if (!onSnapshotChange) return;
+    if (activeQuestion) {
+      pendingRestoreQuestionRef.current = null;
+    }
+
+    onSnapshotChange({
+      currentScreen,
+      currentRoundIndex,
+      answeredQuestions: Array.from(answeredQuestions),
+      teamScores,
+      activeQuestion: activeQuestion ? {
+        roundIndex: currentRoundIndex,
+        themeId: activeQuestion.theme.id,
+        questionId: activeQuestion.question.id,
+        points: activeQuestion.points,
+        special: activeQuestion.special
+      } : pendingRestoreQuestionRef.current,
+      selectedSuperThemeId,
+      disabledSuperThemeIds: Array.from(disabledSuperThemeIds),
+      selectedSuperAnswerTeam,
+      superGameBets,
+      superGameAnswers
+    });
+  }, [onSnapshotChange, currentScreen, currentRoundIndex, answeredQuestions, teamScores, activeQuestion, selectedSuperThemeId, disabledSuperThemeIds, selectedSuperAnswerTeam, superGameBets, superGameAnswers]);
+
+  // Apply journal snapshot (undo/redo) and propagate it to phones and demo screen
+  const applyJournalSnapshot = useCallback((snapshot: JournalSnapshot) => {
+    isApplyingJournalRef.current = true;
+    try {
+      const previousScores = teamScoresRef.current;
+
+      // Open/close question modal to match the snapshot
+      const current = lastActiveQuestionRef.current;
+      const currentKey = current ? `${current.theme.id}-${current.question.id}` : null;
+      const target = snapshot.activeQuestion;
+      const targetKey = target ? `${target.themeId}-${target.questionId}` : null;
+      if (currentKey !== targetKey) {
+        if (current) closeQuestion();
+        if (target && target.roundIndex === currentRoundIndex) {
+          const theme = pack.rounds?.[target.roundIndex]?.themes?.find((t: Theme) => t.id === target.themeId);
+          const question = theme?.questions?.find((q: Question) => q.id === target.questionId);
+          if (theme && question) openQuestion(question, theme, target.points, target.special);
+        }
+      }
+
+      // Overrides answered mark set by closeQuestion above
+      setAnsweredQuestions(new Set(snapshot.answeredQuestions));
+
+      // Keep teams created after the snapshot
+      const restoredScores = [
+        ...snapshot.teamScores,
+        ...previousScores.filter(t => !snapshot.teamScores.some(s => s.teamId === t.teamId))
+      ];
+      teamScoresRef.current = restoredScores;
+      setTeamScores(restoredScores);
+      setSuperGameAnswers(snapshot.superGameAnswers);
+
+      const manager = teamStatusManagerRef.current;
+      Object.entries(snapshot.teamStatuses).forEach(([teamId, status]) => {
+        if (manager.getTeamStatus(teamId) !== status) {
+          manager.forceSetTeamStatus(teamId, status as TeamStatus);
+        }
+      });
+
+      const scoreUpdates = getScoreUpdates(previousScores, restoredScores);
+      if (scoreUpdates.length > 0) onScoreUpdate?.(scoreUpdates);
+    } finally {
+      isApplyingJournalRef.current = false;
+    }
+    // Full resync: GAME_STATE_UPDATE from here, STATE_SYNC to demo screen from HostView
+    onRequestStateSync?.();
+    setTimeout(() => broadcastGameState(true), 0);
+  }, [closeQuestion, openQuestion, currentRoundIndex, pack.rounds, onScoreUpdate, onRequestStateSync, broadcastGameState]);
+
+  const handleUndo = useCallback(() => {
+    const result = undoAction(journalRef.current, captureJournalSnapshot());
+    if (!result) return;
+    console.log('[GamePlay] ↶ Undo:', result.entry.label);
+    setJournal(result.journal);
+    applyJournalSnapshot(result.snapshot);
+  }, [captureJournalSnapshot, applyJournalSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const result = redoAction(journalRef.current);
+    if (!result) return;
+    console.log('[GamePlay] ↷ Redo:', result.entry.label);
+    setJournal(result.journal);
+    applyJournalSnapshot(result.snapshot);
+  }, [applyJournalSnapshot]);
+
+  // Ctrl+Z - undo, Ctrl+Shift+Z / Ctrl+Y - redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      if (e.code === 'KeyZ' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((e.code === 'KeyZ' && e.shiftKey) || e.code === 'KeyY') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Post-game report download (winner screen buttons)
+  const handleExportReport = useCallback((format: ReportFormat) => {
+    if (!reportRecorder) return;
+    const report = reportRecorder.buildReport(teamScores);
+    console.log('[GamePlay] 📊 Exporting game report:', format, report.questions.length, 'questions');
+    exportGameReport(report, format);
+  }, [reportRecorder, teamScores]);
+
+  // Execute moderator actions (approved in HostView) - each command id is processed once
+  const lastModeratorCommandIdRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!moderatorCommand || moderatorCommand.id === lastModeratorCommandIdRef.current) return;
+    lastModeratorCommandIdRef.current = moderatorCommand.id;
+
+    console.log('[GamePlay] 🎙️ Moderator command:', moderatorCommand);
+
+    switch (moderatorCommand.action) {
+      case 'correct_answer':
+        handleScoreChange('correct');
+        break;
+      case 'incorrect_answer':
+        handleScoreChange('wrong');
+        break;
+      case 'show_answer':
+        if (activeQuestion && !showAnswer) handleShowAnswer();
+        break;
+      case 'skip_question':
+        if (activeQuestion) closeQuestion();
+        break;
+      case 'timer_control':
+        if (activeQuestion && !showAnswer) {
+          const { paused } = moderatorCommand.data;
+          applyTimerPause(typeof paused === 'boolean' ? paused : !timerPausedRef.current);
+        }
+        break;
+      case 'award_points':
+      case 'deduct_points': {
+        // Data comes from the phone - still check it
+        const points = Math.abs(Number(moderatorCommand.data.points) || 0);
+        const team = teamScoresRef.current.find(t => t.teamId === moderatorCommand.data.teamId);
+        if (team && points > 0) {
+          handleTeamScoreChange(team.teamId, team.score + (moderatorCommand.action === 'award_points' ? points : -points));
+        }
+        break;
+      }
+      case 'start_question':
+        // Trivia: skip the countdown to the next question
+        if (isLinearMode && triviaCountdown !== null) setTriviaCountdown(0);
+        break;
+    }
+  }, [moderatorCommand, handleScoreChange, handleShowAnswer, closeQuestion, applyTimerPause, handleTeamScoreChange, activeQuestion, showAnswer, isLinearMode, triviaCountdown]);
 
   return (
     <>
@@ -2381,13 +2911,23 @@ buzzerActiveRef.current = false;
       {/* Game Board Container - fixed position, starts below player panel */}
       {currentScreen === 'board' && currentRound && (
         <div className="fixed inset-0 top-24 bottom-0 left-0 right-0 cursor-default">
-          <GameBoardExtended
-            round={currentRound}
-            teamScores={teamScores}
-            onQuestionClick={openQuestion}
-            isQuestionAnswered={isQuestionAnswered}
-            highlightedQuestion={highlightedQuestion}
-          />
+          {isLinearMode ? (
+            <TriviaProgress
+              roundName={currentRound.name}
+              answeredCount={triviaAnsweredCount}
+              totalCount={triviaQuestions.length}
+              nextThemeName={triviaQuestions[triviaNextIndex]?.theme.name}
+              countdown={triviaCountdown}
+            />
+          ) : (
+            <GameBoardExtended
+              round={currentRound}
+              teamScores={teamScores}
+              onQuestionClick={openQuestion}
+              isQuestionAnswered={isQuestionAnswered}
+              highlightedQuestion={highlightedQuestion}
+            />
+          )}
         </div>
       )}
 
@@ -2582,6 +3122,15 @@ buzzerActiveRef.current = false;
           onTeamSelect={(teamId) => setSelectedSuperAnswerTeam(teamId)}
           onScoreChange={(teamId, correct) => {
             const bet = superGameBets.find(b => b.teamId === teamId)?.bet || 0;
+            const teamName = teamScores.find(t => t.teamId === teamId)?.teamName ?? teamId;
+            journalAction('super_reveal', `${correct ? '✓' : '✗'} ${teamName} ${correct ? '+' : '-'}${bet} (super game)`);
+            reportRecorder?.recordSuperGameResult({
+              teamId,
+              teamName,
+              bet,
+              answer: superGameAnswers.find(a => a.teamId === teamId)?.answer ?? '',
+              correct
+            });
             setTeamScores(prev => prev.map(t => {
               if (t.teamId === teamId) {
                 return { ...t, score: t.score + (correct ? bet : -bet) };
@@ -2609,6 +3158,24 @@ buzzerActiveRef.current = false;
         <ModalShowWinnerScreen
           teamScores={teamScores}
           onBroadcastMessage={broadcastMessage}
+          onExportReport={reportRecorder ? handleExportReport : undefined}
+        />
+      )}
+
+      {/* Undo/redo history */}
+      <ActionHistoryPanel journal={journal} onUndo={handleUndo} onRedo={handleRedo} />
+
+      {/* Special question: cat in a bag / auction / no risk - before the question opens */}
+      {pendingSpecial && (
+        <SpecialQuestionModal
+          kind={pendingSpecial.kind}
+          boardThemeName={pendingSpecial.theme.name}
+          themeName={pendingSpecial.themeName}
+          points={pendingSpecial.points}
+          teamScores={teamScores}
+          bids={pendingAuctionBids}
+          onPlay={handlePlaySpecial}
+          onCancel={handleCancelSpecial}
         />
       )}
 
@@ -14,13 +14,13 @@ import { X, Upload, Plus, FolderOpen, FileText, Gamepad2, Check, ChevronDown, La
 import { Button } from '../Button';
 import { generateUUID } from '../../utils';
 import { loadPackFromZip, isZipFile } from '../../utils/zipPackManager';
-import { convertYouTubeToEmbed } from '../../utils/mediaUtils';
+import { parseTextPack } from '../../utils/textPackFormat';
 import { AlertDialog } from '../shared';
 
 // Lazy load PackEditor to reduce initial bundle size
 const PackEditor = lazy(() => import('./PackEditor').then(m => ({ default: m.PackEditor })));
 // Import types only (no code execution)
-import type { GamePack as PackGamePack, Round, Theme, Question as PackQuestion, RoundType } from './packeditor/types';
+import type { GamePack as PackGamePack, Round, Theme } from './packeditor/types';
 
 export type GameType = 'custom' | 'quiz' | 'trivia';
 
@@ -80,6 +80,15 @@ const GAMES: { id: GameType; name: string; icon: React.ReactNode; enabled: boole
 
 const MAX_SELECTED_PACKS = 10;
 
+/** Round timer settings with defaults - older packs may not have them */
+const withTimerDefaults = (round: Round): Round => ({
+  ...round,
+  readingTimePerLetter: round.readingTimePerLetter ?? 0.05,
+  responseWindow: round.responseWindow ?? 30,
+  handicapEnabled: round.handicapEnabled ?? false,
+  handicapDelay: round.handicapDelay ?? 1,
+});
+
 // Helper to count questions in a pack (handles both old and new formats)
 const getQuestionCount = (pack: GamePack | PackGamePack): number => {
   if ('rounds' in pack && pack.rounds) {
@@ -194,285 +203,6 @@ export const GameSelectorModal = memo(({
     setSelectedPackIds([]);
   }, []);
 
-  // Parse text format pack (same logic as in PackEditor)
-  const parseTextPack = useCallback((content: string): GamePack => {
-    const lines = content.split('\n');
-    let currentSection: 'questions' | 'rounds' | 'themes' | 'cover' | null = null;
-    let packName = 'Imported Pack';
-    const questions: Array<{
-      roundNum: number;
-      themeName: string;
-      text: string;
-      points?: number;
-      answerText?: string;
-      mediaUrl?: string;
-      mediaType?: 'image' | 'video' | 'audio' | 'youtube';
-      answers?: string[];
-      correctAnswer?: number;
-    }> = [];
-    const roundSettings: Map<number, Partial<Round>> = new Map();
-    const themeSettings: Map<string, { roundNum: number; data: Partial<Theme> }> = new Map();
-    let packCover: { type: 'url' | 'file'; value: string } | undefined;
-
-    let currentQuestion: Partial<typeof questions[0]> | null = null;
-    let currentRoundNum: number | null = null;
-    let currentThemeName: string | null = null;
-
-    const parseValue = (str: string): string => {
-      const match = str.match(/^([^:]+):\s*(.*?);$/);
-      return match ? match[2].trim() : '';
-    };
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      // Parse pack name from header
-      if (trimmed.startsWith('=== ') && trimmed.endsWith(' ===')) {
-        packName = trimmed.slice(4, -4).trim();
-        continue;
-      }
-
-      // Section headers
-      if (trimmed === '--- QUESTIONS ---') {
-        currentSection = 'questions';
-        continue;
-      }
-      if (trimmed === '--- ROUND SETTINGS ---') {
-        currentSection = 'rounds';
-        continue;
-      }
-      if (trimmed === '--- THEME SETTINGS ---') {
-        currentSection = 'themes';
-        continue;
-      }
-      if (trimmed === '--- PACK COVER ---') {
-        currentSection = 'cover';
-        continue;
-      }
-
-      // Skip empty lines and comments
-      if (!trimmed || trimmed.startsWith('//')) continue;
-
-      // Parse key-value pairs
-      if (trimmed.includes(':') && trimmed.endsWith(';')) {
-        const key = trimmed.substring(0, trimmed.indexOf(':')).trim();
-        const value = parseValue(trimmed);
-
-        if (currentSection === 'questions') {
-          if (key === 'round') {
-            if (currentQuestion && currentQuestion.roundNum && currentQuestion.themeName && currentQuestion.text) {
-              questions.push({ ...currentQuestion } as typeof questions[0]);
-            }
-            currentQuestion = { roundNum: parseInt(value) || 1 };
-          } else if (key === 'theme') {
-            currentThemeName = value;
-            if (currentQuestion) currentQuestion.themeName = value;
-          } else if (key === 'text' && currentQuestion) {
-            currentQuestion.text = value;
-          } else if (key === 'points' && currentQuestion) {
-            currentQuestion.points = value === 'auto' ? undefined : parseInt(value);
-          } else if (key === 'answerText' && currentQuestion) {
-            currentQuestion.answerText = value;
-          } else if (key === 'url' && currentQuestion) {
-            currentQuestion.mediaUrl = value;
-            if (value.match(/\.(jpg|jpeg|png|gif|webp)$/i)) {
-              currentQuestion.mediaType = 'image';
-            } else if (value.match(/\.(mp4|webm|mov)$/i)) {
-              currentQuestion.mediaType = 'video';
-            } else if (value.match(/\.(mp3|wav|ogg)$/i)) {
-              currentQuestion.mediaType = 'audio';
-            } else if (value.includes('youtube.com') || value.includes('youtu.be')) {
-              currentQuestion.mediaType = 'youtube';
-            }
-          } else if (key === 'mediaType' && currentQuestion) {
-            // Explicit media type from file (overrides auto-detection)
-            currentQuestion.mediaType = value as 'image' | 'video' | 'audio' | 'youtube';
-          } else if (key === 'answers' && currentQuestion) {
-            currentQuestion.answers = value.split('|');
-          } else if (key === 'correctAnswer' && currentQuestion) {
-            currentQuestion.correctAnswer = parseInt(value);
-          }
-        } else if (currentSection === 'rounds') {
-          if (key === 'round') {
-            currentRoundNum = parseInt(value) || 1;
-            if (!roundSettings.has(currentRoundNum)) {
-              roundSettings.set(currentRoundNum, {});
-            }
-          } else if (currentRoundNum !== null && roundSettings.has(currentRoundNum)) {
-            const settings = roundSettings.get(currentRoundNum)!;
-            if (key === 'name') {
-              settings.name = value;
-            } else if (key === 'type') {
-              settings.type = (value === 'super' ? 'super' : 'normal') as RoundType;
-            } else if (key === 'cover' && value !== '-') {
-              // Format: url:https://... or file:data:...
-              // Split only on first colon to handle data URLs and URLs with colons
-              const colonIndex = value.indexOf(':');
-              if (colonIndex > 0) {
-                const url = value.substring(colonIndex + 1);
-                // Always treat as 'url' type for simplicity
-                if (url) {
-                  settings.cover = { type: 'url', value: url };
-                }
-              } else {
-                // Backward compatibility: if no colon, treat entire value as URL
-                settings.cover = { type: 'url', value: value };
-              }
-            } else if (key === 'readingTimePerLetter') {
-              settings.readingTimePerLetter = parseFloat(value);
-            } else if (key === 'buzzerActivationDelay') {
-              // Legacy support for old packs
-              settings.readingTimePerLetter = parseFloat(value);
-            } else if (key === 'responseWindow') {
-              settings.responseWindow = parseInt(value);
-            } else if (key === 'handicapEnabled') {
-              settings.handicapEnabled = value === 'true';
-            } else if (key === 'handicapDelay') {
-              settings.handicapDelay = parseFloat(value);
-            }
-          }
-        } else if (currentSection === 'themes') {
-          if (key === 'round') {
-            currentRoundNum = parseInt(value) || 1;
-          } else if (key === 'theme') {
-            currentThemeName = value;
-          } else if (currentRoundNum !== null && currentThemeName) {
-            const key2 = `${currentRoundNum}|${currentThemeName}`;
-            if (!themeSettings.has(key2)) {
-              themeSettings.set(key2, { roundNum: currentRoundNum, data: {} });
-            }
-            const settings = themeSettings.get(key2)!;
-            if (key === 'color' && value !== '-') {
-              settings.data.color = value;
-            }
-            if (key === 'textColor' && value !== '-') {
-              settings.data.textColor = value;
-            }
-          }
-        } else if (currentSection === 'cover') {
-          if (key === 'cover' && value !== '-') {
-            // Format: url:https://...
-            const colonIndex = value.indexOf(':');
-            if (colonIndex > 0) {
-              const type = value.substring(0, colonIndex);
-              const url = value.substring(colonIndex + 1);
-              if (url) {
-                packCover = { type: type as 'url' | 'file', value: url };
-                console.log('[GameSelector] Parsed pack cover:', packCover);
-              }
-            } else {
-              // Backward compatibility
-              packCover = { type: 'url', value: value };
-              console.log('[GameSelector] Parsed pack cover (backward compat):', packCover);
-            }
-          }
-        }
-      }
-    }
-
-    // Don't forget the last question
-    if (currentQuestion && currentQuestion.roundNum && currentQuestion.themeName && currentQuestion.text) {
-      questions.push({ ...currentQuestion } as typeof questions[0]);
-    }
-
-    // Build the pack structure
-    const roundsMap = new Map<number, Round>();
-
-    // Initialize rounds from settings
-    for (const [roundNum, settings] of roundSettings) {
-      roundsMap.set(roundNum, {
-        id: generateUUID(),
-        number: roundNum,
-        name: settings.name || `Round ${roundNum}`,
-        type: settings.type,
-        cover: settings.cover,
-        readingTimePerLetter: settings.readingTimePerLetter ?? 0.05,
-        responseWindow: settings.responseWindow ?? 30,
-        handicapEnabled: settings.handicapEnabled ?? false,
-        handicapDelay: settings.handicapDelay ?? 1,
-        themes: [],
-      });
-    }
-
-    // Group questions by round and theme, create themes
-    for (const q of questions) {
-      let round = roundsMap.get(q.roundNum);
-      if (!round) {
-        // Get round settings if they exist, otherwise use defaults
-        const roundSettingsData = roundSettings.get(q.roundNum);
-        round = {
-          id: generateUUID(),
-          number: q.roundNum,
-          name: roundSettingsData?.name || `Round ${q.roundNum}`,
-          type: roundSettingsData?.type,
-          cover: roundSettingsData?.cover,
-          readingTimePerLetter: roundSettingsData?.readingTimePerLetter ?? 0.05,
-          responseWindow: roundSettingsData?.responseWindow ?? 30,
-          handicapEnabled: roundSettingsData?.handicapEnabled ?? false,
-          handicapDelay: roundSettingsData?.handicapDelay ?? 1,
-          themes: [],
-        };
-        roundsMap.set(q.roundNum, round);
-      }
-
-      let theme = round.themes.find(t => t.name === q.themeName);
-      if (!theme) {
-        const themeKey = `${q.roundNum}|${q.themeName}`;
-        const themeSettingsData = themeSettings.get(themeKey)?.data || {};
-
-        theme = {
-          id: generateUUID(),
-          name: q.themeName,
-          color: themeSettingsData.color,
-          textColor: themeSettingsData.textColor,
-          questions: [],
-        };
-        round.themes.push(theme);
-      }
-
-      const question: PackQuestion = {
-        id: generateUUID(),
-        text: q.text,
-        points: q.points,
-        answerText: q.answerText,
-      };
-
-      if (q.mediaUrl) {
-        // Default to 'video' type if no mediaType was detected, but use 'youtube' for YouTube URLs
-        const mediaType = q.mediaType || 'video';
-        // Convert YouTube URLs to embed format
-        const mediaUrl = mediaType === 'youtube' ? convertYouTubeToEmbed(q.mediaUrl) : q.mediaUrl;
-        question.media = { type: mediaType, url: mediaUrl };
-      }
-      if (q.answers) {
-        question.answers = q.answers;
-      }
-      if (q.correctAnswer !== undefined) {
-        question.correctAnswer = q.correctAnswer;
-      }
-
-      theme.questions.push(question);
-    }
-
-    // Sort rounds by number and themes alphabetically
-    const rounds = Array.from(roundsMap.values()).sort((a, b) => a.number - b.number);
-    for (const round of rounds) {
-      round.themes.sort((a, b) => a.name.localeCompare(b.name));
-    }
-
-    const finalPack: GamePack = {
-      id: generateUUID(),
-      name: packName,
-      cover: packCover,
-      gameType: 'custom',
-      rounds,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
-    console.log('[GameSelector] Final parsed pack cover:', finalPack.cover);
-    return finalPack;
-  }, []);
-
   // Handle file upload - supports .zip (new with media), .json (old) and .txt (new) pack formats
   const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -504,13 +234,7 @@ export const GameSelectorModal = memo(({
           const packId = parsed.id || generateUUID();
 
           // Normalize rounds to ensure they have all required fields with defaults
-          const normalizedRounds = ('rounds' in parsed ? parsed.rounds : []).map((round: Round) => ({
-            ...round,
-            readingTimePerLetter: round.readingTimePerLetter ?? 0.05,
-            responseWindow: round.responseWindow ?? 30,
-            handicapEnabled: round.handicapEnabled ?? false,
-            handicapDelay: round.handicapDelay ?? 1,
-          }));
+          const normalizedRounds = ('rounds' in parsed ? parsed.rounds : []).map(withTimerDefaults);
 
           // Normalize to GamePack format
           pack = {
@@ -525,7 +249,8 @@ export const GameSelectorModal = memo(({
           };
         } else {
           // New text format
-          pack = parseTextPack(content);
+          const parsed = parseTextPack(content);
+          pack = { ...parsed, gameType: parsed.gameType || 'custom', rounds: parsed.rounds.map(withTimerDefaults) };
         }
       }
 
@@ -549,7 +274,7 @@ export const GameSelectorModal = memo(({
       // Reset input so same file can be loaded again
       e.target.value = '';
     }
-  }, [parseTextPack]);
+  }, []);
 
   // Handle pack selection toggle
   const handleTogglePack = useCallback((packId: string) => {
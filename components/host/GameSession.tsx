@@ -3,18 +3,21 @@
  *
  * Routes between different game types:
  * - 'custom': Jeopardy-style game with GamePlay component
- * - 'quiz'/'trivia': Placeholder for future game types
+ * - 'quiz': Simultaneous answers game with QuizPlay component
+ * - 'trivia': Linear buzzer game with GamePlay component (no board, auto-advance)
  *
  * Also handles the buzzer tracking and displays waiting screen when no active game
  */
 
 import React, { memo, useState, useCallback } from 'react';
-import { Wifi, Gamepad2 } from 'lucide-react';
+import { Wifi } from 'lucide-react';
 import { Team } from '../../types';
 import type { GamePack } from './OptimizedGameSelectorModal';
 import type { Round, Theme } from './PackEditor';
-import type { BuzzerState } from './game';
-import { GamePlay } from './GamePlay';
+import type { BuzzerState, QuizAnswer, JournalScoreUpdate, GameReportRecorder, AuctionBid } from './game';
+import { GamePlay, type ModeratorCommand } from './GamePlay';
+import type { GamePlaySnapshot } from '../../utils/media/GameSnapshotStorage';
+import { QuizPlay, type QuizStatePayload } from './QuizPlay';
 
 // TeamPlayer interface - used internally for client data structure
 interface TeamPlayer {
@@ -37,7 +40,7 @@ interface GameSessionProps {
   gameType?: 'custom' | 'quiz' | 'trivia';
   mergedPack?: GamePack;
   noTeamsMode?: boolean;
-  sessionSettings?: { noTeamsMode?: boolean };
+  sessionSettings?: { noTeamsMode?: boolean; captainOnlySuperBets?: boolean };
   onBuzzerStateChange?: (state: BuzzerState) => void;
   buzzerState?: BuzzerState;  // Add buzzer state to track timer phase
   answeringTeamId?: string | null;  // Team that gets to answer the question
@@ -47,6 +50,8 @@ interface GameSessionProps {
   superGameAnswers?: Array<{ teamId: string; answer: string; revealed: boolean }>;  // Answers from mobile clients
   onSuperGamePhaseChange?: (phase: 'idle' | 'placeBets' | 'showQuestion' | 'showWinner') => void;  // Track super game phase
   onSuperGameMaxBetChange?: (maxBet: number) => void;  // Track max bet for super game
+  quizAnswers?: QuizAnswer[];  // Quiz answers from mobile clients
+  onQuizStateChange?: (state: QuizStatePayload) => void;  // Broadcast quiz state to clients
   onRequestStateSync?: () => void;  // Trigger to resend current state to clients
   stateSyncTrigger?: number;  // Trigger value that changes when state sync is requested
   // Active/inactive players props
@@ -56,6 +61,14 @@ interface GameSessionProps {
   showQRCode?: boolean;  // QR code visibility state
   demoScreenConnected?: boolean;  // If true, demo screen controls timer phase transitions
   switchToResponsePhaseSignal?: number | null;  // Trigger to switch from reading to response phase (from demo screen)
+  moderatorCommand?: ModeratorCommand | null;  // Approved action from moderator phone
+  initialSnapshot?: GamePlaySnapshot | null;  // Progress of interrupted game to resume
+  onSnapshotChange?: (snapshot: GamePlaySnapshot) => void;  // Persist game progress
+  onScoreUpdate?: (updates: JournalScoreUpdate[]) => void;  // Scores changed by undo/redo
+  reportRecorder?: GameReportRecorder;  // Post-game report collector (owned by HostView)
+  auctionBids?: AuctionBid[];  // Auction bids from mobile clients (special questions)
+  onQuestionShown?: (questionId: string) => void;  // Question opened - recorded as played by audience group
+  onGameFinished?: (finalScores: { teamId: string; teamName: string; score: number }[]) => void;  // Final standings - recorded into league season
 }
 
 export const GameSession = memo(({
@@ -79,6 +92,8 @@ export const GameSession = memo(({
   superGameAnswers,
   onSuperGamePhaseChange,
   onSuperGameMaxBetChange,
+  quizAnswers,
+  onQuizStateChange,
   onRequestStateSync,
   stateSyncTrigger,
   activeTeamIds,
@@ -86,7 +101,15 @@ export const GameSession = memo(({
   onUpdateActiveTeamIds,
   showQRCode,
   demoScreenConnected = false,
-  switchToResponsePhaseSignal
+  switchToResponsePhaseSignal,
+  moderatorCommand,
+  initialSnapshot,
+  onSnapshotChange,
+  onScoreUpdate,
+  reportRecorder,
+  auctionBids,
+  onQuestionShown,
+  onGameFinished
 }: GameSessionProps) => {
   const isNoTeamsMode = noTeamsMode || sessionSettings?.noTeamsMode || false;
 
@@ -115,24 +138,18 @@ export const GameSession = memo(({
   }, [onBuzzerStateChange, triggeredTeamId]);
 
   // If no pack available, show waiting screen
-  if (!mergedPack || gameType !== 'custom') {
+  if (!mergedPack) {
     return (
       <div className="h-screen bg-gray-950 text-gray-100 flex flex-col items-center justify-center p-8">
         <div className="text-center max-w-md">
           <div className="w-32 h-32 mx-auto mb-8 rounded-full bg-gray-900 border-2 border-dashed border-gray-700 flex items-center justify-center">
-            {gameType === 'custom' ? (
-              <Wifi className="w-14 h-14 text-gray-600" />
-            ) : (
-              <Gamepad2 className="w-14 h-14 text-gray-600" />
-            )}
+            <Wifi className="w-14 h-14 text-gray-600" />
           </div>
           <h2 className="text-3xl font-semibold text-gray-500 mb-3">
-            {gameType === 'custom' ? 'No game pack selected' : `${gameType} mode coming soon`}
+            No game pack selected
           </h2>
           <p className="text-gray-600 mb-8">
-            {gameType === 'custom'
-              ? 'Please select a game pack before starting the session.'
-              : 'This game mode is not yet implemented.'}
+            Please select a game pack before starting the session.
           </p>
           <button
             onClick={handleBackToLobby}
@@ -146,10 +163,28 @@ export const GameSession = memo(({
   }
 
   // Render the appropriate game based on type
+  // Quiz has no undo journal and no resume snapshot - onScoreUpdate / snapshot props are GamePlay only
+  if (gameType === 'quiz') {
+    return (
+      <QuizPlay
+        pack={mergedPack}
+        teams={teams}
+        quizAnswers={quizAnswers || []}
+        onQuizStateChange={onQuizStateChange}
+        onBackToLobby={handleBackToLobby}
+        onQuestionShown={onQuestionShown}
+        onGameFinished={onGameFinished}
+        moderatorCommand={moderatorCommand}
+        reportRecorder={reportRecorder}
+      />
+    );
+  }
+
   return (
     <GamePlay
       pack={mergedPack}
       teams={teams}
+      gameType={gameType}
       onBackToLobby={handleBackToLobby}
       onBuzzerStateChange={handleBuzzerStateChange}
       onBuzzTriggered={setTriggeredTeamId}
@@ -165,6 +200,7 @@ export const GameSession = memo(({
       superGameAnswers={superGameAnswers || []}
       onSuperGamePhaseChange={onSuperGamePhaseChange}
       onSuperGameMaxBetChange={onSuperGameMaxBetChange}
+      captainOnlySuperBets={sessionSettings?.captainOnlySuperBets}
       onRequestStateSync={onRequestStateSync}
       stateSyncTrigger={stateSyncTrigger}
       // Active/inactive players props
@@ -174,6 +210,14 @@ export const GameSession = memo(({
       showQRCode={showQRCode}
       demoScreenConnected={demoScreenConnected}
       switchToResponsePhaseSignal={switchToResponsePhaseSignal}
+      moderatorCommand={moderatorCommand}
+      initialSnapshot={initialSnapshot}
+      onSnapshotChange={onSnapshotChange}
+      onScoreUpdate={onScoreUpdate}
+      reportRecorder={reportRecorder}
+      auctionBids={auctionBids}
+      onQuestionShown={onQuestionShown}
+      onGameFinished={onGameFinished}
     />
   );
 });
@@ -3,6 +3,7 @@ import { ConfirmDialog } from '../shared';
 import { SkeletonCard, SkeletonPackList } from '../shared/Skeleton';
 import type { SessionSettings } from '../../hooks/useSessionSettings';
 import type { GamePack, GameType } from './OptimizedGameSelectorModal';
+import type { SessionPlaylist } from '../../utils/sessionPlaylist';
 
 // Lazy load only SettingsModal (GameSelectorModal is used frequently)
 import { OptimizedGameSelectorModal } from './OptimizedGameSelectorModal';
@@ -27,10 +28,11 @@ export interface HostModalsProps {
   // Game Selector Modal
   showGameSelector: boolean;
   onCloseGameSelector: () => void;
-  onSaveGameSelection: (gameType: GameType, packIds: string[], packs: GamePack[]) => void;
+  onSaveGameSelection: (gameType: GameType, packIds: string[], packs: GamePack[], playlist: SessionPlaylist) => void;
   selectedGame: GameType;
   selectedPackIds: string[];
   selectedPacks: GamePack[];
+  selectedPlaylist: SessionPlaylist;
 
   // Confirm Dialog
   confirmDialog: ConfirmDialogState;
@@ -49,6 +51,7 @@ export const HostModals: React.FC<HostModalsProps> = ({
   selectedGame,
   selectedPackIds,
   selectedPacks,
+  selectedPlaylist,
   confirmDialog,
   onCloseConfirmDialog,
 }) => {
@@ -73,6 +76,7 @@ export const HostModals: React.FC<HostModalsProps> = ({
         initialGameType={selectedGame}
         initialSelectedPackIds={selectedPackIds}
         initialPacks={selectedPacks}
+        initialPlaylist={selectedPlaylist}
       />
 
       {/* Confirm Dialog */}
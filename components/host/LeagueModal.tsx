@@ -0,0 +1,328 @@
+/**
+ * LeagueModal Component
+ * Season standings across game nights: season select/create, participating teams,
+ * points table and tiebreaker order, recorded games, JSON export/import
+ * and the league table on the demo screen.
+ */
+
+import React, { memo, useState, useCallback, useRef, useEffect } from 'react';
+import { Trophy, Plus, Trash2, Download, Upload, ChevronUp, ChevronDown, Monitor, X } from 'lucide-react';
+import { BaseModal, LeagueTable } from '../shared';
+import { Button } from '../Button';
+import type { Team } from '../../types';
+import {
+  TIEBREAKER_LABELS,
+  DEFAULT_TIEBREAKERS,
+  LeagueImportError,
+  type Season,
+  type StandingRow,
+  type LeagueTeam,
+  type LeagueTiebreaker
+} from '../../utils/league';
+
+interface LeagueModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  seasons: Season[];
+  activeSeason: Season | null;
+  standings: StandingRow[];
+  teams: Team[];  // Current lobby teams - offered as season participants
+  onSelectSeason: (seasonId: string | null) => void;
+  onCreateSeason: (name: string, teams: LeagueTeam[]) => void;
+  onUpdateSeason: (season: Season) => void;
+  onDeleteSeason: (seasonId: string) => void;
+  onImport: (text: string) => Promise<number>;
+  onExport: (seasonIds?: string[]) => void;
+  showOnScreen: boolean;
+  onToggleShowOnScreen: () => void;
+}
+
+const formatDate = (timestamp: number) => timestamp ? new Date(timestamp).toLocaleDateString() : '—';
+
+export const LeagueModal = memo(({
+  isOpen,
+  onClose,
+  seasons,
+  activeSeason,
+  standings,
+  teams,
+  onSelectSeason,
+  onCreateSeason,
+  onUpdateSeason,
+  onDeleteSeason,
+  onImport,
+  onExport,
+  showOnScreen,
+  onToggleShowOnScreen
+}: LeagueModalProps) => {
+  const [newSeasonName, setNewSeasonName] = useState('');
+  const [pointsText, setPointsText] = useState('');
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Placement points are edited as text ("10, 8, 6") and applied on blur
+  useEffect(() => {
+    setPointsText(activeSeason?.pointsTable.placementPoints.join(', ') ?? '');
+  }, [activeSeason?.id, activeSeason?.pointsTable.placementPoints]);
+
+  const handleCreate = useCallback(() => {
+    if (!newSeasonName.trim()) return;
+    onCreateSeason(newSeasonName, teams.map(t => ({ id: t.id, name: t.name })));
+    setNewSeasonName('');
+    setMessage(null);
+  }, [newSeasonName, teams, onCreateSeason]);
+
+  const handleImportFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await onImport(await file.text());
+      setMessage({ type: 'info', text: `Imported ${count} season${count === 1 ? '' : 's'}` });
+    } catch (error) {
+      console.error('[LeagueModal] Import failed:', error);
+      setMessage({ type: 'error', text: error instanceof LeagueImportError ? error.message : 'Failed to import file' });
+    }
+  }, [onImport]);
+
+  const applyPoints = useCallback(() => {
+    if (!activeSeason) return;
+    const placementPoints = pointsText
+      .split(/[\s,;]+/)
+      .filter(Boolean)
+      .map(Number)
+      .filter(n => Number.isFinite(n));
+    onUpdateSeason({ ...activeSeason, pointsTable: { ...activeSeason.pointsTable, placementPoints } });
+  }, [activeSeason, pointsText, onUpdateSeason]);
+
+  const toggleTeam = useCallback((team: LeagueTeam) => {
+    if (!activeSeason) return;
+    const isIn = activeSeason.teams.some(t => t.id === team.id);
+    onUpdateSeason({
+      ...activeSeason,
+      teams: isIn ? activeSeason.teams.filter(t => t.id !== team.id) : [...activeSeason.teams, { id: team.id, name: team.name }]
+    });
+  }, [activeSeason, onUpdateSeason]);
+
+  const moveTiebreaker = useCallback((index: number, direction: -1 | 1) => {
+    if (!activeSeason) return;
+    const tiebreakers = [...activeSeason.tiebreakers];
+    const target = index + direction;
+    if (target < 0 || target >= tiebreakers.length) return;
+    [tiebreakers[index], tiebreakers[target]] = [tiebreakers[target], tiebreakers[index]];
+    onUpdateSeason({ ...activeSeason, tiebreakers });
+  }, [activeSeason, onUpdateSeason]);
+
+  const toggleTiebreaker = useCallback((tiebreaker: LeagueTiebreaker) => {
+    if (!activeSeason) return;
+    const tiebreakers = activeSeason.tiebreakers.includes(tiebreaker)
+      ? activeSeason.tiebreakers.filter(t => t !== tiebreaker)
+      : [...activeSeason.tiebreakers, tiebreaker];
+    onUpdateSeason({ ...activeSeason, tiebreakers });
+  }, [activeSeason, onUpdateSeason]);
+
+  const deleteGame = useCallback((gameId: string) => {
+    if (!activeSeason) return;
+    onUpdateSeason({ ...activeSeason, games: activeSeason.games.filter(g => g.id !== gameId) });
+  }, [activeSeason, onUpdateSeason]);
+
+  if (!isOpen) return null;
+
+  // Season teams first, then lobby teams that are not in the season yet
+  const teamOptions: LeagueTeam[] = activeSeason
+    ? [...activeSeason.teams, ...teams.filter(t => !activeSeason.teams.some(s => s.id === t.id)).map(t => ({ id: t.id, name: t.name }))]
+    : [];
+  const unusedTiebreakers = DEFAULT_TIEBREAKERS.filter(t => !activeSeason?.tiebreakers.includes(t));
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="League" icon={<Trophy className="w-5 h-5" />} maxWidth="max-w-4xl">
+      {/* Season select / create / import / export */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <select
+          value={activeSeason?.id ?? ''}
+          onChange={(e) => onSelectSeason(e.target.value || null)}
+          className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+        >
+          <option value="">No active season</option>
+          {seasons.map(season => (
+            <option key={season.id} value={season.id}>{season.name}</option>
+          ))}
+        </select>
+        {activeSeason && (
+          <button
+            onClick={() => onDeleteSeason(activeSeason.id)}
+            className="p-2 hover:bg-red-900/50 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+            title="Delete season"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+        <input
+          type="text"
+          value={newSeasonName}
+          onChange={(e) => setNewSeasonName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+          placeholder="New season name"
+          className="flex-1 min-w-[160px] bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500"
+        />
+        <Button size="sm" onClick={handleCreate} disabled={!newSeasonName.trim()} title="New season with all lobby teams">
+          <Plus className="w-4 h-4 mr-1" /> Create
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => fileInputRef.current?.click()} title="Import seasons from JSON">
+          <Upload className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => onExport()} disabled={seasons.length === 0} title="Export all seasons to JSON">
+          <Download className="w-4 h-4" />
+        </Button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+      </div>
+
+      {message && (
+        <div className={`mb-3 px-3 py-2 rounded-lg text-sm flex items-center justify-between ${
+          message.type === 'error' ? 'bg-red-500/10 text-red-300 border border-red-500/30' : 'bg-blue-500/10 text-blue-300 border border-blue-500/30'
+        }`}>
+          {message.text}
+          <button onClick={() => setMessage(null)} className="text-gray-400 hover:text-white"><X className="w-4 h-4" /></button>
+        </div>
+      )}
+
+      {!activeSeason ? (
+        <div className="border border-dashed border-gray-700 rounded-lg p-10 text-center text-sm text-gray-500">
+          <Trophy className="w-8 h-8 mx-auto mb-2 text-gray-600" />
+          Create or select a season - finished games are recorded into the active season
+        </div>
+      ) : (
+        <div className="grid grid-cols-[3fr_2fr] gap-5 max-h-[60vh]">
+          {/* Standings and recorded games */}
+          <div className="min-h-0 overflow-y-auto pr-1">
+            <LeagueTable rows={standings} />
+
+            <div className="text-sm font-medium text-gray-400 mt-5 mb-2">Games ({activeSeason.games.length})</div>
+            {activeSeason.games.length === 0 && (
+              <div className="text-xs text-gray-600">Games are recorded automatically on the winner screen</div>
+            )}
+            <div className="space-y-1">
+              {[...activeSeason.games].reverse().map(game => (
+                <div key={game.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-800/50 text-sm">
+                  <span className="text-gray-500 w-20 shrink-0">{formatDate(game.playedAt)}</span>
+                  <span className="flex-1 min-w-0 truncate text-gray-300">
+                    {game.title || 'Game'} · {game.results.filter(r => r.placement === 1).map(r => r.teamName).join(', ')} 🏆
+                  </span>
+                  <button
+                    onClick={() => deleteGame(game.id)}
+                    className="p-1 hover:bg-red-900/50 rounded-lg text-gray-500 hover:text-red-400 transition-colors"
+                    title="Remove game from season"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Season settings */}
+          <div className="min-h-0 overflow-y-auto space-y-5 pr-1">
+            <div>
+              <div className="text-sm font-medium text-gray-400 mb-2">Teams</div>
+              <div className="flex flex-wrap gap-1.5">
+                {teamOptions.length === 0 && <span className="text-xs text-gray-600">Create teams in the lobby first</span>}
+                {teamOptions.map(team => {
+                  const isIn = activeSeason.teams.some(t => t.id === team.id);
+                  return (
+                    <button
+                      key={team.id}
+                      onClick={() => toggleTeam(team)}
+                      className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                        isIn ? 'border-blue-500/50 bg-blue-500/10 text-blue-300' : 'border-gray-700 text-gray-500'
+                      }`}
+                      title={isIn ? 'Remove from season (results are kept)' : 'Add to season'}
+                    >
+                      {team.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <div className="text-sm font-medium text-gray-400 mb-2">Points</div>
+              <div className="flex gap-1.5 mb-2">
+                {(['placement', 'score'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => onUpdateSeason({ ...activeSeason, pointsTable: { ...activeSeason.pointsTable, mode } })}
+                    className={`px-3 py-1 rounded-lg text-xs border transition-colors ${
+                      activeSeason.pointsTable.mode === mode ? 'bg-blue-500 text-white border-blue-500' : 'bg-gray-800 text-gray-400 border-gray-700'
+                    }`}
+                  >
+                    {mode === 'placement' ? 'By placement' : 'Score sum'}
+                  </button>
+                ))}
+              </div>
+              {activeSeason.pointsTable.mode === 'placement' && (
+                <input
+                  type="text"
+                  value={pointsText}
+                  onChange={(e) => setPointsText(e.target.value)}
+                  onBlur={applyPoints}
+                  onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                  placeholder="10, 8, 6"
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                  title="Points for 1st, 2nd, 3rd... place; other places get 0"
+                />
+              )}
+            </div>
+
+            <div>
+              <div className="text-sm font-medium text-gray-400 mb-2">Tiebreakers</div>
+              <div className="space-y-1">
+                {activeSeason.tiebreakers.map((tiebreaker, index) => (
+                  <div key={tiebreaker} className="flex items-center gap-1 px-2 py-1 rounded-lg bg-gray-800/50 text-sm">
+                    <span className="text-gray-500 w-5">{index + 1}.</span>
+                    <span className="flex-1 text-gray-300">{TIEBREAKER_LABELS[tiebreaker]}</span>
+                    <button onClick={() => moveTiebreaker(index, -1)} disabled={index === 0} className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30">
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveTiebreaker(index, 1)} disabled={index === activeSeason.tiebreakers.length - 1} className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30">
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => toggleTiebreaker(tiebreaker)} className="p-0.5 text-gray-500 hover:text-red-400" title="Don't use">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+                {unusedTiebreakers.map(tiebreaker => (
+                  <button
+                    key={tiebreaker}
+                    onClick={() => toggleTiebreaker(tiebreaker)}
+                    className="mr-1.5 px-2 py-0.5 rounded-full text-xs border border-dashed border-gray-700 text-gray-500 hover:text-gray-300"
+                  >
+                    + {TIEBREAKER_LABELS[tiebreaker]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <Button size="sm" variant="secondary" className="w-full" onClick={() => onExport([activeSeason.id])}>
+              <Download className="w-4 h-4 mr-1" /> Export this season
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between pt-4 mt-4 border-t border-gray-800">
+        <Button
+          variant={showOnScreen ? 'primary' : 'secondary'}
+          onClick={onToggleShowOnScreen}
+          disabled={!activeSeason}
+          title="League table on the demo screen (L)"
+        >
+          <Monitor className="w-4 h-4 mr-2" /> {showOnScreen ? 'Hide from screen' : 'Show on screen'}
+        </Button>
+        <Button onClick={onClose}>Done</Button>
+      </div>
+    </BaseModal>
+  );
+});
+
+LeagueModal.displayName = 'LeagueModal';
@@ -0,0 +1,148 @@
+/**
+ * ModeratorPanel Component
+ *
+ * Floating host panel for moderator (co-host) phones:
+ * - approve/reject moderator join requests
+ * - list of approved moderators
+ * - session log of moderator actions with who performed them
+ */
+
+import React, { memo, useState, useCallback } from 'react';
+import { ShieldCheck, Check, X, Copy, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import type { SessionLogEntry } from '../../types';
+
+export interface ModeratorInfo {
+  peerId: string;
+  name: string;
+  persistentClientId?: string;
+}
+
+interface ModeratorPanelProps {
+  pendingModerators: ModeratorInfo[];
+  moderators: ModeratorInfo[];
+  sessionLog: SessionLogEntry[];
+  onApprove: (peerId: string) => void;
+  onReject: (peerId: string) => void;
+  onClearLog: () => void;
+  moderatorLink?: string | null;  // Invitation link for moderator phone (lobby only)
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const ModeratorPanel = memo(({
+  pendingModerators,
+  moderators,
+  sessionLog,
+  onApprove,
+  onReject,
+  onClearLog,
+  moderatorLink
+}: ModeratorPanelProps) => {
+  const [isLogOpen, setIsLogOpen] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Blur buttons after click - Space is used for game navigation and would re-trigger them
+  const blurTarget = (e: React.MouseEvent<HTMLButtonElement>) => e.currentTarget.blur();
+
+  const handleCopyLink = useCallback((e: React.MouseEvent<HTMLButtonElement>) => {
+    blurTarget(e);
+    if (!moderatorLink) return;
+    navigator.clipboard.writeText(moderatorLink);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  }, [moderatorLink]);
+
+  // Nothing to show during the game until a moderator appears
+  if (!moderatorLink && pendingModerators.length === 0 && moderators.length === 0 && sessionLog.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 w-80 flex flex-col gap-2 cursor-default">
+      {/* Join requests */}
+      {pendingModerators.map(mod => (
+        <div key={mod.peerId} className="bg-gray-900 border border-yellow-500/50 rounded-lg p-3 shadow-xl animate-in fade-in duration-300">
+          <div className="text-sm text-yellow-300 mb-2">
+            <span className="font-bold">{mod.name}</span> wants to join as moderator
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={(e) => { blurTarget(e); onApprove(mod.peerId); }}
+              className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg bg-green-600 hover:bg-green-500 text-white text-sm font-medium"
+            >
+              <Check className="w-4 h-4" /> Approve
+            </button>
+            <button
+              onClick={(e) => { blurTarget(e); onReject(mod.peerId); }}
+              className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-red-600 text-white text-sm font-medium"
+            >
+              <X className="w-4 h-4" /> Reject
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="bg-gray-900/90 backdrop-blur-sm border border-gray-800 rounded-lg shadow-xl">
+        <div className="flex items-center justify-between px-3 py-2">
+          <div className="flex items-center gap-2 text-sm text-gray-300 min-w-0">
+            <ShieldCheck className="w-4 h-4 text-purple-400 flex-shrink-0" />
+            <span className="truncate">
+              {moderators.length > 0 ? moderators.map(m => m.name).join(', ') : 'No moderators'}
+            </span>
+          </div>
+          <div className="flex items-center gap-1">
+            {moderatorLink && (
+              <button
+                onClick={handleCopyLink}
+                className="p-1.5 rounded hover:bg-gray-800 text-gray-400 hover:text-white"
+                title="Copy moderator link"
+              >
+                {linkCopied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+              </button>
+            )}
+            <button
+              onClick={(e) => { blurTarget(e); setIsLogOpen(prev => !prev); }}
+              className="flex items-center gap-1 px-2 py-1 rounded hover:bg-gray-800 text-xs text-gray-400 hover:text-white"
+              title="Session log"
+            >
+              Log {sessionLog.length}
+              {isLogOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />}
+            </button>
+          </div>
+        </div>
+
+        {/* Session log - newest first */}
+        {isLogOpen && (
+          <div className="border-t border-gray-800">
+            <div className="max-h-64 overflow-y-auto p-2 space-y-1 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent">
+              {sessionLog.length === 0 ? (
+                <div className="text-xs text-gray-600 text-center py-3">No activity yet</div>
+              ) : (
+                sessionLog.map(entry => (
+                  <div key={entry.id} className="text-xs flex gap-2">
+                    <span className="font-mono text-gray-600 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+                    <span className="text-purple-300 font-medium flex-shrink-0">{entry.actor}</span>
+                    <span className="text-gray-300">
+                      {entry.action}{entry.details ? ` — ${entry.details}` : ''}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+            {sessionLog.length > 0 && (
+              <button
+                onClick={(e) => { blurTarget(e); onClearLog(); }}
+                className="w-full flex items-center justify-center gap-1 py-1.5 border-t border-gray-800 text-xs text-gray-500 hover:text-red-400"
+              >
+                <Trash2 className="w-3 h-3" /> Clear log
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+ModeratorPanel.displayName = 'ModeratorPanel';
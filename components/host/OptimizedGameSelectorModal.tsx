@@ -9,17 +9,27 @@
  */
 
 import React, { memo, useState, useCallback, useRef, useMemo, lazy, Suspense } from 'react';
-import { X, Upload, Plus, FolderOpen, FileText, Gamepad2, Check, ChevronDown, Layers } from 'lucide-react';
+import { X, Upload, Plus, FolderOpen, FileText, Gamepad2, Check, ChevronDown, Layers, Library, ListOrdered } from 'lucide-react';
 import { Button } from '../Button';
 import { generateUUID } from '../../utils';
 import { loadPackFromZip, isZipFile } from '../../utils/zipPackManager';
-import { convertYouTubeToEmbed } from '../../utils/mediaUtils';
+import { parseTextPack } from '../../utils/textPackFormat';
+import { packLibraryStorage } from '../../utils/media/PackLibraryStorage';
 import { AlertDialog } from '../shared';
 import { SkeletonCard } from '../shared/Skeleton';
 
 // Lazy load PackEditor to reduce initial bundle size
 const PackEditor = lazy(() => import('./PackEditor').then(m => ({ default: m.PackEditor })));
-import type { GamePack as PackGamePack, Round, Theme, Question as PackQuestion, RoundType } from './packeditor/types';
+import type { GamePack as PackGamePack, Round, Theme } from './packeditor/types';
+import type { PackFocusTarget } from './PackEditor';
+import { validatePack, findMissingPackMedia, mergePackReports, type PackValidationIssue, type PackValidationReport } from './packeditor/packValidator';
+import { PackValidationPanel, PackValidationBadge } from './packeditor/PackValidationPanel';
+import { PackLibraryModal } from './PackLibraryModal';
+import { AudienceGroupPicker } from './AudienceGroupPicker';
+import { useAudienceGroups } from '../../hooks/useAudienceGroups';
+import { getPlayedStats, buildUnplayedPack } from '../../utils/audienceGroups';
+import { SessionPlaylistEditor } from './SessionPlaylistEditor';
+import { EMPTY_PLAYLIST, syncPlaylist, getPlaylistSummary, type SessionPlaylist } from '../../utils/sessionPlaylist';
 
 export type GameType = 'custom' | 'quiz' | 'trivia';
 
@@ -64,20 +74,30 @@ export interface Question {
 interface GameSelectorModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (gameType: GameType, selectedPackIds: string[], packs: GamePack[]) => void;
+  onSave: (gameType: GameType, selectedPackIds: string[], packs: GamePack[], playlist: SessionPlaylist) => void;
   initialGameType?: GameType;
   initialSelectedPackIds?: string[];
   initialPacks?: GamePack[];
+  initialPlaylist?: SessionPlaylist;
 }
 
 const GAMES: { id: GameType; name: string; icon: React.ReactNode; enabled: boolean }[] = [
   { id: 'custom', name: 'Своя игра', icon: <Gamepad2 className="w-4 h-4" />, enabled: true },
-  { id: 'quiz', name: 'Квиз', icon: <Gamepad2 className="w-4 h-4" />, enabled: false },
-  { id: 'trivia', name: 'Викторина', icon: <Gamepad2 className="w-4 h-4" />, enabled: false },
+  { id: 'quiz', name: 'Квиз', icon: <Gamepad2 className="w-4 h-4" />, enabled: true },
+  { id: 'trivia', name: 'Викторина', icon: <Gamepad2 className="w-4 h-4" />, enabled: true },
 ];
 
 const MAX_SELECTED_PACKS = 10;
 
+/** Round timer settings with defaults - older packs may not have them */
+const withTimerDefaults = (round: Round): Round => ({
+  ...round,
+  readingTimePerLetter: round.readingTimePerLetter ?? 0.05,
+  responseWindow: round.responseWindow ?? 30,
+  handicapEnabled: round.handicapEnabled ?? false,
+  handicapDelay: round.handicapDelay ?? 1,
+});
+
 // Helper to count questions in a pack (handles both old and new formats)
 const getQuestionCount = (pack: GamePack | PackGamePack): number => {
   if ('rounds' in pack && pack.rounds) {
@@ -209,6 +229,7 @@ export const OptimizedGameSelectorModal = memo(({
   initialGameType = 'custom',
   initialSelectedPackIds = [],
   initialPacks = [],
+  initialPlaylist = EMPTY_PLAYLIST,
 }: GameSelectorModalProps) => {
   const [selectedGame, setSelectedGame] = useState<GameType>(initialGameType);
   const [showGameDropdown, setShowGameDropdown] = useState(false);
@@ -216,8 +237,17 @@ export const OptimizedGameSelectorModal = memo(({
   const [selectedPackIds, setSelectedPackIds] = useState<string[]>(initialSelectedPackIds);
   const [showPackEditor, setShowPackEditor] = useState(false);
   const [editingPack, setEditingPack] = useState<PackGamePack | undefined>();
+  const [editorFocus, setEditorFocus] = useState<PackFocusTarget | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [isBuildingFreshPack, setIsBuildingFreshPack] = useState(false);
+  const [playlist, setPlaylist] = useState<SessionPlaylist>(initialPlaylist);
+  const [showPlaylist, setShowPlaylist] = useState(false);
+  const audience = useAudienceGroups(isOpen);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Pack check report (single pack from badge, or selected packs before save)
+  const [validationView, setValidationView] = useState<{ title: string; report: PackValidationReport; confirmSave: boolean } | null>(null);
+
   // Alert dialog state
   const [alertDialog, setAlertDialog] = useState<{
     isOpen: boolean;
@@ -231,297 +261,62 @@ export const OptimizedGameSelectorModal = memo(({
     type: 'info'
   });
 
+  // Selected packs in selection order - the order new packs are appended to the playlist
+  const selectedPacks = useMemo(
+    () => selectedPackIds.map(id => packs.find(p => p.id === id)).filter((p): p is GamePack => !!p),
+    [packs, selectedPackIds]
+  );
+
+  // Keep playlist in line with selection and pack edits (deleted rounds/themes drop out).
+  // Declared before the initialization effect so the initial playlist wins when modal opens
+  React.useEffect(() => {
+    if (isOpen) setPlaylist(prev => syncPlaylist(prev, selectedPacks));
+  }, [isOpen, selectedPacks]);
+
   // Initialize from props when modal opens
   React.useEffect(() => {
     if (isOpen) {
       setSelectedGame(initialGameType);
       setSelectedPackIds(initialSelectedPackIds);
       setPacks(initialPacks);
+      setPlaylist(initialPlaylist);
     }
-  }, [isOpen, initialGameType, initialSelectedPackIds, initialPacks]);
+  }, [isOpen, initialGameType, initialSelectedPackIds, initialPacks, initialPlaylist]);
 
-  // Calculate session summary from selected packs
+  // Session summary follows the round playlist
   const sessionSummary = useMemo(() => {
-    const selectedPacks = packs.filter(p => selectedPackIds.includes(p.id));
-
-    const maxRounds = Math.max(...selectedPacks.map(p => p.rounds?.length || 0), 0);
-
-    let totalThemes = 0;
-    let totalQuestions = 0;
-
-    for (let roundNum = 1; roundNum <= maxRounds; roundNum++) {
-      selectedPacks.forEach(pack => {
-        const round = pack.rounds?.[roundNum - 1];
-        if (round) {
-          totalThemes += round.themes?.length || 0;
-          totalQuestions += round.themes?.reduce((acc, t) => acc + (t.questions?.length || 0), 0) || 0;
-        }
-      });
-    }
-
-    selectedPacks.forEach(pack => {
-      if (!pack.rounds || pack.rounds.length === 0) {
-        totalQuestions += pack.questions?.length || 0;
-      }
-    });
-
-    return { maxRounds, totalThemes, totalQuestions };
-  }, [packs, selectedPackIds]);
-
-  // Parse text format pack (same logic as in GameSelectorModal)
-  const parseTextPack = useCallback((content: string): GamePack => {
-    const lines = content.split('\n');
-    let currentSection: 'questions' | 'rounds' | 'themes' | 'cover' | null = null;
-    let packName = 'Imported Pack';
-    const questions: Array<{
-      roundNum: number;
-      themeName: string;
-      text: string;
-      points?: number;
-      answerText?: string;
-      mediaUrl?: string;
-      mediaType?: 'image' | 'video' | 'audio' | 'youtube';
-      answers?: string[];
-      correctAnswer?: number;
-    }> = [];
-    const roundSettings: Map<number, Partial<Round>> = new Map();
-    const themeSettings: Map<string, { roundNum: number; data: Partial<Theme> }> = new Map();
-    let packCover: { type: 'url' | 'file'; value: string } | undefined;
-
-    let currentQuestion: Partial<typeof questions[0]> | null = null;
-    let currentRoundNum: number | null = null;
-    let currentThemeName: string | null = null;
-
-    const parseValue = (str: string): string => {
-      const match = str.match(/^([^:]+):\s*(.*?);$/);
-      return match ? match[2].trim() : '';
-    };
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      if (trimmed.startsWith('=== ') && trimmed.endsWith(' ===')) {
-        packName = trimmed.slice(4, -4).trim();
-        continue;
-      }
-
-      if (trimmed === '--- QUESTIONS ---') {
-        currentSection = 'questions';
-        continue;
-      }
-      if (trimmed === '--- ROUND SETTINGS ---') {
-        currentSection = 'rounds';
-        continue;
-      }
-      if (trimmed === '--- THEME SETTINGS ---') {
-        currentSection = 'themes';
-        continue;
-      }
-      if (trimmed === '--- PACK COVER ---') {
-        currentSection = 'cover';
-        continue;
-      }
+    const summary = getPlaylistSummary(playlist, selectedPacks);
+    const legacyQuestions = selectedPacks
+      .filter(pack => !pack.rounds || pack.rounds.length === 0)
+      .reduce((acc, pack) => acc + (pack.questions?.length || 0), 0);
 
-      if (!trimmed || trimmed.startsWith('//')) continue;
+    return { rounds: summary.rounds, totalThemes: summary.themes, totalQuestions: summary.questions + legacyQuestions };
+  }, [playlist, selectedPacks]);
 
-      if (trimmed.includes(':') && trimmed.endsWith(';')) {
-        const key = trimmed.substring(0, trimmed.indexOf(':')).trim();
-        const value = parseValue(trimmed);
+  // Live structural check for pack list badges (IndexedDB media check runs when report is opened)
+  const packReports = useMemo(() => new Map(packs.map(p => [p.id, validatePack(p)])), [packs]);
 
-        if (currentSection === 'questions') {
-          if (key === 'round') {
-            if (currentQuestion && currentQuestion.roundNum && currentQuestion.themeName && currentQuestion.text) {
-              questions.push({ ...currentQuestion } as typeof questions[0]);
-            }
-            currentQuestion = { roundNum: parseInt(value) || 1 };
-          } else if (key === 'theme') {
-            currentThemeName = value;
-            if (currentQuestion) currentQuestion.themeName = value;
-          } else if (key === 'text' && currentQuestion) {
-            currentQuestion.text = value;
-          } else if (key === 'points' && currentQuestion) {
-            currentQuestion.points = value === 'auto' ? undefined : parseInt(value);
-          } else if (key === 'answerText' && currentQuestion) {
-            currentQuestion.answerText = value;
-          } else if (key === 'url' && currentQuestion) {
-            currentQuestion.mediaUrl = value;
-            if (value.match(/\.(jpg|jpeg|png|gif|webp)$/i)) {
-              currentQuestion.mediaType = 'image';
-            } else if (value.match(/\.(mp4|webm|mov)$/i)) {
-              currentQuestion.mediaType = 'video';
-            } else if (value.match(/\.(mp3|wav|ogg)$/i)) {
-              currentQuestion.mediaType = 'audio';
-            } else if (value.includes('youtube.com') || value.includes('youtu.be')) {
-              currentQuestion.mediaType = 'youtube';
-            }
-          } else if (key === 'mediaType' && currentQuestion) {
-            currentQuestion.mediaType = value as 'image' | 'video' | 'audio' | 'youtube';
-          } else if (key === 'answers' && currentQuestion) {
-            currentQuestion.answers = value.split('|');
-          } else if (key === 'correctAnswer' && currentQuestion) {
-            currentQuestion.correctAnswer = parseInt(value);
-          }
-        } else if (currentSection === 'rounds') {
-          if (key === 'round') {
-            currentRoundNum = parseInt(value) || 1;
-            if (!roundSettings.has(currentRoundNum)) {
-              roundSettings.set(currentRoundNum, {});
-            }
-          } else if (currentRoundNum !== null && roundSettings.has(currentRoundNum)) {
-            const settings = roundSettings.get(currentRoundNum)!;
-            if (key === 'name') {
-              settings.name = value;
-            } else if (key === 'type') {
-              settings.type = (value === 'super' ? 'super' : 'normal') as RoundType;
-            } else if (key === 'cover' && value !== '-') {
-              const colonIndex = value.indexOf(':');
-              if (colonIndex > 0) {
-                const url = value.substring(colonIndex + 1);
-                if (url) {
-                  settings.cover = { type: 'url', value: url };
-                }
-              } else {
-                settings.cover = { type: 'url', value: value };
-              }
-            } else if (key === 'readingTimePerLetter') {
-              settings.readingTimePerLetter = parseFloat(value);
-            } else if (key === 'responseWindow') {
-              settings.responseWindow = parseInt(value);
-            } else if (key === 'handicapEnabled') {
-              settings.handicapEnabled = value === 'true';
-            } else if (key === 'handicapDelay') {
-              settings.handicapDelay = parseFloat(value);
-            }
-          }
-        } else if (currentSection === 'themes') {
-          if (key === 'round') {
-            currentRoundNum = parseInt(value) || 1;
-          } else if (key === 'theme') {
-            currentThemeName = value;
-          } else if (currentRoundNum !== null && currentThemeName) {
-            const key2 = `${currentRoundNum}|${currentThemeName}`;
-            if (!themeSettings.has(key2)) {
-              themeSettings.set(key2, { roundNum: currentRoundNum, data: {} });
-            }
-            const settings = themeSettings.get(key2)!;
-            if (key === 'color' && value !== '-') {
-              settings.data.color = value;
-            }
-            if (key === 'textColor' && value !== '-') {
-              settings.data.textColor = value;
-            }
-          }
-        } else if (currentSection === 'cover') {
-          if (key === 'cover' && value !== '-') {
-            const colonIndex = value.indexOf(':');
-            if (colonIndex > 0) {
-              const type = value.substring(0, colonIndex);
-              const url = value.substring(colonIndex + 1);
-              if (url) {
-                packCover = { type: type as 'url' | 'file', value: url };
-              }
-            } else {
-              packCover = { type: 'url', value: value };
-            }
-          }
-        }
-      }
-    }
-
-    if (currentQuestion && currentQuestion.roundNum && currentQuestion.themeName && currentQuestion.text) {
-      questions.push({ ...currentQuestion } as typeof questions[0]);
-    }
-
-    const roundsMap = new Map<number, Round>();
-
-    for (const [roundNum, settings] of roundSettings) {
-      roundsMap.set(roundNum, {
-        id: generateUUID(),
-        number: roundNum,
-        name: settings.name || `Round ${roundNum}`,
-        type: settings.type,
-        cover: settings.cover,
-        readingTimePerLetter: settings.readingTimePerLetter ?? 0.05,
-        responseWindow: settings.responseWindow ?? 30,
-        handicapEnabled: settings.handicapEnabled ?? false,
-        handicapDelay: settings.handicapDelay ?? 1,
-        themes: [],
-      });
-    }
-
-    for (const q of questions) {
-      let round = roundsMap.get(q.roundNum);
-      if (!round) {
-        const roundSettingsData = roundSettings.get(q.roundNum);
-        round = {
-          id: generateUUID(),
-          number: q.roundNum,
-          name: roundSettingsData?.name || `Round ${q.roundNum}`,
-          type: roundSettingsData?.type,
-          cover: roundSettingsData?.cover,
-          readingTimePerLetter: roundSettingsData?.readingTimePerLetter ?? 0.05,
-          responseWindow: roundSettingsData?.responseWindow ?? 30,
-          handicapEnabled: roundSettingsData?.handicapEnabled ?? false,
-          handicapDelay: roundSettingsData?.handicapDelay ?? 1,
-          themes: [],
-        };
-        roundsMap.set(q.roundNum, round);
-      }
-
-      let theme = round.themes.find(t => t.name === q.themeName);
-      if (!theme) {
-        const themeKey = `${q.roundNum}|${q.themeName}`;
-        const themeSettingsData = themeSettings.get(themeKey)?.data || {};
-
-        theme = {
-          id: generateUUID(),
-          name: q.themeName,
-          color: themeSettingsData.color,
-          textColor: themeSettingsData.textColor,
-          questions: [],
-        };
-        round.themes.push(theme);
-      }
-
-      const question: PackQuestion = {
-        id: generateUUID(),
-        text: q.text,
-        points: q.points,
-        answerText: q.answerText,
-      };
-
-      if (q.mediaUrl) {
-        const mediaType = q.mediaType || 'video';
-        const mediaUrl = mediaType === 'youtube' ? convertYouTubeToEmbed(q.mediaUrl) : q.mediaUrl;
-        question.media = { type: mediaType, url: mediaUrl };
-      }
-      if (q.answers) {
-        question.answers = q.answers;
-      }
-      if (q.correctAnswer !== undefined) {
-        question.correctAnswer = q.correctAnswer;
-      }
-
-      theme.questions.push(question);
-    }
-
-    const rounds = Array.from(roundsMap.values()).sort((a, b) => a.number - b.number);
-    for (const round of rounds) {
-      round.themes.sort((a, b) => a.name.localeCompare(b.name));
-    }
+  // Share of each pack already played by the active audience group
+  const playedStats = useMemo(
+    () => audience.activeGroup ? new Map(packs.map(p => [p.id, getPlayedStats(p, audience.playedQuestionIds)])) : null,
+    [packs, audience.activeGroup, audience.playedQuestionIds]
+  );
 
-    const finalPack: GamePack = {
-      id: generateUUID(),
-      name: packName,
-      cover: packCover,
-      gameType: 'custom',
-      rounds,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
-    return finalPack;
+  const checkPacks = useCallback(async (packsToCheck: GamePack[]) => {
+    const entries = await Promise.all(packsToCheck.map(async pack => ({
+      packId: pack.id,
+      packName: pack.name,
+      report: validatePack(pack, { missingMediaIds: await findMissingPackMedia(pack) })
+    })));
+    return mergePackReports(entries);
   }, []);
 
+  const handleShowPackReport = useCallback(async (packId: string) => {
+    const pack = packs.find(p => p.id === packId);
+    if (!pack) return;
+    setValidationView({ title: `Pack check: ${pack.name}`, report: await checkPacks([pack]), confirmSave: false });
+  }, [packs, checkPacks]);
+
   // Handle file upload - supports .zip (new with media), .json (old) and .txt (new) pack formats
   const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -548,13 +343,7 @@ export const OptimizedGameSelectorModal = memo(({
           const parsed = JSON.parse(content) as GamePack | PackGamePack;
           const packId = parsed.id || generateUUID();
 
-          const normalizedRounds = ('rounds' in parsed ? parsed.rounds : []).map((round: Round) => ({
-            ...round,
-            readingTimePerLetter: round.readingTimePerLetter ?? 0.05,
-            responseWindow: round.responseWindow ?? 30,
-            handicapEnabled: round.handicapEnabled ?? false,
-            handicapDelay: round.handicapDelay ?? 1,
-          }));
+          const normalizedRounds = ('rounds' in parsed ? parsed.rounds : []).map(withTimerDefaults);
 
           pack = {
             id: packId,
@@ -567,7 +356,8 @@ export const OptimizedGameSelectorModal = memo(({
             ...('cover' in parsed ? { cover: parsed.cover } : {}),
           };
         } else {
-          pack = parseTextPack(content);
+          const parsed = parseTextPack(content);
+          pack = { ...parsed, gameType: parsed.gameType || 'custom', rounds: parsed.rounds.map(withTimerDefaults) };
         }
       }
 
@@ -576,6 +366,7 @@ export const OptimizedGameSelectorModal = memo(({
         setSelectedPackIds(prevIds => [...prevIds, pack.id]);
         return newPacks;
       });
+      packLibraryStorage.savePack({ ...pack, rounds: pack.rounds || [] });
 
       console.log('[OptimizedGameSelector] Pack added to list:', pack.name);
     } catch (error) {
@@ -589,7 +380,7 @@ export const OptimizedGameSelectorModal = memo(({
     } finally {
       e.target.value = '';
     }
-  }, [parseTextPack]);
+  }, []);
 
   const handleTogglePack = useCallback((packId: string) => {
     setSelectedPackIds(prev => {
@@ -625,16 +416,78 @@ export const OptimizedGameSelectorModal = memo(({
     setSelectedPackIds(prev => prev.filter(id => id !== packId));
   }, []);
 
+  // Library pack -> selector list (selected if there is room)
+  const handleAddFromLibrary = useCallback((libraryPack: PackGamePack) => {
+    const pack: GamePack = { ...libraryPack, gameType: libraryPack.gameType || 'custom' };
+    setPacks(prev => prev.some(p => p.id === pack.id) ? prev : [...prev, pack]);
+    setSelectedPackIds(prev => prev.includes(pack.id) || prev.length >= MAX_SELECTED_PACKS ? prev : [...prev, pack.id]);
+    console.log('[OptimizedGameSelector] Pack added from library:', pack.name);
+  }, []);
+
+  const handleOpenFromLibrary = useCallback((libraryPack: PackGamePack) => {
+    setShowLibrary(false);
+    setEditorFocus(null);
+    setEditingPack(libraryPack);
+    setShowPackEditor(true);
+  }, []);
+
+  // New pack from library questions the active group hasn't played
+  const handleBuildFreshPack = useCallback(async () => {
+    const group = audience.activeGroup;
+    if (!group) return;
+    setIsBuildingFreshPack(true);
+    try {
+      const libraryPacks = (await packLibraryStorage.list()).filter(e => !e.archived).map(e => e.pack);
+      const freshPack = buildUnplayedPack(libraryPacks, audience.playedQuestionIds, `${group.name} - ${new Date().toLocaleDateString()}`);
+      const stats = getPlayedStats(freshPack, new Set());
+
+      if (stats.total === 0) {
+        setAlertDialog({
+          isOpen: true,
+          title: 'Nothing left to play',
+          message: `"${group.name}" has played every question in the library.`,
+          type: 'warning'
+        });
+        return;
+      }
+
+      await packLibraryStorage.savePack(freshPack);
+      handleAddFromLibrary(freshPack);
+      console.log('[OptimizedGameSelector] Fresh pack built:', freshPack.name, stats.total, 'questions');
+    } finally {
+      setIsBuildingFreshPack(false);
+    }
+  }, [audience.activeGroup, audience.playedQuestionIds, handleAddFromLibrary]);
+
   const handleSelectGame = useCallback((gameId: GameType) => {
     setSelectedGame(gameId);
     setShowGameDropdown(false);
     setSelectedPackIds([]);
   }, []);
 
-  const handleSave = useCallback(() => {
-    onSave(selectedGame, selectedPackIds, packs);
+  const saveSelection = useCallback(() => {
+    setValidationView(null);
+    onSave(selectedGame, selectedPackIds, packs, syncPlaylist(playlist, selectedPacks));
     onClose();
-  }, [selectedGame, selectedPackIds, packs, onSave, onClose]);
+  }, [selectedGame, selectedPackIds, packs, playlist, selectedPacks, onSave, onClose]);
+
+  // Errors in selected packs would break the game mid-session - show report first
+  const handleSave = useCallback(async () => {
+    const report = await checkPacks(packs.filter(p => selectedPackIds.includes(p.id)));
+    if (report.errorCount > 0) {
+      setValidationView({ title: 'Selected packs have errors', report, confirmSave: true });
+      return;
+    }
+    saveSelection();
+  }, [packs, selectedPackIds, checkPacks, saveSelection]);
+
+  // Open offending item in pack editor
+  const handleSelectIssue = useCallback((issue: PackValidationIssue) => {
+    if (!issue.packId) return;
+    setValidationView(null);
+    setEditorFocus({ roundId: issue.roundId, themeId: issue.themeId, questionId: issue.questionId });
+    handleEditPack(issue.packId);
+  }, [handleEditPack]);
 
   const handleClose = useCallback(() => {
     onClose();
@@ -703,108 +556,134 @@ export const OptimizedGameSelectorModal = memo(({
             </div>
           </div>
 
-          {/* Pack Management */}
-          {selectedGame === 'custom' ? (
-            <div className="space-y-4">
-              <div className="flex items-center justify-between layout-stable">
-                <label className="text-sm font-medium text-gray-400">
-                  Question Packs ({selectedPackIds.length}/{MAX_SELECTED_PACKS})
-                </label>
-                <div className="flex gap-2">
-                  <Button
-                    size="sm"
-                    variant="secondary"
-                    onClick={() => fileInputRef.current?.click()}
-                    className="flex items-center gap-2"
-                  >
-                    <Upload className="w-4 h-4" />
-                    Load Pack
-                  </Button>
-                  <Button
-                    size="sm"
-                    variant="secondary"
-                    onClick={() => { setEditingPack(undefined); setShowPackEditor(true); }}
-                    className="flex items-center gap-2"
-                  >
-                    <Plus className="w-4 h-4" />
-                    Create Pack
-                  </Button>
-                </div>
+          {/* Audience group - played questions are tracked per group */}
+          <AudienceGroupPicker
+            groups={audience.groups}
+            activeGroupId={audience.activeGroupId}
+            onSelect={audience.setActiveGroupId}
+            onCreate={audience.createGroup}
+            onReset={audience.resetGroup}
+            onDelete={audience.deleteGroup}
+            onBuildFreshPack={handleBuildFreshPack}
+            isBuilding={isBuildingFreshPack}
+          />
+
+          {/* Pack Management - shared by all pack-based games */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between layout-stable">
+              <label className="text-sm font-medium text-gray-400">
+                Question Packs ({selectedPackIds.length}/{MAX_SELECTED_PACKS})
+              </label>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setShowLibrary(true)}
+                  className="flex items-center gap-2"
+                >
+                  <Library className="w-4 h-4" />
+                  Library
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center gap-2"
+                >
+                  <Upload className="w-4 h-4" />
+                  Load Pack
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => { setEditingPack(undefined); setShowPackEditor(true); }}
+                  className="flex items-center gap-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  Create Pack
+                </Button>
               </div>
+            </div>
 
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".txt,.json,.zip"
-                onChange={handleFileUpload}
-                className="hidden"
-              />
-
-              {/* Packs List */}
-              {packs.length > 0 ? (
-                <div className="space-y-2 max-h-48 overflow-y-auto">
-                  {packs.map(pack => {
-                    const roundCount = getRoundCount(pack);
-                    const questionCount = getQuestionCount(pack);
-                    const themeCount = getThemeCount(pack);
-                    const isSelected = selectedPackIds.includes(pack.id);
-                    return (
-                      <div
-                        key={pack.id}
-                        className={`flex items-center gap-2 p-3 rounded-lg border transition-colors ${
-                          isSelected
-                            ? 'bg-blue-500/20 border-blue-500'
-                            : 'bg-gray-800/50 border-gray-700 hover:border-gray-600'
-                        }`}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.json,.zip"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+
+            {/* Packs List */}
+            {packs.length > 0 ? (
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {packs.map(pack => {
+                  const roundCount = getRoundCount(pack);
+                  const questionCount = getQuestionCount(pack);
+                  const themeCount = getThemeCount(pack);
+                  const isSelected = selectedPackIds.includes(pack.id);
+                  const played = playedStats?.get(pack.id);
+                  return (
+                    <div
+                      key={pack.id}
+                      className={`flex items-center gap-2 p-3 rounded-lg border transition-colors ${
+                        isSelected
+                          ? 'bg-blue-500/20 border-blue-500'
+                          : 'bg-gray-800/50 border-gray-700 hover:border-gray-600'
+                      }`}
+                    >
+                      <button
+                        onClick={() => handleTogglePack(pack.id)}
+                        disabled={!isSelected && selectedPackIds.length >= MAX_SELECTED_PACKS}
+                        className="flex-1 flex items-center justify-between text-left"
                       >
-                        <button
-                          onClick={() => handleTogglePack(pack.id)}
-                          disabled={!isSelected && selectedPackIds.length >= MAX_SELECTED_PACKS}
-                          className="flex-1 flex items-center justify-between text-left"
-                        >
-                          <div className="flex items-center gap-2">
-                            <FolderOpen className={`w-4 h-4 ${isSelected ? 'text-blue-400' : 'text-gray-500'}`} />
-                            <span className={`text-sm font-medium truncate ${isSelected ? 'text-blue-400' : 'text-gray-300'}`}>
-                              {pack.name}
+                        <div className="flex items-center gap-2">
+                          <FolderOpen className={`w-4 h-4 ${isSelected ? 'text-blue-400' : 'text-gray-500'}`} />
+                          <span className={`text-sm font-medium truncate ${isSelected ? 'text-blue-400' : 'text-gray-300'}`}>
+                            {pack.name}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          {played && played.played > 0 && (
+                            <span
+                              className={`text-xs ${played.percent >= 50 ? 'text-orange-400' : 'text-yellow-500'}`}
+                              title={`${played.played} of ${played.total} questions played by ${audience.activeGroup?.name}`}
+                            >
+                              {played.percent}% played
                             </span>
-                          </div>
-                          <div className="flex items-center gap-3">
-                            <span className="text-xs text-gray-500">
-                              {roundCount > 0 ? `${roundCount}r • ` : ''}{themeCount}t • {questionCount}q
-                            </span>
-                            {isSelected && <Check className="w-4 h-4 text-blue-400" />}
-                          </div>
-                        </button>
-                        <button
-                          onClick={(e) => { e.stopPropagation(); handleEditPack(pack.id); }}
-                          className="p-1 hover:bg-gray-700 rounded-lg text-gray-400 hover:text-white transition-colors"
-                          title="Edit pack"
-                        >
-                          <FileText className="w-3.5 h-3.5" />
-                        </button>
-                        <button
-                          onClick={(e) => { e.stopPropagation(); handleDeletePack(pack.id); }}
-                          className="p-1 hover:bg-red-900/50 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
-                          title="Delete pack"
-                        >
-                          <X className="w-3.5 h-3.5" />
-                        </button>
-                      </div>
-                    );
-                  })}
-                </div>
-              ) : (
-                <div className="bg-gray-800/30 border border-dashed border-gray-700 rounded-lg p-8 text-center text-gray-500">
-                  No packs loaded. Load or create a pack to get started.
-                </div>
-              )}
-            </div>
-          ) : (
-            <div className="bg-gray-800/30 border border-dashed border-gray-700 rounded-lg p-8 text-center">
-              <Gamepad2 className="w-12 h-12 mx-auto mb-3 text-gray-600" />
-              <p className="text-gray-500">Coming soon for {selectedGame}</p>
-            </div>
-          )}
+                          )}
+                          <span className="text-xs text-gray-500">
+                            {roundCount > 0 ? `${roundCount}r • ` : ''}{themeCount}t • {questionCount}q
+                          </span>
+                          {isSelected && <Check className="w-4 h-4 text-blue-400" />}
+                        </div>
+                      </button>
+                      {packReports.get(pack.id) && (
+                        <PackValidationBadge report={packReports.get(pack.id)!} onClick={() => handleShowPackReport(pack.id)} />
+                      )}
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleEditPack(pack.id); }}
+                        className="p-1 hover:bg-gray-700 rounded-lg text-gray-400 hover:text-white transition-colors"
+                        title="Edit pack"
+                      >
+                        <FileText className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDeletePack(pack.id); }}
+                        className="p-1 hover:bg-red-900/50 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                        title="Delete pack"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="bg-gray-800/30 border border-dashed border-gray-700 rounded-lg p-8 text-center text-gray-500">
+                No packs loaded. Load or create a pack to get started.
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Footer */}
@@ -814,11 +693,21 @@ export const OptimizedGameSelectorModal = memo(({
             <div className="flex items-center gap-2 mb-3">
               <Layers className="w-4 h-4 text-purple-400" />
               <h4 className="text-sm font-semibold text-white">Game Session</h4>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => setShowPlaylist(true)}
+                disabled={selectedPacks.length === 0}
+                className="ml-auto flex items-center gap-2"
+              >
+                <ListOrdered className="w-4 h-4" />
+                Playlist
+              </Button>
             </div>
             <div className="grid grid-cols-3 gap-4 text-xs">
               <div>
                 <div className="text-gray-500">Rounds</div>
-                <div className="text-lg font-semibold text-white">{sessionSummary.maxRounds}</div>
+                <div className="text-lg font-semibold text-white">{sessionSummary.rounds}</div>
               </div>
               <div>
                 <div className="text-gray-500">Themes</div>
@@ -834,11 +723,9 @@ export const OptimizedGameSelectorModal = memo(({
           {/* Buttons */}
           <div className="flex items-center justify-between">
             <div className="text-sm text-gray-500">
-              {selectedGame === 'custom' && selectedPackIds.length > 0
+              {selectedPackIds.length > 0
                 ? `${selectedPackIds.length} pack${selectedPackIds.length > 1 ? 's' : ''} selected • ${sessionSummary.totalQuestions} questions`
-                : selectedGame === 'custom'
-                  ? 'No packs selected'
-                  : `${GAMES.find(g => g.id === selectedGame)?.name} mode`
+                : 'No packs selected'
               }
             </div>
             <div className="flex gap-3">
@@ -863,6 +750,7 @@ export const OptimizedGameSelectorModal = memo(({
           onClose={() => {
             setShowPackEditor(false);
             setEditingPack(undefined);
+            setEditorFocus(null);
           }}
           onSavePack={(pack) => {
             const normalizedPack: GamePack = {
@@ -874,6 +762,7 @@ export const OptimizedGameSelectorModal = memo(({
               updatedAt: pack.updatedAt,
               cover: pack.cover,
             };
+            packLibraryStorage.savePack(pack);
 
             const existingIndex = packs.findIndex(p => p.id === pack.id);
             if (existingIndex >= 0) {
@@ -884,6 +773,7 @@ export const OptimizedGameSelectorModal = memo(({
               setEditingPack(normalizedPack);
             }
             setShowPackEditor(false);
+            setEditorFocus(null);
           }}
           onPackChange={(updatedPack) => {
             setEditingPack(updatedPack);
@@ -897,9 +787,43 @@ export const OptimizedGameSelectorModal = memo(({
             });
           }}
           initialPack={editingPack}
+          focusTarget={editorFocus}
+          playedQuestionIds={audience.activeGroup ? audience.playedQuestionIds : undefined}
+          audienceGroupName={audience.activeGroup?.name}
         />
       </Suspense>
 
+      {/* Pack library */}
+      <PackLibraryModal
+        isOpen={showLibrary}
+        onClose={() => setShowLibrary(false)}
+        sessionPackIds={packs.map(p => p.id)}
+        onAddToSession={handleAddFromLibrary}
+        onOpenInEditor={handleOpenFromLibrary}
+      />
+
+      {/* Round order and per-session themes */}
+      <SessionPlaylistEditor
+        isOpen={showPlaylist}
+        onClose={() => setShowPlaylist(false)}
+        packs={selectedPacks}
+        playlist={playlist}
+        onChange={setPlaylist}
+      />
+
+      {/* Pack check report */}
+      {validationView && (
+        <PackValidationPanel
+          isOpen={true}
+          onClose={() => setValidationView(null)}
+          title={validationView.title}
+          report={validationView.report}
+          onSelectIssue={handleSelectIssue}
+          onConfirm={validationView.confirmSave ? saveSelection : undefined}
+          confirmLabel="Save anyway"
+        />
+      )}
+
       {/* Alert Dialog */}
       <AlertDialog
         isOpen={alertDialog.isOpen}
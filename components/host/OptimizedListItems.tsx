@@ -10,9 +10,9 @@
 
 import React, { memo, useMemo, useCallback } from 'react';
 import { Virtuoso, VirtuosoGrid } from 'react-virtuoso';
-import { GripVertical, Settings, Trash2, Users } from 'lucide-react';
+import { GripVertical, Settings, Trash2, Users, Crown } from 'lucide-react';
 import { Team, ConnectionQuality } from '../../types';
-import { getHealthBgColor } from '../../utils';
+import { getHealthBgColor, formatClockOffset, SUSPICIOUS_CLOCK_OFFSET_MS, type ClockSyncEstimate, type TransportKind } from '../../utils';
 
 // ConnectedClient interface
 export interface ConnectedClient {
@@ -23,8 +23,77 @@ export interface ConnectedClient {
   teamId?: string;
   lastSeen: number;
   connectionQuality: ConnectionQuality;
+  clockSync?: ClockSyncEstimate;  // Clock offset relative to host (from PING/PONG)
+  avatar?: string;  // Emoji from player profile
+  color?: string;   // Profile color (hex)
+  transport?: TransportKind;  // WebRTC data channel or WebSocket relay fallback
 }
 
+// Clock offset badge - yellow when phone clock is far from host clock
+const ClockOffsetBadge = memo(({ clockSync }: { clockSync?: ClockSyncEstimate }) => {
+  if (!clockSync) return null;
+
+  const suspicious = Math.abs(clockSync.offset) > SUSPICIOUS_CLOCK_OFFSET_MS;
+  const colorClasses = suspicious
+    ? 'bg-yellow-500/20 text-yellow-300'
+    : clockSync.confidence === 'low'
+      ? 'bg-gray-700/50 text-gray-500'
+      : 'bg-gray-700/50 text-gray-400';
+
+  return (
+    <span
+      className={`text-[11px] px-2 py-0.5 rounded font-mono ${colorClasses}`}
+      title={`Clock offset, confidence: ${clockSync.confidence} (${clockSync.sampleCount} samples)`}
+    >
+      {formatClockOffset(clockSync)}
+    </span>
+  );
+});
+
+ClockOffsetBadge.displayName = 'ClockOffsetBadge';
+
+// Transport badge - amber when the phone talks to the host through the signalling server relay
+const TransportBadge = memo(({ transport }: { transport?: TransportKind }) => {
+  if (!transport) return null;
+
+  return transport === 'relay' ? (
+    <span
+      className="text-[11px] px-2 py-0.5 rounded bg-amber-500/20 text-amber-300"
+      title="WebRTC is blocked on this phone's network - messages go through the signalling server relay"
+    >
+      Relay
+    </span>
+  ) : (
+    <span className="text-[11px] px-2 py-0.5 rounded bg-gray-700/50 text-gray-500" title="Direct WebRTC data channel">
+      P2P
+    </span>
+  );
+});
+
+TransportBadge.displayName = 'TransportBadge';
+
+// Player avatar - profile emoji on profile color, or first letter of the name
+const ClientAvatar = memo(({ client, fallbackClass }: { client: ConnectedClient; fallbackClass: string }) => {
+  if (client.avatar) {
+    return (
+      <div
+        className="w-6 h-6 rounded-full flex items-center justify-center text-sm"
+        style={{ backgroundColor: client.color ? `${client.color}cc` : undefined }}
+      >
+        {client.avatar}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`w-6 h-6 rounded-full ${fallbackClass} flex items-center justify-center text-[10px] font-bold text-white`}>
+      {typeof client.name === 'string' && client.name.length > 0 ? client.name.charAt(0).toUpperCase() : '?'}
+    </div>
+  );
+});
+
+ClientAvatar.displayName = 'ClientAvatar';
+
 // Optimized Client List Item with CSS containment
 interface ClientListItemProps {
   client: ConnectedClient;
@@ -77,9 +146,7 @@ export const OptimizedClientListItem = memo<ClientListItemProps>(({
     >
       <div className="flex items-center gap-2.5">
         {isDragging && <GripVertical className="w-5 h-5 text-gray-600" />}
-        <div className={`w-6 h-6 rounded-full ${showTeam ? 'bg-gray-600' : 'bg-blue-500/80'} flex items-center justify-center text-[10px] font-bold text-white`}>
-          {typeof client.name === 'string' && client.name.length > 0 ? client.name.charAt(0).toUpperCase() : '?'}
-        </div>
+        <ClientAvatar client={client} fallbackClass={showTeam ? 'bg-gray-600' : 'bg-blue-500/80'} />
         <span className={`text-base ${showTeam ? 'text-gray-400' : 'text-gray-300'} text-truncate`}>
           {typeof client.name === 'string' ? client.name : 'Unnamed'}
         </span>
@@ -88,6 +155,8 @@ export const OptimizedClientListItem = memo<ClientListItemProps>(({
             {client.connectionQuality.rtt}ms
           </span>
         )}
+        <ClockOffsetBadge clockSync={client.clockSync} />
+        <TransportBadge transport={client.transport} />
         {isBuzzing && (
           <div className="ml-1">
             <div className="w-3.5 h-3.5 rounded-full bg-white animate-double-flash shadow-[0_0_10px_rgba(255,255,255,0.8)]"></div>
@@ -103,7 +172,11 @@ export const OptimizedClientListItem = memo<ClientListItemProps>(({
   return (
     prevProps.client.id === nextProps.client.id &&
     prevProps.client.name === nextProps.client.name &&
+    prevProps.client.avatar === nextProps.client.avatar &&
+    prevProps.client.color === nextProps.client.color &&
     prevProps.client.teamId === nextProps.client.teamId &&
+    prevProps.client.clockSync === nextProps.client.clockSync &&
+    prevProps.client.transport === nextProps.client.transport &&
     prevProps.hasBuzzed === nextProps.hasBuzzed &&
     prevProps.isBuzzing === nextProps.isBuzzing &&
     prevProps.isDragging === nextProps.isDragging
@@ -141,9 +214,7 @@ export const OptimizedSimpleClientItem = memo<SimpleClientItemProps>(({
       stale ? 'bg-yellow-500/10 opacity-60' : 'bg-gray-900/50'
     }`}>
       <div className="flex items-center gap-2.5">
-        <div className="w-6 h-6 rounded-full bg-blue-500/80 flex items-center justify-center text-[10px] font-bold text-white">
-          {typeof client.name === 'string' && client.name.length > 0 ? client.name.charAt(0).toUpperCase() : '?'}
-        </div>
+        <ClientAvatar client={client} fallbackClass="bg-blue-500/80" />
         <span className="text-base text-gray-300 text-truncate">
           {typeof client.name === 'string' ? client.name : 'Unnamed'}
         </span>
@@ -152,6 +223,8 @@ export const OptimizedSimpleClientItem = memo<SimpleClientItemProps>(({
             {client.connectionQuality.rtt}ms
           </span>
         )}
+        <ClockOffsetBadge clockSync={client.clockSync} />
+        <TransportBadge transport={client.transport} />
         {isBuzzing && (
           <div className="ml-1">
             <div className="w-3.5 h-3.5 rounded-full bg-white animate-double-flash shadow-[0_0_10px_rgba(255,255,255,0.8)]"></div>
@@ -167,6 +240,10 @@ export const OptimizedSimpleClientItem = memo<SimpleClientItemProps>(({
   return (
     prevProps.client.id === nextProps.client.id &&
     prevProps.client.name === nextProps.client.name &&
+    prevProps.client.avatar === nextProps.client.avatar &&
+    prevProps.client.color === nextProps.client.color &&
+    prevProps.client.clockSync === nextProps.client.clockSync &&
+    prevProps.client.transport === nextProps.client.transport &&
     prevProps.hasBuzzed === nextProps.hasBuzzed &&
     prevProps.isBuzzing === nextProps.isBuzzing
   );
@@ -324,6 +401,8 @@ export const OptimizedTeamListItem = memo<TeamListItemProps>(({
     return teamClients.some(client => buzzingClientIds.has(client.peerId));
   }, [teamClients, buzzingClientIds]);
 
+  const captain = team.captainId ? teamClients.find(client => client.id === team.captainId) : undefined;
+
   return (
     <div
       className="animate-in slide-in-from-bottom-2 duration-300"
@@ -366,6 +445,12 @@ export const OptimizedTeamListItem = memo<TeamListItemProps>(({
             <span className={`text-sm ${teamClients.length === 0 ? 'text-gray-600' : 'text-gray-500'}`}>
               ({teamClients.length})
             </span>
+            {captain && (
+              <span className="flex items-center gap-1 text-xs text-yellow-400 text-truncate" title="Team captain">
+                <Crown className="w-3.5 h-3.5" />
+                {captain.name}
+              </span>
+            )}
             <div className="ml-auto flex items-center gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
               <button
                 onClick={onEditStart}
@@ -408,10 +493,12 @@ export const OptimizedTeamListItem = memo<TeamListItemProps>(({
   return (
     prevProps.team.id === nextProps.team.id &&
     prevProps.team.name === nextProps.team.name &&
+    prevProps.team.captainId === nextProps.team.captainId &&
     prevProps.isEditing === nextProps.isEditing &&
     prevProps.editingTeamName === nextProps.editingTeamName &&
     prevProps.isDraggingOver === nextProps.isDraggingOver &&
     prevProps.teamClients.length === nextProps.teamClients.length &&
+    prevProps.teamClients.every((c, i) => c.clockSync === nextProps.teamClients[i]?.clockSync && c.transport === nextProps.teamClients[i]?.transport && c.name === nextProps.teamClients[i]?.name && c.avatar === nextProps.teamClients[i]?.avatar) &&
     prevProps.draggedClientId === nextProps.draggedClientId &&
     prevProps.buzzedClients.size === nextProps.buzzedClients.size &&
     prevProps.buzzingClientIds.size === nextProps.buzzingClientIds.size
@@ -7,19 +7,30 @@
 
 import React, { memo, useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
-  X, Save, FolderOpen, Plus, Settings, Edit2, Trash2, Upload,
-  Image as ImageIcon, Clock
+  X, Save, FolderOpen, Plus, Settings, Edit2, Trash2, Upload, Download,
+  Image as ImageIcon, Clock, AlertCircle, AlertTriangle, ListChecks, FileSpreadsheet, History
 } from 'lucide-react';
 import { Button } from '../Button';
 import { generateUUID } from '../../utils/uuid';
 import { restorePackBlobUrlsFromStorage } from '../../utils/mediaManager';
 import { savePackAsZip, loadPackFromZip, isZipFile } from '../../utils/zipPackManager';
-import { convertYouTubeToEmbed } from '../../utils/mediaUtils';
-import type { GamePack, Round, Theme, Question, RoundType } from './packeditor/types';
 import {
-  BaseModal, FileUpload, RoundModal, ThemeModal, QuestionModal
+  loadPackFromSiq, isSiqFile, savePackAsSiq, getSiqExportIssues, type SiqImportSummary, type SiqIssue
+} from '../../utils/siqPackManager';
+import { parseTextPack, packToText, TextPackParseError } from '../../utils/textPackFormat';
+import { mergeImportedRounds } from '../../utils/csvPackImport';
+import { packLibraryStorage } from '../../utils/media/PackLibraryStorage';
+import { packRevisionStorage } from '../../utils/media/PackRevisionStorage';
+import { restoreQuestion } from '../../utils/packDiff';
+import type { GamePack, Round, Theme, Question } from './packeditor/types';
+import {
+  BaseModal, FileUpload, RoundModal, ThemeModal, QuestionModal, PackSummaryModal,
+  PackValidationPanel, PackValidationBadge, validatePack, findMissingPackMedia, CsvImportModal, PackHistoryModal,
+  type PackValidationIssue, type CsvImportMode
 } from './packeditor/index';
 import { AlertDialog } from '../shared';
+import { QUESTION_KIND_LABELS } from './game/specialQuestions';
+import { getPlayedStats } from '../../utils/audienceGroups';
 
 // ============= CARD COMPONENT =============
 
@@ -30,13 +41,14 @@ interface CardProps {
   onClick?: () => void;
   onEdit?: () => void;
   isActive?: boolean;
+  isPlayed?: boolean; // Already shown to the active audience group
 }
 
-const Card = memo(({ title, subtitle, icon, onClick, onEdit, isActive }: CardProps) => (
+const Card = memo(({ title, subtitle, icon, onClick, onEdit, isActive, isPlayed }: CardProps) => (
   <div
     className={`relative bg-gray-800/80 border rounded-lg p-3 transition-all cursor-pointer group h-full flex items-center ${
-      isActive ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 hover:border-gray-600'
-    } ${onClick ? 'hover:bg-gray-750' : ''}`}
+      isActive ? 'border-blue-500 bg-blue-500/10' : isPlayed ? 'border-orange-900/70 bg-orange-950/20' : 'border-gray-700 hover:border-gray-600'
+    } ${isPlayed ? 'opacity-70' : ''} ${onClick ? 'hover:bg-gray-750' : ''}`}
     onClick={onClick}
   >
     {icon && (
@@ -53,402 +65,6 @@ const Card = memo(({ title, subtitle, icon, onClick, onEdit, isActive }: CardPro
 
 Card.displayName = 'Card';
 
-// ============= PACK IMPORT/EXPORT UTILS =============
-
-/**
- * Parse pack from text format
- */
-function parsePackFromText(content: string): GamePack {
-  const lines = content.split('\n');
-  let currentSection: 'questions' | 'rounds' | 'themes' | 'cover' | null = null;
-  let packName = 'Imported Pack';
-  const questions: Array<{
-    roundNum: number;
-    themeName: string;
-    text: string;
-    points?: number;
-    answerText?: string;
-    mediaUrl?: string;
-    mediaType?: 'image' | 'video' | 'audio' | 'youtube';
-    answers?: string[];
-    correctAnswer?: number;
-  }> = [];
-  const roundSettings: Map<number, Partial<Round>> = new Map();
-  const themeSettings: Map<string, { roundNum: number; data: Partial<Theme> }> = new Map();
-  let packCover: { type: 'url' | 'file'; value: string } | undefined;
-
-  let currentQuestion: Partial<typeof questions[0]> | null = null;
-  let currentRoundNum: number | null = null;
-  let currentThemeName: string | null = null;
-
-  const parseValue = (str: string): string => {
-    const match = str.match(/^([^:]+):\s*(.*?);$/);
-    return match ? match[2].trim() : '';
-  };
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    // Parse pack name from header
-    if (trimmed.startsWith('=== ') && trimmed.endsWith(' ===')) {
-      packName = trimmed.slice(4, -4).trim();
-      continue;
-    }
-
-    // Section headers
-    if (trimmed === '--- QUESTIONS ---') {
-      currentSection = 'questions';
-      continue;
-    }
-    if (trimmed === '--- ROUND SETTINGS ---') {
-      currentSection = 'rounds';
-      continue;
-    }
-    if (trimmed === '--- THEME SETTINGS ---') {
-      currentSection = 'themes';
-      continue;
-    }
-    if (trimmed === '--- PACK COVER ---') {
-      currentSection = 'cover';
-      continue;
-    }
-
-    // Skip empty lines and comments
-    if (!trimmed || trimmed.startsWith('//')) continue;
-
-    // Parse key-value pairs
-    if (trimmed.includes(':') && trimmed.endsWith(';')) {
-      const key = trimmed.substring(0, trimmed.indexOf(':')).trim();
-      const value = parseValue(trimmed);
-
-      if (currentSection === 'questions') {
-        if (key === 'round') {
-          if (currentQuestion && currentQuestion.roundNum && currentQuestion.themeName && currentQuestion.text) {
-            questions.push({ ...currentQuestion } as typeof questions[0]);
-          }
-          currentQuestion = { roundNum: parseInt(value) || 1 };
-        } else if (key === 'theme') {
-          currentThemeName = value;
-          if (currentQuestion) currentQuestion.themeName = value;
-        } else if (key === 'text' && currentQuestion) {
-          currentQuestion.text = value;
-        } else if (key === 'points' && currentQuestion) {
-          currentQuestion.points = value === 'auto' ? undefined : parseInt(value);
-        } else if (key === 'answerText' && currentQuestion) {
-          currentQuestion.answerText = value;
-        } else if (key === 'url' && currentQuestion) {
-          currentQuestion.mediaUrl = value;
-          if (value.match(/\.(jpg|jpeg|png|gif|webp)$/i)) {
-            currentQuestion.mediaType = 'image';
-          } else if (value.match(/\.(mp4|webm|mov)$/i)) {
-            currentQuestion.mediaType = 'video';
-          } else if (value.match(/\.(mp3|wav|ogg)$/i)) {
-            currentQuestion.mediaType = 'audio';
-          } else if (value.includes('youtube.com') || value.includes('youtu.be')) {
-            currentQuestion.mediaType = 'youtube';
-          }
-        } else if (key === 'mediaType' && currentQuestion) {
-          // Explicit media type from file (overrides auto-detection)
-          currentQuestion.mediaType = value as 'image' | 'video' | 'audio' | 'youtube';
-        } else if (key === 'answers' && currentQuestion) {
-          currentQuestion.answers = value.split('|');
-        } else if (key === 'correctAnswer' && currentQuestion) {
-          currentQuestion.correctAnswer = parseInt(value);
-        }
-      } else if (currentSection === 'rounds') {
-        if (key === 'round') {
-          currentRoundNum = parseInt(value) || 1;
-          if (!roundSettings.has(currentRoundNum)) {
-            roundSettings.set(currentRoundNum, {});
-          }
-        } else if (currentRoundNum !== null && roundSettings.has(currentRoundNum)) {
-          const settings = roundSettings.get(currentRoundNum)!;
-          if (key === 'name') {
-            settings.name = value;
-          } else if (key === 'type') {
-            settings.type = (value === 'super' ? 'super' : 'normal') as RoundType;
-          } else if (key === 'cover' && value !== '-') {
-            const [type, url] = value.split(':');
-            if (type && url) {
-              settings.cover = { type: type as 'url' | 'file', value: url };
-            }
-          } else if (key === 'readingTimePerLetter') {
-            settings.readingTimePerLetter = parseFloat(value);
-          } else if (key === 'buzzerActivationDelay') {
-            // Legacy support
-            settings.readingTimePerLetter = parseFloat(value);
-          } else if (key === 'responseWindow') {
-            settings.responseWindow = parseInt(value);
-          } else if (key === 'handicapEnabled') {
-            settings.handicapEnabled = value === 'true';
-          } else if (key === 'handicapDelay') {
-            settings.handicapDelay = parseFloat(value);
-          }
-        }
-      } else if (currentSection === 'themes') {
-        if (key === 'round') {
-          currentRoundNum = parseInt(value) || 1;
-        } else if (key === 'theme') {
-          currentThemeName = value;
-        } else if (currentRoundNum !== null && currentThemeName) {
-          const key2 = `${currentRoundNum}|${currentThemeName}`;
-          if (!themeSettings.has(key2)) {
-            themeSettings.set(key2, { roundNum: currentRoundNum, data: {} });
-          }
-          const settings = themeSettings.get(key2)!;
-          if (key === 'color' && value !== '-') {
-            settings.data.color = value;
-          }
-          if (key === 'textColor' && value !== '-') {
-            settings.data.textColor = value;
-          }
-        }
-      } else if (currentSection === 'cover') {
-        if (key === 'cover' && value !== '-') {
-          const [type, url] = value.split(':');
-          if (type && url) {
-            packCover = { type: type as 'url' | 'file', value: url };
-          }
-        }
-      }
-    }
-  }
-
-  // Don't forget the last question
-  if (currentQuestion && currentQuestion.roundNum && currentQuestion.themeName && currentQuestion.text) {
-    questions.push({ ...currentQuestion } as typeof questions[0]);
-  }
-
-  // Build pack structure
-  const roundsMap = new Map<number, Round>();
-
-  // Initialize rounds from settings
-  for (const [roundNum, settings] of roundSettings) {
-    roundsMap.set(roundNum, {
-      id: generateUUID(),
-      number: roundNum,
-      name: settings.name || `Round ${roundNum}`,
-      type: settings.type,
-      cover: settings.cover,
-      readingTimePerLetter: settings.readingTimePerLetter,
-      responseWindow: settings.responseWindow,
-      handicapEnabled: settings.handicapEnabled,
-      handicapDelay: settings.handicapDelay,
-      themes: [],
-    });
-  }
-
-  // Group questions by round and theme, create themes
-  for (const q of questions) {
-    let round = roundsMap.get(q.roundNum);
-    if (!round) {
-      round = {
-        id: generateUUID(),
-        number: q.roundNum,
-        name: `Round ${q.roundNum}`,
-        type: 'normal',
-        themes: [],
-      };
-      roundsMap.set(q.roundNum, round);
-    }
-
-    let theme = round.themes.find(t => t.name === q.themeName);
-    if (!theme) {
-      const themeKey = `${q.roundNum}|${q.themeName}`;
-      const themeSettingsData = themeSettings.get(themeKey)?.data || {};
-
-      theme = {
-        id: generateUUID(),
-        name: q.themeName,
-        color: themeSettingsData.color,
-        textColor: themeSettingsData.textColor,
-        questions: [],
-      };
-      round.themes.push(theme);
-    }
-
-    const question: Question = {
-      id: generateUUID(),
-      text: q.text,
-      points: q.points,
-      answerText: q.answerText,
-    };
-
-    // Debug logging for media parsing
-    if (q.mediaUrl) {
-      console.log('🔍 ParsePack - Question has media URL:', {
-        questionText: q.text?.slice(0, 30),
-        mediaUrl: q.mediaUrl?.slice(0, 100),
-        detectedMediaType: q.mediaType,
-        willSaveMedia: !!(q.mediaUrl && q.mediaType)
-      });
-    }
-
-    if (q.mediaUrl && q.mediaType) {
-      // Convert YouTube URLs to embed format
-      const mediaUrl = q.mediaType === 'youtube' ? convertYouTubeToEmbed(q.mediaUrl) : q.mediaUrl;
-      question.media = { type: q.mediaType, url: mediaUrl };
-
-      console.log('✅ ParsePack - Media saved:', {
-        type: q.mediaType,
-        originalUrl: q.mediaUrl?.slice(0, 50),
-        finalUrl: mediaUrl?.slice(0, 50)
-      });
-    } else if (q.mediaUrl && !q.mediaType) {
-      console.log('⚠️ ParsePack - Media URL found but no type! Media will be lost:', {
-        mediaUrl: q.mediaUrl?.slice(0, 100)
-      });
-    }
-    if (q.answers) {
-      question.answers = q.answers;
-    }
-    if (q.correctAnswer !== undefined) {
-      question.correctAnswer = q.correctAnswer;
-    }
-
-    theme.questions.push(question);
-  }
-
-  // Sort rounds by number and themes alphabetically
-  const rounds = Array.from(roundsMap.values()).sort((a, b) => a.number - b.number);
-  for (const round of rounds) {
-    round.themes.sort((a, b) => a.name.localeCompare(b.name));
-  }
-
-  return {
-    id: generateUUID(),
-    name: packName,
-    cover: packCover,
-    gameType: 'custom' as const,
-    rounds,
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
-  };
-}
-
-/**
- * Convert pack to text format
- */
-function packToTextFormat(pack: GamePack): string {
-  const lines: string[] = [];
-
-  // Header
-  lines.push(`=== ${pack.name} ===`);
-  lines.push('');
-
-  // Collect all questions with round/theme info
-  const questionsList: Array<{
-    roundNum: number;
-    roundName: string;
-    themeName: string;
-    text: string;
-    points?: number;
-    answerText?: string;
-    mediaUrl?: string;
-    mediaType?: 'image' | 'video' | 'audio' | 'youtube';
-    answers?: string[];
-    correctAnswer?: number;
-  }> = [];
-
-  for (const round of pack.rounds) {
-    for (const theme of round.themes) {
-      for (const question of theme.questions) {
-        questionsList.push({
-          roundNum: round.number,
-          roundName: round.name,
-          themeName: theme.name,
-          text: question.text,
-          points: question.points,
-          answerText: question.answerText,
-          mediaUrl: question.media?.url,
-          mediaType: question.media?.type,
-          answers: question.answers,
-          correctAnswer: question.correctAnswer,
-        });
-      }
-    }
-  }
-
-  // Questions section
-  lines.push('--- QUESTIONS ---');
-  lines.push('');
-  for (const q of questionsList) {
-    lines.push(`round: ${q.roundNum};`);
-    lines.push(`theme: ${q.themeName};`);
-    lines.push(`text: ${q.text};`);
-    lines.push(`points: ${q.points ?? 'auto'};`);
-    if (q.answerText) {
-      lines.push(`answerText: ${q.answerText};`);
-    }
-    if (q.mediaUrl) {
-      lines.push(`url: ${q.mediaUrl};`);
-      // Always save mediaType explicitly for all types (including image)
-      if (q.mediaType) {
-        lines.push(`mediaType: ${q.mediaType};`);
-      }
-    } else {
-      lines.push(`file: - ;`);
-    }
-    if (q.answers && q.answers.length > 0) {
-      lines.push(`answers: ${q.answers.join('|')};`);
-      if (q.correctAnswer !== undefined) {
-        lines.push(`correctAnswer: ${q.correctAnswer};`);
-      }
-    }
-    lines.push('');
-  }
-
-  // Round settings section
-  lines.push('--- ROUND SETTINGS ---');
-  lines.push('');
-  for (const round of pack.rounds) {
-    lines.push(`round: ${round.number};`);
-    lines.push(`name: ${round.name};`);
-    lines.push(`type: ${round.type ?? 'normal'};`);
-    if (round.cover?.value) {
-      lines.push(`cover: url:${round.cover.value};`);
-    } else {
-      lines.push(`cover: -;`);
-    }
-    lines.push(`readingTimePerLetter: ${round.readingTimePerLetter ?? 0.05};`);
-    lines.push(`responseWindow: ${round.responseWindow ?? 30};`);
-    lines.push(`handicapEnabled: ${round.handicapEnabled ? 'true' : 'false'};`);
-    lines.push(`handicapDelay: ${round.handicapDelay ?? 1};`);
-    lines.push('');
-  }
-
-  // Theme settings section
-  lines.push('--- THEME SETTINGS ---');
-  lines.push('');
-  for (const round of pack.rounds) {
-    for (const theme of round.themes) {
-      lines.push(`round: ${round.number};`);
-      lines.push(`theme: ${theme.name};`);
-      if (theme.color) {
-        lines.push(`color: ${theme.color};`);
-      } else {
-        lines.push(`color: -;`);
-      }
-      if (theme.textColor) {
-        lines.push(`textColor: ${theme.textColor};`);
-      } else {
-        lines.push(`textColor: -;`);
-      }
-      lines.push('');
-    }
-  }
-
-  // Pack cover
-  if (pack.cover?.value) {
-    lines.push('--- PACK COVER ---');
-    lines.push('');
-    lines.push(`cover: ${pack.cover.type}:${pack.cover.value};`);
-    lines.push('');
-  }
-
-  return lines.join('\n');
-}
-
 // ============= MAIN EDITOR =============
 
 interface PackEditorProps {
@@ -457,9 +73,19 @@ interface PackEditorProps {
   onSavePack: (pack: GamePack) => void;
   onPackChange?: (pack: GamePack) => void; // New callback for real-time updates
   initialPack?: GamePack;
+  focusTarget?: PackFocusTarget | null; // Open editor at this round/theme/question (from validation report)
+  playedQuestionIds?: Set<string>; // Questions already played by the active audience group
+  audienceGroupName?: string;
+}
+
+/** Item in the editor to jump to */
+export interface PackFocusTarget {
+  roundId?: string;
+  themeId?: string;
+  questionId?: string;
 }
 
-export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, initialPack }: PackEditorProps) => {
+export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, initialPack, focusTarget, playedQuestionIds, audienceGroupName }: PackEditorProps) => {
   const [packName, setPackName] = useState(initialPack?.name || '');
   const [packCoverType, setPackCoverType] = useState<'url' | 'file' | 'none'>(
     initialPack?.cover ? initialPack.cover.type : 'none'
@@ -483,8 +109,18 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
     type: 'info'
   });
 
+  // SIGame import summary (shown after .siq load)
+  const [siqImportSummary, setSiqImportSummary] = useState<SiqImportSummary | null>(null);
+  const [showCsvImport, setShowCsvImport] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
   // Track if we're syncing from props to avoid triggering notifications
   const isSyncingFromProps = useRef(false);
+  // New pack keeps one id until it is saved - revisions and library entries are keyed by it
+  const newPackIdRef = useRef(generateUUID());
+  React.useEffect(() => {
+    if (isOpen && !initialPack) newPackIdRef.current = generateUUID();
+  }, [isOpen, initialPack?.id]);
 
   // Sync with initialPack when it changes
   React.useEffect(() => {
@@ -543,7 +179,7 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
     if (!onPackChange || isSyncingFromProps.current) return;
 
     const currentPack: GamePack = {
-      id: initialPack?.id || generateUUID(),
+      id: initialPack?.id || newPackIdRef.current,
       name: packData?.name ?? packName,
       ...(packData?.cover ? { cover: packData.cover } : (packCoverType !== 'none' && packCoverValue ? { cover: { type: packCoverType, value: packCoverValue } } : {})),
       gameType: 'custom',
@@ -586,6 +222,61 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
   const selectedRound = useMemo(() => rounds.find(r => r.id === selectedRoundId), [rounds, selectedRoundId]);
   const selectedTheme = useMemo(() => selectedRound?.themes.find(t => t.id === selectedThemeId), [selectedRound, selectedThemeId]);
 
+  // Jump to round/theme/question (opens question editor)
+  const jumpTo = useCallback((target: PackFocusTarget, sourceRounds: Round[]) => {
+    setSelectedRoundId(target.roundId ?? null);
+    setSelectedThemeId(target.themeId ?? null);
+    if (target.questionId) {
+      const question = sourceRounds
+        .find(r => r.id === target.roundId)?.themes
+        .find(t => t.id === target.themeId)?.questions
+        .find(q => q.id === target.questionId);
+      if (question) {
+        setEditingQuestion(question);
+        setShowQuestionModal(true);
+      }
+    }
+  }, []);
+
+  // Focus requested by parent - runs after initialPack sync so selection is not reset
+  React.useEffect(() => {
+    if (isOpen && focusTarget) {
+      jumpTo(focusTarget, initialPack?.rounds || []);
+    }
+  }, [isOpen, focusTarget, jumpTo]);
+
+  // Pack check: structure is validated live, IndexedDB media presence when report is opened
+  const [showValidation, setShowValidation] = useState(false);
+  const [missingMediaIds, setMissingMediaIds] = useState<Set<string>>(new Set());
+  const validationReport = useMemo(() => validatePack({ rounds }, { missingMediaIds }), [rounds, missingMediaIds]);
+
+  const issueSeverityByQuestion = useMemo(() => {
+    const map = new Map<string, PackValidationIssue['severity']>();
+    validationReport.issues.forEach(issue => {
+      if (issue.questionId && map.get(issue.questionId) !== 'error') map.set(issue.questionId, issue.severity);
+    });
+    return map;
+  }, [validationReport]);
+
+  // "Played by group" share and per-theme/round counts for highlighting
+  const playedStats = useMemo(
+    () => playedQuestionIds ? getPlayedStats({ rounds }, playedQuestionIds) : null,
+    [rounds, playedQuestionIds]
+  );
+  const countPlayed = useCallback((themes: Theme[]) => playedQuestionIds
+    ? themes.reduce((acc, t) => acc + t.questions.filter(q => playedQuestionIds.has(q.id)).length, 0)
+    : 0, [playedQuestionIds]);
+
+  const handleOpenValidation = useCallback(async () => {
+    setMissingMediaIds(await findMissingPackMedia({ rounds }));
+    setShowValidation(true);
+  }, [rounds]);
+
+  const handleSelectIssue = useCallback((issue: PackValidationIssue) => {
+    setShowValidation(false);
+    jumpTo(issue, rounds);
+  }, [jumpTo, rounds]);
+
   // Handle load pack from file (supports both .txt and .json formats)
   const handleLoadPack = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -596,6 +287,32 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
     const reader = new FileReader();
     reader.onload = async (event) => {
       try {
+        // Пакет SIGame - импорт с отчётом о неподдерживаемых возможностях
+        if (isSiqFile(file)) {
+          console.log('📦 Обнаружен пакет SIGame, импортируем...');
+          try {
+            const { pack, summary } = await loadPackFromSiq(file);
+
+            setPackName(pack.name);
+            setPackCoverType('none');
+            setPackCoverValue('');
+            setRounds(pack.rounds);
+            setSelectedRoundId(null);
+            setSelectedThemeId(null);
+            notifyPackChange(pack.rounds, { name: pack.name });
+            setSiqImportSummary(summary);
+          } catch (siqError) {
+            console.error('❌ Ошибка импорта .siq:', siqError);
+            setAlertDialog({
+              isOpen: true,
+              title: 'Ошибка загрузки',
+              message: 'Ошибка при импорте пакета SIGame. Проверьте, что файл содержит content.xml.',
+              type: 'error'
+            });
+          }
+          return;
+        }
+
         // Проверяем, является ли файл ZIP архивом
         if (isZipFile(file)) {
           console.log('📦 Обнаружен ZIP архив, загружаем...');
@@ -643,7 +360,7 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
           pack = JSON.parse(content) as GamePack;
         } else {
           // New text format
-          pack = parsePackFromText(content);
+          pack = parseTextPack(content);
         }
 
         // Debug: Check if YouTube links were parsed correctly
@@ -693,6 +410,14 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
         });
       } catch (error) {
         console.error('❌ Failed to parse pack file:', error);
+        setAlertDialog({
+          isOpen: true,
+          title: 'Ошибка загрузки',
+          message: error instanceof TextPackParseError
+            ? `Ошибки в текстовом пакете:\n${error.message}`
+            : `Не удалось прочитать файл пакета: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`,
+          type: 'error'
+        });
       }
     };
     reader.readAsText(file);
@@ -700,17 +425,42 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
     e.target.value = '';
   }, [notifyPackChange]);
 
+  // Spreadsheet import: add to current rounds or replace the pack
+  const handleCsvImport = useCallback((imported: Round[], mode: CsvImportMode, sourceName: string) => {
+    console.log('📊 CSV import:', { mode, rounds: imported.length, sourceName });
+    if (mode === 'merge') {
+      const merged = mergeImportedRounds(rounds, imported);
+      setRounds(merged);
+      notifyPackChange(merged);
+      return;
+    }
+    const name = sourceName || 'Imported Pack';
+    setPackName(name);
+    setPackCoverType('none');
+    setPackCoverValue('');
+    setRounds(imported);
+    setSelectedRoundId(null);
+    setSelectedThemeId(null);
+    notifyPackChange(imported, { name });
+  }, [rounds, notifyPackChange]);
+
   // Handlers
+  // Current editor state as pack (for saving / export)
+  const buildPack = useCallback((): GamePack => ({
+    id: initialPack?.id || newPackIdRef.current,
+    name: packName,
+    ...(packCoverType !== 'none' && packCoverValue ? { cover: { type: packCoverType, value: packCoverValue } } : {}),
+    gameType: 'custom',
+    rounds,
+    createdAt: initialPack?.createdAt || Date.now(),
+    updatedAt: Date.now(),
+  }), [packName, packCoverType, packCoverValue, rounds, initialPack]);
+
   const handleSavePack = useCallback(async () => {
-    const pack: GamePack = {
-      id: initialPack?.id || generateUUID(),
-      name: packName,
-      ...(packCoverType !== 'none' && packCoverValue ? { cover: { type: packCoverType, value: packCoverValue } } : {}),
-      gameType: 'custom',
-      rounds,
-      createdAt: initialPack?.createdAt || Date.now(),
-      updatedAt: Date.now(),
-    };
+    const pack = buildPack();
+    // Library keeps every saved pack (browsable from game selector), history keeps every save
+    packLibraryStorage.savePack(pack);
+    packRevisionStorage.add(pack);
 
     console.log('💾 Сохранение пака как ZIP архива:', {
       packName: pack.name,
@@ -752,7 +502,7 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
     } else {
       // Используем текстовый формат для пакетов с внешними URL
       console.log('📄 Используем текстовый формат (пак без локальных файлов)');
-      const dataStr = packToTextFormat(pack);
+      const dataStr = packToText(pack);
       const fileName = `${pack.name.replace(/[^a-z0-9]/gi, '_')}.txt`;
       const dataBlob = new Blob([dataStr], { type: 'text/plain' });
       const url = URL.createObjectURL(dataBlob);
@@ -764,7 +514,61 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
       document.body.removeChild(link);
       URL.revokeObjectURL(url);
     }
-  }, [packName, packCoverType, packCoverValue, rounds, initialPack]);
+  }, [buildPack]);
+
+  // Revision history: whole pack rollback keeps current state as a revision, so it can be undone
+  const handleRestoreRevision = useCallback(async (revisionPack: GamePack) => {
+    await packRevisionStorage.add(buildPack());
+    // Blob URLs stored with the revision are dead after reload - recreate from IndexedDB
+    await restorePackBlobUrlsFromStorage(revisionPack);
+    const cover = revisionPack.cover;
+    setPackName(revisionPack.name);
+    setPackCoverType(cover ? cover.type : 'none');
+    setPackCoverValue(cover?.value || '');
+    setRounds(revisionPack.rounds);
+    setSelectedRoundId(null);
+    setSelectedThemeId(null);
+    setShowHistory(false);
+    notifyPackChange(revisionPack.rounds, { name: revisionPack.name, cover });
+    console.log('🕓 Pack revision restored:', revisionPack.name);
+  }, [buildPack, notifyPackChange]);
+
+  const historyPack = useMemo(() => buildPack(), [buildPack]);
+
+  const handleRestoreQuestion = useCallback(async (source: GamePack, questionId: string) => {
+    await restorePackBlobUrlsFromStorage(source);
+    const restored = restoreQuestion(rounds, source, questionId);
+    setRounds(restored);
+    notifyPackChange(restored);
+    console.log('🕓 Question restored from revision:', questionId);
+  }, [rounds, notifyPackChange]);
+
+  // Export to SIGame format - fields without SIGame equivalent are listed first
+  const [siqExportIssues, setSiqExportIssues] = useState<SiqIssue[] | null>(null);
+
+  const exportSiq = useCallback(async () => {
+    setSiqExportIssues(null);
+    try {
+      await savePackAsSiq(buildPack());
+    } catch (error) {
+      console.error('❌ Ошибка экспорта .siq:', error);
+      setAlertDialog({
+        isOpen: true,
+        title: 'Ошибка экспорта',
+        message: 'Ошибка при экспорте пакета в формат SIGame. Проверьте консоль для деталей.',
+        type: 'error'
+      });
+    }
+  }, [buildPack]);
+
+  const handleExportSiq = useCallback(() => {
+    const issues = getSiqExportIssues(buildPack());
+    if (issues.length > 0) {
+      setSiqExportIssues(issues);
+    } else {
+      exportSiq();
+    }
+  }, [buildPack, exportSiq]);
 
   const handleAddRound = useCallback((data: Partial<Round>) => {
     let newRounds: Round[];
@@ -939,13 +743,21 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
             >
               <Settings className="w-4 h-4" />
             </button>
+            {playedStats && (
+              <span
+                className="flex items-center gap-1 text-xs text-orange-300"
+                title={`${playedStats.played} of ${playedStats.total} questions already played by ${audienceGroupName}`}
+              >
+                <History className="w-3.5 h-3.5" /> {playedStats.percent}% played by {audienceGroupName}
+              </span>
+            )}
           </div>
 
           <div className="flex gap-3">
             <input
               ref={fileInputRef}
               type="file"
-              accept=".txt,.json,.zip"
+              accept=".txt,.json,.zip,.siq"
               onChange={handleLoadPack}
               className="hidden"
             />
@@ -955,6 +767,19 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
             <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
               <Upload className="w-4 h-4 mr-2" /> Load Pack
             </Button>
+            <Button variant="secondary" onClick={() => setShowCsvImport(true)} title="Import questions from CSV / TSV spreadsheet">
+              <FileSpreadsheet className="w-4 h-4 mr-2" /> Import CSV
+            </Button>
+            <Button variant="secondary" onClick={handleOpenValidation} title="Check pack for problems">
+              <ListChecks className="w-4 h-4 mr-2" /> Check
+              <span className="ml-2"><PackValidationBadge report={validationReport} /></span>
+            </Button>
+            <Button variant="secondary" onClick={() => setShowHistory(true)} title="Saved revisions of this pack">
+              <History className="w-4 h-4 mr-2" /> History
+            </Button>
+            <Button variant="secondary" onClick={handleExportSiq} title="Export for SIGame">
+              <Download className="w-4 h-4 mr-2" /> Export .siq
+            </Button>
             <Button onClick={handleSavePack}>
               <Save className="w-4 h-4 mr-2" /> Save Pack
             </Button>
@@ -973,7 +798,7 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
                 <div key={round.id} className="relative group">
                   <Card
                     title={`${round.number}. ${round.name}`}
-                    subtitle={`${round.themes.length} themes • ${round.themes.reduce((acc, t) => acc + t.questions.length, 0)} questions`}
+                    subtitle={`${round.themes.length} themes • ${round.themes.reduce((acc, t) => acc + t.questions.length, 0)} questions${countPlayed(round.themes) > 0 ? ` • ${countPlayed(round.themes)} played` : ''}`}
                     isActive={selectedRoundId === round.id}
                     onClick={() => setSelectedRoundId(round.id)}
                     icon={
@@ -1023,7 +848,7 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
                 <div key={theme.id} className="relative group h-14">
                   <Card
                     title={theme.name}
-                    subtitle={`${theme.questions.length} questions`}
+                    subtitle={`${theme.questions.length} questions${countPlayed([theme]) > 0 ? ` • ${countPlayed([theme])} played` : ''}`}
                     isActive={selectedThemeId === theme.id}
                     onClick={() => setSelectedThemeId(theme.id)}
                     icon={
@@ -1069,7 +894,8 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
                 <div key={question.id} className="relative group">
                   <Card
                     title={`Q${idx + 1}: ${question.text.slice(0, 50)}${question.text.length > 50 ? '...' : ''}`}
-                    subtitle={`${question.points || 100} pts`}
+                    subtitle={`${question.points || 100} pts${question.questionKind && question.questionKind !== 'normal' ? ` · ${QUESTION_KIND_LABELS[question.questionKind]}` : ''}${playedQuestionIds?.has(question.id) ? ' · played' : ''}`}
+                    isPlayed={playedQuestionIds?.has(question.id)}
                     icon={
                       <div className="flex gap-1">
                         <button
@@ -1092,6 +918,13 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
                       <ImageIcon className="w-3.5 h-3.5 text-purple-400" />
                     </div>
                   )}
+                  {issueSeverityByQuestion.has(question.id) && (
+                    <div className="absolute bottom-2 right-16">
+                      {issueSeverityByQuestion.get(question.id) === 'error'
+                        ? <AlertCircle className="w-3.5 h-3.5 text-red-400" />
+                        : <AlertTriangle className="w-3.5 h-3.5 text-yellow-400" />}
+                    </div>
+                  )}
                 </div>
               ))}
               <Button
@@ -1170,6 +1003,57 @@ export const PackEditor = memo(({ isOpen, onClose, onSavePack, onPackChange, ini
         </div>
       </BaseModal>
 
+      {/* Pack check report */}
+      <PackValidationPanel
+        isOpen={showValidation}
+        onClose={() => setShowValidation(false)}
+        title={`Pack check: ${packName || 'Untitled'}`}
+        report={validationReport}
+        onSelectIssue={handleSelectIssue}
+      />
+
+      {/* Spreadsheet import */}
+      <CsvImportModal
+        isOpen={showCsvImport}
+        onClose={() => setShowCsvImport(false)}
+        canMerge={rounds.length > 0}
+        onImport={handleCsvImport}
+      />
+
+      {/* Revision history */}
+      <PackHistoryModal
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        currentPack={historyPack}
+        onRestoreRevision={handleRestoreRevision}
+        onRestoreQuestion={handleRestoreQuestion}
+      />
+
+      {/* SIGame import summary */}
+      <PackSummaryModal
+        isOpen={!!siqImportSummary}
+        onClose={() => setSiqImportSummary(null)}
+        title={`Imported from SIGame: ${siqImportSummary?.packName ?? ''}`}
+        stats={siqImportSummary ? [
+          { label: 'Rounds', value: siqImportSummary.rounds },
+          { label: 'Themes', value: siqImportSummary.themes },
+          { label: 'Questions', value: siqImportSummary.questions },
+          { label: 'Media files', value: siqImportSummary.mediaFiles }
+        ] : []}
+        issues={siqImportSummary?.issues ?? []}
+      />
+
+      {/* SIGame export warnings */}
+      <PackSummaryModal
+        isOpen={!!siqExportIssues}
+        onClose={() => setSiqExportIssues(null)}
+        title="Export to SIGame (.siq)"
+        stats={[]}
+        issues={siqExportIssues ?? []}
+        onConfirm={exportSiq}
+        confirmLabel="Export anyway"
+      />
+
       {/* Alert Dialog */}
       <AlertDialog
         isOpen={alertDialog.isOpen}
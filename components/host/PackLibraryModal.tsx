@@ -0,0 +1,278 @@
+/**
+ * PackLibraryModal Component
+ * Library of all authored/loaded packs (IndexedDB):
+ * cover, round/question counts, last played date, tags, search across question text,
+ * duplicate / archive / delete (with orphaned media) / open in PackEditor / add to session.
+ */
+
+import React, { memo, useState, useEffect, useCallback, useMemo } from 'react';
+import { Library, Search, Copy, Archive, ArchiveRestore, Trash2, Tag, Pencil, Plus, CalendarClock, FolderOpen } from 'lucide-react';
+import { BaseModal, ConfirmDialog } from '../shared';
+import { packLibraryStorage } from '../../utils/media/PackLibraryStorage';
+import { mediaStorage } from '../../utils/media/MediaStorage';
+import {
+  filterLibrary, collectLibraryTags, getLibraryPackStats, parseTags,
+  type LibraryPack
+} from '../../utils/packLibrary';
+import type { GamePack as PackGamePack } from './packeditor/types';
+
+interface PackLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessionPackIds: string[];  // Packs already in selector list
+  onAddToSession: (pack: PackGamePack) => void;
+  onOpenInEditor: (pack: PackGamePack) => void;
+}
+
+const formatDate = (timestamp?: number): string =>
+  timestamp ? new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' }) : 'never';
+
+// Pack cover: stored file (blob URLs don't survive reload) or external URL
+const LibraryCover = memo(({ pack }: { pack: PackGamePack }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const cover = pack.cover;
+    if (!cover) return;
+    if (!cover.localFile?.mediaId) {
+      if (!cover.value.startsWith('blob:')) setUrl(cover.value);
+      return;
+    }
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    mediaStorage.get(cover.localFile.mediaId).then(file => {
+      if (!file || cancelled) return;
+      objectUrl = URL.createObjectURL(file);
+      setUrl(objectUrl);
+    });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [pack.cover]);
+
+  return (
+    <div className="w-20 h-14 rounded-md bg-gray-800 flex-shrink-0 overflow-hidden flex items-center justify-center">
+      {url
+        ? <img src={url} alt="" className="w-full h-full object-cover" />
+        : <FolderOpen className="w-6 h-6 text-gray-600" />}
+    </div>
+  );
+});
+
+LibraryCover.displayName = 'LibraryCover';
+
+export const PackLibraryModal = memo(({ isOpen, onClose, sessionPackIds, onAddToSession, onOpenInEditor }: PackLibraryModalProps) => {
+  const [entries, setEntries] = useState<LibraryPack[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [query, setQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingTags, setEditingTags] = useState<{ packId: string; value: string } | null>(null);
+  const [deleteCandidate, setDeleteCandidate] = useState<LibraryPack | null>(null);
+
+  const reload = useCallback(async () => {
+    setEntries(await packLibraryStorage.list());
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    reload().finally(() => setIsLoading(false));
+  }, [isOpen, reload]);
+
+  const visible = useMemo(
+    () => filterLibrary(entries, { query, tag: tagFilter, showArchived }),
+    [entries, query, tagFilter, showArchived]
+  );
+  const allTags = useMemo(() => collectLibraryTags(entries), [entries]);
+  const archivedCount = useMemo(() => entries.filter(e => e.archived).length, [entries]);
+
+  const handleDuplicate = useCallback(async (packId: string) => {
+    await packLibraryStorage.duplicate(packId);
+    await reload();
+  }, [reload]);
+
+  const handleToggleArchive = useCallback(async (entry: LibraryPack) => {
+    await packLibraryStorage.setArchived(entry.id, !entry.archived);
+    await reload();
+  }, [reload]);
+
+  const handleSaveTags = useCallback(async () => {
+    if (!editingTags) return;
+    await packLibraryStorage.setTags(editingTags.packId, parseTags(editingTags.value));
+    setEditingTags(null);
+    await reload();
+  }, [editingTags, reload]);
+
+  const handleConfirmDelete = useCallback(async () => {
+    if (!deleteCandidate) return;
+    try {
+      await packLibraryStorage.delete(deleteCandidate.id);
+    } catch (error) {
+      console.error('[PackLibrary] Failed to delete pack:', error);
+    }
+    setDeleteCandidate(null);
+    await reload();
+  }, [deleteCandidate, reload]);
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <BaseModal isOpen={isOpen} onClose={onClose} title="Pack Library" icon={<Library className="w-5 h-5" />} maxWidth="max-w-4xl">
+        <div className="space-y-4">
+          {/* Search & filters */}
+          <div className="flex items-center gap-3">
+            <div className="relative flex-1">
+              <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search packs, themes, question text…"
+                className="w-full bg-gray-950 border border-gray-700 rounded-lg pl-9 pr-3 py-2 text-sm text-white focus:border-blue-500 outline-none"
+                autoFocus
+              />
+            </div>
+            <button
+              onClick={() => setShowArchived(prev => !prev)}
+              className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm border transition-colors ${
+                showArchived ? 'bg-yellow-500/20 border-yellow-500 text-yellow-300' : 'border-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              <Archive className="w-4 h-4" /> Archived ({archivedCount})
+            </button>
+          </div>
+
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setTagFilter(prev => prev === tag ? null : tag)}
+                  className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                    tagFilter === tag ? 'bg-blue-500/20 border-blue-500 text-blue-300' : 'border-gray-700 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Pack list */}
+          <div className="space-y-2 max-h-[55vh] overflow-y-auto pr-1">
+            {isLoading ? (
+              <div className="text-center text-gray-500 py-8">Loading library…</div>
+            ) : visible.length === 0 ? (
+              <div className="bg-gray-800/30 border border-dashed border-gray-700 rounded-lg p-8 text-center text-gray-500">
+                {entries.length === 0
+                  ? 'Library is empty. Packs appear here after you save them in the editor or load them from a file.'
+                  : 'No packs match the filter.'}
+              </div>
+            ) : visible.map(entry => {
+              const stats = getLibraryPackStats(entry.pack);
+              const inSession = sessionPackIds.includes(entry.id);
+              return (
+                <div key={entry.id} className="flex items-center gap-3 p-3 rounded-lg border bg-gray-800/50 border-gray-700">
+                  <LibraryCover pack={entry.pack} />
+
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-semibold text-white truncate">{entry.pack.name}</div>
+                    <div className="text-xs text-gray-500 flex items-center gap-3 mt-0.5">
+                      <span>{stats.roundCount} rounds • {stats.questionCount} questions</span>
+                      <span className="flex items-center gap-1">
+                        <CalendarClock className="w-3 h-3" /> played {formatDate(entry.lastPlayedAt)}
+                      </span>
+                    </div>
+                    {editingTags?.packId === entry.id ? (
+                      <input
+                        type="text"
+                        value={editingTags.value}
+                        onChange={(e) => setEditingTags({ packId: entry.id, value: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleSaveTags();
+                          if (e.key === 'Escape') setEditingTags(null);
+                        }}
+                        onBlur={handleSaveTags}
+                        placeholder="tag1, tag2"
+                        className="mt-1 w-full bg-gray-950 border border-gray-700 rounded px-2 py-0.5 text-xs text-white outline-none focus:border-blue-500"
+                        autoFocus
+                      />
+                    ) : (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {entry.tags.map(tag => (
+                          <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-700/60 text-[11px] text-gray-300">#{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => onAddToSession(entry.pack)}
+                      disabled={inSession}
+                      className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-blue-300 hover:bg-blue-500/20 disabled:text-gray-600 disabled:hover:bg-transparent transition-colors"
+                      title={inSession ? 'Already in game packs' : 'Add to game packs'}
+                    >
+                      <Plus className="w-3.5 h-3.5" /> {inSession ? 'Added' : 'Add'}
+                    </button>
+                    <button
+                      onClick={() => onOpenInEditor(entry.pack)}
+                      className="p-1.5 hover:bg-gray-700 rounded-lg text-gray-400 hover:text-white transition-colors"
+                      title="Open in editor"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => setEditingTags({ packId: entry.id, value: entry.tags.join(', ') })}
+                      className="p-1.5 hover:bg-gray-700 rounded-lg text-gray-400 hover:text-white transition-colors"
+                      title="Edit tags"
+                    >
+                      <Tag className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => handleDuplicate(entry.id)}
+                      className="p-1.5 hover:bg-gray-700 rounded-lg text-gray-400 hover:text-white transition-colors"
+                      title="Duplicate"
+                    >
+                      <Copy className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => handleToggleArchive(entry)}
+                      className="p-1.5 hover:bg-gray-700 rounded-lg text-gray-400 hover:text-yellow-300 transition-colors"
+                      title={entry.archived ? 'Restore from archive' : 'Archive'}
+                    >
+                      {entry.archived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                      onClick={() => setDeleteCandidate(entry)}
+                      className="p-1.5 hover:bg-red-900/50 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </BaseModal>
+
+      <ConfirmDialog
+        isOpen={!!deleteCandidate}
+        title="Delete pack"
+        message={`Delete "${deleteCandidate?.pack.name}" from the library? Media files not used by other packs are deleted too.`}
+        type="danger"
+        confirmText="Delete"
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setDeleteCandidate(null)}
+      />
+    </>
+  );
+});
+
+PackLibraryModal.displayName = 'PackLibraryModal';
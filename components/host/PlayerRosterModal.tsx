@@ -0,0 +1,222 @@
+/**
+ * PlayerRosterModal Component
+ * Roster of persistent player profiles: nickname, avatar, color,
+ * pre-assigned team and team captain. Players are recognised by their
+ * phone (persistentClientId), so the roster can be prepared before the game.
+ */
+
+import React, { memo, useState, useMemo, useCallback } from 'react';
+import { Crown, Trash2, Contact } from 'lucide-react';
+import { BaseModal } from '../shared';
+import { Button } from '../Button';
+import type { Team } from '../../types';
+import { PROFILE_AVATARS, PROFILE_COLORS, getProfileDisplayName, type PlayerProfile } from '../../utils/playerProfiles';
+
+interface PlayerRosterModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profiles: PlayerProfile[];
+  teams: Team[];
+  onlineTeamIds: Map<string, string | undefined>;  // profile id → current team of connected players
+  onUpdateProfile: (profileId: string, updates: Partial<Omit<PlayerProfile, 'id'>>) => void;
+  onDeleteProfile: (profileId: string) => void;
+  onAssignTeam: (profileId: string, teamId: string | undefined) => void;
+  onSetCaptain: (teamId: string, profileId: string | undefined) => void;
+}
+
+interface RosterRowProps {
+  profile: PlayerProfile;
+  teams: Team[];
+  isOnline: boolean;
+  teamId?: string;
+  isCaptain: boolean;
+  onUpdateProfile: PlayerRosterModalProps['onUpdateProfile'];
+  onDeleteProfile: PlayerRosterModalProps['onDeleteProfile'];
+  onAssignTeam: PlayerRosterModalProps['onAssignTeam'];
+  onSetCaptain: PlayerRosterModalProps['onSetCaptain'];
+}
+
+const RosterRow = memo(({
+  profile,
+  teams,
+  isOnline,
+  teamId,
+  isCaptain,
+  onUpdateProfile,
+  onDeleteProfile,
+  onAssignTeam,
+  onSetCaptain
+}: RosterRowProps) => {
+  const [nickname, setNickname] = useState(profile.nickname || '');
+  const [showPalette, setShowPalette] = useState(false);
+
+  const commitNickname = useCallback(() => {
+    const trimmed = nickname.trim();
+    if (trimmed !== (profile.nickname || '')) {
+      onUpdateProfile(profile.id, { nickname: trimmed || undefined });
+    }
+  }, [nickname, profile.id, profile.nickname, onUpdateProfile]);
+
+  return (
+    <div className="px-3 py-2 rounded-lg border border-gray-700 bg-gray-800/50">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setShowPalette(prev => !prev)}
+          className="relative w-9 h-9 rounded-full flex items-center justify-center text-lg shrink-0"
+          style={{ backgroundColor: `${profile.color}cc` }}
+          title="Avatar and color"
+        >
+          {profile.avatar}
+          <span className={`absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 rounded-full border-2 border-gray-900 ${isOnline ? 'bg-green-500' : 'bg-gray-600'}`} />
+        </button>
+
+        <div className="flex-1 min-w-0">
+          <input
+            type="text"
+            value={nickname}
+            onChange={(e) => setNickname(e.target.value)}
+            onBlur={commitNickname}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            placeholder={profile.name}
+            className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2.5 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+          />
+          <div className="text-[11px] text-gray-500 truncate mt-0.5">
+            {profile.nickname ? `Phone name: ${profile.name} · ` : ''}
+            {isOnline ? 'Online' : `Last seen ${new Date(profile.lastSeenAt).toLocaleDateString()}`}
+          </div>
+        </div>
+
+        <select
+          value={teamId || ''}
+          onChange={(e) => onAssignTeam(profile.id, e.target.value || undefined)}
+          className="w-36 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:border-blue-500"
+          title={isOnline ? 'Team (player is moved right away)' : 'Team the player joins automatically'}
+        >
+          <option value="">No team</option>
+          {teams.map(team => (
+            <option key={team.id} value={team.id}>{team.name}</option>
+          ))}
+        </select>
+
+        <button
+          onClick={() => teamId && onSetCaptain(teamId, isCaptain ? undefined : profile.id)}
+          disabled={!teamId}
+          className={`p-1.5 rounded-lg transition-colors ${
+            isCaptain
+              ? 'text-yellow-400 bg-yellow-500/10'
+              : 'text-gray-500 hover:text-yellow-400 hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-500'
+          }`}
+          title={isCaptain ? 'Team captain (click to remove)' : 'Make team captain'}
+        >
+          <Crown className="w-4 h-4" />
+        </button>
+
+        <button
+          onClick={() => onDeleteProfile(profile.id)}
+          className="p-1.5 hover:bg-red-900/50 rounded-lg text-gray-500 hover:text-red-400 transition-colors"
+          title="Forget this player"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showPalette && (
+        <div className="mt-2 ml-11 space-y-1.5">
+          <div className="flex flex-wrap gap-1">
+            {PROFILE_AVATARS.map(avatar => (
+              <button
+                key={avatar}
+                onClick={() => onUpdateProfile(profile.id, { avatar })}
+                className={`w-7 h-7 rounded-lg text-base ${avatar === profile.avatar ? 'bg-gray-600' : 'hover:bg-gray-700'}`}
+              >
+                {avatar}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1.5">
+            {PROFILE_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => onUpdateProfile(profile.id, { color })}
+                className={`w-5 h-5 rounded-full ${color === profile.color ? 'ring-2 ring-white' : ''}`}
+                style={{ backgroundColor: color }}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+RosterRow.displayName = 'RosterRow';
+
+export const PlayerRosterModal = memo(({
+  isOpen,
+  onClose,
+  profiles,
+  teams,
+  onlineTeamIds,
+  onUpdateProfile,
+  onDeleteProfile,
+  onAssignTeam,
+  onSetCaptain
+}: PlayerRosterModalProps) => {
+  const [search, setSearch] = useState('');
+
+  // Online players first, then by last seen (profiles are already sorted by it)
+  const visibleProfiles = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return profiles
+      .filter(p => !query || getProfileDisplayName(p).toLowerCase().includes(query) || p.name.toLowerCase().includes(query))
+      .sort((a, b) => Number(onlineTeamIds.has(b.id)) - Number(onlineTeamIds.has(a.id)));
+  }, [profiles, search, onlineTeamIds]);
+
+  if (!isOpen) return null;
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Player Roster" maxWidth="max-w-2xl">
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search players..."
+        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 mb-3 text-sm text-white focus:outline-none focus:border-blue-500"
+      />
+
+      <div className="space-y-1.5 max-h-[60vh] overflow-y-auto pr-1">
+        {visibleProfiles.length === 0 && (
+          <div className="border border-dashed border-gray-700 rounded-lg p-8 text-center text-sm text-gray-500">
+            <Contact className="w-6 h-6 mx-auto mb-2 text-gray-600" />
+            {profiles.length === 0 ? 'Players appear here after they join from a phone' : 'No players found'}
+          </div>
+        )}
+        {visibleProfiles.map(profile => {
+          const isOnline = onlineTeamIds.has(profile.id);
+          const teamId = isOnline ? onlineTeamIds.get(profile.id) : profile.preferredTeamId;
+          const team = teams.find(t => t.id === teamId);
+          return (
+            <RosterRow
+              key={profile.id}
+              profile={profile}
+              teams={teams}
+              isOnline={isOnline}
+              teamId={team?.id}
+              isCaptain={!!team && team.captainId === profile.id}
+              onUpdateProfile={onUpdateProfile}
+              onDeleteProfile={onDeleteProfile}
+              onAssignTeam={onAssignTeam}
+              onSetCaptain={onSetCaptain}
+            />
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end pt-4 mt-4 border-t border-gray-800">
+        <Button onClick={onClose}>Done</Button>
+      </div>
+    </BaseModal>
+  );
+});
+
+PlayerRosterModal.displayName = 'PlayerRosterModal';
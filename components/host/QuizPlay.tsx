@@ -0,0 +1,480 @@
+/**
+ * QuizPlay Component
+ *
+ * "Quiz" game mode - all teams answer every question simultaneously from their phones:
+ * - Screen 1: Pack cover (idle)
+ * - Screen 2: Question with countdown, teams submit text or multiple choice answers
+ * - Screen 3: Answers locked, host reviews and marks them
+ * - Screen 4: Reveal - correct answer and per-team results, points awarded
+ * - Screen 5: Final results
+ *
+ * Keyboard: Space = next step, P = pause/resume timer
+ * Moderator phone: start/skip question, show answer, timer, points (no single answering team in quiz)
+ * No undo/redo journal (Ctrl+Z, history panel) - marks can be changed until answers are revealed
+ */
+
+import React, { memo, useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Check, X, Pause, Play, Lock, Eye, ChevronRight, Trophy } from 'lucide-react';
+import type { GamePack } from './OptimizedGameSelectorModal';
+import type { Team, QuizPhase, QuizTeamResult, QuizStateMessage } from '../../types';
+import { buildQuizQuestions, autoMarkQuizAnswer, matchQuizAnswer, AnswerSuggestionBadge, type QuizAnswer, type GameReportRecorder } from './game';
+import type { ModeratorCommand } from './GamePlay';
+
+export type QuizStatePayload = QuizStateMessage['payload'];
+
+interface QuizPlayProps {
+  pack: GamePack;
+  teams: Team[];
+  quizAnswers: QuizAnswer[];  // Answers received from mobile clients
+  onQuizStateChange?: (state: QuizStatePayload) => void;  // Broadcast quiz state to clients
+  onBackToLobby?: () => void;
+  onQuestionShown?: (questionId: string) => void;  // Recorded as played by audience group
+  onGameFinished?: (finalScores: { teamId: string; teamName: string; score: number }[]) => void;  // Results screen - record league results
+  moderatorCommand?: ModeratorCommand | null;  // Latest approved action from moderator phone (processed once per id)
+  reportRecorder?: GameReportRecorder;  // Collects question outcomes for post-game report
+}
+
+export const QuizPlay = memo(({
+  pack,
+  teams,
+  quizAnswers,
+  onQuizStateChange,
+  onBackToLobby,
+  onQuestionShown,
+  onGameFinished,
+  moderatorCommand,
+  reportRecorder,
+}: QuizPlayProps) => {
+  const questions = useMemo(() => buildQuizQuestions(pack.rounds), [pack.rounds]);
+
+  const [phase, setPhase] = useState<QuizPhase>('idle');
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [timeRemaining, setTimeRemaining] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  // Host marks for current question: teamId -> correct/incorrect
+  const [marks, setMarks] = useState<Record<string, boolean>>({});
+  const [lastResults, setLastResults] = useState<QuizTeamResult[]>([]);
+  const [teamScores, setTeamScores] = useState<Record<string, number>>({});
+
+  const currentQuestion = questions[questionIndex];
+
+  // Latest answer of each team for the current question
+  const currentAnswers = useMemo(() => {
+    if (!currentQuestion) return new Map<string, QuizAnswer>();
+    const byTeam = new Map<string, QuizAnswer>();
+    quizAnswers
+      .filter(a => a.questionId === currentQuestion.id)
+      .forEach(a => {
+        const existing = byTeam.get(a.teamId);
+        if (!existing || existing.submittedAt <= a.submittedAt) {
+          byTeam.set(a.teamId, a);
+        }
+      });
+    return byTeam;
+  }, [quizAnswers, currentQuestion]);
+
+  // Start a question by index
+  const startQuestion = useCallback((index: number) => {
+    const question = questions[index];
+    if (!question) {
+      reportRecorder?.closeQuestion();
+      setPhase('results');
+      return;
+    }
+    setQuestionIndex(index);
+    setTimeRemaining(question.timeLimit);
+    setIsPaused(false);
+    setMarks({});
+    setLastResults([]);
+    setPhase('question');
+    onQuestionShown?.(question.id);
+    // Teams answer from the moment the question opens - answer times are measured from here
+    reportRecorder?.openQuestion({
+      roundName: question.roundName,
+      themeName: question.themeName,
+      questionText: question.text,
+      points: question.points
+    });
+    reportRecorder?.markResponseStart();
+  }, [questions, onQuestionShown, reportRecorder]);
+
+  // Lock answers and pre-mark them (host can override every mark)
+  const lockAnswers = useCallback(() => {
+    if (!currentQuestion) return;
+    const initialMarks: Record<string, boolean> = {};
+    currentAnswers.forEach((answer, teamId) => {
+      const suggestion = autoMarkQuizAnswer(currentQuestion, answer);
+      if (suggestion !== undefined) {
+        initialMarks[teamId] = suggestion;
+      }
+    });
+    setMarks(initialMarks);
+    setTimeRemaining(0);
+    setPhase('locked');
+  }, [currentQuestion, currentAnswers]);
+
+  // Award points for marked answers and reveal results
+  const revealAnswers = useCallback(() => {
+    if (!currentQuestion) return;
+    const results: QuizTeamResult[] = teams.map(team => {
+      const answer = currentAnswers.get(team.id);
+      const isCorrect = !!answer && marks[team.id] === true;
+      return {
+        teamId: team.id,
+        teamName: team.name,
+        answer: answer?.answer ?? null,
+        isCorrect,
+        pointsAwarded: isCorrect ? currentQuestion.points : 0,
+      };
+    });
+
+    setTeamScores(prev => {
+      const next = { ...prev };
+      results.forEach(r => {
+        next[r.teamId] = (next[r.teamId] || 0) + r.pointsAwarded;
+      });
+      return next;
+    });
+    // Teams without an answer are left out of the report
+    results
+      .filter(r => r.answer !== null)
+      .forEach(r => reportRecorder?.recordAnswer(r.teamId, r.teamName, r.isCorrect, r.pointsAwarded));
+    reportRecorder?.closeQuestion();
+    setLastResults(results);
+    setPhase('reveal');
+  }, [currentQuestion, currentAnswers, marks, teams, reportRecorder]);
+
+  const nextStep = useCallback(() => {
+    switch (phase) {
+      case 'idle':
+        startQuestion(0);
+        break;
+      case 'question':
+        lockAnswers();
+        break;
+      case 'locked':
+        revealAnswers();
+        break;
+      case 'reveal':
+        startQuestion(questionIndex + 1);
+        break;
+      default:
+        break;
+    }
+  }, [phase, questionIndex, startQuestion, lockAnswers, revealAnswers]);
+
+  // Countdown - answers lock automatically when timer ends
+  const lockAnswersRef = useRef(lockAnswers);
+  lockAnswersRef.current = lockAnswers;
+  useEffect(() => {
+    if (phase !== 'question' || isPaused) return;
+    if (timeRemaining <= 0) {
+      lockAnswersRef.current();
+      return;
+    }
+    const timeout = setTimeout(() => setTimeRemaining(prev => Math.max(0, prev - 1)), 1000);
+    return () => clearTimeout(timeout);
+  }, [phase, isPaused, timeRemaining]);
+
+  // Execute moderator actions (approved in HostView) - each command id is processed once
+  const lastModeratorCommandIdRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!moderatorCommand || moderatorCommand.id === lastModeratorCommandIdRef.current) return;
+    lastModeratorCommandIdRef.current = moderatorCommand.id;
+    console.log('[QuizPlay] 🎙️ Moderator command:', moderatorCommand);
+
+    switch (moderatorCommand.action) {
+      case 'start_question':
+        if (phase === 'idle' || phase === 'reveal') nextStep();
+        break;
+      case 'show_answer':
+        // Question -> locked -> reveal, same as Space
+        if (phase === 'question' || phase === 'locked') nextStep();
+        break;
+      case 'skip_question':
+        if (phase === 'question' || phase === 'locked') startQuestion(questionIndex + 1);
+        break;
+      case 'timer_control':
+        if (phase === 'question') setIsPaused(moderatorCommand.data.paused);
+        break;
+      case 'award_points':
+      case 'deduct_points': {
+        // Data comes from the phone - still check it
+        const { teamId } = moderatorCommand.data;
+        const points = Math.abs(Number(moderatorCommand.data.points) || 0);
+        const team = teams.find(t => t.id === teamId);
+        if (!team || points === 0) break;
+        const delta = moderatorCommand.action === 'award_points' ? points : -points;
+        setTeamScores(prev => ({ ...prev, [teamId]: (prev[teamId] || 0) + delta }));
+        reportRecorder?.recordScoreEdit(team.name, delta);
+        break;
+      }
+      case 'correct_answer':
+      case 'incorrect_answer':
+        // Every team answers - host marks answers after they are locked
+        console.log('[QuizPlay] Moderator mark ignored - no answering team in quiz mode');
+        break;
+    }
+  }, [moderatorCommand, phase, questionIndex, nextStep, startQuestion, teams, reportRecorder]);
+
+  // Keyboard controls
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      if (e.code === 'Space') {
+        e.preventDefault();
+        nextStep();
+      } else if (e.code === 'KeyP' && phase === 'question') {
+        e.preventDefault();
+        setIsPaused(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [nextStep, phase]);
+
+  const scoresList = useMemo(() => teams.map(team => ({
+    id: team.id,
+    name: team.name,
+    score: teamScores[team.id] || 0,
+  })), [teams, teamScores]);
+
+  const answeredTeamIds = useMemo(() => Array.from(currentAnswers.keys()), [currentAnswers]);
+
+  // Final standings on the results screen
+  useEffect(() => {
+    if (phase !== 'results') return;
+    onGameFinished?.(scoresList.map(t => ({ teamId: t.id, teamName: t.name, score: t.score })));
+  }, [phase, scoresList, onGameFinished]);
+
+  // Broadcast quiz state to clients on every change
+  useEffect(() => {
+    if (!onQuizStateChange) return;
+    const showQuestion = phase === 'question' || phase === 'locked' || phase === 'reveal';
+    onQuizStateChange({
+      phase,
+      questionId: showQuestion ? currentQuestion?.id : undefined,
+      questionIndex,
+      totalQuestions: questions.length,
+      questionText: showQuestion ? currentQuestion?.text : undefined,
+      questionMedia: showQuestion ? currentQuestion?.media : undefined,
+      options: showQuestion ? currentQuestion?.options : undefined,
+      points: currentQuestion?.points,
+      timeLimit: currentQuestion?.timeLimit,
+      timeRemaining: phase === 'question' ? timeRemaining : 0,
+      isPaused: phase === 'question' && isPaused,
+      answeredTeamIds: showQuestion ? answeredTeamIds : [],
+      correctAnswer: phase === 'reveal' ? currentQuestion?.correctAnswer : undefined,
+      correctOptionIndex: phase === 'reveal' ? currentQuestion?.correctOptionIndex : undefined,
+      results: phase === 'reveal' ? lastResults : undefined,
+      teamScores: scoresList,
+    });
+  }, [phase, questionIndex, timeRemaining, isPaused, answeredTeamIds, lastResults, scoresList, currentQuestion, questions.length, onQuizStateChange]);
+
+  const toggleMark = useCallback((teamId: string, correct: boolean) => {
+    setMarks(prev => ({ ...prev, [teamId]: correct }));
+  }, []);
+
+  const sortedScores = useMemo(() => [...scoresList].sort((a, b) => b.score - a.score), [scoresList]);
+
+  return (
+    <>
+      {/* Player Panel - Always visible on top layer */}
+      <div className="fixed top-0 left-0 right-0 z-[100] h-auto px-1 bg-gray-900/50 flex items-center justify-center gap-1 py-1">
+        {scoresList.map(team => {
+          const hasAnswered = phase === 'question' && currentAnswers.has(team.id);
+          return (
+            <div
+              key={team.id}
+              className={`px-6 py-2 rounded-lg border-2 transition-all ${
+                hasAnswered
+                  ? 'bg-green-500/30 border-green-500 shadow-[0_0_20px_rgba(34,197,94,0.5)]'
+                  : 'bg-gray-800 border-gray-700'
+              }`}
+            >
+              <div className="text-center">
+                <div className="text-2xl font-bold text-white">{team.name}</div>
+                <div className="h-px bg-gray-600 my-1"></div>
+                <div className="text-2xl font-bold text-white">{team.score}</div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Main Content */}
+      <div className="h-screen bg-gray-950 text-gray-100 overflow-hidden cursor-default pt-28 px-8 flex flex-col">
+        {questions.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center">
+            <h2 className="text-3xl font-semibold text-gray-500 mb-6">No questions in selected packs</h2>
+            <button
+              onClick={onBackToLobby}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-semibold transition-colors"
+            >
+              Back to Lobby
+            </button>
+          </div>
+        ) : phase === 'idle' ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center animate-in fade-in duration-500">
+            {pack.cover?.value && (
+              <img src={pack.cover.value} alt={pack.name} className="h-[50vh] w-auto object-cover rounded-2xl shadow-2xl mb-8" />
+            )}
+            <h1 className="text-6xl font-black text-white uppercase tracking-wider mb-4">{pack.name}</h1>
+            <p className="text-xl text-gray-400 mb-8">{questions.length} questions • everyone answers</p>
+            <button
+              onClick={nextStep}
+              className="px-8 py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-xl font-semibold transition-colors flex items-center gap-2"
+            >
+              Start Quiz <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        ) : phase === 'results' ? (
+          <div className="flex-1 flex flex-col items-center justify-center animate-in fade-in duration-500">
+            <Trophy className="w-16 h-16 text-yellow-400 mb-4" />
+            <h1 className="text-6xl font-black text-yellow-400 mb-8">Final Results</h1>
+            <div className="w-full max-w-2xl space-y-3 mb-8">
+              {sortedScores.map((team, index) => (
+                <div
+                  key={team.id}
+                  className={`flex items-center justify-between rounded-lg p-4 border-2 ${
+                    index === 0 ? 'border-yellow-500 bg-yellow-900/20' : 'border-gray-700 bg-gray-800/50'
+                  }`}
+                >
+                  <span className="text-3xl font-bold text-white">{index + 1}. {team.name}</span>
+                  <span className="text-4xl font-bold text-yellow-400">{team.score}</span>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={onBackToLobby}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-semibold transition-colors"
+            >
+              Back to Lobby
+            </button>
+          </div>
+        ) : currentQuestion && (
+          <div className="flex-1 flex flex-col animate-in fade-in duration-300">
+            {/* Question header */}
+            <div className="flex items-center justify-between mb-4 text-gray-400">
+              <span className="text-lg">
+                Question {questionIndex + 1} / {questions.length} • {currentQuestion.themeName} • {currentQuestion.points} pts
+              </span>
+              {phase === 'question' && (
+                <div className="flex items-center gap-3">
+                  <span className={`text-4xl font-mono font-bold ${timeRemaining <= 5 ? 'text-red-400' : 'text-white'}`}>
+                    {timeRemaining}s
+                  </span>
+                  <button
+                    onClick={() => setIsPaused(prev => !prev)}
+                    className="p-2 bg-gray-800 hover:bg-gray-700 rounded-lg text-gray-300 transition-colors"
+                    title={isPaused ? 'Resume timer (P)' : 'Pause timer (P)'}
+                  >
+                    {isPaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Question text */}
+            <div className="bg-gray-900 border border-gray-800 rounded-2xl p-8 mb-6">
+              <p className="text-4xl font-bold text-white text-center">{currentQuestion.text}</p>
+              {currentQuestion.media?.type === 'image' && currentQuestion.media.url && (
+                <img src={currentQuestion.media.url} alt="" className="max-h-[30vh] mx-auto mt-6 rounded-lg" />
+              )}
+              {currentQuestion.options && (
+                <div className="grid grid-cols-2 gap-3 mt-6">
+                  {currentQuestion.options.map((option, idx) => (
+                    <div
+                      key={idx}
+                      className={`rounded-lg px-4 py-3 text-xl border ${
+                        phase !== 'question' && idx === currentQuestion.correctOptionIndex
+                          ? 'border-green-500 bg-green-500/20 text-green-300'
+                          : 'border-gray-700 bg-gray-800 text-gray-200'
+                      }`}
+                    >
+                      {String.fromCharCode(65 + idx)}. {option}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {phase !== 'question' && currentQuestion.correctAnswer && (
+                <p className="text-2xl text-green-400 text-center mt-6">Answer: {currentQuestion.correctAnswer}</p>
+              )}
+            </div>
+
+            {/* Answers */}
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {phase === 'question' ? (
+                <p className="text-center text-xl text-gray-400">
+                  {answeredTeamIds.length} / {teams.length} teams answered
+                </p>
+              ) : (
+                teams.map(team => {
+                  const answer = currentAnswers.get(team.id);
+                  const result = lastResults.find(r => r.teamId === team.id);
+                  const mark = phase === 'reveal' ? result?.isCorrect : marks[team.id];
+                  const match = phase === 'locked' && answer ? matchQuizAnswer(currentQuestion, answer) : undefined;
+                  return (
+                    <div
+                      key={team.id}
+                      className={`flex items-center gap-4 rounded-lg px-4 py-3 border ${
+                        mark === true
+                          ? 'border-green-500 bg-green-500/10'
+                          : mark === false
+                            ? 'border-red-500 bg-red-500/10'
+                            : 'border-gray-700 bg-gray-800/50'
+                      }`}
+                    >
+                      <span className="w-48 font-semibold text-white truncate">{team.name}</span>
+                      <span className={`flex-1 text-lg ${answer ? 'text-gray-100' : 'text-gray-600 italic'}`}>
+                        {answer ? answer.answer : 'no answer'}
+                      </span>
+                      {match && <AnswerSuggestionBadge match={match} />}
+                      {phase === 'locked' && answer && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => toggleMark(team.id, true)}
+                            className={`p-2 rounded-lg transition-colors ${mark === true ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-green-700'}`}
+                            title="Correct"
+                          >
+                            <Check className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => toggleMark(team.id, false)}
+                            className={`p-2 rounded-lg transition-colors ${mark === false ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-red-700'}`}
+                            title="Incorrect"
+                          >
+                            <X className="w-5 h-5" />
+                          </button>
+                        </div>
+                      )}
+                      {phase === 'reveal' && result && result.pointsAwarded > 0 && (
+                        <span className="text-xl font-bold text-green-400">+{result.pointsAwarded}</span>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {/* Step control */}
+            <div className="flex justify-end py-4">
+              <button
+                onClick={nextStep}
+                className="px-6 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-semibold transition-colors flex items-center gap-2"
+              >
+                {phase === 'question' && (<><Lock className="w-4 h-4" /> Lock Answers</>)}
+                {phase === 'locked' && (<><Eye className="w-4 h-4" /> Reveal</>)}
+                {phase === 'reveal' && (<>{questionIndex + 1 < questions.length ? 'Next Question' : 'Show Results'} <ChevronRight className="w-4 h-4" /></>)}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+});
+
+QuizPlay.displayName = 'QuizPlay';
@@ -0,0 +1,62 @@
+/**
+ * ResumeGamePrompt Component
+ *
+ * Lobby banner offered after host page reload when a snapshot
+ * of an unfinished game exists in IndexedDB
+ */
+
+import React, { memo } from 'react';
+import { History, Play, Trash2 } from 'lucide-react';
+import type { GameSnapshot } from '../../utils/media/GameSnapshotStorage';
+
+interface ResumeGamePromptProps {
+  snapshot: GameSnapshot;
+  onResume: () => void;
+  onDiscard: () => void;
+  disabled?: boolean;  // Host is not ready to start session (offline / IP not locked)
+}
+
+const GAME_TYPE_NAMES: Record<string, string> = {
+  custom: 'Своя игра',
+  quiz: 'Квиз',
+  trivia: 'Викторина'
+};
+
+export const ResumeGamePrompt = memo(({ snapshot, onResume, onDiscard, disabled }: ResumeGamePromptProps) => {
+  const { selection, state } = snapshot;
+  const packNames = selection.packs.map(p => p.name).join(', ');
+  const savedTime = new Date(snapshot.savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const leader = state?.teamScores.length
+    ? state.teamScores.reduce((best, t) => (t.score > best.score ? t : best), state.teamScores[0])
+    : null;
+
+  return (
+    <div className="w-full max-w-7xl mb-5 bg-amber-500/10 border border-amber-500/40 rounded-xl px-5 py-4 flex items-center gap-4 animate-in fade-in duration-500 cursor-default">
+      <History className="w-8 h-8 text-amber-400 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="text-lg font-semibold text-amber-200">Resume game in progress</div>
+        <div className="text-sm text-gray-400 truncate">
+          {GAME_TYPE_NAMES[selection.gameType] || selection.gameType} · {packNames || 'No pack'}
+          {state && ` · Round ${state.currentRoundIndex + 1} · ${state.answeredQuestions.length} questions played`}
+          {leader && ` · Leader: ${leader.teamName} (${leader.score})`}
+          {` · saved at ${savedTime}`}
+        </div>
+      </div>
+      <button
+        onClick={onDiscard}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm font-medium"
+      >
+        <Trash2 className="w-4 h-4" /> Discard
+      </button>
+      <button
+        onClick={onResume}
+        disabled={disabled}
+        className="flex items-center gap-2 px-5 py-2 rounded-lg bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:pointer-events-none text-white text-sm font-semibold"
+      >
+        <Play className="w-4 h-4" /> Resume
+      </button>
+    </div>
+  );
+});
+
+ResumeGamePrompt.displayName = 'ResumeGamePrompt';
@@ -4,11 +4,12 @@
  */
 
 import React, { memo, useMemo, useCallback } from 'react';
-import { Smartphone, Monitor, ArrowRight, Wifi, Clock, Users, Trash2, Activity, StopCircle, Flag } from 'lucide-react';
+import { Smartphone, Monitor, ArrowRight, Wifi, Clock, Users, Trash2, Activity, StopCircle, Flag, FileJson, FileSpreadsheet, Printer } from 'lucide-react';
 import { format, isValid } from 'date-fns';
 import { Button } from '../Button';
 import { ConnectionStatus } from '../../types';
 import { getHealthBgColor } from '../../utils';
+import type { ReportFormat } from './game/gameReport';
 
 interface ClientStats {
   active: number;
@@ -25,6 +26,7 @@ interface SessionDashboardProps {
   isOnline: boolean;
   onBackToLobby: () => void;
   onClearLogs: () => void;
+  onExportReport?: (format: ReportFormat) => void;
 }
 
 export const SessionDashboard = memo(({
@@ -36,6 +38,7 @@ export const SessionDashboard = memo(({
   isOnline,
   onBackToLobby,
   onClearLogs,
+  onExportReport,
 }: SessionDashboardProps) => {
   // Memoize latency color calculation
   const latencyColor = useMemo(() => {
@@ -66,6 +69,20 @@ export const SessionDashboard = memo(({
           )}
         </div>
         <div className="flex items-center gap-3">
+          {onExportReport && (
+            <>
+              <Button size="sm" variant="ghost" onClick={() => onExportReport('json')} title="Export game report (JSON)">
+                <FileJson className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => onExportReport('csv')} title="Export game report (CSV)">
+                <FileSpreadsheet className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => onExportReport('html')} title="Printable game report">
+                <Printer className="w-4 h-4" />
+              </Button>
+              <div className="h-6 w-px bg-gray-800"></div>
+            </>
+          )}
           <div className={`flex items-center space-x-1.5 px-2 py-1 rounded-full text-xs font-bold uppercase ${isOnline ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
             <Wifi className="w-3 h-3" /> <span>{isOnline ? 'Online' : 'Offline'}</span>
           </div>
@@ -0,0 +1,227 @@
+/**
+ * SessionPlaylistEditor Component
+ * Round playlist of a multi-pack session: drag rounds from any selected pack
+ * into an ordered list, reorder them and switch themes off for this session
+ * (the pack itself is not changed).
+ */
+
+import React, { memo, useState, useMemo, useCallback } from 'react';
+import { ListOrdered, GripVertical, Plus, X, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+import { BaseModal } from '../shared';
+import { Button } from '../Button';
+import {
+  EMPTY_PLAYLIST,
+  syncPlaylist,
+  getUnusedRounds,
+  movePlaylistItem,
+  insertPlaylistRound,
+  removePlaylistItem,
+  togglePlaylistTheme,
+  getPlaylistSummary,
+  type SessionPlaylist,
+  type PlaylistSourcePack
+} from '../../utils/sessionPlaylist';
+
+interface SessionPlaylistEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  packs: PlaylistSourcePack[];  // Selected packs, in selection order
+  playlist: SessionPlaylist;
+  onChange: (playlist: SessionPlaylist) => void;
+}
+
+type DragSource =
+  | { from: 'playlist'; index: number }
+  | { from: 'pack'; packId: string; roundId: string };
+
+const countQuestions = (themes: { questions?: unknown[] }[]) =>
+  themes.reduce((acc, t) => acc + (t.questions?.length || 0), 0);
+
+export const SessionPlaylistEditor = memo(({ isOpen, onClose, packs, playlist, onChange }: SessionPlaylistEditorProps) => {
+  const [dragged, setDragged] = useState<DragSource | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  const unusedRounds = useMemo(() => getUnusedRounds(playlist, packs), [playlist, packs]);
+  const summary = useMemo(() => getPlaylistSummary(playlist, packs), [playlist, packs]);
+
+  const handleDragOver = useCallback((e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    setDropIndex(index);
+  }, []);
+
+  const handleDragEnd = useCallback(() => {
+    setDragged(null);
+    setDropIndex(null);
+  }, []);
+
+  const handleDrop = useCallback((index: number) => {
+    if (dragged?.from === 'playlist') {
+      // Removing the item shifts everything after it one position up
+      onChange(movePlaylistItem(playlist, dragged.index, dragged.index < index ? index - 1 : index));
+    } else if (dragged?.from === 'pack') {
+      onChange(insertPlaylistRound(playlist, dragged.packId, dragged.roundId, index));
+    }
+    setExpandedIndex(null);
+    handleDragEnd();
+  }, [dragged, playlist, onChange, handleDragEnd]);
+
+  if (!isOpen) return null;
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Session Playlist" maxWidth="max-w-4xl">
+      <div className="grid grid-cols-2 gap-4 h-[60vh]">
+        {/* Rounds of selected packs not in the playlist */}
+        <div className="flex flex-col min-h-0">
+          <div className="text-sm font-medium text-gray-400 mb-2">Available rounds</div>
+          <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+            {packs.map(pack => {
+              const packRounds = unusedRounds.filter(u => u.pack.id === pack.id);
+              return (
+                <div key={pack.id}>
+                  <div className="text-xs uppercase tracking-wide text-gray-500 mb-1 truncate">{pack.name}</div>
+                  {packRounds.length === 0 ? (
+                    <div className="text-xs text-gray-600 px-3 py-1">All rounds are in the playlist</div>
+                  ) : packRounds.map(({ round }) => (
+                    <div
+                      key={round.id}
+                      draggable
+                      onDragStart={() => setDragged({ from: 'pack', packId: pack.id, roundId: round.id })}
+                      onDragEnd={handleDragEnd}
+                      className="flex items-center gap-2 px-3 py-2 mb-1 rounded-lg border border-gray-700 bg-gray-800/50 hover:border-gray-600 cursor-grab"
+                    >
+                      <GripVertical className="w-4 h-4 text-gray-600 shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <div className={`text-sm truncate ${round.disabled ? 'text-gray-500' : 'text-gray-200'}`}>
+                          {round.name || 'Untitled round'}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {round.themes.length}t • {countQuestions(round.themes)}q{round.disabled ? ' • disabled in pack' : ''}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => onChange(insertPlaylistRound(playlist, pack.id, round.id))}
+                        className="p-1 hover:bg-gray-700 rounded-lg text-gray-400 hover:text-white transition-colors"
+                        title="Add to the end of the playlist"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Ordered playlist */}
+        <div className="flex flex-col min-h-0">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-400">
+              Playlist · {summary.rounds} rounds · {summary.themes} themes · {summary.questions} questions
+            </div>
+            <button
+              onClick={() => { setExpandedIndex(null); onChange(syncPlaylist(EMPTY_PLAYLIST, packs)); }}
+              className="flex items-center gap-1 px-2 py-0.5 rounded text-xs text-gray-400 hover:text-white hover:bg-gray-800"
+              title="All rounds of every selected pack in pack order"
+            >
+              <RotateCcw className="w-3 h-3" /> Reset
+            </button>
+          </div>
+          <div
+            className="flex-1 overflow-y-auto pr-1"
+            onDragOver={(e) => handleDragOver(e, playlist.items.length)}
+            onDrop={() => handleDrop(dropIndex ?? playlist.items.length)}
+          >
+            {playlist.items.map((item, index) => {
+              const pack = packs.find(p => p.id === item.packId);
+              const round = pack?.rounds?.find(r => r.id === item.roundId);
+              if (!pack || !round) return null;
+              const enabledThemes = round.themes.filter(t => !item.disabledThemeIds.includes(t.id));
+              const isExpanded = expandedIndex === index;
+
+              return (
+                <div
+                  key={`${item.packId}-${item.roundId}`}
+                  onDragOver={(e) => { e.stopPropagation(); handleDragOver(e, index); }}
+                  onDrop={(e) => { e.stopPropagation(); handleDrop(index); }}
+                  className={`mb-1 border-t-2 ${dragged && dropIndex === index ? 'border-blue-500' : 'border-transparent'}`}
+                >
+                  <div
+                    draggable
+                    onDragStart={() => setDragged({ from: 'playlist', index })}
+                    onDragEnd={handleDragEnd}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-grab ${
+                      enabledThemes.length === 0 ? 'border-red-500/50 bg-red-500/10' : 'border-blue-500/40 bg-blue-500/10'
+                    }`}
+                  >
+                    <GripVertical className="w-4 h-4 text-gray-500 shrink-0" />
+                    <span className="text-sm font-semibold text-blue-300 w-5 text-right shrink-0">{index + 1}</span>
+                    <button
+                      onClick={() => setExpandedIndex(isExpanded ? null : index)}
+                      className="flex-1 min-w-0 flex items-center gap-1 text-left"
+                      title="Themes of this round"
+                    >
+                      {isExpanded ? <ChevronDown className="w-3.5 h-3.5 text-gray-400 shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 text-gray-400 shrink-0" />}
+                      <div className="min-w-0">
+                        <div className="text-sm text-white truncate">{round.name || 'Untitled round'}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {pack.name} · {enabledThemes.length}/{round.themes.length} themes · {countQuestions(enabledThemes)}q
+                          {enabledThemes.length === 0 ? ' · skipped' : ''}
+                        </div>
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => { setExpandedIndex(null); onChange(removePlaylistItem(playlist, index)); }}
+                      className="p-1 hover:bg-red-900/50 rounded-lg text-gray-400 hover:text-red-400 transition-colors"
+                      title="Remove from playlist"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="flex flex-wrap gap-1.5 px-3 py-2 ml-6">
+                      {round.themes.length === 0 && <span className="text-xs text-gray-500">No themes</span>}
+                      {round.themes.map(theme => {
+                        const isOn = !item.disabledThemeIds.includes(theme.id);
+                        return (
+                          <button
+                            key={theme.id}
+                            onClick={() => onChange(togglePlaylistTheme(playlist, index, theme.id))}
+                            className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                              isOn
+                                ? 'border-green-500/50 bg-green-500/10 text-green-300'
+                                : 'border-gray-700 text-gray-500 line-through'
+                            }`}
+                            title={isOn ? 'Skip this theme in this session' : 'Play this theme in this session'}
+                          >
+                            {theme.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className={`border-t-2 ${dragged && dropIndex === playlist.items.length ? 'border-blue-500' : 'border-transparent'}`} />
+            {playlist.items.length === 0 && (
+              <div className="border border-dashed border-gray-700 rounded-lg p-8 text-center text-sm text-gray-500">
+                <ListOrdered className="w-6 h-6 mx-auto mb-2 text-gray-600" />
+                Drag rounds here
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end pt-4 mt-4 border-t border-gray-800">
+        <Button onClick={onClose}>Done</Button>
+      </div>
+    </BaseModal>
+  );
+});
+
+SessionPlaylistEditor.displayName = 'SessionPlaylistEditor';
@@ -0,0 +1,40 @@
+/**
+ * SessionReportControl Component
+ *
+ * Small overlay in the game session - downloads the game report
+ * recorded so far (any game type, at any moment of the game)
+ */
+
+import React, { memo } from 'react';
+import { FileText, FileJson, FileSpreadsheet, Printer } from 'lucide-react';
+import type { ReportFormat } from './game/gameReport';
+
+interface SessionReportControlProps {
+  onExportReport: (format: ReportFormat) => void;
+}
+
+const REPORT_FORMATS = [
+  { format: 'json', title: 'Export game report (JSON)', icon: FileJson },
+  { format: 'csv', title: 'Export game report (CSV)', icon: FileSpreadsheet },
+  { format: 'html', title: 'Printable game report', icon: Printer }
+] as const;
+
+export const SessionReportControl = memo(({ onExportReport }: SessionReportControlProps) => (
+  <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 px-3 py-1.5 rounded-full bg-gray-900/80 backdrop-blur-sm border border-gray-800 opacity-60 hover:opacity-100 transition-opacity cursor-default">
+    <FileText className="w-4 h-4 text-gray-400" />
+    <span className="text-xs text-gray-400 mr-1">Report</span>
+    {REPORT_FORMATS.map(({ format, title, icon: Icon }) => (
+      <button
+        key={format}
+        // Blur after click - Space is used for game navigation and would re-trigger the button
+        onClick={(e) => { e.currentTarget.blur(); onExportReport(format); }}
+        className="p-1.5 rounded-full hover:bg-gray-800 text-gray-400 hover:text-white"
+        title={title}
+      >
+        <Icon className="w-4 h-4" />
+      </button>
+    ))}
+  </div>
+));
+
+SessionReportControl.displayName = 'SessionReportControl';
@@ -4,7 +4,7 @@
  */
 
 import React, { memo, useState, useEffect } from 'react';
-import { Settings, X, Shield, Clock, Users, Trash2, Info } from 'lucide-react';
+import { Settings, X, Shield, Clock, Users, Trash2, Info, Crown, Lock, Cloud } from 'lucide-react';
 import { Button } from '../Button';
 import { SESSION_CONFIG } from '../../config';
 import type { SessionSettings } from '../../hooks/useSessionSettings';
@@ -128,6 +128,42 @@ export const SettingsModal = memo(({ isOpen, onClose, settings, onSave, onClearC
           >
             <div className="h-4"></div>
           </SettingRow>
+
+          {/* Captain-only super game bets */}
+          <SettingRow
+            icon={<Crown className="w-5 h-5 text-yellow-400" />}
+            title="Captain Bets"
+            description="Only the team captain places the super game bet"
+            enabled={draftSettings.captainOnlySuperBets}
+            onToggle={() => updateDraft({ captainOnlySuperBets: !draftSettings.captainOnlySuperBets })}
+            colorClass="amber"
+          >
+            <div className="h-4"></div>
+          </SettingRow>
+
+          {/* Lock signalling room when the game starts */}
+          <SettingRow
+            icon={<Lock className="w-5 h-5 text-blue-400" />}
+            title="Lock Room"
+            description="No new phones can join by code once the game starts"
+            enabled={draftSettings.lockRoomOnStart}
+            onToggle={() => updateDraft({ lockRoomOnStart: !draftSettings.lockRoomOnStart })}
+            colorClass="blue"
+          >
+            <div className="h-4"></div>
+          </SettingRow>
+
+          {/* Public PeerJS server for Internet mode (off - the game never leaves the LAN) */}
+          <SettingRow
+            icon={<Cloud className="w-5 h-5 text-amber-400" />}
+            title="Public Server"
+            description="Internet mode may use the public PeerJS server (needs internet)"
+            enabled={draftSettings.allowPublicSignalling}
+            onToggle={() => updateDraft({ allowPublicSignalling: !draftSettings.allowPublicSignalling })}
+            colorClass="amber"
+          >
+            <div className="h-4"></div>
+          </SettingRow>
         </div>
 
         {/* Danger Zone */}
@@ -0,0 +1,78 @@
+/**
+ * ActionHistoryPanel Component
+ * Collapsible list of journaled host actions with Undo/Redo buttons
+ * (same as Ctrl+Z / Ctrl+Shift+Z)
+ */
+
+import React, { memo, useState } from 'react';
+import { History, Undo2, Redo2, ChevronUp, ChevronDown } from 'lucide-react';
+import { canUndo, canRedo, type ActionJournal } from './actionJournal';
+
+interface ActionHistoryPanelProps {
+  journal: ActionJournal;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const ActionHistoryPanel = memo(({ journal, onUndo, onRedo }: ActionHistoryPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Blur buttons after click - Space is used for game navigation and would re-trigger them
+  const blurTarget = (e: React.MouseEvent<HTMLButtonElement>) => e.currentTarget.blur();
+
+  if (journal.entries.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-72 bg-gray-900/90 backdrop-blur-sm border border-gray-800 rounded-lg shadow-xl cursor-default">
+      <div className="flex items-center justify-between px-3 py-2">
+        <button
+          onClick={(e) => { blurTarget(e); setIsOpen(prev => !prev); }}
+          className="flex items-center gap-2 text-sm text-gray-300 hover:text-white"
+          title="Action history"
+        >
+          <History className="w-4 h-4 text-blue-400" />
+          History {journal.cursor}/{journal.entries.length}
+          {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />}
+        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={(e) => { blurTarget(e); onUndo(); }}
+            disabled={!canUndo(journal)}
+            className="p-1.5 rounded hover:bg-gray-800 text-gray-400 hover:text-white disabled:opacity-30 disabled:pointer-events-none"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={(e) => { blurTarget(e); onRedo(); }}
+            disabled={!canRedo(journal)}
+            className="p-1.5 rounded hover:bg-gray-800 text-gray-400 hover:text-white disabled:opacity-30 disabled:pointer-events-none"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Newest first; undone entries are dimmed until redone or replaced by a new action */}
+      {isOpen && (
+        <div className="border-t border-gray-800 max-h-64 overflow-y-auto p-2 space-y-1 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent">
+          {journal.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+            <div
+              key={entry.id}
+              className={`text-xs flex gap-2 ${index >= journal.cursor ? 'text-gray-600 line-through' : 'text-gray-300'}`}
+            >
+              <span className="font-mono text-gray-600 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+              <span className="truncate">{entry.label}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+ActionHistoryPanel.displayName = 'ActionHistoryPanel';
@@ -0,0 +1,34 @@
+/**
+ * AnswerSuggestionBadge Component
+ * Matcher hint next to a typed answer (host only) - the host still judges
+ */
+
+import React, { memo } from 'react';
+import type { AnswerMatchResult, AnswerSuggestion } from '../../../utils/answerMatcher';
+
+const SUGGESTION_STYLES: Record<AnswerSuggestion, { label: string; className: string }> = {
+  'likely-correct': { label: 'likely ✓', className: 'bg-green-500/20 text-green-300 border-green-500/50' },
+  'likely-wrong': { label: 'likely ✗', className: 'bg-red-500/20 text-red-300 border-red-500/50' },
+  'unsure': { label: 'unsure', className: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/50' }
+};
+
+interface AnswerSuggestionBadgeProps {
+  match: AnswerMatchResult;
+  className?: string;
+}
+
+export const AnswerSuggestionBadge = memo(({ match, className = '' }: AnswerSuggestionBadgeProps) => {
+  const style = SUGGESTION_STYLES[match.suggestion];
+  const title = match.variant ? `${match.reason} (“${match.variant}”)` : match.reason;
+
+  return (
+    <span
+      className={`inline-flex items-center px-1.5 py-0.5 rounded border text-xs font-semibold ${style.className} ${className}`}
+      title={`Suggestion: ${title}`}
+    >
+      {style.label}
+    </span>
+  );
+});
+
+AnswerSuggestionBadge.displayName = 'AnswerSuggestionBadge';
@@ -0,0 +1,169 @@
+/**
+ * SpecialQuestionModal Component
+ * Host step before a special question opens:
+ * - cat in a bag: hidden theme/price, host picks the team that gets the question
+ * - auction: live bids from phones, host sells the question (highest bid by default)
+ * - no risk: announcement, question is then played as usual
+ */
+
+import React, { memo, useState, useMemo } from 'react';
+import { Cat, Gavel, ShieldCheck, X } from 'lucide-react';
+import type { TeamScore } from '../../../types';
+import type { AuctionBid } from './types';
+import { QUESTION_KIND_LABELS, clampAuctionBid, resolveAuction, type SpecialQuestionKind } from './specialQuestions';
+
+interface SpecialQuestionModalProps {
+  kind: SpecialQuestionKind;
+  boardThemeName: string;
+  themeName: string;        // Revealed theme (hidden theme for cat in a bag)
+  points: number;           // Price / minimal bid
+  teamScores: TeamScore[];
+  bids: AuctionBid[];       // Current auction bids (already filtered by question)
+  onPlay: (teamId: string | undefined, points: number) => void;
+  onCancel: () => void;
+}
+
+const KIND_ICONS: Record<SpecialQuestionKind, typeof Cat> = {
+  catInBag: Cat,
+  auction: Gavel,
+  noRisk: ShieldCheck
+};
+
+export const SpecialQuestionModal = memo(({
+  kind,
+  boardThemeName,
+  themeName,
+  points,
+  teamScores,
+  bids,
+  onPlay,
+  onCancel
+}: SpecialQuestionModalProps) => {
+  // Bids typed by host for teams without phones (teamId -> bid)
+  const [manualBids, setManualBids] = useState<Record<string, number>>({});
+  const leadingBid = useMemo(
+    () => resolveAuction(bids, points, Object.fromEntries(teamScores.map(t => [t.teamId, t.score]))),
+    [bids, points, teamScores]
+  );
+  const Icon = KIND_ICONS[kind];
+
+  // Phone bids are shown as the team can pay them
+  const bidFor = (team: TeamScore) => {
+    const phoneBid = bids.find(b => b.teamId === team.teamId && !b.pass)?.bid;
+    return manualBids[team.teamId] ?? (phoneBid !== undefined ? clampAuctionBid(phoneBid, points, team.score) : points);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-200 cursor-default">
+      <div className="w-full max-w-2xl bg-gray-900 border-2 border-amber-500 rounded-2xl shadow-2xl overflow-hidden">
+        <div className="bg-gradient-to-r from-amber-600 to-orange-600 px-6 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3 text-2xl font-black text-white uppercase">
+            <Icon className="w-7 h-7" /> {QUESTION_KIND_LABELS[kind]}
+          </div>
+          <button onClick={onCancel} className="p-1 text-white/80 hover:text-white" title="Cancel (question stays on the board)">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-baseline justify-between gap-4">
+            <div>
+              <div className="text-xl font-bold text-white">{themeName}</div>
+              {themeName !== boardThemeName && (
+                <div className="text-xs text-gray-500">Board theme: {boardThemeName}</div>
+              )}
+            </div>
+            <div className="text-3xl font-black text-amber-400">{points}</div>
+          </div>
+
+          {kind === 'catInBag' && (
+            <>
+              <p className="text-sm text-gray-400">Who gets the cat?</p>
+              <div className="grid grid-cols-2 gap-2">
+                {teamScores.map(team => (
+                  <button
+                    key={team.teamId}
+                    onClick={() => onPlay(team.teamId, points)}
+                    className="flex items-center justify-between px-4 py-3 rounded-lg bg-gray-800 hover:bg-amber-600 text-white transition-colors"
+                  >
+                    <span className="font-semibold truncate">{team.teamName}</span>
+                    <span className="text-sm text-gray-300">{team.score}</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {kind === 'auction' && (
+            <>
+              <p className="text-sm text-gray-400">Teams bid from phones (from {points} up to all-in). Host can enter a bid for any team.</p>
+              <div className="space-y-1.5">
+                {teamScores.map(team => {
+                  const phoneBid = bids.find(b => b.teamId === team.teamId);
+                  const isLeading = leadingBid?.teamId === team.teamId;
+                  return (
+                    <div
+                      key={team.teamId}
+                      className={`flex items-center gap-3 px-3 py-2 rounded-lg ${isLeading ? 'bg-amber-900/50 border border-amber-500' : 'bg-gray-800'}`}
+                    >
+                      <span className="flex-1 font-semibold text-white truncate">{team.teamName}</span>
+                      <span className="text-xs text-gray-500 w-16 text-right">{team.score}</span>
+                      <span className="text-xs w-14 text-right text-gray-400">
+                        {phoneBid ? (phoneBid.pass ? 'pass' : '📱') : ''}
+                      </span>
+                      <input
+                        type="number"
+                        step={100}
+                        value={bidFor(team)}
+                        onChange={(e) => setManualBids(prev => ({ ...prev, [team.teamId]: parseInt(e.target.value) || 0 }))}
+                        className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white text-sm text-right focus:outline-none focus:border-amber-500"
+                      />
+                      <button
+                        onClick={() => onPlay(team.teamId, clampAuctionBid(bidFor(team), points, team.score))}
+                        className="px-3 py-1 rounded bg-gray-700 hover:bg-amber-600 text-white text-sm font-semibold transition-colors"
+                      >
+                        Sell
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => {
+                    // Bid is already clamped to what the team can pay
+                    if (leadingBid) {
+                      onPlay(leadingBid.teamId, leadingBid.bid);
+                    }
+                  }}
+                  disabled={!leadingBid}
+                  className="px-5 py-2.5 rounded-lg bg-amber-600 hover:bg-amber-500 disabled:bg-gray-700 disabled:text-gray-500 text-white font-semibold transition-colors"
+                >
+                  {leadingBid
+                    ? `Sell to ${teamScores.find(t => t.teamId === leadingBid.teamId)?.teamName ?? 'team'} for ${leadingBid.bid}`
+                    : 'Waiting for bids...'}
+                </button>
+              </div>
+            </>
+          )}
+
+          {kind === 'noRisk' && (
+            <>
+              <p className="text-sm text-gray-400">Wrong answer costs nothing, correct answer earns {points * 2}.</p>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => onPlay(undefined, points)}
+                  className="px-5 py-2.5 rounded-lg bg-amber-600 hover:bg-amber-500 text-white font-semibold transition-colors"
+                >
+                  Play
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+SpecialQuestionModal.displayName = 'SpecialQuestionModal';
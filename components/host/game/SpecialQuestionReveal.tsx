@@ -0,0 +1,86 @@
+/**
+ * SpecialQuestionReveal Component
+ * Demo screen splash for special questions (cat in a bag, auction, no risk)
+ * and a compact badge shown while the question is played
+ */
+
+import React, { memo } from 'react';
+import type { SpecialQuestionInfo } from '../../../types';
+
+const KIND_TITLES: Record<SpecialQuestionInfo['kind'], { icon: string; title: string }> = {
+  catInBag: { icon: '🐱', title: 'Кот в мешке' },
+  auction: { icon: '🔨', title: 'Аукцион' },
+  noRisk: { icon: '🛡️', title: 'Вопрос без риска' }
+};
+
+interface SpecialQuestionRevealProps {
+  info: SpecialQuestionInfo;
+  compact?: boolean;  // Badge over the open question
+}
+
+export const SpecialQuestionReveal = memo(({ info, compact = false }: SpecialQuestionRevealProps) => {
+  const { icon, title } = KIND_TITLES[info.kind];
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-2 px-4 py-1 rounded-full bg-amber-600/90 text-white text-lg font-bold shadow-lg">
+        <span>{icon}</span>
+        <span>{title}</span>
+        {info.teamName && <span className="text-amber-100">→ {info.teamName}</span>}
+        <span className="font-black">{info.kind === 'noRisk' ? `×2` : info.points}</span>
+      </div>
+    );
+  }
+
+  // Cat in a bag before it is handed to a team - theme and price are still hidden
+  const isHiddenCat = info.kind === 'catInBag' && !info.teamName;
+
+  const leadingBid = info.bids
+    ?.filter(b => !b.pass)
+    .reduce<NonNullable<SpecialQuestionInfo['bids']>[number] | null>((best, b) => (!best || b.bid > best.bid ? b : best), null);
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center bg-gray-950/95 px-12">
+      <div className="animate-special-reveal flex flex-col items-center">
+        <div className="text-[12rem] leading-none mb-6">{icon}</div>
+        <h1 className="text-8xl font-black text-amber-400 uppercase tracking-wider mb-10">{title}</h1>
+      </div>
+
+      <div className="animate-in fade-in duration-700 flex flex-col items-center gap-4">
+        {isHiddenCat ? (
+          <div className="text-5xl font-bold text-white">Кому достанется кот?</div>
+        ) : (
+          <>
+            <div className="text-5xl font-bold text-white">{info.themeName}</div>
+            <div className="text-6xl font-black text-amber-300">
+              {info.kind === 'auction' ? `от ${info.points}` : info.points}
+            </div>
+          </>
+        )}
+        {info.kind === 'noRisk' && (
+          <div className="text-3xl text-gray-300">Без штрафа за ошибку, награда ×2</div>
+        )}
+        {info.kind === 'catInBag' && info.teamName && (
+          <div className="text-4xl text-gray-200">→ {info.teamName}</div>
+        )}
+        {info.kind === 'auction' && info.bids && info.bids.length > 0 && (
+          <div className="mt-6 flex flex-wrap justify-center gap-4">
+            {info.bids.map(b => (
+              <div
+                key={b.teamId}
+                className={`px-6 py-3 rounded-xl text-3xl font-bold ${
+                  b.pass ? 'bg-gray-800 text-gray-500 line-through'
+                    : b.teamId === leadingBid?.teamId ? 'bg-amber-600 text-white' : 'bg-gray-800 text-white'
+                }`}
+              >
+                {b.teamName}: {b.pass ? 'пас' : b.bid}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+SpecialQuestionReveal.displayName = 'SpecialQuestionReveal';
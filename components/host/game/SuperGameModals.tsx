@@ -9,6 +9,8 @@ import type { Round } from '../packeditor/types';
 import type { SuperGameBet, SuperGameAnswer } from './types';
 import { calculateQuestionFontSize } from './fontUtils';
 import { withSmartMemo } from '../../../utils/memoUtils.tsx';
+import { matchAnswer } from '../../../utils/answerMatcher';
+import { AnswerSuggestionBadge } from './AnswerSuggestionBadge';
 
 // ============= CONSTANTS =============
 const SUPER_GAME_QUESTION_TIME = 60; // seconds
@@ -210,6 +212,16 @@ export const SuperGameAnswersModal = withSmartMemo(({
   );
   const question = selectedTheme?.questions?.[0];
 
+  // Matcher suggestion per submitted answer (host still presses correct/wrong)
+  const suggestions = useMemo(() => {
+    const map = new Map<string, ReturnType<typeof matchAnswer>>();
+    if (!question) return map;
+    superGameAnswers.forEach(a => {
+      if (a.answer) map.set(a.teamId, matchAnswer(a.answer, question));
+    });
+    return map;
+  }, [question, superGameAnswers]);
+
   // Handle keyboard controls
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -287,6 +299,7 @@ export const SuperGameAnswersModal = withSmartMemo(({
                 const isCorrect = answer?.isCorrect ?? false;
                 const isWrong = answer?.isWrong ?? false;
                 const hasAnswer = !!answer?.answer;
+                const suggestion = !isCorrect && !isWrong ? suggestions.get(team.teamId) : undefined;
 
                 // Adaptive font size based on number of teams (more teams = smaller cards = smaller font)
                 // Base: 3 cols = 1.0x, 4 cols = 0.85x, 5 cols = 0.7x, 6 cols = 0.6x
@@ -312,6 +325,7 @@ export const SuperGameAnswersModal = withSmartMemo(({
                     className={`relative rounded-lg border-[3px] transition-all flex flex-col cursor-pointer ${cardStyle}`}
                     style={{ minHeight: '140px', padding: '8px' }}
                   >
+                    {suggestion && <AnswerSuggestionBadge match={suggestion} className="absolute top-1.5 right-1.5" />}
                     {/* Top: Team name */}
                     <div className="text-center" style={{ marginTop: '12px', marginBottom: '8px' }}>
                       <div
@@ -0,0 +1,58 @@
+/**
+ * TriviaProgress Component
+ * Replaces the game board in linear (trivia) mode:
+ * shows round progress and countdown to the next question
+ */
+
+import React, { memo } from 'react';
+
+interface TriviaProgressProps {
+  roundName?: string;
+  answeredCount: number;
+  totalCount: number;
+  nextThemeName?: string;  // Theme of the upcoming question (undefined when round is finished)
+  countdown?: number | null;  // Seconds until next question opens automatically
+}
+
+export const TriviaProgress = memo(({
+  roundName,
+  answeredCount,
+  totalCount,
+  nextThemeName,
+  countdown
+}: TriviaProgressProps) => {
+  const percent = totalCount > 0 ? Math.round((answeredCount / totalCount) * 100) : 0;
+  const isFinished = totalCount > 0 && answeredCount >= totalCount;
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center animate-in fade-in duration-500 px-12">
+      {roundName && (
+        <h2 className="text-4xl font-bold text-gray-400 uppercase tracking-wider mb-8">{roundName}</h2>
+      )}
+
+      <div className="text-8xl font-black text-white mb-8">
+        {isFinished ? 'Раунд завершён' : `Вопрос ${answeredCount + 1} / ${totalCount}`}
+      </div>
+
+      {/* Progress bar */}
+      <div className="w-full max-w-4xl h-4 bg-gray-800 rounded-full overflow-hidden mb-8">
+        <div
+          className="h-full bg-blue-500 transition-all duration-500"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      {!isFinished && nextThemeName && (
+        <div className="text-3xl text-gray-300 mb-4">{nextThemeName}</div>
+      )}
+
+      {countdown !== undefined && countdown !== null && (
+        <div className="text-2xl text-gray-500">
+          {isFinished ? 'Далее через' : 'Следующий вопрос через'} <span className="font-mono font-bold text-white">{countdown}</span>
+        </div>
+      )}
+    </div>
+  );
+});
+
+TriviaProgress.displayName = 'TriviaProgress';
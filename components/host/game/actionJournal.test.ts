@@ -0,0 +1,74 @@
+/**
+ * Action Journal Tests
+ * Тесты для истории отмены/повтора действий ведущего
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createJournal,
+  recordAction,
+  undoAction,
+  redoAction,
+  canUndo,
+  canRedo,
+  getScoreUpdates,
+  type JournalSnapshot
+} from './actionJournal';
+
+const snapshot = (score: number, answered: string[] = []): JournalSnapshot => ({
+  teamScores: [{ teamId: 't1', teamName: 'Team 1', score }],
+  answeredQuestions: answered,
+  teamStatuses: {},
+  superGameAnswers: [],
+  activeQuestion: null
+});
+
+describe('actionJournal', () => {
+  it('should undo and redo an action', () => {
+    let journal = recordAction(createJournal(), 'score', 'Correct', snapshot(0), 1);
+    expect(canUndo(journal)).toBe(true);
+    expect(canRedo(journal)).toBe(false);
+
+    const undone = undoAction(journal, snapshot(100))!;
+    expect(undone.snapshot.teamScores[0].score).toBe(0);
+    journal = undone.journal;
+    expect(canRedo(journal)).toBe(true);
+
+    const redone = redoAction(journal)!;
+    expect(redone.snapshot.teamScores[0].score).toBe(100);
+    expect(canRedo(redone.journal)).toBe(false);
+  });
+
+  it('should drop redo branch when a new action is recorded', () => {
+    let journal = recordAction(createJournal(), 'score', 'A', snapshot(0));
+    journal = recordAction(journal, 'score', 'B', snapshot(100));
+    journal = undoAction(journal, snapshot(200))!.journal;
+    journal = recordAction(journal, 'question_close', 'C', snapshot(100));
+
+    expect(journal.entries.map(e => e.label)).toEqual(['A', 'C']);
+    expect(canRedo(journal)).toBe(false);
+  });
+
+  it('should return null when there is nothing to undo or redo', () => {
+    const journal = createJournal();
+    expect(undoAction(journal, snapshot(0))).toBeNull();
+    expect(redoAction(journal)).toBeNull();
+  });
+
+  it('should keep only the latest entries', () => {
+    let journal = createJournal();
+    for (let i = 0; i < 5; i++) {
+      journal = recordAction(journal, 'score', `#${i}`, snapshot(i), i, 3);
+    }
+    expect(journal.entries.map(e => e.label)).toEqual(['#2', '#3', '#4']);
+    expect(journal.cursor).toBe(3);
+  });
+});
+
+describe('getScoreUpdates', () => {
+  it('should return only changed teams with delta', () => {
+    const from = [{ teamId: 'a', teamName: 'A', score: 100 }, { teamId: 'b', teamName: 'B', score: 0 }];
+    const to = [{ teamId: 'a', teamName: 'A', score: 0 }, { teamId: 'b', teamName: 'B', score: 0 }];
+    expect(getScoreUpdates(from, to)).toEqual([{ teamId: 'a', score: 0, delta: -100 }]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Action Journal
+ * Undo/redo history for host actions during a game (Ctrl+Z / Ctrl+Shift+Z).
+ * Used by GamePlay only - quiz mode has no undo.
+ *
+ * Memento-style commands: each entry stores the game state slice captured
+ * right before the action. On undo the current state is stored as the entry's
+ * "after" state, so redo restores exactly what was undone.
+ */
+
+import type { SuperGameAnswer } from './types';
+import type { SpecialQuestionPlay } from './specialQuestions';
+
+export type JournalActionKind =
+  | 'score'           // correct/wrong answer, manual score edit
+  | 'question_open'
+  | 'question_close'
+  | 'team_status'     // manual status change from context menu / team card
+  | 'super_reveal';   // super game answer marked correct/wrong
+
+export interface JournalQuestionRef {
+  roundIndex: number;
+  themeId: string;
+  questionId: string;
+  points: number;
+  special?: SpecialQuestionPlay;  // Reopened without the cat/auction step
+}
+
+export interface JournalSnapshot {
+  teamScores: { teamId: string; teamName: string; score: number }[];
+  answeredQuestions: string[];
+  teamStatuses: Record<string, string>;
+  superGameAnswers: SuperGameAnswer[];
+  activeQuestion: JournalQuestionRef | null;
+}
+
+export interface JournalEntry {
+  id: number;
+  kind: JournalActionKind;
+  label: string;
+  timestamp: number;
+  before: JournalSnapshot;
+  after?: JournalSnapshot;  // Filled when entry is undone
+}
+
+export interface ActionJournal {
+  entries: JournalEntry[];
+  cursor: number;   // entries[0..cursor) are applied, entries[cursor..] can be redone
+  nextId: number;
+}
+
+export interface JournalScoreUpdate {
+  teamId: string;
+  score: number;
+  delta: number;
+}
+
+/** Oldest entries are dropped when history grows beyond this */
+export const MAX_JOURNAL_ENTRIES = 100;
+
+export function createJournal(): ActionJournal {
+  return { entries: [], cursor: 0, nextId: 1 };
+}
+
+/**
+ * Record new action - discards entries that were undone (redo branch)
+ */
+export function recordAction(
+  journal: ActionJournal,
+  kind: JournalActionKind,
+  label: string,
+  before: JournalSnapshot,
+  timestamp: number = Date.now(),
+  maxEntries: number = MAX_JOURNAL_ENTRIES
+): ActionJournal {
+  const entries = [
+    ...journal.entries.slice(0, journal.cursor),
+    { id: journal.nextId, kind, label, timestamp, before }
+  ];
+  const trimmed = entries.length > maxEntries ? entries.slice(entries.length - maxEntries) : entries;
+  return { entries: trimmed, cursor: trimmed.length, nextId: journal.nextId + 1 };
+}
+
+export function canUndo(journal: ActionJournal): boolean {
+  return journal.cursor > 0;
+}
+
+export function canRedo(journal: ActionJournal): boolean {
+  return journal.cursor < journal.entries.length;
+}
+
+/**
+ * Undo last applied action
+ * @param current - state right now, kept for redo
+ * @returns snapshot to apply, or null when nothing to undo
+ */
+export function undoAction(
+  journal: ActionJournal,
+  current: JournalSnapshot
+): { journal: ActionJournal; entry: JournalEntry; snapshot: JournalSnapshot } | null {
+  if (!canUndo(journal)) return null;
+
+  const index = journal.cursor - 1;
+  const entry = { ...journal.entries[index], after: current };
+  const entries = [...journal.entries];
+  entries[index] = entry;
+
+  return { journal: { ...journal, entries, cursor: index }, entry, snapshot: entry.before };
+}
+
+/**
+ * Redo last undone action
+ * @returns snapshot to apply, or null when nothing to redo
+ */
+export function redoAction(
+  journal: ActionJournal
+): { journal: ActionJournal; entry: JournalEntry; snapshot: JournalSnapshot } | null {
+  if (!canRedo(journal)) return null;
+
+  const entry = journal.entries[journal.cursor];
+  if (!entry.after) return null;
+
+  return { journal: { ...journal, cursor: journal.cursor + 1 }, entry, snapshot: entry.after };
+}
+
+/**
+ * Score changes between two states (for UPDATE_SCORE messages)
+ */
+export function getScoreUpdates(
+  from: JournalSnapshot['teamScores'],
+  to: JournalSnapshot['teamScores']
+): JournalScoreUpdate[] {
+  const previous = new Map(from.map(t => [t.teamId, t.score]));
+  return to
+    .map(t => ({ teamId: t.teamId, score: t.score, delta: t.score - (previous.get(t.teamId) ?? 0) }))
+    .filter(update => update.delta !== 0);
+}
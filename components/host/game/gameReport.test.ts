@@ -0,0 +1,75 @@
+/**
+ * Game Report Tests
+ * Тесты для отчёта после игры
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GameReportRecorder, reportToCSV, reportToHTML } from './gameReport';
+
+const question = (points: number) => ({ roundName: 'Round 1', themeName: 'History', questionText: 'Year?', points });
+
+const playQuestion = (recorder: GameReportRecorder) => {
+  recorder.openQuestion(question(100), 1000);
+  recorder.recordBuzz({ teamId: 'a', teamName: 'A', playerId: 'p1', playerName: 'Ann', accepted: false }, 1500);
+  recorder.markResponseStart(2000);
+  recorder.recordBuzz({ teamId: 'b', teamName: 'B', playerId: 'p2', playerName: 'Bob', accepted: true }, 2300);
+  recorder.recordBuzz({ teamId: 'a', teamName: 'A', playerId: 'p1', playerName: 'Ann', accepted: true }, 2500);
+  recorder.recordAnswer('b', 'B', false, -100, 3000);
+  recorder.recordAnswer('a', 'A', true, 100, 4000);
+  recorder.closeQuestion(5000);
+};
+
+describe('GameReportRecorder', () => {
+  it('should record buzz order and reaction time from response start', () => {
+    const recorder = new GameReportRecorder();
+    recorder.start('Pack', 'custom', 0);
+    playQuestion(recorder);
+
+    const report = recorder.buildReport([], 6000);
+    const [q] = report.questions;
+    expect(q.buzzes.map(b => b.order)).toEqual([1, 2, 3]);
+    expect(q.buzzes.map(b => b.reactionMs)).toEqual([null, 300, 500]);
+    expect(q.answers.map(a => a.playerName)).toEqual(['Bob', 'Ann']);
+  });
+
+  it('should calculate team and player stats', () => {
+    const recorder = new GameReportRecorder();
+    recorder.start('Pack', 'custom', 0);
+    playQuestion(recorder);
+
+    const report = recorder.buildReport([
+      { teamId: 'a', teamName: 'A', score: 100 },
+      { teamId: 'b', teamName: 'B', score: -100 }
+    ], 6000);
+
+    const teamA = report.teams.find(t => t.teamId === 'a')!;
+    expect(teamA).toMatchObject({ buzzCount: 1, correct: 1, incorrect: 0, accuracy: 1, avgReactionMs: 500, pointsWon: 100 });
+    const teamB = report.teams.find(t => t.teamId === 'b')!;
+    expect(teamB).toMatchObject({ correct: 0, incorrect: 1, accuracy: 0, pointsLost: 100 });
+
+    const bob = report.players.find(p => p.playerId === 'p2')!;
+    expect(bob).toMatchObject({ buzzCount: 1, firstBuzzCount: 1, incorrect: 1 });
+  });
+
+  it('should include open question when building report mid-game', () => {
+    const recorder = new GameReportRecorder();
+    recorder.start('Pack', 'custom', 0);
+    recorder.openQuestion(question(200), 100);
+    expect(recorder.buildReport([]).questions).toHaveLength(1);
+  });
+});
+
+describe('report export', () => {
+  it('should escape CSV cells and HTML text', () => {
+    const recorder = new GameReportRecorder();
+    recorder.start('<Pack>', 'custom', 0);
+    recorder.openQuestion({ themeName: 'A, "B"', questionText: '<b>x</b>', points: 100 }, 10);
+    recorder.closeQuestion(20);
+    const report = recorder.buildReport([{ teamId: 't', teamName: 'T', score: 0 }], 30);
+
+    expect(reportToCSV(report)).toContain('"A, ""B"""');
+    const html = reportToHTML(report);
+    expect(html).toContain('&lt;b&gt;x&lt;/b&gt;');
+    expect(html).not.toContain('<b>x</b>');
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Game Report
+ * Collects per-question outcomes during a session and builds the post-game report:
+ * buzz order, answers with points delta, team/player stats (buzz count, accuracy,
+ * average reaction time), super game bets/answers and a timeline.
+ * Export formats: JSON, CSV and printable HTML.
+ */
+
+export type ReportFormat = 'json' | 'csv' | 'html';
+
+export interface ReportBuzz {
+  teamId: string;
+  teamName: string;
+  playerId?: string;
+  playerName?: string;
+  time: number;               // Host time (already clock-offset corrected)
+  order: number;              // 1 = first buzz for this question
+  accepted: boolean;          // Buzz came during response phase
+  reactionMs: number | null;  // From response phase start, null for early buzzes
+}
+
+export interface ReportAnswer {
+  teamId: string;
+  teamName: string;
+  playerName?: string;  // First player of the team who buzzed
+  correct: boolean;
+  delta: number;
+  time: number;
+}
+
+export interface ReportQuestion {
+  index: number;
+  roundName?: string;
+  themeName: string;
+  questionText: string;
+  points: number;
+  openedAt: number;
+  closedAt?: number;
+  buzzes: ReportBuzz[];
+  answers: ReportAnswer[];
+}
+
+export interface ReportTimelineEvent {
+  time: number;
+  type: 'game_start' | 'question_open' | 'buzz' | 'answer' | 'question_close' | 'score_edit' | 'super_game' | 'game_end';
+  text: string;
+}
+
+export interface ReportTeamStats {
+  teamId: string;
+  teamName: string;
+  finalScore: number;
+  buzzCount: number;
+  correct: number;
+  incorrect: number;
+  accuracy: number | null;        // 0..1, null when team never answered
+  avgReactionMs: number | null;
+  pointsWon: number;
+  pointsLost: number;
+}
+
+export interface ReportPlayerStats {
+  playerId: string;
+  playerName: string;
+  teamName?: string;
+  buzzCount: number;
+  firstBuzzCount: number;         // Questions where player buzzed first overall
+  correct: number;
+  incorrect: number;
+  accuracy: number | null;
+  avgReactionMs: number | null;
+}
+
+export interface ReportSuperGameEntry {
+  teamId: string;
+  teamName: string;
+  bet: number;
+  answer: string;
+  correct?: boolean;
+}
+
+export interface GameReport {
+  packName: string;
+  gameType?: string;
+  startedAt: number;
+  endedAt: number;
+  questions: ReportQuestion[];
+  teams: ReportTeamStats[];
+  players: ReportPlayerStats[];
+  superGame: ReportSuperGameEntry[];
+  timeline: ReportTimelineEvent[];
+}
+
+interface QuestionInfo {
+  roundName?: string;
+  themeName: string;
+  questionText: string;
+  points: number;
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+/**
+ * Session recorder - one instance per game session (kept in HostView ref)
+ */
+export class GameReportRecorder {
+  private packName = '';
+  private gameType?: string;
+  private startedAt = 0;
+  private questions: ReportQuestion[] = [];
+  private current: ReportQuestion | null = null;
+  private responseStartedAt: number | null = null;
+  private superGame = new Map<string, ReportSuperGameEntry>();
+  private timeline: ReportTimelineEvent[] = [];
+
+  start(packName: string, gameType?: string, time: number = Date.now()): void {
+    this.packName = packName;
+    this.gameType = gameType;
+    this.startedAt = time;
+    this.questions = [];
+    this.current = null;
+    this.responseStartedAt = null;
+    this.superGame.clear();
+    this.timeline = [{ time, type: 'game_start', text: packName }];
+  }
+
+  openQuestion(info: QuestionInfo, time: number = Date.now()): void {
+    if (this.current) this.closeQuestion(time);
+    this.current = { index: this.questions.length + 1, ...info, openedAt: time, buzzes: [], answers: [] };
+    this.responseStartedAt = null;
+    this.timeline.push({ time, type: 'question_open', text: `${info.themeName} ${info.points}` });
+  }
+
+  /** Response phase (green timer) started - reaction times are measured from here */
+  markResponseStart(time: number = Date.now()): void {
+    if (this.current && this.responseStartedAt === null) {
+      this.responseStartedAt = time;
+    }
+  }
+
+  recordBuzz(buzz: { teamId: string; teamName: string; playerId?: string; playerName?: string; accepted: boolean }, time: number): void {
+    if (!this.current) return;
+    const reactionMs = buzz.accepted && this.responseStartedAt !== null && time >= this.responseStartedAt
+      ? time - this.responseStartedAt
+      : null;
+    this.current.buzzes.push({ ...buzz, time, order: this.current.buzzes.length + 1, reactionMs });
+    this.timeline.push({ time, type: 'buzz', text: `${buzz.playerName || buzz.teamName}${buzz.accepted ? '' : ' (early)'}` });
+  }
+
+  recordAnswer(teamId: string, teamName: string, correct: boolean, delta: number, time: number = Date.now()): void {
+    if (!this.current) return;
+    const firstBuzz = this.current.buzzes.find(b => b.teamId === teamId && b.accepted);
+    this.current.answers.push({ teamId, teamName, playerName: firstBuzz?.playerName, correct, delta, time });
+    this.timeline.push({ time, type: 'answer', text: `${teamName} ${correct ? '✓' : '✗'} ${delta > 0 ? '+' : ''}${delta}` });
+  }
+
+  /** Manual score edit or undo/redo - shown in timeline only */
+  recordScoreEdit(teamName: string, delta: number, time: number = Date.now()): void {
+    this.timeline.push({ time, type: 'score_edit', text: `${teamName} ${delta > 0 ? '+' : ''}${delta}` });
+  }
+
+  closeQuestion(time: number = Date.now()): void {
+    if (!this.current) return;
+    this.current.closedAt = time;
+    this.questions.push(this.current);
+    this.timeline.push({ time, type: 'question_close', text: `${this.current.themeName} ${this.current.points}` });
+    this.current = null;
+    this.responseStartedAt = null;
+  }
+
+  recordSuperGameResult(entry: ReportSuperGameEntry, time: number = Date.now()): void {
+    this.superGame.set(entry.teamId, entry);
+    this.timeline.push({
+      time,
+      type: 'super_game',
+      text: `${entry.teamName}: ${entry.answer || '—'} (${entry.bet})${entry.correct === undefined ? '' : entry.correct ? ' ✓' : ' ✗'}`
+    });
+  }
+
+  /**
+   * Build report for current session
+   * @param finalScores - scores shown on the winner screen
+   */
+  buildReport(finalScores: { teamId: string; teamName: string; score: number }[], endedAt: number = Date.now()): GameReport {
+    const questions = this.current ? [...this.questions, { ...this.current }] : [...this.questions];
+    const allBuzzes = questions.flatMap(q => q.buzzes);
+    const allAnswers = questions.flatMap(q => q.answers);
+
+    const teams: ReportTeamStats[] = finalScores.map(team => {
+      const buzzes = allBuzzes.filter(b => b.teamId === team.teamId && b.accepted);
+      const answers = allAnswers.filter(a => a.teamId === team.teamId);
+      const correct = answers.filter(a => a.correct).length;
+      return {
+        teamId: team.teamId,
+        teamName: team.teamName,
+        finalScore: team.score,
+        buzzCount: buzzes.length,
+        correct,
+        incorrect: answers.length - correct,
+        accuracy: answers.length > 0 ? correct / answers.length : null,
+        avgReactionMs: average(buzzes.map(b => b.reactionMs).filter((r): r is number => r !== null)),
+        pointsWon: answers.filter(a => a.delta > 0).reduce((sum, a) => sum + a.delta, 0),
+        pointsLost: -answers.filter(a => a.delta < 0).reduce((sum, a) => sum + a.delta, 0)
+      };
+    });
+
+    const playerMap = new Map<string, ReportPlayerStats & { reactions: number[] }>();
+    questions.forEach(question => {
+      const firstAccepted = question.buzzes.find(b => b.accepted);
+      question.buzzes.filter(b => b.accepted && b.playerId).forEach(buzz => {
+        const player = playerMap.get(buzz.playerId!) || {
+          playerId: buzz.playerId!,
+          playerName: buzz.playerName || buzz.playerId!,
+          teamName: buzz.teamName,
+          buzzCount: 0,
+          firstBuzzCount: 0,
+          correct: 0,
+          incorrect: 0,
+          accuracy: null,
+          avgReactionMs: null,
+          reactions: []
+        };
+        player.buzzCount++;
+        if (firstAccepted === buzz) player.firstBuzzCount++;
+        if (buzz.reactionMs !== null) player.reactions.push(buzz.reactionMs);
+        playerMap.set(buzz.playerId!, player);
+      });
+      // Answer is credited to the first player of the team who buzzed
+      question.answers.forEach(answer => {
+        const firstTeamBuzz = question.buzzes.find(b => b.teamId === answer.teamId && b.accepted && b.playerId);
+        const player = firstTeamBuzz ? playerMap.get(firstTeamBuzz.playerId!) : undefined;
+        if (player) {
+          if (answer.correct) player.correct++;
+          else player.incorrect++;
+        }
+      });
+    });
+
+    const players: ReportPlayerStats[] = Array.from(playerMap.values()).map(({ reactions, ...player }) => ({
+      ...player,
+      accuracy: player.correct + player.incorrect > 0 ? player.correct / (player.correct + player.incorrect) : null,
+      avgReactionMs: average(reactions)
+    }));
+
+    return {
+      packName: this.packName,
+      gameType: this.gameType,
+      startedAt: this.startedAt || (questions[0]?.openedAt ?? endedAt),
+      endedAt,
+      questions,
+      teams: teams.sort((a, b) => b.finalScore - a.finalScore),
+      players: players.sort((a, b) => b.correct - a.correct || b.buzzCount - a.buzzCount),
+      superGame: Array.from(this.superGame.values()),
+      timeline: [...this.timeline, { time: endedAt, type: 'game_end', text: 'Game over' }]
+    };
+  }
+}
+
+// ============= EXPORT FORMATS =============
+
+const formatPercent = (value: number | null) => (value === null ? '' : `${Math.round(value * 100)}%`);
+const formatMs = (value: number | null) => (value === null ? '' : `${value}`);
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+export function reportToJSON(report: GameReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+const csvCell = (value: string | number | undefined | null): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+const csvRow = (cells: Array<string | number | undefined | null>) => cells.map(csvCell).join(',');
+
+/**
+ * CSV with three tables (questions, teams, players) separated by empty lines
+ */
+export function reportToCSV(report: GameReport): string {
+  const lines: string[] = [];
+
+  lines.push(csvRow(['#', 'Round', 'Theme', 'Points', 'Question', 'Buzz order', 'Answered by', 'Result', 'Delta']));
+  report.questions.forEach(q => {
+    const buzzOrder = q.buzzes.filter(b => b.accepted).map(b => b.playerName || b.teamName).join(' > ');
+    if (q.answers.length === 0) {
+      lines.push(csvRow([q.index, q.roundName, q.themeName, q.points, q.questionText, buzzOrder, '', 'no answer', 0]));
+    }
+    q.answers.forEach(a => {
+      lines.push(csvRow([q.index, q.roundName, q.themeName, q.points, q.questionText, buzzOrder, a.teamName, a.correct ? 'correct' : 'incorrect', a.delta]));
+    });
+  });
+
+  lines.push('');
+  lines.push(csvRow(['Team', 'Score', 'Buzzes', 'Correct', 'Incorrect', 'Accuracy', 'Avg reaction (ms)', 'Points won', 'Points lost']));
+  report.teams.forEach(t => {
+    lines.push(csvRow([t.teamName, t.finalScore, t.buzzCount, t.correct, t.incorrect, formatPercent(t.accuracy), formatMs(t.avgReactionMs), t.pointsWon, t.pointsLost]));
+  });
+
+  lines.push('');
+  lines.push(csvRow(['Player', 'Team', 'Buzzes', 'First buzzes', 'Correct', 'Incorrect', 'Accuracy', 'Avg reaction (ms)']));
+  report.players.forEach(p => {
+    lines.push(csvRow([p.playerName, p.teamName, p.buzzCount, p.firstBuzzCount, p.correct, p.incorrect, formatPercent(p.accuracy), formatMs(p.avgReactionMs)]));
+  });
+
+  if (report.superGame.length > 0) {
+    lines.push('');
+    lines.push(csvRow(['Super game team', 'Bet', 'Answer', 'Result']));
+    report.superGame.forEach(s => {
+      lines.push(csvRow([s.teamName, s.bet, s.answer, s.correct === undefined ? '' : s.correct ? 'correct' : 'incorrect']));
+    });
+  }
+
+  return lines.join('\n');
+}
+
+const escapeHtml = (text: string | number | undefined | null): string =>
+  String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const htmlTable = (headers: string[], rows: Array<Array<string | number | undefined | null>>): string =>
+  `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+  `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+/**
+ * Standalone printable HTML page (light theme, print-friendly)
+ */
+export function reportToHTML(report: GameReport): string {
+  const title = `Game report — ${report.packName}`;
+  const sections: string[] = [];
+
+  sections.push('<h2>Final standings</h2>' + htmlTable(
+    ['#', 'Team', 'Score', 'Buzzes', 'Correct', 'Incorrect', 'Accuracy', 'Avg reaction, ms'],
+    report.teams.map((t, i) => [i + 1, t.teamName, t.finalScore, t.buzzCount, t.correct, t.incorrect, formatPercent(t.accuracy), formatMs(t.avgReactionMs)])
+  ));
+
+  if (report.players.length > 0) {
+    sections.push('<h2>Players</h2>' + htmlTable(
+      ['Player', 'Team', 'Buzzes', 'First', 'Correct', 'Incorrect', 'Accuracy', 'Avg reaction, ms'],
+      report.players.map(p => [p.playerName, p.teamName, p.buzzCount, p.firstBuzzCount, p.correct, p.incorrect, formatPercent(p.accuracy), formatMs(p.avgReactionMs)])
+    ));
+  }
+
+  sections.push('<h2>Questions</h2>' + htmlTable(
+    ['#', 'Theme', 'Points', 'Question', 'Buzz order', 'Answers'],
+    report.questions.map(q => [
+      q.index,
+      q.roundName ? `${q.roundName} / ${q.themeName}` : q.themeName,
+      q.points,
+      q.questionText,
+      q.buzzes.filter(b => b.accepted).map(b => b.playerName || b.teamName).join(' › '),
+      q.answers.map(a => `${a.teamName} ${a.correct ? '✓' : '✗'} ${a.delta > 0 ? '+' : ''}${a.delta}`).join(', ') || '—'
+    ])
+  ));
+
+  if (report.superGame.length > 0) {
+    sections.push('<h2>Super game</h2>' + htmlTable(
+      ['Team', 'Bet', 'Answer', 'Result'],
+      report.superGame.map(s => [s.teamName, s.bet, s.answer, s.correct === undefined ? '' : s.correct ? '✓' : '✗'])
+    ));
+  }
+
+  sections.push('<h2>Timeline</h2>' + htmlTable(
+    ['Time', 'Event'],
+    report.timeline.map(e => [formatTime(e.time), e.text])
+  ));
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 32px; }
+  h1 { margin-bottom: 4px; }
+  .meta { color: #666; margin-bottom: 24px; }
+  h2 { margin-top: 32px; border-bottom: 2px solid #333; padding-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f0f0f0; }
+  tr { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">${escapeHtml(new Date(report.startedAt).toLocaleString())} — ${escapeHtml(formatTime(report.endedAt))} · ${report.questions.length} questions</div>
+${sections.join('\n')}
+</body>
+</html>`;
+}
+
+/**
+ * Download report as file; HTML is also opened in a new tab for printing
+ */
+export function exportGameReport(report: GameReport, format: ReportFormat): void {
+  const content = format === 'json' ? reportToJSON(report) : format === 'csv' ? reportToCSV(report) : reportToHTML(report);
+  const mimeType = format === 'json' ? 'application/json' : format === 'csv' ? 'text/csv' : 'text/html';
+  // BOM so Excel opens cyrillic CSV correctly
+  const blob = new Blob([format === 'csv' ? '﻿' + content : content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  if (format === 'html') {
+    window.open(url, '_blank');
+  }
+
+  const dateStamp = new Date(report.endedAt).toISOString().slice(0, 10);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${report.packName || 'game'}-report-${dateStamp}.${format}`;
+  link.click();
+  // Delay revoke - new tab still loads the HTML page
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
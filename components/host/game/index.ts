@@ -4,11 +4,19 @@
 
 export * from './types';
 export * from './fontUtils';
+export * from './quizUtils';
+export * from './actionJournal';
+export * from './gameReport';
+export * from './specialQuestions';
 export { useGameState } from './useGameState';
 
 // Game sub-components
 export { GameBoard } from './GameBoard';
 export { GameBoardExtended } from './GameBoardExtended';
+export { TriviaProgress } from './TriviaProgress';
+export { SpecialQuestionReveal } from './SpecialQuestionReveal';
+export { SpecialQuestionModal } from './SpecialQuestionModal';
+export { ActionHistoryPanel } from './ActionHistoryPanel';
 export { CoverScreen, ThemesScreen, RoundScreen } from './GameScreens';
 export { SuperGameRound } from './SuperGameRound';
 export { SuperGameQuestionModal, SuperGameAnswersModal } from './SuperGameModals';
@@ -18,6 +26,7 @@ export { ScorePanel } from './ScorePanel';
 export { GameNavigation } from './GameNavigation';
 export { BettingPanel } from './BettingPanel';
 export { AnswersGrid } from './AnswersGrid';
+export { AnswerSuggestionBadge } from './AnswerSuggestionBadge';
 
 // Modals
 export * from './modals';
@@ -4,16 +4,20 @@
  */
 
 import React, { memo, useEffect } from 'react';
+import { FileJson, FileSpreadsheet, Printer } from 'lucide-react';
 import type { TeamScore } from '../../../../types';
+import type { ReportFormat } from '../gameReport';
 
 export interface ShowWinnerScreenProps {
   teamScores: TeamScore[];
   onBroadcastMessage?: (message: unknown) => void;
+  onExportReport?: (format: ReportFormat) => void;  // Post-game report download
 }
 
 export const ShowWinnerScreen = memo(({
   teamScores,
   onBroadcastMessage,
+  onExportReport,
 }: ShowWinnerScreenProps) => {
   // Find winner(s) - team with highest score
   const maxScore = Math.max(...teamScores.map(t => t.score));
@@ -94,6 +98,26 @@ export const ShowWinnerScreen = memo(({
         {winners.length === 1 && (
           <div className="mt-8 text-9xl animate-pulse">🏆</div>
         )}
+
+        {/* Post-game report export */}
+        {onExportReport && (
+          <div className="mt-8 flex items-center justify-center gap-3">
+            <span className="text-white/80 font-semibold">Game report:</span>
+            {([
+              { format: 'json', label: 'JSON', icon: FileJson },
+              { format: 'csv', label: 'CSV', icon: FileSpreadsheet },
+              { format: 'html', label: 'Print', icon: Printer }
+            ] as const).map(({ format, label, icon: Icon }) => (
+              <button
+                key={format}
+                onClick={(e) => { e.currentTarget.blur(); onExportReport(format); }}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-black/30 hover:bg-black/50 text-white font-semibold"
+              >
+                <Icon className="w-4 h-4" /> {label}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
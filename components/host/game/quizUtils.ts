@@ -0,0 +1,86 @@
+/**
+ * Quiz game utilities
+ * Flattening pack into a linear question list and answer auto-marking
+ */
+
+import type { Round } from '../packeditor/types';
+import type { QuizQuestion, QuizAnswer } from './types';
+import { matchAnswer, type AnswerMatchResult } from '../../../utils/answerMatcher';
+
+const DEFAULT_QUIZ_TIME_LIMIT = 30;
+const DEFAULT_QUIZ_POINTS = 100;
+
+/**
+ * Build linear list of quiz questions from pack rounds
+ * Super rounds and disabled rounds/themes are skipped
+ * @param rounds - Pack rounds
+ * @returns Questions in pack order (round → theme → question)
+ */
+export function buildQuizQuestions(rounds: Round[] | undefined): QuizQuestion[] {
+  const questions: QuizQuestion[] = [];
+
+  (rounds || []).forEach(round => {
+    if (round.disabled || round.type === 'super') return;
+
+    round.themes?.forEach(theme => {
+      if (theme.disabled) return;
+
+      theme.questions?.forEach(question => {
+        const options = question.answers?.filter(a => a && a.trim() !== '');
+        const hasOptions = !!options && options.length >= 2;
+        const correctOptionIndex = hasOptions && question.correctAnswer !== undefined && question.correctAnswer < options.length
+          ? question.correctAnswer
+          : undefined;
+
+        questions.push({
+          id: question.id,
+          text: question.text,
+          media: question.media?.url ? { type: question.media.type, url: question.media.url } : undefined,
+          options: hasOptions ? options : undefined,
+          correctOptionIndex,
+          correctAnswer: question.answerText || (correctOptionIndex !== undefined ? options![correctOptionIndex] : undefined),
+          acceptedAnswers: question.acceptedAnswers,
+          answerMatch: question.answerMatch,
+          points: question.points ?? DEFAULT_QUIZ_POINTS,
+          timeLimit: question.timeLimit ?? round.responseWindow ?? DEFAULT_QUIZ_TIME_LIMIT,
+          themeName: theme.name,
+          roundName: round.name,
+        });
+      });
+    });
+  });
+
+  return questions;
+}
+
+/**
+ * Answer matcher result for a typed quiz answer
+ * @returns undefined for multiple choice answers (marked by option index)
+ */
+export function matchQuizAnswer(question: QuizQuestion, answer: QuizAnswer): AnswerMatchResult | undefined {
+  if (question.correctOptionIndex !== undefined && answer.optionIndex !== undefined) {
+    return undefined;
+  }
+  return matchAnswer(answer.answer, {
+    answerText: question.correctAnswer,
+    acceptedAnswers: question.acceptedAnswers,
+    answerMatch: question.answerMatch
+  });
+}
+
+/**
+ * Suggest correctness for a submitted answer
+ * Multiple choice is marked by option index, text answers by the answer
+ * matcher (accepted variants + question matching policy).
+ * @returns true/false, or undefined when host has to decide manually
+ */
+export function autoMarkQuizAnswer(question: QuizQuestion, answer: QuizAnswer): boolean | undefined {
+  if (question.correctOptionIndex !== undefined && answer.optionIndex !== undefined) {
+    return answer.optionIndex === question.correctOptionIndex;
+  }
+
+  const match = matchQuizAnswer(question, answer);
+  if (match?.suggestion === 'likely-correct') return true;
+  if (match?.suggestion === 'likely-wrong') return false;
+  return undefined;
+}
@@ -0,0 +1,62 @@
+/**
+ * Special Questions Tests
+ * Тесты правил кота в мешке, аукциона и вопроса без риска
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getSpecialKind,
+  getCatInBagStake,
+  getAuctionLimits,
+  clampAuctionBid,
+  resolveAuction,
+  getAnswerDelta
+} from './specialQuestions';
+
+describe('specialQuestions', () => {
+  it('should treat missing and normal kind as regular question', () => {
+    expect(getSpecialKind({})).toBeNull();
+    expect(getSpecialKind({ questionKind: 'normal' })).toBeNull();
+    expect(getSpecialKind({ questionKind: 'auction' })).toBe('auction');
+  });
+
+  it('should reveal hidden cat in a bag theme and price', () => {
+    expect(getCatInBagStake({}, 'Music', 200)).toEqual({ themeName: 'Music', points: 200 });
+    expect(getCatInBagStake({ catInBag: { theme: 'Cats', points: 500 } }, 'Music', 200)).toEqual({ themeName: 'Cats', points: 500 });
+  });
+
+  it('should limit auction bids to price and team score', () => {
+    expect(getAuctionLimits(200, 1000)).toEqual({ minBid: 200, maxBid: 1000 });
+    expect(getAuctionLimits(200, -100)).toEqual({ minBid: 200, maxBid: 200 });
+    expect(clampAuctionBid(50, 200, 1000)).toBe(200);
+    expect(clampAuctionBid(5000, 200, 1000)).toBe(1000);
+  });
+
+  it('should pick highest bid, earlier bid on a tie, ignoring passes', () => {
+    const bid = (teamId: string, value: number, placedAt: number, pass = false) =>
+      ({ teamId, questionId: 'q', bid: value, placedAt, pass });
+
+    const scores = { a: 1000, b: 1000, c: 1000 };
+
+    expect(resolveAuction([bid('a', 300, 2), bid('b', 300, 1), bid('c', 900, 0, true)], 100, scores)?.teamId).toBe('b');
+    expect(resolveAuction([bid('a', 300, 2), bid('b', 400, 3)], 100, scores)?.teamId).toBe('b');
+    expect(resolveAuction([bid('a', 300, 1, true)], 100, scores)).toBeNull();
+  });
+
+  it('should rank bids by what the team can pay', () => {
+    const bid = (teamId: string, value: number, placedAt: number) => ({ teamId, questionId: 'q', bid: value, placedAt });
+
+    // Team "poor" has 500 points - its 10000 bid is worth 500 and loses to an affordable 800
+    const winner = resolveAuction([bid('poor', 10000, 1), bid('rich', 800, 2)], 200, { poor: 500, rich: 2000 });
+    expect(winner).toMatchObject({ teamId: 'rich', bid: 800 });
+
+    expect(resolveAuction([bid('poor', 10000, 1)], 200, { poor: 500 })?.bid).toBe(500);
+  });
+
+  it('should double no-risk reward without penalty', () => {
+    expect(getAnswerDelta('noRisk', 300, true)).toBe(600);
+    expect(getAnswerDelta('noRisk', 300, false)).toBe(0);
+    expect(getAnswerDelta('auction', 300, false)).toBe(-300);
+    expect(getAnswerDelta(null, 100, true)).toBe(100);
+  });
+});
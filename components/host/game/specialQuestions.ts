@@ -0,0 +1,70 @@
+/**
+ * Special Questions
+ * Rules of Own-Game board specials: cat in a bag, auction and no-risk.
+ * Pure functions - shared by host (GamePlay), phones (bidding) and tests.
+ */
+
+import type { Question, QuestionKind } from '../packeditor/types';
+import type { AuctionBid } from './types';
+
+export type SpecialQuestionKind = Exclude<QuestionKind, 'normal'>;
+
+export const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+  normal: 'Regular',
+  catInBag: 'Cat in a bag',
+  auction: 'Auction',
+  noRisk: 'No risk'
+};
+
+/** How a special question is played once the host resolved the reveal/auction */
+export interface SpecialQuestionPlay {
+  kind: SpecialQuestionKind;
+  points: number;       // Cat price / winning bid / board price for no-risk
+  teamId?: string;      // Team that answers alone (cat in a bag, auction)
+  themeName?: string;   // Hidden theme of cat in a bag
+}
+
+/** Special kind of question, null for regular questions */
+export function getSpecialKind(question: Pick<Question, 'questionKind'>): SpecialQuestionKind | null {
+  const kind = question.questionKind;
+  return kind && kind !== 'normal' ? kind : null;
+}
+
+/** Theme and price revealed for cat in a bag (board values when not set) */
+export function getCatInBagStake(question: Pick<Question, 'catInBag'>, boardThemeName: string, boardPoints: number) {
+  return {
+    themeName: question.catInBag?.theme?.trim() || boardThemeName,
+    points: question.catInBag?.points ?? boardPoints
+  };
+}
+
+/**
+ * Allowed auction bids: from question price up to team score ("all-in").
+ * Team with less than the price can only bid the price.
+ */
+export function getAuctionLimits(points: number, teamScore: number) {
+  return { minBid: points, maxBid: Math.max(points, teamScore) };
+}
+
+export function clampAuctionBid(bid: number, points: number, teamScore: number): number {
+  const { minBid, maxBid } = getAuctionLimits(points, teamScore);
+  return Math.min(maxBid, Math.max(minBid, Math.round(bid)));
+}
+
+/**
+ * Highest bid wins, the earlier one on a tie. Null when everybody passed.
+ * Bids are ranked as the team can pay them (clampAuctionBid), the result carries that amount.
+ */
+export function resolveAuction(bids: AuctionBid[], points: number, teamScores: Record<string, number>): AuctionBid | null {
+  return bids
+    .filter(b => !b.pass)
+    .map(b => ({ ...b, bid: clampAuctionBid(b.bid, points, teamScores[b.teamId] ?? 0) }))
+    .reduce<AuctionBid | null>((best, b) =>
+      !best || b.bid > best.bid || (b.bid === best.bid && b.placedAt < best.placedAt) ? b : best, null);
+}
+
+/** Score change for an answer: no-risk doubles the reward and has no penalty */
+export function getAnswerDelta(kind: SpecialQuestionKind | null, points: number, correct: boolean): number {
+  if (kind === 'noRisk') return correct ? points * 2 : 0;
+  return correct ? points : -points;
+}
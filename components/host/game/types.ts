@@ -16,6 +16,7 @@ export type GameScreen =
 
 // TeamScore is imported from main types.ts
 import type { TeamScore } from '../../../types';
+import type { AnswerMatchPolicy } from '../packeditor/types';
 
 // Super Game state
 export interface SuperGameBet {
@@ -33,6 +34,15 @@ export interface SuperGameAnswer {
   isWrong?: boolean;
 }
 
+// Auction bid from a phone (special board question)
+export interface AuctionBid {
+  teamId: string;
+  questionId: string;  // Bids for an earlier auction are ignored
+  bid: number;
+  pass?: boolean;      // Team refused to bid
+  placedAt: number;
+}
+
 export interface BuzzerState {
   active: boolean;
   timerPhase: 'reading' | 'response' | 'complete' | 'inactive';
@@ -67,3 +77,28 @@ export interface GamePlayProps {
   onSuperGamePhaseChange?: (phase: 'idle' | 'placeBets' | 'showQuestion' | 'showWinner') => void;  // Track super game phase
   onSuperGameMaxBetChange?: (maxBet: number) => void;  // Track max bet for super game
 }
+
+// Quiz game state (all teams answer simultaneously)
+export interface QuizQuestion {
+  id: string;
+  text: string;
+  media?: { type: 'image' | 'video' | 'audio' | 'youtube'; url?: string };
+  options?: string[];          // Multiple choice options from Question.answers
+  correctOptionIndex?: number;
+  correctAnswer?: string;      // Text shown on reveal
+  acceptedAnswers?: string[];  // Other typed answers counted as correct
+  answerMatch?: AnswerMatchPolicy;
+  points: number;
+  timeLimit: number;           // Seconds
+  themeName: string;
+  roundName?: string;
+}
+
+export interface QuizAnswer {
+  teamId: string;
+  questionId: string;
+  answer: string;
+  optionIndex?: number;
+  submittedAt: number;
+  isCorrect?: boolean;         // Set by host during review
+}
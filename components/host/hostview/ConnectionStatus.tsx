@@ -1,19 +1,29 @@
 /**
  * ConnectionStatus Component
- * Отображение статуса подключения и количества клиентов
+ * Отображение статуса подключения, количества клиентов и сигнального сервера
  */
 
 import React, { memo } from 'react';
-import { Users, Activity } from 'lucide-react';
+import { Users, Activity, Server } from 'lucide-react';
+import { SIGNALLING_STATUS_MESSAGES, type SignallingStatus } from '../../../utils/network';
 
 interface ConnectionStatusProps {
   clientsCount: number;
   isOnline: boolean;
+  signallingStatus?: SignallingStatus;
+  signallingServer?: string | null;
 }
 
-export const ConnectionStatus = memo(({ clientsCount, isOnline }: ConnectionStatusProps) => {
+const SIGNALLING_STATUS_COLORS: Record<SignallingStatus, string> = {
+  checking: 'text-gray-400',
+  ready: 'text-green-400',
+  unreachable: 'text-red-400',
+  'public-disabled': 'text-red-400'
+};
+
+export const ConnectionStatus = memo(({ clientsCount, isOnline, signallingStatus, signallingServer }: ConnectionStatusProps) => {
   return (
-    <div className="flex items-center gap-4 text-sm">
+    <div className="flex flex-wrap items-center gap-4 text-sm">
       <div className="flex items-center gap-2 px-3 py-1.5 bg-gray-800/50 rounded-lg">
         <Users className="w-4 h-4 text-blue-400" />
         <span className="text-gray-300">
@@ -27,6 +37,18 @@ export const ConnectionStatus = memo(({ clientsCount, isOnline }: ConnectionStat
           {isOnline ? 'Online' : 'Offline'}
         </span>
       </div>
+
+      {signallingStatus && (
+        <div
+          className="flex items-center gap-2 px-3 py-1.5 bg-gray-800/50 rounded-lg"
+          title={signallingServer || undefined}
+        >
+          <Server className={`w-4 h-4 ${SIGNALLING_STATUS_COLORS[signallingStatus]}`} />
+          <span className={SIGNALLING_STATUS_COLORS[signallingStatus]}>
+            {SIGNALLING_STATUS_MESSAGES[signallingStatus]}
+          </span>
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,240 @@
+/**
+ * CsvImportModal Component
+ * Import questions from a spreadsheet (CSV / TSV):
+ * pick a file, map columns to fields, preview the round/theme tree and row errors,
+ * then merge into the current pack or start a new one.
+ */
+
+import React, { memo, useState, useMemo, useCallback, useRef } from 'react';
+import { AlertCircle, CheckCircle, FileSpreadsheet } from 'lucide-react';
+import { BaseModal } from './Modals';
+import { Button } from '../../Button';
+import type { Round } from './types';
+import {
+  CSV_FIELDS, parseDelimited, detectDelimiter, guessColumnMapping, buildRoundsFromRows,
+  type CsvDelimiter, type CsvColumnMapping, type CsvField
+} from '../../../utils/csvPackImport';
+
+export type CsvImportMode = 'merge' | 'new';
+
+interface CsvImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  canMerge: boolean;  // Current pack has rounds
+  onImport: (rounds: Round[], mode: CsvImportMode, sourceName: string) => void;
+}
+
+const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma ,' },
+  { value: ';', label: 'Semicolon ;' },
+  { value: '\t', label: 'Tab' }
+];
+
+const PREVIEW_QUESTIONS = 3;
+
+export const CsvImportModal = memo(({ isOpen, onClose, canMerge, onImport }: CsvImportModalProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [mode, setMode] = useState<CsvImportMode>('merge');
+
+  const table = useMemo(() => (content ? parseDelimited(content, delimiter) : { rows: [], rowNumbers: [] }), [content, delimiter]);
+  const columnCount = useMemo(() => Math.max(0, ...table.rows.map(r => r.length)), [table]);
+  const headers = useMemo(() => {
+    const first = table.rows[0] || [];
+    return Array.from({ length: columnCount }, (_, i) =>
+      hasHeader && first[i]?.trim() ? first[i].trim() : `Column ${i + 1}`);
+  }, [table, columnCount, hasHeader]);
+
+  const result = useMemo(() => {
+    const skip = hasHeader ? 1 : 0;
+    return buildRoundsFromRows(table.rows.slice(skip), mapping, table.rowNumbers.slice(skip));
+  }, [table, mapping, hasHeader]);
+
+  const missingRequired = CSV_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+  const handleFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = reader.result as string;
+      const detected = file.name.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(text);
+      const firstRow = parseDelimited(text, detected).rows[0] || [];
+      const guessed = guessColumnMapping(firstRow);
+      console.log('[CsvImport] Loaded', file.name, { delimiter: JSON.stringify(detected), columns: firstRow.length, guessed });
+
+      setFileName(file.name);
+      setContent(text);
+      setDelimiter(detected);
+      // No recognizable headers - probably data from the first row
+      setHasHeader(Object.keys(guessed).length > 0);
+      setMapping(guessed);
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const setFieldColumn = useCallback((field: CsvField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        const column = parseInt(value, 10);
+        // One column feeds one field
+        (Object.keys(next) as CsvField[]).forEach(f => { if (next[f] === column) delete next[f]; });
+        next[field] = column;
+      }
+      return next;
+    });
+  }, []);
+
+  const handleImport = useCallback(() => {
+    onImport(result.rounds, canMerge ? mode : 'new', fileName.replace(/\.(csv|tsv|txt)$/i, ''));
+    setContent('');
+    setFileName('');
+    onClose();
+  }, [result, mode, canMerge, fileName, onImport, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Import questions from spreadsheet" maxWidth="max-w-4xl">
+      <div className="space-y-4">
+        <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFile} className="hidden" />
+        <div className="flex items-center gap-3">
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" /> {fileName ? 'Choose another file' : 'Choose CSV / TSV file'}
+          </Button>
+          {fileName && <span className="text-sm text-gray-400 truncate">{fileName} · {table.rows.length} rows</span>}
+        </div>
+
+        {!content ? (
+          <p className="text-sm text-gray-500">
+            One row per question. Columns: round, theme, points, question, answer, options separated by "|",
+            number of the correct option (starting from 1), media URL. Header names are matched automatically.
+          </p>
+        ) : (
+          <>
+            {/* Format */}
+            <div className="flex items-center gap-4 text-sm">
+              <label className="flex items-center gap-2 text-gray-300">
+                Delimiter
+                <select
+                  value={delimiter}
+                  onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white"
+                >
+                  {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                First row is header
+              </label>
+            </div>
+
+            {/* Column mapping */}
+            <div className="grid grid-cols-4 gap-3">
+              {CSV_FIELDS.map(({ field, label, required }) => (
+                <label key={field} className="text-xs text-gray-400">
+                  {label}{required && <span className="text-red-400"> *</span>}
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setFieldColumn(field, e.target.value)}
+                    className="mt-1 w-full bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-sm text-white"
+                  >
+                    <option value="">— skip —</option>
+                    {headers.map((header, index) => <option key={index} value={index}>{header}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            {missingRequired.length > 0 ? (
+              <div className="flex items-center gap-2 text-yellow-400 text-sm">
+                <AlertCircle className="w-4 h-4" /> Map required columns: {missingRequired.map(f => f.label).join(', ')}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                {/* Preview tree */}
+                <div className="bg-gray-800/60 rounded-lg p-3 max-h-72 overflow-y-auto">
+                  <div className="flex items-center gap-2 text-green-400 text-sm font-semibold mb-2">
+                    <CheckCircle className="w-4 h-4" /> {result.questionCount} questions in {result.rounds.length} round{result.rounds.length === 1 ? '' : 's'}
+                  </div>
+                  {result.rounds.map(round => (
+                    <div key={round.id} className="mb-2">
+                      <div className="text-sm font-semibold text-white">{round.name}</div>
+                      {round.themes.map(theme => (
+                        <div key={theme.id} className="ml-3 mt-1">
+                          <div className="text-xs text-blue-300">{theme.name} ({theme.questions?.length || 0})</div>
+                          {theme.questions?.slice(0, PREVIEW_QUESTIONS).map(q => (
+                            <div key={q.id} className="ml-3 text-xs text-gray-400 truncate">
+                              {q.points ?? '—'} · {q.text || `[${q.media?.type}]`}{q.answerText ? ` → ${q.answerText}` : ''}
+                            </div>
+                          ))}
+                          {(theme.questions?.length || 0) > PREVIEW_QUESTIONS && (
+                            <div className="ml-3 text-xs text-gray-600">…and {(theme.questions?.length || 0) - PREVIEW_QUESTIONS} more</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+
+                {/* Row errors */}
+                <div className="bg-gray-800/60 rounded-lg p-3 max-h-72 overflow-y-auto">
+                  {result.errors.length === 0 ? (
+                    <div className="flex items-center gap-2 text-green-400 text-sm">
+                      <CheckCircle className="w-4 h-4" /> All rows are valid
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2 text-red-400 text-sm font-semibold mb-2">
+                        <AlertCircle className="w-4 h-4" /> {result.errors.length} problem{result.errors.length === 1 ? '' : 's'} - these rows are not imported
+                      </div>
+                      <ul className="space-y-0.5 text-xs">
+                        {result.errors.map((error, index) => (
+                          <li key={index} className="text-gray-300">
+                            <span className="text-gray-500">Row {error.row}:</span> {error.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Target */}
+            <div className="flex items-center justify-between pt-2 border-t border-gray-800">
+              <div className="flex gap-4 text-sm text-gray-300">
+                <label className={`flex items-center gap-2 ${canMerge ? '' : 'opacity-50'}`}>
+                  <input type="radio" checked={canMerge && mode === 'merge'} disabled={!canMerge} onChange={() => setMode('merge')} />
+                  Add to current pack
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={!canMerge || mode === 'new'} onChange={() => setMode('new')} />
+                  Create new pack
+                </label>
+              </div>
+              <div className="flex gap-3">
+                <Button variant="secondary" onClick={onClose}>Cancel</Button>
+                <Button onClick={handleImport} disabled={missingRequired.length > 0 || result.questionCount === 0}>
+                  Import {result.questionCount} questions
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </BaseModal>
+  );
+});
+
+CsvImportModal.displayName = 'CsvImportModal';
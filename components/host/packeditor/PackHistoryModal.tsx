@@ -0,0 +1,174 @@
+/**
+ * PackHistoryModal Component
+ * Revision timeline of a pack (snapshot on every save) with structural diff:
+ * "changes in this save" (vs previous revision) or "compare with current" (what restore would do).
+ * Restores a whole revision or a single question.
+ */
+
+import React, { memo, useState, useEffect, useMemo } from 'react';
+import { History, Plus, Minus, PenLine, RotateCcw } from 'lucide-react';
+import { BaseModal } from './Modals';
+import { Button } from '../../Button';
+import type { GamePack } from './types';
+import { packRevisionStorage, type PackRevision } from '../../../utils/media/PackRevisionStorage';
+import { diffPacks, summarizeDiff, type PackDiffEntry } from '../../../utils/packDiff';
+import { getLibraryPackStats } from '../../../utils/packLibrary';
+
+type DiffMode = 'save' | 'current';
+
+interface PackHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentPack: GamePack;
+  onRestoreRevision: (pack: GamePack) => void;
+  onRestoreQuestion: (source: GamePack, questionId: string) => void;
+}
+
+const EMPTY_PACK: GamePack = { id: '', name: '', rounds: [], createdAt: 0 };
+
+const CHANGE_STYLES: Record<PackDiffEntry['change'], { icon: React.ReactNode; className: string }> = {
+  added: { icon: <Plus className="w-3.5 h-3.5" />, className: 'text-green-400' },
+  removed: { icon: <Minus className="w-3.5 h-3.5" />, className: 'text-red-400' },
+  changed: { icon: <PenLine className="w-3.5 h-3.5" />, className: 'text-yellow-400' }
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const PackHistoryModal = memo(({ isOpen, onClose, currentPack, onRestoreRevision, onRestoreQuestion }: PackHistoryModalProps) => {
+  const [revisions, setRevisions] = useState<PackRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiffMode>('save');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    packRevisionStorage.list(currentPack.id).then(list => {
+      setRevisions(list);
+      setSelectedId(list[0]?.id ?? null);
+    });
+  }, [isOpen, currentPack.id]);
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = revisions[selectedIndex];
+
+  const diff = useMemo(() => {
+    if (!selected) return [];
+    if (mode === 'current') return diffPacks(currentPack, selected.pack);
+    return diffPacks(revisions[selectedIndex + 1]?.pack ?? EMPTY_PACK, selected.pack);
+  }, [selected, selectedIndex, revisions, mode, currentPack]);
+
+  const summary = summarizeDiff(diff);
+  // Question can be restored when the selected revision has it
+  const restorableIds = useMemo(() => {
+    const ids = new Set<string>();
+    selected?.pack.rounds.forEach(r => r.themes.forEach(t => t.questions?.forEach(q => ids.add(q.id))));
+    return ids;
+  }, [selected]);
+
+  if (!isOpen) return null;
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title="Pack History" maxWidth="max-w-4xl">
+      {revisions.length === 0 ? (
+        <div className="text-center text-gray-500 py-10">
+          <History className="w-8 h-8 mx-auto mb-3 text-gray-600" />
+          No revisions yet. A revision is stored every time you press "Save Pack".
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-4 h-[60vh]">
+          {/* Timeline */}
+          <div className="overflow-y-auto space-y-1 pr-1">
+            {revisions.map((revision, index) => {
+              const stats = getLibraryPackStats(revision.pack);
+              return (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                    revision.id === selectedId ? 'border-blue-500 bg-blue-500/10' : 'border-gray-800 hover:border-gray-600'
+                  }`}
+                >
+                  <div className="text-sm text-white">{formatTime(revision.savedAt)}</div>
+                  <div className="text-xs text-gray-500">
+                    {index === 0 ? 'Latest · ' : ''}{stats.roundCount} rounds · {stats.questionCount} questions
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Diff */}
+          <div className="col-span-2 flex flex-col min-h-0">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex gap-1 bg-gray-800 rounded-lg p-1 text-xs">
+                {([['save', 'Changes in this save'], ['current', 'Compare with current']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={`px-3 py-1 rounded-md ${mode === value ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="text-xs text-gray-400">
+                <span className="text-green-400">+{summary.added}</span>{' '}
+                <span className="text-red-400">−{summary.removed}</span>{' '}
+                <span className="text-yellow-400">~{summary.changed}</span>
+              </div>
+            </div>
+            {mode === 'current' && (
+              <p className="text-xs text-gray-500 mb-2">Shows what restoring this revision would change in the pack you are editing.</p>
+            )}
+
+            <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+              {diff.length === 0 ? (
+                <div className="text-sm text-gray-500 py-6 text-center">No differences</div>
+              ) : diff.map((entry, index) => (
+                <div key={`${entry.kind}-${entry.questionId ?? entry.themeId ?? entry.roundId ?? ''}-${index}`} className="bg-gray-800/60 rounded-lg p-2.5">
+                  <div className="flex items-center gap-2">
+                    <span className={CHANGE_STYLES[entry.change].className}>{CHANGE_STYLES[entry.change].icon}</span>
+                    <span className="text-[10px] uppercase tracking-wide text-gray-500">{entry.kind}</span>
+                    <span className="text-sm text-gray-200 truncate flex-1">{entry.label}</span>
+                    {entry.questionId && restorableIds.has(entry.questionId) && (
+                      <button
+                        onClick={() => onRestoreQuestion(selected.pack, entry.questionId!)}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded text-xs text-blue-300 hover:bg-blue-500/20"
+                        title="Put this question back as it was in the selected revision"
+                      >
+                        <RotateCcw className="w-3 h-3" /> Restore
+                      </button>
+                    )}
+                  </div>
+                  {entry.fields.length > 0 && (
+                    <div className="mt-1.5 ml-6 space-y-0.5 text-xs">
+                      {entry.fields.map(field => (
+                        <div key={field.field} className="grid grid-cols-[110px_1fr] gap-2">
+                          <span className="text-gray-500">{field.field}</span>
+                          <span className="break-words">
+                            <span className="text-red-300/80 line-through">{field.before}</span>
+                            {' → '}
+                            <span className="text-green-300">{field.after}</span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-3 pt-3 border-t border-gray-800 mt-3">
+              <Button variant="secondary" onClick={onClose}>Close</Button>
+              <Button onClick={() => selected && onRestoreRevision(selected.pack)} disabled={!selected}>
+                <RotateCcw className="w-4 h-4 mr-2" /> Restore this revision
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </BaseModal>
+  );
+});
+
+PackHistoryModal.displayName = 'PackHistoryModal';
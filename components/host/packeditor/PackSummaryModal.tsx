@@ -0,0 +1,93 @@
+/**
+ * PackSummaryModal Component
+ * Summary of pack import/export: counters and list of issues
+ * (features that could not be represented), grouped by message
+ */
+
+import React, { memo, useMemo } from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { BaseModal } from './Modals';
+import { Button } from '../../Button';
+
+export interface PackSummaryIssue {
+  message: string;
+  location?: string;
+}
+
+interface PackSummaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  stats: { label: string; value: number | string }[];
+  issues: PackSummaryIssue[];
+  onConfirm?: () => void;   // Shown as primary button (e.g. "Export anyway"), OK closes otherwise
+  confirmLabel?: string;
+}
+
+export const PackSummaryModal = memo(({ isOpen, onClose, title, stats, issues, onConfirm, confirmLabel = 'Continue' }: PackSummaryModalProps) => {
+  // Same message for many questions -> one row with locations
+  const groupedIssues = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    issues.forEach(issue => {
+      const locations = groups.get(issue.message) || [];
+      if (issue.location) locations.push(issue.location);
+      groups.set(issue.message, locations);
+    });
+    return Array.from(groups.entries());
+  }, [issues]);
+
+  if (!isOpen) return null;
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title={title} maxWidth="max-w-2xl">
+      <div className="space-y-4">
+        {stats.length > 0 && <div className="grid grid-cols-4 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="bg-gray-800 rounded-lg p-3 text-center">
+              <div className="text-2xl font-bold text-white">{stat.value}</div>
+              <div className="text-xs text-gray-400">{stat.label}</div>
+            </div>
+          ))}
+        </div>}
+
+        {groupedIssues.length === 0 ? (
+          <div className="flex items-center gap-2 text-green-400 text-sm">
+            <CheckCircle className="w-4 h-4" /> Everything was converted without losses
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-yellow-400 text-sm font-semibold">
+              <AlertTriangle className="w-4 h-4" /> {issues.length} issue{issues.length === 1 ? '' : 's'}
+            </div>
+            {groupedIssues.map(([message, locations]) => (
+              <details key={message} className="bg-gray-800/60 rounded-lg px-3 py-2 text-sm">
+                <summary className="cursor-pointer text-gray-200">
+                  {message}
+                  {locations.length > 0 && <span className="text-gray-500"> ×{locations.length}</span>}
+                </summary>
+                {locations.length > 0 && (
+                  <ul className="mt-2 ml-4 list-disc text-xs text-gray-400 space-y-0.5">
+                    {locations.map((location, index) => <li key={index}>{location}</li>)}
+                  </ul>
+                )}
+              </details>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          {onConfirm ? (
+            <>
+              <Button variant="secondary" onClick={onClose}>Cancel</Button>
+              <Button onClick={onConfirm}>{confirmLabel}</Button>
+            </>
+          ) : (
+            <Button onClick={onClose}>OK</Button>
+          )}
+        </div>
+      </div>
+    </BaseModal>
+  );
+});
+
+PackSummaryModal.displayName = 'PackSummaryModal';
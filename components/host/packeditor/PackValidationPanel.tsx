@@ -0,0 +1,131 @@
+/**
+ * PackValidationPanel Component
+ * Pack lint report: errors first, then warnings.
+ * Clicking an issue jumps to the round/theme/question in the editor.
+ */
+
+import React, { memo } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, ChevronRight } from 'lucide-react';
+import { BaseModal } from './Modals';
+import { Button } from '../../Button';
+import type { PackValidationIssue, PackValidationReport } from './packValidator';
+
+interface PackValidationPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title?: string;
+  report: PackValidationReport;
+  onSelectIssue?: (issue: PackValidationIssue) => void;
+  onConfirm?: () => void;   // "Use anyway" when shown before starting a game
+  confirmLabel?: string;
+}
+
+/** Compact badge with error/warning counts (pack lists, editor header); clickable when onClick is set */
+export const PackValidationBadge = memo(({ report, onClick }: { report: PackValidationReport; onClick?: () => void }) => {
+  if (report.errorCount === 0 && report.warningCount === 0) return null;
+
+  const counts = (
+    <>
+      {report.errorCount > 0 && (
+        <span className="flex items-center gap-0.5 text-red-400">
+          <AlertCircle className="w-3 h-3" /> {report.errorCount}
+        </span>
+      )}
+      {report.warningCount > 0 && (
+        <span className="flex items-center gap-0.5 text-yellow-400">
+          <AlertTriangle className="w-3 h-3" /> {report.warningCount}
+        </span>
+      )}
+    </>
+  );
+
+  // Rendered inside other buttons without onClick - nested <button> is invalid
+  if (!onClick) {
+    return <span className="flex items-center gap-1.5 text-xs font-semibold">{counts}</span>;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => { e.stopPropagation(); onClick(); }}
+      className="flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-gray-800 hover:bg-gray-700 text-xs font-semibold"
+      title="Show pack check report"
+    >
+      {counts}
+    </button>
+  );
+});
+
+PackValidationBadge.displayName = 'PackValidationBadge';
+
+export const PackValidationPanel = memo(({
+  isOpen,
+  onClose,
+  title = 'Pack check',
+  report,
+  onSelectIssue,
+  onConfirm,
+  confirmLabel = 'Continue'
+}: PackValidationPanelProps) => {
+  if (!isOpen) return null;
+
+  const sorted = [
+    ...report.issues.filter(i => i.severity === 'error'),
+    ...report.issues.filter(i => i.severity === 'warning')
+  ];
+
+  return (
+    <BaseModal isOpen={isOpen} onClose={onClose} title={title} maxWidth="max-w-2xl">
+      <div className="space-y-4">
+        <div className="flex items-center gap-4 text-sm">
+          <span className="flex items-center gap-1.5 text-red-400">
+            <AlertCircle className="w-4 h-4" /> {report.errorCount} error{report.errorCount === 1 ? '' : 's'}
+          </span>
+          <span className="flex items-center gap-1.5 text-yellow-400">
+            <AlertTriangle className="w-4 h-4" /> {report.warningCount} warning{report.warningCount === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        {sorted.length === 0 ? (
+          <div className="flex items-center gap-2 text-green-400 text-sm">
+            <CheckCircle className="w-4 h-4" /> No problems found
+          </div>
+        ) : (
+          <div className="space-y-1 max-h-[50vh] overflow-y-auto">
+            {sorted.map((issue, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => onSelectIssue?.(issue)}
+                disabled={!onSelectIssue}
+                className="w-full flex items-start gap-2 px-3 py-2 rounded-lg bg-gray-800/60 hover:bg-gray-800 text-left text-sm disabled:pointer-events-none"
+              >
+                {issue.severity === 'error'
+                  ? <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                  : <AlertTriangle className="w-4 h-4 text-yellow-400 flex-shrink-0 mt-0.5" />}
+                <div className="flex-1 min-w-0">
+                  <div className="text-gray-200">{issue.message}</div>
+                  <div className="text-xs text-gray-500 truncate">{issue.location}</div>
+                </div>
+                {onSelectIssue && <ChevronRight className="w-4 h-4 text-gray-600 flex-shrink-0 mt-0.5" />}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          {onConfirm ? (
+            <>
+              <Button variant="secondary" onClick={onClose}>Cancel</Button>
+              <Button onClick={onConfirm}>{confirmLabel}</Button>
+            </>
+          ) : (
+            <Button onClick={onClose}>OK</Button>
+          )}
+        </div>
+      </div>
+    </BaseModal>
+  );
+});
+
+PackValidationPanel.displayName = 'PackValidationPanel';
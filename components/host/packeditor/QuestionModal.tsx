@@ -6,10 +6,25 @@
 import React, { memo, useState, useCallback, useEffect } from 'react';
 import { Trash2, Plus } from 'lucide-react';
 import { BaseModal, FileUpload } from './Modals';
-import type { Question } from './types';
+import type { Question, QuestionKind, AnswerMatchMode } from './types';
 import type { LocalFileInfo } from './types';
 import { Button } from '../../Button';
 import { convertYouTubeToEmbed, createLocalFileInfo } from '../../../utils/mediaUtils';
+import { QUESTION_KIND_LABELS } from '../game/specialQuestions';
+
+const MATCH_MODES: { mode: AnswerMatchMode; label: string }[] = [
+  { mode: 'normalized', label: 'Ignore case / ё' },
+  { mode: 'exact', label: 'Exact' },
+  { mode: 'fuzzy', label: 'Allow typos' },
+  { mode: 'numeric', label: 'Number' }
+];
+
+const QUESTION_KINDS: { kind: QuestionKind; icon: string }[] = [
+  { kind: 'normal', icon: '❓' },
+  { kind: 'catInBag', icon: '🐱' },
+  { kind: 'auction', icon: '🔨' },
+  { kind: 'noRisk', icon: '🛡️' }
+];
 
 interface QuestionModalProps {
   isOpen: boolean;
@@ -25,6 +40,11 @@ export const QuestionModal = memo(({ isOpen, onClose, onSave, question }: Questi
   const [correctAnswer, setCorrectAnswer] = useState(question?.correctAnswer ?? 0);
   const [points, setPoints] = useState(question?.points ?? 100);
 
+  // Special question kind (cat in a bag has its own hidden theme and price)
+  const [questionKind, setQuestionKind] = useState<QuestionKind>(question?.questionKind || 'normal');
+  const [catTheme, setCatTheme] = useState(question?.catInBag?.theme || '');
+  const [catPoints, setCatPoints] = useState<number | ''>(question?.catInBag?.points ?? '');
+
   // Unified multimedia fields - handles all media types including images
   const [multimediaType, setMultimediaType] = useState<'image' | 'video' | 'audio' | 'youtube'>(
     question?.media?.type || 'image' // Default to 'image'
@@ -36,6 +56,10 @@ export const QuestionModal = memo(({ isOpen, onClose, onSave, question }: Questi
 
   // Answer fields
   const [answerText, setAnswerText] = useState(question?.answerText || '');
+  const [acceptedAnswers, setAcceptedAnswers] = useState((question?.acceptedAnswers || []).join('\n'));
+  const [matchMode, setMatchMode] = useState<AnswerMatchMode>(question?.answerMatch?.mode || 'normalized');
+  const [matchMaxDistance, setMatchMaxDistance] = useState<number | ''>(question?.answerMatch?.maxDistance ?? '');
+  const [matchTolerance, setMatchTolerance] = useState<number | ''>(question?.answerMatch?.numericTolerance ?? '');
   const [answerMediaUrl, setAnswerMediaUrl] = useState(question?.answerMedia?.url || '');
   const [answerMediaLocalFile, setAnswerMediaLocalFile] = useState<LocalFileInfo | undefined>(
     question?.answerMedia?.localFile
@@ -59,6 +83,9 @@ export const QuestionModal = memo(({ isOpen, onClose, onSave, question }: Questi
       setAnswers(question?.answers || ['', '', '', '']);
       setCorrectAnswer(question?.correctAnswer ?? 0);
       setPoints(question?.points ?? 100);
+      setQuestionKind(question?.questionKind || 'normal');
+      setCatTheme(question?.catInBag?.theme || '');
+      setCatPoints(question?.catInBag?.points ?? '');
 
       // Unified media handling - all types go through multimediaType
       const mediaType = question?.media?.type;
@@ -74,6 +101,10 @@ export const QuestionModal = memo(({ isOpen, onClose, onSave, question }: Questi
       }
 
       setAnswerText(question?.answerText || '');
+      setAcceptedAnswers((question?.acceptedAnswers || []).join('\n'));
+      setMatchMode(question?.answerMatch?.mode || 'normalized');
+      setMatchMaxDistance(question?.answerMatch?.maxDistance ?? '');
+      setMatchTolerance(question?.answerMatch?.numericTolerance ?? '');
       setAnswerMediaUrl(question?.answerMedia?.url || '');
       setAnswerMediaLocalFile(question?.answerMedia?.localFile);
 
@@ -116,6 +147,8 @@ export const QuestionModal = memo(({ isOpen, onClose, onSave, question }: Questi
       });
     }
 
+    const acceptedList = acceptedAnswers.split('\n').map(a => a.trim()).filter(Boolean);
+
     const saveData = {
       text,
       ...(hasAnswers ? {
@@ -123,9 +156,26 @@ export const QuestionModal = memo(({ isOpen, onClose, onSave, question }: Questi
         correctAnswer,
       } : {}),
       points,
+      // Always set - editor merges saved data into the old question, undefined clears the kind
+      questionKind: questionKind === 'normal' ? undefined : questionKind,
+      catInBag: questionKind === 'catInBag' && (catTheme.trim() || catPoints !== '')
+        ? {
+          ...(catTheme.trim() ? { theme: catTheme.trim() } : {}),
+          ...(catPoints !== '' ? { points: catPoints } : {})
+        }
+        : undefined,
       ...(mediaData ? { media: mediaData } : {}),
       // Save answer fields
       ...(answerText ? { answerText } : {}),
+      // Always set, like questionKind - undefined clears old variants/policy
+      acceptedAnswers: !hasAnswers && acceptedList.length > 0 ? acceptedList : undefined,
+      answerMatch: !hasAnswers && matchMode !== 'normalized'
+        ? {
+          mode: matchMode,
+          ...(matchMode === 'fuzzy' && matchMaxDistance !== '' ? { maxDistance: matchMaxDistance } : {}),
+          ...(matchMode === 'numeric' && matchTolerance !== '' ? { numericTolerance: matchTolerance } : {})
+        }
+        : undefined,
       ...(answerMediaUrl ? {
         answerMedia: {
           type: 'image',
@@ -155,7 +205,7 @@ export const QuestionModal = memo(({ isOpen, onClose, onSave, question }: Questi
     console.log('💾 Saving question data:', saveData);
     onSave(saveData);
     onClose();
-  }, [text, hasAnswers, answers, correctAnswer, points, multimediaType, multimediaUrl, multimediaLocalFile, answerText, answerMediaUrl, answerMediaLocalFile, hintText, hintHasAnswers, hintAnswers, hintCorrectAnswer, hintMediaUrl, hintMediaLocalFile, onSave, onClose]);
+  }, [text, hasAnswers, answers, correctAnswer, points, questionKind, catTheme, catPoints, multimediaType, multimediaUrl, multimediaLocalFile, answerText, acceptedAnswers, matchMode, matchMaxDistance, matchTolerance, answerMediaUrl, answerMediaLocalFile, hintText, hintHasAnswers, hintAnswers, hintCorrectAnswer, hintMediaUrl, hintMediaLocalFile, onSave, onClose]);
 
   if (!isOpen) return null;
 
@@ -186,6 +236,52 @@ export const QuestionModal = memo(({ isOpen, onClose, onSave, question }: Questi
           />
         </div>
 
+        {/* Question kind */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1.5">Question Type</label>
+          <div className="flex gap-2">
+            {QUESTION_KINDS.map(({ kind, icon }) => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => setQuestionKind(kind)}
+                className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  questionKind === kind
+                    ? (kind === 'normal' ? 'bg-blue-600 text-white' : 'bg-amber-600 text-white')
+                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {icon} {QUESTION_KIND_LABELS[kind]}
+              </button>
+            ))}
+          </div>
+          {questionKind === 'catInBag' && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <input
+                type="text"
+                value={catTheme}
+                onChange={(e) => setCatTheme(e.target.value)}
+                placeholder="Hidden theme (board theme if empty)"
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white text-sm focus:outline-none focus:border-amber-500"
+              />
+              <input
+                type="number"
+                min="0"
+                value={catPoints}
+                onChange={(e) => setCatPoints(e.target.value === '' ? '' : parseInt(e.target.value) || 0)}
+                placeholder="Cat price (board price if empty)"
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-4 py-2 text-white text-sm focus:outline-none focus:border-amber-500"
+              />
+            </div>
+          )}
+          {questionKind === 'auction' && (
+            <p className="text-xs text-gray-500 mt-2">Teams bid from the question price up to their score, the winner answers alone.</p>
+          )}
+          {questionKind === 'noRisk' && (
+            <p className="text-xs text-gray-500 mt-2">Correct answer earns double points, wrong answer costs nothing.</p>
+          )}
+        </div>
+
         {/* Unified Question Multimedia Section */}
         <div className="border-t border-gray-700 pt-4">
           <div className="flex items-center gap-2 mb-3">
@@ -353,6 +449,54 @@ export const QuestionModal = memo(({ isOpen, onClose, onSave, question }: Questi
                 rows={2}
                 className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-green-500 resize-none"
               />
+
+              {/* Typed answers (super game, quiz) - matcher suggestion for the host */}
+              <label className="block text-xs text-gray-400 mt-3 mb-1.5">Also accept (one per line)</label>
+              <textarea
+                value={acceptedAnswers}
+                onChange={(e) => setAcceptedAnswers(e.target.value)}
+                placeholder={'А. С. Пушкин\nAlexander Pushkin'}
+                rows={2}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-green-500 resize-none"
+              />
+              <div className="flex items-center gap-2 mt-2">
+                <span className="text-xs text-gray-400">Matching</span>
+                {MATCH_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setMatchMode(mode)}
+                    className={`px-2.5 py-1 rounded-lg text-xs transition-colors ${
+                      matchMode === mode ? 'bg-green-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {matchMode === 'fuzzy' && (
+                  <input
+                    type="number"
+                    min="0"
+                    value={matchMaxDistance}
+                    onChange={(e) => setMatchMaxDistance(e.target.value === '' ? '' : Math.max(0, parseInt(e.target.value) || 0))}
+                    placeholder="auto"
+                    title="Typos allowed (auto by answer length if empty)"
+                    className="w-20 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-xs focus:outline-none focus:border-green-500"
+                  />
+                )}
+                {matchMode === 'numeric' && (
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={matchTolerance}
+                    onChange={(e) => setMatchTolerance(e.target.value === '' ? '' : Math.max(0, parseFloat(e.target.value) || 0))}
+                    placeholder="± 0"
+                    title="Allowed difference from the correct number"
+                    className="w-20 bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-xs focus:outline-none focus:border-green-500"
+                  />
+                )}
+              </div>
             </div>
           )}
 
@@ -14,6 +14,15 @@ export { BaseModal, FileUpload } from './Modals';
 export { RoundModal } from './RoundModal';
 export { ThemeModal } from './ThemeModal';
 export { QuestionModal } from './QuestionModal';
+export { PackSummaryModal } from './PackSummaryModal';
+export type { PackSummaryIssue } from './PackSummaryModal';
+export { PackValidationPanel, PackValidationBadge } from './PackValidationPanel';
+export { CsvImportModal } from './CsvImportModal';
+export type { CsvImportMode } from './CsvImportModal';
+export { PackHistoryModal } from './PackHistoryModal';
+
+// Validation
+export * from './packValidator';
 
 // Main components
 export { PackManager } from './PackManager';
@@ -0,0 +1,108 @@
+/**
+ * Pack Validator Tests
+ * Тесты проверки пака перед игрой
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validatePack, mergePackReports } from './packValidator';
+import type { Round } from './types';
+
+const round = (overrides: Partial<Round> = {}): Round => ({
+  id: 'r1',
+  name: 'Round 1',
+  themes: [{
+    id: 't1',
+    name: 'History',
+    questions: [
+      { id: 'q1', text: 'First?', answerText: 'Yes', points: 100 },
+      { id: 'q2', text: 'Second?', answerText: 'No', points: 200 }
+    ]
+  }],
+  ...overrides
+});
+
+const codes = (rounds: Round[]) => validatePack({ rounds }).issues.map(i => i.code);
+
+describe('validatePack', () => {
+  it('should pass a valid pack', () => {
+    const report = validatePack({ rounds: [round()] });
+    expect(report.issues).toEqual([]);
+    expect(report.errorCount).toBe(0);
+  });
+
+  it('should report empty pack, empty theme and super round without questions', () => {
+    expect(codes([])).toEqual(['empty_pack']);
+    expect(codes([round({ themes: [{ id: 't', name: 'Empty', questions: [] }] })])).toEqual(['empty_theme']);
+    expect(codes([round({ type: 'super', themes: [{ id: 't', name: 'Final', questions: [] }] })])).toEqual(['super_round_empty']);
+  });
+
+  it('should report broken and missing media', () => {
+    const report = validatePack({
+      rounds: [round({
+        themes: [{
+          id: 't1',
+          name: 'Media',
+          questions: [
+            { id: 'q1', text: 'A', answerText: 'a', points: 100, media: { type: 'image', url: 'blob:x' } },
+            { id: 'q2', text: 'B', answerText: 'b', points: 200, media: { type: 'audio', url: 'media://media/a.mp3' } },
+            {
+              id: 'q3', text: 'C', answerText: 'c', points: 300,
+              media: { type: 'video', url: 'blob:y', localFile: { fileName: 'v.mp4', fileSize: 1, fileType: 'video/mp4', lastModified: 0, mediaId: 'm1' } }
+            }
+          ]
+        }]
+      })]
+    }, { missingMediaIds: new Set(['m1']) });
+
+    expect(report.issues.map(i => [i.questionId, i.code])).toEqual([
+      ['q1', 'broken_media'],
+      ['q2', 'broken_media'],
+      ['q3', 'missing_stored_media']
+    ]);
+    expect(report.issues[0]).toMatchObject({ roundId: 'r1', themeId: 't1', location: 'Round 1 / Media / 100' });
+  });
+
+  it('should report correct answer out of range and missing answer', () => {
+    expect(codes([round({
+      themes: [{
+        id: 't1',
+        name: 'Choice',
+        questions: [
+          { id: 'q1', text: 'Pick', answers: ['a', 'b'], correctAnswer: 2, points: 100 },
+          { id: 'q2', text: 'No answer', points: 200 }
+        ]
+      }]
+    })])).toEqual(['correct_answer_out_of_range', 'missing_answer']);
+  });
+
+  it('should warn about duplicate points, long reading time and oversized media', () => {
+    const report = validatePack({
+      rounds: [round({
+        readingTimePerLetter: 0.1,
+        themes: [{
+          id: 't1',
+          name: 'Warnings',
+          questions: [
+            { id: 'q1', text: 'x'.repeat(400), answerText: 'a', points: 100 },
+            {
+              id: 'q2', text: 'B', answerText: 'b', points: 100,
+              media: { type: 'image', url: 'blob:z', localFile: { fileName: 'big.png', fileSize: 50 * 1024 * 1024, fileType: 'image/png', lastModified: 0, mediaId: 'm2' } }
+            }
+          ]
+        }]
+      })]
+    });
+
+    expect(report.issues.map(i => i.code)).toEqual(['duplicate_points', 'long_reading_time', 'oversized_media']);
+    expect(report.errorCount).toBe(0);
+    expect(report.warningCount).toBe(3);
+  });
+});
+
+describe('mergePackReports', () => {
+  it('should prefix locations with pack name and keep pack id', () => {
+    const report = mergePackReports([{ packId: 'p1', packName: 'Pack', report: validatePack({ rounds: [] }) }]);
+    expect(report.issues[0]).toMatchObject({ packId: 'p1', location: 'Pack / Pack' });
+    expect(report.errorCount).toBe(1);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Pack Validator
+ * Lint report for a pack before the game: errors break the game mid-session,
+ * warnings are likely mistakes. Each issue points to round/theme/question
+ * so the editor can jump to it.
+ */
+
+import type { Round, Question, LocalFileInfo } from './types';
+import { DEFAULT_TIMER_SETTINGS } from './types';
+import { mediaStorage } from '../../../utils/media';
+
+export type PackIssueSeverity = 'error' | 'warning';
+
+export type PackIssueCode =
+  | 'empty_pack'
+  | 'broken_media'
+  | 'missing_stored_media'
+  | 'correct_answer_out_of_range'
+  | 'super_round_empty'
+  | 'empty_round'
+  | 'empty_theme'
+  | 'empty_question'
+  | 'missing_answer'
+  | 'duplicate_points'
+  | 'long_reading_time'
+  | 'oversized_media';
+
+export interface PackValidationIssue {
+  severity: PackIssueSeverity;
+  code: PackIssueCode;
+  message: string;
+  location: string;     // "Round 1 / Theme / 100"
+  roundId?: string;
+  themeId?: string;
+  questionId?: string;
+  packId?: string;      // Set when several packs are checked together (game selector)
+}
+
+export interface PackValidationReport {
+  issues: PackValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface PackValidationOptions {
+  missingMediaIds?: Set<string>;  // From findMissingPackMedia (IndexedDB check)
+  maxReadingSeconds?: number;
+  maxMediaBytes?: number;
+}
+
+/** Reading timer longer than this is tiring for players */
+export const MAX_READING_SECONDS = 30;
+/** Media larger than this is slow to transfer to demo screen over P2P */
+export const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+
+type MediaSlot = { type: string; url?: string; localFile?: LocalFileInfo } | undefined;
+
+const questionMediaSlots = (question: Question): { label: string; media: MediaSlot }[] => [
+  { label: 'Question media', media: question.media },
+  { label: 'Answer media', media: question.answerMedia },
+  { label: 'Hint media', media: question.hint?.media }
+];
+
+/**
+ * Validate pack structure (synchronous)
+ * Pass missingMediaIds to also report media files missing from IndexedDB
+ */
+export function validatePack(pack: { rounds?: Round[] }, options: PackValidationOptions = {}): PackValidationReport {
+  const {
+    missingMediaIds,
+    maxReadingSeconds = MAX_READING_SECONDS,
+    maxMediaBytes = MAX_MEDIA_BYTES
+  } = options;
+  const issues: PackValidationIssue[] = [];
+  const rounds = pack.rounds || [];
+
+  if (rounds.length === 0) {
+    issues.push({ severity: 'error', code: 'empty_pack', message: 'Pack has no rounds', location: 'Pack' });
+  }
+
+  rounds.forEach((round, roundIndex) => {
+    const roundName = round.name || `Round ${round.number ?? roundIndex + 1}`;
+    const isSuper = round.type === 'super';
+    const roundRef = { location: roundName, roundId: round.id };
+
+    const questionTotal = round.themes.reduce((sum, t) => sum + (t.questions?.length || 0), 0);
+    if (isSuper && questionTotal === 0) {
+      issues.push({ severity: 'error', code: 'super_round_empty', message: 'Super round has no questions', ...roundRef });
+    } else if (round.themes.length === 0) {
+      issues.push({ severity: 'warning', code: 'empty_round', message: 'Round has no themes', ...roundRef });
+    }
+
+    const readingTimePerLetter = round.readingTimePerLetter ?? DEFAULT_TIMER_SETTINGS.readingTimePerLetter;
+
+    round.themes.forEach(theme => {
+      const themeRef = { location: `${roundName} / ${theme.name}`, roundId: round.id, themeId: theme.id };
+      const questions = theme.questions || [];
+
+      if (questions.length === 0) {
+        // Super round themes without question are only a problem if the whole round is empty (reported above)
+        if (!isSuper) {
+          issues.push({ severity: 'warning', code: 'empty_theme', message: 'Theme has no questions', ...themeRef });
+        }
+        return;
+      }
+
+      // Duplicate prices make the board ambiguous (super round has bets instead)
+      if (!isSuper) {
+        const seen = new Set<number>();
+        const duplicates = new Set<number>();
+        questions.forEach(q => {
+          const points = q.points ?? 100;
+          if (seen.has(points)) duplicates.add(points);
+          seen.add(points);
+        });
+        if (duplicates.size > 0) {
+          issues.push({
+            severity: 'warning',
+            code: 'duplicate_points',
+            message: `Duplicate point values: ${Array.from(duplicates).join(', ')}`,
+            ...themeRef
+          });
+        }
+      }
+
+      questions.forEach((question, questionIndex) => {
+        const questionRef = {
+          location: `${roundName} / ${theme.name} / ${question.points ?? `Q${questionIndex + 1}`}`,
+          roundId: round.id,
+          themeId: theme.id,
+          questionId: question.id
+        };
+        const add = (severity: PackIssueSeverity, code: PackIssueCode, message: string) =>
+          issues.push({ severity, code, message, ...questionRef });
+
+        // Media references
+        questionMediaSlots(question).forEach(({ label, media }) => {
+          if (!media || (media.type === 'youtube' && media.url)) return;
+          const url = media.url || '';
+          if (!url && !media.localFile) {
+            add('error', 'broken_media', `${label} has no file or URL`);
+          } else if (url.startsWith('media://')) {
+            add('error', 'broken_media', `${label} points to an archive path that was not restored`);
+          } else if (url.startsWith('blob:') && !media.localFile?.mediaId) {
+            add('error', 'broken_media', `${label} is a local file that is not stored - it will be lost after reload`);
+          } else if (media.localFile?.mediaId && missingMediaIds?.has(media.localFile.mediaId)) {
+            add('error', 'missing_stored_media', `${label} file "${media.localFile.fileName}" is missing from storage`);
+          }
+
+          if (media.localFile && media.localFile.fileSize > maxMediaBytes) {
+            const sizeMb = (media.localFile.fileSize / 1024 / 1024).toFixed(1);
+            add('warning', 'oversized_media', `${label} is ${sizeMb} MB - slow to transfer to the screen`);
+          }
+        });
+
+        // Multiple choice
+        const outOfRange = (answers: string[] | undefined, correct: number | undefined) =>
+          !!answers?.length && correct !== undefined && (correct < 0 || correct >= answers.length);
+        if (outOfRange(question.answers, question.correctAnswer)) {
+          add('error', 'correct_answer_out_of_range', `Correct answer #${(question.correctAnswer ?? 0) + 1} is out of ${question.answers!.length} options`);
+        }
+        if (outOfRange(question.hint?.answers, question.hint?.correctAnswer)) {
+          add('error', 'correct_answer_out_of_range', 'Hint correct answer is out of range');
+        }
+
+        if (!question.text?.trim() && !question.media) {
+          add('warning', 'empty_question', 'Question has no text or media');
+        }
+
+        const hasAnswer = !!question.answerText?.trim() ||
+          !!question.answerMedia ||
+          (!!question.answers?.length && question.correctAnswer !== undefined);
+        if (!hasAnswer) {
+          add('warning', 'missing_answer', 'Question has no answer');
+        }
+
+        const readingSeconds = (question.text?.length || 0) * readingTimePerLetter;
+        if (readingSeconds > maxReadingSeconds) {
+          add('warning', 'long_reading_time', `Reading timer will take ${Math.round(readingSeconds)}s (${question.text.length} characters)`);
+        }
+      });
+    });
+  });
+
+  return {
+    issues,
+    errorCount: issues.filter(i => i.severity === 'error').length,
+    warningCount: issues.filter(i => i.severity === 'warning').length
+  };
+}
+
+/**
+ * Media IDs referenced by pack that are not in IndexedDB
+ */
+export async function findMissingPackMedia(pack: { rounds?: Round[] }): Promise<Set<string>> {
+  const mediaIds: string[] = [];
+  (pack.rounds || []).forEach(round => round.themes.forEach(theme => theme.questions?.forEach(question => {
+    questionMediaSlots(question).forEach(({ media }) => {
+      if (media?.localFile?.mediaId) mediaIds.push(media.localFile.mediaId);
+    });
+  })));
+  return mediaStorage.findMissing(mediaIds);
+}
+
+/**
+ * Combined report for several packs - locations are prefixed with pack name
+ */
+export function mergePackReports(entries: { packId: string; packName: string; report: PackValidationReport }[]): PackValidationReport {
+  const issues = entries.flatMap(({ packId, packName, report }) =>
+    report.issues.map(issue => ({ ...issue, packId, location: `${packName} / ${issue.location}` }))
+  );
+  return {
+    issues,
+    errorCount: issues.filter(i => i.severity === 'error').length,
+    warningCount: issues.filter(i => i.severity === 'warning').length
+  };
+}
@@ -72,12 +72,42 @@ export interface QuestionHint {
   correctAnswer?: number; // Index of correct answer in hint answers
 }
 
+/**
+ * Special board questions (Own Game):
+ * - catInBag: host hands the question to a team, hidden theme/price are revealed
+ * - auction: teams bid from phones, highest bid answers alone for the bid
+ * - noRisk: no penalty for wrong answer, doubled reward
+ */
+export type QuestionKind = 'normal' | 'catInBag' | 'auction' | 'noRisk';
+
+export interface CatInBagSettings {
+  theme?: string;   // Hidden theme shown on reveal (board theme if empty)
+  points?: number;  // Real price (board price if empty)
+}
+
+/**
+ * How typed answers are compared with accepted variants
+ * - exact: same text (only surrounding spaces ignored)
+ * - normalized: case, ё/е, diacritics and punctuation ignored (default)
+ * - fuzzy: normalized + up to maxDistance typos (Levenshtein, auto by length when absent)
+ * - numeric: numbers within numericTolerance of the correct value
+ */
+export type AnswerMatchMode = 'exact' | 'normalized' | 'fuzzy' | 'numeric';
+
+export interface AnswerMatchPolicy {
+  mode: AnswerMatchMode;
+  maxDistance?: number;       // fuzzy: allowed typos
+  numericTolerance?: number;  // numeric: allowed absolute difference
+}
+
 export interface Question {
   id: string;
   text: string;
   answers?: string[];
   correctAnswer?: number;
   answerText?: string; // Text of the correct answer (for non-multiple choice)
+  acceptedAnswers?: string[]; // Other answers counted as correct (for typed answers)
+  answerMatch?: AnswerMatchPolicy; // 'normalized' when absent
   answerMedia?: { // Media for the answer
     type: 'image' | 'video' | 'audio' | 'youtube';
     url?: string;
@@ -92,6 +122,8 @@ export interface Question {
   };
   points?: number;
   timeLimit?: number; // individual question time limit
+  questionKind?: QuestionKind; // 'normal' when absent
+  catInBag?: CatInBagSettings; // Only for questionKind 'catInBag'
 }
 
 // Add YouTube type to media types
@@ -63,7 +63,7 @@ export const AlertDialog: React.FC<AlertDialogProps> = ({
           <h3 className="text-lg font-semibold text-white mb-2">
             {title}
           </h3>
-          <p className="text-gray-300 text-sm mb-4">
+          <p className="text-gray-300 text-sm mb-4 whitespace-pre-line">
             {message}
           </p>
 
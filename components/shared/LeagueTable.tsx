@@ -0,0 +1,53 @@
+/**
+ * LeagueTable Component
+ * Season standings: place, team, games, wins, league points.
+ * Used by the host league modal and as a full-screen table on the demo screen.
+ */
+
+import React, { memo } from 'react';
+import type { LeagueTableRow } from '../../types';
+
+interface LeagueTableProps {
+  rows: LeagueTableRow[];
+  size?: 'normal' | 'large';  // large - demo screen
+}
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+export const LeagueTable = memo(({ rows, size = 'normal' }: LeagueTableProps) => {
+  const large = size === 'large';
+  const cell = large ? 'px-6 py-4' : 'px-3 py-2';
+
+  if (rows.length === 0) {
+    return <div className={`text-center text-gray-500 ${large ? 'text-2xl py-12' : 'text-sm py-6'}`}>No teams in this season</div>;
+  }
+
+  return (
+    <table className={`w-full ${large ? 'text-3xl' : 'text-sm'}`}>
+      <thead>
+        <tr className={`text-gray-500 border-b border-gray-800 ${large ? 'text-xl' : 'text-xs'} uppercase tracking-wide`}>
+          <th className={`${cell} text-left w-16`}>#</th>
+          <th className={`${cell} text-left`}>Team</th>
+          <th className={`${cell} text-right`}>Games</th>
+          <th className={`${cell} text-right`}>Wins</th>
+          <th className={`${cell} text-right`}>Points</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, index) => (
+          <tr key={`${row.teamName}-${index}`} className={`border-b border-gray-800/60 ${row.rank === 1 && row.gamesPlayed > 0 ? 'bg-yellow-500/10' : ''}`}>
+            <td className={`${cell} font-bold text-gray-400`}>
+              {row.gamesPlayed > 0 && MEDALS[row.rank - 1] ? MEDALS[row.rank - 1] : row.rank}
+            </td>
+            <td className={`${cell} font-semibold text-white`}>{row.teamName}</td>
+            <td className={`${cell} text-right text-gray-400`}>{row.gamesPlayed}</td>
+            <td className={`${cell} text-right text-gray-400`}>{row.wins}</td>
+            <td className={`${cell} text-right font-bold text-yellow-400`}>{row.points}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+});
+
+LeagueTable.displayName = 'LeagueTable';
@@ -23,3 +23,6 @@ export { PerformanceMonitor } from './PerformanceMonitor';
 // Draggable QR Code component
 export { DraggableQRCode } from './DraggableQRCode';
 export type { DraggableQRCodeProps } from './DraggableQRCode';
+
+// League standings table (host + demo screen)
+export { LeagueTable } from './LeagueTable';
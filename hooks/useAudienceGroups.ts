@@ -0,0 +1,73 @@
+/**
+ * useAudienceGroups Hook
+ *
+ * Audience groups from IndexedDB plus the active group (remembered in localStorage).
+ * Used by game selector and pack editor to show which questions the group has seen.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { storage, STORAGE_KEYS } from './useLocalStorage';
+import { audienceGroupStorage } from '../utils/media/AudienceGroupStorage';
+import { createAudienceGroup, type AudienceGroup } from '../utils/audienceGroups';
+
+export function useAudienceGroups(enabled: boolean = true) {
+  const [groups, setGroups] = useState<AudienceGroup[]>([]);
+  const [activeGroupId, setActiveGroupIdState] = useState<string | null>(
+    () => storage.get<string>(STORAGE_KEYS.ACTIVE_AUDIENCE_GROUP)
+  );
+
+  const reload = useCallback(async () => {
+    setGroups(await audienceGroupStorage.list());
+  }, []);
+
+  // Reload on open - the game records played questions in the background
+  useEffect(() => {
+    if (enabled) reload();
+  }, [enabled, reload]);
+
+  const setActiveGroupId = useCallback((groupId: string | null) => {
+    setActiveGroupIdState(groupId);
+    if (groupId) {
+      storage.set(STORAGE_KEYS.ACTIVE_AUDIENCE_GROUP, groupId);
+    } else {
+      storage.remove(STORAGE_KEYS.ACTIVE_AUDIENCE_GROUP);
+    }
+  }, []);
+
+  const createGroup = useCallback(async (name: string) => {
+    const group = createAudienceGroup(name);
+    await audienceGroupStorage.save(group);
+    await reload();
+    setActiveGroupId(group.id);
+    console.log('[AudienceGroups] Created group:', group.name);
+  }, [reload, setActiveGroupId]);
+
+  const deleteGroup = useCallback(async (groupId: string) => {
+    await audienceGroupStorage.delete(groupId);
+    if (groupId === activeGroupId) setActiveGroupId(null);
+    await reload();
+  }, [activeGroupId, reload, setActiveGroupId]);
+
+  /** Forget played questions (group starts from scratch) */
+  const resetGroup = useCallback(async (groupId: string) => {
+    const group = groups.find(g => g.id === groupId);
+    if (!group) return;
+    await audienceGroupStorage.save({ ...group, playedQuestionIds: [], lastPlayedAt: undefined });
+    await reload();
+  }, [groups, reload]);
+
+  const activeGroup = useMemo(() => groups.find(g => g.id === activeGroupId) || null, [groups, activeGroupId]);
+  const playedQuestionIds = useMemo(() => new Set(activeGroup?.playedQuestionIds || []), [activeGroup]);
+
+  return {
+    groups,
+    activeGroup,
+    activeGroupId: activeGroup?.id ?? null,
+    playedQuestionIds,
+    setActiveGroupId,
+    createGroup,
+    deleteGroup,
+    resetGroup,
+    reload
+  };
+}
@@ -50,7 +50,10 @@ export function useDemoScreenMedia() {
   const processMediaMessage = useCallback((message: P2PSMessage) => {
     const payload = message.payload;
 
-    if (message.type === 'MEDIA_TRANSFER' || message.payload?.type === 'MEDIA_TRANSFER') {
+    if ((message.type === 'MEDIA_TRANSFER' && payload?.hash) || message.type === 'MEDIA_INVENTORY_QUERY') {
+      // Local files of the host by content hash - stored in IndexedDB, bytes come as MEDIA_CHUNKs
+      demoScreenMediaHandler.handleMediaMessage(message);
+    } else if (message.type === 'MEDIA_TRANSFER' || message.payload?.type === 'MEDIA_TRANSFER') {
       const mediaPayload = message.payload?.type === 'MEDIA_TRANSFER' ? message.payload : payload;
 
       console.log('[useDemoScreenMedia] Processing media transfer:', mediaPayload);
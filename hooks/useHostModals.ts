@@ -7,6 +7,7 @@
 
 import { useState, useCallback } from 'react';
 import type { GameType, GamePack } from '../components/host/OptimizedGameSelectorModal';
+import { EMPTY_PLAYLIST, type SessionPlaylist } from '../utils/sessionPlaylist';
 
 export interface ConfirmDialogState {
   isOpen: boolean;
@@ -25,6 +26,7 @@ export function useHostModals(onGameSelected?: () => void) {
   const [selectedGame, setSelectedGame] = useState<GameType>('custom');
   const [selectedPacks, setSelectedPacks] = useState<GamePack[]>([]);
   const [selectedPackIds, setSelectedPackIds] = useState<string[]>([]);
+  const [selectedPlaylist, setSelectedPlaylist] = useState<SessionPlaylist>(EMPTY_PLAYLIST);
 
   // Confirm dialog state
   const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogState>({
@@ -43,10 +45,11 @@ export function useHostModals(onGameSelected?: () => void) {
   const openGameSelector = useCallback(() => setShowGameSelector(true), []);
   const closeGameSelector = useCallback(() => setShowGameSelector(false), []);
 
-  const handleSaveGameSelection = useCallback((gameType: GameType, packIds: string[], packs: GamePack[]) => {
+  const handleSaveGameSelection = useCallback((gameType: GameType, packIds: string[], packs: GamePack[], playlist: SessionPlaylist) => {
     setSelectedGame(gameType);
     setSelectedPackIds(packIds);
     setSelectedPacks(packs);
+    setSelectedPlaylist(playlist);
     // Notify parent that game was selected (session should start)
     if (onGameSelected) {
       onGameSelected();
@@ -91,6 +94,7 @@ export function useHostModals(onGameSelected?: () => void) {
     selectedGame,
     selectedPacks,
     selectedPackIds,
+    selectedPlaylist,
     handleSaveGameSelection,
 
     // Confirm dialog
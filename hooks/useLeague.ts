@@ -0,0 +1,128 @@
+/**
+ * useLeague Hook
+ *
+ * League seasons from IndexedDB plus the active season (remembered in localStorage).
+ * HostView records finished games into the active season; LeagueModal edits seasons.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { storage, STORAGE_KEYS } from './useLocalStorage';
+import { leagueStorage } from '../utils/media/LeagueStorage';
+import {
+  createSeason as buildSeason,
+  recordSeasonGame,
+  computeStandings,
+  seasonsToJSON,
+  parseSeasonsJSON,
+  type Season,
+  type LeagueTeam
+} from '../utils/league';
+
+export function useLeague() {
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [activeSeasonId, setActiveSeasonIdState] = useState<string | null>(
+    () => storage.get<string>(STORAGE_KEYS.ACTIVE_SEASON)
+  );
+
+  const reload = useCallback(async () => {
+    setSeasons(await leagueStorage.list());
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const setActiveSeasonId = useCallback((seasonId: string | null) => {
+    setActiveSeasonIdState(seasonId);
+    if (seasonId) {
+      storage.set(STORAGE_KEYS.ACTIVE_SEASON, seasonId);
+    } else {
+      storage.remove(STORAGE_KEYS.ACTIVE_SEASON);
+    }
+  }, []);
+
+  const createSeason = useCallback(async (name: string, teams: LeagueTeam[]) => {
+    const season = buildSeason(name, teams);
+    await leagueStorage.save(season);
+    await reload();
+    setActiveSeasonId(season.id);
+    console.log('[League] Created season:', season.name, 'teams:', teams.length);
+  }, [reload, setActiveSeasonId]);
+
+  const updateSeason = useCallback(async (season: Season) => {
+    setSeasons(prev => prev.map(s => s.id === season.id ? season : s));
+    await leagueStorage.save(season);
+  }, []);
+
+  const deleteSeason = useCallback(async (seasonId: string) => {
+    await leagueStorage.delete(seasonId);
+    if (seasonId === activeSeasonId) setActiveSeasonId(null);
+    await reload();
+  }, [activeSeasonId, reload, setActiveSeasonId]);
+
+  /**
+   * Record final scores into the active season (game id = session version, recorded once)
+   */
+  const recordGame = useCallback(async (gameId: string, finalScores: { teamId: string; teamName: string; score: number }[], title?: string) => {
+    if (!activeSeasonId) return;
+    try {
+      const season = await leagueStorage.get(activeSeasonId);
+      if (!season) return;
+      const updated = recordSeasonGame(season, gameId, finalScores, Date.now(), title);
+      if (updated === season) {
+        console.log('[League] No season teams in finished game, nothing recorded');
+        return;
+      }
+      await leagueStorage.save(updated);
+      setSeasons(prev => prev.map(s => s.id === updated.id ? updated : s));
+      console.log('[League] 🏆 Recorded game into season:', updated.name, gameId);
+    } catch (error) {
+      console.error('❌ League: failed to record game:', error);
+    }
+  }, [activeSeasonId]);
+
+  /**
+   * Import seasons from exported JSON - seasons with the same id are replaced
+   * @throws LeagueImportError when the file is invalid
+   */
+  const importSeasons = useCallback(async (text: string): Promise<number> => {
+    const imported = parseSeasonsJSON(text);
+    for (const season of imported) {
+      await leagueStorage.save(season);
+    }
+    await reload();
+    if (!activeSeasonId && imported.length > 0) setActiveSeasonId(imported[0].id);
+    return imported.length;
+  }, [activeSeasonId, reload, setActiveSeasonId]);
+
+  const exportSeasons = useCallback((seasonIds?: string[]) => {
+    const selected = seasonIds ? seasons.filter(s => seasonIds.includes(s.id)) : seasons;
+    const blob = new Blob([seasonsToJSON(selected)], { type: 'application/json;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = selected.length === 1
+      ? `league-${selected[0].name || 'season'}.json`
+      : `league-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [seasons]);
+
+  const activeSeason = useMemo(() => seasons.find(s => s.id === activeSeasonId) || null, [seasons, activeSeasonId]);
+  const standings = useMemo(() => activeSeason ? computeStandings(activeSeason) : [], [activeSeason]);
+
+  return {
+    seasons,
+    activeSeason,
+    activeSeasonId: activeSeason?.id ?? null,
+    standings,
+    setActiveSeasonId,
+    createSeason,
+    updateSeason,
+    deleteSeason,
+    recordGame,
+    importSeasons,
+    exportSeasons,
+    reload
+  };
+}
@@ -16,6 +16,9 @@ export const STORAGE_KEYS = {
   QR_URL: 'ilan_qr_url',
   SESSION_SETTINGS: 'ilan_session_settings',
   SESSION_VERSION: 'ilan_session_version',
+  ACTIVE_AUDIENCE_GROUP: 'ilan_active_audience_group', // Group whose played questions are recorded
+  ACTIVE_SEASON: 'ilan_active_season', // League season that records finished games
+  SIGNALLING_ROOM: 'ilan_signalling_room', // Room code + host token on the LAN signalling server
 
   // Client keys - base prefixes (actual keys are generated with hostId)
   USER_NAME: 'ilan_username',
@@ -31,6 +34,7 @@ export const STORAGE_KEYS = {
   CLIENT_ID: 'ilan_client_id',
   MODERATOR_ID: 'ilan_moderator_id',
   SCREEN_ID: 'ilan_screen_id',
+  ROOM_MEMBERSHIP: 'ilan_room_membership', // Peer ID + token issued by the room (suffixed with client ID)
   CURRENT_SCREEN: 'ilan_current_screen',
   // Super Game state for reconnection
   SUPER_GAME_PHASE: 'ilan_super_game_phase',
@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useCallback, useState } from 'react';
-import { Peer, DataConnection } from 'peerjs';
+import { Peer } from 'peerjs';
 import {
   P2PConfig,
   P2PSMessage,
@@ -12,8 +12,17 @@ import {
   MessageCategory
 } from '../types';
 import { generateUUID, getSignallingServer } from '../utils';
+import { joinRoom, RoomError, type RoomMembership, type RoomErrorReason } from '../utils/signallingRooms';
+import { WebRTCConnection, RelayFallback, connectRelay, getRelayUrl, type GameConnection } from '../utils/p2p';
+import { storage, STORAGE_KEYS } from './useLocalStorage';
 import { getGlobalQualityMonitor, QualityReport, AdaptiveRecommendation } from '../utils/connectionQualityMonitor';
 
+// Number of extra pings sent after connecting to get a reliable clock offset quickly
+const CLOCK_SYNC_BURST_SIZE = 4;
+
+// Data channel not open after this long counts as a failed WebRTC attempt (RelayFallback)
+const ICE_CONNECT_TIMEOUT = 10000;
+
 // Connection state enum (exported for use in callbacks)
 export enum ClientConnectionState {
   DISCONNECTED = 'disconnected',
@@ -34,7 +43,8 @@ export interface P2PClientResult {
   connect: () => void;
   disconnect: () => void;
   send: (message: Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>) => boolean;
-  connectionRef: React.MutableRefObject<DataConnection | null>;
+  connectionRef: React.MutableRefObject<GameConnection | null>;
+  roomError: RoomErrorReason | null;
   qualityReport: QualityReport | null;
   getQualityReport: () => QualityReport;
   getAdaptiveRecommendations: () => AdaptiveRecommendation[];
@@ -127,9 +137,11 @@ interface P2PClientConfig {
   hostId: string;
   isLanMode?: boolean;
   signallingUrl?: string;
+  allowPublicServer?: boolean;   // Public PeerJS server when there is no LAN one (Internet mode links)
   persistentClientId?: string;  // Stored client ID for reconnection
   currentTeamId?: string;        // Current team ID (if any)
   isModerator?: boolean;         // Special flag for moderator connection
+  roomCode?: string;             // LAN room join code - host ID and our peer ID come from the signalling server
   onMessage?: (message: P2PSMessage) => void;
   onConnectionChange?: (state: ClientConnectionState, quality: ConnectionQuality) => void;
   onError?: (error: Error) => void;
@@ -137,12 +149,22 @@ interface P2PClientConfig {
 
 /**
  * P2P Client Hook - manages WebRTC connection to host
- * Handles automatic reconnection and connection quality monitoring
+ * Handles automatic reconnection and connection quality monitoring.
+ * In a LAN room falls back to the signalling server's WebSocket relay
+ * when the WebRTC data channel keeps failing (client isolation, captive portals).
  */
 export const useP2PClient = (config: P2PClientConfig) => {
   const peerRef = useRef<Peer | null>(null);
-  const connectionRef = useRef<DataConnection | null>(null);
+  const connectionRef = useRef<GameConnection | null>(null);
+  // Our peer ID (PeerJS ID, or room peer ID on the relay)
+  const selfIdRef = useRef('');
+  // Failed WebRTC attempts on this page - relay is used from ICE_FAILURES_BEFORE_RELAY on
+  const relayFallbackRef = useRef(new RelayFallback());
   const [connectionState, setConnectionState] = useState<ClientConnectionState>(ClientConnectionState.DISCONNECTED);
+  // Room join rejected by the signalling server (unknown code, locked room...)
+  const [roomError, setRoomError] = useState<RoomErrorReason | null>(null);
+  // Incremented by connect/disconnect so a late room join doesn't open a stale connection
+  const connectAttemptRef = useRef(0);
   const [connectionQuality, setConnectionQuality] = useState<ConnectionQuality>({
     rtt: 0,
     packetLoss: 0,
@@ -157,6 +179,9 @@ export const useP2PClient = (config: P2PClientConfig) => {
 
   // Ping tracking
   const pingTimesRef = useRef<number[]>([]);
+  // Last PING/PONG round trip - echoed in next PING for host clock offset estimation
+  const lastPongRef = useRef<NonNullable<PingMessage['payload']['lastPong']> | null>(null);
+  const clockSyncBurstRef = useRef(0);
   const pingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -174,7 +199,7 @@ export const useP2PClient = (config: P2PClientConfig) => {
   // Get signalling server URL
   const getSignallingServerUrl = useCallback(() => {
     const cfg = configRefs.current;
-    return getSignallingServer(cfg.isLanMode, cfg.signallingUrl);
+    return getSignallingServer(cfg.isLanMode, cfg.signallingUrl, undefined, cfg.allowPublicServer);
   }, []);
 
   // Calculate connection quality
@@ -272,9 +297,12 @@ export const useP2PClient = (config: P2PClientConfig) => {
       id: generateUUID(),
       category: MessageCategory.CONTROL,
       timestamp: Date.now(),
-      senderId: peerRef.current?.id || '',
+      senderId: selfIdRef.current,
       type: 'PING',
-      payload: { timestamp: Date.now() }
+      payload: {
+        timestamp: Date.now(),
+        lastPong: lastPongRef.current ?? undefined
+      }
     };
 
     try {
@@ -320,23 +348,165 @@ export const useP2PClient = (config: P2PClientConfig) => {
     }
   }, []);
 
-  // Connect to host
-  const connect = useCallback(() => {
-    if (peerRef.current && !peerRef.current.destroyed) {
-      peerRef.current.destroy();
+  // Handshake, message and close handling - same for WebRTC and relay connections
+  const attachConnectionHandlers = useCallback((conn: GameConnection, selfId: string) => {
+    conn.on('open', () => {
+      console.log('[P2P Client] Connection opened to host via', conn.transport);
+
+      // Send handshake with persistent client info
+      const handshake: HandshakeMessage = {
+        id: generateUUID(),
+        category: MessageCategory.CONTROL,
+        timestamp: Date.now(),
+        senderId: selfId,
+        type: 'HANDSHAKE',
+        payload: {
+          clientId: selfId,
+          clientName: configRefs.current.clientName,
+          protocolVersion: PROTOCOL_VERSION,
+          persistentClientId: configRefs.current.persistentClientId,
+          currentTeamId: configRefs.current.currentTeamId,
+          isModerator: configRefs.current.isModerator || false
+        }
+      };
+
+      conn.send(handshake);
+    });
+
+    conn.on('data', (data) => {
+      try {
+        // Parse JSON if data is string (PeerJS can send both string and object)
+        const message = typeof data === 'string' ? JSON.parse(data) : data as P2PSMessage;
+
+        // Handle handshake response
+        if (message.type === 'HANDSHAKE_RESPONSE') {
+          console.log('[P2P Client] Handshake confirmed, setting state to CONNECTED');
+
+          // Reset backoff on successful connection
+          backoffRef.current.reset();
+          if (conn.transport === 'webrtc') relayFallbackRef.current.recordSuccess();
+
+          setConnectionState(ClientConnectionState.CONNECTED);
+          startPingInterval();
+          // Start clock offset sync right away (burst continues from PONG handler)
+          clockSyncBurstRef.current = 0;
+          lastPongRef.current = null;
+          sendPing();
+          // Notify connection state change with current quality
+          notifyConnectionChange(ClientConnectionState.CONNECTED, connectionQuality);
+          console.log('[P2P Client] State set to CONNECTED, connection.open:', conn.open);
+        } else if (message.type === 'PONG') {
+          // Handle pong - calculate RTT
+          const pong = message as PongMessage;
+          const receivedTimestamp = Date.now();
+          const rtt = receivedTimestamp - pong.payload.originalTimestamp;
+
+          // Remember round trip so host can estimate our clock offset
+          lastPongRef.current = {
+            originalTimestamp: pong.payload.originalTimestamp,
+            serverTimestamp: pong.payload.serverTimestamp,
+            receivedTimestamp
+          };
+          // A few quick pings right after connecting so host gets an offset before first BUZZ
+          if (clockSyncBurstRef.current < CLOCK_SYNC_BURST_SIZE) {
+            clockSyncBurstRef.current++;
+            setTimeout(() => sendPing(), 200);
+          }
+
+          pingTimesRef.current.push(rtt);
+          if (pingTimesRef.current.length > 10) {
+            pingTimesRef.current.shift();
+          }
+          // Update quality and notify connection is still alive
+          const quality = updateConnectionQuality();
+
+          // Adjust backoff strategy based on connection quality
+          if (quality) {
+            backoffRef.current.adjustForConnectionQuality(quality);
+            // Notify with current state to show connection is still working
+            notifyConnectionChange(ClientConnectionState.CONNECTED, quality);
+          }
+        } else {
+          // Forward to app
+          configRefs.current.onMessage?.(message);
+        }
+      } catch (err) {
+        console.error('[P2P Client] Error handling message:', err);
+      }
+    });
+
+    conn.on('close', () => {
+      console.log('[P2P Client] Connection closed:', conn.transport);
+      // Replaced by a newer connection (relay fallback) - nothing to report
+      if (connectionRef.current !== conn) return;
+      setConnectionState(ClientConnectionState.DISCONNECTED);
+      stopPingInterval();
+      // Notify connection state change
+      notifyConnectionChange(ClientConnectionState.DISCONNECTED, connectionQuality);
+
+      // Don't auto-reconnect - let app handle reconnection
+      // This prevents issues with signalling server disconnects
+    });
+
+    conn.on('error', (err) => {
+      console.error('[P2P Client] Connection error:', err);
+      if (connectionRef.current !== conn) return;
+      setConnectionState(ClientConnectionState.ERROR);
+      configRefs.current.onError?.(err as Error);
+      // Notify connection state change
+      notifyConnectionChange(ClientConnectionState.ERROR, connectionQuality);
+    });
+  }, [startPingInterval, stopPingInterval, updateConnectionQuality, sendPing]);
+
+  // Game messages over the signalling server's WebSocket relay (WebRTC blocked on this network)
+  const openRelay = useCallback((membership: RoomMembership) => {
+    const peer = peerRef.current;
+    peerRef.current = null;
+    if (peer && !peer.destroyed) {
+      peer.destroy();
     }
 
+    setConnectionState(ClientConnectionState.CONNECTING);
+    // Membership comes from the LAN server's rooms API, so there is a LAN signalling server
+    const signallingHost = new URL(getSignallingServerUrl()!).hostname;
+    console.log('[P2P Client] 🔁 Connecting to host', membership.hostPeerId, 'via WebSocket relay on', signallingHost);
+
+    const conn = connectRelay(getRelayUrl(signallingHost, membership.peerId, membership.peerToken), membership.hostPeerId);
+    connectionRef.current = conn;
+    selfIdRef.current = membership.peerId;
+    attachConnectionHandlers(conn, membership.peerId);
+  }, [getSignallingServerUrl, attachConnectionHandlers]);
+
+  // Open PeerJS connection to host (membership = room peer ID + token issued by the signalling server)
+  const openConnection = useCallback((membership: RoomMembership | null) => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
       reconnectTimeoutRef.current = null;
     }
 
+    // WebRTC already failed often enough on this network - stay on the relay
+    if (membership && relayFallbackRef.current.useRelay) {
+      openRelay(membership);
+      return;
+    }
+
+    if (peerRef.current && !peerRef.current.destroyed) {
+      peerRef.current.destroy();
+    }
+
     // Reset backoff counter on new connection attempt
     backoffRef.current.reset();
     setConnectionState(ClientConnectionState.CONNECTING);
     const signallingServer = getSignallingServerUrl();
+    if (!signallingServer) {
+      console.error('❌ P2P Client: no signalling server - LAN server missing and public server not allowed');
+      setConnectionState(ClientConnectionState.ERROR);
+      configRefs.current.onError?.(new Error('No signalling server to connect through'));
+      return;
+    }
 
-    console.log('[P2P Client] Connecting to host:', configRefs.current.hostId, 'via signalling:', signallingServer);
+    const targetHostId = membership?.hostPeerId || configRefs.current.hostId;
+    console.log('[P2P Client] Connecting to host:', targetHostId, 'via signalling:', signallingServer, membership ? `room ${membership.code}` : '');
 
     // Parse signalling server URL to extract host and port
     let peerConfig: any = { debug: 1 };
@@ -377,110 +547,60 @@ export const useP2PClient = (config: P2PClientConfig) => {
       console.log('[P2P Client] Using default public PeerJS server');
     }
 
-    // Create peer for this client
-    const peer = new Peer(peerConfig);
+    // Create peer for this client - room members use the ID the signalling server let in
+    const peer = membership
+      ? new Peer(membership.peerId, { ...peerConfig, token: membership.peerToken })
+      : new Peer(peerConfig);
 
     peerRef.current = peer;
 
     peer.on('open', (id) => {
       console.log('[P2P Client] Peer opened with ID:', id);
+      selfIdRef.current = id;
 
       // Connect to host
-      const conn = peer.connect(configRefs.current.hostId, {
+      const dataConnection = peer.connect(targetHostId, {
         reliable: true,
       });
+      const conn = new WebRTCConnection(dataConnection);
 
       connectionRef.current = conn;
 
-      conn.on('open', () => {
-        console.log('[P2P Client] Connection opened to host');
-
-        // Send handshake with persistent client info
-        const handshake: HandshakeMessage = {
-          id: generateUUID(),
-          category: MessageCategory.CONTROL,
-          timestamp: Date.now(),
-          senderId: id,
-          type: 'HANDSHAKE',
-          payload: {
-            clientId: id,
-            clientName: configRefs.current.clientName,
-            protocolVersion: PROTOCOL_VERSION,
-            persistentClientId: configRefs.current.persistentClientId,
-            currentTeamId: configRefs.current.currentTeamId,
-            isModerator: configRefs.current.isModerator || false
-          }
-        };
-
-        conn.send(handshake);
-      });
-
-      conn.on('data', (data) => {
-        try {
-          // Parse JSON if data is string (PeerJS can send both string and object)
-          const message = typeof data === 'string' ? JSON.parse(data) : data as P2PSMessage;
-
-          // Handle handshake response
-          if (message.type === 'HANDSHAKE_RESPONSE') {
-            console.log('[P2P Client] Handshake confirmed, setting state to CONNECTED');
-
-            // Reset backoff on successful connection
-            backoffRef.current.reset();
-
-            setConnectionState(ClientConnectionState.CONNECTED);
-            startPingInterval();
-            // Notify connection state change with current quality
-            notifyConnectionChange(ClientConnectionState.CONNECTED, connectionQuality);
-            console.log('[P2P Client] State set to CONNECTED, connection.open:', conn.open);
-          } else if (message.type === 'PONG') {
-            // Handle pong - calculate RTT
-            const pong = message as PongMessage;
-            const rtt = Date.now() - pong.payload.originalTimestamp;
-
-            pingTimesRef.current.push(rtt);
-            if (pingTimesRef.current.length > 10) {
-              pingTimesRef.current.shift();
-            }
-            // Update quality and notify connection is still alive
-            const quality = updateConnectionQuality();
-
-            // Adjust backoff strategy based on connection quality
-            if (quality) {
-              backoffRef.current.adjustForConnectionQuality(quality);
-              // Notify with current state to show connection is still working
-              notifyConnectionChange(ClientConnectionState.CONNECTED, quality);
-            }
-          } else {
-            // Forward to app
-            configRefs.current.onMessage?.(message);
-          }
-        } catch (err) {
-          console.error('[P2P Client] Error handling message:', err);
+      // ICE failed or data channel didn't open in time - counts towards the relay fallback
+      let iceFailed = false;
+      const handleIceFailure = (reason: string) => {
+        if (iceFailed || conn.open || connectionRef.current !== conn) return;
+        iceFailed = true;
+        clearTimeout(iceTimeout);
+        const relayFallback = relayFallbackRef.current;
+        relayFallback.recordFailure();
+        console.warn('[P2P Client] ⚠️ WebRTC data channel failed:', reason, `(${relayFallback.failureCount}/${relayFallback.threshold})`);
+
+        if (membership && relayFallback.useRelay) {
+          console.warn('[P2P Client] 🔁 Falling back to WebSocket relay');
+          openRelay(membership);
+          return;
         }
-      });
-
-      conn.on('close', () => {
-        console.log('[P2P Client] Connection closed');
-        setConnectionState(ClientConnectionState.DISCONNECTED);
-        stopPingInterval();
-        // Notify connection state change
-        notifyConnectionChange(ClientConnectionState.DISCONNECTED, connectionQuality);
-
-        // Don't auto-reconnect - let app handle reconnection
-        // This prevents issues with signalling server disconnects
-      });
-
-      conn.on('error', (err) => {
-        console.error('[P2P Client] Connection error:', err);
+        // Let app reconnect (next attempt may still get through, or reach the threshold)
+        connectionRef.current = null;
+        dataConnection.close();
         setConnectionState(ClientConnectionState.ERROR);
-        configRefs.current.onError?.(err as Error);
-        // Notify connection state change
         notifyConnectionChange(ClientConnectionState.ERROR, connectionQuality);
+      };
+      const iceTimeout = setTimeout(() => handleIceFailure('timeout'), ICE_CONNECT_TIMEOUT);
+      dataConnection.on('iceStateChanged', (state) => {
+        if (state === 'failed') handleIceFailure(state);
       });
+      conn.on('open', () => clearTimeout(iceTimeout));
+      conn.on('close', () => clearTimeout(iceTimeout));
+
+      attachConnectionHandlers(conn, id);
     });
 
     peer.on('error', async (err) => {
       console.error('[P2P Client] Peer error:', err);
+      // Peer replaced by relay fallback or a new attempt
+      if (peerRef.current !== peer) return;
 
       // Provide specific diagnostics for common signalling server issues
       const errType = (err as any).type;
@@ -510,6 +630,7 @@ export const useP2PClient = (config: P2PClientConfig) => {
 
     peer.on('disconnected', () => {
       console.warn('[P2P Client] Peer disconnected from signalling server');
+      if (peerRef.current !== peer) return;
 
       // Use exponential backoff for reconnection
       if (backoffRef.current.shouldRetry()) {
@@ -535,10 +656,40 @@ export const useP2PClient = (config: P2PClientConfig) => {
         configRefs.current.onError?.(new Error('Reconnection abandoned'));
       }
     });
-  }, [configRefs.current.hostId, getSignallingServerUrl, startPingInterval, stopPingInterval, updateConnectionQuality]);
+  }, [configRefs.current.hostId, getSignallingServerUrl, attachConnectionHandlers, openRelay]);
+
+  // Connect to host - with a room code the signalling server first resolves it into host ID + our peer ID
+  const connect = useCallback(() => {
+    const attempt = ++connectAttemptRef.current;
+    const cfg = configRefs.current;
+    const signallingServer = getSignallingServerUrl();
+    if (!cfg.roomCode || !cfg.isLanMode || !signallingServer?.startsWith('ws://')) {
+      openConnection(null);
+      return;
+    }
+
+    setConnectionState(ClientConnectionState.CONNECTING);
+    const membershipKey = `${STORAGE_KEYS.ROOM_MEMBERSHIP}_${cfg.persistentClientId || 'client'}`;
+    joinRoom(new URL(signallingServer).hostname, cfg.roomCode, storage.get<RoomMembership>(membershipKey))
+      .then(membership => {
+        if (attempt !== connectAttemptRef.current) return;
+        storage.set(membershipKey, membership);
+        setRoomError(null);
+        openConnection(membership);
+      })
+      .catch(error => {
+        if (attempt !== connectAttemptRef.current) return;
+        const reason: RoomErrorReason = error instanceof RoomError ? error.reason : 'unavailable';
+        console.error('[P2P Client] ❌ Room join failed:', cfg.roomCode, reason);
+        setRoomError(reason);
+        setConnectionState(ClientConnectionState.ERROR);
+        configRefs.current.onError?.(error as Error);
+      });
+  }, [getSignallingServerUrl, openConnection]);
 
   // Disconnect
   const disconnect = useCallback(() => {
+    connectAttemptRef.current++;
     stopPingInterval();
 
     if (reconnectTimeoutRef.current) {
@@ -563,14 +714,14 @@ export const useP2PClient = (config: P2PClientConfig) => {
   const send = useCallback((message: Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>) => {
     const conn = connectionRef.current;
     console.log('📡 [P2P SEND] Attempting to send message:', message.type);
-    console.log('📡 [P2P SEND] Connection exists:', !!conn, 'Connection open:', conn?.open, 'Peer exists:', !!peerRef.current);
+    console.log('📡 [P2P SEND] Connection exists:', !!conn, 'Connection open:', conn?.open, 'Transport:', conn?.transport);
 
-    if (!conn || !conn.open || !peerRef.current) {
+    if (!conn || !conn.open) {
       console.warn('❌ [P2P SEND] Not connected, cannot send message. Connection state:', {
         hasConnection: !!conn,
         connectionOpen: conn?.open,
-        hasPeer: !!peerRef.current,
-        peerId: peerRef.current?.id
+        transport: conn?.transport,
+        peerId: selfIdRef.current
       });
       return false;
     }
@@ -579,7 +730,7 @@ export const useP2PClient = (config: P2PClientConfig) => {
       ...message,
       id: generateUUID(),
       timestamp: Date.now(),
-      senderId: peerRef.current?.id || ''
+      senderId: selfIdRef.current
     } as P2PSMessage;
 
     console.log('📤 [P2P SEND] Sending full message:', {
@@ -593,7 +744,7 @@ export const useP2PClient = (config: P2PClientConfig) => {
 
     try {
       conn.send(fullMessage);
-      console.log('✅ [P2P SEND] Message sent successfully via WebRTC!');
+      console.log('✅ [P2P SEND] Message sent successfully via', conn.transport);
       return true;
     } catch (err) {
       console.error('❌ [P2P SEND] Error sending message:', err);
@@ -647,6 +798,7 @@ export const useP2PClient = (config: P2PClientConfig) => {
     disconnect,
     send,
     connectionRef, // Export connection ref for debugging
+    roomError, // Room join rejected by signalling server
     qualityReport, // Export quality report for UI
     getQualityReport, // Export method to get detailed quality report
     getAdaptiveRecommendations, // Export method to get adaptive recommendations
@@ -1,5 +1,5 @@
 import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
-import { Peer, DataConnection } from 'peerjs';
+import { Peer } from 'peerjs';
 import {
   P2PConfig,
   P2PSMessage,
@@ -12,10 +12,23 @@ import {
   MessageCategory
 } from '../types';
 import { storage, STORAGE_KEYS } from './useLocalStorage';
-import { generateUUID, getSignallingServer } from '../utils';
+import { generateUUID, getSignallingServer, checkSignallingServer, type SignallingStatus } from '../utils';
 import { createOptimizedMessageSender } from '../utils/messageQueue';
 import { getGlobalQualityMonitor, QualityReport } from '../utils/connectionQualityMonitor';
 import { P2PConnectionPool, PoolStats } from '../utils/p2pConnectionPool';
+import { ClockOffsetEstimator, ClockSyncEstimate, computeClockSample } from '../utils/clockSync';
+import { WebRTCConnection, RelayHost, getRelayUrl, type GameConnection, type TransportKind } from '../utils/p2p';
+import {
+  registerRoom,
+  rotateRoomCode as requestRoomCodeRotation,
+  setRoomLocked as requestRoomLock,
+  RoomError,
+  type SignallingRoom,
+  type RoomErrorReason
+} from '../utils/signallingRooms';
+
+// Retry interval while the local signalling server doesn't answer /health
+const SIGNALLING_HEALTH_RETRY = 5000;
 
 /**
  * Connection Rate Limiter
@@ -79,7 +92,11 @@ class ConnectionRateLimiter {
 
 /**
  * P2P Host Hook - manages WebRTC connections for the host
- * Handles multiple client connections with automatic reconnection
+ * Handles multiple client connections with automatic reconnection.
+ * In a LAN room the host also listens on the signalling server's WebSocket relay
+ * for phones whose WebRTC data channel can't connect.
+ * Offline-first: waits for the local server's /health, the public PeerJS
+ * server is used only with allowPublicServer.
  */
 
 export interface P2PHostResult {
@@ -104,13 +121,26 @@ export interface P2PHostResult {
   getActiveConnections: () => string[];
   getConnectionsByTeam: (teamId: string) => string[];
   updateConnectionQuality: (clientId: string, quality: ConnectionQuality) => void;
+  // Clock offset sync methods
+  getClockSyncEstimate: (clientId: string) => ClockSyncEstimate | null;
+  toHostTime: (clientId: string, clientTimestamp: number) => number;
+  // Room on the LAN signalling server (null in Internet mode)
+  room: SignallingRoom | null;
+  roomError: RoomErrorReason | null;
+  rotateRoomCode: () => Promise<void>;
+  setRoomLocked: (locked: boolean) => Promise<void>;
+  // Signalling server the host uses (null - none allowed) and its state
+  signallingServer: string | null;
+  signallingStatus: SignallingStatus;
 }
 export const useP2PHost = (config: P2PConfig & {
-  onClientConnected?: (clientId: string, data: { name: string; teamId?: string; persistentClientId?: string }) => void;
+  onClientConnected?: (clientId: string, data: { name: string; teamId?: string; persistentClientId?: string; isModerator?: boolean; transport: TransportKind }) => void;
   onClientDisconnected?: (clientId: string) => void;
   onBuzzReceived?: (data: { clientId: string; clientName: string; teamId?: string; buzzTime: number }) => void;
+  onClockSyncUpdate?: (clientId: string, estimate: ClockSyncEstimate) => void;
   maxConnectionsPerMinute?: number; // Rate limiting configuration
   enableConnectionPool?: boolean; // Enable connection pooling (default: true)
+  allowPublicServer?: boolean; // Public PeerJS server in Internet mode (needs internet, default: false)
   poolConfig?: {
     maxConnections?: number;
     maxIdleTime?: number;
@@ -118,8 +148,10 @@ export const useP2PHost = (config: P2PConfig & {
   };
 }) => {
   const peerRef = useRef<Peer | null>(null);
-  const connectionsRef = useRef<Map<string, DataConnection>>(new Map());
-  const pendingConnectionsRef = useRef<Map<string, DataConnection>>(new Map());
+  const connectionsRef = useRef<Map<string, GameConnection>>(new Map());
+  const pendingConnectionsRef = useRef<Map<string, GameConnection>>(new Map());
+  // WebSocket relay socket on the LAN signalling server (rooms only)
+  const relayHostRef = useRef<RelayHost | null>(null);
 
   // Connection pool for managing multiple clients efficiently
   const connectionPoolRef = useRef<P2PConnectionPool | null>(null);
@@ -127,6 +159,9 @@ export const useP2PHost = (config: P2PConfig & {
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [connectedClients, setConnectedClients] = useState<string[]>([]);
+  const [room, setRoom] = useState<SignallingRoom | null>(null);
+  const [roomError, setRoomError] = useState<RoomErrorReason | null>(null);
+  const [signallingStatus, setSignallingStatus] = useState<SignallingStatus>('checking');
 
   // Sequence counter for ordered messaging
   const sequenceCounterRef = useRef(0);
@@ -138,6 +173,9 @@ export const useP2PHost = (config: P2PConfig & {
 
   // Connection quality monitoring for each client
   const qualityMonitorsRef = useRef<Map<string, ReturnType<typeof getGlobalQualityMonitor>>>(new Map());
+
+  // Clock offset estimation for each client (converts BUZZ timestamps to host time)
+  const clockEstimatorRef = useRef<ClockOffsetEstimator>(new ClockOffsetEstimator());
   const [globalQualityReport, setGlobalQualityReport] = useState<QualityReport | null>(null);
 
   // Optimized message sender with batching
@@ -166,8 +204,66 @@ export const useP2PHost = (config: P2PConfig & {
   // Get signalling server URL based on LAN mode
   const getSignallingServerUrl = useCallback(() => {
     const lockedIp = config.isLanMode ? storage.get(STORAGE_KEYS.LOCKED_IP) : undefined;
-    return getSignallingServer(config.isLanMode, config.signallingServer, lockedIp);
-  }, [config.isLanMode, config.signallingServer]);
+    return getSignallingServer(config.isLanMode, config.signallingServer, lockedIp, config.allowPublicServer);
+  }, [config.isLanMode, config.signallingServer, config.allowPublicServer]);
+
+  // Rooms API lives on the LAN signalling server only
+  const getRoomHost = useCallback((): string | null => {
+    const signallingServer = getSignallingServerUrl();
+    return config.isLanMode && signallingServer?.startsWith('ws://') ? new URL(signallingServer).hostname : null;
+  }, [config.isLanMode, getSignallingServerUrl]);
+
+  const handleRoomError = useCallback((err: unknown) => {
+    const reason: RoomErrorReason = err instanceof RoomError ? err.reason : 'unavailable';
+    console.error('❌ P2P Host: room request failed:', reason, err);
+    setRoomError(reason);
+  }, []);
+
+  const applyRoom = useCallback((updated: SignallingRoom) => {
+    storage.set(STORAGE_KEYS.SIGNALLING_ROOM, updated);
+    setRoom(updated);
+    setRoomError(null);
+  }, []);
+
+  /**
+   * Register the room (or reclaim it with the stored host token after reload / server restart)
+   * @returns null in Internet mode or when the server has no rooms API
+   */
+  const claimRoom = useCallback(async (): Promise<SignallingRoom | null> => {
+    const roomHost = getRoomHost();
+    if (!roomHost) return null;
+    try {
+      const claimed = await registerRoom(roomHost, config.hostId, storage.get<SignallingRoom>(STORAGE_KEYS.SIGNALLING_ROOM));
+      applyRoom(claimed);
+      console.log('[P2P Host] 🏠 Room', claimed.code, claimed.locked ? '(locked)' : '');
+      return claimed;
+    } catch (err) {
+      handleRoomError(err);
+      return null;
+    }
+  }, [config.hostId, getRoomHost, applyRoom, handleRoomError]);
+
+  // New join code - phones already in the room keep their place
+  const rotateRoomCode = useCallback(async () => {
+    const roomHost = getRoomHost();
+    if (!room || !roomHost) return;
+    try {
+      applyRoom(await requestRoomCodeRotation(roomHost, room));
+    } catch (err) {
+      handleRoomError(err);
+    }
+  }, [room, getRoomHost, applyRoom, handleRoomError]);
+
+  // Locked room accepts no new phones, members can still reconnect
+  const setRoomLocked = useCallback(async (locked: boolean) => {
+    const roomHost = getRoomHost();
+    if (!room || !roomHost) return;
+    try {
+      applyRoom(await requestRoomLock(roomHost, room, locked));
+    } catch (err) {
+      handleRoomError(err);
+    }
+  }, [room, getRoomHost, applyRoom, handleRoomError]);
 
   // Initialize connection pool
   useEffect(() => {
@@ -198,6 +294,12 @@ export const useP2PHost = (config: P2PConfig & {
   // Initialize PeerJS
   useEffect(() => {
     const signallingServer = getSignallingServerUrl();
+    if (!signallingServer) {
+      // No silent fallback to the public PeerJS cloud - it fails in venues without internet
+      console.error('❌ P2P Host: no signalling server - public PeerJS server is not allowed');
+      setSignallingStatus('public-disabled');
+      return;
+    }
     console.log('[P2P Host] Initializing with signalling server:', signallingServer);
 
     // Parse signalling server URL to extract host and port
@@ -239,70 +341,114 @@ export const useP2PHost = (config: P2PConfig & {
       console.log('[P2P Host] Using default public PeerJS server');
     }
 
-    const peer = new Peer(config.hostId, peerConfig);
+    // LAN server only lets room hosts in: the host token doubles as the PeerJS token
+    let cancelled = false;
+    let healthTimer: ReturnType<typeof setTimeout> | undefined;
+    const startPeer = (claimedRoom: SignallingRoom | null) => {
+      const peer = new Peer(config.hostId, claimedRoom ? { ...peerConfig, token: claimedRoom.hostToken } : peerConfig);
 
-    peerRef.current = peer;
+      peerRef.current = peer;
 
-    peer.on('open', (id) => {
-      console.log('[P2P Host] PeerJS opened with ID:', id);
-      setIsReady(true);
-      setError(null);
-    });
+      peer.on('open', (id) => {
+        console.log('[P2P Host] PeerJS opened with ID:', id);
+        setIsReady(true);
+        setError(null);
+        setSignallingStatus('ready');
+      });
 
-    peer.on('connection', (conn) => {
-      console.log('[P2P Host] Incoming connection from:', conn.peer);
-      handleIncomingConnection(conn);
-    });
+      peer.on('connection', (conn) => {
+        console.log('[P2P Host] Incoming connection from:', conn.peer);
+        handleIncomingConnection(new WebRTCConnection(conn));
+      });
 
-    peer.on('error', (err) => {
-      console.error('[P2P Host] PeerJS error:', err);
-
-      // Provide specific diagnostics for common signalling server issues
-      const errType = (err as any).type;
-      if (errType === 'network' || (err as any).message?.includes('Failed to fetch')) {
-        console.error('[P2P Host] ❌ Network error accessing signalling server.');
-        console.error('[P2P Host] 🔧 Possible fixes:');
-        console.error('[P2P Host]    1. Check if signalling server is running at:', signallingServer);
-        console.error('[P2P Host]    2. Verify the server supports HTTP API (not just WebSocket)');
-        console.error('[P2P Host]    3. Check CORS settings on the server');
-        console.error('[P2P Host]    4. Try using the default public PeerJS server');
-        console.error('[P2P Host] 📖 Note: PeerJS requires both HTTP and WebSocket endpoints');
-      } else if (errType === 'server-error') {
-        console.error('[P2P Host] ❌ Signalling server error. The server might be misconfigured.');
-      } else if (errType === 'ssl-unavailable') {
-        console.error('[P2P Host] ❌ SSL not available. Try using ws:// instead of wss://');
-      } else if (errType === 'unavailable-id') {
-        console.error('[P2P Host] ❌ Host ID already taken. Try a different ID.');
-      }
+      peer.on('error', (err) => {
+        console.error('[P2P Host] PeerJS error:', err);
+
+        // Provide specific diagnostics for common signalling server issues
+        const errType = (err as any).type;
+        if (errType === 'network' || (err as any).message?.includes('Failed to fetch')) {
+          setSignallingStatus('unreachable');
+          console.error('[P2P Host] ❌ Network error accessing signalling server.');
+          console.error('[P2P Host] 🔧 Possible fixes:');
+          console.error('[P2P Host]    1. Check if signalling server is running at:', signallingServer);
+          console.error('[P2P Host]    2. Verify the server supports HTTP API (not just WebSocket)');
+          console.error('[P2P Host]    3. Check CORS settings on the server');
+          console.error('[P2P Host]    4. Start it with "npm run server" or allow the public PeerJS server in Settings');
+          console.error('[P2P Host] 📖 Note: PeerJS requires both HTTP and WebSocket endpoints');
+        } else if (errType === 'server-error') {
+          console.error('[P2P Host] ❌ Signalling server error. The server might be misconfigured.');
+        } else if (errType === 'ssl-unavailable') {
+          console.error('[P2P Host] ❌ SSL not available. Try using ws:// instead of wss://');
+        } else if (errType === 'unavailable-id') {
+          console.error('[P2P Host] ❌ Host ID already taken. Try a different ID.');
+        }
 
-      setError(err as Error);
-      config.onError?.(err as Error);
-    });
+        setError(err as Error);
+        config.onError?.(err as Error);
+      });
 
-    peer.on('disconnected', () => {
-      console.warn('[P2P Host] PeerJS disconnected from signalling server');
-      // Auto-reconnect logic
-      setTimeout(() => {
-        if (peer && !peer.destroyed) {
-          peer.reconnect();
+      peer.on('disconnected', () => {
+        console.warn('[P2P Host] PeerJS disconnected from signalling server');
+        // Auto-reconnect logic (room is re-registered first in case the server restarted)
+        setTimeout(async () => {
+          if (claimedRoom) await claimRoom();
+          if (peer && !peer.destroyed) {
+            peer.reconnect();
+          }
+        }, 1000);
+      });
+    };
+
+    // Relay fallback for phones that can't open a WebRTC data channel
+    const startRelay = (claimedRoom: SignallingRoom) => {
+      const roomHost = getRoomHost();
+      if (!roomHost) return;
+      relayHostRef.current = new RelayHost(
+        getRelayUrl(roomHost, config.hostId, claimedRoom.hostToken),
+        (conn) => handleIncomingConnection(conn)
+      );
+    };
+
+    // Local server must answer /health first - a missing server is reported, not retried silently by PeerJS
+    const start = async () => {
+      const localHost = signallingServer.startsWith('ws://') ? new URL(signallingServer).hostname : null;
+      if (localHost) {
+        setSignallingStatus('checking');
+        const healthy = await checkSignallingServer(localHost);
+        if (cancelled) return;
+        if (!healthy) {
+          console.warn('[P2P Host] ⚠️ Local signalling server not reachable at', localHost, '- retrying');
+          setSignallingStatus('unreachable');
+          healthTimer = setTimeout(start, SIGNALLING_HEALTH_RETRY);
+          return;
         }
-      }, 1000);
-    });
+      }
+      const claimedRoom = await claimRoom();
+      if (cancelled) return;
+      startPeer(claimedRoom);
+      if (claimedRoom) startRelay(claimedRoom);
+    };
+    start();
 
     return () => {
+      cancelled = true;
+      clearTimeout(healthTimer);
       // Clean up all connections
       connectionsRef.current.forEach((conn) => conn.close());
       pendingConnectionsRef.current.forEach((conn) => conn.close());
+      relayHostRef.current?.close();
+      relayHostRef.current = null;
 
+      const peer = peerRef.current;
       if (peer && !peer.destroyed) {
         peer.destroy();
       }
       setIsReady(false);
     };
-  }, [config.hostId]);
+  }, [config.hostId, config.isLanMode, config.allowPublicServer]);
 
   // Handle incoming connection
-  const handleIncomingConnection = useCallback((conn: DataConnection) => {
+  const handleIncomingConnection = useCallback((conn: GameConnection) => {
     const clientId = conn.peer;
 
     // Check rate limit before accepting connection
@@ -316,9 +462,22 @@ export const useP2PHost = (config: P2PConfig & {
       return;
     }
 
+    // Same phone on a new connection (relay fallback, reconnect) replaces the old one
+    const previous = connectionsRef.current.get(clientId) || pendingConnectionsRef.current.get(clientId);
+    connectionsRef.current.delete(clientId);
+
     // Store in pending until handshake complete
     pendingConnectionsRef.current.set(clientId, conn);
 
+    if (previous && previous !== conn) {
+      console.log('[P2P Host] Replacing connection of', clientId, previous.transport, '->', conn.transport);
+      previous.close();
+    }
+
+    // Close/error of a connection that was already replaced must not drop the client
+    const isCurrent = () =>
+      connectionsRef.current.get(clientId) === conn || pendingConnectionsRef.current.get(clientId) === conn;
+
     // Set up data handler BEFORE connection is open
     conn.on('data', (data) => {
       try {
@@ -340,11 +499,13 @@ export const useP2PHost = (config: P2PConfig & {
     });
 
     conn.on('close', () => {
-      console.log('[P2P Host] Connection closed:', clientId);
+      console.log('[P2P Host] Connection closed:', clientId, conn.transport);
+      if (!isCurrent()) return;
       connectionsRef.current.delete(clientId);
       pendingConnectionsRef.current.delete(clientId);
-      // Remove quality monitor for this client
+      // Remove quality monitor and clock estimate for this client
       qualityMonitorsRef.current.delete(clientId);
+      clockEstimatorRef.current.removeClient(clientId);
       // Update connected clients list
       setConnectedClients(Array.from(connectionsRef.current.keys()));
       config.onClientDisconnected?.(clientId);
@@ -352,10 +513,12 @@ export const useP2PHost = (config: P2PConfig & {
 
     conn.on('error', (err) => {
       console.error('[P2P Host] Connection error:', clientId, err);
+      if (!isCurrent()) return;
       connectionsRef.current.delete(clientId);
       pendingConnectionsRef.current.delete(clientId);
-      // Remove quality monitor for this client
+      // Remove quality monitor and clock estimate for this client
       qualityMonitorsRef.current.delete(clientId);
+      clockEstimatorRef.current.removeClient(clientId);
       // Update connected clients list
       setConnectedClients(Array.from(connectionsRef.current.keys()));
       config.onClientDisconnected?.(clientId);
@@ -363,7 +526,7 @@ export const useP2PHost = (config: P2PConfig & {
 
     // Send handshake response when ready
     conn.on('open', () => {
-      console.log('[P2P Host] Data connection open:', clientId);
+      console.log('[P2P Host] Data connection open:', clientId, 'via', conn.transport);
       // Send handshake response immediately when connection opens
       const response: HandshakeResponseMessage = {
         id: generateUUID(),
@@ -383,10 +546,10 @@ export const useP2PHost = (config: P2PConfig & {
   }, [config.hostId, config.onClientConnected, config.onPeerConnected]);
 
   // Handle client handshake
-  const handleHandshake = useCallback((conn: DataConnection, message: HandshakeMessage) => {
-    const { clientId, clientName, protocolVersion, persistentClientId, currentTeamId } = message.payload;
+  const handleHandshake = useCallback((conn: GameConnection, message: HandshakeMessage) => {
+    const { clientId, clientName, protocolVersion, persistentClientId, currentTeamId, isModerator } = message.payload;
 
-    console.log('[P2P Host] Handshake from:', clientName, 'protocol:', protocolVersion, 'persistentId:', persistentClientId, 'teamId:', currentTeamId);
+    console.log('[P2P Host] Handshake from:', clientName, 'protocol:', protocolVersion, 'persistentId:', persistentClientId, 'teamId:', currentTeamId, 'transport:', conn.transport);
 
     // Check protocol version
     if (protocolVersion !== PROTOCOL_VERSION) {
@@ -433,13 +596,25 @@ export const useP2PHost = (config: P2PConfig & {
     config.onClientConnected?.(clientIdReal, {
       name: clientName,
       teamId: currentTeamId,
-      persistentClientId: persistentClientId
+      persistentClientId: persistentClientId,
+      isModerator: isModerator,
+      transport: conn.transport
     });
     config.onPeerConnected?.(clientIdReal);
   }, [config.hostId, config]);
 
   // Handle ping
-  const handlePing = useCallback((conn: DataConnection, message: PingMessage) => {
+  const handlePing = useCallback((conn: GameConnection, message: PingMessage) => {
+    // Previous round trip echoed by client - update clock offset estimate
+    const lastPong = message.payload.lastPong;
+    if (lastPong) {
+      const sample = computeClockSample(lastPong.originalTimestamp, lastPong.serverTimestamp, lastPong.receivedTimestamp);
+      if (sample) {
+        const estimate = clockEstimatorRef.current.addSample(conn.peer, sample);
+        config.onClockSyncUpdate?.(conn.peer, estimate);
+      }
+    }
+
     const pong: PongMessage = {
       id: generateUUID(),
       category: MessageCategory.CONTROL,
@@ -553,6 +728,31 @@ export const useP2PHost = (config: P2PConfig & {
     return true;
   }, [config.hostId]);
 
+  // Send binary payload (ArrayBuffer) straight over the connection - JSON batching would lose it
+  const sendBinaryToClient = useCallback((clientId: string, message: Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>) => {
+    const conn = connectionsRef.current.get(clientId);
+    if (!conn || !conn.open) {
+      console.warn('[P2P Host] Client not connected:', clientId);
+      return false;
+    }
+
+    const fullMessage: P2PSMessage = {
+      ...message,
+      id: generateUUID(),
+      timestamp: Date.now(),
+      senderId: config.hostId,
+      sequence: message.sequence ?? sequenceCounterRef.current++
+    } as P2PSMessage;
+
+    try {
+      conn.send(fullMessage);
+      return true;
+    } catch (err) {
+      console.error('[P2P Host] Binary send failed for:', clientId, err);
+      return false;
+    }
+  }, [config.hostId]);
+
   // Send to all clients in a team (connection pool feature)
   const sendToTeam = useCallback((teamId: string, message: Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>) => {
     if (!connectionPoolRef.current) {
@@ -587,8 +787,9 @@ export const useP2PHost = (config: P2PConfig & {
     connectionsRef.current.clear();
     pendingConnectionsRef.current.forEach((conn) => conn.close());
     pendingConnectionsRef.current.clear();
-    // Clear all quality monitors
+    // Clear all quality monitors and clock estimates
     qualityMonitorsRef.current.clear();
+    clockEstimatorRef.current.clear();
   }, []);
 
   // Get quality report for specific client
@@ -653,6 +854,15 @@ export const useP2PHost = (config: P2PConfig & {
     connectionPoolRef.current?.updateConnectionQuality(clientId, quality);
   }, []);
 
+  // Clock offset sync methods
+  const getClockSyncEstimate = useCallback((clientId: string): ClockSyncEstimate | null => {
+    return clockEstimatorRef.current.getEstimate(clientId);
+  }, []);
+
+  const toHostTime = useCallback((clientId: string, clientTimestamp: number): number => {
+    return clockEstimatorRef.current.toHostTime(clientId, clientTimestamp);
+  }, []);
+
   // Memoize result to prevent infinite re-renders when used in useEffect dependencies
   return useMemo(() => ({
     isReady,
@@ -662,6 +872,7 @@ export const useP2PHost = (config: P2PConfig & {
     connectedClients,
     broadcast,
     sendToClient,
+    sendBinaryToClient,
     sendToTeam,
     disconnectClient,
     disconnectAll,
@@ -676,5 +887,15 @@ export const useP2PHost = (config: P2PConfig & {
     getActiveConnections,
     getConnectionsByTeam,
     updateConnectionQuality,
-  }), [isReady, error, config.hostId, connectedClients, broadcast, sendToClient, sendToTeam, disconnectClient, disconnectAll, getClientQualityReport, getAllQualityReports, globalQualityReport, updateGlobalQualityReport, getPoolStats, cleanupIdleConnections, getActiveConnections, getConnectionsByTeam, updateConnectionQuality]);
+    // Clock offset sync methods
+    getClockSyncEstimate,
+    toHostTime,
+    // Signalling room
+    room,
+    roomError,
+    signallingServer: getSignallingServerUrl(),
+    signallingStatus,
+    rotateRoomCode,
+    setRoomLocked,
+  }), [isReady, error, config.hostId, connectedClients, broadcast, sendToClient, sendBinaryToClient, sendToTeam, disconnectClient, disconnectAll, getClientQualityReport, getAllQualityReports, globalQualityReport, updateGlobalQualityReport, getPoolStats, cleanupIdleConnections, getActiveConnections, getConnectionsByTeam, updateConnectionQuality, getClockSyncEstimate, toHostTime, room, roomError, getSignallingServerUrl, signallingStatus, rotateRoomCode, setRoomLocked]);
 };
@@ -0,0 +1,85 @@
+/**
+ * usePlayerProfiles Hook
+ *
+ * Persistent player profiles from IndexedDB, keyed by persistentClientId.
+ * HostView records every joining phone and reads profiles synchronously
+ * (through the ref) inside P2P handlers to apply nickname, avatar and preferred team.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { playerProfileStorage } from '../utils/media/PlayerProfileStorage';
+import { touchPlayerProfile, type PlayerProfile } from '../utils/playerProfiles';
+
+export function usePlayerProfiles() {
+  const [profiles, setProfiles] = useState<PlayerProfile[]>([]);
+  const profilesRef = useRef<Map<string, PlayerProfile>>(new Map());
+  // Joins that came before IndexedDB was read - re-applied on top of stored profiles
+  const pendingJoinsRef = useRef<Map<string, string> | null>(new Map());
+
+  const applyProfiles = useCallback((list: PlayerProfile[]) => {
+    profilesRef.current = new Map(list.map(p => [p.id, p]));
+    setProfiles(list);
+  }, []);
+
+  const reload = useCallback(async () => {
+    applyProfiles(await playerProfileStorage.list());
+  }, [applyProfiles]);
+
+  const getProfile = useCallback((profileId: string): PlayerProfile | null => {
+    return profilesRef.current.get(profileId) || null;
+  }, []);
+
+  const saveProfile = useCallback((profile: PlayerProfile) => {
+    const next = new Map<string, PlayerProfile>(profilesRef.current).set(profile.id, profile);
+    applyProfiles(Array.from(next.values()).sort((a, b) => b.lastSeenAt - a.lastSeenAt));
+    playerProfileStorage.save(profile).catch(error => {
+      console.error('❌ Player profiles: failed to save:', error);
+    });
+  }, [applyProfiles]);
+
+  /**
+   * Phone joined: create profile or refresh its name and last seen time
+   * @returns Profile to apply to the connected client
+   */
+  const recordJoin = useCallback((profileId: string, name: string): PlayerProfile => {
+    const profile = touchPlayerProfile(profilesRef.current.get(profileId) || null, profileId, name);
+    if (pendingJoinsRef.current) {
+      pendingJoinsRef.current.set(profileId, name);
+      return profile;
+    }
+    saveProfile(profile);
+    return profile;
+  }, [saveProfile]);
+
+  useEffect(() => {
+    playerProfileStorage.list().then(list => {
+      const pending = pendingJoinsRef.current;
+      pendingJoinsRef.current = null;
+      applyProfiles(list);
+      pending?.forEach((name, profileId) => saveProfile(touchPlayerProfile(profilesRef.current.get(profileId) || null, profileId, name)));
+    });
+  }, [applyProfiles, saveProfile]);
+
+  const updateProfile = useCallback((profileId: string, updates: Partial<Omit<PlayerProfile, 'id'>>) => {
+    const profile = profilesRef.current.get(profileId);
+    if (!profile) return;
+    saveProfile({ ...profile, ...updates });
+  }, [saveProfile]);
+
+  const deleteProfile = useCallback(async (profileId: string) => {
+    await playerProfileStorage.delete(profileId);
+    const next = new Map<string, PlayerProfile>(profilesRef.current);
+    next.delete(profileId);
+    applyProfiles(Array.from(next.values()));
+    console.log('[PlayerProfiles] Deleted profile:', profileId);
+  }, [applyProfiles]);
+
+  return {
+    profiles,
+    getProfile,
+    recordJoin,
+    updateProfile,
+    deleteProfile,
+    reload
+  };
+}
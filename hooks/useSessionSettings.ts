@@ -13,6 +13,9 @@ export interface SessionSettings {
   collisionEnabled: boolean; // Enable clash handling for simultaneous buzzes
   collisionAdvantageUnderdog: boolean; // Give lower-scoring players +20% advantage in clashes
   noTeamsMode: boolean; // Disable teams - show individual players instead
+  captainOnlySuperBets: boolean; // Only team captain places the super game bet
+  lockRoomOnStart: boolean; // Lock the signalling room (no new phones) when the game starts
+  allowPublicSignalling: boolean; // Internet mode may use the public PeerJS server (offline-first: off)
 }
 
 const DEFAULT_SETTINGS: SessionSettings = {
@@ -21,6 +24,9 @@ const DEFAULT_SETTINGS: SessionSettings = {
   collisionEnabled: true,
   collisionAdvantageUnderdog: false,
   noTeamsMode: false,
+  captainOnlySuperBets: false,
+  lockRoomOnStart: false,
+  allowPublicSignalling: false,
 };
 
 const loadSettings = (): SessionSettings => {
@@ -34,6 +40,9 @@ const loadSettings = (): SessionSettings => {
       collisionEnabled: parsed.collisionEnabled ?? true,
       collisionAdvantageUnderdog: parsed.collisionAdvantageUnderdog ?? false,
       noTeamsMode: parsed.noTeamsMode ?? false,
+      captainOnlySuperBets: parsed.captainOnlySuperBets ?? false,
+      lockRoomOnStart: parsed.lockRoomOnStart ?? false,
+      allowPublicSignalling: parsed.allowPublicSignalling ?? false,
     };
   } catch {
     return DEFAULT_SETTINGS;
@@ -21,6 +21,9 @@
  * ANSWERING -> PENALTY: Incorrect button
  * PENALTY -> INACTIVE: Manual LMB click, or question closes
  *
+ * Special questions (cat in a bag, auction): host assigns the team that answers
+ * alone -> ANSWERING, other teams stay INACTIVE and cannot buzz until the question closes.
+ *
  * ## Reset Conditions
  *
  * All teams -> INACTIVE when:
@@ -144,6 +147,8 @@ export interface UseTeamStatusManagerReturn {
   resetAllTeams: () => void;
   /** Reset team states when question opens */
   resetForNewQuestion: () => void;
+  /** Give the question to one team (cat in a bag, auction); null lifts the restriction */
+  assignAnsweringTeam: (teamId: string | null) => void;
 
   /** Update game state (timer, question state, etc.) */
   updateGameState: (gameState: Partial<TeamGameState>) => void;
@@ -292,6 +297,9 @@ export function useTeamStatusManager(
   const firstClashTeamIdRef = useRef<string | null>(null);
   const clashTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // Team that answers alone (special questions) - other teams are not activated and cannot buzz
+  const assignedTeamIdRef = useRef<string | null>(null);
+
   // Track active team IDs (memoized - only updates when actual set changes)
   const [activeTeamIds, setActiveTeamIds] = useState<Set<string>>(new Set());
   const prevActiveTeamIdsRef = useRef<Set<string>>(new Set());
@@ -629,6 +637,11 @@ export function useTeamStatusManager(
 
     const gameState = gameStateRef.current;
 
+    if (assignedTeamIdRef.current) {
+      console.log(`[TeamStatusManager] Team ${teamId} cannot buzz - question is assigned to ${assignedTeamIdRef.current.slice(0, 12)}`);
+      return false;
+    }
+
     // Can only buzz if ACTIVE and response timer is active
     if (currentState.status !== TeamStatus.ACTIVE) {
       console.log(`[TeamStatusManager] Team ${teamId} cannot buzz - not ACTIVE (status: ${currentState.status})`);
@@ -802,6 +815,7 @@ export function useTeamStatusManager(
     clashPhaseRef.current = 'idle';
     firstClashTimestampRef.current = null;
     firstClashTeamIdRef.current = null;
+    assignedTeamIdRef.current = null;
 
     // Reset response timer flag to allow re-activation on next question
     gameStateRef.current.isResponseTimerActive = false;
@@ -822,6 +836,7 @@ export function useTeamStatusManager(
     console.log('[TeamStatusManager] Resetting for new question');
     gameStateRef.current.isAnswerRevealed = false;
     gameStateRef.current.isResponseTimerActive = false; // Reset for proper re-activation
+    assignedTeamIdRef.current = null;
     // Immediately deactivate ALL teams to ensure they're INACTIVE for new question
     // This works even if isResponseTimerActive is already false
     setTeamStates(prev => {
@@ -844,6 +859,34 @@ export function useTeamStatusManager(
     });
   }, []);
 
+  /**
+   * Give the question to one team (cat in a bag, auction winner)
+   * The team becomes ANSWERING, everybody else INACTIVE until the question closes
+   */
+  const assignAnsweringTeam = useCallback((teamId: string | null) => {
+    console.log('[TeamStatusManager] Assigning question to team:', teamId?.slice(0, 12) ?? 'none');
+    assignedTeamIdRef.current = teamId;
+    if (!teamId) return;
+
+    setTeamStates(prev => {
+      const updated = new Map<string, TeamState>(prev);
+      for (const [id, state] of updated.entries()) {
+        const status = id === teamId ? TeamStatus.ANSWERING : TeamStatus.INACTIVE;
+        if (state.status !== status) {
+          updated.set(id, {
+            ...state,
+            status,
+            previousStatus: state.status,
+            hasAttempted: id === teamId ? true : state.hasAttempted,
+            statusSince: Date.now(),
+            clashSubStatus: undefined,
+          });
+        }
+      }
+      return updated;
+    });
+  }, []);
+
   /**
    * Update game state (timer, question state, etc.)
    */
@@ -865,7 +908,9 @@ export function useTeamStatusManager(
     const isNowActive = gameStateRef.current.isResponseTimerActive;
     const wasActive = previousState.isResponseTimerActive;
 
-    if (isNowActive && !wasActive) {
+    if (isNowActive && !wasActive && assignedTeamIdRef.current) {
+      console.log('[TeamStatusManager] Response timer active - question is assigned, teams stay as they are');
+    } else if (isNowActive && !wasActive) {
       // Response timer started - activate all non-PENALTY, non-ANSWERING teams
       console.log('[TeamStatusManager] Response timer active - activating teams');
       setTeamStates(prev => {
@@ -979,6 +1024,7 @@ export function useTeamStatusManager(
     handleIncorrectAnswer,
     resetAllTeams,
     resetForNewQuestion,
+    assignAnsweringTeam,
     updateGameState,
     getTeamCardClasses,
   };
@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './styles/tailwind.css';
 import './styles/optimizations.css';
 
 const rootElement = document.getElementById('root');
@@ -0,0 +1,124 @@
+/**
+ * WebSocket relay for the LAN signalling server
+ * Fallback transport when WebRTC data channels can't connect (client isolation,
+ * captive portals, corporate Wi-Fi): game messages go phone -> server -> host
+ * over plain WebSocket. Same credentials as PeerJS: room host or member with its token.
+ *
+ * Frames (JSON text):
+ *   phone -> server  { data }           server -> host   { type: 'data', peer, data }
+ *   host  -> server  { to, data }       server -> phone  { type: 'data', data }
+ *   host  -> server  { to, close: true }                  (host drops the phone)
+ *   server -> host   { type: 'open' | 'close', peer }     (phone relay socket came / went)
+ *   server -> phone  { type: 'open' | 'close' }           (host relay socket present / gone)
+ */
+
+const { WebSocketServer } = require('ws');
+
+const RELAY_PATH = '/relay';
+
+const getCredentials = (req) => {
+  const { searchParams } = new URL(req.url || '', 'http://relay');
+  return { id: searchParams.get('id'), token: searchParams.get('token') };
+};
+
+const parseFrame = (raw) => {
+  try {
+    const frame = JSON.parse(raw.toString());
+    return frame && typeof frame === 'object' ? frame : null;
+  } catch {
+    return null;
+  }
+};
+
+function attachRelay(httpServer, rooms) {
+  const hosts = new Map();   // hostPeerId -> ws
+  const members = new Map(); // peerId -> { ws, hostPeerId }
+
+  const sendFrame = (ws, frame) => {
+    if (ws && ws.readyState === ws.OPEN) ws.send(JSON.stringify(frame));
+  };
+
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: RELAY_PATH,
+    verifyClient: ({ req }) => {
+      const { id, token } = getCredentials(req);
+      if (rooms.isAllowed(id, token)) return true;
+      console.warn(`[Signalling Server] ⛔ Rejected relay socket not in a room: ${id}`);
+      return false;
+    }
+  });
+
+  const acceptHost = (ws, hostPeerId) => {
+    hosts.get(hostPeerId)?.close();
+    hosts.set(hostPeerId, ws);
+
+    // Phones that fell back to the relay before the host (re)connected
+    members.forEach((member, peerId) => {
+      if (member.hostPeerId !== hostPeerId) return;
+      sendFrame(ws, { type: 'open', peer: peerId });
+      sendFrame(member.ws, { type: 'open' });
+    });
+
+    ws.on('message', (raw) => {
+      const frame = parseFrame(raw);
+      const member = frame && members.get(frame.to);
+      if (!member || member.hostPeerId !== hostPeerId) return;
+      if (frame.close) {
+        member.ws.close();
+      } else {
+        sendFrame(member.ws, { type: 'data', data: frame.data });
+      }
+    });
+
+    ws.on('close', () => {
+      if (hosts.get(hostPeerId) !== ws) return; // Replaced by a newer host socket
+      hosts.delete(hostPeerId);
+      members.forEach((member) => {
+        if (member.hostPeerId === hostPeerId) sendFrame(member.ws, { type: 'close' });
+      });
+    });
+  };
+
+  const acceptMember = (ws, peerId, hostPeerId) => {
+    members.get(peerId)?.ws.close();
+    members.set(peerId, { ws, hostPeerId });
+
+    const host = hosts.get(hostPeerId);
+    if (host) {
+      sendFrame(host, { type: 'open', peer: peerId });
+      sendFrame(ws, { type: 'open' });
+    }
+
+    ws.on('message', (raw) => {
+      const frame = parseFrame(raw);
+      if (frame) sendFrame(hosts.get(hostPeerId), { type: 'data', peer: peerId, data: frame.data });
+    });
+
+    ws.on('close', () => {
+      if (members.get(peerId)?.ws !== ws) return; // Replaced by a newer socket of the same phone
+      members.delete(peerId);
+      sendFrame(hosts.get(hostPeerId), { type: 'close', peer: peerId });
+      console.log(`[Signalling Server] 🔁 Relay - ${peerId}`);
+    });
+  };
+
+  wss.on('connection', (ws, req) => {
+    const { id, token } = getCredentials(req);
+    const peer = rooms.resolvePeer(id, token);
+    if (!peer) {
+      ws.close();
+      return;
+    }
+    console.log(`[Signalling Server] 🔁 Relay + ${id}${peer.isHost ? ' (host)' : ''}`);
+    if (peer.isHost) {
+      acceptHost(ws, id);
+    } else {
+      acceptMember(ws, id, peer.hostPeerId);
+    }
+  });
+
+  return wss;
+}
+
+module.exports = { attachRelay, RELAY_PATH };
@@ -0,0 +1,155 @@
+/**
+ * WebSocket Relay Tests
+ * Тесты relay сигнального сервера: проверка токенов, маршрутизация, закрытие соединений
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createRequire } from 'module';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createRoomRegistry } from './rooms.cjs';
+import { attachRelay, RELAY_PATH } from './relay.cjs';
+
+// Node client from the same package as the server (not the browser WebSocket of jsdom)
+const { WebSocket: NodeWebSocket } = createRequire(import.meta.url)('ws');
+
+interface TestSocket {
+  frames: any[];
+  closed: boolean;
+  send: (frame: object) => void;
+  close: () => void;
+}
+
+// Poll until the frames arrived (real sockets on localhost)
+const until = async (predicate: () => boolean, timeout = 2000) => {
+  const startedAt = Date.now();
+  while (!predicate()) {
+    if (Date.now() - startedAt > timeout) throw new Error('Timed out waiting for relay');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('attachRelay', () => {
+  let server: http.Server;
+  let port: number;
+  let rooms: ReturnType<typeof createRoomRegistry>;
+  let sockets: TestSocket[];
+
+  const connect = (id: string, token: string) => new Promise<TestSocket>((resolve, reject) => {
+    const ws = new NodeWebSocket(`ws://127.0.0.1:${port}${RELAY_PATH}?id=${id}&token=${token}`);
+    const socket: TestSocket = {
+      frames: [],
+      closed: false,
+      send: frame => ws.send(JSON.stringify(frame)),
+      close: () => ws.close()
+    };
+    sockets.push(socket);
+    ws.on('message', (raw: Buffer) => socket.frames.push(JSON.parse(raw.toString())));
+    ws.on('close', () => { socket.closed = true; });
+    ws.on('open', () => resolve(socket));
+    ws.on('error', reject);
+  });
+
+  const createRoom = (hostPeerId: string) => {
+    const room = rooms.register({ hostPeerId, hostToken: undefined, code: undefined }).room!;
+    const phone = rooms.join(room.code).membership!;
+    return { room, phone };
+  };
+
+  beforeEach(async () => {
+    rooms = createRoomRegistry();
+    sockets = [];
+    server = http.createServer();
+    attachRelay(server, rooms);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    sockets.forEach(socket => socket.close());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should reject sockets that are not in a room', async () => {
+    const { room } = createRoom('host_1');
+
+    await expect(connect('host_1', 'wrong')).rejects.toThrow();
+    await expect(connect('stranger', room.hostToken)).rejects.toThrow();
+  });
+
+  it('should announce a phone to the host and the host to the phone', async () => {
+    const { room, phone } = createRoom('host_1');
+    const phoneSocket = await connect(phone.peerId, phone.peerToken);
+    const hostSocket = await connect('host_1', room.hostToken);
+
+    await until(() => hostSocket.frames.length > 0 && phoneSocket.frames.length > 0);
+
+    expect(hostSocket.frames).toEqual([{ type: 'open', peer: phone.peerId }]);
+    expect(phoneSocket.frames).toEqual([{ type: 'open' }]);
+  });
+
+  it('should route data between the host and its phones', async () => {
+    const { room, phone } = createRoom('host_1');
+    const hostSocket = await connect('host_1', room.hostToken);
+    const phoneSocket = await connect(phone.peerId, phone.peerToken);
+    await until(() => phoneSocket.frames.length === 1);
+
+    phoneSocket.send({ data: { type: 'BUZZ' } });
+    hostSocket.send({ to: phone.peerId, data: { type: 'STATE' } });
+    await until(() => hostSocket.frames.length === 2 && phoneSocket.frames.length === 2);
+
+    expect(hostSocket.frames[1]).toEqual({ type: 'data', peer: phone.peerId, data: { type: 'BUZZ' } });
+    expect(phoneSocket.frames[1]).toEqual({ type: 'data', data: { type: 'STATE' } });
+  });
+
+  it('should not let a host reach phones of another room', async () => {
+    const first = createRoom('host_1');
+    const second = createRoom('host_2');
+    const phoneSocket = await connect(first.phone.peerId, first.phone.peerToken);
+    const firstHost = await connect('host_1', first.room.hostToken);
+    const secondHost = await connect('host_2', second.room.hostToken);
+    await until(() => phoneSocket.frames.length === 1);
+
+    secondHost.send({ to: first.phone.peerId, data: 'foreign' });
+    firstHost.send({ to: first.phone.peerId, data: 'own' });
+    await until(() => phoneSocket.frames.length === 2);
+
+    expect(phoneSocket.frames[1]).toEqual({ type: 'data', data: 'own' });
+  });
+
+  it('should tell the host when a phone leaves', async () => {
+    const { room, phone } = createRoom('host_1');
+    const hostSocket = await connect('host_1', room.hostToken);
+    const phoneSocket = await connect(phone.peerId, phone.peerToken);
+    await until(() => hostSocket.frames.length === 1);
+
+    phoneSocket.close();
+    await until(() => hostSocket.frames.length === 2);
+
+    expect(hostSocket.frames[1]).toEqual({ type: 'close', peer: phone.peerId });
+  });
+
+  it('should tell phones when the host leaves', async () => {
+    const { room, phone } = createRoom('host_1');
+    const hostSocket = await connect('host_1', room.hostToken);
+    const phoneSocket = await connect(phone.peerId, phone.peerToken);
+    await until(() => phoneSocket.frames.length === 1);
+
+    hostSocket.close();
+    await until(() => phoneSocket.frames.length === 2);
+
+    expect(phoneSocket.frames[1]).toEqual({ type: 'close' });
+  });
+
+  it('should close a phone the host dropped', async () => {
+    const { room, phone } = createRoom('host_1');
+    const hostSocket = await connect('host_1', room.hostToken);
+    const phoneSocket = await connect(phone.peerId, phone.peerToken);
+    await until(() => phoneSocket.frames.length === 1);
+
+    hostSocket.send({ to: phone.peerId, close: true });
+    await until(() => phoneSocket.closed);
+
+    expect(phoneSocket.closed).toBe(true);
+  });
+});
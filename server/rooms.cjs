@@ -0,0 +1,201 @@
+/**
+ * Room registry for the LAN signalling server
+ * Host registers a room and gets a short join code plus a host token;
+ * phones join by code and get their own peer ID + token.
+ * Only registered peers (id + token) may open a PeerJS socket.
+ * A host or phone that never opens a socket (PeerJS or relay) within
+ * UNCLAIMED_TTL is dropped, so squatted host IDs and join spam don't pile up.
+ */
+
+const crypto = require('crypto');
+
+// No 0/O, 1/I - codes are read from the screen and typed on phones
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+
+const UNCLAIMED_TTL = 60 * 1000;     // Register / join -> first socket
+const JOIN_LIMIT = 20;               // Join requests per IP ...
+const JOIN_LIMIT_WINDOW = 60 * 1000; // ... per minute
+
+const randomToken = () => crypto.randomBytes(16).toString('hex');
+
+const randomCode = () => {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+};
+
+const normalizeCode = (code) => String(code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Fixed-window request counter per key (client IP)
+ * @returns allow(key) - false once the key used up its window
+ */
+function createRateLimiter({ limit = JOIN_LIMIT, windowMs = JOIN_LIMIT_WINDOW, now = Date.now } = {}) {
+  const windows = new Map(); // key -> { startedAt, count }
+
+  const allow = (key) => {
+    const time = now();
+    windows.forEach((window, windowKey) => {
+      if (time - window.startedAt >= windowMs) windows.delete(windowKey);
+    });
+    const window = windows.get(key) || { startedAt: time, count: 0 };
+    window.count++;
+    windows.set(key, window);
+    return window.count <= limit;
+  };
+
+  return { allow };
+}
+
+function createRoomRegistry({ now = Date.now } = {}) {
+  // code -> { code, hostPeerId, hostToken, locked, registeredAt, claimed, members: Map<peerId, { token, joinedAt, claimed }> }
+  const rooms = new Map();
+  const hostRooms = new Map(); // hostPeerId -> code
+  const memberRooms = new Map(); // peerId -> code
+
+  const removeRoom = (room) => {
+    rooms.delete(room.code);
+    hostRooms.delete(room.hostPeerId);
+    room.members.forEach((_, peerId) => memberRooms.delete(peerId));
+  };
+
+  // Drop hosts and phones that registered but never connected
+  const prune = () => {
+    const time = now();
+    rooms.forEach((room) => {
+      if (!room.claimed && time - room.registeredAt >= UNCLAIMED_TTL) {
+        removeRoom(room);
+        return;
+      }
+      room.members.forEach((member, peerId) => {
+        if (!member.claimed && time - member.joinedAt >= UNCLAIMED_TTL) {
+          room.members.delete(peerId);
+          memberRooms.delete(peerId);
+        }
+      });
+    });
+  };
+
+  const newCode = (preferred) => {
+    const code = normalizeCode(preferred);
+    if (code.length === CODE_LENGTH && !rooms.has(code)) return code;
+    let generated;
+    do {
+      generated = randomCode();
+    } while (rooms.has(generated));
+    return generated;
+  };
+
+  const publicRoom = (room) => ({ code: room.code, hostToken: room.hostToken, locked: room.locked, members: room.members.size });
+
+  const getHostRoom = (code, hostToken) => {
+    const room = rooms.get(normalizeCode(code));
+    if (!room) return { error: 'not_found' };
+    if (room.hostToken !== hostToken) return { error: 'forbidden' };
+    return { room };
+  };
+
+  /**
+   * Host creates its room or reclaims it after reload / server restart
+   * (same hostToken, preferred code is kept if still free)
+   */
+  const register = ({ hostPeerId, hostToken, code }) => {
+    if (!hostPeerId) return { error: 'invalid' };
+    prune();
+    const existingCode = hostRooms.get(hostPeerId);
+    if (existingCode) {
+      const existing = rooms.get(existingCode);
+      if (existing.hostToken !== hostToken) return { error: 'host_taken' };
+      return { room: publicRoom(existing) };
+    }
+    const room = {
+      code: newCode(code),
+      hostPeerId,
+      hostToken: hostToken || randomToken(),
+      locked: false,
+      registeredAt: now(),
+      claimed: false,
+      members: new Map()
+    };
+    rooms.set(room.code, room);
+    hostRooms.set(hostPeerId, room.code);
+    return { room: publicRoom(room) };
+  };
+
+  // New join code - phones already in the room stay, the old code stops working
+  const rotate = (code, hostToken) => {
+    const { room, error } = getHostRoom(code, hostToken);
+    if (error) return { error };
+    rooms.delete(room.code);
+    room.code = newCode();
+    rooms.set(room.code, room);
+    hostRooms.set(room.hostPeerId, room.code);
+    room.members.forEach((_, peerId) => memberRooms.set(peerId, room.code));
+    return { room: publicRoom(room) };
+  };
+
+  // Locked room accepts no new phones; members can still reconnect
+  const setLocked = (code, hostToken, locked) => {
+    const { room, error } = getHostRoom(code, hostToken);
+    if (error) return { error };
+    room.locked = !!locked;
+    return { room: publicRoom(room) };
+  };
+
+  /**
+   * Phone joins by code. Previous membership (peerId + token) is reused,
+   * so a reconnecting phone keeps its place even in a locked room or after the code was rotated.
+   */
+  const join = (code, previous) => {
+    prune();
+    const previousRoom = previous && previous.peerId ? rooms.get(memberRooms.get(previous.peerId)) : undefined;
+    const known = !!previousRoom && previousRoom.members.get(previous.peerId)?.token === previous.peerToken;
+    // Old code after rotation still finds the phone's room; a code of another room wins
+    const room = rooms.get(normalizeCode(code)) || (known ? previousRoom : undefined);
+    if (!room) return { error: 'not_found' };
+    if (known && room === previousRoom) {
+      return { membership: { code: room.code, hostPeerId: room.hostPeerId, peerId: previous.peerId, peerToken: previous.peerToken } };
+    }
+    if (room.locked) return { error: 'locked' };
+    const peerId = 'peer_' + randomToken().slice(0, 12);
+    const peerToken = randomToken();
+    room.members.set(peerId, { token: peerToken, joinedAt: now(), claimed: false });
+    memberRooms.set(peerId, room.code);
+    return { membership: { code: room.code, hostPeerId: room.hostPeerId, peerId, peerToken } };
+  };
+
+  // Host of a room or a member with its token -> { hostPeerId, isHost }, anyone else -> null
+  const resolvePeer = (peerId, token) => {
+    prune();
+    const hostCode = hostRooms.get(peerId);
+    if (hostCode) {
+      return rooms.get(hostCode).hostToken === token ? { hostPeerId: peerId, isHost: true } : null;
+    }
+    const room = rooms.get(memberRooms.get(peerId));
+    if (room && room.members.get(peerId).token === token) return { hostPeerId: room.hostPeerId, isHost: false };
+    return null;
+  };
+
+  /**
+   * PeerJS / relay socket check. An accepted socket claims the registration -
+   * from then on it no longer expires.
+   */
+  const isAllowed = (peerId, token) => {
+    const peer = resolvePeer(peerId, token);
+    if (!peer) return false;
+    const room = rooms.get(hostRooms.get(peer.hostPeerId));
+    if (peer.isHost) {
+      room.claimed = true;
+    } else {
+      room.members.get(peerId).claimed = true;
+    }
+    return true;
+  };
+
+  return { register, rotate, setLocked, join, resolvePeer, isAllowed };
+}
+
+module.exports = { createRoomRegistry, createRateLimiter, UNCLAIMED_TTL };
@@ -0,0 +1,190 @@
+/**
+ * Room Registry Tests
+ * Тесты комнат сигнального сервера: регистрация хоста, смена кода, блокировка, вход телефонов
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createRoomRegistry, createRateLimiter, UNCLAIMED_TTL } from './rooms.cjs';
+
+describe('createRoomRegistry', () => {
+  let time: number;
+  let rooms: ReturnType<typeof createRoomRegistry>;
+
+  const registerHost = (hostPeerId = 'host_1', hostToken?: string, code?: string) => {
+    const { room } = rooms.register({ hostPeerId, hostToken, code });
+    return room!;
+  };
+
+  beforeEach(() => {
+    time = 1_000_000;
+    rooms = createRoomRegistry({ now: () => time });
+  });
+
+  describe('register', () => {
+    it('should create a room with a short code and host token', () => {
+      const room = registerHost();
+
+      expect(room.code).toMatch(/^[A-HJ-NP-Z2-9]{4}$/);
+      expect(room.hostToken).toHaveLength(32);
+      expect(room).toMatchObject({ locked: false, members: 0 });
+    });
+
+    it('should let the host reclaim its room with the same token', () => {
+      const room = registerHost();
+
+      expect(rooms.register({ hostPeerId: 'host_1', hostToken: room.hostToken, code: undefined }).room).toEqual(room);
+    });
+
+    it('should not give the host ID to another token', () => {
+      registerHost();
+
+      expect(rooms.register({ hostPeerId: 'host_1', hostToken: 'other', code: undefined })).toEqual({ error: 'host_taken' });
+    });
+
+    it('should keep the preferred code after a server restart', () => {
+      expect(registerHost('host_1', 'token', 'abcd').code).toBe('ABCD');
+      expect(registerHost('host_2', 'token2', 'ABCD').code).not.toBe('ABCD');
+    });
+
+    it('should reject a request without host ID', () => {
+      expect(rooms.register({ hostPeerId: '', hostToken: undefined, code: undefined })).toEqual({ error: 'invalid' });
+    });
+  });
+
+  describe('rotate', () => {
+    it('should replace the code and keep members', () => {
+      const room = registerHost();
+      const { membership } = rooms.join(room.code);
+
+      const { room: rotated } = rooms.rotate(room.code, room.hostToken);
+
+      expect(rotated!.code).not.toBe(room.code);
+      expect(rotated!.members).toBe(1);
+      expect(rooms.join(room.code)).toEqual({ error: 'not_found' });
+      expect(rooms.join(room.code, membership).membership).toEqual({ ...membership, code: rotated!.code });
+    });
+
+    it('should only let the host rotate', () => {
+      const room = registerHost();
+
+      expect(rooms.rotate(room.code, 'other')).toEqual({ error: 'forbidden' });
+      expect(rooms.rotate('ZZZZ', room.hostToken)).toEqual({ error: 'not_found' });
+    });
+  });
+
+  describe('setLocked', () => {
+    it('should keep new phones out of a locked room but let members back in', () => {
+      const room = registerHost();
+      const { membership } = rooms.join(room.code);
+
+      expect(rooms.setLocked(room.code, room.hostToken, true).room!.locked).toBe(true);
+
+      expect(rooms.join(room.code)).toEqual({ error: 'locked' });
+      expect(rooms.join(room.code, membership).membership).toEqual(membership);
+    });
+
+    it('should only let the host lock', () => {
+      const room = registerHost();
+
+      expect(rooms.setLocked(room.code, 'other', true)).toEqual({ error: 'forbidden' });
+    });
+  });
+
+  describe('join', () => {
+    it('should give each phone its own peer ID and token', () => {
+      const room = registerHost();
+
+      const first = rooms.join(room.code.toLowerCase()).membership!;
+      const second = rooms.join(room.code).membership!;
+
+      expect(first).toMatchObject({ code: room.code, hostPeerId: 'host_1' });
+      expect(first.peerId).toMatch(/^peer_/);
+      expect(second.peerId).not.toBe(first.peerId);
+    });
+
+    it('should not reuse a membership with a wrong token', () => {
+      const room = registerHost();
+      const { membership } = rooms.join(room.code);
+
+      const rejoined = rooms.join(room.code, { peerId: membership!.peerId, peerToken: 'guess' }).membership!;
+
+      expect(rejoined.peerId).not.toBe(membership!.peerId);
+    });
+
+    it('should move a phone to the room of a new code', () => {
+      const first = registerHost('host_1');
+      const second = registerHost('host_2');
+      const { membership } = rooms.join(first.code);
+
+      const moved = rooms.join(second.code, membership).membership!;
+
+      expect(moved.hostPeerId).toBe('host_2');
+      expect(moved.peerId).not.toBe(membership!.peerId);
+    });
+
+    it('should report an unknown code', () => {
+      expect(rooms.join('ZZZZ')).toEqual({ error: 'not_found' });
+    });
+  });
+
+  describe('resolvePeer / isAllowed', () => {
+    it('should accept the host and members with their tokens only', () => {
+      const room = registerHost();
+      const { membership } = rooms.join(room.code);
+
+      expect(rooms.resolvePeer('host_1', room.hostToken)).toEqual({ hostPeerId: 'host_1', isHost: true });
+      expect(rooms.resolvePeer(membership!.peerId, membership!.peerToken)).toEqual({ hostPeerId: 'host_1', isHost: false });
+      expect(rooms.isAllowed('host_1', 'other')).toBe(false);
+      expect(rooms.isAllowed(membership!.peerId, room.hostToken)).toBe(false);
+      expect(rooms.isAllowed('stranger', null)).toBe(false);
+    });
+  });
+
+  describe('expiry', () => {
+    it('should drop a host registration that never connected', () => {
+      const room = registerHost();
+
+      time += UNCLAIMED_TTL;
+
+      expect(rooms.join(room.code)).toEqual({ error: 'not_found' });
+      expect(rooms.register({ hostPeerId: 'host_1', hostToken: 'other', code: undefined }).room).toBeDefined();
+    });
+
+    it('should keep a room whose host connected', () => {
+      const room = registerHost();
+      expect(rooms.isAllowed('host_1', room.hostToken)).toBe(true);
+
+      time += UNCLAIMED_TTL * 10;
+
+      expect(rooms.join(room.code).membership).toBeDefined();
+    });
+
+    it('should drop phones that joined but never connected', () => {
+      const room = registerHost();
+      rooms.isAllowed('host_1', room.hostToken);
+      const idle = rooms.join(room.code).membership!;
+      const active = rooms.join(room.code).membership!;
+      expect(rooms.isAllowed(active.peerId, active.peerToken)).toBe(true);
+
+      time += UNCLAIMED_TTL;
+
+      expect(rooms.isAllowed(idle.peerId, idle.peerToken)).toBe(false);
+      expect(rooms.isAllowed(active.peerId, active.peerToken)).toBe(true);
+      expect(rooms.setLocked(room.code, room.hostToken, false).room!.members).toBe(1);
+    });
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('should allow up to the limit per key and window', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000, now: () => time });
+
+    expect([limiter.allow('a'), limiter.allow('a'), limiter.allow('a')]).toEqual([true, true, false]);
+    expect(limiter.allow('b')).toBe(true);
+
+    time = 1000;
+
+    expect(limiter.allow('a')).toBe(true);
+  });
+});
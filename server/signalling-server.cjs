@@ -1,14 +1,55 @@
 /**
  * PeerJS Signalling Server for LAN mode
- * This server facilitates WebRTC peer discovery within local network
+ * This server facilitates WebRTC peer discovery within local network.
+ * The HTTP side also serves the production build (dist/) and reports
+ * the machine's LAN addresses, so one `npm start` runs the whole game.
+ * When WebRTC is blocked, game messages are relayed over WebSocket (relay.cjs).
  */
 
 const { PeerServer } = require('peer');
+const { WebSocketServer } = require('ws');
 const express = require('express');
 const net = require('net');
+const os = require('os');
+const fs = require('fs');
+const path = require('path');
+const { createRoomRegistry, createRateLimiter } = require('./rooms.cjs');
+const { attachRelay, RELAY_PATH } = require('./relay.cjs');
 
 const PORT = 9000;
 const HTTP_PORT = 9001;
+const DIST_DIR = path.join(__dirname, '..', 'dist');
+
+const rooms = createRoomRegistry();
+const joinLimiter = createRateLimiter();
+
+const ROOM_ERROR_STATUS = { invalid: 400, forbidden: 403, not_found: 404, host_taken: 409, locked: 423, rate_limited: 429 };
+
+// Non-loopback IPv4 addresses of this machine (Wi-Fi, Ethernet, hotspot...)
+const getLanAddresses = () => {
+  const addresses = [];
+  const interfaces = os.networkInterfaces();
+  for (const [name, entries] of Object.entries(interfaces)) {
+    for (const entry of entries || []) {
+      // family is 'IPv4' or 4 depending on Node version
+      const isIPv4 = entry.family === 'IPv4' || entry.family === 4;
+      if (isIPv4 && !entry.internal) {
+        addresses.push({ name, address: entry.address });
+      }
+    }
+  }
+  return addresses;
+};
+
+// Pages served by this machine (built app or Vite dev server on any port) may change rooms
+const isLocalOrigin = (origin) => {
+  try {
+    const { hostname } = new URL(origin);
+    return ['localhost', '127.0.0.1'].includes(hostname) || getLanAddresses().some(({ address }) => address === hostname);
+  } catch {
+    return false;
+  }
+};
 
 // Check if port is already in use
 const isPortInUse = (port) => {
@@ -36,12 +77,22 @@ isPortInUse(PORT).then((inUse) => {
 
 function startServer() {
 
-// Create PeerJS server
+// Create PeerJS server - only peers registered in a room may open a socket
 const peerServer = PeerServer({
   port: PORT,
   path: '/peerjs',
-  allow_discovery: true,
-  debug: true
+  allow_discovery: false,
+  debug: true,
+  createWebSocketServer: (options) => new WebSocketServer({
+    ...options,
+    verifyClient: ({ req }) => {
+      const { searchParams } = new URL(req.url || '', 'http://peerjs');
+      const id = searchParams.get('id');
+      if (rooms.isAllowed(id, searchParams.get('token'))) return true;
+      console.warn(`[Signalling Server] ⛔ Rejected peer not in a room: ${id}`);
+      return false;
+    }
+  })
 });
 
   // Event logging (compact format to avoid cluttering)
@@ -57,23 +108,110 @@ const peerServer = PeerServer({
     console.error(`[Signalling Server] Error:`, error.message);
   });
 
-// Create HTTP server for health check (separate port)
+// Create HTTP server for health check, network info and the built app (separate port)
 const app = express();
+const hasBuild = fs.existsSync(path.join(DIST_DIR, 'index.html'));
+
+// Host page may come from the Vite dev server (another origin).
+// Read-only endpoints are open; room changes only for pages of this machine.
+app.use(['/health', '/api'], (req, res, next) => {
+  const origin = req.get('Origin');
+  const isRoomChange = req.baseUrl === '/api' && req.path.startsWith('/rooms');
+  if (!isRoomChange) {
+    res.set('Access-Control-Allow-Origin', '*');
+  } else if (origin && isLocalOrigin(origin)) {
+    res.set('Access-Control-Allow-Origin', origin);
+    res.set('Vary', 'Origin');
+  }
+  res.set('Access-Control-Allow-Methods', 'GET, POST');
+  res.set('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+app.use('/api', express.json());
 
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', mode: 'peerjs-lan', timestamp: Date.now() });
+  res.json({ status: 'ok', mode: 'peerjs-lan', relay: true, timestamp: Date.now() });
+});
+
+app.get('/api/network', (req, res) => {
+  res.json({
+    addresses: getLanAddresses(),
+    signallingPort: PORT,
+    httpPort: HTTP_PORT,
+    servesApp: hasBuild
+  });
+});
+
+// Rooms: { room } or { membership } on success, { error } with HTTP status otherwise
+const sendRoomResult = (res, result) => {
+  if (result.error) {
+    res.status(ROOM_ERROR_STATUS[result.error] || 400).json({ error: result.error });
+    return;
+  }
+  res.json(result.room || result.membership);
+};
+
+app.post('/api/rooms', (req, res) => {
+  const { hostPeerId, hostToken, code } = req.body || {};
+  const result = rooms.register({ hostPeerId, hostToken, code });
+  if (result.room) console.log(`[Signalling Server] 🏠 Room ${result.room.code} for ${hostPeerId}`);
+  sendRoomResult(res, result);
+});
+
+app.post('/api/rooms/:code/rotate', (req, res) => {
+  const result = rooms.rotate(req.params.code, req.body?.hostToken);
+  if (result.room) console.log(`[Signalling Server] 🔄 Room ${req.params.code} -> ${result.room.code}`);
+  sendRoomResult(res, result);
+});
+
+app.post('/api/rooms/:code/lock', (req, res) => {
+  const result = rooms.setLocked(req.params.code, req.body?.hostToken, req.body?.locked);
+  if (result.room) console.log(`[Signalling Server] ${result.room.locked ? '🔒' : '🔓'} Room ${result.room.code}`);
+  sendRoomResult(res, result);
 });
 
-app.get('/', (req, res) => {
-  res.send('PeerJS Signalling Server running on port ' + PORT);
+app.post('/api/rooms/:code/join', (req, res) => {
+  // Codes are short - guessing them must be slow
+  if (!joinLimiter.allow(req.ip)) {
+    console.warn(`[Signalling Server] ⛔ Too many join attempts from ${req.ip}`);
+    sendRoomResult(res, { error: 'rate_limited' });
+    return;
+  }
+  const { peerId, peerToken } = req.body || {};
+  sendRoomResult(res, rooms.join(req.params.code, { peerId, peerToken }));
 });
 
+if (hasBuild) {
+  // App uses hash routing (#/mobile, #/screen) - index.html is enough, no SPA fallback needed
+  app.use(express.static(DIST_DIR));
+} else {
+  app.get('/', (req, res) => {
+    res.send('PeerJS Signalling Server running on port ' + PORT + '. Run `npm run build` to serve the app from here.');
+  });
+}
+
   const httpServer = app.listen(HTTP_PORT, () => {
     console.log(`[Signalling Server] HTTP health check on port ${HTTP_PORT}`);
     console.log(`[Signalling Server] PeerJS ready on ws://0.0.0.0:${PORT}/peerjs`);
+    console.log(`[Signalling Server] Relay fallback on ws://0.0.0.0:${HTTP_PORT}${RELAY_PATH}`);
+    if (hasBuild) {
+      console.log(`[Signalling Server] 🎮 App served from dist/:`);
+      getLanAddresses().forEach(({ name, address }) => {
+        console.log(`[Signalling Server]    http://${address}:${HTTP_PORT}  (${name})`);
+      });
+    } else {
+      console.log(`[Signalling Server] No dist/ build found - use the Vite dev server for the app`);
+    }
     console.log(''); // Empty line for separation
   });
 
+  // Game messages over WebSocket for phones whose WebRTC data channel can't connect
+  attachRelay(httpServer, rooms);
+
   // Handle server shutdown
   const shutdown = () => {
     console.log('\n[Signalling Server] Shutting down...');
@@ -0,0 +1,21 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: [
+    './index.html',
+    './*.{ts,tsx}',
+    './components/**/*.{ts,tsx}',
+    './hooks/**/*.{ts,tsx}',
+    './utils/**/*.{ts,tsx}'
+  ],
+  theme: {
+    extend: {
+      borderRadius: {
+        DEFAULT: '2px',
+        lg: '4px',
+        xl: '6px',
+        '2xl': '8px',
+      }
+    }
+  },
+  plugins: []
+};
@@ -23,6 +23,7 @@ export interface Team {
   createdAt: number;
   lastUsedAt: number;
   score?: number;
+  captainId?: string;  // persistentClientId of the captain (super game bets can be restricted to them)
 }
 
 /**
@@ -116,6 +117,8 @@ export interface TeamConfirmedMessage extends P2PMessage {
   type: 'TEAM_CONFIRMED';
   payload: {
     clientId: string;  // The client ID being confirmed
+    teamId?: string;   // Team the client is in
+    teamName?: string; // Sent with host assignment (roster) so the phone can show the team
   };
 }
 
@@ -162,6 +165,25 @@ export interface QRCodeStateMessage extends P2PMessage {
   };
 }
 
+// STATE: League table shown on demo screen (host toggles it between rounds)
+export interface LeagueTableRow {
+  rank: number;
+  teamName: string;
+  points: number;
+  gamesPlayed: number;
+  wins: number;
+}
+
+export interface LeagueTableMessage extends P2PMessage {
+  category: MessageCategory.STATE;
+  type: 'LEAGUE_TABLE';
+  payload: {
+    visible: boolean;
+    seasonName?: string;
+    rows?: LeagueTableRow[];
+  };
+}
+
 // STATE: Timer control for explicit timer management
 export interface TimerControlMessage extends P2PMessage {
   category: MessageCategory.STATE;
@@ -235,6 +257,91 @@ export interface SuperGameAnswerMessage extends P2PMessage {
   };
 }
 
+/**
+ * Special board question announced to phones and demo screen (GAME_STATE_UPDATE.specialQuestion)
+ * - reveal: "cat in a bag" / "no risk" splash, host picks the team
+ * - bidding: auction is open, phones send AUCTION_BID
+ * - playing: question is open (teamId answers alone for cat in a bag and auction)
+ */
+export interface SpecialQuestionInfo {
+  kind: 'catInBag' | 'auction' | 'noRisk';
+  stage: 'reveal' | 'bidding' | 'playing';
+  questionId: string;
+  themeName: string;     // Hidden theme for cat in a bag
+  points: number;        // Price / current stake
+  teamId?: string;       // Team that answers (cat receiver / auction winner)
+  teamName?: string;
+  bids?: Array<{ teamId: string; teamName: string; bid: number; pass?: boolean }>;
+}
+
+// EVENT: Auction bid from mobile client
+export interface AuctionBidMessage extends P2PMessage {
+  category: MessageCategory.EVENT;
+  type: 'AUCTION_BID';
+  payload: {
+    teamId: string;
+    questionId: string;
+    bid: number;
+    pass?: boolean;
+  };
+}
+
+/**
+ * Quiz phase
+ * - idle: quiz not started (cover screen)
+ * - question: question is open, every team may submit an answer
+ * - locked: timer ended, answers are locked and host is reviewing them
+ * - reveal: correct answer and per-team results are shown
+ * - results: quiz finished, final standings
+ */
+export type QuizPhase = 'idle' | 'question' | 'locked' | 'reveal' | 'results';
+
+// Per-team outcome of a quiz question (sent only in reveal phase)
+export interface QuizTeamResult {
+  teamId: string;
+  teamName: string;
+  answer: string | null;
+  isCorrect: boolean;
+  pointsAwarded: number;
+}
+
+// STATE: Quiz state broadcast from host to mobile clients and demo screen
+export interface QuizStateMessage extends P2PMessage {
+  category: MessageCategory.STATE;
+  type: 'QUIZ_STATE';
+  payload: {
+    phase: QuizPhase;
+    questionId?: string;
+    questionIndex: number;      // 0-based index of current question
+    totalQuestions: number;
+    questionText?: string;
+    questionMedia?: { type: string; url?: string };
+    options?: string[];         // Multiple choice options (absent for text answers)
+    points?: number;
+    timeLimit?: number;         // Seconds
+    timeRemaining?: number;     // Seconds, at the moment of sending
+    isPaused?: boolean;         // Question timer paused by host / moderator
+    answeredTeamIds?: string[]; // Teams that already submitted (answers stay hidden until reveal)
+    correctAnswer?: string;     // Only in reveal phase
+    correctOptionIndex?: number;
+    results?: QuizTeamResult[]; // Only in reveal phase
+    teamScores?: Array<{ id: string; name: string; score: number }>;
+  };
+}
+
+// EVENT: Quiz answer submitted from mobile client
+export interface QuizAnswerMessage extends P2PMessage {
+  category: MessageCategory.EVENT;
+  type: 'QUIZ_ANSWER';
+  payload: {
+    clientId: string;
+    teamId: string;
+    questionId: string;
+    answer: string;
+    optionIndex?: number;       // Selected option for multiple choice questions
+  };
+}
+
 // SYNC: Periodic state sync from host to clients
 export interface StateSyncMessage extends P2PMessage {
   category: MessageCategory.SYNC;
@@ -287,6 +394,13 @@ export interface PingMessage extends P2PMessage {
   type: 'PING';
   payload: {
     timestamp: number;
+    // Timestamps of the previous PING/PONG round trip (client clock except serverTimestamp)
+    // Host uses them to estimate client clock offset (see utils/clockSync.ts)
+    lastPong?: {
+      originalTimestamp: number;
+      serverTimestamp: number;
+      receivedTimestamp: number;
+    };
   };
 }
 
@@ -397,17 +511,41 @@ export interface TimerDisplayMessage extends P2PMessage {
 }
 
 // CONTROL: Moderator control actions
+export type ModeratorAction =
+  'correct_answer' | 'incorrect_answer' | 'show_answer' |
+  'start_question' | 'skip_question' | 'award_points' |
+  'deduct_points' | 'timer_control';
+
+// Moderator action with its data, discriminated by action
+export type ModeratorActionPayload =
+  | { action: Exclude<ModeratorAction, 'award_points' | 'deduct_points' | 'timer_control'> }
+  | { action: 'award_points' | 'deduct_points'; data: { teamId: string; points: number } }
+  | { action: 'timer_control'; data: { paused: boolean } };
+
 export interface ModeratorActionMessage extends P2PMessage {
   category: MessageCategory.CONTROL;
   type: 'MODERATOR_ACTION';
+  payload: ModeratorActionPayload;
+}
+
+// CONTROL: Host decision on moderator join request
+export interface ModeratorStatusMessage extends P2PMessage {
+  category: MessageCategory.CONTROL;
+  type: 'MODERATOR_STATUS';
   payload: {
-    action: 'correct_answer' | 'incorrect_answer' | 'show_answer' |
-            'start_question' | 'skip_question' | 'award_points' |
-            'deduct_points' | 'timer_control';
-    data?: any;
+    status: 'pending' | 'approved' | 'rejected';
   };
 }
 
+// Host session log entry (moderator joins and actions)
+export interface SessionLogEntry {
+  id: string;
+  timestamp: number;
+  actor: string;       // Who performed the action (moderator name or 'Host')
+  action: string;
+  details?: string;
+}
+
 // STATE: Media file transfer from host to screen
 export interface MediaTransferMessage extends P2PMessage {
   category: MessageCategory.STATE;
@@ -419,11 +557,68 @@ export interface MediaTransferMessage extends P2PMessage {
     fileType: string;
     fileSize: number;
     fileData?: string;         // Base64 encoded file data (for local files)
+    hash?: string;             // Content hash of a local file - bytes come as MEDIA_CHUNKs
     url?: string;              // Direct URL (for YouTube or external links)
     isYouTube: boolean;        // True if this is a YouTube link
   };
 }
 
+// STATE: Host asks the demo screen which media (content hashes) it already has
+export interface MediaInventoryQueryMessage extends P2PMessage {
+  category: MessageCategory.STATE;
+  type: 'MEDIA_INVENTORY_QUERY';
+  payload: {
+    hashes: string[];
+  };
+}
+
+// STATE: Demo screen answer - stored files and where unfinished ones stopped
+export interface MediaInventoryMessage extends P2PMessage {
+  category: MessageCategory.STATE;
+  type: 'MEDIA_INVENTORY';
+  payload: {
+    have: string[];
+    missing: Record<string, number>;  // hash -> first chunk the screen still needs
+  };
+}
+
+// STATE: Start (or resume) of a chunked file transfer to the demo screen
+export interface MediaChunkMetadataMessage extends P2PMessage {
+  category: MessageCategory.STATE;
+  type: 'MEDIA_CHUNK_METADATA';
+  payload: {
+    hash: string;
+    fileName: string;
+    fileType: string;
+    fileSize: number;
+    chunkSize: number;
+    totalChunks: number;
+    startChunk: number;
+  };
+}
+
+// STATE: One chunk of file bytes (base64 on the wire only over the JSON relay)
+export interface MediaChunkMessage extends P2PMessage {
+  category: MessageCategory.STATE;
+  type: 'MEDIA_CHUNK';
+  payload: {
+    hash: string;
+    index: number;
+    data: ArrayBuffer;
+  };
+}
+
+// STATE: Demo screen stored a chunk in IndexedDB
+export interface MediaChunkAckMessage extends P2PMessage {
+  category: MessageCategory.STATE;
+  type: 'MEDIA_CHUNK_ACK';
+  payload: {
+    hash: string;
+    index: number;
+    complete: boolean;  // Last chunk stored and the file checked against its hash
+  };
+}
+
 // SYNC: Request media file from host
 export interface MediaRequestMessage extends P2PMessage {
   category: MessageCategory.SYNC;
@@ -475,6 +670,7 @@ export interface MediaStatusReportMessage extends P2PMessage {
 export type P2PSMessage =
   | TeamStateMessage
   | TeamConfirmedMessage
+  | LeagueTableMessage
   | ScoreStateMessage
   | BuzzerStateMessage
   | TimerControlMessage
@@ -482,6 +678,9 @@ export type P2PSMessage =
   | BuzzEventNotifyMessage
   | SuperGameBetMessage
   | SuperGameAnswerMessage
+  | AuctionBidMessage
+  | QuizStateMessage
+  | QuizAnswerMessage
   | StateSyncMessage
   | HandshakeMessage
   | HandshakeResponseMessage
@@ -497,11 +696,17 @@ export type P2PSMessage =
   | StateDeltaV2Message
   | TimerDisplayMessage
   | ModeratorActionMessage
+  | ModeratorStatusMessage
   | MediaTransferMessage
   | MediaRequestMessage
   | MediaReadinessQueryMessage
   | MediaReadinessResponseMessage
-  | MediaStatusReportMessage;
+  | MediaStatusReportMessage
+  | MediaInventoryQueryMessage
+  | MediaInventoryMessage
+  | MediaChunkMetadataMessage
+  | MediaChunkMessage
+  | MediaChunkAckMessage;
 
 // Message handler type
 export type MessageHandler = (message: P2PSMessage, peerId: string) => void;
@@ -0,0 +1,45 @@
+/**
+ * Answer Matcher Tests
+ * Тесты предварительной проверки введённых ответов
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeAnswer, levenshtein, parseNumericAnswer, matchAnswer } from './answerMatcher';
+
+describe('answerMatcher', () => {
+  it('should normalize case, ё/е, diacritics and punctuation but keep й', () => {
+    expect(normalizeAnswer('  Ёжик   в тумане!  ')).toBe('ежик в тумане');
+    expect(normalizeAnswer('Crème Brûlée')).toBe('creme brulee');
+    expect(normalizeAnswer('Толстой, Л.Н.')).toBe('толстой л н');
+    expect(levenshtein('пушкин', 'пушкен')).toBe(1);
+    expect(parseNumericAnswer('1 945 год')).toBe(1945);
+    expect(parseNumericAnswer('3,14')).toBe(3.14);
+    expect(parseNumericAnswer('от 5 до 7')).toBeNull();
+  });
+
+  it('should classify text answers by policy and accepted variants', () => {
+    const question = { answerText: 'Пушкин', acceptedAnswers: ['А. С. Пушкин', 'Alexander Pushkin'] };
+
+    expect(matchAnswer('пушкин', question).suggestion).toBe('likely-correct');
+    expect(matchAnswer('alexander pushkin', question).variant).toBe('Alexander Pushkin');
+    expect(matchAnswer('Пушкен', question)).toMatchObject({ suggestion: 'unsure', reason: '1 typo' });
+    expect(matchAnswer('Пушкен', { ...question, answerMatch: { mode: 'fuzzy' } }).suggestion).toBe('likely-correct');
+    expect(matchAnswer('Лермонтов', question).suggestion).toBe('likely-wrong');
+    expect(matchAnswer('', question).suggestion).toBe('likely-wrong');
+
+    expect(matchAnswer('ёлка', { answerText: 'Елка' }).suggestion).toBe('likely-correct');
+    expect(matchAnswer('елка', { answerText: 'Ёлка', answerMatch: { mode: 'exact' } }).suggestion).toBe('unsure');
+    expect(matchAnswer('Чехов', { answerText: 'Антон Павлович Чехов' })).toMatchObject({ suggestion: 'unsure', reason: 'partial match' });
+    expect(matchAnswer('что-то', {}).suggestion).toBe('unsure');
+  });
+
+  it('should compare numbers with tolerance', () => {
+    const question = { answerText: '1945', answerMatch: { mode: 'numeric' as const, numericTolerance: 2 } };
+
+    expect(matchAnswer('1 945', question).suggestion).toBe('likely-correct');
+    expect(matchAnswer('в 1947 году', question).suggestion).toBe('likely-correct');
+    expect(matchAnswer('1949', question)).toMatchObject({ suggestion: 'unsure', reason: 'off by 4' });
+    expect(matchAnswer('1812', question).suggestion).toBe('likely-wrong');
+    expect(matchAnswer('после войны', question).suggestion).toBe('unsure');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Answer Matcher
+ *
+ * Pre-classifies typed answers (super game, quiz) against the correct answer
+ * and accepted variants of a question. The result is only a suggestion -
+ * the host always makes the final call.
+ *
+ * Сравнение без учёта регистра, ё/е, диакритики и пунктуации;
+ * опечатки - по расстоянию Левенштейна, числа - с допуском.
+ */
+
+import type { AnswerMatchPolicy, Question } from '../components/host/packeditor/types';
+
+export type AnswerSuggestion = 'likely-correct' | 'likely-wrong' | 'unsure';
+
+export interface AnswerMatchResult {
+  suggestion: AnswerSuggestion;
+  variant?: string;  // Accepted variant the answer was matched with
+  reason: string;    // Short explanation for the host
+}
+
+type MatchableQuestion = Pick<Question, 'answerText' | 'acceptedAnswers' | 'answerMatch'>;
+
+const DEFAULT_POLICY: AnswerMatchPolicy = { mode: 'normalized' };
+
+const SUGGESTION_RANK: Record<AnswerSuggestion, number> = { 'likely-wrong': 0, 'unsure': 1, 'likely-correct': 2 };
+
+/**
+ * Normalize answer for comparison:
+ * lower case, ё → е, diacritics removed (й is kept - it is a separate letter),
+ * punctuation collapsed to single spaces
+ */
+export function normalizeAnswer(text: string): string {
+  return Array.from(text.toLowerCase().replace(/ё/g, 'е'))
+    .map(ch => ch === 'й' ? ch : ch.normalize('NFD').replace(/\p{M}/gu, ''))
+    .join('')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein edit distance (insert / delete / replace one character)
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Single number in the answer ("1 945", "3,14", "1945 год")
+ * @returns number or null when there is no number or more than one
+ */
+export function parseNumericAnswer(text: string): number | null {
+  const compact = text.replace(/(\d)\s(?=\d{3}(?!\d))/g, '$1');
+  const numbers = compact.match(/-?\d+(?:[.,]\d+)?/g);
+  if (!numbers || numbers.length !== 1) return null;
+  return parseFloat(numbers[0].replace(',', '.'));
+}
+
+/** Typos tolerated by default for a correct answer of this length */
+const autoDistance = (length: number): number =>
+  length <= 3 ? 0 : length <= 6 ? 1 : length <= 12 ? 2 : 3;
+
+/** Correct answer text and accepted variants, without empty and duplicate entries */
+export function getAcceptedVariants(question: MatchableQuestion): string[] {
+  const variants = [question.answerText, ...(question.acceptedAnswers || [])]
+    .map(v => v?.trim() || '')
+    .filter(Boolean);
+  return Array.from(new Set(variants));
+}
+
+function matchNumeric(answer: string, variants: string[], tolerance: number): AnswerMatchResult {
+  const value = parseNumericAnswer(answer);
+  if (value === null) {
+    return { suggestion: 'unsure', reason: 'not a number' };
+  }
+
+  const candidates = variants
+    .map(variant => ({ variant, expected: parseNumericAnswer(variant) }))
+    .filter((c): c is { variant: string; expected: number } => c.expected !== null)
+    .map(c => ({ variant: c.variant, diff: Math.abs(value - c.expected) }))
+    .sort((a, b) => a.diff - b.diff);
+
+  if (candidates.length === 0) return { suggestion: 'unsure', reason: 'correct answer is not a number' };
+  const { variant } = candidates[0];
+  const diff = Number(candidates[0].diff.toPrecision(6));  // 0.30000000000000004 → 0.3
+
+  if (diff <= tolerance) {
+    return { suggestion: 'likely-correct', variant, reason: diff === 0 ? 'same number' : `within ±${tolerance}` };
+  }
+  if (tolerance > 0 && diff <= tolerance * 2) {
+    return { suggestion: 'unsure', variant, reason: `off by ${diff}` };
+  }
+  return { suggestion: 'likely-wrong', variant, reason: `off by ${diff}` };
+}
+
+function matchText(answer: string, variant: string, policy: AnswerMatchPolicy): AnswerMatchResult {
+  if (answer.trim() === variant) {
+    return { suggestion: 'likely-correct', variant, reason: 'exact match' };
+  }
+
+  const normalizedAnswer = normalizeAnswer(answer);
+  const normalizedVariant = normalizeAnswer(variant);
+
+  if (normalizedAnswer === normalizedVariant) {
+    return policy.mode === 'exact'
+      ? { suggestion: 'unsure', variant, reason: 'differs in case or punctuation' }
+      : { suggestion: 'likely-correct', variant, reason: 'same answer' };
+  }
+  if (policy.mode === 'exact') {
+    return { suggestion: 'likely-wrong', variant, reason: 'no match' };
+  }
+
+  const distance = levenshtein(normalizedAnswer, normalizedVariant);
+  const allowed = policy.mode === 'fuzzy' ? (policy.maxDistance ?? autoDistance(normalizedVariant.length)) : 0;
+  const typos = `${distance} typo${distance === 1 ? '' : 's'}`;
+
+  if (distance <= allowed) {
+    return { suggestion: 'likely-correct', variant, reason: typos };
+  }
+  if (distance <= Math.max(allowed * 2, autoDistance(normalizedVariant.length))) {
+    return { suggestion: 'unsure', variant, reason: typos };
+  }
+
+  // "Александр Пушкин" for "Пушкин" and vice versa
+  const padded = (s: string) => ` ${s} `;
+  if (normalizedAnswer && normalizedVariant &&
+      (padded(normalizedAnswer).includes(padded(normalizedVariant)) || padded(normalizedVariant).includes(padded(normalizedAnswer)))) {
+    return { suggestion: 'unsure', variant, reason: 'partial match' };
+  }
+
+  return { suggestion: 'likely-wrong', variant, reason: 'no match' };
+}
+
+/**
+ * Suggest whether typed answer is correct
+ * @param answer - Answer as typed by the team
+ * @param question - Question with answerText / acceptedAnswers / answerMatch
+ * @returns Best match over all accepted variants ('unsure' when question has none)
+ */
+export function matchAnswer(answer: string, question: MatchableQuestion): AnswerMatchResult {
+  const variants = getAcceptedVariants(question);
+  if (variants.length === 0) {
+    return { suggestion: 'unsure', reason: 'no correct answer in pack' };
+  }
+  if (!answer.trim()) {
+    return { suggestion: 'likely-wrong', reason: 'empty answer' };
+  }
+
+  const policy = question.answerMatch ?? DEFAULT_POLICY;
+  if (policy.mode === 'numeric') {
+    return matchNumeric(answer, variants, policy.numericTolerance ?? 0);
+  }
+
+  return variants
+    .map(variant => matchText(answer, variant, policy))
+    .reduce((best, result) => SUGGESTION_RANK[result.suggestion] > SUGGESTION_RANK[best.suggestion] ? result : best);
+}
@@ -0,0 +1,60 @@
+/**
+ * Audience Groups Tests
+ * Тесты учёта сыгранных вопросов и сборки пакета из несыгранных
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createAudienceGroup, addPlayedQuestions, getPlayedStats, buildUnplayedPack } from './audienceGroups';
+import type { GamePack } from '../components/host/packeditor/types';
+
+const pack = (id: string, rounds: { name: string; themes: Record<string, string[]>; disabled?: boolean }[]): GamePack => ({
+  id,
+  name: id,
+  createdAt: 0,
+  rounds: rounds.map((round, r) => ({
+    id: `${id}-r${r}`,
+    name: round.name,
+    disabled: round.disabled,
+    themes: Object.entries(round.themes).map(([name, questionIds]) => ({
+      id: `${id}-${name}`,
+      name,
+      questions: questionIds.map(qid => ({ id: qid, text: qid }))
+    }))
+  }))
+});
+
+const A = pack('A', [
+  { name: 'A1', themes: { Music: ['a1', 'a2'], Art: ['a3'] } },
+  { name: 'A2', themes: { Film: ['a4'] } }
+]);
+const B = pack('B', [
+  { name: 'B1', themes: { Music: ['b1'] } },
+  { name: 'B2', themes: { Sport: ['b2'] }, disabled: true }
+]);
+
+describe('audienceGroups', () => {
+  it('should record played questions once and count percentages', () => {
+    const group = createAudienceGroup('  Thursday league ');
+    expect(group.name).toBe('Thursday league');
+
+    const played = addPlayedQuestions(addPlayedQuestions(group, ['a1', 'a3'], 5), ['a1'], 10);
+    expect(played.playedQuestionIds).toEqual(['a1', 'a3']);
+    expect(played.lastPlayedAt).toBe(5);
+    expect(addPlayedQuestions(played, [])).toBe(played);
+
+    expect(getPlayedStats(A, new Set(played.playedQuestionIds))).toEqual({ played: 2, total: 4, percent: 50 });
+    expect(getPlayedStats({ rounds: [] }, new Set())).toEqual({ played: 0, total: 0, percent: 0 });
+  });
+
+  it('should build a pack from unplayed questions keeping question ids', () => {
+    const fresh = buildUnplayedPack([A, B], new Set(['a1', 'a3', 'a4']), 'Fresh');
+
+    expect(fresh.name).toBe('Fresh');
+    expect(fresh.rounds.map(r => [r.number, r.name])).toEqual([[1, 'A1']]);
+    expect(fresh.rounds[0].themes.map(t => [t.name, t.questions.map(q => q.id)])).toEqual([
+      ['Music', ['a2']],
+      ['Music', ['b1']]
+    ]);
+    expect(A.rounds[0].themes[0].questions).toHaveLength(2);
+  });
+});
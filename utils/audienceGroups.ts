@@ -0,0 +1,96 @@
+/**
+ * Audience Groups
+ * Группы зрителей (например, "Офисная лига по четвергам") и вопросы, которые им уже показывали.
+ *
+ * Игра записывает Question.id каждого открытого вопроса в активную группу,
+ * селектор и редактор показывают долю сыгранного, а из несыгранных вопросов
+ * библиотеки можно собрать свежий пакет. Вопросы в свежем пакете сохраняют
+ * свои id - после игры они так же отмечаются сыгранными.
+ */
+
+import type { GamePack, Round, Theme } from '../components/host/packeditor/types';
+import { generateUUID } from './uuid';
+
+export interface AudienceGroup {
+  id: string;
+  name: string;
+  createdAt: number;
+  playedQuestionIds: string[];
+  lastPlayedAt?: number;
+}
+
+export interface PlayedStats {
+  played: number;
+  total: number;
+  percent: number;  // 0-100, округлено
+}
+
+export function createAudienceGroup(name: string): AudienceGroup {
+  return { id: generateUUID(), name: name.trim(), createdAt: Date.now(), playedQuestionIds: [] };
+}
+
+/**
+ * Добавляет сыгранные вопросы в группу (без повторов)
+ */
+export function addPlayedQuestions(group: AudienceGroup, questionIds: string[], time: number = Date.now()): AudienceGroup {
+  const known = new Set(group.playedQuestionIds);
+  const added: string[] = [];
+  questionIds.forEach(id => {
+    if (known.has(id)) return;
+    known.add(id);
+    added.push(id);
+  });
+  if (added.length === 0) return group;
+  return { ...group, playedQuestionIds: [...group.playedQuestionIds, ...added], lastPlayedAt: time };
+}
+
+export function getPlayedStats(pack: { rounds?: Round[] }, playedIds: Set<string>): PlayedStats {
+  let played = 0;
+  let total = 0;
+  (pack.rounds || []).forEach(round => round.themes.forEach(theme => theme.questions?.forEach(question => {
+    total++;
+    if (playedIds.has(question.id)) played++;
+  })));
+  return { played, total, percent: total > 0 ? Math.round((played / total) * 100) : 0 };
+}
+
+/**
+ * Свежий пакет из несыгранных вопросов: раунды собираются по номеру (как при
+ * объединении пакетов в сессии), в раунд попадают темы, где остался хоть один
+ * несыгранный вопрос. Отключённые раунды и темы пропускаются
+ */
+export function buildUnplayedPack(packs: GamePack[], playedIds: Set<string>, name: string): GamePack {
+  const rounds: Round[] = [];
+
+  packs.forEach(pack => {
+    pack.rounds.filter(r => !r.disabled).forEach((round, index) => {
+      const themes: Theme[] = round.themes
+        .filter(theme => !theme.disabled)
+        .map(theme => ({
+          ...theme,
+          id: generateUUID(),
+          questions: (theme.questions || []).filter(q => !playedIds.has(q.id))
+        }))
+        .filter(theme => theme.questions.length > 0);
+      if (themes.length === 0) return;
+
+      const target = rounds[index];
+      if (target) {
+        target.themes.push(...themes);
+      } else {
+        rounds[index] = { ...round, id: generateUUID(), themes };
+      }
+    });
+  });
+
+  const now = Date.now();
+  return {
+    id: generateUUID(),
+    name,
+    gameType: packs[0]?.gameType,
+    createdAt: now,
+    updatedAt: now,
+    // Индексы без вопросов во всех пакетах остаются пустыми - убираем дыры
+    rounds: rounds.filter(Boolean).map((round, index) => ({ ...round, number: index + 1 }))
+  };
+}
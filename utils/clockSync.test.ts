@@ -0,0 +1,80 @@
+/**
+ * Clock Sync Utility Tests
+ * Тесты для оценки смещения часов клиентов
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ClockOffsetEstimator, computeClockSample, formatClockOffset } from './clockSync';
+
+describe('computeClockSample', () => {
+  it('should compute offset for a client clock running fast', () => {
+    // Client is 300ms ahead, one-way latency 20ms
+    // t0 = 10300 (client), host receives at 10020 host, t3 = 10340 (client)
+    const sample = computeClockSample(10300, 10020, 10340, 0);
+    expect(sample).not.toBeNull();
+    expect(sample!.rtt).toBe(40);
+    expect(sample!.offset).toBe(-300);
+  });
+
+  it('should reject negative and huge RTT', () => {
+    expect(computeClockSample(1000, 1000, 900)).toBeNull();
+    expect(computeClockSample(0, 0, 60000)).toBeNull();
+  });
+});
+
+describe('ClockOffsetEstimator', () => {
+  let estimator: ClockOffsetEstimator;
+
+  beforeEach(() => {
+    estimator = new ClockOffsetEstimator(4);
+  });
+
+  it('should return null estimate without samples', () => {
+    expect(estimator.getEstimate('c1')).toBeNull();
+    expect(estimator.toHostTime('c1', 5000)).toBe(5000);
+  });
+
+  it('should pick the sample with lowest RTT', () => {
+    estimator.addSample('c1', { offset: 120, rtt: 200, receivedAt: 1 });
+    estimator.addSample('c1', { offset: 95, rtt: 10, receivedAt: 2 });
+    const estimate = estimator.addSample('c1', { offset: 140, rtt: 80, receivedAt: 3 });
+
+    expect(estimate.offset).toBe(95);
+    expect(estimate.uncertainty).toBe(5);
+    expect(estimate.confidence).toBe('high');
+    expect(estimate.sampleCount).toBe(3);
+    expect(estimate.updatedAt).toBe(3);
+  });
+
+  it('should drop samples outside the window', () => {
+    estimator.addSample('c1', { offset: 0, rtt: 2, receivedAt: 1 });
+    for (let i = 0; i < 4; i++) {
+      estimator.addSample('c1', { offset: 50, rtt: 100, receivedAt: 2 + i });
+    }
+    const estimate = estimator.getEstimate('c1')!;
+    expect(estimate.offset).toBe(50);
+    expect(estimate.confidence).toBe('medium');
+  });
+
+  it('should convert buzz timestamps to host time per client', () => {
+    estimator.addSample('fast', { offset: -300, rtt: 20, receivedAt: 1 });
+    estimator.addSample('slow', { offset: 100, rtt: 20, receivedAt: 1 });
+
+    // Both pressed at host time 10000
+    expect(estimator.toHostTime('fast', 10300)).toBe(10000);
+    expect(estimator.toHostTime('slow', 9900)).toBe(10000);
+  });
+
+  it('should forget removed clients', () => {
+    estimator.addSample('c1', { offset: 10, rtt: 20, receivedAt: 1 });
+    estimator.removeClient('c1');
+    expect(estimator.getEstimate('c1')).toBeNull();
+  });
+});
+
+describe('formatClockOffset', () => {
+  it('should include sign and uncertainty', () => {
+    expect(formatClockOffset({ offset: 12, rtt: 8, uncertainty: 4, confidence: 'high', sampleCount: 3, updatedAt: 0 })).toBe('+12ms ±4');
+    expect(formatClockOffset({ offset: -300, rtt: 8, uncertainty: 4, confidence: 'high', sampleCount: 3, updatedAt: 0 })).toBe('-300ms ±4');
+  });
+});
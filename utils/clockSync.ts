@@ -0,0 +1,135 @@
+/**
+ * Clock Offset Synchronisation
+ * NTP-style estimation of each phone's clock offset relative to the host,
+ * built on PING/PONG round trips. Used to convert BUZZ timestamps to host time
+ * so that a phone with a fast/slow clock does not win or lose clashes unfairly.
+ *
+ * Sample (one PING/PONG round trip):
+ *   t0 = client sends PING      (client clock) - PONG.originalTimestamp
+ *   t1 = host answers PONG      (host clock)   - PONG.serverTimestamp
+ *   t3 = client receives PONG   (client clock)
+ *   rtt    = t3 - t0
+ *   offset = t1 - (t0 + t3) / 2   (host time = client time + offset)
+ */
+
+export type ClockSyncConfidence = 'none' | 'low' | 'medium' | 'high';
+
+export interface ClockSample {
+  offset: number;      // ms, host clock minus client clock
+  rtt: number;         // ms, full round trip
+  receivedAt: number;  // host time when sample was recorded
+}
+
+export interface ClockSyncEstimate {
+  offset: number;        // ms, add to client timestamp to get host time
+  rtt: number;           // ms, RTT of the sample the offset was taken from
+  uncertainty: number;   // ms, maximum error of offset (rtt / 2)
+  confidence: ClockSyncConfidence;
+  sampleCount: number;
+  updatedAt: number;
+}
+
+/** Offsets larger than this are highlighted in the client list */
+export const SUSPICIOUS_CLOCK_OFFSET_MS = 250;
+
+const DEFAULT_WINDOW_SIZE = 8;
+const MAX_SAMPLE_RTT_MS = 5000;
+
+/**
+ * Build a clock sample from one PING/PONG round trip
+ * @returns null when timestamps are inconsistent
+ */
+export function computeClockSample(
+  originalTimestamp: number,
+  serverTimestamp: number,
+  receivedTimestamp: number,
+  receivedAt: number = Date.now()
+): ClockSample | null {
+  const rtt = receivedTimestamp - originalTimestamp;
+  if (!Number.isFinite(rtt) || rtt < 0 || rtt > MAX_SAMPLE_RTT_MS) return null;
+
+  return {
+    offset: Math.round(serverTimestamp - (originalTimestamp + receivedTimestamp) / 2),
+    rtt,
+    receivedAt
+  };
+}
+
+function getConfidence(uncertainty: number, sampleCount: number): ClockSyncConfidence {
+  if (sampleCount === 0) return 'none';
+  if (sampleCount >= 3 && uncertainty <= 25) return 'high';
+  if (uncertainty <= 75) return 'medium';
+  return 'low';
+}
+
+/**
+ * Per-client offset estimator
+ * Keeps a sliding window of samples and uses the one with the lowest RTT
+ * (NTP clock filter: the shortest round trip has the smallest asymmetry error)
+ */
+export class ClockOffsetEstimator {
+  private samples = new Map<string, ClockSample[]>();
+  private windowSize: number;
+
+  constructor(windowSize: number = DEFAULT_WINDOW_SIZE) {
+    this.windowSize = windowSize;
+  }
+
+  /**
+   * Add a sample for client and return updated estimate
+   */
+  addSample(clientId: string, sample: ClockSample): ClockSyncEstimate {
+    const clientSamples = this.samples.get(clientId) || [];
+    clientSamples.push(sample);
+    if (clientSamples.length > this.windowSize) {
+      clientSamples.shift();
+    }
+    this.samples.set(clientId, clientSamples);
+    return this.getEstimate(clientId)!;
+  }
+
+  /**
+   * Current estimate for client, null when no samples yet
+   */
+  getEstimate(clientId: string): ClockSyncEstimate | null {
+    const clientSamples = this.samples.get(clientId);
+    if (!clientSamples || clientSamples.length === 0) return null;
+
+    const best = clientSamples.reduce((min, s) => (s.rtt < min.rtt ? s : min), clientSamples[0]);
+    const uncertainty = Math.round(best.rtt / 2);
+
+    return {
+      offset: best.offset,
+      rtt: best.rtt,
+      uncertainty,
+      confidence: getConfidence(uncertainty, clientSamples.length),
+      sampleCount: clientSamples.length,
+      updatedAt: clientSamples[clientSamples.length - 1].receivedAt
+    };
+  }
+
+  /**
+   * Convert client timestamp to host time
+   * Without samples the timestamp is returned unchanged
+   */
+  toHostTime(clientId: string, clientTimestamp: number): number {
+    const estimate = this.getEstimate(clientId);
+    return estimate ? clientTimestamp + estimate.offset : clientTimestamp;
+  }
+
+  removeClient(clientId: string): void {
+    this.samples.delete(clientId);
+  }
+
+  clear(): void {
+    this.samples.clear();
+  }
+}
+
+/**
+ * Format offset for display, e.g. "+312ms ±4"
+ */
+export function formatClockOffset(estimate: ClockSyncEstimate): string {
+  const sign = estimate.offset >= 0 ? '+' : '';
+  return `${sign}${estimate.offset}ms ±${estimate.uncertainty}`;
+}
@@ -0,0 +1,38 @@
+/**
+ * Content Hash Tests
+ * Тесты SHA-256 для контентной адресации медиа
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { sha256Hex, hashBlob } from './contentHash';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('sha256Hex', () => {
+  it('should match the standard test vectors', () => {
+    expect(sha256Hex(text(''))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex(text('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256Hex(text('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('should handle lengths around the padding boundary', () => {
+    for (const length of [55, 56, 63, 64, 65, 119, 120]) {
+      const bytes = new Uint8Array(length).map((_, i) => (i * 31) & 0xff);
+      expect(sha256Hex(bytes)).toBe(createHash('sha256').update(bytes).digest('hex'));
+    }
+  });
+
+  it('should match node crypto on a larger buffer', () => {
+    const bytes = new Uint8Array(300_000).map((_, i) => (i * 7 + (i >> 8)) & 0xff);
+    expect(sha256Hex(bytes)).toBe(createHash('sha256').update(bytes).digest('hex'));
+  });
+});
+
+describe('hashBlob', () => {
+  it('should give the same hash as the fallback implementation', async () => {
+    const bytes = text('media file bytes');
+    expect(await hashBlob(new Blob([bytes]))).toBe(sha256Hex(bytes));
+  });
+});
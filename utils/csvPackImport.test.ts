@@ -0,0 +1,76 @@
+/**
+ * CSV Pack Import Tests
+ * Тесты разбора таблицы, маппинга колонок и слияния с пакетом
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseDelimited,
+  detectDelimiter,
+  guessColumnMapping,
+  buildRoundsFromRows,
+  mergeImportedRounds
+} from './csvPackImport';
+import type { Round } from '../components/host/packeditor/types';
+
+const CSV = [
+  'Round,Theme,Points,Question,Answer,Options,Correct,Media',
+  '1,Music,100,"Who sang ""Yesterday""?",Beatles,,,',
+  '1,Music,200,"Multi',
+  'line",,A|B|C,2,https://example.com/a.mp3',
+  '',
+  'Final,Art,abc,,,,,',
+  '1,Music,300,Pick,,A|B,5,'
+].join('\n');
+
+describe('csvPackImport', () => {
+  it('should parse quotes, escaped quotes and line breaks in cells', () => {
+    const { rows, rowNumbers } = parseDelimited(CSV, ',');
+    expect(rows).toHaveLength(5);
+    expect(rows[1][3]).toBe('Who sang "Yesterday"?');
+    expect(rows[2][3]).toBe('Multi\nline');
+    expect(rowNumbers).toEqual([1, 2, 3, 6, 7]);
+  });
+
+  it('should detect delimiter and guess mapping from headers', () => {
+    expect(detectDelimiter('a\tb\tc')).toBe('\t');
+    expect(detectDelimiter('Тема;Вопрос;Ответ')).toBe(';');
+    expect(detectDelimiter(CSV)).toBe(',');
+
+    expect(guessColumnMapping(['Тема', 'Цена', 'Вопрос', 'Ответ'])).toEqual({ theme: 0, points: 1, question: 2, answer: 3 });
+  });
+
+  it('should build rounds and report invalid rows with spreadsheet row numbers', () => {
+    const { rows, rowNumbers } = parseDelimited(CSV, ',');
+    const mapping = guessColumnMapping(rows[0]);
+    const result = buildRoundsFromRows(rows.slice(1), mapping, rowNumbers.slice(1));
+
+    expect(result.questionCount).toBe(2);
+    expect(result.rounds.map(r => r.name)).toEqual(['Round 1']);
+    const [first, second] = result.rounds[0].themes[0].questions!;
+    expect(first).toMatchObject({ text: 'Who sang "Yesterday"?', points: 100, answerText: 'Beatles' });
+    expect(second).toMatchObject({ answers: ['A', 'B', 'C'], correctAnswer: 1, media: { type: 'audio' } });
+
+    expect(result.errors.map(e => e.row)).toEqual([6, 6, 7]);
+    expect(result.errors[2].message).toBe('Correct option must be 1-2, got "5"');
+  });
+
+  it('should merge into existing rounds and themes by name', () => {
+    const existing: Round[] = [{
+      id: 'r1', number: 1, name: 'Round 1',
+      themes: [{ id: 't1', name: 'Music', questions: [{ id: 'q0', text: 'Old' }] }]
+    }];
+    const imported = buildRoundsFromRows(
+      [['1', 'music', 'New'], ['1', 'Movies', 'Film'], ['Final', 'Art', 'Paint']],
+      { round: 0, theme: 1, question: 2 }
+    ).rounds;
+
+    const merged = mergeImportedRounds(existing, imported);
+    expect(merged.map(r => r.name)).toEqual(['Round 1', 'Final']);
+    expect(merged[0].themes.map(t => [t.name, t.questions!.map(q => q.text)])).toEqual([
+      ['Music', ['Old', 'New']],
+      ['Movies', ['Film']]
+    ]);
+    expect(existing[0].themes[0].questions).toHaveLength(1);
+  });
+});
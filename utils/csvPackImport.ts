@@ -0,0 +1,253 @@
+/**
+ * CSV Pack Import
+ * Импорт вопросов из таблицы (CSV / TSV, выгрузка из Excel / Google Sheets).
+ *
+ * Каждая строка таблицы - один вопрос. Колонки назначаются полям через маппинг:
+ * раунд, тема, цена, вопрос, ответ, варианты (через "|"), номер правильного варианта
+ * (с 1), ссылка на медиа. Строки с ошибками возвращаются с номером строки таблицы
+ * (как в Excel, заголовок - строка 1), остальные собираются в дерево раундов/тем.
+ */
+
+import type { Round, Theme, Question } from '../components/host/packeditor/types';
+import { generateUUID } from './uuid';
+import { convertYouTubeToEmbed } from './mediaUtils';
+import { detectMediaType } from './textPackFormat';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export type CsvField = 'round' | 'theme' | 'points' | 'question' | 'answer' | 'options' | 'correct' | 'mediaUrl';
+
+/** Поле -> индекс колонки (undefined = не импортировать) */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+export const CSV_FIELDS: { field: CsvField; label: string; required?: boolean }[] = [
+  { field: 'round', label: 'Round' },
+  { field: 'theme', label: 'Theme', required: true },
+  { field: 'points', label: 'Points' },
+  { field: 'question', label: 'Question', required: true },
+  { field: 'answer', label: 'Answer' },
+  { field: 'options', label: 'Options (a|b|c)' },
+  { field: 'correct', label: 'Correct option #' },
+  { field: 'mediaUrl', label: 'Media URL' }
+];
+
+/** Названия колонок, по которым маппинг угадывается автоматически (в нижнем регистре) */
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  round: ['round', 'раунд'],
+  theme: ['theme', 'topic', 'category', 'тема', 'категория'],
+  points: ['points', 'price', 'cost', 'value', 'цена', 'очки', 'баллы', 'стоимость'],
+  question: ['question', 'text', 'вопрос', 'текст'],
+  answer: ['answer', 'ответ'],
+  options: ['options', 'answers', 'choices', 'variants', 'варианты'],
+  correct: ['correct', 'correct answer', 'correct option', 'правильный', 'правильный ответ', 'верный'],
+  mediaUrl: ['media', 'media url', 'url', 'image', 'медиа', 'ссылка', 'картинка']
+};
+
+export interface CsvRowError {
+  row: number;      // Номер строки в таблице (1-based, с учётом заголовка)
+  message: string;
+}
+
+export interface CsvImportResult {
+  rounds: Round[];
+  errors: CsvRowError[];
+  questionCount: number;
+}
+
+// ============= PARSING =============
+
+/**
+ * Разделитель по первой строке: таб, ";" (русский Excel) или ","
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  if (count('\t') > 0) return '\t';
+  return count(';') > count(',') ? ';' : ',';
+}
+
+/**
+ * Разбор CSV по RFC 4180: кавычки, "" внутри кавычек, переводы строк в ячейках
+ * Полностью пустые строки пропускаются, но номера строк сохраняются (rowNumbers)
+ */
+export function parseDelimited(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): { rows: string[][]; rowNumbers: number[] } {
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  const pushRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+      rowNumbers.push(rowStartLine);
+    }
+    row = [];
+    cell = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');  // BOM из Excel
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      pushRow();
+      line++;
+      rowStartLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) pushRow();
+
+  return { rows, rowNumbers };
+}
+
+/**
+ * Маппинг по заголовкам таблицы
+ */
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  (Object.keys(HEADER_ALIASES) as CsvField[]).forEach(field => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    if (index >= 0 && !Object.values(mapping).includes(index)) mapping[field] = index;
+  });
+  return mapping;
+}
+
+// ============= BUILD =============
+
+/**
+ * Строит раунды/темы/вопросы из строк таблицы
+ * @param rowNumbers - номера строк в таблице для сообщений об ошибках (из parseDelimited)
+ */
+export function buildRoundsFromRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  rowNumbers: number[] = rows.map((_, i) => i + 1)
+): CsvImportResult {
+  const errors: CsvRowError[] = [];
+  const rounds: Round[] = [];
+  let questionCount = 0;
+
+  const cellOf = (row: string[], field: CsvField): string => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  rows.forEach((row, index) => {
+    const rowNumber = rowNumbers[index];
+    const rowErrors: string[] = [];
+
+    const themeName = cellOf(row, 'theme');
+    const text = cellOf(row, 'question');
+    const mediaUrl = cellOf(row, 'mediaUrl');
+    if (!themeName) rowErrors.push('Theme is empty');
+    if (!text && !mediaUrl) rowErrors.push('Question has no text or media');
+
+    const question: Question = { id: generateUUID(), text };
+
+    const pointsCell = cellOf(row, 'points');
+    if (pointsCell) {
+      if (/^\d+$/.test(pointsCell)) question.points = parseInt(pointsCell, 10);
+      else rowErrors.push(`Points must be a whole number, got "${pointsCell}"`);
+    }
+
+    const answer = cellOf(row, 'answer');
+    if (answer) question.answerText = answer;
+
+    const optionsCell = cellOf(row, 'options');
+    const options = optionsCell ? optionsCell.split('|').map(o => o.trim()).filter(Boolean) : [];
+    if (options.length > 0) question.answers = options;
+
+    const correctCell = cellOf(row, 'correct');
+    if (correctCell) {
+      const correct = parseInt(correctCell, 10);
+      if (options.length === 0) {
+        rowErrors.push('Correct option is set but there are no options');
+      } else if (!/^\d+$/.test(correctCell) || correct < 1 || correct > options.length) {
+        rowErrors.push(`Correct option must be 1-${options.length}, got "${correctCell}"`);
+      } else {
+        question.correctAnswer = correct - 1;
+      }
+    }
+
+    if (mediaUrl) {
+      const type = detectMediaType(mediaUrl);
+      if (type) {
+        question.media = { type, url: type === 'youtube' ? convertYouTubeToEmbed(mediaUrl) : mediaUrl };
+      } else {
+        rowErrors.push(`Cannot detect media type of "${mediaUrl}"`);
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      rowErrors.forEach(message => errors.push({ row: rowNumber, message }));
+      return;
+    }
+
+    // Раунд: номер ("2") или название; пусто - первый раунд
+    const roundCell = cellOf(row, 'round');
+    const roundName = /^\d+$/.test(roundCell) ? `Round ${roundCell}` : roundCell || 'Round 1';
+    let round = rounds.find(r => r.name === roundName);
+    if (!round) {
+      round = { id: generateUUID(), number: rounds.length + 1, name: roundName, type: 'normal', themes: [] };
+      rounds.push(round);
+    }
+    let theme = round.themes.find(t => t.name === themeName);
+    if (!theme) {
+      theme = { id: generateUUID(), name: themeName, questions: [] };
+      round.themes.push(theme);
+    }
+    theme.questions!.push(question);
+    questionCount++;
+  });
+
+  return { rounds, errors, questionCount };
+}
+
+/**
+ * Добавляет импортированные раунды в пакет: раунды совпадают по названию,
+ * темы - по названию внутри раунда, вопросы добавляются в конец темы
+ */
+export function mergeImportedRounds(existing: Round[], imported: Round[]): Round[] {
+  const merged: Round[] = existing.map(round => ({ ...round, themes: [...round.themes] }));
+
+  imported.forEach(importedRound => {
+    const round = merged.find(r => (r.name || '').trim().toLowerCase() === (importedRound.name || '').trim().toLowerCase());
+    if (!round) {
+      merged.push({ ...importedRound, number: merged.length + 1 });
+      return;
+    }
+    importedRound.themes.forEach(importedTheme => {
+      const themeIndex = round.themes.findIndex(t => t.name.trim().toLowerCase() === importedTheme.name.trim().toLowerCase());
+      if (themeIndex < 0) {
+        round.themes.push(importedTheme);
+      } else {
+        const theme: Theme = round.themes[themeIndex];
+        round.themes[themeIndex] = { ...theme, questions: [...(theme.questions || []), ...(importedTheme.questions || [])] };
+      }
+    });
+  });
+
+  return merged;
+}
@@ -2,13 +2,22 @@
  * Demo Screen Media Handler
  *
  * Handles receiving and processing media files on the demo screen side.
- * Simplified version - only handles direct MEDIA_TRANSFER (no chunking).
- * Includes IndexedDB persistence for media files.
+ * YouTube / external URLs and legacy base64 files come as a single MEDIA_TRANSFER.
+ * Local files of the host come by content hash: MEDIA_TRANSFER binds the hash to question media,
+ * bytes arrive as MEDIA_CHUNKs and are kept in ScreenMediaStorage (see mediaTransfer.ts).
  */
 
 import { base64ToBlobUrl } from './mediaStream';
 import { saveMediaFile } from './mediaManager';
-import type { P2PSMessage } from '../types';
+import { hashBlob } from './contentHash';
+import { screenMediaStorage } from './media/ScreenMediaStorage';
+import { MessageCategory } from '../types';
+import type {
+  MediaChunkMessage,
+  MediaChunkMetadataMessage,
+  MediaTransferMessage,
+  P2PSMessage
+} from '../types';
 
 export interface MediaDownloadProgress {
   mediaId: string;
@@ -20,13 +29,30 @@ export interface MediaDownloadProgress {
   isYouTube?: boolean;
 }
 
+export interface DemoScreenMediaOptions {
+  sendToHost?: (message: Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>) => boolean;
+  onMediaReady?: (mediaId: string) => void;  // Hashed file is stored and bound to question media
+}
+
+interface MediaBinding {
+  mediaId: string;
+  mediaType: MediaTransferMessage['payload']['mediaType'];
+}
+
 class DemoScreenMediaHandler {
   private downloadProgress = new Map<string, MediaDownloadProgress>();
   private onProgressUpdate?: (updates: MediaDownloadProgress[]) => void;
+  private options: DemoScreenMediaOptions = {};
   private mediaCache = new Map<string, string>(); // mediaId -> blob URL
+  private fileUrls = new Map<string, string>(); // content hash -> blob URL
+  private pendingBindings = new Map<string, MediaBinding[]>(); // content hash -> media waiting for the file
+  private queue: Promise<void> = Promise.resolve(); // IndexedDB work in message order
 
-  initialize(onProgressUpdate?: (updates: MediaDownloadProgress[]) => void) {
+  initialize(onProgressUpdate?: (updates: MediaDownloadProgress[]) => void, options?: DemoScreenMediaOptions) {
     this.onProgressUpdate = onProgressUpdate;
+    if (options) {
+      this.options = options;
+    }
     console.log('[DemoScreenMediaHandler] Initialized');
 
     // Initialize global cache if not exists
@@ -41,14 +67,190 @@ class DemoScreenMediaHandler {
   handleMediaMessage(message: P2PSMessage): boolean {
     switch (message.type) {
       case 'MEDIA_TRANSFER':
-        this.handleMediaTransfer(message);
+        if (message.payload.hash) {
+          const payload = message.payload;
+          this.enqueue(() => this.handleHashedTransfer(payload));
+        } else {
+          this.handleMediaTransfer(message);
+        }
+        return true;
+
+      case 'MEDIA_INVENTORY_QUERY': {
+        const { hashes } = message.payload;
+        this.enqueue(() => this.handleInventoryQuery(hashes));
+        return true;
+      }
+
+      case 'MEDIA_CHUNK_METADATA': {
+        const payload = message.payload;
+        this.enqueue(() => this.handleChunkMetadata(payload));
         return true;
+      }
+
+      case 'MEDIA_CHUNK': {
+        const payload = message.payload;
+        this.enqueue(() => this.handleChunk(payload));
+        return true;
+      }
 
       default:
         return false;
     }
   }
 
+  /**
+   * Run IndexedDB work one message at a time - chunks are stored strictly in order
+   */
+  private enqueue(task: () => Promise<void>) {
+    this.queue = this.queue
+      .then(task)
+      .catch(error => console.error('❌ DemoScreenMediaHandler: failed to process media message:', error));
+  }
+
+  private sendToHost(type: string, payload: unknown) {
+    this.options.sendToHost?.({ category: MessageCategory.STATE, type, payload } as Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>);
+  }
+
+  /**
+   * Host bound a content hash to question media - show the stored file or wait for its chunks
+   */
+  private async handleHashedTransfer(payload: MediaTransferMessage['payload']) {
+    const hash = payload.hash!;
+    const binding: MediaBinding = { mediaId: payload.mediaId, mediaType: payload.mediaType };
+
+    const stored = await screenMediaStorage.getFile(hash);
+    if (stored) {
+      this.applyFile(hash, stored.blob, binding);
+      return;
+    }
+
+    const pending = (this.pendingBindings.get(hash) ?? []).filter(item => item.mediaId !== binding.mediaId);
+    this.pendingBindings.set(hash, [...pending, binding]);
+    if (this.downloadProgress.get(binding.mediaId)?.status !== 'transferring') {
+      this.downloadProgress.set(binding.mediaId, {
+        mediaId: binding.mediaId,
+        status: 'pending',
+        progress: 0,
+        mediaType: binding.mediaType,
+        isYouTube: false
+      });
+      this.notifyProgressUpdate();
+    }
+  }
+
+  private async handleInventoryQuery(hashes: string[]) {
+    const inventory = await screenMediaStorage.getInventory(hashes);
+    console.log('[DemoScreenMediaHandler] Media inventory:', {
+      have: inventory.have.length,
+      missing: Object.keys(inventory.missing).length
+    });
+    this.sendToHost('MEDIA_INVENTORY', inventory);
+  }
+
+  private async handleChunkMetadata(payload: MediaChunkMetadataMessage['payload']) {
+    const { startChunk, ...meta } = payload;
+    const nextChunk = await screenMediaStorage.beginTransfer(meta);
+    console.log('[DemoScreenMediaHandler] Receiving file:', {
+      fileName: payload.fileName,
+      hash: payload.hash.slice(0, 12),
+      startChunk,
+      nextChunk,
+      totalChunks: payload.totalChunks
+    });
+
+    if (nextChunk >= payload.totalChunks) {
+      // Every chunk was stored before - only the assembly is left
+      await this.completeTransfer(payload.hash, payload.totalChunks - 1);
+    } else {
+      this.updateTransferProgress(payload.hash, nextChunk, payload.totalChunks);
+    }
+  }
+
+  private async handleChunk(payload: MediaChunkMessage['payload']) {
+    const result = await screenMediaStorage.putChunk(payload.hash, payload.index, new Uint8Array(payload.data));
+    // Duplicate or out-of-order chunk - no ACK, the host resumes from our position
+    if (!result?.stored) return;
+
+    if (result.nextChunk >= result.totalChunks) {
+      await this.completeTransfer(payload.hash, payload.index);
+    } else {
+      this.sendToHost('MEDIA_CHUNK_ACK', { hash: payload.hash, index: payload.index, complete: false });
+      this.updateTransferProgress(payload.hash, result.nextChunk, result.totalChunks);
+    }
+  }
+
+  /**
+   * All chunks stored - assemble, check against the hash, keep the file
+   */
+  private async completeTransfer(hash: string, lastIndex: number) {
+    const file = await screenMediaStorage.assembleTransfer(hash);
+    if (!file) return;
+
+    if (await hashBlob(file.blob) !== hash) {
+      console.error('❌ DemoScreenMediaHandler: failed to verify received file, discarding:', hash.slice(0, 12));
+      // Host gets no ACK and sends the file again from the start
+      await screenMediaStorage.discardTransfer(hash);
+      return;
+    }
+
+    try {
+      await screenMediaStorage.saveFile(file);
+    } catch (error) {
+      // Not cached - still shown from memory, chunks stay for the next attempt
+      console.warn('[DemoScreenMediaHandler] Could not save file to IndexedDB:', error);
+    }
+    this.sendToHost('MEDIA_CHUNK_ACK', { hash, index: lastIndex, complete: true });
+    console.log('[DemoScreenMediaHandler] File received:', { fileName: file.fileName, hash: hash.slice(0, 12) });
+
+    const bindings = this.pendingBindings.get(hash) ?? [];
+    this.pendingBindings.delete(hash);
+    bindings.forEach(binding => this.applyFile(hash, file.blob, binding));
+  }
+
+  private updateTransferProgress(hash: string, nextChunk: number, totalChunks: number) {
+    const bindings = this.pendingBindings.get(hash);
+    if (!bindings?.length) return;
+
+    bindings.forEach(binding => {
+      this.downloadProgress.set(binding.mediaId, {
+        mediaId: binding.mediaId,
+        status: 'transferring',
+        progress: Math.round((nextChunk / totalChunks) * 100),
+        mediaType: binding.mediaType,
+        isYouTube: false
+      });
+    });
+    this.notifyProgressUpdate();
+  }
+
+  /**
+   * Show a stored file for question media (one blob URL per file)
+   */
+  private applyFile(hash: string, blob: Blob, binding: MediaBinding) {
+    let url = this.fileUrls.get(hash);
+    if (!url) {
+      url = URL.createObjectURL(blob);
+      this.fileUrls.set(hash, url);
+    }
+
+    this.mediaCache.set(binding.mediaId, url);
+    this.storeInGlobalCache(binding.mediaId, {
+      type: binding.mediaType,
+      url,
+      isYouTube: false
+    });
+    this.downloadProgress.set(binding.mediaId, {
+      mediaId: binding.mediaId,
+      status: 'completed',
+      progress: 100,
+      url,
+      mediaType: binding.mediaType,
+      isYouTube: false
+    });
+    this.notifyProgressUpdate();
+    this.options.onMediaReady?.(binding.mediaId);
+  }
+
   /**
    * Handle regular media transfer
    */
@@ -190,6 +392,9 @@ class DemoScreenMediaHandler {
   clear() {
     this.downloadProgress.clear();
     this.mediaCache.clear();
+    this.pendingBindings.clear();
+    this.fileUrls.forEach(url => URL.revokeObjectURL(url));
+    this.fileUrls.clear();
     console.log('[DemoScreenMediaHandler] Cleared all cache');
   }
 
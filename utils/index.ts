@@ -7,6 +7,8 @@ export * from './uuid';
 export * from './healthColor';
 export * from './network';
 export * from './signallingServerTest';
+export * from './signallingRooms';
+export * from './clockSync';
 
 // Phase 2 Refactoring - Modular utilities
 export * from './media';
@@ -0,0 +1,65 @@
+/**
+ * League Tests
+ * Тесты турнирной таблицы сезона, тай-брейков и импорта JSON
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSeason,
+  rankScores,
+  recordSeasonGame,
+  computeStandings,
+  seasonsToJSON,
+  parseSeasonsJSON,
+  LeagueImportError,
+  type Season
+} from './league';
+
+const TEAMS = [
+  { id: 'team_a', name: 'Alpha' },
+  { id: 'team_b', name: 'Beta' },
+  { id: 'team_c', name: 'Gamma' }
+];
+
+const score = (teamId: string, teamName: string, value: number) => ({ teamId, teamName, score: value });
+
+describe('league', () => {
+  it('should share placement on equal scores', () => {
+    expect(rankScores([score('a', 'A', 100), score('b', 'B', 300), score('c', 'C', 100)]).map(r => [r.teamId, r.placement]))
+      .toEqual([['b', 1], ['a', 2], ['c', 2]]);
+  });
+
+  it('should record games once per session and only for season teams', () => {
+    let season = createSeason('Spring', TEAMS);
+    season = recordSeasonGame(season, 'v_1', [score('team_a', 'Alpha', 500), score('team_x', 'Guests', 900), score('other_id', ' beta ', 200)], 10);
+    season = recordSeasonGame(season, 'v_1', [score('team_a', 'Alpha', 500), score('team_b', 'Beta', 600)], 20);
+    expect(season.games).toHaveLength(1);
+    expect(season.games[0]).toMatchObject({ playedAt: 10, results: [{ teamId: 'team_b', placement: 1 }, { teamId: 'team_a', placement: 2 }] });
+
+    expect(recordSeasonGame(season, 'v_2', [score('team_x', 'Guests', 1)])).toBe(season);
+  });
+
+  it('should rank by points, then tiebreakers in order', () => {
+    let season: Season = { ...createSeason('Spring', TEAMS), pointsTable: { mode: 'placement', placementPoints: [10, 8, 6] } };
+    season = recordSeasonGame(season, 'g1', [score('team_a', 'Alpha', 300), score('team_b', 'Beta', 200), score('team_c', 'Gamma', 100)]);
+    season = recordSeasonGame(season, 'g2', [score('team_a', 'Alpha', 150), score('team_b', 'Beta', 300), score('team_c', 'Gamma', 100)]);
+
+    // Alpha and Beta: 18 points, one win each; Beta has higher total score
+    expect(computeStandings(season).map(r => [r.teamName, r.points, r.rank])).toEqual([['Beta', 18, 1], ['Alpha', 18, 2], ['Gamma', 12, 3]]);
+
+    // Head-to-head is level (1:1) - without other tiebreakers they share the place
+    expect(computeStandings({ ...season, tiebreakers: ['wins', 'headToHead'] }).map(r => r.rank)).toEqual([1, 1, 3]);
+
+    const bySum = computeStandings({ ...season, pointsTable: { mode: 'score', placementPoints: [] } });
+    expect(bySum.map(r => [r.teamName, r.points])).toEqual([['Beta', 500], ['Alpha', 450], ['Gamma', 200]]);
+  });
+
+  it('should round-trip seasons through JSON and reject broken files', () => {
+    const season = recordSeasonGame(createSeason('Spring', TEAMS), 'g1', [score('team_a', 'Alpha', 1)], 5, 'Pack');
+    expect(parseSeasonsJSON(seasonsToJSON([season]))).toEqual([season]);
+    expect(parseSeasonsJSON(JSON.stringify(season))).toEqual([season]);
+
+    expect(() => parseSeasonsJSON('{')).toThrow(LeagueImportError);
+    expect(() => parseSeasonsJSON(JSON.stringify({ ...season, teams: [{ id: 1 }] }))).toThrow('team 1 needs id and name');
+  });
+});
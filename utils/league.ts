@@ -0,0 +1,296 @@
+/**
+ * League
+ * Сезон из нескольких игровых вечеров: участвующие команды, итоги каждой игры,
+ * таблица очков (по месту или сумма счёта) и турнирная таблица с тай-брейками.
+ *
+ * Итоги записываются автоматически на экране победителя. Игра хранится под id
+ * сессии, поэтому повторная запись (возобновлённая игра) заменяет результат, а не дублирует его.
+ */
+
+import { generateUUID } from './uuid';
+
+export type LeaguePointsMode = 'placement' | 'score';
+
+export interface LeaguePointsTable {
+  mode: LeaguePointsMode;
+  placementPoints: number[];  // Points for 1st, 2nd, 3rd... place (placement mode), further places get 0
+}
+
+/**
+ * Tiebreakers, applied in order when league points are equal:
+ * wins - more first places, totalScore - higher sum of game scores,
+ * bestPlacement - better single-game placement, headToHead - placed above the other team more often
+ */
+export type LeagueTiebreaker = 'wins' | 'totalScore' | 'bestPlacement' | 'headToHead';
+
+export interface LeagueTeam {
+  id: string;    // Team id from HostView teams
+  name: string;
+}
+
+export interface LeagueGameResult {
+  teamId: string;
+  teamName: string;
+  score: number;
+  placement: number;  // 1-based, tied scores share the placement (1, 1, 3)
+}
+
+export interface LeagueGame {
+  id: string;        // Session version - same game is recorded once
+  playedAt: number;
+  title?: string;    // Pack name(s)
+  results: LeagueGameResult[];
+}
+
+export interface Season {
+  id: string;
+  name: string;
+  createdAt: number;
+  teams: LeagueTeam[];
+  pointsTable: LeaguePointsTable;
+  tiebreakers: LeagueTiebreaker[];
+  games: LeagueGame[];
+}
+
+export interface StandingRow {
+  teamId: string;
+  teamName: string;
+  rank: number;
+  points: number;
+  gamesPlayed: number;
+  wins: number;
+  totalScore: number;
+  bestPlacement: number | null;
+}
+
+export const DEFAULT_POINTS_TABLE: LeaguePointsTable = { mode: 'placement', placementPoints: [10, 8, 6, 5, 4, 3, 2, 1] };
+
+export const DEFAULT_TIEBREAKERS: LeagueTiebreaker[] = ['wins', 'totalScore', 'bestPlacement', 'headToHead'];
+
+export const TIEBREAKER_LABELS: Record<LeagueTiebreaker, string> = {
+  wins: 'Wins',
+  totalScore: 'Total score',
+  bestPlacement: 'Best placement',
+  headToHead: 'Head-to-head'
+};
+
+export function createSeason(name: string, teams: LeagueTeam[], time: number = Date.now()): Season {
+  return {
+    id: generateUUID(),
+    name: name.trim(),
+    createdAt: time,
+    teams: teams.map(t => ({ id: t.id, name: t.name })),
+    pointsTable: { ...DEFAULT_POINTS_TABLE, placementPoints: [...DEFAULT_POINTS_TABLE.placementPoints] },
+    tiebreakers: [...DEFAULT_TIEBREAKERS],
+    games: []
+  };
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Season team for a game team: same id, or same name (teams re-created on another night)
+ */
+export function findSeasonTeam(season: Season, teamId: string, teamName: string): LeagueTeam | undefined {
+  return season.teams.find(t => t.id === teamId)
+    ?? season.teams.find(t => normalizeName(t.name) === normalizeName(teamName));
+}
+
+/**
+ * Места по счёту, равный счёт - общее место (1, 1, 3)
+ */
+export function rankScores(scores: { teamId: string; teamName: string; score: number }[]): LeagueGameResult[] {
+  const sorted = [...scores].sort((a, b) => b.score - a.score);
+  return sorted.map(entry => ({
+    ...entry,
+    placement: sorted.findIndex(other => other.score === entry.score) + 1
+  }));
+}
+
+/**
+ * Record final scores of a game into the season.
+ * Only participating teams count (placements are among them);
+ * a game with the same id replaces the earlier record.
+ */
+export function recordSeasonGame(
+  season: Season,
+  gameId: string,
+  finalScores: { teamId: string; teamName: string; score: number }[],
+  time: number = Date.now(),
+  title?: string
+): Season {
+  const participants = new Map<string, { teamId: string; teamName: string; score: number }>();
+  finalScores.forEach(entry => {
+    const team = findSeasonTeam(season, entry.teamId, entry.teamName);
+    if (team && !participants.has(team.id)) {
+      participants.set(team.id, { teamId: team.id, teamName: team.name, score: entry.score });
+    }
+  });
+  if (participants.size === 0) return season;
+
+  const game: LeagueGame = { id: gameId, playedAt: time, title, results: rankScores(Array.from(participants.values())) };
+  const exists = season.games.some(g => g.id === gameId);
+  return {
+    ...season,
+    games: exists ? season.games.map(g => g.id === gameId ? { ...game, playedAt: g.playedAt } : g) : [...season.games, game]
+  };
+}
+
+export function getGamePoints(result: Pick<LeagueGameResult, 'placement' | 'score'>, table: LeaguePointsTable): number {
+  return table.mode === 'score' ? result.score : (table.placementPoints[result.placement - 1] ?? 0);
+}
+
+/** Games where team A placed above team B minus games where B placed above A */
+function headToHead(games: LeagueGame[], teamA: string, teamB: string): number {
+  return games.reduce((balance, game) => {
+    const a = game.results.find(r => r.teamId === teamA);
+    const b = game.results.find(r => r.teamId === teamB);
+    if (!a || !b || a.placement === b.placement) return balance;
+    return balance + (a.placement < b.placement ? 1 : -1);
+  }, 0);
+}
+
+function compareByTiebreaker(a: StandingRow, b: StandingRow, tiebreaker: LeagueTiebreaker, games: LeagueGame[]): number {
+  switch (tiebreaker) {
+    case 'wins':
+      return b.wins - a.wins;
+    case 'totalScore':
+      return b.totalScore - a.totalScore;
+    case 'bestPlacement':
+      return (a.bestPlacement ?? Infinity) - (b.bestPlacement ?? Infinity);
+    case 'headToHead':
+      return -headToHead(games, a.teamId, b.teamId);
+  }
+}
+
+/**
+ * Турнирная таблица: очки, затем тай-брейки в заданном порядке.
+ * Команды, равные по всем критериям, делят место.
+ */
+export function computeStandings(season: Season): StandingRow[] {
+  const rows: StandingRow[] = season.teams.map(team => {
+    const results = season.games.flatMap(game => game.results.filter(r => r.teamId === team.id));
+    return {
+      teamId: team.id,
+      teamName: team.name,
+      rank: 0,
+      points: results.reduce((sum, r) => sum + getGamePoints(r, season.pointsTable), 0),
+      gamesPlayed: results.length,
+      wins: results.filter(r => r.placement === 1).length,
+      totalScore: results.reduce((sum, r) => sum + r.score, 0),
+      bestPlacement: results.length > 0 ? Math.min(...results.map(r => r.placement)) : null
+    };
+  });
+
+  const compare = (a: StandingRow, b: StandingRow): number => {
+    if (a.points !== b.points) return b.points - a.points;
+    for (const tiebreaker of season.tiebreakers) {
+      const result = compareByTiebreaker(a, b, tiebreaker, season.games);
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+
+  const sorted = rows.sort((a, b) => compare(a, b) || a.teamName.localeCompare(b.teamName));
+  sorted.forEach((row, index) => {
+    const previous = sorted[index - 1];
+    row.rank = previous && compare(previous, row) === 0 ? previous.rank : index + 1;
+  });
+  return sorted;
+}
+
+// ============================================================
+// JSON export / import
+// ============================================================
+
+const EXPORT_FORMAT = 'ilan-league';
+const EXPORT_VERSION = 1;
+
+export class LeagueImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeagueImportError';
+  }
+}
+
+export function seasonsToJSON(seasons: Season[]): string {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: Date.now(), seasons }, null, 2);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseSeason(raw: unknown, index: number): Season {
+  const where = `Season ${index + 1}`;
+  if (!isObject(raw)) throw new LeagueImportError(`${where}: not an object`);
+  if (typeof raw.id !== 'string' || typeof raw.name !== 'string') throw new LeagueImportError(`${where}: id and name are required`);
+  if (!Array.isArray(raw.teams) || !Array.isArray(raw.games)) throw new LeagueImportError(`${where} "${raw.name}": teams and games must be arrays`);
+
+  const teams = raw.teams.map((team, i) => {
+    if (!isObject(team) || typeof team.id !== 'string' || typeof team.name !== 'string') {
+      throw new LeagueImportError(`${where} "${raw.name}": team ${i + 1} needs id and name`);
+    }
+    return { id: team.id, name: team.name };
+  });
+
+  const games = raw.games.map((game, i) => {
+    if (!isObject(game) || typeof game.id !== 'string' || !Array.isArray(game.results)) {
+      throw new LeagueImportError(`${where} "${raw.name}": game ${i + 1} needs id and results`);
+    }
+    const results = game.results.map(result => {
+      if (!isObject(result) || typeof result.teamId !== 'string' || typeof result.score !== 'number' || typeof result.placement !== 'number') {
+        throw new LeagueImportError(`${where} "${raw.name}": game ${i + 1} has an invalid result`);
+      }
+      return { teamId: result.teamId, teamName: String(result.teamName ?? ''), score: result.score, placement: result.placement };
+    });
+    return {
+      id: game.id,
+      playedAt: typeof game.playedAt === 'number' ? game.playedAt : 0,
+      title: typeof game.title === 'string' ? game.title : undefined,
+      results
+    };
+  });
+
+  const table = isObject(raw.pointsTable) ? raw.pointsTable : {};
+  const pointsTable: LeaguePointsTable = {
+    mode: table.mode === 'score' ? 'score' : 'placement',
+    placementPoints: Array.isArray(table.placementPoints) && table.placementPoints.every(p => typeof p === 'number')
+      ? table.placementPoints as number[]
+      : [...DEFAULT_POINTS_TABLE.placementPoints]
+  };
+  const tiebreakers = Array.isArray(raw.tiebreakers)
+    ? raw.tiebreakers.filter((t): t is LeagueTiebreaker => DEFAULT_TIEBREAKERS.includes(t as LeagueTiebreaker))
+    : [...DEFAULT_TIEBREAKERS];
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+    teams,
+    pointsTable,
+    tiebreakers,
+    games
+  };
+}
+
+/**
+ * Parse exported file (or a single season object)
+ * @throws LeagueImportError with a message for the host
+ */
+export function parseSeasonsJSON(text: string): Season[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LeagueImportError('File is not valid JSON');
+  }
+
+  if (isObject(data) && data.format === EXPORT_FORMAT) {
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+      throw new LeagueImportError('File was exported by a newer version of the app');
+    }
+    if (!Array.isArray(data.seasons)) throw new LeagueImportError('No seasons in file');
+    return data.seasons.map(parseSeason);
+  }
+  return [parseSeason(data, 0)];
+}
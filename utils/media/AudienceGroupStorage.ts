@@ -0,0 +1,128 @@
+/**
+ * Audience Group Storage
+ *
+ * IndexedDB-based storage of audience groups and the questions each group
+ * has already seen. Kept out of localStorage on purpose: "Clear cache" in
+ * settings wipes localStorage, but play history must survive it.
+ */
+
+import { addPlayedQuestions, type AudienceGroup } from '../audienceGroups';
+
+const DB_NAME = 'AudienceGroups';
+const DB_VERSION = 1;
+const STORE_NAME = 'groups';
+
+class AudienceGroupStorage {
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize IndexedDB
+   */
+  async init(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const database = (event.target as IDBOpenDBRequest).result as IDBDatabase;
+
+        if (!database.objectStoreNames.contains(STORE_NAME)) {
+          database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+    });
+  }
+
+  async list(): Promise<AudienceGroup[]> {
+    try {
+      const database = await this.init();
+
+      const groups = await new Promise<AudienceGroup[]>((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readonly');
+        const request = transaction.objectStore(STORE_NAME).getAll();
+
+        request.onsuccess = () => resolve(request.result as AudienceGroup[]);
+        request.onerror = () => reject(request.error);
+      });
+      return groups.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('❌ Audience groups: failed to list:', error);
+      return [];
+    }
+  }
+
+  async get(groupId: string): Promise<AudienceGroup | null> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readonly');
+      const request = transaction.objectStore(STORE_NAME).get(groupId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async save(group: AudienceGroup): Promise<void> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).put(group);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async delete(groupId: string): Promise<void> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).delete(groupId);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Remember questions shown to the group (call when a question is opened)
+   */
+  async recordPlayed(groupId: string, questionIds: string[]): Promise<void> {
+    try {
+      const database = await this.init();
+
+      // Read and write in one transaction - questions opened back to back must not overwrite each other
+      await new Promise<void>((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readwrite');
+        const objectStore = transaction.objectStore(STORE_NAME);
+        const request = objectStore.get(groupId);
+
+        request.onsuccess = () => {
+          const group = request.result as AudienceGroup | undefined;
+          if (!group) return;
+          const updated = addPlayedQuestions(group, questionIds);
+          if (updated !== group) {
+            objectStore.put(updated);
+          }
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } catch (error) {
+      console.error('❌ Audience groups: failed to record played questions:', error);
+    }
+  }
+}
+
+// Singleton instance
+export const audienceGroupStorage = new AudienceGroupStorage();
@@ -0,0 +1,203 @@
+/**
+ * Game Snapshot Storage
+ *
+ * IndexedDB-based crash-safe snapshot of the running host game session.
+ * Written on every GamePlay state transition so an accidental reload of the
+ * host page can resume the board, scores and round instead of starting over.
+ * Quiz games are not snapshotted - QuizPlay keeps its progress in memory only.
+ *
+ * Two records are kept:
+ * - 'selection' - game type and packs (large, written once when session starts)
+ * - 'state'     - GamePlay progress (small, written on every transition)
+ */
+
+import type { GamePack, GameType } from '../../components/host/OptimizedGameSelectorModal';
+import type { GameScreen, SuperGameBet, SuperGameAnswer } from '../../components/host/game/types';
+import type { SpecialQuestionPlay } from '../../components/host/game/specialQuestions';
+import type { SessionPlaylist } from '../sessionPlaylist';
+
+const DB_NAME = 'GameSessionSnapshot';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshot';
+const SNAPSHOT_VERSION = 1;
+
+/** Snapshots older than this are considered abandoned and are not offered for resume */
+export const SNAPSHOT_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+export interface GameSelectionSnapshot {
+  gameType: GameType;
+  packIds: string[];
+  packs: GamePack[];
+  playlist?: SessionPlaylist;  // Round order of the session (absent in older snapshots)
+  sessionVersion?: string;  // Session version of interrupted game (phones keep their state)
+}
+
+export interface GamePlaySnapshot {
+  currentScreen: GameScreen;
+  currentRoundIndex: number;
+  answeredQuestions: string[];
+  teamScores: { teamId: string; teamName: string; score: number }[];
+  // Question that was open - reopened on resume (timers restart)
+  activeQuestion: { roundIndex: number; themeId: string; questionId: string; points: number; special?: SpecialQuestionPlay } | null;
+  selectedSuperThemeId: string | null;
+  disabledSuperThemeIds: string[];
+  selectedSuperAnswerTeam: string | null;
+  superGameBets: SuperGameBet[];
+  superGameAnswers: SuperGameAnswer[];
+}
+
+export interface GameSnapshot {
+  version: number;
+  savedAt: number;
+  selection: GameSelectionSnapshot;
+  state: GamePlaySnapshot | null;
+}
+
+interface SnapshotRecord<T> {
+  key: 'selection' | 'state';
+  savedAt: number;
+  version: number;
+  data: T;
+}
+
+class GameSnapshotStorage {
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize IndexedDB
+   */
+  async init(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const database = (event.target as IDBOpenDBRequest).result as IDBDatabase;
+
+        if (!database.objectStoreNames.contains(STORE_NAME)) {
+          database.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+    });
+  }
+
+  private async put<T>(key: SnapshotRecord<T>['key'], data: T): Promise<void> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const record: SnapshotRecord<T> = { key, savedAt: Date.now(), version: SNAPSHOT_VERSION, data };
+      const request = transaction.objectStore(STORE_NAME).put(record);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async getRecord<T>(key: SnapshotRecord<T>['key']): Promise<SnapshotRecord<T> | null> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readonly');
+      const request = transaction.objectStore(STORE_NAME).get(key);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Save selected game and packs (call when session starts)
+   * Resets game progress of the previous session
+   */
+  async saveSelection(selection: GameSelectionSnapshot): Promise<void> {
+    try {
+      const database = await this.init();
+
+      // One transaction - a crash in between can't leave old progress with the new selection
+      await new Promise<void>((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readwrite');
+        const objectStore = transaction.objectStore(STORE_NAME);
+        const record: SnapshotRecord<GameSelectionSnapshot> = { key: 'selection', savedAt: Date.now(), version: SNAPSHOT_VERSION, data: selection };
+        objectStore.clear();
+        objectStore.put(record);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+      console.log('💾 Game snapshot: selection saved', { gameType: selection.gameType, packs: selection.packIds.length });
+    } catch (error) {
+      console.error('❌ Game snapshot: failed to save selection:', error);
+    }
+  }
+
+  /**
+   * Save game progress (call on every state transition)
+   */
+  async saveState(state: GamePlaySnapshot): Promise<void> {
+    try {
+      await this.put('state', state);
+    } catch (error) {
+      console.error('❌ Game snapshot: failed to save state:', error);
+    }
+  }
+
+  /**
+   * Load snapshot of interrupted game
+   * @returns null when there is no snapshot, it is outdated or from incompatible version
+   */
+  async load(): Promise<GameSnapshot | null> {
+    try {
+      const selection = await this.getRecord<GameSelectionSnapshot>('selection');
+      if (!selection || selection.version !== SNAPSHOT_VERSION) return null;
+
+      const state = await this.getRecord<GamePlaySnapshot>('state');
+      const savedAt = Math.max(selection.savedAt, state?.savedAt ?? 0);
+
+      if (Date.now() - savedAt > SNAPSHOT_MAX_AGE_MS) {
+        console.log('🗑️ Game snapshot: outdated, discarding');
+        await this.clear();
+        return null;
+      }
+
+      return {
+        version: SNAPSHOT_VERSION,
+        savedAt,
+        selection: selection.data,
+        state: state && state.version === SNAPSHOT_VERSION ? state.data : null
+      };
+    } catch (error) {
+      console.error('❌ Game snapshot: failed to load:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove snapshot (game finished or host declined to resume)
+   */
+  async clear(): Promise<void> {
+    try {
+      const database = await this.init();
+
+      await new Promise<void>((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readwrite');
+        const request = transaction.objectStore(STORE_NAME).clear();
+
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('❌ Game snapshot: failed to clear:', error);
+    }
+  }
+}
+
+// Singleton instance
+export const gameSnapshotStorage = new GameSnapshotStorage();
@@ -0,0 +1,98 @@
+/**
+ * League Storage
+ *
+ * IndexedDB-based storage of league seasons (teams, points table, recorded games).
+ * Season results must outlive "Clear cache", so they are not kept in localStorage.
+ */
+
+import type { Season } from '../league';
+
+const DB_NAME = 'League';
+const DB_VERSION = 1;
+const STORE_NAME = 'seasons';
+
+class LeagueStorage {
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize IndexedDB
+   */
+  async init(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const database = (event.target as IDBOpenDBRequest).result as IDBDatabase;
+
+        if (!database.objectStoreNames.contains(STORE_NAME)) {
+          database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+    });
+  }
+
+  async list(): Promise<Season[]> {
+    try {
+      const database = await this.init();
+
+      const seasons = await new Promise<Season[]>((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readonly');
+        const request = transaction.objectStore(STORE_NAME).getAll();
+
+        request.onsuccess = () => resolve(request.result as Season[]);
+        request.onerror = () => reject(request.error);
+      });
+      return seasons.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+      console.error('❌ League: failed to list seasons:', error);
+      return [];
+    }
+  }
+
+  async get(seasonId: string): Promise<Season | null> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readonly');
+      const request = transaction.objectStore(STORE_NAME).get(seasonId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async save(season: Season): Promise<void> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).put(season);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async delete(seasonId: string): Promise<void> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).delete(seasonId);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Singleton instance
+export const leagueStorage = new LeagueStorage();
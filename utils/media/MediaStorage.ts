@@ -141,6 +141,33 @@ class MediaStorage {
     }
   }
 
+  /**
+   * Check which media IDs are not stored (keys only - files are not read)
+   */
+  async findMissing(mediaIds: string[]): Promise<Set<string>> {
+    if (mediaIds.length === 0) return new Set();
+
+    try {
+      const database = await this.init();
+
+      return new Promise((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readonly');
+        const objectStore = transaction.objectStore(STORE_NAME);
+        const request = objectStore.getAllKeys();
+
+        request.onsuccess = () => {
+          const stored = new Set(request.result as string[]);
+          resolve(new Set(mediaIds.filter(id => !stored.has(id))));
+        };
+
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('❌ Ошибка проверки медиа в IndexedDB:', error);
+      return new Set();
+    }
+  }
+
   /**
    * Delete all files for a specific pack
    */
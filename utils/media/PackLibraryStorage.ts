@@ -0,0 +1,195 @@
+/**
+ * Pack Library Storage
+ *
+ * IndexedDB-based library of every pack the host has authored or loaded.
+ * Packs live here independently of the game selector list, so they survive
+ * reloads and can be searched, tagged, archived and reopened in PackEditor.
+ *
+ * Media files stay in MediaStorage - library records only reference them
+ * by mediaId, and delete() removes the pack's revision history and media
+ * no other library pack or revision uses.
+ */
+
+import type { GamePack } from '../../components/host/packeditor/types';
+import { bulkDeleteMediaFiles } from './MediaBulkOperations';
+import { packRevisionStorage } from './PackRevisionStorage';
+import { duplicatePack, findOrphanedMediaIds, type LibraryPack } from '../packLibrary';
+
+const DB_NAME = 'PackLibrary';
+const DB_VERSION = 1;
+const STORE_NAME = 'packs';
+
+class PackLibraryStorage {
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize IndexedDB
+   */
+  async init(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const database = (event.target as IDBOpenDBRequest).result as IDBDatabase;
+
+        if (!database.objectStoreNames.contains(STORE_NAME)) {
+          database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+    });
+  }
+
+  private async put(entry: LibraryPack): Promise<void> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).put(entry);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * All library packs (including archived)
+   */
+  async list(): Promise<LibraryPack[]> {
+    try {
+      const database = await this.init();
+
+      return await new Promise((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readonly');
+        const request = transaction.objectStore(STORE_NAME).getAll();
+
+        request.onsuccess = () => resolve(request.result as LibraryPack[]);
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('❌ Pack library: failed to list packs:', error);
+      return [];
+    }
+  }
+
+  async get(packId: string): Promise<LibraryPack | null> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readonly');
+      const request = transaction.objectStore(STORE_NAME).get(packId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Add or update pack content - tags, archive flag and play date are kept
+   */
+  async savePack(pack: GamePack): Promise<void> {
+    try {
+      const existing = await this.get(pack.id);
+      await this.put({
+        id: pack.id,
+        pack,
+        tags: existing?.tags || [],
+        archived: existing?.archived || false,
+        addedAt: existing?.addedAt || Date.now(),
+        lastPlayedAt: existing?.lastPlayedAt
+      });
+      console.log('💾 Pack library: saved', { name: pack.name, isNew: !existing });
+    } catch (error) {
+      console.error('❌ Pack library: failed to save pack:', error);
+    }
+  }
+
+  private async update(packId: string, changes: Partial<Omit<LibraryPack, 'id' | 'pack'>>): Promise<void> {
+    const existing = await this.get(packId);
+    if (!existing) return;
+    await this.put({ ...existing, ...changes });
+  }
+
+  async setTags(packId: string, tags: string[]): Promise<void> {
+    await this.update(packId, { tags });
+  }
+
+  async setArchived(packId: string, archived: boolean): Promise<void> {
+    await this.update(packId, { archived });
+  }
+
+  /**
+   * Mark packs as played now (call when game session starts)
+   */
+  async markPlayed(packIds: string[]): Promise<void> {
+    try {
+      const playedAt = Date.now();
+      for (const packId of packIds) {
+        await this.update(packId, { lastPlayedAt: playedAt });
+      }
+    } catch (error) {
+      console.error('❌ Pack library: failed to mark packs as played:', error);
+    }
+  }
+
+  /**
+   * Copy pack with new ids (media files are shared with the original)
+   */
+  async duplicate(packId: string): Promise<LibraryPack | null> {
+    const existing = await this.get(packId);
+    if (!existing) return null;
+
+    const pack = duplicatePack(existing.pack);
+    const entry: LibraryPack = { id: pack.id, pack, tags: [...existing.tags], archived: false, addedAt: Date.now() };
+    await this.put(entry);
+    console.log('📋 Pack library: duplicated', { from: existing.pack.name, to: pack.name });
+    return entry;
+  }
+
+  /**
+   * Remove pack with its revisions, and media files no other library pack
+   * or revision of another pack references
+   * @returns number of deleted media files
+   */
+  async delete(packId: string): Promise<number> {
+    const entries = await this.list();
+    const removed = entries.find(e => e.id === packId);
+    if (!removed) return 0;
+
+    // Revisions of the removed pack go with it - older media of its history is orphaned too
+    const revisions = await packRevisionStorage.listAll();
+    const ownRevisions = revisions.filter(r => r.packId === packId).map(r => r.pack);
+    const keptPacks = [
+      ...entries.filter(e => e.id !== packId).map(e => e.pack),
+      ...revisions.filter(r => r.packId !== packId).map(r => r.pack)
+    ];
+    const orphaned = [...new Set([removed.pack, ...ownRevisions].flatMap(pack => findOrphanedMediaIds(pack, keptPacks)))];
+    const database = await this.init();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).delete(packId);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+
+    await packRevisionStorage.deleteForPack(packId);
+
+    if (orphaned.length > 0) {
+      await bulkDeleteMediaFiles(orphaned);
+    }
+    console.log('🗑️ Pack library: deleted', { name: removed.pack.name, mediaDeleted: orphaned.length });
+    return orphaned.length;
+  }
+}
+
+// Singleton instance
+export const packLibraryStorage = new PackLibraryStorage();
@@ -0,0 +1,155 @@
+/**
+ * Pack Revision Storage
+ *
+ * IndexedDB-based revision history of packs. PackEditor stores a snapshot
+ * on every save, so a bad edit can be compared with earlier revisions and
+ * rolled back (whole pack or a single question).
+ *
+ * Media files are not copied - revisions reference the same mediaIds,
+ * so PackLibraryStorage keeps media any revision still uses.
+ */
+
+import type { GamePack } from '../../components/host/packeditor/types';
+
+const DB_NAME = 'PackRevisions';
+const DB_VERSION = 1;
+const STORE_NAME = 'revisions';
+
+/** Older revisions beyond this count are dropped */
+export const MAX_REVISIONS_PER_PACK = 50;
+
+export interface PackRevision {
+  id: string;
+  packId: string;
+  savedAt: number;
+  pack: GamePack;
+}
+
+/** Pack content without timestamps and blob URLs - identical saves don't create revisions */
+const contentKey = (pack: GamePack): string =>
+  JSON.stringify({ name: pack.name, cover: pack.cover, rounds: pack.rounds }, (_key, value) =>
+    typeof value === 'string' && value.startsWith('blob:') ? 'blob:' : value);
+
+class PackRevisionStorage {
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize IndexedDB
+   */
+  async init(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const database = (event.target as IDBOpenDBRequest).result as IDBDatabase;
+
+        if (!database.objectStoreNames.contains(STORE_NAME)) {
+          const objectStore = database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          objectStore.createIndex('packId', 'packId', { unique: false });
+        }
+      };
+    });
+  }
+
+  /**
+   * Revisions of a pack, newest first
+   */
+  async list(packId: string): Promise<PackRevision[]> {
+    try {
+      const database = await this.init();
+
+      const revisions = await new Promise<PackRevision[]>((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readonly');
+        const request = transaction.objectStore(STORE_NAME).index('packId').getAll(IDBKeyRange.only(packId));
+
+        request.onsuccess = () => resolve(request.result as PackRevision[]);
+        request.onerror = () => reject(request.error);
+      });
+      return revisions.sort((a, b) => b.savedAt - a.savedAt);
+    } catch (error) {
+      console.error('❌ Pack revisions: failed to list:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Revisions of every pack (media reference check)
+   */
+  async listAll(): Promise<PackRevision[]> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readonly');
+      const request = transaction.objectStore(STORE_NAME).getAll();
+
+      request.onsuccess = () => resolve(request.result as PackRevision[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Drop the whole history of a pack (pack deleted from library)
+   */
+  async deleteForPack(packId: string): Promise<void> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const objectStore = transaction.objectStore(STORE_NAME);
+      const request = objectStore.index('packId').getAllKeys(IDBKeyRange.only(packId));
+
+      request.onsuccess = () => request.result.forEach(key => objectStore.delete(key));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Store snapshot of saved pack (skipped when nothing changed since last revision)
+   * @returns created revision or null
+   */
+  async add(pack: GamePack): Promise<PackRevision | null> {
+    try {
+      const existing = await this.list(pack.id);
+      if (existing[0] && contentKey(existing[0].pack) === contentKey(pack)) {
+        return null;
+      }
+
+      const revision: PackRevision = {
+        id: `${pack.id}_${Date.now()}`,
+        packId: pack.id,
+        savedAt: Date.now(),
+        pack
+      };
+      const outdated = existing.slice(MAX_REVISIONS_PER_PACK - 1);
+      const database = await this.init();
+
+      await new Promise<void>((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readwrite');
+        const objectStore = transaction.objectStore(STORE_NAME);
+        objectStore.put(revision);
+        outdated.forEach(r => objectStore.delete(r.id));
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+
+      console.log('🕓 Pack revision saved', { name: pack.name, revisions: existing.length + 1 - outdated.length });
+      return revision;
+    } catch (error) {
+      console.error('❌ Pack revisions: failed to save revision:', error);
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const packRevisionStorage = new PackRevisionStorage();
@@ -0,0 +1,87 @@
+/**
+ * Player Profile Storage
+ *
+ * IndexedDB-based storage of player profiles, keyed by persistentClientId.
+ * Like audience groups, profiles live outside localStorage so that
+ * "Clear cache" does not wipe the roster.
+ */
+
+import type { PlayerProfile } from '../playerProfiles';
+
+const DB_NAME = 'PlayerProfiles';
+const DB_VERSION = 1;
+const STORE_NAME = 'profiles';
+
+class PlayerProfileStorage {
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize IndexedDB
+   */
+  async init(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const database = (event.target as IDBOpenDBRequest).result as IDBDatabase;
+
+        if (!database.objectStoreNames.contains(STORE_NAME)) {
+          database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+    });
+  }
+
+  async list(): Promise<PlayerProfile[]> {
+    try {
+      const database = await this.init();
+
+      const profiles = await new Promise<PlayerProfile[]>((resolve, reject) => {
+        const transaction = database.transaction([STORE_NAME], 'readonly');
+        const request = transaction.objectStore(STORE_NAME).getAll();
+
+        request.onsuccess = () => resolve(request.result as PlayerProfile[]);
+        request.onerror = () => reject(request.error);
+      });
+      return profiles.sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+    } catch (error) {
+      console.error('❌ Player profiles: failed to list:', error);
+      return [];
+    }
+  }
+
+  async save(profile: PlayerProfile): Promise<void> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).put(profile);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async delete(profileId: string): Promise<void> {
+    const database = await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction([STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(STORE_NAME).delete(profileId);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Singleton instance
+export const playerProfileStorage = new PlayerProfileStorage();
@@ -0,0 +1,277 @@
+/**
+ * Screen Media Storage
+ *
+ * IndexedDB on the demo screen: media files received from the host, keyed by content hash.
+ * Chunks of an unfinished transfer are stored as they arrive, so after a reload or a dropped
+ * connection the host resumes from the first missing chunk instead of resending the whole file.
+ * Complete files are a cache: above MAX_SCREEN_MEDIA_BYTES the least recently used are dropped.
+ */
+
+const DB_NAME = 'ScreenMedia';
+const DB_VERSION = 1;
+const FILES_STORE = 'files';          // hash -> complete file
+const TRANSFERS_STORE = 'transfers';  // hash -> unfinished transfer
+const CHUNKS_STORE = 'chunks';        // [hash, index] -> chunk bytes
+
+/** Total size of complete files kept on the screen */
+export const MAX_SCREEN_MEDIA_BYTES = 1024 * 1024 * 1024;
+
+export interface ScreenMediaFile {
+  hash: string;
+  blob: Blob;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  receivedAt: number;
+  lastUsedAt?: number;  // Eviction order (files stored before it was added fall back to receivedAt)
+}
+
+export interface ScreenMediaTransfer {
+  hash: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  nextChunk: number;  // Chunks arrive in order - everything before this one is stored
+}
+
+interface ChunkRecord {
+  hash: string;
+  index: number;
+  data: Uint8Array;
+}
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const chunkRange = (hash: string) => IDBKeyRange.bound([hash, 0], [hash, Number.MAX_SAFE_INTEGER]);
+
+const lastUsed = (file: ScreenMediaFile) => file.lastUsedAt ?? file.receivedAt;
+
+const isQuotaError = (error: unknown) => error instanceof DOMException && error.name === 'QuotaExceededError';
+
+class ScreenMediaStorage {
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize IndexedDB
+   */
+  async init(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const database = (event.target as IDBOpenDBRequest).result as IDBDatabase;
+
+        if (!database.objectStoreNames.contains(FILES_STORE)) {
+          database.createObjectStore(FILES_STORE, { keyPath: 'hash' });
+        }
+        if (!database.objectStoreNames.contains(TRANSFERS_STORE)) {
+          database.createObjectStore(TRANSFERS_STORE, { keyPath: 'hash' });
+        }
+        if (!database.objectStoreNames.contains(CHUNKS_STORE)) {
+          database.createObjectStore(CHUNKS_STORE, { keyPath: ['hash', 'index'] });
+        }
+      };
+    });
+  }
+
+  /**
+   * Stored file - marked as just used, so it is evicted last
+   */
+  async getFile(hash: string): Promise<ScreenMediaFile | null> {
+    const database = await this.init();
+    const transaction = database.transaction([FILES_STORE], 'readwrite');
+    const files = transaction.objectStore(FILES_STORE);
+    const file = await requestResult(files.get(hash)) as ScreenMediaFile | undefined;
+    if (!file) return null;
+
+    const used = { ...file, lastUsedAt: Date.now() };
+    files.put(used);
+    return used;
+  }
+
+  /**
+   * Which of these files are stored, and the first chunk still needed for the rest
+   */
+  async getInventory(hashes: string[]): Promise<{ have: string[]; missing: Record<string, number> }> {
+    const database = await this.init();
+    const transaction = database.transaction([FILES_STORE, TRANSFERS_STORE], 'readonly');
+    const files = transaction.objectStore(FILES_STORE);
+    const transfers = transaction.objectStore(TRANSFERS_STORE);
+
+    const have: string[] = [];
+    const missing: Record<string, number> = {};
+    await Promise.all(hashes.map(async hash => {
+      if (await requestResult(files.getKey(hash)) !== undefined) {
+        have.push(hash);
+        return;
+      }
+      const transfer = await requestResult(transfers.get(hash)) as ScreenMediaTransfer | undefined;
+      missing[hash] = transfer?.nextChunk ?? 0;
+    }));
+    return { have, missing };
+  }
+
+  /**
+   * Start a transfer or continue the stored one (same size and chunking)
+   * @returns first chunk still needed
+   */
+  async beginTransfer(meta: Omit<ScreenMediaTransfer, 'nextChunk'>): Promise<number> {
+    const database = await this.init();
+    const transaction = database.transaction([TRANSFERS_STORE, CHUNKS_STORE], 'readwrite');
+    const transfers = transaction.objectStore(TRANSFERS_STORE);
+    const done = transactionDone(transaction);
+
+    const existing = await requestResult(transfers.get(meta.hash)) as ScreenMediaTransfer | undefined;
+    let nextChunk = 0;
+    if (existing && existing.chunkSize === meta.chunkSize && existing.fileSize === meta.fileSize) {
+      nextChunk = existing.nextChunk;
+    } else {
+      transaction.objectStore(CHUNKS_STORE).delete(chunkRange(meta.hash));
+      transfers.put({ ...meta, nextChunk: 0 });
+    }
+    await done;
+    return nextChunk;
+  }
+
+  /**
+   * Store the next chunk of a transfer. Duplicates and chunks after a gap are ignored -
+   * the host resumes from the returned position.
+   * @returns stored flag and the first chunk still needed (null - no such transfer)
+   */
+  async putChunk(
+    hash: string,
+    index: number,
+    data: Uint8Array
+  ): Promise<{ stored: boolean; nextChunk: number; totalChunks: number } | null> {
+    const database = await this.init();
+    const transaction = database.transaction([TRANSFERS_STORE, CHUNKS_STORE], 'readwrite');
+    const transfers = transaction.objectStore(TRANSFERS_STORE);
+    const done = transactionDone(transaction);
+
+    const transfer = await requestResult(transfers.get(hash)) as ScreenMediaTransfer | undefined;
+    if (!transfer) {
+      await done;
+      return null;
+    }
+    const stored = index === transfer.nextChunk && index < transfer.totalChunks;
+    if (stored) {
+      const chunk: ChunkRecord = { hash, index, data };
+      transaction.objectStore(CHUNKS_STORE).put(chunk);
+      transfers.put({ ...transfer, nextChunk: index + 1 });
+    }
+    await done;
+    return { stored, nextChunk: stored ? index + 1 : transfer.nextChunk, totalChunks: transfer.totalChunks };
+  }
+
+  /**
+   * All chunks are there - assemble the file
+   * @returns null when the transfer is not complete
+   */
+  async assembleTransfer(hash: string): Promise<ScreenMediaFile | null> {
+    const database = await this.init();
+    const transaction = database.transaction([TRANSFERS_STORE, CHUNKS_STORE], 'readonly');
+    const transfer = await requestResult(transaction.objectStore(TRANSFERS_STORE).get(hash)) as ScreenMediaTransfer | undefined;
+    if (!transfer || transfer.nextChunk < transfer.totalChunks) return null;
+
+    const chunks = await requestResult(transaction.objectStore(CHUNKS_STORE).getAll(chunkRange(hash))) as ChunkRecord[];
+    return {
+      hash,
+      blob: new Blob(chunks.map(chunk => chunk.data), { type: transfer.fileType }),
+      fileName: transfer.fileName,
+      fileType: transfer.fileType,
+      fileSize: transfer.fileSize,
+      receivedAt: Date.now()
+    };
+  }
+
+  /**
+   * Keep the assembled file and drop its transfer chunks.
+   * Older files go first to stay under MAX_SCREEN_MEDIA_BYTES; when the browser quota
+   * is smaller than that, every other file is dropped and the save is retried once.
+   */
+  async saveFile(file: ScreenMediaFile): Promise<void> {
+    await this.evictFiles(file, MAX_SCREEN_MEDIA_BYTES);
+    try {
+      await this.putFile(file);
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      console.warn('[ScreenMediaStorage] ⚠️ Storage quota exceeded, dropping stored files');
+      await this.evictFiles(file, 0);
+      await this.putFile(file);
+    }
+  }
+
+  /**
+   * Delete least recently used files until the new one fits into maxBytes
+   */
+  private async evictFiles(incoming: ScreenMediaFile, maxBytes: number): Promise<void> {
+    const database = await this.init();
+    const transaction = database.transaction([FILES_STORE], 'readwrite');
+    const files = transaction.objectStore(FILES_STORE);
+    const done = transactionDone(transaction);
+
+    const stored = (await requestResult(files.getAll()) as ScreenMediaFile[])
+      .filter(file => file.hash !== incoming.hash)
+      .sort((a, b) => lastUsed(b) - lastUsed(a));
+
+    let keptBytes = incoming.fileSize;
+    const evicted: string[] = [];
+    stored.forEach(file => {
+      if (keptBytes + file.fileSize <= maxBytes) {
+        keptBytes += file.fileSize;
+      } else {
+        files.delete(file.hash);
+        evicted.push(file.hash);
+      }
+    });
+    await done;
+
+    if (evicted.length > 0) {
+      console.log('[ScreenMediaStorage] 🧹 Evicted files:', { count: evicted.length, keptBytes });
+    }
+  }
+
+  private async putFile(file: ScreenMediaFile): Promise<void> {
+    const database = await this.init();
+    const transaction = database.transaction([FILES_STORE, TRANSFERS_STORE, CHUNKS_STORE], 'readwrite');
+    transaction.objectStore(FILES_STORE).put({ ...file, lastUsedAt: Date.now() });
+    transaction.objectStore(TRANSFERS_STORE).delete(file.hash);
+    transaction.objectStore(CHUNKS_STORE).delete(chunkRange(file.hash));
+    return transactionDone(transaction);
+  }
+
+  /**
+   * Drop an unfinished transfer (e.g. assembled bytes did not match the hash)
+   */
+  async discardTransfer(hash: string): Promise<void> {
+    const database = await this.init();
+    const transaction = database.transaction([TRANSFERS_STORE, CHUNKS_STORE], 'readwrite');
+    transaction.objectStore(TRANSFERS_STORE).delete(hash);
+    transaction.objectStore(CHUNKS_STORE).delete(chunkRange(hash));
+    return transactionDone(transaction);
+  }
+}
+
+// Singleton instance
+export const screenMediaStorage = new ScreenMediaStorage();
@@ -8,6 +8,30 @@
 export { mediaStorage } from './MediaStorage';
 export type { MediaStorageOptions } from './MediaStorage';
 
+// Crash-safe game session snapshot (same IndexedDB approach as MediaStorage)
+export { gameSnapshotStorage, SNAPSHOT_MAX_AGE_MS } from './GameSnapshotStorage';
+export type { GameSnapshot, GameSelectionSnapshot, GamePlaySnapshot } from './GameSnapshotStorage';
+
+// Pack library (authored/loaded packs with tags, archive and play dates)
+export { packLibraryStorage } from './PackLibraryStorage';
+
+// Audience groups and questions they have already seen
+export { audienceGroupStorage } from './AudienceGroupStorage';
+
+// Persistent player profiles (nickname, avatar, preferred team)
+export { playerProfileStorage } from './PlayerProfileStorage';
+
+// League seasons with recorded game results
+export { leagueStorage } from './LeagueStorage';
+
+// Pack revision history (snapshot on every PackEditor save)
+export { packRevisionStorage, MAX_REVISIONS_PER_PACK } from './PackRevisionStorage';
+export type { PackRevision } from './PackRevisionStorage';
+
+// Demo screen: media received from the host, keyed by content hash (resumable transfers)
+export { screenMediaStorage } from './ScreenMediaStorage';
+export type { ScreenMediaFile, ScreenMediaTransfer } from './ScreenMediaStorage';
+
 // Cache
 export { MediaFileCache } from './MediaFileCache';
 export type { CacheEntry, CacheStats, MediaFileCacheOptions } from './MediaFileCache';
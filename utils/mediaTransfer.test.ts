@@ -0,0 +1,185 @@
+/**
+ * Media Transfer Tests
+ * Тесты передачи медиа на демо-экран по хешу с докачкой
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ScreenMediaSender,
+  MEDIA_CHUNK_SIZE,
+  bytesToBase64,
+  base64ToBytes,
+  getChunkCount,
+  type OfferedMedia
+} from './mediaTransfer';
+import type { P2PSMessage } from '../types';
+
+const SCREEN = 'screen-1';
+
+function createMedia(size: number, hash = 'hash-1'): OfferedMedia {
+  const bytes = new Uint8Array(size).map((_, i) => i % 251);
+  return {
+    hash,
+    file: new Blob([bytes]),
+    fileName: 'clip.mp4',
+    transfer: {
+      mediaId: 'question_q1_media',
+      mediaType: 'video',
+      fileName: 'clip.mp4',
+      fileType: 'video/mp4',
+      fileSize: size,
+      hash,
+      isYouTube: false
+    }
+  };
+}
+
+const inventory = (have: string[], missing: Record<string, number>) =>
+  ({ type: 'MEDIA_INVENTORY', payload: { have, missing } }) as P2PSMessage;
+
+const ack = (hash: string, index: number, complete = false) =>
+  ({ type: 'MEDIA_CHUNK_ACK', payload: { hash, index, complete } }) as P2PSMessage;
+
+// Let the sender read file slices
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe('ScreenMediaSender', () => {
+  let sender: ScreenMediaSender;
+  let sent: Array<{ peerId: string; type?: string; payload: any }>;
+
+  const ofType = (type: string) => sent.filter(message => message.type === type);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sent = [];
+    sender = new ScreenMediaSender();
+    const record = (peerId: string, message: { type?: string }) => {
+      sent.push({ peerId, type: message.type, payload: (message as any).payload });
+      return true;
+    };
+    sender.attach({ getScreens: () => [SCREEN], send: record, sendBinary: record });
+  });
+
+  afterEach(() => {
+    sender.clear();
+    vi.useRealTimers();
+  });
+
+  it('should ask the screen about offered media first', () => {
+    sender.offer(createMedia(100));
+
+    expect(sent).toEqual([{ peerId: SCREEN, type: 'MEDIA_INVENTORY_QUERY', payload: { hashes: ['hash-1'] } }]);
+  });
+
+  it('should only bind media the screen already has', async () => {
+    sender.offer(createMedia(100));
+    sent = [];
+
+    sender.handleMessage(inventory(['hash-1'], {}), SCREEN);
+    await flush();
+
+    expect(sent.map(message => message.type)).toEqual(['MEDIA_TRANSFER']);
+    expect(sent[0].payload).toMatchObject({ mediaId: 'question_q1_media', hash: 'hash-1' });
+    expect(sent[0].payload.fileData).toBeUndefined();
+  });
+
+  it('should resume from the chunk the screen reported', async () => {
+    const size = MEDIA_CHUNK_SIZE * 3 + 10;
+    const media = createMedia(size);
+    sender.offer(media);
+
+    sender.handleMessage(inventory([], { 'hash-1': 2 }), SCREEN);
+    await flush();
+
+    expect(ofType('MEDIA_CHUNK_METADATA')[0].payload).toMatchObject({
+      hash: 'hash-1',
+      fileSize: size,
+      chunkSize: MEDIA_CHUNK_SIZE,
+      totalChunks: 4,
+      startChunk: 2
+    });
+    const chunks = ofType('MEDIA_CHUNK');
+    expect(chunks.map(chunk => chunk.payload.index)).toEqual([2, 3]);
+
+    const expected = new Uint8Array(await media.file.slice(MEDIA_CHUNK_SIZE * 3).arrayBuffer());
+    expect(chunks[1].payload.data).toBeInstanceOf(ArrayBuffer);
+    expect(new Uint8Array(chunks[1].payload.data)).toEqual(expected);
+  });
+
+  it('should keep a window of unacknowledged chunks', async () => {
+    sender.offer(createMedia(MEDIA_CHUNK_SIZE * 12));
+    sender.handleMessage(inventory([], { 'hash-1': 0 }), SCREEN);
+    await flush();
+
+    expect(ofType('MEDIA_CHUNK')).toHaveLength(8);
+
+    sender.handleMessage(ack('hash-1', 0), SCREEN);
+    sender.handleMessage(ack('hash-1', 1), SCREEN);
+    await flush();
+
+    expect(ofType('MEDIA_CHUNK').map(chunk => chunk.payload.index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('should not start a second transfer of the same file', async () => {
+    sender.offer(createMedia(MEDIA_CHUNK_SIZE * 2));
+    sender.handleMessage(inventory([], { 'hash-1': 0 }), SCREEN);
+    sender.handleMessage(inventory([], { 'hash-1': 0 }), SCREEN);
+    await flush();
+
+    expect(ofType('MEDIA_CHUNK_METADATA')).toHaveLength(1);
+    expect(ofType('MEDIA_CHUNK')).toHaveLength(2);
+  });
+
+  it('should re-query the screen when ACKs stop', async () => {
+    sender.offer(createMedia(MEDIA_CHUNK_SIZE * 2));
+    sender.handleMessage(inventory([], { 'hash-1': 0 }), SCREEN);
+    await flush();
+    sent = [];
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(sent).toEqual([{ peerId: SCREEN, type: 'MEDIA_INVENTORY_QUERY', payload: { hashes: ['hash-1'] } }]);
+
+    // Screen stored the first chunk before the connection dropped
+    sender.handleMessage(inventory([], { 'hash-1': 1 }), SCREEN);
+    await flush();
+
+    expect(ofType('MEDIA_CHUNK').map(chunk => chunk.payload.index)).toEqual([1]);
+  });
+
+  it('should stop after the last ACK', async () => {
+    sender.offer(createMedia(100));
+    sender.handleMessage(inventory([], { 'hash-1': 0 }), SCREEN);
+    await flush();
+    sender.handleMessage(ack('hash-1', 0, true), SCREEN);
+    sent = [];
+
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(sent).toEqual([]);
+  });
+
+  it('should ask a reconnected screen about everything offered', () => {
+    const answerMedia = createMedia(100, 'hash-2');
+    sender.offer(createMedia(100, 'hash-1'));
+    sender.offer({ ...answerMedia, transfer: { ...answerMedia.transfer, mediaId: 'question_q1_answer_media' } });
+    sent = [];
+
+    sender.resync(SCREEN);
+
+    expect(sent[0].payload.hashes).toEqual(['hash-1', 'hash-2']);
+  });
+});
+
+describe('chunk helpers', () => {
+  it('should round-trip bytes through base64', () => {
+    const bytes = new Uint8Array(100_000).map((_, i) => (i * 13) & 0xff);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+
+  it('should count at least one chunk', () => {
+    expect(getChunkCount(0)).toBe(1);
+    expect(getChunkCount(MEDIA_CHUNK_SIZE)).toBe(1);
+    expect(getChunkCount(MEDIA_CHUNK_SIZE + 1)).toBe(2);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Media Transfer (host -> demo screen)
+ *
+ * Local media files are identified by content hash and sent in chunks:
+ * 1. Host offers a file: MEDIA_INVENTORY_QUERY with its hash
+ * 2. Screen answers MEDIA_INVENTORY - hashes it has stored, and the first missing chunk of the rest
+ * 3. Host binds the hash to the question media (MEDIA_TRANSFER with hash, no file data)
+ *    and sends missing files as MEDIA_CHUNK_METADATA + MEDIA_CHUNKs from that chunk on
+ * 4. Screen stores every chunk in IndexedDB and answers MEDIA_CHUNK_ACK
+ *
+ * Chunk bytes travel as ArrayBuffer (PeerJS binary serialization);
+ * only the JSON relay turns them into base64 (RelayConnection).
+ *
+ * No ACK in time - the host asks again and resumes from where the screen stopped,
+ * so a reload or a dropped connection does not restart the file.
+ */
+
+import { MessageCategory } from '../types';
+import type { MediaTransferMessage, P2PSMessage } from '../types';
+
+export const MEDIA_CHUNK_SIZE = 64 * 1024;
+
+const CHUNK_WINDOW = 8;        // Chunks in flight without an ACK
+const ACK_TIMEOUT = 10000;     // No ACK for this long - re-query and resume
+const MAX_RESUMES = 5;         // Resumes in a row without progress before giving up
+
+export interface MediaTransferTransport {
+  getScreens: () => string[];
+  send: (peerId: string, message: Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>) => boolean;
+  sendBinary: (peerId: string, message: Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>) => boolean;  // ArrayBuffer payload - not through JSON batching
+}
+
+export interface OfferedMedia {
+  hash: string;
+  file: Blob;
+  fileName: string;
+  transfer: MediaTransferMessage['payload'];  // Binding of the hash to question media
+}
+
+interface ActiveTransfer {
+  peerId: string;
+  hash: string;
+  file: Blob;
+  totalChunks: number;
+  nextToSend: number;
+  nextToAck: number;  // First chunk the screen has not confirmed yet
+  pumping: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Base64 for binary data on the JSON relay
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // String.fromCharCode has an argument limit - convert in blocks
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export const getChunkCount = (fileSize: number) => Math.max(1, Math.ceil(fileSize / MEDIA_CHUNK_SIZE));
+
+const transferKey = (peerId: string, hash: string) => `${peerId}:${hash}`;
+
+class ScreenMediaSender {
+  private transport: MediaTransferTransport | null = null;
+  private offered = new Map<string, OfferedMedia>();        // mediaId -> media
+  private transfers = new Map<string, ActiveTransfer>();    // peerId:hash -> transfer
+  private resumes = new Map<string, number>();              // peerId:hash -> resumes without completion
+
+  attach(transport: MediaTransferTransport | null): void {
+    this.transport = transport;
+    if (!transport) {
+      this.stopTransfers();
+    }
+  }
+
+  /**
+   * Offer question media to the demo screens - they answer which chunks they need
+   */
+  offer(media: OfferedMedia): void {
+    this.offered.set(media.transfer.mediaId, media);
+    this.transport?.getScreens().forEach(peerId => this.query(peerId, [media.hash]));
+  }
+
+  /**
+   * Ask the screens about everything offered (screen reconnected or reloaded)
+   */
+  resync(peerId?: string): void {
+    const hashes = [...new Set(Array.from(this.offered.values(), media => media.hash))];
+    if (hashes.length === 0) return;
+    const screens = peerId ? [peerId] : this.transport?.getScreens() ?? [];
+    screens.forEach(screen => this.query(screen, hashes));
+  }
+
+  /**
+   * Handle MEDIA_INVENTORY / MEDIA_CHUNK_ACK from a screen
+   * @returns true when the message belonged to media transfer
+   */
+  handleMessage(message: P2PSMessage, peerId: string): boolean {
+    if (message.type === 'MEDIA_INVENTORY') {
+      this.handleInventory(peerId, message.payload.have, message.payload.missing);
+      return true;
+    }
+    if (message.type === 'MEDIA_CHUNK_ACK') {
+      this.handleAck(peerId, message.payload.hash, message.payload.index, message.payload.complete);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Forget offered media and stop transfers (question closed)
+   */
+  clear(): void {
+    this.offered.clear();
+    this.resumes.clear();
+    this.stopTransfers();
+  }
+
+  private send(peerId: string, type: string, payload: unknown): boolean {
+    if (!this.transport) return false;
+    return this.transport.send(peerId, { category: MessageCategory.STATE, type, payload } as Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>);
+  }
+
+  private query(peerId: string, hashes: string[]): void {
+    this.send(peerId, 'MEDIA_INVENTORY_QUERY', { hashes });
+  }
+
+  private bindingsFor(hash: string): OfferedMedia[] {
+    return Array.from(this.offered.values()).filter(media => media.hash === hash);
+  }
+
+  private handleInventory(peerId: string, have: string[], missing: Record<string, number>): void {
+    have.forEach(hash => {
+      this.bindingsFor(hash).forEach(media => this.send(peerId, 'MEDIA_TRANSFER', media.transfer));
+    });
+
+    Object.entries(missing).forEach(([hash, startChunk]) => {
+      const bindings = this.bindingsFor(hash);
+      if (bindings.length === 0) return;
+      // Binding first - the screen shows the media as soon as the file is complete
+      bindings.forEach(media => this.send(peerId, 'MEDIA_TRANSFER', media.transfer));
+      if (!this.transfers.has(transferKey(peerId, hash))) {
+        this.startTransfer(peerId, bindings[0], startChunk);
+      }
+    });
+  }
+
+  private startTransfer(peerId: string, media: OfferedMedia, startChunk: number): void {
+    const totalChunks = getChunkCount(media.file.size);
+    const start = Math.min(Math.max(0, startChunk), totalChunks);
+    const transfer: ActiveTransfer = {
+      peerId,
+      hash: media.hash,
+      file: media.file,
+      totalChunks,
+      nextToSend: start,
+      nextToAck: start,
+      pumping: false
+    };
+    this.transfers.set(transferKey(peerId, media.hash), transfer);
+
+    console.log('[ScreenMediaSender] 📤 Sending file:', {
+      peerId,
+      fileName: media.fileName,
+      hash: media.hash.slice(0, 12),
+      startChunk: start,
+      totalChunks
+    });
+
+    this.send(peerId, 'MEDIA_CHUNK_METADATA', {
+      hash: media.hash,
+      fileName: media.fileName,
+      fileType: media.transfer.fileType,
+      fileSize: media.file.size,
+      chunkSize: MEDIA_CHUNK_SIZE,
+      totalChunks,
+      startChunk: start
+    });
+    this.armTimeout(transfer);
+    void this.pump(transfer);
+  }
+
+  private async pump(transfer: ActiveTransfer): Promise<void> {
+    if (transfer.pumping) return;
+    transfer.pumping = true;
+    const key = transferKey(transfer.peerId, transfer.hash);
+
+    try {
+      while (
+        this.transfers.get(key) === transfer &&
+        transfer.nextToSend < transfer.totalChunks &&
+        transfer.nextToSend - transfer.nextToAck < CHUNK_WINDOW
+      ) {
+        const index = transfer.nextToSend;
+        const offset = index * MEDIA_CHUNK_SIZE;
+        const data = await transfer.file.slice(offset, offset + MEDIA_CHUNK_SIZE).arrayBuffer();
+        if (this.transfers.get(key) !== transfer || !this.transport) return;
+
+        // Send failed (screen gone) - the ACK timeout re-queries and resumes
+        const chunk = { category: MessageCategory.STATE, type: 'MEDIA_CHUNK', payload: { hash: transfer.hash, index, data } } as Omit<P2PSMessage, 'id' | 'timestamp' | 'senderId'>;
+        if (!this.transport.sendBinary(transfer.peerId, chunk)) return;
+        transfer.nextToSend = index + 1;
+      }
+    } catch (error) {
+      console.error('❌ ScreenMediaSender: failed to read file chunk:', error);
+    } finally {
+      transfer.pumping = false;
+    }
+  }
+
+  private handleAck(peerId: string, hash: string, index: number, complete: boolean): void {
+    const key = transferKey(peerId, hash);
+    const transfer = this.transfers.get(key);
+    if (!transfer) return;
+
+    if (complete) {
+      clearTimeout(transfer.timer);
+      this.transfers.delete(key);
+      this.resumes.delete(key);
+      console.log('[ScreenMediaSender] ✅ File delivered:', { peerId, hash: hash.slice(0, 12) });
+      return;
+    }
+
+    transfer.nextToAck = Math.max(transfer.nextToAck, index + 1);
+    this.resumes.delete(key);
+    this.armTimeout(transfer);
+    void this.pump(transfer);
+  }
+
+  private armTimeout(transfer: ActiveTransfer): void {
+    clearTimeout(transfer.timer);
+    transfer.timer = setTimeout(() => this.handleTimeout(transfer), ACK_TIMEOUT);
+  }
+
+  private handleTimeout(transfer: ActiveTransfer): void {
+    const key = transferKey(transfer.peerId, transfer.hash);
+    if (this.transfers.get(key) !== transfer) return;
+    this.transfers.delete(key);
+
+    const resumes = (this.resumes.get(key) ?? 0) + 1;
+    this.resumes.set(key, resumes);
+    if (resumes > MAX_RESUMES) {
+      console.error('❌ ScreenMediaSender: failed to deliver file, giving up:', {
+        peerId: transfer.peerId,
+        hash: transfer.hash.slice(0, 12)
+      });
+      return;
+    }
+
+    console.log('[ScreenMediaSender] ⏱️ No ACK, resuming transfer:', {
+      peerId: transfer.peerId,
+      hash: transfer.hash.slice(0, 12),
+      attempt: resumes
+    });
+    this.query(transfer.peerId, [transfer.hash]);
+  }
+
+  private stopTransfers(): void {
+    this.transfers.forEach(transfer => clearTimeout(transfer.timer));
+    this.transfers.clear();
+  }
+}
+
+// Singleton instance
+export const screenMediaSender = new ScreenMediaSender();
+
+// Export class for testing
+export { ScreenMediaSender };
@@ -5,27 +5,115 @@
 
 const DEFAULT_SIGNALLING_SERVER = 'wss://0.peerjs.com'; // Public PeerJS server
 const LOCAL_SIGNALLING_PORT = 9000; // Local signalling server port
+const LOCAL_HTTP_PORT = 9001; // Signalling server HTTP side: /health, /api/network, built app
 
 /**
- * Get the appropriate signalling server URL based on LAN mode and configuration
+ * Get the appropriate signalling server URL based on LAN mode and configuration.
+ * Offline-first: the public PeerJS cloud is used only when the host opted in,
+ * LAN mode never leaves the local network.
  * @param isLanMode - Whether LAN mode is enabled
  * @param signallingUrl - Optional custom signalling server URL
  * @param lockedIp - Optional locked IP address for LAN mode
- * @returns The signalling server URL to use
+ * @param allowPublicServer - Fall back to the public PeerJS server (needs internet)
+ * @returns The signalling server URL to use, null when there is none to use
  */
 export function getSignallingServer(
   isLanMode: boolean,
   signallingUrl?: string,
-  lockedIp?: string
-): string {
+  lockedIp?: string,
+  allowPublicServer: boolean = false
+): string | null {
   if (isLanMode) {
     // In LAN mode, use local signalling server
     if (lockedIp) {
       return `ws://${lockedIp}:${LOCAL_SIGNALLING_PORT}`;
     }
+    return signallingUrl || null;
   }
-  // Use configured or default public server
-  return signallingUrl || DEFAULT_SIGNALLING_SERVER;
+  // Use configured server, public one only on request
+  return signallingUrl || (allowPublicServer ? DEFAULT_SIGNALLING_SERVER : null);
 }
 
-export { DEFAULT_SIGNALLING_SERVER, LOCAL_SIGNALLING_PORT };
+/**
+ * Signalling server state as seen by the host
+ * - checking: waiting for the local server's /health
+ * - ready: local server answered (or the public one is used on purpose)
+ * - unreachable: local server is not running / not reachable
+ * - public-disabled: Internet mode without the public server opt-in
+ */
+export type SignallingStatus = 'checking' | 'ready' | 'unreachable' | 'public-disabled';
+
+export const SIGNALLING_STATUS_MESSAGES: Record<SignallingStatus, string> = {
+  checking: 'Looking for the local signalling server...',
+  ready: 'Signalling server ready',
+  unreachable: 'Local signalling server is not running - start it with "npm run server"',
+  'public-disabled': 'Internet mode needs the public PeerJS server - allow it in Settings'
+};
+
+/**
+ * Is the local signalling server up? (GET /health on its HTTP port)
+ */
+export async function checkSignallingServer(signallingHost: string): Promise<boolean> {
+  try {
+    const response = await fetch(`http://${signallingHost}:${LOCAL_HTTP_PORT}/health`, {
+      signal: AbortSignal.timeout(3000)
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signalling server for phone / screen / moderator pages, from the invite link:
+ * - signalling=IP: LAN server on that address
+ * - cloud=1: public PeerJS server (host runs in Internet mode)
+ * - otherwise the LAN server on the machine the page was loaded from
+ * @returns undefined for the public server
+ */
+export function getClientSignallingUrl(params: URLSearchParams): string | undefined {
+  const lanServer = params.get('signalling');
+  if (lanServer) {
+    return `ws://${lanServer}:${LOCAL_SIGNALLING_PORT}`;
+  }
+  if (params.get('cloud') === '1') {
+    return undefined;
+  }
+  return `ws://${window.location.hostname}:${LOCAL_SIGNALLING_PORT}`;
+}
+
+export interface NetworkInfo {
+  addresses: { name: string; address: string }[];  // Non-loopback IPv4 interfaces of the server machine
+  signallingPort: number;
+  httpPort: number;
+  servesApp: boolean;  // dist/ build is served by the signalling server
+}
+
+/**
+ * Ask the local signalling server for its LAN addresses.
+ * Works when the page is opened on the server machine (localhost) or via its LAN IP.
+ * @returns null when the server is not running or not reachable
+ */
+export async function fetchNetworkInfo(): Promise<NetworkInfo | null> {
+  try {
+    const response = await fetch(`http://${window.location.hostname}:${LOCAL_HTTP_PORT}/api/network`, {
+      signal: AbortSignal.timeout(3000)
+    });
+    if (!response.ok) return null;
+    const info = await response.json() as NetworkInfo;
+    return Array.isArray(info.addresses) ? info : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * App origin on a LAN address - same port the host page is served from
+ * (Vite dev server on 3000, or the signalling server with the dist/ build)
+ */
+export function getLanAppOrigin(ip: string): string {
+  const port = window.location.port;
+  return port ? `http://${ip}:${port}` : `http://${ip}`;
+}
+
+export { DEFAULT_SIGNALLING_SERVER, LOCAL_SIGNALLING_PORT, LOCAL_HTTP_PORT };
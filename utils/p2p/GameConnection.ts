@@ -0,0 +1,51 @@
+/**
+ * Game Connection
+ *
+ * Transport-independent connection between host and a phone/screen.
+ * WebRTC data channel (PeerJS) is the normal transport; the WebSocket relay
+ * on the LAN signalling server is the fallback when WebRTC can't connect.
+ */
+
+import type { DataConnection } from 'peerjs';
+
+export type TransportKind = 'webrtc' | 'relay';
+
+export interface GameConnection {
+  readonly peer: string;           // Remote peer ID
+  readonly open: boolean;
+  readonly transport: TransportKind;
+  send(data: unknown): void;
+  close(): void;
+  on(event: 'open' | 'close', listener: () => void): void;
+  on(event: 'data', listener: (data: unknown) => void): void;
+  on(event: 'error', listener: (error: Error) => void): void;
+}
+
+/**
+ * PeerJS DataConnection as a GameConnection
+ */
+export class WebRTCConnection implements GameConnection {
+  readonly transport = 'webrtc' as const;
+
+  constructor(readonly dataConnection: DataConnection) {}
+
+  get peer(): string {
+    return this.dataConnection.peer;
+  }
+
+  get open(): boolean {
+    return this.dataConnection.open;
+  }
+
+  send(data: unknown): void {
+    this.dataConnection.send(data);
+  }
+
+  close(): void {
+    this.dataConnection.close();
+  }
+
+  on(event: 'open' | 'close' | 'data' | 'error', listener: (...args: any[]) => void): void {
+    this.dataConnection.on(event, listener);
+  }
+}
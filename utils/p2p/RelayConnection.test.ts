@@ -0,0 +1,199 @@
+/**
+ * Relay Connection Tests
+ * Тесты соединений через WebSocket relay: хост (RelayHost) и телефон (connectRelay)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RelayHost, connectRelay, stringifyFrame, parseFrame, type RelayConnection } from './RelayConnection';
+
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.OPEN;
+  sent: unknown[] = [];
+  closed = false;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(raw: string): void {
+    this.sent.push(parseFrame(raw));
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose?.();
+  }
+
+  // Frame from the server
+  receive(frame: object): void {
+    this.onmessage?.({ data: stringifyFrame(frame) });
+  }
+}
+
+const lastSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+describe('RelayConnection', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  describe('connectRelay (phone)', () => {
+    it('should open when the host is on the relay', () => {
+      const connection = connectRelay('ws://relay', 'host_1');
+      const onOpen = vi.fn();
+      connection.on('open', onOpen);
+
+      expect(connection.open).toBe(false);
+      lastSocket().receive({ type: 'open' });
+
+      expect(connection.open).toBe(true);
+      expect(onOpen).toHaveBeenCalledTimes(1);
+      expect(connection.peer).toBe('host_1');
+    });
+
+    it('should pass data both ways', () => {
+      const connection = connectRelay('ws://relay', 'host_1');
+      const onData = vi.fn();
+      connection.on('data', onData);
+      lastSocket().receive({ type: 'open' });
+
+      lastSocket().receive({ type: 'data', data: { type: 'PONG' } });
+      connection.send({ type: 'PING' });
+
+      expect(onData).toHaveBeenCalledWith({ type: 'PONG' });
+      expect(lastSocket().sent).toEqual([{ data: { type: 'PING' } }]);
+    });
+
+    it('should not send before open', () => {
+      const connection = connectRelay('ws://relay', 'host_1');
+
+      expect(() => connection.send({ type: 'PING' })).toThrow();
+    });
+
+    it('should close when the host leaves', () => {
+      const connection = connectRelay('ws://relay', 'host_1');
+      const onClose = vi.fn();
+      connection.on('close', onClose);
+      lastSocket().receive({ type: 'open' });
+
+      lastSocket().receive({ type: 'close' });
+
+      expect(lastSocket().closed).toBe(true);
+      expect(connection.open).toBe(false);
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('RelayHost', () => {
+    let connections: RelayConnection[];
+    let host: RelayHost;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      connections = [];
+      host = new RelayHost('ws://relay', connection => connections.push(connection));
+    });
+
+    afterEach(() => {
+      host.close();
+    });
+
+    it('should create an open connection per phone', () => {
+      lastSocket().receive({ type: 'open', peer: 'peer_1' });
+      lastSocket().receive({ type: 'open', peer: 'peer_2' });
+
+      expect(connections.map(connection => connection.peer)).toEqual(['peer_1', 'peer_2']);
+      expect(connections.every(connection => connection.open)).toBe(true);
+    });
+
+    it('should route data by peer', () => {
+      lastSocket().receive({ type: 'open', peer: 'peer_1' });
+      lastSocket().receive({ type: 'open', peer: 'peer_2' });
+      const onData = vi.fn();
+      connections[1].on('data', onData);
+
+      lastSocket().receive({ type: 'data', peer: 'peer_2', data: { type: 'BUZZ' } });
+      connections[0].send({ type: 'STATE' });
+
+      expect(onData).toHaveBeenCalledWith({ type: 'BUZZ' });
+      expect(lastSocket().sent).toEqual([{ to: 'peer_1', data: { type: 'STATE' } }]);
+    });
+
+    it('should replace the connection of a phone that reopened its socket', () => {
+      lastSocket().receive({ type: 'open', peer: 'peer_1' });
+      const onClose = vi.fn();
+      connections[0].on('close', onClose);
+
+      lastSocket().receive({ type: 'open', peer: 'peer_1' });
+
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(connections[1].open).toBe(true);
+    });
+
+    it('should tell the server when the host drops a phone', () => {
+      lastSocket().receive({ type: 'open', peer: 'peer_1' });
+
+      connections[0].close();
+
+      expect(lastSocket().sent).toEqual([{ to: 'peer_1', close: true }]);
+      expect(connections[0].open).toBe(false);
+    });
+
+    it('should close phone connections when the phone leaves', () => {
+      lastSocket().receive({ type: 'open', peer: 'peer_1' });
+
+      lastSocket().receive({ type: 'close', peer: 'peer_1' });
+
+      expect(connections[0].open).toBe(false);
+    });
+
+    it('should close every phone and reconnect when the server goes away', () => {
+      lastSocket().receive({ type: 'open', peer: 'peer_1' });
+
+      lastSocket().close();
+      expect(connections[0].open).toBe(false);
+      expect(FakeWebSocket.instances).toHaveLength(1);
+
+      vi.advanceTimersByTime(3000);
+      expect(FakeWebSocket.instances).toHaveLength(2);
+    });
+
+    it('should not reconnect after close', () => {
+      host.close();
+
+      vi.advanceTimersByTime(10000);
+
+      expect(FakeWebSocket.instances).toHaveLength(1);
+    });
+  });
+
+  describe('frames', () => {
+    it('should carry binary data as base64 and restore it', () => {
+      const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+
+      const raw = stringifyFrame({ data: { payload: { data: bytes.buffer } } });
+      const frame = parseFrame(raw) as { data: { payload: { data: ArrayBuffer } } };
+
+      expect(typeof raw).toBe('string');
+      expect(new Uint8Array(frame.data.payload.data)).toEqual(bytes);
+    });
+
+    it('should ignore frames that are not JSON text', () => {
+      expect(parseFrame('not json')).toBeNull();
+      expect(parseFrame(new ArrayBuffer(4))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Relay Connection
+ *
+ * Game messages over the WebSocket relay of the LAN signalling server (server/relay.cjs)
+ * for networks that block WebRTC. Host keeps one relay socket and gets a virtual
+ * RelayConnection per phone; a phone opens its own socket to the host.
+ * Credentials are the same as for PeerJS: room host token or member token.
+ * Frames are JSON text - binary data (media chunks) is sent as base64 and restored on receipt.
+ */
+
+import { LOCAL_HTTP_PORT } from '../network';
+import { bytesToBase64, base64ToBytes } from '../mediaTransfer';
+import type { GameConnection } from './GameConnection';
+
+type Listener = (...args: any[]) => void;
+
+type RelayFrame =
+  | { type: 'open'; peer?: string }
+  | { type: 'close'; peer?: string }
+  | { type: 'data'; peer?: string; data: unknown };
+
+const HOST_RECONNECT_DELAY = 3000;
+
+export const getRelayUrl = (signallingHost: string, peerId: string, token: string) =>
+  `ws://${signallingHost}:${LOCAL_HTTP_PORT}/relay?id=${encodeURIComponent(peerId)}&token=${encodeURIComponent(token)}`;
+
+type EncodedBytes = { __bytes: string };
+
+const isEncodedBytes = (value: unknown): value is EncodedBytes =>
+  typeof value === 'object' && value !== null && typeof (value as EncodedBytes).__bytes === 'string';
+
+export const stringifyFrame = (frame: object): string =>
+  JSON.stringify(frame, (_key, value) => {
+    if (value instanceof ArrayBuffer) return { __bytes: bytesToBase64(new Uint8Array(value)) };
+    if (ArrayBuffer.isView(value)) return { __bytes: bytesToBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)) };
+    return value;
+  });
+
+export const parseFrame = (raw: unknown): RelayFrame | null => {
+  try {
+    if (typeof raw !== 'string') return null;
+    return JSON.parse(raw, (_key, value) => isEncodedBytes(value) ? base64ToBytes(value.__bytes).buffer : value);
+  } catch {
+    return null;
+  }
+};
+
+export class RelayConnection implements GameConnection {
+  readonly transport = 'relay' as const;
+  private isOpen = false;
+  private closed = false;
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(
+    readonly peer: string,
+    private readonly sendFrame: (data: unknown) => void,
+    private readonly onClose: () => void
+  ) {}
+
+  get open(): boolean {
+    return this.isOpen;
+  }
+
+  send(data: unknown): void {
+    if (!this.isOpen) throw new Error('Relay connection is not open');
+    this.sendFrame(data);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.onClose();
+    this.handleClose();
+  }
+
+  on(event: 'open' | 'close' | 'data' | 'error', listener: Listener): void {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+  }
+
+  // Called by the socket owner (RelayHost / connectRelay)
+  handleOpen(): void {
+    if (this.closed || this.isOpen) return;
+    this.isOpen = true;
+    this.emit('open');
+  }
+
+  handleData(data: unknown): void {
+    if (this.isOpen) this.emit('data', data);
+  }
+
+  handleError(error: Error): void {
+    this.emit('error', error);
+  }
+
+  handleClose(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.isOpen = false;
+    this.emit('close');
+  }
+
+  private emit(event: string, ...args: unknown[]): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error('❌ RelayConnection: listener failed:', event, error);
+      }
+    });
+  }
+}
+
+/**
+ * Host side of the relay: one socket, a RelayConnection per phone that fell back to it.
+ * Reconnects while not closed (signalling server restart).
+ */
+export class RelayHost {
+  private socket: WebSocket | null = null;
+  private connections = new Map<string, RelayConnection>();
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private closed = false;
+
+  constructor(
+    private readonly url: string,
+    private readonly onConnection: (connection: RelayConnection) => void
+  ) {
+    this.connect();
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onmessage = (event) => {
+      const frame = parseFrame(event.data);
+      if (!frame?.peer) return;
+      if (frame.type === 'open') {
+        this.openConnection(frame.peer);
+      } else if (frame.type === 'close') {
+        this.connections.get(frame.peer)?.handleClose();
+        this.connections.delete(frame.peer);
+      } else if (frame.type === 'data') {
+        this.connections.get(frame.peer)?.handleData(frame.data);
+      }
+    };
+
+    socket.onclose = () => {
+      this.connections.forEach(connection => connection.handleClose());
+      this.connections.clear();
+      if (!this.closed) {
+        this.reconnectTimer = setTimeout(() => this.connect(), HOST_RECONNECT_DELAY);
+      }
+    };
+  }
+
+  private openConnection(peerId: string): void {
+    // Phone opened a new relay socket - the old virtual connection is gone
+    this.connections.get(peerId)?.handleClose();
+
+    const connection = new RelayConnection(
+      peerId,
+      data => this.sendFrame({ to: peerId, data }),
+      () => {
+        this.connections.delete(peerId);
+        this.sendFrame({ to: peerId, close: true });
+      }
+    );
+    this.connections.set(peerId, connection);
+    console.log('[RelayHost] 🔁 Phone connected via relay:', peerId);
+    // Handlers are attached by onConnection before 'open' fires
+    this.onConnection(connection);
+    connection.handleOpen();
+  }
+
+  private sendFrame(frame: object): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(stringifyFrame(frame));
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+/**
+ * Phone side: connection to the host over the relay.
+ * Opens once the host's relay socket is there; closes when the host leaves.
+ */
+export function connectRelay(url: string, hostPeerId: string): RelayConnection {
+  const socket = new WebSocket(url);
+  const connection = new RelayConnection(
+    hostPeerId,
+    data => socket.send(stringifyFrame({ data })),
+    () => socket.close()
+  );
+
+  socket.onmessage = (event) => {
+    const frame = parseFrame(event.data);
+    if (frame?.type === 'open') {
+      connection.handleOpen();
+    } else if (frame?.type === 'data') {
+      connection.handleData(frame.data);
+    } else if (frame?.type === 'close') {
+      socket.close();
+    }
+  };
+  socket.onerror = () => connection.handleError(new Error('Relay socket error'));
+  socket.onclose = () => connection.handleClose();
+
+  return connection;
+}
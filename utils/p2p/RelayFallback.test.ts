@@ -0,0 +1,41 @@
+/**
+ * Relay Fallback Tests
+ * Тесты переключения телефона на WebSocket relay после неудачных попыток WebRTC
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RelayFallback, ICE_FAILURES_BEFORE_RELAY } from './RelayFallback';
+
+describe('RelayFallback', () => {
+  it('should keep WebRTC until ICE_FAILURES_BEFORE_RELAY attempts failed', () => {
+    const fallback = new RelayFallback();
+
+    for (let i = 1; i < ICE_FAILURES_BEFORE_RELAY; i++) {
+      fallback.recordFailure();
+      expect(fallback.useRelay).toBe(false);
+    }
+    fallback.recordFailure();
+
+    expect(fallback.useRelay).toBe(true);
+    expect(fallback.failureCount).toBe(ICE_FAILURES_BEFORE_RELAY);
+  });
+
+  it('should start counting again after a working data channel', () => {
+    const fallback = new RelayFallback(2);
+    fallback.recordFailure();
+
+    fallback.recordSuccess();
+    fallback.recordFailure();
+
+    expect(fallback.useRelay).toBe(false);
+    expect(fallback.failureCount).toBe(1);
+  });
+
+  it('should stay on the relay once switched', () => {
+    const fallback = new RelayFallback(1);
+    fallback.recordFailure();
+    fallback.recordFailure();
+
+    expect(fallback.useRelay).toBe(true);
+  });
+});
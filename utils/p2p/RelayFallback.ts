@@ -0,0 +1,33 @@
+/**
+ * Relay Fallback
+ *
+ * Counts failed WebRTC attempts of a phone (ICE failed / data channel didn't open
+ * in time). From ICE_FAILURES_BEFORE_RELAY on the phone stops trying WebRTC and
+ * connects over the signalling server's WebSocket relay - LAN rooms only.
+ */
+
+export const ICE_FAILURES_BEFORE_RELAY = 2;
+
+export class RelayFallback {
+  private failures = 0;
+
+  constructor(readonly threshold: number = ICE_FAILURES_BEFORE_RELAY) {}
+
+  get failureCount(): number {
+    return this.failures;
+  }
+
+  /** WebRTC failed often enough on this network - use the relay */
+  get useRelay(): boolean {
+    return this.failures >= this.threshold;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+  }
+
+  /** Data channel worked - the network is fine, start counting again */
+  recordSuccess(): void {
+    this.failures = 0;
+  }
+}
@@ -11,3 +11,9 @@ export type { HealthStats, HealthMonitorOptions } from './ConnectionHealthMonito
 // Pool statistics management
 export { PoolStatsManager } from './PoolStatsManager';
 export type { PoolStats, ConnectionMetadata } from './PoolStatsManager';
+
+// Transports: WebRTC data channel and WebSocket relay fallback
+export { WebRTCConnection } from './GameConnection';
+export type { GameConnection, TransportKind } from './GameConnection';
+export { RelayConnection, RelayHost, connectRelay, getRelayUrl } from './RelayConnection';
+export { RelayFallback, ICE_FAILURES_BEFORE_RELAY } from './RelayFallback';
@@ -7,14 +7,14 @@
  * - PoolStatsManager from utils/p2p
  */
 
-import { DataConnection } from 'peerjs';
 import { ConnectionQuality } from '../types';
+import type { GameConnection } from './p2p/GameConnection';
 import { ConnectionHealthMonitor } from './p2p/ConnectionHealthMonitor';
 import { PoolStatsManager, ConnectionMetadata } from './p2p/PoolStatsManager';
 
 export interface PooledConnection {
   id: string;
-  connection: DataConnection;
+  connection: GameConnection;  // WebRTC data channel or WebSocket relay
   connectedAt: number;
   lastUsed: number;
   healthScore: number; // 0-100
@@ -59,7 +59,7 @@ export interface SendResult {
 
 /**
  * P2P Connection Pool
- * Manages multiple WebRTC connections with intelligent routing
+ * Manages multiple client connections (WebRTC or relay) with intelligent routing
  *
  * Now uses modular components for better separation of concerns:
  * - ConnectionHealthMonitor handles connection health tracking
@@ -96,20 +96,26 @@ export class P2PConnectionPool {
   /**
    * Add a connection to the pool
    */
-  add(connection: DataConnection, metadata?: PooledConnection['metadata']): boolean {
+  add(connection: GameConnection, metadata?: PooledConnection['metadata']): boolean {
     const connectionId = connection.peer;
 
     // Check if pool is full
-    if (this.connections.size >= this.config.maxConnections) {
+    if (this.connections.size >= this.config.maxConnections && !this.connections.has(connectionId)) {
       console.log('[P2PConnectionPool] Pool is full, cannot add connection:', connectionId);
       return false;
     }
 
     // Check if connection already exists
-    if (this.connections.has(connectionId)) {
+    const existing = this.connections.get(connectionId);
+    if (existing?.connection === connection) {
       console.log('[P2PConnectionPool] Connection already exists in pool:', connectionId);
       return false;
     }
+    if (existing) {
+      // Same phone on a new connection (e.g. relay fallback after WebRTC failed) replaces the old one
+      this.log('Replacing connection:', connectionId, existing.connection.transport, '->', connection.transport);
+      this.remove(connectionId);
+    }
 
     const pooledConnection: PooledConnection = {
       id: connectionId,
@@ -139,7 +145,7 @@ export class P2PConnectionPool {
 
     // Track data sent
     const originalSend = conn.send.bind(conn);
-    conn.send = (data: any) => {
+    conn.send = (data: unknown) => {
       try {
         const result = originalSend(data);
 
@@ -162,9 +168,11 @@ export class P2PConnectionPool {
       }
     };
 
-    // Handle connection close
+    // Handle connection close (unless already replaced by a newer connection)
     conn.on('close', () => {
-      this.remove(pooledConn.id);
+      if (this.connections.get(pooledConn.id) === pooledConn) {
+        this.remove(pooledConn.id);
+      }
     });
 
     // Handle connection error
@@ -0,0 +1,97 @@
+/**
+ * Pack Diff Tests
+ * Тесты структурного сравнения версий пакета и восстановления вопроса
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffPacks, summarizeDiff, restoreQuestion } from './packDiff';
+import type { GamePack } from '../components/host/packeditor/types';
+
+const BEFORE: GamePack = {
+  id: 'p1',
+  name: 'Pack',
+  createdAt: 0,
+  rounds: [
+    {
+      id: 'r1',
+      name: 'Round 1',
+      themes: [
+        {
+          id: 't1',
+          name: 'Music',
+          questions: [
+            { id: 'q1', text: 'First', points: 100 },
+            { id: 'q2', text: 'Second', points: 200, media: { type: 'image', url: 'blob:http://a/1' } },
+            { id: 'q3', text: 'Third', points: 300 }
+          ]
+        },
+        { id: 't2', name: 'Art', questions: [{ id: 'q4', text: 'Paint' }] }
+      ]
+    },
+    { id: 'r2', name: 'Final', type: 'super', themes: [] }
+  ]
+};
+
+const AFTER: GamePack = {
+  ...BEFORE,
+  name: 'Pack v2',
+  rounds: [
+    {
+      ...BEFORE.rounds[0],
+      responseWindow: 20,
+      themes: [
+        {
+          id: 't1',
+          name: 'Music',
+          questions: [
+            { id: 'q1', text: 'First (edited)', points: 150 },
+            // Same media after reload - blob URL differs but it is not a change
+            { id: 'q2', text: 'Second', points: 200, media: { type: 'image', url: 'blob:http://a/2' } },
+            { id: 'q5', text: 'New one' }
+          ]
+        }
+      ]
+    }
+  ]
+};
+
+describe('packDiff', () => {
+  it('should list added, removed and changed items with changed fields', () => {
+    const diff = diffPacks(BEFORE, AFTER);
+    const brief = diff.map(e => `${e.change} ${e.kind} ${e.questionId ?? e.themeId ?? e.roundId ?? ''}`);
+
+    expect(brief).toEqual([
+      'changed pack ',
+      'changed round r1',
+      'changed question q1',
+      'added question q5',
+      'removed question q3',
+      'removed theme t2',
+      'removed round r2'
+    ]);
+    expect(diff[0].fields).toEqual([{ field: 'name', before: 'Pack', after: 'Pack v2' }]);
+    expect(diff[2].fields.map(f => [f.field, f.before, f.after])).toEqual([
+      ['text', 'First', 'First (edited)'],
+      ['points', '100', '150']
+    ]);
+    expect(diff[2].label).toBe('Round 1 › Music › Q1: First (edited)');
+    expect(summarizeDiff(diff)).toEqual({ added: 1, removed: 3, changed: 3 });
+    expect(diffPacks(BEFORE, BEFORE)).toEqual([]);
+  });
+
+  it('should restore a single question in place or recreate its theme', () => {
+    const current = AFTER.rounds;
+
+    const changedBack = restoreQuestion(current, BEFORE, 'q1');
+    expect(changedBack[0].themes[0].questions!.map(q => q.text)).toEqual(['First', 'Second', 'New one']);
+
+    const deletedBack = restoreQuestion(current, BEFORE, 'q3');
+    expect(deletedBack[0].themes[0].questions!.map(q => q.id)).toEqual(['q1', 'q2', 'q3', 'q5']);
+
+    const themeBack = restoreQuestion(current, BEFORE, 'q4');
+    expect(themeBack[0].themes.map(t => t.name)).toEqual(['Music', 'Art']);
+
+    expect(restoreQuestion(current, BEFORE, 'missing')).toBe(current);
+    expect(current[0].themes[0].questions![0].text).toBe('First (edited)');
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Pack Diff
+ * Структурное сравнение двух версий пакета и восстановление отдельного вопроса.
+ *
+ * Раунды, темы и вопросы сопоставляются по id (редактор сохраняет id при правке),
+ * изменения вопроса показываются по полям. Порядок элементов не сравнивается.
+ */
+
+import type { GamePack, Round, Theme, Question } from '../components/host/packeditor/types';
+
+export type PackDiffKind = 'pack' | 'round' | 'theme' | 'question';
+export type PackDiffChange = 'added' | 'removed' | 'changed';
+
+export interface PackFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface PackDiffEntry {
+  kind: PackDiffKind;
+  change: PackDiffChange;
+  label: string;          // "Round 1 › Music › Q2: Who sang..."
+  roundId?: string;
+  themeId?: string;
+  questionId?: string;
+  fields: PackFieldChange[];  // Только для 'changed'
+}
+
+export interface PackDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+type PackFields = Pick<GamePack, 'name' | 'cover'>;
+
+const PACK_FIELDS: (keyof PackFields)[] = ['name', 'cover'];
+const ROUND_FIELDS: (keyof Round)[] = [
+  'name', 'type', 'cover', 'readingTimePerLetter', 'responseWindow', 'handicapEnabled', 'handicapDelay', 'disabled'
+];
+const THEME_FIELDS: (keyof Theme)[] = ['name', 'color', 'textColor', 'disabled'];
+const QUESTION_FIELDS: (keyof Question)[] = [
+  'text', 'points', 'answerText', 'acceptedAnswers', 'answerMatch', 'answers', 'correctAnswer', 'media', 'answerMedia', 'hint',
+  'timeLimit', 'questionKind', 'catInBag'
+];
+
+/** Значение поля для показа: строки как есть, медиа - тип и имя файла / ссылка */
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.map(formatValue).join(' | ');
+  const media = value as { type?: string; url?: string; value?: string; localFile?: { fileName?: string } };
+  if (media.localFile?.fileName) return `${media.type ?? 'file'}: ${media.localFile.fileName}`;
+  if (media.type && (media.url || media.value)) return `${media.type}: ${media.url || media.value}`;
+  return JSON.stringify(value);
+};
+
+/** Сравнение без учёта blob: URL (меняются после каждой перезагрузки страницы) */
+const normalizeForCompare = (value: unknown): string =>
+  JSON.stringify(value ?? null, (key, v) => (key === 'url' || key === 'value') && typeof v === 'string' && v.startsWith('blob:') ? 'blob:' : v);
+
+function diffFields<T>(before: T, after: T, fields: (keyof T)[]): PackFieldChange[] {
+  return fields
+    .filter(field => normalizeForCompare(before[field]) !== normalizeForCompare(after[field]))
+    .map(field => ({ field: String(field), before: formatValue(before[field]), after: formatValue(after[field]) }));
+}
+
+const roundLabel = (round: Round, index: number) => round.name || `Round ${round.number ?? index + 1}`;
+const questionLabel = (question: Question, index: number) => {
+  const text = question.text || '';
+  return `Q${index + 1}: ${text.length > 40 ? `${text.slice(0, 40)}…` : text || '[media]'}`;
+};
+
+/**
+ * Что изменилось при переходе от before к after
+ */
+export function diffPacks(before: GamePack, after: GamePack): PackDiffEntry[] {
+  const entries: PackDiffEntry[] = [];
+
+  const packFields = diffFields<PackFields>(before, after, PACK_FIELDS);
+  if (packFields.length > 0) {
+    entries.push({ kind: 'pack', change: 'changed', label: 'Pack settings', fields: packFields });
+  }
+
+  const beforeRounds = new Map(before.rounds.map((r, i) => [r.id, { round: r, index: i }]));
+  const afterRoundIds = new Set(after.rounds.map(r => r.id));
+
+  after.rounds.forEach((round, roundIndex) => {
+    const rLabel = roundLabel(round, roundIndex);
+    const previous = beforeRounds.get(round.id)?.round;
+    if (!previous) {
+      entries.push({ kind: 'round', change: 'added', label: rLabel, roundId: round.id, fields: [] });
+      return;
+    }
+
+    const roundFields = diffFields(previous, round, ROUND_FIELDS);
+    if (roundFields.length > 0) {
+      entries.push({ kind: 'round', change: 'changed', label: rLabel, roundId: round.id, fields: roundFields });
+    }
+
+    const beforeThemes = new Map(previous.themes.map(t => [t.id, t]));
+    const afterThemeIds = new Set(round.themes.map(t => t.id));
+
+    round.themes.forEach(theme => {
+      const tLabel = `${rLabel} › ${theme.name}`;
+      const previousTheme = beforeThemes.get(theme.id);
+      if (!previousTheme) {
+        entries.push({ kind: 'theme', change: 'added', label: tLabel, roundId: round.id, themeId: theme.id, fields: [] });
+        return;
+      }
+
+      const themeFields = diffFields(previousTheme, theme, THEME_FIELDS);
+      if (themeFields.length > 0) {
+        entries.push({ kind: 'theme', change: 'changed', label: tLabel, roundId: round.id, themeId: theme.id, fields: themeFields });
+      }
+
+      const previousQuestions = previousTheme.questions || [];
+      const beforeQuestions = new Map(previousQuestions.map(q => [q.id, q]));
+      const afterQuestionIds = new Set((theme.questions || []).map(q => q.id));
+      const ids = { roundId: round.id, themeId: theme.id };
+
+      (theme.questions || []).forEach((question, questionIndex) => {
+        const qLabel = `${tLabel} › ${questionLabel(question, questionIndex)}`;
+        const previousQuestion = beforeQuestions.get(question.id);
+        if (!previousQuestion) {
+          entries.push({ kind: 'question', change: 'added', label: qLabel, ...ids, questionId: question.id, fields: [] });
+          return;
+        }
+        const questionFields = diffFields(previousQuestion, question, QUESTION_FIELDS);
+        if (questionFields.length > 0) {
+          entries.push({ kind: 'question', change: 'changed', label: qLabel, ...ids, questionId: question.id, fields: questionFields });
+        }
+      });
+
+      previousQuestions.forEach((question, questionIndex) => {
+        if (!afterQuestionIds.has(question.id)) {
+          entries.push({
+            kind: 'question', change: 'removed', label: `${tLabel} › ${questionLabel(question, questionIndex)}`,
+            ...ids, questionId: question.id, fields: []
+          });
+        }
+      });
+    });
+
+    previous.themes.forEach(theme => {
+      if (!afterThemeIds.has(theme.id)) {
+        entries.push({ kind: 'theme', change: 'removed', label: `${rLabel} › ${theme.name}`, roundId: round.id, themeId: theme.id, fields: [] });
+      }
+    });
+  });
+
+  before.rounds.forEach((round, index) => {
+    if (!afterRoundIds.has(round.id)) {
+      entries.push({ kind: 'round', change: 'removed', label: roundLabel(round, index), roundId: round.id, fields: [] });
+    }
+  });
+
+  return entries;
+}
+
+export function summarizeDiff(entries: PackDiffEntry[]): PackDiffSummary {
+  return {
+    added: entries.filter(e => e.change === 'added').length,
+    removed: entries.filter(e => e.change === 'removed').length,
+    changed: entries.filter(e => e.change === 'changed').length
+  };
+}
+
+/**
+ * Возвращает вопрос из старой версии пакета в текущие раунды:
+ * заменяет вопрос с тем же id или вставляет на прежнее место в теме.
+ * Если тема или раунд удалены - они создаются заново (только с этим вопросом)
+ */
+export function restoreQuestion(current: Round[], source: GamePack, questionId: string): Round[] {
+  for (const sourceRound of source.rounds) {
+    for (const sourceTheme of sourceRound.themes) {
+      const sourceQuestions = sourceTheme.questions || [];
+      const index = sourceQuestions.findIndex(q => q.id === questionId);
+      if (index < 0) continue;
+      const question = sourceQuestions[index];
+
+      // Вопрос ещё есть (возможно, в другой теме) - заменяем на месте
+      const existsNow = current.some(r => r.themes.some(t => t.questions?.some(q => q.id === questionId)));
+      if (existsNow) {
+        return current.map(r => ({
+          ...r,
+          themes: r.themes.map(t => t.questions?.some(q => q.id === questionId)
+            ? { ...t, questions: t.questions.map(q => q.id === questionId ? question : q) }
+            : t)
+        }));
+      }
+
+      const round = current.find(r => r.id === sourceRound.id);
+      if (!round) {
+        return [...current, { ...sourceRound, number: current.length + 1, themes: [{ ...sourceTheme, questions: [question] }] }];
+      }
+      return current.map(r => {
+        if (r.id !== round.id) return r;
+        const theme = r.themes.find(t => t.id === sourceTheme.id);
+        if (!theme) {
+          return { ...r, themes: [...r.themes, { ...sourceTheme, questions: [question] }] };
+        }
+        const questions = [...(theme.questions || [])];
+        questions.splice(Math.min(index, questions.length), 0, question);
+        return { ...r, themes: r.themes.map(t => t.id === theme.id ? { ...t, questions } : t) };
+      });
+    }
+  }
+  return current;
+}
@@ -0,0 +1,81 @@
+/**
+ * Pack Library Tests
+ * Тесты поиска, фильтров библиотеки, копирования и поиска осиротевших медиа
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  filterLibrary,
+  matchesLibraryQuery,
+  findOrphanedMediaIds,
+  duplicatePack,
+  parseTags,
+  getLibraryPackStats,
+  type LibraryPack
+} from './packLibrary';
+import type { GamePack } from '../components/host/packeditor/types';
+
+const localFile = (mediaId: string) => ({ fileName: `${mediaId}.png`, fileSize: 1, fileType: 'image/png', lastModified: 0, mediaId });
+
+const PACK: GamePack = {
+  id: 'p1',
+  name: 'Winter party',
+  cover: { type: 'file', value: 'blob:cover', localFile: localFile('m-cover') },
+  createdAt: 0,
+  rounds: [{
+    id: 'r1',
+    name: 'Round 1',
+    themes: [{
+      id: 't1',
+      name: 'Holidays',
+      questions: [
+        { id: 'q1', text: 'Что ставят в Новый год?', answerText: 'Ёлку', media: { type: 'image', localFile: localFile('m-shared') } },
+        { id: 'q2', text: 'Snow', hint: { media: { type: 'image', localFile: localFile('m-hint') } } }
+      ]
+    }]
+  }]
+};
+
+const entry = (pack: GamePack, extra: Partial<LibraryPack> = {}): LibraryPack => ({
+  id: pack.id, pack, tags: [], archived: false, addedAt: 0, ...extra
+});
+
+describe('packLibrary', () => {
+  it('should search question text, answers and tags ignoring case and ё', () => {
+    const item = entry(PACK, { tags: ['Kids'] });
+    expect(matchesLibraryQuery(item, 'новый ГОД')).toBe(true);
+    expect(matchesLibraryQuery(item, 'елку')).toBe(true);
+    expect(matchesLibraryQuery(item, 'kids holidays')).toBe(true);
+    expect(matchesLibraryQuery(item, 'summer')).toBe(false);
+    expect(getLibraryPackStats(PACK)).toEqual({ roundCount: 1, themeCount: 1, questionCount: 2 });
+  });
+
+  it('should filter archived and tagged packs, recently played first', () => {
+    const entries = [
+      entry({ ...PACK, id: 'a' }, { addedAt: 10 }),
+      entry({ ...PACK, id: 'b' }, { addedAt: 5, lastPlayedAt: 100, tags: ['quiz'] }),
+      entry({ ...PACK, id: 'c' }, { addedAt: 50, archived: true })
+    ];
+    expect(filterLibrary(entries).map(e => e.id)).toEqual(['b', 'a']);
+    expect(filterLibrary(entries, { tag: 'quiz' }).map(e => e.id)).toEqual(['b']);
+    expect(filterLibrary(entries, { showArchived: true }).map(e => e.id)).toEqual(['c']);
+  });
+
+  it('should delete only media not used by remaining packs', () => {
+    const copy = duplicatePack(PACK);
+    copy.rounds[0].themes[0].questions = copy.rounds[0].themes[0].questions!.slice(0, 1);
+
+    expect(findOrphanedMediaIds(PACK, [copy]).sort()).toEqual(['m-hint']);
+    expect(findOrphanedMediaIds(PACK, []).sort()).toEqual(['m-cover', 'm-hint', 'm-shared']);
+  });
+
+  it('should duplicate with new ids and parse tags', () => {
+    const copy = duplicatePack(PACK);
+    expect(copy.id).not.toBe(PACK.id);
+    expect(copy.name).toBe('Winter party (copy)');
+    expect(copy.rounds[0].themes[0].questions![0].id).not.toBe('q1');
+    expect(copy.rounds[0].themes[0].questions![0].text).toBe(PACK.rounds[0].themes[0].questions![0].text);
+
+    expect(parseTags('мультфильмы, Детское ,, детское')).toEqual(['мультфильмы', 'Детское']);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Pack Library
+ * Постоянная библиотека пакетов хоста (хранится в IndexedDB, см. PackLibraryStorage).
+ *
+ * Здесь чистые функции: статистика пакета, поиск по тексту вопросов и тегам,
+ * копирование пакета с новыми id и поиск медиа, которые останутся без владельца
+ * после удаления пакета (копии пакета делят одни и те же mediaId).
+ */
+
+import type { GamePack, Round, Question } from '../components/host/packeditor/types';
+import { generateUUID } from './uuid';
+
+export interface LibraryPack {
+  id: string;               // = pack.id
+  pack: GamePack;
+  tags: string[];
+  archived: boolean;
+  addedAt: number;
+  lastPlayedAt?: number;
+}
+
+export interface LibraryPackStats {
+  roundCount: number;
+  themeCount: number;
+  questionCount: number;
+}
+
+export interface LibraryFilter {
+  query?: string;
+  tag?: string | null;
+  showArchived?: boolean;
+}
+
+export function getLibraryPackStats(pack: { rounds?: Round[] }): LibraryPackStats {
+  const rounds = pack.rounds || [];
+  return {
+    roundCount: rounds.length,
+    themeCount: rounds.reduce((acc, r) => acc + r.themes.length, 0),
+    questionCount: rounds.reduce((acc, r) => acc + r.themes.reduce((tAcc, t) => tAcc + (t.questions?.length || 0), 0), 0)
+  };
+}
+
+/**
+ * Все mediaId из IndexedDB, на которые ссылается пакет (обложки, вопросы, ответы, подсказки)
+ */
+export function collectPackMediaIds(pack: GamePack): Set<string> {
+  const ids = new Set<string>();
+  const add = (mediaId?: string) => { if (mediaId) ids.add(mediaId); };
+  const addQuestion = (question: Question) => {
+    add(question.media?.localFile?.mediaId);
+    add(question.answerMedia?.localFile?.mediaId);
+    add(question.hint?.media?.localFile?.mediaId);
+  };
+
+  add(pack.cover?.localFile?.mediaId);
+  pack.rounds.forEach(round => {
+    add(round.cover?.localFile?.mediaId);
+    round.themes.forEach(theme => theme.questions?.forEach(addQuestion));
+  });
+  return ids;
+}
+
+/**
+ * Медиа удаляемого пакета, которые не использует ни один из оставшихся пакетов
+ */
+export function findOrphanedMediaIds(removed: GamePack, remaining: GamePack[]): string[] {
+  const used = new Set<string>();
+  remaining.forEach(pack => collectPackMediaIds(pack).forEach(id => used.add(id)));
+  return [...collectPackMediaIds(removed)].filter(id => !used.has(id));
+}
+
+/** Нижний регистр + ё → е, чтобы "ёлка" находилась по "елка" */
+const normalizeSearch = (value: string): string => value.toLowerCase().replace(/ё/g, 'е').trim();
+
+/**
+ * Совпадает ли пакет со строкой поиска: название, теги, темы, текст вопросов и ответов.
+ * Несколько слов - должны найтись все (в любых местах пакета)
+ */
+export function matchesLibraryQuery(entry: LibraryPack, query: string): boolean {
+  const words = normalizeSearch(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+
+  const haystack: string[] = [entry.pack.name, ...entry.tags];
+  entry.pack.rounds.forEach(round => {
+    if (round.name) haystack.push(round.name);
+    round.themes.forEach(theme => {
+      haystack.push(theme.name);
+      theme.questions?.forEach(q => {
+        haystack.push(q.text || '');
+        if (q.answerText) haystack.push(q.answerText);
+        if (q.answers) haystack.push(...q.answers);
+      });
+    });
+  });
+  const text = normalizeSearch(haystack.join('\n'));
+  return words.every(word => text.includes(word));
+}
+
+/**
+ * Фильтр и сортировка библиотеки: сначала недавно сыгранные / добавленные
+ */
+export function filterLibrary(entries: LibraryPack[], filter: LibraryFilter = {}): LibraryPack[] {
+  const { query = '', tag = null, showArchived = false } = filter;
+  return entries
+    .filter(entry => showArchived ? entry.archived : !entry.archived)
+    .filter(entry => !tag || entry.tags.includes(tag))
+    .filter(entry => matchesLibraryQuery(entry, query))
+    .sort((a, b) => Math.max(b.lastPlayedAt || 0, b.addedAt) - Math.max(a.lastPlayedAt || 0, a.addedAt));
+}
+
+/** Все теги библиотеки по алфавиту */
+export function collectLibraryTags(entries: LibraryPack[]): string[] {
+  return [...new Set(entries.flatMap(e => e.tags))].sort((a, b) => a.localeCompare(b));
+}
+
+/** "мультфильмы, Детское ,, детское" → ['мультфильмы', 'Детское'] */
+export function parseTags(input: string): string[] {
+  const tags: string[] = [];
+  input.split(',').map(t => t.trim()).filter(Boolean).forEach(tag => {
+    if (!tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  });
+  return tags;
+}
+
+/**
+ * Копия пакета с новыми id пакета/раундов/тем/вопросов.
+ * Медиа не копируются - копия ссылается на те же mediaId
+ */
+export function duplicatePack(pack: GamePack, name = `${pack.name} (copy)`): GamePack {
+  const now = Date.now();
+  return {
+    ...pack,
+    id: generateUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    rounds: pack.rounds.map(round => ({
+      ...round,
+      id: generateUUID(),
+      themes: round.themes.map(theme => ({
+        ...theme,
+        id: generateUUID(),
+        questions: theme.questions?.map(question => ({ ...question, id: generateUUID() }))
+      }))
+    }))
+  };
+}
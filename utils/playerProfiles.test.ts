@@ -0,0 +1,46 @@
+/**
+ * Player Profiles Tests
+ * Тесты профилей игроков и ограничения ставок капитаном
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createPlayerProfile,
+  touchPlayerProfile,
+  getProfileDisplayName,
+  getPreAssignedTeamId,
+  canPlaceSuperBet,
+  getBetCaptains
+} from './playerProfiles';
+
+describe('playerProfiles', () => {
+  it('should keep avatar, color and nickname across reconnects', () => {
+    const created = createPlayerProfile('client_abc', ' Anna ', 100);
+    expect(createPlayerProfile('client_abc', 'Other', 200)).toMatchObject({ avatar: created.avatar, color: created.color });
+    expect(created.name).toBe('Anna');
+
+    const renamed = touchPlayerProfile({ ...created, nickname: 'Captain A' }, 'client_abc', 'Anya', 300);
+    expect(renamed).toMatchObject({ name: 'Anya', nickname: 'Captain A', createdAt: 100, lastSeenAt: 300 });
+    expect(getProfileDisplayName(renamed)).toBe('Captain A');
+    expect(getProfileDisplayName({ name: 'Anya', nickname: '  ' })).toBe('Anya');
+  });
+
+  it('should pre-assign only to an existing team when the phone has none', () => {
+    const profile = { ...createPlayerProfile('p1', 'Bob'), preferredTeamId: 'team_1' };
+    expect(getPreAssignedTeamId(profile, [{ id: 'team_1' }], null)).toBe('team_1');
+    expect(getPreAssignedTeamId(profile, [{ id: 'team_1' }], 'team_2')).toBeUndefined();
+    expect(getPreAssignedTeamId(profile, [{ id: 'team_3' }], null)).toBeUndefined();
+    expect(getPreAssignedTeamId(null, [{ id: 'team_1' }], null)).toBeUndefined();
+  });
+
+  it('should restrict bets to the captain only when enabled and a captain is set', () => {
+    const team = { id: 'team_1', captainId: 'p1' };
+    expect(canPlaceSuperBet(team, 'p2', true)).toBe(false);
+    expect(canPlaceSuperBet(team, 'p1', true)).toBe(true);
+    expect(canPlaceSuperBet(team, 'p2', false)).toBe(true);
+    expect(canPlaceSuperBet({ captainId: undefined }, 'p2', true)).toBe(true);
+
+    expect(getBetCaptains([team, { id: 'team_2' }], true)).toEqual({ team_1: 'p1' });
+    expect(getBetCaptains([team], false)).toEqual({});
+  });
+});
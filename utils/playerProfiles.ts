@@ -0,0 +1,76 @@
+/**
+ * Player Profiles
+ * Постоянные профили игроков на хосте: ник, аватар-эмодзи, цвет, команда по умолчанию.
+ *
+ * Профиль привязан к persistentClientId телефона (CLIENT_ID в MobileView), поэтому
+ * игрок узнаётся при переподключении и в следующих играх. Имя с телефона
+ * запоминается как есть, ник хоста его перекрывает.
+ */
+
+import type { Team } from '../types';
+
+export interface PlayerProfile {
+  id: string;                // persistentClientId of the phone
+  name: string;              // Last name the phone joined with
+  nickname?: string;         // Host override, shown instead of name
+  avatar: string;            // Emoji
+  color: string;             // Hex color
+  preferredTeamId?: string;  // Team the player is put into on join
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+export const PROFILE_AVATARS = ['🦊', '🐼', '🐸', '🦉', '🐙', '🦁', '🐯', '🐨', '🐵', '🦄', '🐝', '🐢', '🐳', '🦖', '🐧', '🦝'];
+
+export const PROFILE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+/** Small stable hash - same phone gets the same default avatar and color */
+const hashId = (id: string): number =>
+  Array.from(id).reduce((hash, ch) => (hash * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+export function createPlayerProfile(id: string, name: string, time: number = Date.now()): PlayerProfile {
+  const hash = hashId(id);
+  return {
+    id,
+    name: name.trim(),
+    avatar: PROFILE_AVATARS[hash % PROFILE_AVATARS.length],
+    color: PROFILE_COLORS[Math.floor(hash / PROFILE_AVATARS.length) % PROFILE_COLORS.length],
+    createdAt: time,
+    lastSeenAt: time
+  };
+}
+
+/**
+ * Профиль при подключении телефона: новый или обновлённый (имя и время)
+ */
+export function touchPlayerProfile(profile: PlayerProfile | null, id: string, name: string, time: number = Date.now()): PlayerProfile {
+  if (!profile) return createPlayerProfile(id, name, time);
+  return { ...profile, name: name.trim() || profile.name, lastSeenAt: time };
+}
+
+export function getProfileDisplayName(profile: Pick<PlayerProfile, 'name' | 'nickname'>): string {
+  return profile.nickname?.trim() || profile.name;
+}
+
+/**
+ * Team the joining player should be put into: preferred team if it exists
+ * in this session and the player did not pick a team on the phone
+ */
+export function getPreAssignedTeamId(profile: PlayerProfile | null, teams: Pick<Team, 'id'>[], currentTeamId?: string | null): string | undefined {
+  if (currentTeamId || !profile?.preferredTeamId) return undefined;
+  return teams.some(t => t.id === profile.preferredTeamId) ? profile.preferredTeamId : undefined;
+}
+
+/**
+ * Может ли игрок делать ставку в суперигре.
+ * Без ограничения или без назначенного капитана ставит любой игрок команды.
+ */
+export function canPlaceSuperBet(team: Pick<Team, 'captainId'> | undefined, clientId: string, captainOnly: boolean): boolean {
+  return !captainOnly || !team?.captainId || team.captainId === clientId;
+}
+
+/** teamId → captain client id, for teams where betting is restricted to the captain */
+export function getBetCaptains(teams: Pick<Team, 'id' | 'captainId'>[], captainOnly: boolean): Record<string, string> {
+  if (!captainOnly) return {};
+  return Object.fromEntries(teams.filter(t => t.captainId).map(t => [t.id, t.captainId!]));
+}
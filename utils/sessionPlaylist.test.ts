@@ -0,0 +1,67 @@
+/**
+ * Session Playlist Tests
+ * Тесты плейлиста раундов сессии из нескольких пакетов
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_PLAYLIST,
+  syncPlaylist,
+  getUnusedRounds,
+  movePlaylistItem,
+  insertPlaylistRound,
+  removePlaylistItem,
+  togglePlaylistTheme,
+  buildPlaylistRounds
+} from './sessionPlaylist';
+import type { PlaylistSourcePack } from './sessionPlaylist';
+
+const PACK_A: PlaylistSourcePack = {
+  id: 'a',
+  name: 'Pack A',
+  rounds: [
+    { id: 'r1', name: 'A1', themes: [{ id: 't1', name: 'Music', questions: [{ id: 'q1', text: '?' }] }, { id: 't2', name: 'Art', questions: [] }] },
+    { id: 'r2', name: 'A2', themes: [{ id: 't1', name: 'Films', questions: [] }] }
+  ]
+};
+
+const PACK_B: PlaylistSourcePack = {
+  id: 'b',
+  name: 'Pack B',
+  rounds: [
+    { id: 'r1', name: 'B1', themes: [{ id: 't1', name: 'Sport', questions: [] }] },
+    { id: 'r9', name: 'Draft', disabled: true, themes: [{ id: 't1', name: 'WIP', questions: [] }] }
+  ]
+};
+
+describe('sessionPlaylist', () => {
+  it('should append new packs once and drop rounds of deselected packs', () => {
+    const synced = syncPlaylist(EMPTY_PLAYLIST, [PACK_A, PACK_B]);
+    expect(synced.items.map(i => `${i.packId}/${i.roundId}`)).toEqual(['a/r1', 'a/r2', 'b/r1']);
+    expect(syncPlaylist(synced, [PACK_A, PACK_B])).toBe(synced);
+
+    // Removed round is not re-added while its pack stays selected
+    const trimmed = syncPlaylist(removePlaylistItem(synced, 1), [PACK_A, PACK_B]);
+    expect(trimmed.items.map(i => i.roundId)).toEqual(['r1', 'r1']);
+    expect(getUnusedRounds(trimmed, [PACK_A, PACK_B]).map(u => `${u.pack.id}/${u.round.id}`)).toEqual(['a/r2', 'b/r9']);
+
+    expect(syncPlaylist(trimmed, [PACK_B]).items.map(i => i.packId)).toEqual(['b']);
+  });
+
+  it('should build session rounds in playlist order without disabled themes', () => {
+    let playlist = syncPlaylist(EMPTY_PLAYLIST, [PACK_A, PACK_B]);
+    playlist = movePlaylistItem(playlist, 2, 0);
+    playlist = togglePlaylistTheme(playlist, 1, 't2');
+    playlist = togglePlaylistTheme(playlist, 2, 't1');
+    playlist = insertPlaylistRound(playlist, 'b', 'r9', 1);
+    expect(insertPlaylistRound(playlist, 'a', 'r1')).toBe(playlist);
+
+    const rounds = buildPlaylistRounds(playlist, [PACK_A, PACK_B]);
+    expect(rounds.map(r => [r.id, r.number, r.name])).toEqual([
+      ['b-r1', 1, 'B1'],
+      ['b-r9', 2, 'Draft'],
+      ['a-r1', 3, 'A1']
+    ]);
+    expect(rounds[2].themes.map(t => t.id)).toEqual(['a-t1']);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Session Playlist
+ *
+ * Ordered list of rounds taken from any of the selected packs - the host
+ * decides which round goes first instead of merging packs by round index.
+ * Themes can be switched off for a single session without editing the pack.
+ */
+
+import type { Round } from '../components/host/packeditor/types';
+
+/** Any pack shape with rounds (selector packs have optional rounds) */
+export interface PlaylistSourcePack {
+  id: string;
+  name: string;
+  rounds?: Round[];
+}
+
+export interface SessionPlaylistItem {
+  packId: string;
+  roundId: string;
+  disabledThemeIds: string[];  // Original theme ids switched off for this session only
+}
+
+export interface SessionPlaylist {
+  packIds: string[];  // Packs the playlist was synced with - their rounds are not re-added automatically
+  items: SessionPlaylistItem[];
+}
+
+export const EMPTY_PLAYLIST: SessionPlaylist = { packIds: [], items: [] };
+
+const findRound = (packs: PlaylistSourcePack[], item: Pick<SessionPlaylistItem, 'packId' | 'roundId'>) =>
+  packs.find(p => p.id === item.packId)?.rounds?.find(r => r.id === item.roundId);
+
+const packItems = (pack: PlaylistSourcePack): SessionPlaylistItem[] =>
+  (pack.rounds || [])
+    .filter(round => !round.disabled)
+    .map(round => ({ packId: pack.id, roundId: round.id, disabledThemeIds: [] }));
+
+/**
+ * Bring playlist in line with selected packs:
+ * rounds of deselected packs and deleted rounds/themes are dropped,
+ * newly selected packs are appended with all their rounds (in pack order).
+ */
+export function syncPlaylist(playlist: SessionPlaylist, packs: PlaylistSourcePack[]): SessionPlaylist {
+  const items = playlist.items
+    .filter(item => findRound(packs, item))
+    .map(item => {
+      const themeIds = new Set(findRound(packs, item)!.themes.map(t => t.id));
+      const disabledThemeIds = item.disabledThemeIds.filter(id => themeIds.has(id));
+      return disabledThemeIds.length === item.disabledThemeIds.length ? item : { ...item, disabledThemeIds };
+    });
+
+  packs
+    .filter(pack => !playlist.packIds.includes(pack.id))
+    .forEach(pack => items.push(...packItems(pack)));
+
+  const packIds = packs.map(p => p.id);
+  const unchanged = items.length === playlist.items.length
+    && items.every((item, i) => item === playlist.items[i])
+    && packIds.length === playlist.packIds.length
+    && packIds.every((id, i) => id === playlist.packIds[i]);
+
+  return unchanged ? playlist : { packIds, items };
+}
+
+/** Rounds of selected packs that are not in the playlist yet */
+export function getUnusedRounds(playlist: SessionPlaylist, packs: PlaylistSourcePack[]): { pack: PlaylistSourcePack; round: Round }[] {
+  const used = new Set(playlist.items.map(item => `${item.packId}/${item.roundId}`));
+  return packs.flatMap(pack =>
+    (pack.rounds || [])
+      .filter(round => !used.has(`${pack.id}/${round.id}`))
+      .map(round => ({ pack, round }))
+  );
+}
+
+/** Move item from one position to another (drag & drop reorder) */
+export function movePlaylistItem(playlist: SessionPlaylist, from: number, to: number): SessionPlaylist {
+  if (from === to || from < 0 || from >= playlist.items.length) return playlist;
+  const items = [...playlist.items];
+  const [moved] = items.splice(from, 1);
+  items.splice(Math.max(0, Math.min(to, items.length)), 0, moved);
+  return { ...playlist, items };
+}
+
+/** Insert round at position (end when index is omitted); a round can be in the playlist once */
+export function insertPlaylistRound(playlist: SessionPlaylist, packId: string, roundId: string, index = playlist.items.length): SessionPlaylist {
+  if (playlist.items.some(item => item.packId === packId && item.roundId === roundId)) return playlist;
+  const items = [...playlist.items];
+  items.splice(Math.max(0, Math.min(index, items.length)), 0, { packId, roundId, disabledThemeIds: [] });
+  return { ...playlist, items };
+}
+
+export function removePlaylistItem(playlist: SessionPlaylist, index: number): SessionPlaylist {
+  return { ...playlist, items: playlist.items.filter((_, i) => i !== index) };
+}
+
+export function togglePlaylistTheme(playlist: SessionPlaylist, index: number, themeId: string): SessionPlaylist {
+  return {
+    ...playlist,
+    items: playlist.items.map((item, i) => {
+      if (i !== index) return item;
+      const disabled = item.disabledThemeIds.includes(themeId);
+      return {
+        ...item,
+        disabledThemeIds: disabled
+          ? item.disabledThemeIds.filter(id => id !== themeId)
+          : [...item.disabledThemeIds, themeId]
+      };
+    })
+  };
+}
+
+/**
+ * Session rounds in playlist order.
+ * Ids are prefixed with pack id (same round/theme id may exist in several packs)
+ * and stay stable, so a resumed game finds its round and themes again.
+ * Rounds left without enabled themes are skipped.
+ */
+export function buildPlaylistRounds(playlist: SessionPlaylist, packs: PlaylistSourcePack[]): Round[] {
+  const rounds: Round[] = [];
+
+  playlist.items.forEach(item => {
+    const round = findRound(packs, item);
+    if (!round) return;
+
+    const themes = round.themes
+      .filter(theme => !item.disabledThemeIds.includes(theme.id))
+      .map(theme => ({ ...theme, id: `${item.packId}-${theme.id}` }));
+    if (themes.length === 0) return;
+
+    rounds.push({
+      ...round,
+      id: `${item.packId}-${round.id}`,
+      number: rounds.length + 1,
+      name: round.name || `Round ${rounds.length + 1}`,
+      themes
+    });
+  });
+
+  return rounds;
+}
+
+/** Round/theme/question totals of the session */
+export function getPlaylistSummary(playlist: SessionPlaylist, packs: PlaylistSourcePack[]) {
+  const rounds = buildPlaylistRounds(playlist, packs);
+  return {
+    rounds: rounds.length,
+    themes: rounds.reduce((acc, r) => acc + r.themes.length, 0),
+    questions: rounds.reduce((acc, r) => acc + r.themes.reduce((tAcc, t) => tAcc + (t.questions?.length || 0), 0), 0)
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Signalling rooms
+ * Комнаты на локальном сигнальном сервере: хост регистрирует комнату и получает
+ * короткий код входа + токен хоста, телефоны входят по коду и получают свой peer ID + токен.
+ * Сервер пускает в PeerJS только участников комнат.
+ */
+
+import { LOCAL_HTTP_PORT } from './network';
+
+export interface SignallingRoom {
+  code: string;
+  hostToken: string;
+  locked: boolean;
+  members: number;
+}
+
+export interface RoomMembership {
+  code: string;
+  hostPeerId: string;
+  peerId: string;
+  peerToken: string;
+}
+
+export type RoomErrorReason = 'not_found' | 'locked' | 'host_taken' | 'forbidden' | 'invalid' | 'rate_limited' | 'unavailable';
+
+export class RoomError extends Error {
+  readonly reason: RoomErrorReason;
+
+  constructor(reason: RoomErrorReason) {
+    super(ROOM_ERROR_MESSAGES[reason]);
+    this.name = 'RoomError';
+    this.reason = reason;
+  }
+}
+
+export const ROOM_ERROR_MESSAGES: Record<RoomErrorReason, string> = {
+  not_found: 'No game with this code',
+  locked: 'The game has started - the room is locked',
+  host_taken: 'Host ID is used by another room on this server',
+  forbidden: 'Room belongs to another host',
+  invalid: 'Invalid room request',
+  rate_limited: 'Too many attempts - wait a minute and try again',
+  unavailable: 'Signalling server is not reachable'
+};
+
+/** Codes are shown upper-case without ambiguous characters; users may type them in any case */
+export const normalizeRoomCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+async function roomRequest<T>(signallingHost: string, path: string, body: object): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`http://${signallingHost}:${LOCAL_HTTP_PORT}/api/rooms${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(5000)
+    });
+  } catch {
+    throw new RoomError('unavailable');
+  }
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new RoomError(data.error in ROOM_ERROR_MESSAGES ? data.error : 'unavailable');
+  }
+  return data as T;
+}
+
+/**
+ * Host creates its room or reclaims it (same token) after reload or server restart
+ */
+export function registerRoom(signallingHost: string, hostPeerId: string, previous?: { code: string; hostToken: string } | null): Promise<SignallingRoom> {
+  return roomRequest(signallingHost, '', { hostPeerId, hostToken: previous?.hostToken, code: previous?.code });
+}
+
+export function rotateRoomCode(signallingHost: string, room: SignallingRoom): Promise<SignallingRoom> {
+  return roomRequest(signallingHost, `/${room.code}/rotate`, { hostToken: room.hostToken });
+}
+
+export function setRoomLocked(signallingHost: string, room: SignallingRoom, locked: boolean): Promise<SignallingRoom> {
+  return roomRequest(signallingHost, `/${room.code}/lock`, { hostToken: room.hostToken, locked });
+}
+
+/**
+ * Join by code. Previous membership keeps the same peer ID (reconnect into a locked room).
+ * @throws RoomError
+ */
+export function joinRoom(signallingHost: string, code: string, previous?: RoomMembership | null): Promise<RoomMembership> {
+  return roomRequest(signallingHost, `/${normalizeRoomCode(code)}/join`, {
+    peerId: previous?.peerId,
+    peerToken: previous?.peerToken
+  });
+}
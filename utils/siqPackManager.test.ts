@@ -0,0 +1,173 @@
+/**
+ * SIQ Pack Manager Tests
+ * Тесты разбора content.xml пакетов SIGame
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSiqContent, buildSiqContent, getSiqExportIssues } from './siqPackManager';
+import type { GamePack } from '../components/host/packeditor/types';
+
+const V4_CONTENT = `<?xml version="1.0" encoding="utf-8"?>
+<package name="Test pack" version="4" xmlns="http://vladimirkhil.com/ygpackage3.0.xsd">
+  <rounds>
+    <round name="Round 1">
+      <themes>
+        <theme name="Music">
+          <questions>
+            <question price="100">
+              <scenario>
+                <atom>Name the song</atom>
+                <atom type="voice">@song%20one.mp3</atom>
+                <atom type="marker" />
+                <atom type="image">@cover.jpg</atom>
+              </scenario>
+              <right><answer>Yesterday</answer><answer>The Beatles - Yesterday</answer></right>
+            </question>
+            <question price="200">
+              <type name="auction" />
+              <scenario><atom>Second</atom></scenario>
+              <right><answer>Two</answer></right>
+              <wrong><answer>Three</answer></wrong>
+            </question>
+          </questions>
+        </theme>
+      </themes>
+    </round>
+    <round name="Final" type="final">
+      <themes>
+        <theme name="History">
+          <questions>
+            <question price="0">
+              <scenario><atom>Year of Moscow founding?</atom></scenario>
+              <right><answer>1147</answer></right>
+            </question>
+          </questions>
+        </theme>
+      </themes>
+    </round>
+  </rounds>
+</package>`;
+
+const V5_CONTENT = `<?xml version="1.0" encoding="utf-8"?>
+<package name="V5 pack" version="5" xmlns="https://github.com/VladimirKhil/SI/blob/master/assets/siq_5.xsd">
+  <rounds>
+    <round name="Round 1">
+      <themes>
+        <theme name="Art">
+          <questions>
+            <question price="300" type="secret">
+              <params>
+                <param name="theme">Painters</param>
+                <param name="price" type="numberSet"><numberSet minimum="500" maximum="500" step="0" /></param>
+                <param name="question" type="content">
+                  <item>Who painted it?</item>
+                  <item type="image" isRef="True">mona.png</item>
+                  <item placement="replic">Look closely</item>
+                </param>
+                <param name="answer" type="content">
+                  <item type="image" isRef="True">leonardo.png</item>
+                </param>
+              </params>
+              <right><answer>Leonardo</answer></right>
+            </question>
+          </questions>
+        </theme>
+      </themes>
+    </round>
+  </rounds>
+</package>`;
+
+describe('parseSiqContent', () => {
+  it('should map v4 rounds, themes, questions, answers and media refs', () => {
+    const { pack, mediaRefs, issues } = parseSiqContent(V4_CONTENT, 'test');
+
+    expect(pack.name).toBe('Test pack');
+    expect(pack.rounds.map(r => r.type)).toEqual(['normal', 'super']);
+
+    const [first, second] = pack.rounds[0].themes[0].questions!;
+    expect(first).toMatchObject({ text: 'Name the song', points: 100, answerText: 'Yesterday / The Beatles - Yesterday' });
+    expect(first.media?.type).toBe('audio');
+    expect(first.answerMedia?.type).toBe('image');
+    expect(mediaRefs.map(r => [r.fileName, r.target])).toEqual([['song%20one.mp3', 'media'], ['cover.jpg', 'answerMedia']]);
+
+    expect(second.points).toBe(200);
+    expect(second.questionKind).toBe('auction');
+    expect(issues.map(i => i.message)).toEqual(['Wrong answer variants skipped']);
+    expect(issues[0].location).toBe('Round 1 / Music / 200');
+  });
+
+  it('should map v5 content params', () => {
+    const { pack, mediaRefs, issues } = parseSiqContent(V5_CONTENT, 'test');
+    const question = pack.rounds[0].themes[0].questions![0];
+
+    expect(question.text).toBe('Who painted it?\nLook closely');
+    expect(question.answerText).toBe('Leonardo');
+    expect(mediaRefs.map(r => r.fileName)).toEqual(['mona.png', 'leonardo.png']);
+    expect(question.questionKind).toBe('catInBag');
+    expect(question.catInBag).toEqual({ theme: 'Painters', points: 500 });
+    expect(issues.map(i => i.message)).toContain('Host-read text merged into question text');
+  });
+
+  it('should reject non-SIGame xml', () => {
+    expect(() => parseSiqContent('<root />')).toThrow();
+  });
+});
+
+const EXPORT_PACK: GamePack = {
+  id: 'p1',
+  name: 'Export & test',
+  createdAt: 0,
+  rounds: [
+    {
+      id: 'r1',
+      number: 1,
+      name: 'Round <1>',
+      responseWindow: 10,
+      themes: [{
+        id: 't1',
+        name: 'Movies',
+        color: '#ff0000',
+        questions: [{
+          id: 'q1',
+          text: 'Who said "I\'ll be back"?',
+          points: 100,
+          answerText: 'Terminator',
+          media: { type: 'image', url: 'blob:abc' },
+          answerMedia: { type: 'audio', url: 'https://example.com/a.mp3' },
+          hint: { media: { type: 'image', url: 'blob:hint' } }
+        }, {
+          id: 'q3',
+          text: 'Hidden',
+          points: 200,
+          answerText: 'Cat',
+          questionKind: 'catInBag',
+          catInBag: { theme: 'Animals & pets', points: 400 }
+        }]
+      }]
+    },
+    { id: 'r2', number: 2, name: 'Final', type: 'super', themes: [{ id: 't2', name: 'Art', questions: [{ id: 'q2', text: 'Q', answerText: 'A' }] }] }
+  ]
+};
+
+describe('buildSiqContent', () => {
+  it('should round-trip through parseSiqContent', () => {
+    const xml = buildSiqContent(EXPORT_PACK, new Map([['blob:abc', { fileName: 'question_q1.png', type: 'image' as const }]]));
+    const { pack, mediaRefs } = parseSiqContent(xml, 'test');
+
+    expect(pack.name).toBe('Export & test');
+    expect(pack.rounds.map(r => [r.name, r.type])).toEqual([['Round <1>', 'normal'], ['Final', 'super']]);
+    const question = pack.rounds[0].themes[0].questions![0];
+    expect(question).toMatchObject({ text: 'Who said "I\'ll be back"?', points: 100, answerText: 'Terminator' });
+    expect(question.answerMedia).toEqual({ type: 'audio', url: 'https://example.com/a.mp3' });
+    expect(mediaRefs.map(r => r.fileName)).toEqual(['question_q1.png']);
+    expect(pack.rounds[0].themes[0].questions![1]).toMatchObject({
+      questionKind: 'catInBag',
+      catInBag: { theme: 'Animals & pets', points: 400 }
+    });
+  });
+
+  it('should report fields without SIGame equivalent', () => {
+    const messages = getSiqExportIssues(EXPORT_PACK).map(i => i.message);
+    expect(messages).toEqual(['Per-round timer settings are not supported', 'Theme colors are not supported', 'Hint media is not supported']);
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * SIQ Pack Manager
+ * Импорт и экспорт пакетов SIGame (.siq) - ZIP архив с content.xml и папками Images/, Audio/, Video/
+ *
+ * Поддерживаются оба формата content.xml:
+ * - v4: <scenario><atom type="image">@file.jpg</atom>... с <atom type="marker"/> перед медиа ответа
+ * - v5: <params><param name="question" type="content"><item type="image" isRef="True">file.jpg</item>...
+ *
+ * Финальный раунд (type="final") становится супер-игрой (type: 'super') и обратно.
+ * Всё, что нельзя представить в другой модели, попадает в issues для диалога итогов.
+ */
+
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { GamePack, Round, Theme, Question, LocalFileInfo, QuestionKind, CatInBagSettings } from '../components/host/packeditor/types';
+import { DEFAULT_TIMER_SETTINGS } from '../components/host/packeditor/types';
+import { mediaStorage, generateMediaId } from './media';
+import { generateUUID } from './uuid';
+import { collectPackMediaBlobs } from './zipPackManager';
+
+type SiqMediaType = 'image' | 'audio' | 'video';
+
+export interface SiqIssue {
+  message: string;
+  location?: string;  // "Round / Theme / 100"
+}
+
+export interface SiqImportSummary {
+  packName: string;
+  rounds: number;
+  themes: number;
+  questions: number;
+  mediaFiles: number;
+  issues: SiqIssue[];
+}
+
+export interface SiqImportResult {
+  pack: GamePack;
+  summary: SiqImportSummary;
+}
+
+/**
+ * Ссылка на медиа файл внутри архива, которую нужно привязать к вопросу
+ */
+export interface SiqMediaRef {
+  fileName: string;
+  type: SiqMediaType;
+  questionId: string;
+  target: 'media' | 'answerMedia';
+  location: string;
+}
+
+export interface SiqParseResult {
+  pack: GamePack;
+  mediaRefs: SiqMediaRef[];
+  issues: SiqIssue[];
+}
+
+/** Папки медиа в архиве SIGame */
+const SIQ_MEDIA_FOLDERS: Record<SiqMediaType, string> = {
+  image: 'Images',
+  audio: 'Audio',
+  video: 'Video'
+};
+
+/** Специальные типы вопросов SIGame -> наш questionKind (v4 + v5 имена) */
+const SIQ_QUESTION_KINDS: Record<string, QuestionKind> = {
+  cat: 'catInBag',
+  bagcat: 'catInBag',
+  secret: 'catInBag',
+  secretPublicPrice: 'catInBag',
+  secretNoQuestion: 'catInBag',
+  auction: 'auction',
+  stake: 'auction',
+  sponsored: 'noRisk',
+  noRisk: 'noRisk'
+};
+
+/** Типы вопросов, у которых нет аналога в нашей модели */
+const UNSUPPORTED_QUESTION_TYPES: Record<string, string> = {
+  forAll: 'Question for all',
+  forAllStake: 'Stake question for all'
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  ogv: 'video/ogg',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac'
+};
+
+/**
+ * Проверяет, является ли файл пакетом SIGame
+ */
+export function isSiqFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.siq');
+}
+
+// ============= XML HELPERS =============
+
+/** Дочерние элементы по имени (без учёта namespace ygpackage) */
+const childElements = (parent: Element, name: string): Element[] =>
+  Array.from(parent.children).filter(el => el.localName === name);
+
+const childElement = (parent: Element, name: string): Element | undefined =>
+  childElements(parent, name)[0];
+
+/** Путь вида <rounds><round>, <themes><theme> - обёртка может отсутствовать */
+const listElements = (parent: Element, listName: string, itemName: string): Element[] => {
+  const list = childElement(parent, listName);
+  return list ? childElements(list, itemName) : childElements(parent, itemName);
+};
+
+const textOf = (el: Element | undefined): string => (el?.textContent || '').trim();
+
+/** Нормализация типа медиа: v4 использует "voice" для аудио */
+const toMediaType = (type: string | null): SiqMediaType | null => {
+  if (type === 'image') return 'image';
+  if (type === 'voice' || type === 'audio') return 'audio';
+  if (type === 'video') return 'video';
+  return null;
+};
+
+interface ContentItem {
+  kind: 'text' | 'oral' | 'media' | 'html' | 'marker';
+  value: string;
+  mediaType?: SiqMediaType;
+  isRef?: boolean;  // Ссылка на файл в архиве (иначе внешний URL)
+}
+
+/** v4: <scenario><atom> */
+const readV4Atoms = (scenario: Element): ContentItem[] =>
+  childElements(scenario, 'atom').map(atom => {
+    const type = atom.getAttribute('type');
+    const value = textOf(atom);
+    if (type === 'marker') return { kind: 'marker', value: '' };
+    if (type === 'say') return { kind: 'oral', value };
+    if (type === 'html') return { kind: 'html', value };
+    const mediaType = toMediaType(type);
+    if (mediaType) {
+      return value.startsWith('@')
+        ? { kind: 'media', value: value.slice(1), mediaType, isRef: true }
+        : { kind: 'media', value, mediaType, isRef: false };
+    }
+    return { kind: 'text', value };
+  });
+
+/** v5: <param type="content"><item> */
+const readV5Items = (param: Element): ContentItem[] =>
+  childElements(param, 'item').map(item => {
+    const type = item.getAttribute('type');
+    const value = textOf(item);
+    if (type === 'html') return { kind: 'html', value };
+    const mediaType = toMediaType(type);
+    if (mediaType) {
+      return { kind: 'media', value, mediaType, isRef: item.getAttribute('isRef')?.toLowerCase() === 'true' };
+    }
+    return { kind: item.getAttribute('placement') === 'replic' ? 'oral' : 'text', value };
+  });
+
+/**
+ * Скрытая тема и цена кота в мешке
+ * v4: <type name="cat"><param name="theme">..</param><param name="cost">..</param></type>
+ * v5: <params><param name="theme">..</param><param name="price" type="numberSet"><numberSet minimum=".." /></param></params>
+ */
+const readCatInBag = (typeEl: Element | undefined, params: Element | undefined): CatInBagSettings | undefined => {
+  const param = (parent: Element | undefined, name: string) =>
+    parent ? childElements(parent, 'param').find(p => p.getAttribute('name') === name) : undefined;
+
+  const theme = textOf(param(typeEl, 'theme') || param(params, 'theme'));
+  const costEl = param(typeEl, 'cost');
+  const priceSet = param(params, 'price') ? childElement(param(params, 'price')!, 'numberSet') : undefined;
+  const points = parseInt(costEl ? textOf(costEl) : priceSet?.getAttribute('minimum') || '', 10);
+
+  if (!theme && isNaN(points)) return undefined;
+  return {
+    ...(theme ? { theme } : {}),
+    ...(!isNaN(points) ? { points } : {})
+  };
+};
+
+// ============= PARSER =============
+
+/**
+ * Разбирает content.xml пакета SIGame в GamePack
+ * Медиа файлы не загружаются - возвращаются как mediaRefs для loadPackFromSiq
+ */
+export function parseSiqContent(xml: string, packId: string = `siq_${Date.now()}`): SiqParseResult {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'package' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('content.xml не является пакетом SIGame');
+  }
+
+  const issues: SiqIssue[] = [];
+  const mediaRefs: SiqMediaRef[] = [];
+  const addIssue = (message: string, location?: string) => issues.push({ message, location });
+
+  const rounds: Round[] = listElements(root, 'rounds', 'round').map((roundEl, roundIndex) => {
+    const roundName = roundEl.getAttribute('name') || `Round ${roundIndex + 1}`;
+    const isFinal = roundEl.getAttribute('type') === 'final';
+
+    const themes: Theme[] = listElements(roundEl, 'themes', 'theme').map(themeEl => {
+      const themeName = themeEl.getAttribute('name') || '';
+
+      const questions: Question[] = listElements(themeEl, 'questions', 'question').map(questionEl => {
+        const price = parseInt(questionEl.getAttribute('price') || '', 10);
+        const location = `${roundName} / ${themeName} / ${isNaN(price) ? '?' : price}`;
+        const question: Question = { id: generateUUID(), text: '', points: isNaN(price) ? undefined : price };
+
+        // Special question types: v4 <type name="...">, v5 <question type="...">
+        const typeEl = childElement(questionEl, 'type');
+        const questionType = typeEl?.getAttribute('name') || questionEl.getAttribute('type') || 'simple';
+        const questionKind = SIQ_QUESTION_KINDS[questionType];
+        if (questionKind) {
+          question.questionKind = questionKind;
+          if (questionKind === 'catInBag') {
+            question.catInBag = readCatInBag(typeEl, childElement(questionEl, 'params'));
+          }
+        } else if (questionType !== 'simple') {
+          const typeName = UNSUPPORTED_QUESTION_TYPES[questionType] || questionType;
+          addIssue(`${typeName} imported as a regular question`, location);
+        }
+
+        // Content: question part and answer part (after v4 marker / v5 answer param)
+        let questionItems: ContentItem[] = [];
+        let answerItems: ContentItem[] = [];
+        const scenario = childElement(questionEl, 'scenario');
+        const params = childElement(questionEl, 'params');
+        if (scenario) {
+          const atoms = readV4Atoms(scenario);
+          const markerIndex = atoms.findIndex(a => a.kind === 'marker');
+          questionItems = markerIndex >= 0 ? atoms.slice(0, markerIndex) : atoms;
+          answerItems = markerIndex >= 0 ? atoms.slice(markerIndex + 1) : [];
+        } else if (params) {
+          const param = (name: string) => childElements(params, 'param').find(p => p.getAttribute('name') === name);
+          questionItems = param('question') ? readV5Items(param('question')!) : [];
+          answerItems = param('answer') ? readV5Items(param('answer')!) : [];
+        }
+
+        const texts = questionItems.filter(i => i.kind === 'text' && i.value).map(i => i.value);
+        const oral = questionItems.filter(i => i.kind === 'oral' && i.value).map(i => i.value);
+        if (oral.length > 0) {
+          addIssue('Host-read text merged into question text', location);
+        }
+        question.text = [...texts, ...oral].join('\n');
+
+        if ([...questionItems, ...answerItems].some(i => i.kind === 'html')) {
+          addIssue('HTML content skipped', location);
+        }
+
+        // Only one media per question and per answer in our model
+        const attachMedia = (items: ContentItem[], target: 'media' | 'answerMedia') => {
+          const media = items.filter(i => i.kind === 'media' && i.value);
+          if (media.length === 0) return;
+          if (media.length > 1) {
+            addIssue(`Only the first of ${media.length} ${target === 'media' ? 'question' : 'answer'} media files kept`, location);
+          }
+          const first = media[0];
+          question[target] = { type: first.mediaType!, url: first.isRef ? '' : first.value };
+          if (first.isRef) {
+            mediaRefs.push({ fileName: first.value, type: first.mediaType!, questionId: question.id, target, location });
+          }
+        };
+        attachMedia(questionItems, 'media');
+        attachMedia(answerItems, 'answerMedia');
+
+        // Answers: all right variants, wrong answers have no equivalent
+        const rightAnswers = childElements(childElement(questionEl, 'right') || questionEl, 'answer').map(textOf).filter(Boolean);
+        const answerTexts = answerItems.filter(i => i.kind === 'text' && i.value).map(i => i.value);
+        question.answerText = rightAnswers.length > 0 ? rightAnswers.join(' / ') : answerTexts.join('\n') || undefined;
+
+        const wrongEl = childElement(questionEl, 'wrong');
+        if (wrongEl && childElements(wrongEl, 'answer').some(a => textOf(a))) {
+          addIssue('Wrong answer variants skipped', location);
+        }
+
+        if (!question.text && !question.media) {
+          addIssue('Question has no text or media', location);
+        }
+
+        return question;
+      });
+
+      return { id: generateUUID(), name: themeName, questions };
+    });
+
+    if (isFinal && themes.some(t => (t.questions?.length || 0) > 1)) {
+      addIssue('Final round themes have more than one question - only the first is used in super game', roundName);
+    }
+
+    return {
+      id: generateUUID(),
+      number: roundIndex + 1,
+      name: roundName,
+      type: isFinal ? 'super' : 'normal',
+      themes
+    };
+  });
+
+  const pack: GamePack = {
+    id: packId,
+    name: root.getAttribute('name') || 'SIGame pack',
+    gameType: 'custom',
+    rounds,
+    createdAt: Date.now()
+  };
+
+  return { pack, mediaRefs, issues };
+}
+
+// ============= ARCHIVE LOADER =============
+
+/**
+ * Ищет файл в папке архива. SIGame хранит имена URI-экранированными,
+ * а в content.xml они могут быть как экранированными, так и нет
+ */
+function findMediaEntry(zip: JSZip, type: SiqMediaType, fileName: string): JSZip.JSZipObject | null {
+  const folder = SIQ_MEDIA_FOLDERS[type];
+  const candidates = [fileName, encodeURIComponent(fileName)];
+  for (const name of candidates) {
+    const entry = zip.file(`${folder}/${name}`);
+    if (entry) return entry;
+  }
+
+  const safeDecode = (value: string) => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+  const wanted = safeDecode(fileName);
+  return zip.file(new RegExp(`^${folder}/`)).find(entry => safeDecode(entry.name.slice(folder.length + 1)) === wanted) || null;
+}
+
+/**
+ * Загружает пакет SIGame: разбирает content.xml и сохраняет медиа в IndexedDB (mediaStorage)
+ */
+export async function loadPackFromSiq(source: File | JSZip, fileName: string = 'pack.siq'): Promise<SiqImportResult> {
+  const name = source instanceof File ? source.name : fileName;
+  console.log('📂 Импорт пакета SIGame:', name);
+
+  const zip = source instanceof File ? await JSZip.loadAsync(source) : source;
+  const contentFile = zip.file('content.xml');
+  if (!contentFile) {
+    throw new Error('content.xml не найден в архиве');
+  }
+
+  const xml = await contentFile.async('string');
+  const { pack, mediaRefs, issues } = parseSiqContent(xml, `siq_${name}_${Date.now()}`);
+  console.log('📦 content.xml разобран:', pack.name, `(${mediaRefs.length} ссылок на медиа)`);
+
+  const questionsById = new Map<string, Question>();
+  pack.rounds.forEach(r => r.themes.forEach(t => t.questions?.forEach(q => questionsById.set(q.id, q))));
+
+  // Один файл может использоваться в нескольких вопросах - сохраняем один раз
+  const loaded = new Map<string, { blobUrl: string; localFile: LocalFileInfo }>();
+
+  for (const ref of mediaRefs) {
+    const question = questionsById.get(ref.questionId);
+    const slot = question?.[ref.target];
+    if (!question || !slot) continue;
+
+    const key = `${ref.type}/${ref.fileName}`;
+    let media = loaded.get(key);
+
+    if (!media) {
+      const entry = findMediaEntry(zip, ref.type, ref.fileName);
+      if (!entry) {
+        issues.push({ message: `Media file not found in archive: ${ref.fileName}`, location: ref.location });
+        delete question[ref.target];
+        continue;
+      }
+
+      try {
+        const blob = await entry.async('blob');
+        const extension = ref.fileName.split('.').pop()?.toLowerCase() || '';
+        const mimeType = MIME_TYPES[extension] || `${ref.type}/${extension || '*'}`;
+        const fileObj = new File([blob], ref.fileName, { type: mimeType });
+
+        const mediaId = generateMediaId();
+        await mediaStorage.save(pack.id, mediaId, fileObj);
+
+        media = {
+          blobUrl: URL.createObjectURL(fileObj),
+          localFile: {
+            fileName: fileObj.name,
+            fileSize: fileObj.size,
+            fileType: mimeType,
+            lastModified: fileObj.lastModified,
+            mediaId
+          }
+        };
+        loaded.set(key, media);
+      } catch (error) {
+        console.error('❌ Ошибка загрузки медиа из .siq:', ref.fileName, error);
+        issues.push({ message: `Failed to load media file: ${ref.fileName}`, location: ref.location });
+        delete question[ref.target];
+        continue;
+      }
+    }
+
+    slot.url = media.blobUrl;
+    slot.localFile = media.localFile;
+  }
+
+  const summary: SiqImportSummary = {
+    packName: pack.name,
+    rounds: pack.rounds.length,
+    themes: pack.rounds.reduce((sum, r) => sum + r.themes.length, 0),
+    questions: questionsById.size,
+    mediaFiles: loaded.size,
+    issues
+  };
+
+  console.log(`✅ Пакет SIGame импортирован: ${summary.questions} вопросов, ${summary.mediaFiles} медиа, ${issues.length} замечаний`);
+  return { pack, summary };
+}
+
+// ============= EXPORT =============
+
+/** Имя файла в папке архива + папка по типу медиа */
+export interface SiqExportMedia {
+  fileName: string;
+  type: SiqMediaType;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const questionLocation = (round: Round, theme: Theme, question: Question) =>
+  `${round.name || `Round ${round.number ?? ''}`} / ${theme.name} / ${question.points ?? '?'}`;
+
+/**
+ * Поля пака без аналога в SIGame - показываются перед экспортом
+ */
+export function getSiqExportIssues(pack: GamePack): SiqIssue[] {
+  const issues: SiqIssue[] = [];
+  const addIssue = (message: string, location?: string) => issues.push({ message, location });
+
+  for (const round of pack.rounds) {
+    const roundName = round.name || `Round ${round.number ?? ''}`;
+    if (round.cover?.value) addIssue('Round covers are not supported', roundName);
+    if (round.disabled) addIssue('Disabled rounds are exported as regular rounds', roundName);
+
+    const hasCustomTimers =
+      (round.readingTimePerLetter !== undefined && round.readingTimePerLetter !== DEFAULT_TIMER_SETTINGS.readingTimePerLetter) ||
+      (round.responseWindow !== undefined && round.responseWindow !== DEFAULT_TIMER_SETTINGS.responseWindow) ||
+      !!round.handicapEnabled;
+    if (hasCustomTimers) addIssue('Per-round timer settings are not supported', roundName);
+
+    for (const theme of round.themes) {
+      if (theme.color || theme.textColor) addIssue('Theme colors are not supported', `${roundName} / ${theme.name}`);
+      if (theme.disabled) addIssue('Disabled themes are exported as regular themes', `${roundName} / ${theme.name}`);
+
+      for (const question of theme.questions || []) {
+        const location = questionLocation(round, theme, question);
+        if (question.hint?.media) addIssue('Hint media is not supported', location);
+        if (question.hint?.text || question.hint?.answers?.length) addIssue('Hints are not supported', location);
+        if (question.answers?.length) addIssue('Multiple choice options are not supported', location);
+        if (question.timeLimit) addIssue('Question time limit is not supported', location);
+        if (question.media?.type === 'youtube' || question.answerMedia?.type === 'youtube') {
+          addIssue('YouTube media is not supported', location);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Строит content.xml (формат v4, читается всеми версиями SIGame)
+ * @param media - blob URL -> файл в архиве (из collectPackMediaBlobs)
+ */
+export function buildSiqContent(pack: GamePack, media: Map<string, SiqExportMedia>): string {
+  // Специальные вопросы -> v4 <type>
+  const questionTypeXml = (question: Question): string => {
+    switch (question.questionKind) {
+      case 'catInBag': {
+        const theme = question.catInBag?.theme ? `<param name="theme">${escapeXml(question.catInBag.theme)}</param>` : '';
+        const cost = `<param name="cost">${question.catInBag?.points ?? question.points ?? 0}</param>`;
+        return `<type name="cat">${theme}${cost}</type>`;
+      }
+      case 'auction':
+        return '<type name="auction" />';
+      case 'noRisk':
+        return '<type name="sponsored" />';
+      default:
+        return '';
+    }
+  };
+
+  // Медиа в архиве -> @ссылка, внешний URL -> как есть, YouTube пропускаем
+  const mediaAtom = (item: Question['media'] | Question['answerMedia']): string => {
+    if (!item?.url || item.type === 'youtube') return '';
+    const atomType = item.type === 'audio' ? 'voice' : item.type;
+    const archived = media.get(item.url);
+    if (archived) return `<atom type="${atomType}">@${escapeXml(archived.fileName)}</atom>`;
+    if (item.url.startsWith('blob:')) return '';
+    return `<atom type="${atomType}">${escapeXml(item.url)}</atom>`;
+  };
+
+  const questionXml = (question: Question): string => {
+    const answer = question.answerText ||
+      (question.answers && question.correctAnswer !== undefined ? question.answers[question.correctAnswer] : '') ||
+      '';
+    const atoms = [
+      question.text ? `<atom>${escapeXml(question.text)}</atom>` : '',
+      mediaAtom(question.media)
+    ];
+    const answerAtom = mediaAtom(question.answerMedia);
+    if (answerAtom) atoms.push('<atom type="marker" />', answerAtom);
+
+    return `<question price="${question.points ?? 0}">` +
+      questionTypeXml(question) +
+      `<scenario>${atoms.join('')}</scenario>` +
+      `<right><answer>${escapeXml(answer)}</answer></right>` +
+      '</question>';
+  };
+
+  const roundsXml = pack.rounds.map(round => {
+    const themesXml = round.themes.map(theme =>
+      `<theme name="${escapeXml(theme.name)}"><questions>${(theme.questions || []).map(questionXml).join('')}</questions></theme>`
+    ).join('');
+    const typeAttr = round.type === 'super' ? ' type="final"' : '';
+    return `<round name="${escapeXml(round.name || `Round ${round.number ?? ''}`)}"${typeAttr}><themes>${themesXml}</themes></round>`;
+  }).join('');
+
+  const logo = pack.cover?.value ? media.get(pack.cover.value) : undefined;
+  const logoAttr = logo ? ` logo="@${escapeXml(logo.fileName)}"` : '';
+  const date = new Date(pack.updatedAt || pack.createdAt || Date.now()).toLocaleDateString('ru-RU');
+
+  return '<?xml version="1.0" encoding="utf-8"?>' +
+    `<package name="${escapeXml(pack.name)}" version="4" id="${escapeXml(pack.id)}" date="${date}"${logoAttr} xmlns="http://vladimirkhil.com/ygpackage3.0.xsd">` +
+    `<rounds>${roundsXml}</rounds>` +
+    '</package>';
+}
+
+/** Обязательный для .siq файл (архив в формате Open Packaging Conventions) */
+const SIQ_CONTENT_TYPES = '<?xml version="1.0" encoding="utf-8"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="xml" ContentType="si/xml" /></Types>';
+
+/**
+ * Сохраняет пакет в формате SIGame (.siq)
+ */
+export async function savePackAsSiq(pack: GamePack): Promise<void> {
+  console.log('📦 Экспорт пакета в .siq:', pack.name);
+
+  const blobs = await collectPackMediaBlobs(pack);
+
+  // Тип медиа (папка) берём из места использования файла
+  const mediaTypes = new Map<string, SiqMediaType>();
+  if (pack.cover?.value) mediaTypes.set(pack.cover.value, 'image');
+  pack.rounds.forEach(r => r.themes.forEach(t => t.questions?.forEach(q => {
+    [q.media, q.answerMedia].forEach(item => {
+      if (item?.url && item.type !== 'youtube') mediaTypes.set(item.url, item.type);
+    });
+  })));
+
+  const zip = new JSZip();
+  const media = new Map<string, SiqExportMedia>();
+  for (const [url, { blob, fileName }] of blobs) {
+    const type = mediaTypes.get(url);
+    if (!type) continue;  // Round covers - no place in SIGame
+    media.set(url, { fileName, type });
+    zip.file(`${SIQ_MEDIA_FOLDERS[type]}/${encodeURIComponent(fileName)}`, blob);
+  }
+
+  zip.file('content.xml', buildSiqContent(pack, media));
+  zip.file('[Content_Types].xml', SIQ_CONTENT_TYPES);
+
+  const siqBlob = await zip.generateAsync({ type: 'blob' });
+  const fileName = `${pack.name.replace(/[^a-zа-яё0-9]/gi, '_')}.siq`;
+  saveAs(siqBlob, fileName);
+
+  console.log(`✅ Пакет экспортирован: ${fileName} (${media.size} медиа файлов)`);
+}
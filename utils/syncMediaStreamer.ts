@@ -1,38 +1,137 @@
 /**
  * Synchronous Media Streamer Utility
  *
- * Вызывается синхронно перед broadcastGameState для обеспечения правильного порядка сообщений
+ * Вызывается синхронно перед broadcastGameState для обеспечения правильного порядка сообщений.
+ * Локальные файлы идут на демо-экран по хешу содержимого (см. mediaTransfer.ts),
+ * YouTube и внешние ссылки - как раньше, одним MEDIA_TRANSFER.
  */
 
-import { createMediaInfo, createMediaTransferMessage } from './mediaStream';
+import { createMediaInfo, createMediaTransferMessage, isBlobUrl } from './mediaStream';
 import type { MediaTransferMessage } from '../types';
 import { getMediaFile } from './mediaManager';
+import { hashBlob } from './contentHash';
+import { screenMediaSender } from './mediaTransfer';
+
+interface MediaSource {
+  type: string;
+  url?: string;
+  localFile?: {
+    mediaId?: string;
+  };
+}
 
 interface QuestionMedia {
   id: string;
-  media?: {
-    type: string;
-    url?: string;
-    localFile?: {
-      mediaId?: string;
-    };
-  };
-  answerMedia?: {
-    type: string;
-    url?: string;
-    localFile?: {
-      mediaId?: string;
-    };
-  };
+  media?: MediaSource;
+  answerMedia?: MediaSource;
 }
 
 interface ActiveQuestion {
   question: QuestionMedia;
 }
 
-// Глобальное хранилище для отслеживания переданных медиа
+// Медиа, уже отправленные (или предложенные экрану) для текущего вопроса
 const transferredMediaIds = new Set<string>();
 
+// Хеши локальных файлов: mediaId + size + lastModified -> SHA-256
+const fileHashes = new Map<string, string>();
+
+async function getFileHash(localMediaId: string, file: File): Promise<string> {
+  const key = `${localMediaId}:${file.size}:${file.lastModified}`;
+  let hash = fileHashes.get(key);
+  if (!hash) {
+    hash = await hashBlob(file);
+    fileHashes.set(key, hash);
+  }
+  return hash;
+}
+
+/**
+ * Transfer one media item of the question (question or answer media)
+ */
+async function streamMedia(
+  mediaId: string,
+  source: MediaSource,
+  onBroadcastMessage: (message: MediaTransferMessage) => void,
+  hostId: string
+): Promise<void> {
+  console.log('[SyncMediaStreamer] Processing media:', {
+    mediaId,
+    type: source.type,
+    url: source.url?.substring(0, 50),
+    hasLocalFile: !!source.localFile,
+    localFileId: source.localFile?.mediaId,
+    alreadyTransferred: transferredMediaIds.has(mediaId)
+  });
+
+  if (transferredMediaIds.has(mediaId)) {
+    console.log('[SyncMediaStreamer] Media already transferred:', mediaId);
+    return;
+  }
+
+  try {
+    let file: File | null = null;
+
+    // Попытка получить файл из IndexedDB
+    if (source.localFile?.mediaId) {
+      file = await getMediaFile(source.localFile.mediaId);
+      console.log('[SyncMediaStreamer] File from IndexedDB:', {
+        found: !!file,
+        fileName: file?.name,
+        fileSize: file?.size,
+        fileType: file?.type
+      });
+    }
+
+    // Локальный файл - по хешу, экран скажет, какие чанки ему нужны
+    if (file && source.localFile?.mediaId && isBlobUrl(source.url || '')) {
+      const hash = await getFileHash(source.localFile.mediaId, file);
+      screenMediaSender.offer({
+        hash,
+        file,
+        fileName: file.name,
+        transfer: {
+          mediaId,
+          mediaType: source.type as 'image' | 'video' | 'audio' | 'youtube',
+          fileName: file.name,
+          fileType: file.type,
+          fileSize: file.size,
+          hash,
+          isYouTube: false
+        }
+      });
+      transferredMediaIds.add(mediaId);
+      console.log('[SyncMediaStreamer] ✅ Local media offered to screen:', { mediaId, hash: hash.slice(0, 12) });
+      return;
+    }
+
+    // Создаем информацию о медиа
+    const mediaInfo = await createMediaInfo(
+      mediaId,
+      source.url || '',
+      file || undefined,
+      source.type as 'image' | 'video' | 'audio' | 'youtube' // Pass explicit type from question
+    );
+
+    console.log('[SyncMediaStreamer] Created media info:', {
+      mediaId: mediaInfo.mediaId,
+      mediaType: mediaInfo.mediaType,
+      expectedType: source.type,
+      hasFileData: !!mediaInfo.fileData,
+      hasUrl: !!mediaInfo.url,
+      isLocalFile: mediaInfo.isLocalFile
+    });
+
+    const transferMessage = createMediaTransferMessage(mediaInfo, hostId);
+    onBroadcastMessage(transferMessage);
+    transferredMediaIds.add(mediaId);
+
+    console.log('[SyncMediaStreamer] ✅ Media transferred successfully:', mediaId);
+  } catch (error) {
+    console.error('[SyncMediaStreamer] ❌ Error transferring media:', mediaId, error);
+  }
+}
+
 /**
  * Stream media files synchronously before game state broadcast
  * Это гарантирует, что медиа.transfer сообщения приходят BEFORE GAME_STATE_UPDATE
@@ -51,7 +150,6 @@ export async function streamMediaFilesSynchronously(
   }
 
   console.log('[SyncMediaStreamer] ===== MEDIA STREAMER START =====');
-  console.log('[SyncMediaStreamer] activeQuestion:', activeQuestion);
 
   const question = activeQuestion.question;
 
@@ -59,142 +157,19 @@ export async function streamMediaFilesSynchronously(
     questionId: question.id,
     hasMedia: !!question.media,
     mediaType: question.media?.type,
-    mediaUrl: question.media?.url,
-    hasLocalFile: !!question.media?.localFile,
-    localFileId: question.media?.localFile?.mediaId,
-    hasAnswerMedia: !!question.answerMedia,
-    answerMediaUrl: question.answerMedia?.url
+    hasAnswerMedia: !!question.answerMedia
   });
 
   // Обработка медиа вопроса
   if (question.media) {
-    const mediaId = `question_${question.id}_media`;
-
-    console.log('[SyncMediaStreamer] Processing question media:', {
-      mediaId,
-      type: question.media.type,
-      url: question.media.url?.substring(0, 50),
-      hasLocalFile: !!question.media.localFile,
-      localFileId: question.media.localFile?.mediaId,
-      alreadyTransferred: transferredMediaIds.has(mediaId)
-    });
-
-    if (!transferredMediaIds.has(mediaId)) {
-      try {
-        let file: File | null = null;
-
-        // Попытка получить файл из IndexedDB
-        if (question.media.localFile?.mediaId) {
-          console.log('[SyncMediaStreamer] Getting file from IndexedDB:', question.media.localFile.mediaId);
-          file = await getMediaFile(question.media.localFile.mediaId);
-          console.log('[SyncMediaStreamer] File from IndexedDB:', {
-            found: !!file,
-            fileName: file?.name,
-            fileSize: file?.size,
-            fileType: file?.type
-          });
-        }
-
-        // Создаем информацию о медиа
-        const mediaInfo = await createMediaInfo(
-          mediaId,
-          question.media.url || '',
-          file || undefined,
-          question.media.type as 'image' | 'video' | 'audio' | 'youtube' // Pass explicit type from question
-        );
-
-        console.log('[SyncMediaStreamer] Created media info:', {
-          mediaId: mediaInfo.mediaId,
-          mediaType: mediaInfo.mediaType,
-          expectedType: question.media.type,
-          hasFileData: !!mediaInfo.fileData,
-          hasUrl: !!mediaInfo.url,
-          isLocalFile: mediaInfo.isLocalFile,
-          fileSize: mediaInfo.fileSize
-        });
-
-        const transferMessage = createMediaTransferMessage(mediaInfo, hostId);
-
-        console.log('[SyncMediaStreamer] Sending transfer message:', {
-          messageId: transferMessage.id,
-          mediaId: transferMessage.payload.mediaId,
-          mediaType: transferMessage.payload.mediaType,
-          hasFileData: !!transferMessage.payload.fileData,
-          hasUrl: !!transferMessage.payload.url
-        });
-
-        onBroadcastMessage(transferMessage);
-        transferredMediaIds.add(mediaId);
-
-        console.log('[SyncMediaStreamer] ✅ Question media transferred successfully');
-
-      } catch (error) {
-        console.error('[SyncMediaStreamer] ❌ Error transferring question media:', error);
-      }
-    } else {
-      console.log('[SyncMediaStreamer] Question media already transferred');
-    }
+    await streamMedia(`question_${question.id}_media`, question.media, onBroadcastMessage, hostId);
   } else {
     console.log('[SyncMediaStreamer] No question media to transfer');
   }
 
   // Обработка медиа ответа
   if (question.answerMedia) {
-    console.log('[SyncMediaStreamer] Found answerMedia, starting transfer...');
-    const mediaId = `question_${question.id}_answer_media`;
-
-    console.log('[SyncMediaStreamer] Processing answer media:', {
-      mediaId,
-      type: question.answerMedia.type,
-      url: question.answerMedia.url?.substring(0, 50),
-      hasLocalFile: !!question.answerMedia.localFile,
-      localFileId: question.answerMedia.localFile?.mediaId,
-      alreadyTransferred: transferredMediaIds.has(mediaId)
-    });
-
-    if (!transferredMediaIds.has(mediaId)) {
-      try {
-        let file: File | null = null;
-
-        if (question.answerMedia.localFile?.mediaId) {
-          console.log('[SyncMediaStreamer] Getting answer file from IndexedDB:', question.answerMedia.localFile.mediaId);
-          file = await getMediaFile(question.answerMedia.localFile.mediaId);
-          console.log('[SyncMediaStreamer] Answer file from IndexedDB:', {
-            found: !!file,
-            fileName: file?.name,
-            fileSize: file?.size,
-            fileType: file?.type
-          });
-        }
-
-        const mediaInfo = await createMediaInfo(
-          mediaId,
-          question.answerMedia.url || '',
-          file || undefined,
-          question.answerMedia.type as 'image' | 'video' | 'audio' | 'youtube' // Pass explicit type from question
-        );
-
-        console.log('[SyncMediaStreamer] Created answer media info:', {
-          mediaId: mediaInfo.mediaId,
-          mediaType: mediaInfo.mediaType,
-          expectedType: question.answerMedia.type,
-          hasFileData: !!mediaInfo.fileData,
-          hasUrl: !!mediaInfo.url,
-          isLocalFile: mediaInfo.isLocalFile
-        });
-
-        const transferMessage = createMediaTransferMessage(mediaInfo, hostId);
-        onBroadcastMessage(transferMessage);
-        transferredMediaIds.add(mediaId);
-
-        console.log('[SyncMediaStreamer] ✅ Answer media transferred successfully');
-
-      } catch (error) {
-        console.error('[SyncMediaStreamer] ❌ Error transferring answer media:', error);
-      }
-    } else {
-      console.log('[SyncMediaStreamer] Answer media already transferred');
-    }
+    await streamMedia(`question_${question.id}_answer_media`, question.answerMedia, onBroadcastMessage, hostId);
   } else {
     console.log('[SyncMediaStreamer] No answer media to transfer');
   }
@@ -208,4 +183,5 @@ export async function streamMediaFilesSynchronously(
 export function clearTransferredMediaCache(): void {
   console.log('[SyncMediaStreamer] Clearing transferred media IDs');
   transferredMediaIds.clear();
-}
\ No newline at end of file
+  screenMediaSender.clear();
+}
@@ -0,0 +1,180 @@
+/**
+ * Text Pack Format Tests
+ * Тесты разбора и записи текстового формата пакета (round-trip)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTextPack, packToText, escapeTextValue, TextPackParseError } from './textPackFormat';
+import type { GamePack } from '../components/host/packeditor/types';
+
+const FULL_PACK: GamePack = {
+  id: 'p1',
+  name: 'Full; pack | test',
+  cover: { type: 'url', value: 'https://example.com/cover.png' },
+  gameType: 'custom',
+  createdAt: 0,
+  rounds: [
+    {
+      id: 'r1',
+      number: 1,
+      name: 'First round',
+      type: 'normal',
+      cover: { type: 'url', value: 'https://example.com/r1.jpg' },
+      readingTimePerLetter: 0.07,
+      responseWindow: 15,
+      handicapEnabled: true,
+      handicapDelay: 2.5,
+      themes: [
+        {
+          id: 't1',
+          name: 'Music',
+          color: '#ff0000',
+          textColor: '#ffffff',
+          questions: [
+            {
+              id: 'q1',
+              text: 'Line one;\nline two | with pipe \\ and backslash',
+              points: 100,
+              answerText: 'Yesterday',
+              media: { type: 'audio', url: 'https://example.com/song.mp3' },
+              answerMedia: { type: 'image', url: 'https://example.com/cover.jpg' },
+              hint: {
+                text: 'Beatles',
+                media: { type: 'youtube', url: 'https://www.youtube.com/embed/dQw4w9WgXcQ' },
+                answers: ['A|B', 'C;D'],
+                correctAnswer: 1
+              },
+              timeLimit: 20
+            },
+            {
+              id: 'q2',
+              text: 'Choose',
+              answers: ['One', 'Two', 'Three'],
+              correctAnswer: 2,
+              questionKind: 'catInBag',
+              catInBag: { theme: 'Cats', points: 500 }
+            }
+          ]
+        },
+        { id: 't2', name: 'Empty theme', disabled: true, questions: [] },
+        { id: 't3', name: 'Art', questions: [{ id: 'q3', text: 'Bid', points: 300, questionKind: 'auction' }] }
+      ]
+    },
+    {
+      id: 'r2',
+      number: 2,
+      name: 'Final',
+      type: 'super',
+      disabled: true,
+      themes: [{ id: 't4', name: 'History', questions: [{
+        id: 'q4',
+        text: 'Year?',
+        answerText: '1147',
+        acceptedAnswers: ['1147 год', 'XII | век'],
+        answerMatch: { mode: 'numeric', numericTolerance: 0.5 }
+      }] }]
+    }
+  ]
+};
+
+/** Пакет без id/дат для сравнения после разбора */
+const withoutIds = (pack: GamePack) => ({
+  name: pack.name,
+  cover: pack.cover,
+  gameType: pack.gameType,
+  rounds: pack.rounds.map(({ id: _roundId, ...round }) => ({
+    ...round,
+    themes: round.themes.map(({ id: _themeId, ...theme }) => ({
+      ...theme,
+      questions: (theme.questions || []).map(({ id: _questionId, ...question }) => question)
+    }))
+  }))
+});
+
+describe('textPackFormat', () => {
+  it('should keep every field through pack -> text -> pack', () => {
+    const parsed = parseTextPack(packToText(FULL_PACK));
+    expect(withoutIds(parsed)).toEqual(withoutIds(FULL_PACK));
+  });
+
+  it('should be stable through text -> pack -> text', () => {
+    const text = packToText(FULL_PACK);
+    expect(packToText(parseTextPack(text))).toBe(text);
+  });
+
+  it('should escape separators inside values', () => {
+    expect(escapeTextValue('a;b|c\\d\ne')).toBe('a\\;b\\|c\\\\d\\ne');
+
+    const text = packToText(FULL_PACK);
+    expect(text).toContain('=== Full\\; pack \\| test ===');
+    expect(text).toContain('hintAnswers: A\\|B|C\\;D;');
+    expect(text.split('\n').filter(l => l.startsWith('text: '))[0])
+      .toBe('text: Line one\\;\\nline two \\| with pipe \\\\ and backslash;');
+  });
+
+  it('should read files written by the old serializer', () => {
+    const legacy = [
+      '=== Old pack ===',
+      '',
+      '--- QUESTIONS ---',
+      'round: 1;',
+      'theme: Zoo;',
+      'text: Who; is it;',
+      'points: auto;',
+      'url: https://example.com/cat.png;',
+      'answers: Cat|Dog;',
+      'correctAnswer: 0;',
+      '',
+      'round: 1;',
+      'theme: Zoo;',
+      'text: Second;',
+      'points: 200;',
+      'file: - ;',
+      '',
+      '--- ROUND SETTINGS ---',
+      'round: 1;',
+      'name: Only;',
+      'type: normal;',
+      'cover: -;',
+      'buzzerActivationDelay: 0.1;',
+      '',
+      '--- PACK COVER ---',
+      'cover: url:https://example.com/pack.png;'
+    ].join('\n');
+
+    const pack = parseTextPack(legacy);
+    const [first, second] = pack.rounds[0].themes[0].questions!;
+    expect(first).toMatchObject({ text: 'Who; is it', points: undefined, answers: ['Cat', 'Dog'], correctAnswer: 0 });
+    expect(first.media).toEqual({ type: 'image', url: 'https://example.com/cat.png' });
+    expect(second).toMatchObject({ text: 'Second', points: 200 });
+    expect(pack.rounds[0]).toMatchObject({ name: 'Only', readingTimePerLetter: 0.1 });
+    expect(pack.cover).toEqual({ type: 'url', value: 'https://example.com/pack.png' });
+  });
+
+  it('should report errors with line numbers instead of skipping', () => {
+    const broken = [
+      '--- QUESTIONS ---',
+      'theme: Before round;',
+      'round: 1;',
+      'text: No theme;',
+      'points: lots;',
+      'url: https://example.com/file.xyz;',
+      'color: red;',
+      'round: 1;',
+      'theme: Ok;',
+      'text: missing terminator'
+    ].join('\n');
+
+    let error: unknown;
+    try {
+      parseTextPack(broken);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(TextPackParseError);
+    const errors = (error as TextPackParseError).errors;
+    expect(errors.map(e => e.line)).toEqual([2, 3, 5, 6, 7, 10]);
+    expect(errors[1].message).toBe('Question has no theme');
+    expect((error as Error).message).toMatch(/^Line 2: /);
+  });
+});
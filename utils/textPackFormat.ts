@@ -0,0 +1,586 @@
+/**
+ * Text Pack Format
+ * Текстовый формат пакета (.txt) - чтение и запись, общий для PackEditor и выбора игры.
+ *
+ * Грамматика:
+ *
+ *   file      = { line "\n" }
+ *   line      = header | section | entry | comment | blank
+ *   header    = "=== " packName " ==="
+ *   section   = "--- QUESTIONS ---" | "--- ROUND SETTINGS ---" | "--- THEME SETTINGS ---"
+ *             | "--- PACK SETTINGS ---" | "--- PACK COVER ---"      (старое имя PACK SETTINGS)
+ *   entry     = key ":" value ";"
+ *   comment   = "//" { any }
+ *   key       = letter { letter }
+ *   value     = { char | escape }
+ *   escape    = "\\" | "\;" | "\|" | "\n"
+ *
+ * Значения однострочные: перевод строки пишется как \n, ";" и "|" внутри значения
+ * экранируются. Неэкранированный ";" в середине значения читается как есть (старые файлы).
+ * Списки (answers, hintAnswers, acceptedAnswers) разделяются неэкранированным "|".
+ *
+ * Секции и ключи:
+ * - QUESTIONS: каждый вопрос начинается с "round: N;"
+ *     theme, text, points ("auto" = по позиции), answerText, url, mediaType,
+ *     answers, correctAnswer, answerUrl, answerMediaType,
+ *     hintText, hintUrl, hintMediaType, hintAnswers, hintCorrectAnswer,
+ *     timeLimit, kind (catInBag | auction | noRisk), catTheme, catPoints,
+ *     acceptedAnswers, answerMatch (normalized | exact | fuzzy | numeric), maxDistance, numericTolerance
+ * - ROUND SETTINGS: "round: N;" затем name, type (normal | super), cover ("url:..." или "-"),
+ *     readingTimePerLetter, responseWindow, handicapEnabled, handicapDelay, disabled
+ * - THEME SETTINGS: "round: N;" "theme: Name;" затем color, textColor ("-" = нет), disabled
+ * - PACK SETTINGS: cover, gameType (custom | quiz | trivia)
+ *
+ * Номер раунда - позиция раунда в пакете (1, 2, ...). Порядок тем берётся из THEME SETTINGS,
+ * поэтому темы без вопросов тоже сохраняются. Ошибки собираются с номерами строк и
+ * выбрасываются одним TextPackParseError - ничего не пропускается молча.
+ * Локальные файлы в текст не попадают (для них есть ZIP формат).
+ */
+
+import type { GamePack, Round, Theme, Question, QuestionKind, MediaType, AnswerMatchMode } from '../components/host/packeditor/types';
+import { generateUUID } from './uuid';
+import { convertYouTubeToEmbed } from './mediaUtils';
+
+export interface TextPackError {
+  line: number;     // 1-based
+  message: string;
+}
+
+/**
+ * Ошибка разбора текстового пакета - все найденные ошибки с номерами строк
+ */
+export class TextPackParseError extends Error {
+  constructor(public readonly errors: TextPackError[]) {
+    super(
+      errors.slice(0, 5).map(e => `Line ${e.line}: ${e.message}`).join('\n') +
+      (errors.length > 5 ? `\n...and ${errors.length - 5} more` : '')
+    );
+    this.name = 'TextPackParseError';
+  }
+}
+
+const SECTIONS = {
+  '--- QUESTIONS ---': 'questions',
+  '--- ROUND SETTINGS ---': 'rounds',
+  '--- THEME SETTINGS ---': 'themes',
+  '--- PACK SETTINGS ---': 'pack',
+  '--- PACK COVER ---': 'pack'
+} as const;
+
+type Section = typeof SECTIONS[keyof typeof SECTIONS];
+
+const MEDIA_TYPES: MediaType[] = ['image', 'video', 'audio', 'youtube'];
+const QUESTION_KINDS: QuestionKind[] = ['normal', 'catInBag', 'auction', 'noRisk'];
+const ANSWER_MATCH_MODES: AnswerMatchMode[] = ['normalized', 'exact', 'fuzzy', 'numeric'];
+const GAME_TYPES: NonNullable<GamePack['gameType']>[] = ['custom', 'quiz', 'trivia'];
+
+// ============= ESCAPING =============
+
+/** Экранирование значения для записи в строку "key: value;" */
+export function escapeTextValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Разбивает сырое значение по неэкранированному разделителю и снимает экранирование */
+function splitEscaped(raw: string, separator?: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '\\' && i + 1 < raw.length) {
+      const next = raw[++i];
+      if (next === 'n') current += '\n';
+      else if (next === '\\' || next === ';' || next === '|') current += next;
+      else current += char + next;  // Неизвестная последовательность - как есть (пути Windows в старых файлах)
+    } else if (separator && char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+const unescapeValue = (raw: string): string => splitEscaped(raw)[0];
+
+/** Завершающий ";" не экранирован (перед ним чётное число "\") */
+function endsWithTerminator(line: string): boolean {
+  if (!line.endsWith(';')) return false;
+  let backslashes = 0;
+  for (let i = line.length - 2; i >= 0 && line[i] === '\\'; i--) backslashes++;
+  return backslashes % 2 === 0;
+}
+
+/** Тип медиа по расширению / домену, если mediaType не указан */
+export function detectMediaType(url: string): MediaType | undefined {
+  if (/\.(jpg|jpeg|png|gif|webp|bmp|svg)$/i.test(url)) return 'image';
+  if (/\.(mp4|webm|mov|ogv)$/i.test(url)) return 'video';
+  if (/\.(mp3|wav|ogg|m4a|aac)$/i.test(url)) return 'audio';
+  if (url.includes('youtube.com') || url.includes('youtu.be')) return 'youtube';
+  return undefined;
+}
+
+// ============= PARSER =============
+
+interface DraftMedia {
+  url?: string;
+  type?: MediaType;
+  line: number;
+}
+
+interface DraftQuestion {
+  line: number;
+  roundNum: number;
+  themeName?: string;
+  question: Question;
+  media: DraftMedia;
+  answerMedia: DraftMedia;
+  hintMedia: DraftMedia;
+  catTheme?: string;
+  catPoints?: number;
+  matchMode?: AnswerMatchMode;
+  maxDistance?: number;
+  numericTolerance?: number;
+}
+
+interface DraftRound {
+  settings: Partial<Round>;
+  themeOrder: string[];                           // Порядок тем из THEME SETTINGS
+  themeSettings: Map<string, Partial<Theme>>;
+}
+
+/**
+ * Разбирает текстовый пакет
+ * @throws TextPackParseError со списком ошибок и номерами строк
+ */
+export function parseTextPack(content: string): GamePack {
+  const lines = content.split(/\r?\n/);
+  const errors: TextPackError[] = [];
+  const fail = (line: number, message: string) => errors.push({ line, message });
+
+  let packName = 'Imported Pack';
+  let packCover: GamePack['cover'];
+  let gameType: GamePack['gameType'];
+  let section: Section | null = null;
+
+  const rounds = new Map<number, DraftRound>();
+  const draftRound = (num: number): DraftRound => {
+    if (!rounds.has(num)) rounds.set(num, { settings: {}, themeOrder: [], themeSettings: new Map() });
+    return rounds.get(num)!;
+  };
+  const questions: DraftQuestion[] = [];
+
+  let currentQuestion: DraftQuestion | null = null;
+  let currentRoundNum: number | null = null;
+  let currentThemeName: string | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const lineNo = index + 1;
+    const trimmed = rawLine.trim();
+
+    if (!trimmed || trimmed.startsWith('//')) return;
+
+    if (trimmed.startsWith('=== ') && trimmed.endsWith(' ===')) {
+      packName = unescapeValue(trimmed.slice(4, -4).trim()) || packName;
+      return;
+    }
+
+    if (trimmed.startsWith('---')) {
+      const next = SECTIONS[trimmed as keyof typeof SECTIONS];
+      if (next) {
+        section = next;
+        currentRoundNum = null;
+        currentThemeName = null;
+      } else {
+        fail(lineNo, `Unknown section "${trimmed}"`);
+      }
+      return;
+    }
+
+    const colonIndex = trimmed.indexOf(':');
+    if (colonIndex <= 0 || !endsWithTerminator(trimmed)) {
+      fail(lineNo, 'Expected "key: value;"');
+      return;
+    }
+    const key = trimmed.slice(0, colonIndex).trim();
+    const raw = trimmed.slice(colonIndex + 1, -1).trim();
+    const value = unescapeValue(raw);
+
+    if (!/^[A-Za-z]+$/.test(key)) {
+      fail(lineNo, `Invalid key "${key}"`);
+      return;
+    }
+    if (!section) {
+      fail(lineNo, `"${key}" is outside of a section`);
+      return;
+    }
+
+    // Числа и флаги - с ошибкой вместо NaN
+    const int = (): number | undefined => {
+      if (!/^-?\d+$/.test(value)) {
+        fail(lineNo, `${key} must be an integer, got "${value}"`);
+        return undefined;
+      }
+      return parseInt(value, 10);
+    };
+    const float = (): number | undefined => {
+      const num = Number(value);
+      if (value === '' || isNaN(num)) {
+        fail(lineNo, `${key} must be a number, got "${value}"`);
+        return undefined;
+      }
+      return num;
+    };
+    const bool = (): boolean | undefined => {
+      if (value !== 'true' && value !== 'false') {
+        fail(lineNo, `${key} must be true or false, got "${value}"`);
+        return undefined;
+      }
+      return value === 'true';
+    };
+    const oneOf = <T extends string>(allowed: readonly T[]): T | undefined => {
+      if (!allowed.includes(value as T)) {
+        fail(lineNo, `${key} must be one of ${allowed.join(', ')}, got "${value}"`);
+        return undefined;
+      }
+      return value as T;
+    };
+    const roundNumber = (): number | undefined => {
+      const num = int();
+      if (num !== undefined && num < 1) {
+        fail(lineNo, 'round must be 1 or greater');
+        return undefined;
+      }
+      return num;
+    };
+    // "url:https://..." - тип до первого двоеточия
+    const cover = (): Round['cover'] | undefined => {
+      if (value === '-' || value === '') return undefined;
+      const typeEnd = value.indexOf(':');
+      const type = value.slice(0, typeEnd);
+      return type === 'url' || type === 'file'
+        ? { type, value: value.slice(typeEnd + 1) }
+        : { type: 'url', value };
+    };
+
+    if (section === 'questions') {
+      if (key === 'round') {
+        const num = roundNumber();
+        currentQuestion = {
+          line: lineNo,
+          roundNum: num ?? 1,
+          question: { id: generateUUID(), text: '' },
+          media: { line: lineNo },
+          answerMedia: { line: lineNo },
+          hintMedia: { line: lineNo }
+        };
+        questions.push(currentQuestion);
+        return;
+      }
+      if (!currentQuestion) {
+        fail(lineNo, `"${key}" before "round:" - each question starts with "round: N;"`);
+        return;
+      }
+      const draft = currentQuestion;
+      const q = draft.question;
+      const hint = () => (q.hint = q.hint || {});
+
+      switch (key) {
+        case 'theme': draft.themeName = value; break;
+        case 'text': q.text = value; break;
+        case 'points': q.points = value === 'auto' ? undefined : int(); break;
+        case 'answerText': q.answerText = value || undefined; break;
+        case 'url': draft.media = { ...draft.media, url: value, line: lineNo }; break;
+        case 'mediaType': draft.media.type = oneOf(MEDIA_TYPES); break;
+        case 'file': break;  // Старый формат писал "file: - ;" для вопросов без медиа
+        case 'answers': q.answers = splitEscaped(raw, '|'); break;
+        case 'correctAnswer': q.correctAnswer = int(); break;
+        case 'answerUrl': draft.answerMedia = { ...draft.answerMedia, url: value, line: lineNo }; break;
+        case 'answerMediaType': draft.answerMedia.type = oneOf(MEDIA_TYPES); break;
+        case 'hintText': hint().text = value; break;
+        case 'hintUrl': draft.hintMedia = { ...draft.hintMedia, url: value, line: lineNo }; break;
+        case 'hintMediaType': draft.hintMedia.type = oneOf(MEDIA_TYPES); break;
+        case 'hintAnswers': hint().answers = splitEscaped(raw, '|'); break;
+        case 'hintCorrectAnswer': hint().correctAnswer = int(); break;
+        case 'timeLimit': q.timeLimit = int(); break;
+        case 'kind': {
+          const kind = oneOf(QUESTION_KINDS);
+          q.questionKind = kind === 'normal' ? undefined : kind;
+          break;
+        }
+        case 'catTheme': draft.catTheme = value; break;
+        case 'catPoints': draft.catPoints = int(); break;
+        case 'acceptedAnswers': q.acceptedAnswers = splitEscaped(raw, '|'); break;
+        case 'answerMatch': draft.matchMode = oneOf(ANSWER_MATCH_MODES); break;
+        case 'maxDistance': draft.maxDistance = int(); break;
+        case 'numericTolerance': draft.numericTolerance = float(); break;
+        default: fail(lineNo, `Unknown question field "${key}"`);
+      }
+    } else if (section === 'rounds') {
+      if (key === 'round') {
+        currentRoundNum = roundNumber() ?? null;
+        if (currentRoundNum !== null) draftRound(currentRoundNum);
+        return;
+      }
+      if (currentRoundNum === null) {
+        fail(lineNo, `"${key}" before "round:"`);
+        return;
+      }
+      const settings = draftRound(currentRoundNum).settings;
+      switch (key) {
+        case 'name': settings.name = value; break;
+        case 'type': settings.type = oneOf<'normal' | 'super'>(['normal', 'super']); break;
+        case 'cover': settings.cover = cover(); break;
+        case 'readingTimePerLetter':
+        case 'buzzerActivationDelay':  // Старое имя readingTimePerLetter
+          settings.readingTimePerLetter = float(); break;
+        case 'responseWindow': settings.responseWindow = float(); break;
+        case 'handicapEnabled': settings.handicapEnabled = bool(); break;
+        case 'handicapDelay': settings.handicapDelay = float(); break;
+        case 'disabled': settings.disabled = bool() || undefined; break;
+        default: fail(lineNo, `Unknown round setting "${key}"`);
+      }
+    } else if (section === 'themes') {
+      if (key === 'round') {
+        currentRoundNum = roundNumber() ?? null;
+        currentThemeName = null;
+        return;
+      }
+      if (key === 'theme') {
+        if (currentRoundNum === null) {
+          fail(lineNo, '"theme" before "round:"');
+          return;
+        }
+        currentThemeName = value;
+        const round = draftRound(currentRoundNum);
+        if (!round.themeSettings.has(value)) {
+          round.themeOrder.push(value);
+          round.themeSettings.set(value, {});
+        }
+        return;
+      }
+      if (currentRoundNum === null || currentThemeName === null) {
+        fail(lineNo, `"${key}" before "round:" and "theme:"`);
+        return;
+      }
+      const settings = draftRound(currentRoundNum).themeSettings.get(currentThemeName)!;
+      switch (key) {
+        case 'color': settings.color = value === '-' ? undefined : value; break;
+        case 'textColor': settings.textColor = value === '-' ? undefined : value; break;
+        case 'disabled': settings.disabled = bool() || undefined; break;
+        default: fail(lineNo, `Unknown theme setting "${key}"`);
+      }
+    } else if (section === 'pack') {
+      switch (key) {
+        case 'cover': packCover = cover(); break;
+        case 'gameType': gameType = oneOf(GAME_TYPES); break;
+        default: fail(lineNo, `Unknown pack setting "${key}"`);
+      }
+    }
+  });
+
+  // Медиа: тип из mediaType или по URL, YouTube -> embed
+  const buildMedia = (media: DraftMedia, label: string) => {
+    if (!media.url) {
+      if (media.type) fail(media.line, `${label} type without ${label} url`);
+      return undefined;
+    }
+    const type = media.type || detectMediaType(media.url);
+    if (!type) {
+      fail(media.line, `Cannot detect ${label} type of "${media.url}" - add the type field`);
+      return undefined;
+    }
+    return { type, url: type === 'youtube' ? convertYouTubeToEmbed(media.url) : media.url };
+  };
+
+  for (const draft of questions) {
+    const q = draft.question;
+    if (!draft.themeName) {
+      fail(draft.line, 'Question has no theme');
+    } else {
+      const round = draftRound(draft.roundNum);
+      if (!round.themeSettings.has(draft.themeName)) {
+        round.themeOrder.push(draft.themeName);
+        round.themeSettings.set(draft.themeName, {});
+      }
+    }
+
+    const media = buildMedia(draft.media, 'media');
+    if (media) q.media = media;
+    const answerMedia = buildMedia(draft.answerMedia, 'answer media');
+    if (answerMedia) q.answerMedia = answerMedia;
+    const hintMedia = buildMedia(draft.hintMedia, 'hint media');
+    if (hintMedia) q.hint = { ...q.hint, media: hintMedia };
+
+    if ((draft.catTheme || draft.catPoints !== undefined) && q.questionKind !== 'catInBag') {
+      fail(draft.line, 'catTheme/catPoints are only allowed with "kind: catInBag;"');
+    } else if (draft.catTheme || draft.catPoints !== undefined) {
+      q.catInBag = {
+        ...(draft.catTheme ? { theme: draft.catTheme } : {}),
+        ...(draft.catPoints !== undefined ? { points: draft.catPoints } : {})
+      };
+    }
+
+    if (draft.maxDistance !== undefined && draft.matchMode !== 'fuzzy') {
+      fail(draft.line, 'maxDistance is only allowed with "answerMatch: fuzzy;"');
+    } else if (draft.numericTolerance !== undefined && draft.matchMode !== 'numeric') {
+      fail(draft.line, 'numericTolerance is only allowed with "answerMatch: numeric;"');
+    } else if (draft.matchMode && draft.matchMode !== 'normalized') {
+      q.answerMatch = {
+        mode: draft.matchMode,
+        ...(draft.maxDistance !== undefined ? { maxDistance: draft.maxDistance } : {}),
+        ...(draft.numericTolerance !== undefined ? { numericTolerance: draft.numericTolerance } : {})
+      };
+    }
+  }
+
+  if (errors.length > 0) {
+    errors.sort((a, b) => a.line - b.line);
+    throw new TextPackParseError(errors);
+  }
+
+  // Сборка: раунды по номеру, темы в порядке THEME SETTINGS / первого вопроса
+  const roundList: Round[] = Array.from(rounds.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([num, draft]) => {
+      const themes: Theme[] = draft.themeOrder.map(name => ({
+        id: generateUUID(),
+        name,
+        ...draft.themeSettings.get(name),
+        questions: questions
+          .filter(q => q.roundNum === num && q.themeName === name)
+          .map(q => q.question)
+      }));
+      return {
+        id: generateUUID(),
+        number: num,
+        ...draft.settings,
+        name: draft.settings.name || `Round ${num}`,
+        type: draft.settings.type || 'normal',
+        themes
+      };
+    });
+
+  return {
+    id: generateUUID(),
+    name: packName,
+    ...(packCover ? { cover: packCover } : {}),
+    gameType: gameType || 'custom',
+    rounds: roundList,
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  };
+}
+
+// ============= SERIALIZER =============
+
+/**
+ * Записывает пакет в текстовый формат (все поля, кроме локальных файлов)
+ * Номер раунда в тексте - его позиция в пакете
+ */
+export function packToText(pack: GamePack): string {
+  const lines: string[] = [];
+  const entry = (key: string, value: string | number | boolean) =>
+    lines.push(`${key}: ${typeof value === 'string' ? escapeTextValue(value) : value};`);
+  const optional = (key: string, value: string | number | boolean | undefined) => {
+    if (value !== undefined && value !== '') entry(key, value);
+  };
+  const mediaEntries = (prefix: '' | 'answer' | 'hint', media: Question['media']) => {
+    if (!media?.url) return;
+    entry(prefix ? `${prefix}Url` : 'url', media.url);
+    entry(prefix ? `${prefix}MediaType` : 'mediaType', media.type);
+  };
+  const list = (values: string[]) => values.map(escapeTextValue).join('|');
+
+  lines.push(`=== ${escapeTextValue(pack.name)} ===`);
+  lines.push('');
+
+  lines.push('--- QUESTIONS ---');
+  lines.push('');
+  pack.rounds.forEach((round, roundIndex) => {
+    round.themes.forEach(theme => {
+      (theme.questions || []).forEach(q => {
+        entry('round', roundIndex + 1);
+        entry('theme', theme.name);
+        entry('text', q.text || '');
+        entry('points', q.points ?? 'auto');
+        optional('answerText', q.answerText);
+        if (q.acceptedAnswers && q.acceptedAnswers.length > 0) {
+          lines.push(`acceptedAnswers: ${list(q.acceptedAnswers)};`);
+        }
+        if (q.answerMatch) {
+          entry('answerMatch', q.answerMatch.mode);
+          optional('maxDistance', q.answerMatch.maxDistance);
+          optional('numericTolerance', q.answerMatch.numericTolerance);
+        }
+        mediaEntries('', q.media);
+        if (q.answers && q.answers.length > 0) {
+          lines.push(`answers: ${list(q.answers)};`);
+          optional('correctAnswer', q.correctAnswer);
+        }
+        mediaEntries('answer', q.answerMedia);
+        if (q.hint) {
+          optional('hintText', q.hint.text);
+          mediaEntries('hint', q.hint.media);
+          if (q.hint.answers && q.hint.answers.length > 0) {
+            lines.push(`hintAnswers: ${list(q.hint.answers)};`);
+            optional('hintCorrectAnswer', q.hint.correctAnswer);
+          }
+        }
+        optional('timeLimit', q.timeLimit);
+        if (q.questionKind && q.questionKind !== 'normal') {
+          entry('kind', q.questionKind);
+          if (q.questionKind === 'catInBag') {
+            optional('catTheme', q.catInBag?.theme);
+            optional('catPoints', q.catInBag?.points);
+          }
+        }
+        lines.push('');
+      });
+    });
+  });
+
+  lines.push('--- ROUND SETTINGS ---');
+  lines.push('');
+  pack.rounds.forEach((round, roundIndex) => {
+    entry('round', roundIndex + 1);
+    entry('name', round.name || `Round ${roundIndex + 1}`);
+    entry('type', round.type ?? 'normal');
+    entry('cover', round.cover?.value ? `${round.cover.type}:${round.cover.value}` : '-');
+    optional('readingTimePerLetter', round.readingTimePerLetter);
+    optional('responseWindow', round.responseWindow);
+    optional('handicapEnabled', round.handicapEnabled);
+    optional('handicapDelay', round.handicapDelay);
+    if (round.disabled) entry('disabled', true);
+    lines.push('');
+  });
+
+  lines.push('--- THEME SETTINGS ---');
+  lines.push('');
+  pack.rounds.forEach((round, roundIndex) => {
+    round.themes.forEach(theme => {
+      entry('round', roundIndex + 1);
+      entry('theme', theme.name);
+      entry('color', theme.color || '-');
+      entry('textColor', theme.textColor || '-');
+      if (theme.disabled) entry('disabled', true);
+      lines.push('');
+    });
+  });
+
+  if (pack.cover?.value || pack.gameType) {
+    lines.push('--- PACK SETTINGS ---');
+    lines.push('');
+    if (pack.cover?.value) entry('cover', `${pack.cover.type}:${pack.cover.value}`);
+    optional('gameType', pack.gameType);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
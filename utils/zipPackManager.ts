@@ -8,22 +8,23 @@ import type { GamePack } from '../components/host/packeditor/types';
 import { saveAs } from 'file-saver';
 import type { LocalFileInfo } from '../components/host/packeditor/types';
 import { saveMediaFile, generateMediaId } from './mediaManager';
+import { loadPackFromSiq } from './siqPackManager';
 
 /**
- * Сохраняет пакет как ZIP архив с медиа файлами
+ * Медиа файл пака, полученный из blob URL
  */
-export async function savePackAsZip(pack: GamePack): Promise<void> {
-  console.log('📦 Создание ZIP архива для пака:', pack.name);
-
-  const zip = new JSZip();
-
-  // 1. Сохраняем JSON данные пака
-  const packJson = JSON.stringify(pack, null, 2);
-  zip.file('pack.json', packJson);
-  console.log('📄 pack.json добавлен в архив');
+export interface CollectedMediaBlob {
+  blob: Blob;
+  fileName: string;     // Уникальное имя файла с расширением (question_<id>_<time>.png)
+  originalUrl: string;
+}
 
-  // 2. Собираем все blob URL и их пути в архиве
-  const blobUrls = new Map<string, { blob: Blob; path: string; originalUrl: string }>();
+/**
+ * Собирает все blob URL медиа пака (обложки, медиа вопросов и ответов)
+ * Используется при сохранении в ZIP и экспорте в .siq
+ */
+export async function collectPackMediaBlobs(pack: GamePack): Promise<Map<string, CollectedMediaBlob>> {
+  const blobUrls = new Map<string, CollectedMediaBlob>();
 
   // Функция для обработки медиа элемента
   const processMedia = async (mediaUrl: string | undefined, mediaPath: string) => {
@@ -59,67 +60,81 @@ export async function savePackAsZip(pack: GamePack): Promise<void> {
 
       // Создаем уникальное имя файла
       const fileName = `${mediaPath.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.${extension}`;
-      const filePath = `media/${fileName}`;
 
-      blobUrls.set(mediaUrl, { blob, path: filePath, originalUrl: mediaUrl });
+      blobUrls.set(mediaUrl, { blob, fileName, originalUrl: mediaUrl });
 
-      console.log(`📁 Файл добавлен в очередь: ${filePath}`);
+      console.log(`📁 Файл добавлен в очередь: ${fileName}`);
     } catch (error) {
       console.error(`❌ Ошибка получения blob для ${mediaPath}:`, error);
     }
   };
 
   // Обходим все медиа элементы в паке
-  const processAllMedia = async () => {
-    console.log('🔍 Сканирование пакета на наличие медиа файлов...');
+  console.log('🔍 Сканирование пакета на наличие медиа файлов...');
+
+  let processedCount = 0;
+  let skippedCount = 0;
 
-    let processedCount = 0;
-    let skippedCount = 0;
+  if (pack.cover?.value?.startsWith('blob:')) {
+    await processMedia(pack.cover.value, 'pack_cover');
+    processedCount++;
+  } else {
+    skippedCount++;
+  }
 
-    if (pack.cover?.value?.startsWith('blob:')) {
-      await processMedia(pack.cover.value, 'pack_cover');
+  for (const round of pack.rounds || []) {
+    if (round.cover?.value?.startsWith('blob:')) {
+      await processMedia(round.cover.value, `round_${round.number}_cover`);
       processedCount++;
     } else {
       skippedCount++;
     }
 
-    for (const round of pack.rounds || []) {
-      if (round.cover?.value?.startsWith('blob:')) {
-        await processMedia(round.cover.value, `round_${round.number}_cover`);
-        processedCount++;
-      } else {
-        skippedCount++;
-      }
-
-      for (const theme of round.themes || []) {
-        for (const question of theme.questions || []) {
-          if (question.media?.url?.startsWith('blob:')) {
-            await processMedia(question.media.url, `question_${question.id}`);
-            processedCount++;
-          } else {
-            skippedCount++;
-          }
+    for (const theme of round.themes || []) {
+      for (const question of theme.questions || []) {
+        if (question.media?.url?.startsWith('blob:')) {
+          await processMedia(question.media.url, `question_${question.id}`);
+          processedCount++;
+        } else {
+          skippedCount++;
+        }
 
-          if (question.answerMedia?.url?.startsWith('blob:')) {
-            await processMedia(question.answerMedia.url, `answer_${question.id}`);
-            processedCount++;
-          } else {
-            skippedCount++;
-          }
+        if (question.answerMedia?.url?.startsWith('blob:')) {
+          await processMedia(question.answerMedia.url, `answer_${question.id}`);
+          processedCount++;
+        } else {
+          skippedCount++;
         }
       }
     }
+  }
 
-    console.log(`📊 Статистика сканирования: ${processedCount} blob URL, ${skippedCount} пропущено`);
-  };
+  console.log(`📊 Статистика сканирования: ${processedCount} blob URL, ${skippedCount} пропущено`);
+
+  return blobUrls;
+}
+
+/**
+ * Сохраняет пакет как ZIP архив с медиа файлами
+ */
+export async function savePackAsZip(pack: GamePack): Promise<void> {
+  console.log('📦 Создание ZIP архива для пака:', pack.name);
 
-  // Ждем загрузки всех blobs
-  await processAllMedia();
+  const zip = new JSZip();
+
+  // 1. Сохраняем JSON данные пака
+  const packJson = JSON.stringify(pack, null, 2);
+  zip.file('pack.json', packJson);
+  console.log('📄 pack.json добавлен в архив');
+
+  // 2. Собираем все blob URL и их пути в архиве
+  const blobUrls = await collectPackMediaBlobs(pack);
 
   // 3. Добавляем медиа файлы в архив
   console.log(`📁 Добавление ${blobUrls.size} файлов в архив...`);
 
-  for (const [originalUrl, { blob, path }] of blobUrls) {
+  for (const [originalUrl, { blob, fileName }] of blobUrls) {
+    const path = `media/${fileName}`;
     zip.file(path, blob);
 
     // Сохраняем информацию о файле в метаданных
@@ -167,6 +182,11 @@ export async function loadPackFromZip(file: File): Promise<GamePack> {
   // 1. Загружаем JSON данные
   const packJsonFile = zip.file('pack.json');
   if (!packJsonFile) {
+    // Пакет SIGame (.siq или переименованный в .zip)
+    if (zip.file('content.xml')) {
+      const { pack } = await loadPackFromSiq(zip, file.name);
+      return pack;
+    }
     throw new Error('pack.json не найден в архиве');
   }
 